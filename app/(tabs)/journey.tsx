@@ -3,6 +3,8 @@ import { View, StyleSheet, StatusBar, Text, TouchableOpacity, Alert } from 'reac
 import { JourneyMap } from '../../components/JourneyMap';
 import { JourneyConsentModal } from '../../components/JourneyConsentModal';
 import { useJourneyStore } from '../../store/journeyStore';
+import { useConsentStore } from '../../store/consentStore';
+import { grantConsent } from '../../utils/consent';
 import { colors } from '../../constants/colors';
 import { MapPin } from 'lucide-react-native';
 
@@ -20,8 +22,9 @@ const defaultProgress = {
 
 export default function JourneyScreen() {
   const { settings, progress, initializeJourney, startJourney, toggleJourney } = useJourneyStore();
+  const hasJourneyConsent = useConsentStore(state => state.hasConsent('journeyLocation'));
+  const recordConsent = useConsentStore(state => state.recordConsent);
   const [showConsent, setShowConsent] = useState(false);
-  const [hasShownConsent, setHasShownConsent] = useState(false);
 
   // Debug logging
   console.log('Journey Screen - Settings:', settings);
@@ -33,14 +36,13 @@ export default function JourneyScreen() {
   console.log('Journey Screen - Should show map:', settings.enabled && progress.isStarted);
 
   useEffect(() => {
-    // Only show consent modal if journey is enabled but consent hasn't been shown yet
-    if (settings.enabled && !hasShownConsent) {
+    // Ask for consent when the journey is enabled without it under the current policy
+    if (settings.enabled && !hasJourneyConsent) {
       setShowConsent(true);
-      setHasShownConsent(true);
     } else if (settings.enabled) {
       initializeJourney();
     }
-  }, [settings.enabled, hasShownConsent]);
+  }, [settings.enabled, hasJourneyConsent]);
 
   // Monitor progress changes
   useEffect(() => {
@@ -48,14 +50,14 @@ export default function JourneyScreen() {
   }, [progress]);
 
   const handleAcceptJourney = () => {
+    grantConsent('journeyLocation', 'prompt');
     setShowConsent(false);
-    initializeJourney();
   };
 
   const handleDeclineJourney = () => {
+    recordConsent('journeyLocation', false, 'prompt');
     toggleJourney(false);
     setShowConsent(false);
-    setHasShownConsent(false);
   };
 
   const handleStartJourney = () => {
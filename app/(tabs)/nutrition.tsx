@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Platform } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
-import { Plus, ChevronRight, UtensilsCrossed, BarChart, Calendar, ArrowLeft, Info, Coffee, Sun, Moon, Droplets, Lightbulb, Bell } from 'lucide-react-native';
+import { Plus, ChevronRight, UtensilsCrossed, BarChart, Calendar, ArrowLeft, Info, Coffee, Sun, Moon, Droplets, Lightbulb, Bell, ChefHat, CalendarDays, Flame } from 'lucide-react-native';
 import { useTheme } from '@/context/ThemeContext';
 import { useMacroStore } from '@/store/macroStore';
 import { useGamificationStore } from '@/store/gamificationStore';
@@ -225,6 +225,30 @@ export default function NutritionScreen() {
                 <Text style={[styles.quickActionText, { color: colors.text }]}>Snack</Text>
               </TouchableOpacity>
               
+              <TouchableOpacity 
+                style={[styles.quickActionButton, { backgroundColor: colors.card }]}
+                onPress={() => router.push('/recipes')}
+              >
+                <ChefHat size={20} color={colors.primary} />
+                <Text style={[styles.quickActionText, { color: colors.text }]}>Recipes</Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity 
+                style={[styles.quickActionButton, { backgroundColor: colors.card }]}
+                onPress={() => router.push('/meal-planner')}
+              >
+                <CalendarDays size={20} color={colors.primary} />
+                <Text style={[styles.quickActionText, { color: colors.text }]}>Meal Plan</Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity 
+                style={[styles.quickActionButton, { backgroundColor: colors.card }]}
+                onPress={() => router.push('/expenditure')}
+              >
+                <Flame size={20} color={colors.primary} />
+                <Text style={[styles.quickActionText, { color: colors.text }]}>Expenditure</Text>
+              </TouchableOpacity>
+              
               <TouchableOpacity 
                 style={[styles.quickActionButton, { backgroundColor: colors.success }]}
                 onPress={testWaterNotification}
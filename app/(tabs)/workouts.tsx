@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from "react";
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Image, Dimensions, Alert } from "react-native";
 import { useRouter } from "expo-router";
-import { Search, Filter, Zap, Activity, Dumbbell, ChevronRight, Info } from "lucide-react-native";
+import { Search, Filter, Zap, Activity, Dumbbell, ChevronRight, Info, CalendarRange } from "lucide-react-native";
 import { useTheme } from "@/context/ThemeContext";
 import { useWorkoutStore } from "@/store/workoutStore";
 import { useMacroStore } from "@/store/macroStore";
+import { useProgramStore } from "@/store/programStore";
 import WorkoutCard from "@/components/WorkoutCard";
 import MuscleGroupSelector from "@/components/MuscleGroupSelector";
 import EquipmentSelector from "@/components/EquipmentSelector";
@@ -29,6 +30,10 @@ export default function WorkoutsScreen() {
   } = useWorkoutStore();
   
   const { userProfile } = useMacroStore();
+  const { getActiveEnrollment, getProgram } = useProgramStore();
+  
+  const activeEnrollment = getActiveEnrollment();
+  const activeProgram = activeEnrollment ? getProgram(activeEnrollment.programId) : null;
   
   const [searchQuery, setSearchQuery] = useState("");
   const [showRecommendedOnly, setShowRecommendedOnly] = useState(false);
@@ -279,6 +284,23 @@ export default function WorkoutsScreen() {
               </View>
             </View>
             
+            {/* Training Programs */}
+            <TouchableOpacity 
+              style={[styles.programCard, { backgroundColor: colors.card }]}
+              onPress={() => router.push("/programs")}
+            >
+              <View style={[styles.cardioIcon, { backgroundColor: "rgba(155, 89, 182, 0.1)", marginBottom: 0 }]}>
+                <CalendarRange size={24} color="#9b59b6" />
+              </View>
+              <View style={styles.programInfo}>
+                <Text style={[styles.cardioName, { color: colors.text }]}>Training Programs</Text>
+                <Text style={[styles.cardioDescription, { color: colors.textSecondary }]}>
+                  {activeProgram ? `Following ${activeProgram.name}` : "Multi-week plans with built-in progression"}
+                </Text>
+              </View>
+              <ChevronRight size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+            
             {workoutRecommendationsEnabled && recommendedWorkouts.length > 0 && !showRecommendedOnly && (
               <View style={[styles.recommendedSection, { backgroundColor: colors.card }]}>
                 <Text style={[styles.recommendedTitle, { color: colors.text }]}>Recommended For You</Text>
@@ -561,6 +583,22 @@ const styles = StyleSheet.create({
   cardioDescription: {
     fontSize: 12,
   },
+  programCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  programInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
   recommendedSection: {
     marginBottom: 24,
     borderRadius: 12,
@@ -0,0 +1,16 @@
+// Files shared to the app ("Open in" / "Open with") arrive as file:// or
+// content:// URLs. Activity files are sent to the import screen; everything
+// else is routed as usual.
+const SHARED_FILE_PATTERN = /^(file|content):\/\//i;
+
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    if (SHARED_FILE_PATTERN.test(path)) {
+      return `/import-activity?uri=${encodeURIComponent(path)}`;
+    }
+    return path;
+  } catch (error) {
+    console.error('Error handling incoming link:', error);
+    return '/';
+  }
+}
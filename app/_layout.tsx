@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Stack, useRouter } from 'expo-router';
 import { ThemeProvider } from '@/context/ThemeContext';
-import { View, Text, StyleSheet, Image, TouchableOpacity, Animated, Dimensions, TextInput, ScrollView, Platform, ActivityIndicator, Alert, AppState, Keyboard, TouchableWithoutFeedback } from 'react-native';
+import { View, Text, StyleSheet, Image, TouchableOpacity, Animated, Dimensions, TextInput, ScrollView, Platform, ActivityIndicator, Alert, AppState, Keyboard, TouchableWithoutFeedback, Modal } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Notifications from 'expo-notifications';
 import { useGamificationStore } from '@/store/gamificationStore';
@@ -17,6 +17,9 @@ import NotificationHandler from '@/components/NotificationHandler';
 import NotificationPermissionModal from '@/components/NotificationPermissionModal';
 import { useNotificationPermission } from '@/hooks/useNotificationPermission';
 import HealthKit from '@/src/NativeModules/HealthKit';
+import LockScreen from '@/components/LockScreen';
+import PrivacyScreen from '@/components/PrivacyScreen';
+import { useAppLockStore } from '@/store/appLockStore';
 
 // App name
 export const APP_NAME = "FitQuest";
@@ -28,6 +31,7 @@ export default function RootLayout() {
   const [showLoadingScreen, setShowLoadingScreen] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [appState, setAppState] = useState(AppState.currentState);
+  const [showPrivacyScreen, setShowPrivacyScreen] = useState(false);
   
   // Notification permission hook
   const {
@@ -44,6 +48,9 @@ export default function RootLayout() {
     setOnboardingCompleted 
   } = useGamificationStore();
   
+  const { isLocked, privacyScreenEnabled, hasHydrated: lockHydrated } = useAppLockStore();
+  const showCover = !lockHydrated || (showPrivacyScreen && privacyScreenEnabled);
+  
   const { userProfile, updateUserProfile } = useMacroStore();
   const { workoutRecommendationsEnabled, toggleWorkoutRecommendations, setAiRecommendationsExplained } = useWorkoutStore();
   
@@ -118,6 +125,19 @@ export default function RootLayout() {
   // Handle app state changes to prevent crashes
   useEffect(() => {
     const handleAppStateChange = (nextAppState: string) => {
+      // App lock: hide content from the app switcher and start the auto-lock clock.
+      // iOS passes through 'inactive' on the way to 'background', so check each state
+      const appLock = useAppLockStore.getState();
+      if (nextAppState === 'active') {
+        appLock.checkAutoLock();
+        setShowPrivacyScreen(false);
+      } else {
+        if (nextAppState === 'background') {
+          appLock.markBackgrounded();
+        }
+        setShowPrivacyScreen(appLock.privacyScreenEnabled);
+      }
+
       if (appState.match(/inactive|background/) && nextAppState === 'active') {
         // App has come to the foreground
 
@@ -1092,10 +1112,23 @@ export default function RootLayout() {
           
           {/* Notification Permission Modal */}
           <NotificationPermissionModal
-            visible={showPermissionModal}
+            visible={showPermissionModal && !isLocked}
             onClose={handlePermissionDeclined}
             onPermissionGranted={handlePermissionGranted}
           />
+          
+          {/* App lock, and a cover until we know whether it's on. Presented in a
+              modal so it also covers any modal a screen has open */}
+          <Modal
+            visible={isLocked || showCover}
+            transparent
+            animationType="none"
+            statusBarTranslucent
+            onRequestClose={() => {}}
+          >
+            {isLocked && <LockScreen />}
+            {showCover && <PrivacyScreen />}
+          </Modal>
         </>
       )}
     </ThemeProvider>
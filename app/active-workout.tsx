@@ -40,7 +40,11 @@ import {
   MinusCircle,
   PlusCircle,
   ArrowRight,
-  Minimize
+  Minimize,
+  Heart,
+  TrendingUp,
+  TrendingDown,
+  Settings
 } from "lucide-react-native";
 import * as ImagePicker from "expo-image-picker";
 import * as Speech from 'expo-speech';
@@ -50,7 +54,7 @@ import { useWorkoutStore } from "@/store/workoutStore";
 import { useNotificationStoreState } from "@/store/notificationStore";
 import { usePhotoStore, MediaType } from "@/store/photoStore";
 import { useHealthStore } from "@/store/healthStore";
-import { WorkoutSet, WorkoutRating, PersonalRecord, WorkoutMedia } from "@/types";
+import { WorkoutSet, WorkoutRating, PersonalRecord, WorkoutMedia, ExerciseLog, SetType } from "@/types";
 import Timer from "@/components/Timer";
 import Button from "@/components/Button";
 import RestTimerModal from "@/components/RestTimerModal";
@@ -60,6 +64,20 @@ import { useTheme } from "@/context/ThemeContext";
 import PRCelebrationModal from "@/components/PRCelebrationModal";
 import DraggableExerciseCard from "@/components/DraggableExerciseCard";
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import useHeartRateMonitor from "@/hooks/useHeartRateMonitor";
+import { formatSetTarget } from "@/utils/programUtils";
+import { formatSuggestion } from "@/utils/progression";
+import {
+  GROUP_TYPE_LABELS,
+  describeExerciseGroup,
+  getExerciseGroup,
+  getGroupMemberIndices,
+  getNextGroupStep,
+  getRoundRest,
+  isGroupFinished,
+} from "@/utils/exerciseGroups";
+import ProgressionRuleModal from "@/components/ProgressionRuleModal";
+import { SET_TYPES, SET_TYPE_LABELS, SET_TYPE_SHORT_LABELS, formatSetDetails, getSetType } from "@/utils/setTypes";
 
 // Voice configuration for a more natural female voice
 const voiceConfig = {
@@ -68,6 +86,17 @@ const voiceConfig = {
   rate: 0.9,
 };
 
+// Fields the set keypad can enter, in the order they appear
+type SetEntryField = 'weight' | 'reps' | 'rpe' | 'rir' | 'tempo';
+
+const SET_ENTRY_FIELDS: { field: SetEntryField; label: string; title: string }[] = [
+  { field: 'weight', label: 'KG', title: 'Enter Weight (kg)' },
+  { field: 'reps', label: 'REPS', title: 'Enter Reps' },
+  { field: 'rpe', label: 'RPE', title: 'Enter RPE (1-10)' },
+  { field: 'rir', label: 'RIR', title: 'Enter Reps in Reserve' },
+  { field: 'tempo', label: 'TEMPO', title: 'Enter Tempo (e.g. 3010)' },
+];
+
 // Helper function to speak with the default voice
 const speakWithDefaultVoice = (text: string) => {
   if (Platform.OS === 'web') return;
@@ -110,7 +139,10 @@ export default function ActiveWorkoutScreen() {
     areAllSetsCompleted,
     startExerciseRestTimer,
     getPreviousSetData,
-    updateSetCompleted
+    getProgressionSuggestion,
+    updateSetCompleted,
+    updateSetDetails,
+    recordSetHeartRate
   } = useWorkoutStore();
   const { showLongWorkoutNotification } = useNotificationStoreState();
   const { addWorkoutMedia: addMediaToStore, isGifUrl } = usePhotoStore();
@@ -118,6 +150,7 @@ export default function ActiveWorkoutScreen() {
   
   // All useState hooks must be called before any return
   const [showRestModal, setShowRestModal] = useState(false);
+  const [progressionExercise, setProgressionExercise] = useState<{ id: string; name: string } | null>(null);
   const [showRatingModal, setShowRatingModal] = useState(false);
   const [rating, setRating] = useState<number>(0);
   const [ratingNote, setRatingNote] = useState("");
@@ -141,7 +174,11 @@ export default function ActiveWorkoutScreen() {
     setIndex: number;
     weight: string;
     reps: string;
-    field: 'weight' | 'reps'; // Track which field is being edited
+    type?: SetType;
+    rpe?: string;
+    rir?: string;
+    tempo?: string;
+    field: SetEntryField; // Track which field is being edited
   } | null>(null);
   
   // State for exercise expansion
@@ -168,6 +205,9 @@ export default function ActiveWorkoutScreen() {
   const longWorkoutNotificationShown = useRef(false);
   const lastVibrationTime = useRef(0);
   const VIBRATION_COOLDOWN = 500; // milliseconds
+  // When each exercise group, and its current round, started (keyed by group id)
+  const groupStartRef = useRef<Record<string, number>>({});
+  const groupRoundStartRef = useRef<Record<string, number>>({});
   
   // Check if there are connected devices that can track workouts
   const hasConnectedDevices = connectedDevices.some(
@@ -178,6 +218,14 @@ export default function ActiveWorkoutScreen() {
   // Add at the top with other useState hooks
   const [hasChecked, setHasChecked] = useState(false);
   
+  // Live heart rate from a paired BLE strap, only while device tracking is on
+  const {
+    monitor: heartRateMonitor,
+    bpm: heartRateBpm,
+    status: heartRateStatus,
+    takeSamples: takeHeartRateSamples
+  } = useHeartRateMonitor(workoutStarted && useConnectedDevice);
+  
   // Define handleGoBack before it's used in useEffect
   const handleGoBack = () => {
     if (activeWorkout) {
@@ -338,10 +386,12 @@ export default function ActiveWorkoutScreen() {
       return; // Don't allow adding sets to completed exercises
     }
 
+    // Pre-fill the set with what the progression rule suggests for today
+    const suggestion = getProgressionSuggestion(exerciseLog.exerciseId);
     const newSet: WorkoutSet = {
       id: Date.now().toString(),
-      weight: 0,
-      reps: 0,
+      weight: suggestion.weight,
+      reps: suggestion.reps,
       duration: 0,
       restTime: timerSettings.restTime,
       completed: false,
@@ -582,15 +632,125 @@ export default function ActiveWorkoutScreen() {
       return; // Don't allow editing sets in completed exercises
     }
 
+    const set = activeWorkout.exercises[exerciseIndex]?.sets[setIndex];
     setEditingSetData({
       exerciseIndex,
       setIndex,
       weight: weight.toString(),
       reps: reps.toString(),
+      type: set?.type,
+      rpe: set?.rpe !== undefined ? set.rpe.toString() : '',
+      rir: set?.rir !== undefined ? set.rir.toString() : '',
+      tempo: set?.tempo || '',
       field,
     });
   };
   
+  // Program sessions plan their own number of sets, grouped exercises do one per round
+  const getExpectedSets = (exerciseLog: ExerciseLog) => {
+    const group = exerciseLog.groupId ? activeWorkout.groups?.find(g => g.id === exerciseLog.groupId) : null;
+    if (group) return group.rounds;
+    return exerciseLog.sets.some(set => set.target)
+      ? exerciseLog.sets.length
+      : timerSettings.defaultSetCount || 3;
+  };
+  
+  // Expand a group member and open its next set, collapsing the rest of the group
+  const focusGroupMember = (memberIndices: number[], exerciseIndex: number, openSet: boolean) => {
+    const exerciseLog = activeWorkout.exercises[exerciseIndex];
+    setExpandedExercises(prev => {
+      const newState = { ...prev };
+      memberIndices.forEach(index => {
+        newState[activeWorkout.exercises[index].id] = index === exerciseIndex;
+      });
+      return newState;
+    });
+    
+    if (!openSet) return;
+    
+    const openSetIndex = exerciseLog.sets.findIndex(set => !set.completed);
+    if (openSetIndex !== -1) {
+      const openSetData = exerciseLog.sets[openSetIndex];
+      setEditingSetData({
+        exerciseIndex,
+        setIndex: openSetIndex,
+        weight: openSetData.weight ? openSetData.weight.toString() : '',
+        reps: openSetData.reps ? openSetData.reps.toString() : '',
+        field: 'weight',
+      });
+    } else {
+      const newSetIndex = exerciseLog.sets.length;
+      const suggestion = getProgressionSuggestion(exerciseLog.exerciseId);
+      handleAddSet(exerciseIndex);
+      setTimeout(() => {
+        setEditingSetData({
+          exerciseIndex,
+          setIndex: newSetIndex,
+          weight: suggestion.weight > 0 ? suggestion.weight.toString() : '',
+          reps: suggestion.reps > 0 ? suggestion.reps.toString() : '',
+          field: 'weight',
+        });
+      }, 0);
+    }
+  };
+  
+  // Supersets and circuits move on to the next exercise after each set and
+  // only rest once every exercise in the round is done
+  const handleGroupSetSaved = (exerciseIndex: number, setWasCompleted: boolean) => {
+    const group = getExerciseGroup(activeWorkout, exerciseIndex);
+    if (!group) return;
+    
+    const now = Date.now();
+    if (!groupStartRef.current[group.id]) groupStartRef.current[group.id] = now;
+    if (!groupRoundStartRef.current[group.id]) groupRoundStartRef.current[group.id] = now;
+    
+    const memberIndices = getGroupMemberIndices(activeWorkout.exercises, group.id);
+    const completedSets: Record<number, number> = {};
+    memberIndices.forEach(index => {
+      const completed = activeWorkout.exercises[index].sets.filter(set => set.completed).length;
+      completedSets[index] = completed + (index === exerciseIndex && !setWasCompleted ? 1 : 0);
+    });
+    
+    const { nextIndex, roundComplete, round } = getNextGroupStep(activeWorkout.exercises, group, exerciseIndex, completedSets);
+    
+    if (roundComplete && isGroupFinished(group, round, groupStartRef.current[group.id])) {
+      memberIndices.forEach(index => markExerciseCompleted(index, true));
+      speakWithDefaultVoice(`${GROUP_TYPE_LABELS[group.type]} complete. Great job!`);
+      
+      // Carry on with whatever comes after the group
+      const afterGroup = Math.max(...memberIndices) + 1;
+      setExpandedExercises(prev => {
+        const newState = { ...prev };
+        memberIndices.forEach(index => {
+          newState[activeWorkout.exercises[index].id] = false;
+        });
+        if (afterGroup < activeWorkout.exercises.length) {
+          newState[activeWorkout.exercises[afterGroup].id] = true;
+        }
+        return newState;
+      });
+      return;
+    }
+    
+    if (!roundComplete) {
+      const nextExercise = exercises.find(e => e.id === activeWorkout.exercises[nextIndex].exerciseId);
+      if (nextExercise) speakWithDefaultVoice(`Next: ${nextExercise.name}`);
+      focusGroupMember(memberIndices, nextIndex, true);
+      return;
+    }
+    
+    const rest = getRoundRest(group, groupRoundStartRef.current[group.id]);
+    groupRoundStartRef.current[group.id] = now + rest * 1000;
+    if (rest > 0) {
+      // The rest timer opens the first exercise's next set when it finishes
+      focusGroupMember(memberIndices, nextIndex, false);
+      startRestTimer(rest);
+    } else {
+      focusGroupMember(memberIndices, nextIndex, true);
+      speakWithDefaultVoice(`Round ${round} done.`);
+    }
+  };
+  
   const handleSaveSetData = () => {
     if (!editingSetData) return;
     const { exerciseIndex, setIndex, weight, reps } = editingSetData;
@@ -598,14 +758,35 @@ export default function ActiveWorkoutScreen() {
     // Check if this will be the last set for the exercise BEFORE marking it as completed
     const exerciseLog = activeWorkout.exercises[exerciseIndex];
     const currentCompletedSets = exerciseLog.sets.filter(set => set.completed).length;
-    const expectedSets = timerSettings.defaultSetCount || 3;
+    const expectedSets = getExpectedSets(exerciseLog);
     const willBeLastSet = (currentCompletedSets + 1) >= expectedSets;
+    const setWasCompleted = !!exerciseLog.sets[setIndex]?.completed;
+    
+    // Save the set type first so a warm-up never registers as a personal record
+    const rpe = parseFloat(editingSetData.rpe || '');
+    const rir = parseInt(editingSetData.rir || '');
+    updateSetDetails(exerciseIndex, setIndex, {
+      type: editingSetData.type,
+      rpe: isNaN(rpe) ? undefined : Math.min(Math.max(rpe, 1), 10),
+      rir: isNaN(rir) ? undefined : rir,
+      tempo: editingSetData.tempo || undefined,
+    });
     
     // Update weight and reps using store functions
     updateSetWeight(exerciseIndex, setIndex, parseFloat(weight) || 0);
     updateSetReps(exerciseIndex, setIndex, parseInt(reps) || 0);
     // Mark set as completed using the new store function
     updateSetCompleted(exerciseIndex, setIndex, true);
+    // Attach the heart rate recorded since the previous set
+    if (heartRateMonitor) {
+      recordSetHeartRate(exerciseIndex, setIndex, takeHeartRateSamples(), heartRateMonitor.id);
+    }
+
+    if (exerciseLog.groupId) {
+      setEditingSetData(null);
+      handleGroupSetSaved(exerciseIndex, setWasCompleted);
+      return;
+    }
 
     // If this was the last set, show the exercise complete modal
     if (willBeLastSet) {
@@ -761,7 +942,7 @@ export default function ActiveWorkoutScreen() {
   // New function to handle set completion
   const handleCompleteSet = (exerciseIndex: number, setIndex: number) => {
     const exerciseLog = activeWorkout.exercises[exerciseIndex];
-    const expectedSets = timerSettings.defaultSetCount || 3;
+    const expectedSets = getExpectedSets(exerciseLog);
     const completedSets = exerciseLog.sets.filter(set => set.completed).length;
     // If this is the last set, do NOT start rest timer or play prompt
     if (completedSets + 1 >= expectedSets) {
@@ -883,34 +1064,31 @@ export default function ActiveWorkoutScreen() {
     
     const handleKeyPress = (key: string) => {
       // Get the current value based on which field is being edited
-      let currentValue = currentField === 'weight' ? editingSetData.weight : editingSetData.reps;
+      let currentValue = editingSetData[currentField] || '';
+      // RPE moves in half points, weight in plates, the rest in whole numbers
+      const step = currentField === 'weight' ? 2.5 : currentField === 'rpe' ? 0.5 : 1;
+      const max = currentField === 'rpe' || currentField === 'rir' ? 10 : Infinity;
       
       if (key === 'backspace') {
         // Remove the last character
         currentValue = currentValue.slice(0, -1);
+      } else if (currentField === 'tempo') {
+        // Tempo is four digits, steppers don't apply
+        if (/^[0-9]$/.test(key) && currentValue.length < 4) {
+          currentValue += key;
+        }
       } else if (key === '+') {
         // Increment the value
-        if (currentField === 'weight') {
-          const numValue = parseFloat(currentValue) || 0;
-          currentValue = (numValue + 2.5).toString();
-        } else {
-          const numValue = parseInt(currentValue) || 0;
-          currentValue = (numValue + 1).toString();
-        }
+        const numValue = parseFloat(currentValue) || 0;
+        currentValue = Math.min(max, numValue + step).toString();
       } else if (key === '-') {
         // Decrement the value
-        if (currentField === 'weight') {
-          const numValue = parseFloat(currentValue) || 0;
-          const newValue = Math.max(0, numValue - 2.5);
-          currentValue = newValue.toString();
-        } else {
-          const numValue = parseInt(currentValue) || 0;
-          const newValue = Math.max(0, numValue - 1);
-          currentValue = newValue.toString();
-        }
+        const numValue = parseFloat(currentValue) || 0;
+        const newValue = Math.max(0, numValue - step); // Don't go below 0
+        currentValue = newValue.toString();
       } else if (key === '.') {
-        // Only add decimal point if there isn't one already and we're editing weight
-        if (currentField === 'weight' && !currentValue.includes('.')) {
+        // Only add decimal point if there isn't one already and the field allows it
+        if ((currentField === 'weight' || currentField === 'rpe') && !currentValue.includes('.')) {
           currentValue += '.';
         }
       } else {
@@ -919,17 +1097,10 @@ export default function ActiveWorkoutScreen() {
       }
       
       // Update the state based on which field is being edited
-      if (currentField === 'weight') {
-        setEditingSetData({
-          ...editingSetData,
-          weight: currentValue
-        });
-      } else {
-        setEditingSetData({
-          ...editingSetData,
-          reps: currentValue
-        });
-      }
+      setEditingSetData({
+        ...editingSetData,
+        [currentField]: currentValue
+      });
     };
     
     // Check if both fields have values
@@ -940,7 +1111,7 @@ export default function ActiveWorkoutScreen() {
       <View style={[styles.customKeyboard, { paddingBottom: 28 + (insets?.bottom || 0) }]}>
         <View style={styles.keyboardHeader}>
           <Text style={[styles.keyboardTitle, { color: colors.text, opacity: 1 }]}>
-            {editingSetData.field === 'weight' ? 'Enter Weight (kg)' : 'Enter Reps'}
+            {SET_ENTRY_FIELDS.find(entry => entry.field === currentField)?.title}
           </Text>
           <TouchableOpacity 
             style={styles.keyboardMinimizeButton}
@@ -950,6 +1121,41 @@ export default function ActiveWorkoutScreen() {
           </TouchableOpacity>
         </View>
         
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.keyboardChipRow}>
+          {SET_TYPES.map(type => {
+            const isSelected = getSetType(editingSetData) === type;
+            return (
+              <TouchableOpacity
+                key={type}
+                style={[styles.keyboardChip, isSelected && styles.keyboardChipSelected]}
+                onPress={() => setEditingSetData({ ...editingSetData, type })}
+              >
+                <Text style={[styles.keyboardChipText, isSelected && styles.keyboardChipTextSelected]}>
+                  {SET_TYPE_LABELS[type]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+        
+        <View style={styles.keyboardFieldRow}>
+          {SET_ENTRY_FIELDS.map(({ field, label }) => {
+            const isSelected = currentField === field;
+            return (
+              <TouchableOpacity
+                key={field}
+                style={[styles.keyboardField, isSelected && styles.keyboardChipSelected]}
+                onPress={() => setEditingSetData({ ...editingSetData, field })}
+              >
+                <Text style={[styles.keyboardFieldLabel, isSelected && styles.keyboardChipTextSelected]}>{label}</Text>
+                <Text style={[styles.keyboardFieldValue, isSelected && styles.keyboardChipTextSelected]}>
+                  {editingSetData[field] || '-'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        
         <View style={styles.keyboardRow}>
           <TouchableOpacity style={styles.keyboardKey} onPress={() => handleKeyPress('1')}>
             <Text style={styles.keyboardKeyText}>1</Text>
@@ -1000,11 +1206,7 @@ export default function ActiveWorkoutScreen() {
           </TouchableOpacity>
           <TouchableOpacity style={styles.keyboardKey} onPress={() => {
             // Clear the current field
-            if (editingSetData.field === 'weight') {
-              setEditingSetData({ ...editingSetData, weight: '' });
-            } else {
-              setEditingSetData({ ...editingSetData, reps: '' });
-            }
+            setEditingSetData({ ...editingSetData, [currentField]: '' });
           }}>
             <Text style={styles.keyboardKeyText}>🗑️</Text>
           </TouchableOpacity>
@@ -1106,7 +1308,7 @@ export default function ActiveWorkoutScreen() {
     if (!exerciseLog) return;
 
     const completedSets = exerciseLog.sets.filter(set => set.completed).length;
-    const expectedSets = timerSettings.defaultSetCount || 3;
+    const expectedSets = getExpectedSets(exerciseLog);
 
     if (completedSets >= expectedSets) {
       setShowAddSetPrompt(true);
@@ -1115,14 +1317,15 @@ export default function ActiveWorkoutScreen() {
       // If the number of sets is less than expected, add a new set and open it for input
       if (exerciseLog.sets.length < expectedSets) {
         const newSetIndex = exerciseLog.sets.length; // index before add
+        const suggestion = getProgressionSuggestion(exerciseLog.exerciseId);
         handleAddSet(exerciseIndex);
         // Open the new set for input (last set in the array after add)
         setTimeout(() => {
           setEditingSetData({
             exerciseIndex,
             setIndex: newSetIndex, // this is the correct index for the new set
-            weight: '',
-            reps: '',
+            weight: suggestion.weight > 0 ? suggestion.weight.toString() : '',
+            reps: suggestion.reps > 0 ? suggestion.reps.toString() : '',
             field: 'weight',
           });
           // Only expand this specific exercise, keep all others as they were
@@ -1238,6 +1441,22 @@ export default function ActiveWorkoutScreen() {
                       "connected device"
                     }
                   </Text>
+                  {heartRateMonitor && (
+                    <View style={styles.heartRateBadge}>
+                      <Heart size={14} color={colors.error} fill={heartRateBpm ? colors.error : "transparent"} />
+                      <Text style={styles.heartRateText}>
+                        {heartRateBpm
+                          ? `${heartRateBpm} bpm`
+                          : heartRateStatus === "connecting"
+                            ? "Connecting..."
+                            : heartRateStatus === "unavailable"
+                              ? "Bluetooth off"
+                              : heartRateStatus === "error"
+                                ? "Connection failed"
+                                : "--"}
+                      </Text>
+                    </View>
+                  )}
                 </View>
                 <TouchableOpacity 
                   style={styles.deviceBannerButton}
@@ -1302,10 +1521,25 @@ export default function ActiveWorkoutScreen() {
                 const isCompleted = isExerciseCompleted(exerciseIndex);
                 const allSetsCompleted = areAllSetsCompleted(exerciseIndex);
                 const isExpanded = expandedExercises[exerciseLog.id] || false;
+                const suggestion = isExpanded && !isCompleted ? getProgressionSuggestion(exerciseLog.exerciseId) : null;
+                const group = getExerciseGroup(activeWorkout, exerciseIndex);
+                const isFirstInGroup = group && activeWorkout.exercises[exerciseIndex - 1]?.groupId !== group.id;
                 
                 return (
+                  <React.Fragment key={exerciseLog.id}>
+                  {isFirstInGroup && (
+                    <View style={styles.groupHeader}>
+                      <Text style={styles.groupHeaderTitle}>{GROUP_TYPE_LABELS[group.type]}</Text>
+                      <Text style={styles.groupHeaderText}>
+                        Round {Math.min(
+                          Math.min(...getGroupMemberIndices(activeWorkout.exercises, group.id)
+                            .map(index => activeWorkout.exercises[index].sets.filter(set => set.completed).length)) + 1,
+                          group.rounds
+                        )}/{group.rounds} · {describeExerciseGroup(group)}
+                      </Text>
+                    </View>
+                  )}
                   <DraggableExerciseCard
-                    key={exerciseLog.id}
                     exercise={exercise}
                     exerciseLog={exerciseLog}
                     index={exerciseIndex}
@@ -1335,12 +1569,35 @@ export default function ActiveWorkoutScreen() {
                       />
                     </View>
                     
+                    {suggestion && (
+                      <TouchableOpacity
+                        style={[styles.suggestionContainer, suggestion.stalled && styles.suggestionContainerDeload]}
+                        onPress={() => setProgressionExercise({ id: exercise.id, name: exercise.name })}
+                        activeOpacity={0.8}
+                      >
+                        {suggestion.stalled ? (
+                          <TrendingDown size={18} color="#FF9500" />
+                        ) : (
+                          <TrendingUp size={18} color={colors.success} />
+                        )}
+                        <View style={styles.suggestionTextContainer}>
+                          <Text style={styles.suggestionTitle}>
+                            {suggestion.stalled ? "Deload" : "Today"}: {formatSuggestion(suggestion)}
+                          </Text>
+                          <Text style={styles.suggestionReason}>{suggestion.reason}</Text>
+                        </View>
+                        <Settings size={16} color={colors.textLight} />
+                      </TouchableOpacity>
+                    )}
+                    
                     {exerciseLog.sets.length > 0 && (
                       <>
                         <View style={styles.setsContainer}>
                           <View style={styles.setsHeader}>
                             <Text style={[styles.setsHeaderText, styles.setColumn]}>SET</Text>
-                            <Text style={[styles.setsHeaderText, styles.previousColumn]}>PREVIOUS</Text>
+                            <Text style={[styles.setsHeaderText, styles.previousColumn]}>
+                              {exerciseLog.sets.some(set => set.target) ? "TARGET" : "PREVIOUS"}
+                            </Text>
                             <Text style={[styles.setsHeaderText, styles.weightColumn]}>KG</Text>
                             <Text style={[styles.setsHeaderText, styles.repsColumn]}>REPS</Text>
                             <Text style={[styles.setsHeaderText, styles.checkColumn]}>✓</Text>
@@ -1348,13 +1605,21 @@ export default function ActiveWorkoutScreen() {
                           {exerciseLog.sets.map((set, setIndex) => {
                             // Get previous set data for this exercise
                             const previousSetData = getPreviousSetData(exerciseLog.exerciseId);
-                            const previousText = previousSetData ? 
-                              `${previousSetData.weight}kg×${previousSetData.reps}` : 
-                              "-";
+                            const previousText = set.target
+                              ? formatSetTarget(set.target)
+                              : previousSetData ? 
+                                `${previousSetData.weight}kg×${previousSetData.reps}` : 
+                                "-";
+                              
+                            const setType = getSetType(set);
+                            const setDetails = formatSetDetails(set);
                               
                             return (
-                              <View key={set.id} style={styles.setRow}>
-                                <Text style={[styles.setText, styles.setColumn]}>{setIndex + 1}</Text>
+                              <React.Fragment key={set.id}>
+                              <View style={styles.setRow}>
+                                <Text style={[styles.setText, styles.setColumn, setType !== 'working' && styles.setTypeText]}>
+                                  {SET_TYPE_SHORT_LABELS[setType] || setIndex + 1}
+                                </Text>
                                 
                                 <Text style={[styles.previousText, styles.previousColumn]}>
                                   {previousText}
@@ -1443,6 +1708,10 @@ export default function ActiveWorkoutScreen() {
                                   </>
                                 )}
                               </View>
+                              {setDetails !== '' && (
+                                <Text style={styles.setDetailsText}>{setDetails}</Text>
+                              )}
+                              </React.Fragment>
                             );
                           })}
                         </View>
@@ -1466,6 +1735,7 @@ export default function ActiveWorkoutScreen() {
                       />
                     )}
                   </DraggableExerciseCard>
+                  </React.Fragment>
                 );
               })}
             </View>
@@ -1573,6 +1843,15 @@ export default function ActiveWorkoutScreen() {
         </Modal>
       )}
       
+      {progressionExercise && (
+        <ProgressionRuleModal
+          visible={!!progressionExercise}
+          exerciseId={progressionExercise.id}
+          exerciseName={progressionExercise.name}
+          onClose={() => setProgressionExercise(null)}
+        />
+      )}
+      
       {/* Rest Timer Modal */}
       <RestTimerModal
         visible={showRestModal}
@@ -2090,6 +2369,17 @@ const styles = StyleSheet.create({
     color: colors.text,
     marginLeft: 8,
   },
+  heartRateBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginLeft: 12,
+  },
+  heartRateText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.text,
+    marginLeft: 4,
+  },
   deviceBannerButton: {
     width: 32,
     height: 32,
@@ -2160,6 +2450,50 @@ const styles = StyleSheet.create({
   exerciseNotesContainer: {
     marginBottom: 16,
   },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+    paddingLeft: 10,
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  groupHeaderTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: colors.primary,
+  },
+  groupHeaderText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  suggestionContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "rgba(40, 167, 69, 0.1)",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 16,
+  },
+  suggestionContainerDeload: {
+    backgroundColor: "rgba(255, 149, 0, 0.1)",
+  },
+  suggestionTextContainer: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  suggestionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  suggestionReason: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   setsContainer: {
     marginBottom: 16,
   },
@@ -2201,6 +2535,15 @@ const styles = StyleSheet.create({
     color: "#FAFAFA",
     textAlign: "center",
   },
+  setTypeText: {
+    color: colors.primary,
+  },
+  setDetailsText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginLeft: 40,
+    marginBottom: 4,
+  },
   previousText: {
     fontSize: 14,
     color: colors.textSecondary,
@@ -2364,6 +2707,56 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  keyboardChipRow: {
+    flexGrow: 0,
+    paddingHorizontal: 4,
+    marginBottom: 6,
+  },
+  keyboardChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 6,
+  },
+  keyboardChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  keyboardChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  keyboardChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  keyboardFieldRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 4,
+    marginBottom: 6,
+  },
+  keyboardField: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 4,
+    marginHorizontal: 2,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  keyboardFieldLabel: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: colors.textSecondary,
+  },
+  keyboardFieldValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+  },
   keyboardRow: {
     flexDirection: 'row',
     justifyContent: 'space-around',
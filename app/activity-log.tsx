@@ -1,7 +1,8 @@
 import React, { useState } from "react";
 import { View, Text, StyleSheet, ScrollView, TextInput, Alert, Switch, TouchableOpacity, Modal } from "react-native";
 import { Stack, useRouter } from "expo-router";
-import { MapPin, Clock, Calendar, ArrowLeft, Zap, RefreshCw, TrendingUp, Activity, Plus } from "lucide-react-native";
+import { MapPin, Clock, Calendar, ArrowLeft, Zap, RefreshCw, TrendingUp, Activity, Plus, Upload } from "lucide-react-native";
+import * as DocumentPicker from 'expo-document-picker';
 import { colors } from "@/constants/colors";
 import { useHealthStore } from "@/store/healthStore";
 import { ActivityLog } from "@/types";
@@ -14,6 +15,7 @@ import ActivityCard from "@/components/ActivityCard";
 import ActivityDetailModal from "@/components/ActivityDetailModal";
 import { useTheme } from "@react-navigation/native";
 import { usePhotoStore } from "@/store/photoStore";
+import { importActivityFile } from "@/utils/activityFiles";
 
 export default function ActivityLogScreen() {
   const router = useRouter();
@@ -25,6 +27,7 @@ export default function ActivityLogScreen() {
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [isSwimmingSyncLoading, setIsSwimmingSyncLoading] = useState(false);
   const [showSwimmingProgress, setShowSwimmingProgress] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
   
   const [activityType, setActivityType] = useState("walking");
   const [duration, setDuration] = useState("30");
@@ -125,6 +128,41 @@ export default function ActivityLogScreen() {
     }
   };
 
+  const handleImportFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        // GPX/TCX/FIT have no widely registered MIME types, so filter by extension afterwards
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      
+      if (result.canceled || !result.assets || result.assets.length === 0) {
+        return;
+      }
+      
+      setIsImporting(true);
+      const asset = result.assets[0];
+      const importResult = await importActivityFile(asset.uri, asset.name);
+      
+      if (!importResult.success || !importResult.activity) {
+        Alert.alert("Import Failed", importResult.error || "The file could not be imported.");
+      } else if (importResult.duplicate) {
+        Alert.alert("Already Imported", "This activity is already in your activity log.");
+      } else {
+        const activity = importResult.activity;
+        Alert.alert(
+          "Import Complete",
+          `Imported a ${activity.type} activity from ${new Date(activity.date).toLocaleDateString()}.`
+        );
+      }
+    } catch (error) {
+      console.error("Error importing activity file:", error);
+      Alert.alert("Import Error", "There was an error importing the file. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   // Filter swimming activities
   const swimmingActivities = activityLogs.filter(activity => activity.type === 'swimming');
   const otherActivities = activityLogs.filter(activity => activity.type !== 'swimming');
@@ -146,6 +184,16 @@ export default function ActivityLogScreen() {
       <View style={styles.header}>
         <Text style={[styles.title, { color: colors.text }]}>Activity Log</Text>
         <Text style={[styles.subtitle, { color: colors.textSecondary }]}>Track your fitness activities</Text>
+        <TouchableOpacity
+          style={[styles.secondaryButton, styles.importButton, { borderColor: colors.border }]}
+          onPress={handleImportFile}
+          disabled={isImporting}
+        >
+          <Upload size={16} color={colors.primary} />
+          <Text style={[styles.secondaryButtonText, { color: colors.primary }]}>
+            {isImporting ? 'Importing...' : 'Import GPX / TCX / FIT'}
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Swimming Section */}
@@ -488,6 +536,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  importButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
   addButton: {
     position: 'absolute',
     bottom: 20,
@@ -1,12 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, SafeAreaView } from 'react-native';
 import { useLocalSearchParams, router, Stack } from 'expo-router';
-import { ArrowLeft, Clock, Trophy, Target, Zap, Droplets, Footprints, Calendar, Dumbbell, CheckCircle, Star, Edit3, FileText, Save, Plus } from 'lucide-react-native';
+import { ArrowLeft, Clock, Trophy, Target, Zap, Droplets, Footprints, Calendar, Dumbbell, CheckCircle, Star, Edit3, FileText, Save, Plus, Navigation, Mountain, Activity } from 'lucide-react-native';
 import { useTheme } from '@/context/ThemeContext';
 import { useWorkoutStore } from '@/store/workoutStore';
 import { useGamificationStore } from '@/store/gamificationStore';
 import { useHealthStore } from '@/store/healthStore';
 import { exercises } from '@/mocks/exercises';
+import ActivityMap from '@/components/ActivityMap';
+import { calculatePace, formatPace, hasRouteSegments } from '@/utils/routeMath';
+import { getActivityDistanceMeters } from '@/utils/activityFiles';
+import { useMacroStore } from '@/store/macroStore';
+import HeartRateZonesCard from '@/components/HeartRateZonesCard';
+import {
+  calculateTrainingLoad,
+  getActivityHeartRateSamples,
+  getTrainingLoadLabel,
+  getWorkoutHeartRateSamples
+} from '@/utils/heartRateZones';
 
 export default function ActivityDetailScreen() {
   const { id } = useLocalSearchParams();
@@ -14,6 +25,7 @@ export default function ActivityDetailScreen() {
   const { workoutLogs } = useWorkoutStore();
   const { achievements, challenges, dailyQuests } = useGamificationStore();
   const { getDailyNote, addDailyNote, updateDailyNote } = useHealthStore();
+  const { userProfile } = useMacroStore();
   
   // Notes state
   const [notes, setNotes] = useState('');
@@ -138,9 +150,19 @@ export default function ActivityDetailScreen() {
   });
 
   // Get real health data for the selected date
-  const { getWaterIntakeForDate, getStepsForDate } = useHealthStore();
+  const { getWaterIntakeForDate, getStepsForDate, activityLogs } = useHealthStore();
   const selectedDateStr = selectedDate.toISOString().split('T')[0];
   
+  // Get cardio activities (with any recorded GPS route) for the selected date
+  const cardioForDate = activityLogs.filter(activity => 
+    new Date(activity.date).toDateString() === selectedDate.toDateString()
+  );
+  
+  // Training load as it stood at the end of the selected day
+  const endOfSelectedDate = new Date(selectedDate);
+  endOfSelectedDate.setHours(23, 59, 59, 999);
+  const trainingLoad = calculateTrainingLoad(workoutLogs, activityLogs, userProfile, endOfSelectedDate);
+  
   const healthDataForDate = {
     waterIntake: getWaterIntakeForDate(selectedDateStr), // ml
     steps: getStepsForDate(selectedDateStr)?.steps || 0,
@@ -198,6 +220,12 @@ export default function ActivityDetailScreen() {
               )}
             </View>
 
+            <HeartRateZonesCard
+              samples={getWorkoutHeartRateSamples(workout)}
+              summary={workout.heartRate}
+              durationMinutes={workout.duration}
+            />
+
             <View style={styles.exercisesList}>
               <Text style={[styles.exercisesTitle, { color: colors.text }]}>Exercises:</Text>
               {workout.exercises.map((exerciseLog, idx) => {
@@ -224,6 +252,115 @@ export default function ActivityDetailScreen() {
     );
   };
 
+  const renderCardioSection = () => {
+    if (cardioForDate.length === 0) return null;
+
+    return (
+      <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
+        <View style={styles.sectionHeader}>
+          <Navigation size={20} color={colors.primary} />
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Cardio Activities</Text>
+        </View>
+
+        {cardioForDate.map(activity => {
+          const distanceMeters = getActivityDistanceMeters(activity);
+          const movingSeconds = activity.movingTime ?? activity.duration * 60;
+          const pace = calculatePace(distanceMeters, movingSeconds);
+
+          return (
+            <View key={activity.id} style={[styles.workoutItem, { borderBottomColor: colors.border }]}>
+              <Text style={[styles.workoutName, { color: colors.text }]}>
+                {activity.type.charAt(0).toUpperCase() + activity.type.slice(1)}
+              </Text>
+
+              <View style={styles.workoutStats}>
+                {distanceMeters > 0 && (
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Distance:</Text>
+                    <Text style={[styles.statValue, { color: colors.text }]}>{(distanceMeters / 1000).toFixed(2)} km</Text>
+                  </View>
+                )}
+                <View style={styles.statItem}>
+                  <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                    {activity.movingTime !== undefined ? 'Moving time:' : 'Duration:'}
+                  </Text>
+                  <Text style={[styles.statValue, { color: colors.text }]}>{Math.round(movingSeconds / 60)} min</Text>
+                </View>
+                {pace > 0 && (
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Pace:</Text>
+                    <Text style={[styles.statValue, { color: colors.text }]}>{formatPace(pace)} /km</Text>
+                  </View>
+                )}
+                {!!activity.elevationGain && (
+                  <View style={styles.statItem}>
+                    <Mountain size={14} color={colors.textSecondary} />
+                    <Text style={[styles.statValue, { color: colors.text, marginLeft: 4 }]}>{activity.elevationGain} m</Text>
+                  </View>
+                )}
+              </View>
+
+              <HeartRateZonesCard
+                samples={getActivityHeartRateSamples(activity)}
+                summary={activity.heartRate}
+                durationMinutes={activity.duration}
+              />
+
+              {hasRouteSegments(activity.route) && (
+                <ActivityMap route={activity.route} height={200} />
+              )}
+
+              {activity.splits && activity.splits.length > 0 && (
+                <View style={styles.exercisesList}>
+                  <Text style={[styles.exercisesTitle, { color: colors.text }]}>Splits:</Text>
+                  {activity.splits.map(split => (
+                    <Text key={split.index} style={[styles.setText, { color: colors.textSecondary }]}>
+                      {split.distance < 1000 ? `${(split.distance / 1000).toFixed(2)} km` : `Km ${split.index}`}: {formatPace(split.pace)} /km, +{Math.round(split.elevationGain)} m
+                    </Text>
+                  ))}
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderTrainingLoadSection = () => {
+    if (workoutsForDate.length === 0 && cardioForDate.length === 0) return null;
+    if (trainingLoad.acuteLoad === 0 && trainingLoad.chronicLoad === 0) return null;
+
+    return (
+      <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
+        <View style={styles.sectionHeader}>
+          <Activity size={20} color={colors.primary} />
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Training Load</Text>
+        </View>
+
+        <View style={styles.workoutStats}>
+          <View style={styles.statItem}>
+            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>7-day:</Text>
+            <Text style={[styles.statValue, { color: colors.text }]}>{trainingLoad.acuteLoad}/day</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>28-day:</Text>
+            <Text style={[styles.statValue, { color: colors.text }]}>{trainingLoad.chronicLoad}/day</Text>
+          </View>
+          {trainingLoad.ratio !== null && (
+            <View style={styles.statItem}>
+              <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Ratio:</Text>
+              <Text style={[styles.statValue, { color: colors.text }]}>{trainingLoad.ratio.toFixed(2)}</Text>
+            </View>
+          )}
+        </View>
+        <Text style={[styles.setText, { color: trainingLoad.needsRecovery ? colors.error : colors.textSecondary }]}>
+          {getTrainingLoadLabel(trainingLoad.status)}
+        </Text>
+      </View>
+    );
+  };
+
   const renderNotesSection = () => {
     return (
       <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
@@ -450,6 +587,7 @@ export default function ActivityDetailScreen() {
   };
 
   const hasAnyActivity = workoutsForDate.length > 0 || 
+                       cardioForDate.length > 0 || 
                        achievementsForDate.length > 0 || 
                        challengesForDate.length > 0 || 
                        questsForDate.length > 0;
@@ -473,6 +611,8 @@ export default function ActivityDetailScreen() {
 
           {renderHealthSection()}
           {renderWorkoutSection()}
+          {renderCardioSection()}
+          {renderTrainingLoadSection()}
           {renderNotesSection()}
           {renderAchievementsSection()}
           {renderChallengesSection()}
@@ -215,7 +215,7 @@ export default function AddWorkoutScheduleScreen() {
         time: selectedTime,
         scheduleType,
         recurrenceFrequency,
-        recurrenceEndDate: hasEndDate ? recurrenceEndDate : null,
+        recurrenceEndDate: hasEndDate && recurrenceEndDate ? recurrenceEndDate.toISOString() : null,
         reminder,
         reminderTime,
       });
@@ -14,15 +14,38 @@ import {
   SafeAreaView
 } from "react-native";
 import { Stack, useRouter } from "expo-router";
-import { ArrowLeft, Send, Plus, Trash2, Target, Activity, TrendingUp, Zap } from "lucide-react-native";
+import { ArrowLeft, Send, Plus, Trash2, Target, Activity, TrendingUp, Zap, Check, X, RotateCcw } from "lucide-react-native";
 import { useTheme } from "@/context/ThemeContext";
 import { useAiStore, AiChat, ChatMessage } from "@/store/aiStore";
 import KeyboardDismissButton from "@/components/KeyboardDismissButton";
-import { Exercise } from "@/types";
+import { Exercise, TrainingProgram } from "@/types";
 import { useMacroStore } from "@/store/macroStore";
 import { useHealthStore } from "@/store/healthStore";
 import { useWorkoutStore } from "@/store/workoutStore";
 import { useGamificationStore } from "@/store/gamificationStore";
+import { useProgramStore } from "@/store/programStore";
+import { getProgramWeeks, formatSetTarget } from "@/utils/programUtils";
+import { getWorkoutVolume } from "@/utils/setTypes";
+import { getRecordType } from "@/utils/strength";
+import AIService from "@/services/AIService";
+import { requestConsent } from "@/utils/consent";
+import {
+  ContextSnippet,
+  CONVERSATION_MEMORY_IN_PROMPT,
+  selectContextSnippets,
+  splitHistoryByBudget,
+  summarizeTurns,
+  ChatTurn
+} from "@/utils/chatContext";
+import {
+  CoachAction,
+  describeCoachTools,
+  parseCoachToolCall,
+  proposeCoachAction,
+  applyCoachAction,
+  undoCoachAction,
+  isCoachToolRequest
+} from "@/utils/coachTools";
 import AIPersonalizationModal from "@/components/AIPersonalizationModal";
 import AIOnboardingScreen from "@/components/AIOnboardingScreen";
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -117,6 +140,9 @@ export default function AiChatScreen() {
   const [showOnboarding, setShowOnboarding] = useState(!hasCompletedOnboarding);
   
   const flatListRef = useRef<FlatList>(null);
+  const summarizingRef = useRef(false);
+  // Reply text received so far while the coach is answering
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   
   // Add conversation state to the component
   const [conversationState, setConversationState] = useState<ConversationState>({
@@ -212,60 +238,6 @@ export default function AiChatScreen() {
     };
   };
 
-  const createSmartGoal = (exerciseName: string, timeframe: string, goalType: string) => {
-    const analysis = analyzeExerciseProgress(exerciseName);
-    
-    if (!analysis.found) {
-      return { success: false, message: analysis.message };
-    }
-    
-    const { currentPR, averageWeight } = analysis;
-    let targetValue, goalText, category;
-    
-    switch (goalType) {
-      case 'increase_weight':
-        targetValue = currentPR.weight + 10;
-        goalText = `Increase ${exerciseName} weight from ${currentPR.weight}lbs to ${targetValue}lbs`;
-        category = 'fitness';
-        break;
-      case 'increase_reps':
-        targetValue = currentPR.reps + 2;
-        goalText = `Increase ${exerciseName} reps from ${currentPR.reps} to ${targetValue} reps at ${currentPR.weight}lbs`;
-        category = 'fitness';
-        break;
-      case 'improve_form':
-        goalText = `Focus on ${exerciseName} form and technique for ${timeframe}`;
-        category = 'fitness';
-        break;
-      default:
-        targetValue = currentPR.weight + 5;
-        goalText = `Improve ${exerciseName} performance to ${targetValue}lbs`;
-        category = 'fitness';
-    }
-    
-    const newGoal = {
-      id: Date.now().toString(),
-      text: goalText,
-      category,
-      timeframe: timeframe === '1 week' ? 'weekly' : 'monthly',
-      targetValue,
-      timePeriod: timeframe === '1 week' ? 'weekly' : 'monthly',
-      progress: 0,
-      completed: false,
-      createdAt: new Date().toISOString(),
-      exerciseName,
-      currentPR: currentPR.weight
-    };
-    
-    // Add goal to store
-    addGoal(newGoal);
-    
-    return {
-      success: true,
-      goal: newGoal,
-      message: `Created goal: ${goalText}`
-    };
-  };
 
   const getGoalSuggestions = () => {
     try {
@@ -499,39 +471,6 @@ export default function AiChatScreen() {
     return celebrations;
   };
 
-  // Workout note management
-  const addNoteToWorkout = (workoutDate: string, note: string) => {
-    // Find the workout log for the specified date
-    const workoutLog = workoutLogs.find(log => {
-      const logDate = new Date(log.date).toDateString();
-      const targetDate = new Date(workoutDate).toDateString();
-      return logDate === targetDate;
-    });
-    
-    if (!workoutLog) {
-      return { success: false, message: "No workout found for that date" };
-    }
-    
-    // Update the workout with the new note
-    const updatedNote = workoutLog.notes ? `${workoutLog.notes}\n\n${note}` : note;
-    
-    // Update the workout in the store
-    const updatedWorkout = {
-      ...workoutLog,
-      notes: updatedNote
-    };
-    
-    // Update the workout in the store
-    try {
-      const { updateWorkoutLog } = useWorkoutStore.getState();
-      updateWorkoutLog(workoutLog.id, { notes: updatedNote });
-      
-      return { success: true, message: "Note added successfully" };
-    } catch (error) {
-      console.error('Error adding note to workout:', error);
-      return { success: false, message: "Sorry, I couldn't add the note. Please try again." };
-    }
-  };
 
   const getRecentWorkouts = (days: number = 7) => {
     const cutoffDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
@@ -540,30 +479,6 @@ export default function AiChatScreen() {
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   };
 
-  const findWorkoutByDate = (dateString: string) => {
-    const targetDate = new Date(dateString);
-    return workoutLogs.find(log => {
-      const logDate = new Date(log.date);
-      return logDate.toDateString() === targetDate.toDateString();
-    });
-  };
-
-
-
-  const getWorkoutSuggestions = () => {
-    return [
-      "chest workout",
-      "back workout", 
-      "legs workout",
-      "shoulders workout",
-      "arms workout",
-      "full body workout",
-      "cardio session",
-      "strength training",
-      "hiit workout"
-    ];
-  };
-
   // Workout recommendation functions
   const getWorkoutRecommendations = () => {
     const context = getUserContext();
@@ -656,62 +571,41 @@ export default function AiChatScreen() {
     return recommendations;
   };
 
-  const generateWorkoutPlan = (focus: string, duration: number = 4) => {
-    const plans = {
-      strength: {
-        name: "Strength Building Program",
-        weeks: [
-          {
-            week: 1,
-            focus: "Foundation",
-            workouts: [
-              { day: "Monday", type: "Upper Body", exercises: ["Bench Press", "Rows", "Shoulder Press"] },
-              { day: "Wednesday", type: "Lower Body", exercises: ["Squats", "Deadlifts", "Lunges"] },
-              { day: "Friday", type: "Full Body", exercises: ["Compound Movements", "Core Work"] }
-            ]
-          },
-          {
-            week: 2,
-            focus: "Progressive Overload",
-            workouts: [
-              { day: "Monday", type: "Upper Body", exercises: ["Bench Press", "Rows", "Shoulder Press"] },
-              { day: "Wednesday", type: "Lower Body", exercises: ["Squats", "Deadlifts", "Lunges"] },
-              { day: "Friday", type: "Full Body", exercises: ["Compound Movements", "Core Work"] }
-            ]
-          }
-        ]
-      },
-      hypertrophy: {
-        name: "Muscle Building Program",
-        weeks: [
-          {
-            week: 1,
-            focus: "Volume Training",
-            workouts: [
-              { day: "Monday", type: "Push", exercises: ["Chest", "Shoulders", "Triceps"] },
-              { day: "Tuesday", type: "Pull", exercises: ["Back", "Biceps"] },
-              { day: "Thursday", type: "Legs", exercises: ["Quads", "Hamstrings", "Calves"] }
-            ]
-          }
-        ]
-      },
-      endurance: {
-        name: "Endurance Program",
-        weeks: [
-          {
-            week: 1,
-            focus: "Cardiovascular Fitness",
-            workouts: [
-              { day: "Monday", type: "Cardio", exercises: ["Running", "Cycling"] },
-              { day: "Wednesday", type: "Strength", exercises: ["Bodyweight Exercises"] },
-              { day: "Friday", type: "HIIT", exercises: ["High Intensity Intervals"] }
-            ]
-          }
-        ]
-      }
-    };
+  // Pick a periodized program for a training focus. Strength work follows
+  // 5/3/1; muscle building and everything else gets the hypertrophy block.
+  const generateWorkoutPlan = (focus: string): TrainingProgram => {
+    const { getProgram, getPrograms } = useProgramStore.getState();
+    const programId = focus === 'strength' ? 'program-531' : 'program-ppl-hypertrophy';
+    return getProgram(programId) || getPrograms()[0];
+  };
+
+  const describeWorkoutPlan = (program: TrainingProgram): string => {
+    const weeks = getProgramWeeks(program);
+    let response = `📅 **${program.name}**\n\n`;
+    response += `${program.description}\n\n`;
+    response += `**Length:** ${weeks.length} weeks, ${program.daysPerWeek} days per week\n\n`;
     
-    return plans[focus] || plans.strength;
+    program.phases.forEach(phase => {
+      response += `**${phase.name}**${phase.goal ? ` - ${phase.goal}` : ''}\n`;
+      phase.weeks.forEach(week => {
+        response += `• ${week.name}${week.isDeload ? ' (deload)' : ''}\n`;
+      });
+      response += "\n";
+    });
+    
+    const firstDay = weeks[0]?.week.days[0];
+    if (firstDay) {
+      response += `**Example session - ${firstDay.name}:**\n`;
+      firstDay.exercises.forEach(planned => {
+        const exercise = exercises.find(ex => ex.id === planned.exerciseId);
+        const targets = planned.sets.map(set => formatSetTarget({ ...set })).join(', ');
+        response += `• ${exercise?.name || 'Exercise'}: ${targets}\n`;
+      });
+      response += "\n";
+    }
+    
+    response += "Open **Workouts → Training Programs** to enroll. Every session is added to your schedule with target weights filled in.";
+    return response;
   };
 
   // Nutrition guidance functions (with safety disclaimers)
@@ -961,10 +855,68 @@ export default function AiChatScreen() {
     await handleSendMessage(action);
   };
   
-  // Generate smart system prompt with user context
-  const generateSmartSystemPrompt = () => {
+  // Data sections for the system prompt; only those the question is about are included
+  const getContextSnippets = (): ContextSnippet[] => {
     const context = getUserContext();
-    const { userProfile, currentWeight, targetWeight, stepCount, macroGoals, recentWorkouts, todayWorkouts } = context;
+    const { currentWeight, targetWeight, stepCount, macroGoals, recentWorkouts, todayWorkouts } = context;
+    
+    return [
+      {
+        topic: "weight",
+        build: () => `- Current Weight: ${currentWeight} kg\n- Target Weight: ${targetWeight} kg (${targetWeight > 0 ? `${Math.abs(currentWeight - targetWeight).toFixed(1)} kg ${currentWeight > targetWeight ? 'to lose' : 'to gain'}` : 'No target set'})`
+      },
+      {
+        topic: "steps",
+        build: () => `- Daily Steps: ${stepCount || 0}`
+      },
+      {
+        topic: "nutrition",
+        build: () => {
+          const today = useMacroStore.getState().calculateDailyMacros(new Date().toISOString());
+          return `- Nutrition Goals: ${macroGoals ? `${macroGoals.calories} calories, ${macroGoals.protein}g protein, ${macroGoals.carbs}g carbs, ${macroGoals.fat}g fat` : 'Not set'}\n` +
+            `- Eaten Today: ${Math.round(today.calories)} calories, ${Math.round(today.protein)}g protein, ${Math.round(today.carbs)}g carbs, ${Math.round(today.fat)}g fat`;
+        }
+      },
+      {
+        topic: "workouts",
+        build: () => {
+          const { workouts } = useWorkoutStore.getState();
+          const lines = recentWorkouts.map(log => {
+            const workout = workouts.find(w => w.id === log.workoutId);
+            return `  • ${new Date(log.date).toLocaleDateString()}: ${workout?.name || 'Workout'}, ${log.duration} min`;
+          });
+          return `- Recent Workouts:${lines.length > 0 ? `\n${lines.join('\n')}` : ' none'}\n- Today's Scheduled: ${todayWorkouts.length} workouts`;
+        }
+      },
+      {
+        topic: "records",
+        build: () => {
+          const records = useWorkoutStore.getState().personalRecords
+            .filter(pr => getRecordType(pr) === "e1rm")
+            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+            .slice(0, 5);
+          return `- Recent PRs: ${records.length > 0 ? records.map(pr => `${pr.exerciseName} ${pr.weight}kg x ${pr.reps}`).join(', ') : 'none yet'}`;
+        }
+      },
+      {
+        topic: "goals",
+        build: () => {
+          const activeGoals = (useAiStore.getState().goals || []).filter(goal => !goal.completed);
+          return `- Active Goals: ${activeGoals.length > 0 ? activeGoals.map(goal => goal.text).join('; ') : 'none'}`;
+        }
+      },
+      {
+        topic: "progress",
+        build: () => `- Level: ${level} (${experience} XP)\n- Workout Streak: ${useGamificationStore.getState().streak.currentStreak} days`
+      }
+    ];
+  };
+  
+  // Generate smart system prompt with the user data relevant to the question
+  const generateSmartSystemPrompt = (question: string = "") => {
+    const context = getUserContext();
+    const { userProfile } = context;
+    const memory = (useAiStore.getState().conversationMemory || []).slice(-CONVERSATION_MEMORY_IN_PROMPT);
     
     return `You are ${aiPersonality.name}, a ${aiPersonality.personality} AI fitness assistant specializing in ${aiPersonality.expertise}. Your communication style is ${aiPersonality.communicationStyle}.
 
@@ -973,19 +925,16 @@ USER PROFILE:
 - Experience Level: beginner
 - Motivation Style: health
 - Preferred Workout Time: evening
-
-USER CONTEXT:
-- Current Weight: ${currentWeight} kg
-- Target Weight: ${targetWeight} kg (${targetWeight > 0 ? `${Math.abs(currentWeight - targetWeight).toFixed(1)} kg ${currentWeight > targetWeight ? 'to lose' : 'to gain'}` : 'No target set'})
 - Fitness Goal: ${userProfile?.fitnessGoal || 'maintain'}
 - Activity Level: ${userProfile?.activityLevel || 'moderate'}
 - Fitness Level: ${userProfile?.fitnessLevel || 'beginner'}
-- Daily Steps: ${stepCount || 0}
-- Nutrition Goals: ${macroGoals ? `${macroGoals.calories} calories, ${macroGoals.protein}g protein, ${macroGoals.carbs}g carbs, ${macroGoals.fat}g fat` : 'Not set'}
-- Recent Workouts: ${recentWorkouts.length} in last 3 sessions
-- Today's Scheduled: ${todayWorkouts.length} workouts
-- Level: ${level} (${experience} XP)
 
+USER CONTEXT:
+${selectContextSnippets(question, getContextSnippets())}
+${memory.length > 0 ? `
+EARLIER IN OUR CONVERSATIONS:
+${memory.map(summary => `- ${summary}`).join('\n')}
+` : ''}
 PERSONALITY GUIDELINES:
 - Maintain your ${aiPersonality.personality} personality throughout the conversation
 - Use ${aiPersonality.communicationStyle} communication style
@@ -1016,7 +965,9 @@ GOAL CREATION EXAMPLES:
 - "Create a new goal for me, length: 1 week, goal: Lift heavier on deadlift" → Analyze deadlift history, find current PR, suggest weight increase
 - "I want to improve my bench press" → Check bench press data, suggest specific weight or rep targets
 - "Help me set a weight loss goal" → Calculate realistic weight loss based on current progress
-- "Create a fitness goal" → Suggest based on recent workout frequency and exercise patterns`;
+- "Create a fitness goal" → Suggest based on recent workout frequency and exercise patterns
+
+${describeCoachTools()}`;
   };
   
   // Create a new chat if none exists
@@ -1131,312 +1082,99 @@ GOAL CREATION EXAMPLES:
     setIsLoading(true);
     
     try {
-      // Check if this is a goal creation request
-      const lowerMessage = userInput.toLowerCase();
-      const isGoalRequest = lowerMessage.includes('create') && lowerMessage.includes('goal') ||
-                           lowerMessage.includes('set') && lowerMessage.includes('goal') ||
-                           lowerMessage.includes('new goal');
-      
-      if (isGoalRequest) {
-        // Handle goal creation locally
-        const goalResponse = await handleGoalCreation(userInput);
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: goalResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if it's a workout note request
-      const noteResponse = await handleWorkoutNote(userInput);
-      if (noteResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: noteResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's a smart conversation flow request
-      const smartConversationResponse = await handleSmartConversationFlow(userInput);
-      if (smartConversationResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: smartConversationResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's an interactive workout scheduling request
-      const interactiveSchedulingResponse = await handleInteractiveWorkoutScheduling(userInput);
-      if (interactiveSchedulingResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: interactiveSchedulingResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's a workout scheduling request (enhanced)
-      const workoutSchedulingResponse = await handleWorkoutSchedulingRequest(userInput);
-      if (workoutSchedulingResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: workoutSchedulingResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's a progress request
-      const progressResponse = await handleProgressRequest(userInput);
-      if (progressResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: progressResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's a workout recommendation request
-      const workoutRecommendationResponse = await handleWorkoutRecommendation(userInput);
-      if (workoutRecommendationResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: workoutRecommendationResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's a workout creation request
-      const workoutCreationResponse = await handleWorkoutCreation(userInput);
-      if (workoutCreationResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: workoutCreationResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's a workout modification request
-      const workoutModificationResponse = await handleWorkoutModificationRequest(userInput);
-      if (workoutModificationResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: workoutModificationResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's a nutrition request
-      const nutritionResponse = await handleNutritionRequest(userInput);
-      if (nutritionResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: nutritionResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's an analytics request
-      const analyticsResponse = await handleAnalyticsRequest(userInput);
-      if (analyticsResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: analyticsResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's an emotional/mood request
-      const emotionalResponse = await handleEmotionalRequest(userInput);
-      if (emotionalResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: emotionalResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-
-      // Check if it's a workout analysis request
-      const workoutAnalysisResponse = await handleWorkoutAnalysisRequest(userInput);
-      if (workoutAnalysisResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: workoutAnalysisResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if it's an app feature request
-      const appFeatureResponse = await handleAppFeatureRequest(userInput);
-      if (appFeatureResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: appFeatureResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if it's a goal status request
-      const goalStatusResponse = await handleGoalStatusRequest(userInput);
-      if (goalStatusResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: goalStatusResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if it's a goal progress request
-      const goalProgressResponse = await handleGoalProgressRequest(userInput);
-      if (goalProgressResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: goalProgressResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if it's a personal records request
-      const personalRecordsResponse = await handlePersonalRecordsRequest(userInput);
-      if (personalRecordsResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: personalRecordsResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if it's an exercise education request
-      const exerciseEducationResponse = await handleExerciseEducationRequest(userInput);
-      if (exerciseEducationResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: exerciseEducationResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if it's an advanced analytics request
-      const advancedAnalyticsResponse = await handleAdvancedAnalyticsRequest(userInput);
-      if (advancedAnalyticsResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: advancedAnalyticsResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if it's a recovery recommendations request
-      const recoveryResponse = await handleRecoveryRecommendationsRequest(userInput);
-      if (recoveryResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: recoveryResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if it's a predictive analytics request
-      const predictiveResponse = await handlePredictiveAnalyticsRequest(userInput);
-      if (predictiveResponse) {
-        addMessageToChat(currentChat.id, {
-          role: "assistant",
-          content: predictiveResponse,
-          timestamp: new Date().toISOString()
-        });
-        setIsLoading(false);
-        return;
+      // Requests a coach tool can act on go straight to the model; the
+      // keyword handlers below would otherwise answer them first
+      if (!isCoachToolRequest(userInput)) {
+        const localHandlers = [
+          handleSmartConversationFlow,
+          handleProgressRequest,
+          handleWorkoutRecommendation,
+          handleNutritionRequest,
+          handleAnalyticsRequest,
+          handleEmotionalRequest,
+          handleWorkoutAnalysisRequest,
+          handleAppFeatureRequest,
+          handleGoalStatusRequest,
+          handleGoalProgressRequest,
+          handlePersonalRecordsRequest,
+          handleExerciseEducationRequest,
+          handleAdvancedAnalyticsRequest,
+          handleRecoveryRecommendationsRequest,
+          handlePredictiveAnalyticsRequest,
+          handleAdvancedPersonalizationRequest,
+        ];
+        for (const handler of localHandlers) {
+          const localResponse = await handler(userInput);
+          if (localResponse) {
+            addMessageToChat(currentChat.id, {
+              role: "assistant",
+              content: localResponse,
+              timestamp: new Date().toISOString()
+            });
+            return;
+          }
+        }
       }
       
-      // Check if it's an advanced personalization request
-      const personalizationResponse = await handleAdvancedPersonalizationRequest(userInput);
-      if (personalizationResponse) {
+      // Everything below goes to the AI provider, which needs the user's consent
+      if (!(await requestConsent("aiChat"))) {
         addMessageToChat(currentChat.id, {
           role: "assistant",
-          content: personalizationResponse,
-          timestamp: new Date().toISOString()
+          content: "I need your permission to send this to the AI coach. You can allow it any time under Privacy & Security → Consent & Data Processing."
         });
         setIsLoading(false);
         return;
       }
       
-      // Prepare messages for API
-      const apiMessages = currentChat.messages
+      // Prepare messages for API, skipping turns already summarized into memory
+      const summarizedCount = currentChat.summarizedCount || 0;
+      const history: ChatTurn[] = currentChat.messages
+        .slice(summarizedCount)
         .filter(msg => msg.role !== "system") // Filter out system messages
         .map(msg => ({
           role: msg.role,
           content: msg.content
         }));
       
+      // Only the newest turns that fit the budget are sent; the rest get summarized
+      const { recent, older } = splitHistoryByBudget(history);
+      if (older.length > 0) {
+        summarizeOlderTurns(currentChat.id, older, currentChat.messages.length - recent.length);
+      }
+      
       // Add the new user message
-      apiMessages.push(userMessage);
+      const apiMessages = [...recent, userMessage];
       
-      // Add smart system message with user context
+      // Add smart system message with the user data relevant to the question
       const smartSystemMessage = {
         role: "system" as const,
-        content: generateSmartSystemPrompt()
+        content: generateSmartSystemPrompt(userInput)
       };
       
-      // Make API request
-      const response = await fetch("https://toolkit.rork.com/text/llm/", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({ 
-          messages: [smartSystemMessage, ...apiMessages]
-        })
+      setStreamingText("");
+      const completion = await AIService.stream([smartSystemMessage, ...apiMessages], chunk => {
+        setStreamingText(previous => (previous || "") + chunk);
       });
       
-      if (!response.ok) {
-        throw new Error("Failed to get response from AI");
+      // Tool calls are shown as a diff card and only applied once confirmed
+      const toolCall = parseCoachToolCall(completion);
+      if (toolCall) {
+        const proposal = proposeCoachAction(toolCall);
+        addMessageToChat(currentChat.id, proposal.success
+          ? {
+              role: "assistant",
+              content: toolCall.message || "Here's what I'd change. Confirm to apply it.",
+              action: proposal.action
+            }
+          : {
+              role: "assistant",
+              content: `I couldn't prepare that change: ${proposal.error}.`
+            });
+        return;
       }
       
-      const data = await response.json();
-      
       // Process the response to remove any remaining markdown formatting
-      let cleanedResponse = data.completion;
+      let cleanedResponse = completion;
       // Remove markdown bold/italic formatting (** or __ for bold, * or _ for italic)
       cleanedResponse = cleanedResponse.replace(/(\*\*|__)(.*?)\1/g, '$2');
       cleanedResponse = cleanedResponse.replace(/(\*|_)(.*?)\1/g, '$2');
@@ -1455,192 +1193,25 @@ GOAL CREATION EXAMPLES:
         timestamp: new Date().toISOString()
       });
     } finally {
+      setStreamingText(null);
       setIsLoading(false);
     }
   };
-
-  const handleGoalCreation = async (message: string): Promise<string> => {
-    const lowerMessage = message.toLowerCase();
-    
-    // Extract exercise name from message
-    const exerciseMatch = message.match(/(?:deadlift|bench|squat|press|curl|row|pull-up|push-up|plank|burpee|lunge|shoulder press|bicep curl|tricep dip|leg press|lat pulldown|chest press|leg curl|leg extension|calf raise|shoulder shrug|upright row|bent over row|good morning|romanian deadlift|sumo deadlift|conventional deadlift|trap bar deadlift|rack pull|block pull|deficit deadlift|pause deadlift|tempo deadlift|speed deadlift|max effort deadlift|dynamic effort deadlift|competition deadlift|training deadlift|warm up deadlift|working deadlift|top set deadlift|back off set deadlift|drop set deadlift|rest pause deadlift|cluster set deadlift|emom deadlift|amrap deadlift|for time deadlift|for reps deadlift|for weight deadlift|for distance deadlift|for calories deadlift|for rounds deadlift|for sets deadlift|for time bench|for reps bench|for weight bench|for distance bench|for calories bench|for rounds bench|for sets bench|for time squat|for reps squat|for weight squat|for distance squat)/i);
-    
-    if (exerciseMatch) {
-      const exerciseName = exerciseMatch[0];
-      const analysis = analyzeExerciseProgress(exerciseName);
-      
-      if (!analysis.found) {
-        return `I don't see any ${exerciseName} data in your workout history yet. Try logging a workout with ${exerciseName} first, then I can help you create a goal based on your progress!`;
-      }
-      
-      // Extract timeframe
-      const timeframeMatch = message.match(/(?:1 week|one week|weekly|month|monthly|2 weeks|two weeks|3 weeks|three weeks|4 weeks|four weeks)/i);
-      const timeframe = timeframeMatch ? timeframeMatch[0] : '1 week';
-      
-      // Determine goal type based on message
-      let goalType = 'increase_weight';
-      if (lowerMessage.includes('rep') || lowerMessage.includes('repetition')) {
-        goalType = 'increase_reps';
-      } else if (lowerMessage.includes('form') || lowerMessage.includes('technique')) {
-        goalType = 'improve_form';
-      }
-      
-      const result = createSmartGoal(exerciseName, timeframe, goalType);
-      
-      if (result.success) {
-        return `Perfect! I've created a goal for you based on your ${exerciseName} progress.\n\n${result.message}\n\nYour current PR is ${analysis.currentPR.weight}lbs for ${analysis.currentPR.reps} reps. I've set a realistic target that will challenge you while being achievable.\n\nYou can track your progress in the Goals section. Good luck! 💪`;
-      } else {
-        return result.message;
-      }
-    }
-    
-    // Handle general fitness goals
-    if (lowerMessage.includes('fitness') || lowerMessage.includes('workout')) {
-      try {
-        const suggestions = getGoalSuggestions();
-        const fitnessGoals = suggestions.filter(s => s.type === 'fitness');
-        
-        if (fitnessGoals.length > 0) {
-          const goal = fitnessGoals[0];
-          const newGoal = {
-            id: Date.now().toString(),
-            text: goal.text,
-            category: 'fitness',
-            timeframe: goal.timeframe,
-            targetValue: null,
-            timePeriod: goal.timeframe,
-            progress: 0,
-            completed: false,
-            createdAt: new Date().toISOString()
-          };
-          
-          addGoal(newGoal);
-          return `I've created a fitness goal for you: ${goal.text}\n\nThis is based on your recent workout patterns. You can track your progress in the Goals section!`;
-        }
-      } catch (error) {
-        console.error("Error in handleGoalCreation fitness goals:", error);
-        return "I'm having trouble creating a fitness goal right now. Please try again later.";
-      }
-    }
-    
-    // Handle weight goals
-    if (lowerMessage.includes('weight') || lowerMessage.includes('lose') || lowerMessage.includes('gain')) {
-      const context = getUserContext();
-      if (context.targetWeight > 0) {
-        const weightDiff = Math.abs(context.currentWeight - context.targetWeight);
-        const newGoal = {
-          id: Date.now().toString(),
-          text: `${context.currentWeight > context.targetWeight ? 'Lose' : 'Gain'} ${weightDiff.toFixed(1)}kg`,
-          category: 'weight',
-          timeframe: 'monthly',
-          targetValue: context.targetWeight,
-          timePeriod: 'monthly',
-          progress: 0,
-          completed: false,
-          createdAt: new Date().toISOString()
-        };
-        
-        addGoal(newGoal);
-        return `I've created a weight goal for you: ${newGoal.text}\n\nThis is based on your current weight (${context.currentWeight}kg) and target weight (${context.targetWeight}kg). Track your progress in the Goals section!`;
-      }
-    }
-    
-    // Default response for unclear goal requests
-    return `I'd love to help you create a goal! Please be more specific about what you'd like to achieve. For example:\n\n• "Create a goal to increase my deadlift weight"\n• "Set a fitness goal for this week"\n• "Help me create a weight loss goal"\n\nI can analyze your progress and suggest realistic targets based on your data!`;
-  };
-
-  const handleWorkoutNote = async (message: string): Promise<string> => {
-    const lowerMessage = message.toLowerCase();
-    
-    // Check if it's a note request
-    if (lowerMessage.includes('add note') || lowerMessage.includes('add to note') || lowerMessage.includes('yesterday') || lowerMessage.includes('workout note')) {
-      
-      // Extract the note content
-      const noteMatch = message.match(/(?:add note|add to note).*?["""](.*?)["""]/i);
-      const noteContent = noteMatch ? noteMatch[1] : message.replace(/(?:add note|add to note|yesterday|workout note)/gi, '').trim();
-      
-      if (!noteContent) {
-        return "Please provide the note content you'd like to add. For example: 'Add note to yesterday's workout: \"I was super tired after 6 sets\"'";
-      }
-      
-      // Find yesterday's workout
-      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
-      const workout = findWorkoutByDate(yesterday.toISOString());
-      
-      if (!workout) {
-        return "I couldn't find a workout from yesterday. Would you like to add a note to a different workout?";
-      }
-      
-      const result = addNoteToWorkout(yesterday.toISOString(), noteContent);
-      
-      if (result.success) {
-        return `✅ Note added to your ${new Date(workout.date).toLocaleDateString()} workout:\n\n"${noteContent}"\n\nThis will help you track how you felt and any important details for future reference!`;
-      } else {
-        return result.message;
-      }
-    }
-    
-    return null; // Not a note request
-  };
-
-  const handleWorkoutScheduling = async (message: string): Promise<string> => {
-    const lowerMessage = message.toLowerCase();
-    
-    // Check if it's a scheduling request
-    if (lowerMessage.includes('schedule') && (lowerMessage.includes('workout') || lowerMessage.includes('session'))) {
-      
-      // Extract workout type
-      const workoutTypes = getWorkoutSuggestions();
-      const workoutType = workoutTypes.find(type => lowerMessage.includes(type));
-      
-      if (!workoutType) {
-        return `I can help you schedule a workout! What type would you like?\n\nAvailable types:\n${workoutTypes.map(type => `• ${type}`).join('\n')}\n\nJust say "Schedule me a chest workout" or similar!`;
-      }
-      
-      // Extract date and time
-      const dateMatch = message.match(/(?:for|on|at)\s+(\w+\s+\d+|\d+\/\d+|\d+-\d+)/i);
-      const timeMatch = message.match(/(\d{1,2}:\d{2}\s*(?:am|pm)?)/i);
-      
-      let date = new Date();
-      let time = "18:00"; // Default to 6 PM
-      
-      if (dateMatch) {
-        // Parse date (simplified - could be enhanced)
-        const dateStr = dateMatch[1];
-        if (dateStr.includes('tomorrow')) {
-          date.setDate(date.getDate() + 1);
-        } else if (dateStr.includes('today')) {
-          // Use today
-        } else {
-          // Try to parse other date formats
-          const parsedDate = new Date(dateStr);
-          if (!isNaN(parsedDate.getTime())) {
-            date = parsedDate;
-          }
-        }
-      }
-      
-      if (timeMatch) {
-        time = timeMatch[1];
-        // Convert 12-hour to 24-hour format if needed
-        if (time.includes('pm') && !time.includes('12:')) {
-          const [hours, minutes] = time.split(':');
-          time = `${parseInt(hours) + 12}:${minutes.replace('pm', '')}`;
-        } else if (time.includes('am')) {
-          time = time.replace('am', '');
-        }
-      }
-      
-      const result = scheduleWorkout(workoutType, date.toISOString(), time);
-      
-      if (result.success) {
-        return `✅ ${result.message}\n\nYour workout has been scheduled and will appear in your calendar. You can view and edit it in the Schedule section!`;
-      } else {
-        return "Sorry, I couldn't schedule the workout. Please try again with a specific date and time.";
+  
+  // Runs in the background so the reply is not held up. `count` is how many
+  // leading messages of the chat are covered once the summary is saved.
+  const summarizeOlderTurns = async (chatId: string, turns: ChatTurn[], count: number) => {
+    if (summarizingRef.current) return;
+    summarizingRef.current = true;
+    try {
+      const summary = await summarizeTurns(turns);
+      if (summary) {
+        useAiStore.getState().addToConversationMemory(summary);
       }
+      useAiStore.getState().markChatSummarized(chatId, count);
+    } finally {
+      summarizingRef.current = false;
     }
-    
-    return null; // Not a scheduling request
   };
 
   const handleProgressRequest = async (message: string): Promise<string> => {
@@ -1675,6 +1246,11 @@ GOAL CREATION EXAMPLES:
   const handleWorkoutRecommendation = async (message: string): Promise<string> => {
     const lowerMessage = message.toLowerCase();
     
+    if (lowerMessage.includes('program') && (lowerMessage.includes('recommend') || lowerMessage.includes('suggest') || lowerMessage.includes('plan') || lowerMessage.includes('follow'))) {
+      const focus = lowerMessage.includes('strength') || lowerMessage.includes('stronger') ? 'strength' : 'hypertrophy';
+      return describeWorkoutPlan(generateWorkoutPlan(focus));
+    }
+    
     if (lowerMessage.includes('workout') && (lowerMessage.includes('recommend') || lowerMessage.includes('suggest') || lowerMessage.includes('plan'))) {
       const recommendations = getWorkoutRecommendations();
       
@@ -1705,668 +1281,6 @@ GOAL CREATION EXAMPLES:
     return null;
   };
 
-  const handleWorkoutCreation = async (message: string): Promise<string> => {
-    const lowerMessage = message.toLowerCase();
-    
-    // Check if user wants to create a workout
-    if (lowerMessage.includes('create') && lowerMessage.includes('workout') || 
-        lowerMessage.includes('make') && lowerMessage.includes('workout') ||
-        lowerMessage.includes('build') && lowerMessage.includes('workout')) {
-      
-      try {
-        const workout = await createWorkoutFromRequest(message);
-        
-        if (workout) {
-          // Add the workout to the store
-          addWorkout(workout);
-          
-          let response = `💪 **Workout Created: ${workout.name}**\n\n`;
-          response += `**Category:** ${workout.category}\n`;
-          response += `**Difficulty:** ${workout.difficulty}\n`;
-          response += `**Estimated Duration:** ${workout.estimatedDuration} minutes\n\n`;
-          
-          response += `**Exercises:**\n`;
-          workout.exercises.forEach((exerciseRef, index) => {
-            const exercise = exercises.find(ex => ex.id === exerciseRef.id);
-            if (exercise) {
-              response += `${index + 1}. **${exercise.name}**\n`;
-              response += `   • Muscle Groups: ${exercise.muscleGroups.map(mg => mg.name).join(', ')}\n`;
-              response += `   • Equipment: ${exercise.equipment.map(eq => eq.name).join(', ')}\n`;
-              response += `   • Difficulty: ${exercise.difficulty}\n\n`;
-            }
-          });
-          
-          // Add personalized recommendations based on user profile
-          const recommendations = getPersonalizedWorkoutRecommendations(workout);
-          if (recommendations.length > 0) {
-            response += `**Personalized Recommendations:**\n`;
-            recommendations.forEach(rec => {
-              response += `• ${rec}\n`;
-            });
-            response += `\n`;
-          }
-          
-          // Add progressive overload suggestions
-          const overloadSuggestions = getProgressiveOverloadSuggestions(workout);
-          if (overloadSuggestions.length > 0) {
-            response += `**Progressive Overload Tips:**\n`;
-            overloadSuggestions.forEach(suggestion => {
-              response += `• ${suggestion}\n`;
-            });
-            response += `\n`;
-          }
-          
-          // Add rest day recommendations
-          const restRecommendations = getRestDayRecommendations();
-          if (restRecommendations.length > 0) {
-            response += `**Rest Day Recommendations:**\n`;
-            restRecommendations.forEach(rec => {
-              response += `• ${rec}\n`;
-            });
-            response += `\n`;
-          }
-          
-          response += `✅ **Workout saved to your library!**\n\n`;
-          response += `**Next Steps:**\n`;
-          response += `• Would you like me to schedule this workout?\n`;
-          response += `• Should I create a similar workout for your next session?\n`;
-          response += `• Would you like me to modify any exercises?\n`;
-          response += `• Need help with form or technique?`;
-          
-          return response;
-        }
-      } catch (error) {
-        return `❌ **Error creating workout:** ${error.message}\n\nPlease try again with a more specific request.`;
-      }
-    }
-    
-    return null;
-  };
-
-  const createWorkoutFromRequest = async (message: string): Promise<any> => {
-    const lowerMessage = message.toLowerCase();
-    const { userProfile } = useAiStore.getState();
-    
-    // Parse workout type
-    let workoutType = 'strength';
-    let muscleGroups: string[] = [];
-    let sets = 3;
-    let reps = '8-12';
-    let difficulty = userProfile.experienceLevel; // Use user's actual experience level
-    let duration = 45;
-    
-    // Parse workout type
-    console.log(`[AI Chat] Parsing workout type from message: "${lowerMessage}"`);
-    
-    if (lowerMessage.includes('chest') || lowerMessage.includes('pec')) {
-      workoutType = 'chest';
-      console.log(`[AI Chat] Detected chest workout`);
-    } else if (lowerMessage.includes('back')) {
-      workoutType = 'back';
-      console.log(`[AI Chat] Detected back workout`);
-    } else if (lowerMessage.includes('shoulder')) {
-      workoutType = 'shoulders';
-      console.log(`[AI Chat] Detected shoulders workout`);
-    } else if (lowerMessage.includes('arm')) {
-      workoutType = 'arms';
-      console.log(`[AI Chat] Detected arms workout`);
-    } else if (lowerMessage.includes('leg')) {
-      workoutType = 'legs';
-      console.log(`[AI Chat] Detected legs workout`);
-    } else if (lowerMessage.includes('core') || lowerMessage.includes('abs')) {
-      workoutType = 'core';
-      console.log(`[AI Chat] Detected core workout`);
-    } else if (lowerMessage.includes('push') && lowerMessage.includes('pull')) {
-      workoutType = 'push_pull';
-      console.log(`[AI Chat] Detected push/pull workout`);
-    } else if (lowerMessage.includes('push')) {
-      workoutType = 'push';
-      console.log(`[AI Chat] Detected push workout`);
-    } else if (lowerMessage.includes('pull')) {
-      workoutType = 'pull';
-      console.log(`[AI Chat] Detected pull workout`);
-    } else if (lowerMessage.includes('upper') && lowerMessage.includes('lower')) {
-      workoutType = 'upper_lower';
-      console.log(`[AI Chat] Detected upper/lower workout`);
-    } else if (lowerMessage.includes('upper')) {
-      workoutType = 'upper';
-      console.log(`[AI Chat] Detected upper workout`);
-    } else if (lowerMessage.includes('lower')) {
-      workoutType = 'lower';
-      console.log(`[AI Chat] Detected lower workout`);
-    } else if (lowerMessage.includes('full body') || lowerMessage.includes('fullbody')) {
-      workoutType = 'full_body';
-      console.log(`[AI Chat] Detected full body workout`);
-    } else {
-      console.log(`[AI Chat] No specific workout type detected, using default: ${workoutType}`);
-    }
-    
-    // Parse sets and reps with user context
-    const setsMatch = lowerMessage.match(/(\d+)\s*sets?/);
-    if (setsMatch) {
-      sets = parseInt(setsMatch[1]);
-    } else {
-      // Default sets based on experience level
-      if (userProfile.experienceLevel === 'beginner') {
-        sets = 2;
-      } else if (userProfile.experienceLevel === 'intermediate') {
-        sets = 3;
-      } else {
-        sets = 4;
-      }
-    }
-    
-    const repsMatch = lowerMessage.match(/(\d+)-(\d+)\s*reps?/);
-    if (repsMatch) {
-      reps = `${repsMatch[1]}-${repsMatch[2]}`;
-    } else {
-      const singleRepsMatch = lowerMessage.match(/(\d+)\s*reps?/);
-      if (singleRepsMatch) {
-        reps = singleRepsMatch[1];
-      } else {
-        // Default reps based on experience level and goals
-        if (userProfile.experienceLevel === 'beginner') {
-          reps = '10-12'; // Higher reps for beginners to focus on form
-        } else if (userProfile.fitnessGoals.includes('strength')) {
-          reps = '3-5'; // Lower reps for strength
-        } else if (userProfile.fitnessGoals.includes('muscle gain')) {
-          reps = '8-12'; // Moderate reps for hypertrophy
-        } else if (userProfile.fitnessGoals.includes('weight loss')) {
-          reps = '12-15'; // Higher reps for endurance
-        } else {
-          reps = '8-12'; // Default moderate reps
-        }
-      }
-    }
-    
-    // Parse difficulty (override user level if specified)
-    if (lowerMessage.includes('beginner')) {
-      difficulty = 'beginner';
-    } else if (lowerMessage.includes('advanced')) {
-      difficulty = 'advanced';
-    } else if (lowerMessage.includes('intermediate')) {
-      difficulty = 'intermediate';
-    }
-    
-    // Parse duration
-    const durationMatch = lowerMessage.match(/(\d+)\s*minutes?/);
-    if (durationMatch) {
-      duration = parseInt(durationMatch[1]);
-    } else {
-      // Default duration based on experience level
-      if (userProfile.experienceLevel === 'beginner') {
-        duration = 30; // Shorter workouts for beginners
-      } else if (userProfile.experienceLevel === 'intermediate') {
-        duration = 45;
-      } else {
-        duration = 60; // Longer workouts for advanced users
-      }
-    }
-    
-    // Get exercises based on workout type and user preferences
-    const selectedExercises = getExercisesForWorkoutType(workoutType, difficulty);
-    
-    // Debug: Log the number of exercises found
-    console.log(`[AI Chat] Found ${selectedExercises.length} exercises for workout type: ${workoutType}`);
-    
-    // Filter exercises based on user preferences
-    const filteredExercises = selectedExercises.filter(exercise => {
-      // Avoid disliked exercises
-      if (userProfile.dislikedExercises.some(disliked => 
-        exercise.name.toLowerCase().includes(disliked.toLowerCase())
-      )) {
-        return false;
-      }
-      
-      // Prefer favorite exercises if they match the workout type
-      if (userProfile.favoriteExercises.some(favorite => 
-        exercise.name.toLowerCase().includes(favorite.toLowerCase())
-      )) {
-        return true;
-      }
-      
-      return true;
-    });
-    
-    console.log(`[AI Chat] After filtering, ${filteredExercises.length} exercises remain`);
-    
-    if (filteredExercises.length === 0) {
-      throw new Error(`No exercises found for the requested workout type: ${workoutType}`);
-    }
-    
-    // Adjust number of exercises based on experience level
-    let finalExercises = filteredExercises;
-    if (userProfile.experienceLevel === 'beginner') {
-      finalExercises = filteredExercises.slice(0, 4); // Fewer exercises for beginners
-    } else if (userProfile.experienceLevel === 'intermediate') {
-      finalExercises = filteredExercises.slice(0, 6);
-    } else {
-      finalExercises = filteredExercises.slice(0, 8); // More exercises for advanced users
-    }
-    
-    // Create workout name
-    const workoutName = generateWorkoutName(workoutType, muscleGroups);
-    console.log(`[AI Chat] Generated workout name: "${workoutName}" for type: ${workoutType}`);
-    
-    // Create the workout object
-    const workout = {
-      id: Date.now().toString(),
-      name: workoutName,
-      description: `AI-generated ${workoutType.replace('_', ' ')} workout tailored for ${userProfile.experienceLevel} level`,
-      exercises: finalExercises.map(ex => ({ id: ex.id })),
-      duration: duration,
-      difficulty: difficulty as "beginner" | "intermediate" | "advanced",
-      category: 'Strength',
-      estimatedDuration: duration,
-      intensity: difficulty === "beginner" ? "low" : difficulty === "intermediate" ? "medium" : "high",
-      muscleGroups: Array.from(new Set(finalExercises.flatMap(ex => ex.muscleGroups))),
-      equipment: Array.from(new Set(finalExercises.flatMap(ex => ex.equipment))),
-      image: finalExercises[0]?.imageUrl || "https://images.unsplash.com/photo-1517836357463-d25dfeac3438?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1470&q=80"
-    };
-    
-    return workout;
-  };
-
-  const getExercisesForWorkoutType = (workoutType: string, difficulty: string): Exercise[] => {
-    const { exercises } = useWorkoutStore.getState();
-    
-    console.log(`[AI Chat] Getting exercises for type: ${workoutType}, difficulty: ${difficulty}`);
-    console.log(`[AI Chat] Total exercises available: ${exercises.length}`);
-    
-    switch (workoutType) {
-      case 'push':
-        return exercises.filter(ex => 
-          ex.muscleGroups.some(mg => ['Chest', 'Shoulders', 'Triceps'].includes(mg))
-        ).slice(0, 6);
-        
-      case 'pull':
-        return exercises.filter(ex => 
-          ex.muscleGroups.some(mg => ['Back', 'Biceps', 'Traps'].includes(mg))
-        ).slice(0, 6);
-        
-      case 'push_pull':
-        const pushExercises = exercises.filter(ex => 
-          ex.muscleGroups.some(mg => ['Chest', 'Shoulders', 'Triceps'].includes(mg))
-        ).slice(0, 3);
-        
-        const pullExercises = exercises.filter(ex => 
-          ex.muscleGroups.some(mg => ['Back', 'Biceps', 'Traps'].includes(mg))
-        ).slice(0, 3);
-        
-        return [...pushExercises, ...pullExercises];
-        
-      case 'upper':
-        return exercises.filter(ex => 
-          ex.bodyRegion === 'Upper Body' &&
-          ex.difficulty === difficulty
-        ).slice(0, 6);
-        
-      case 'lower':
-        return exercises.filter(ex => 
-          ex.bodyRegion === 'Lower Body' &&
-          ex.difficulty === difficulty
-        ).slice(0, 6);
-        
-      case 'full_body':
-        return exercises.filter(ex => 
-          ex.difficulty === difficulty
-        ).slice(0, 8);
-        
-      case 'legs':
-        return exercises.filter(ex => 
-          ex.muscleGroups.some(mg => ['Quadriceps', 'Hamstrings', 'Glutes', 'Calves'].includes(mg))
-        ).slice(0, 6);
-        
-      case 'chest':
-        const chestExercises = exercises.filter(ex => 
-          ex.muscleGroups.some(mg => mg === 'Chest')
-        );
-        console.log(`[AI Chat] Found ${chestExercises.length} chest exercises`);
-        return chestExercises.slice(0, 4);
-        
-      case 'back':
-        return exercises.filter(ex => 
-          ex.muscleGroups.some(mg => ['Back', 'Lats', 'Traps'].includes(mg))
-        ).slice(0, 4);
-        
-      case 'shoulders':
-        return exercises.filter(ex => 
-          ex.muscleGroups.some(mg => mg === 'Shoulders')
-        ).slice(0, 4);
-        
-      case 'arms':
-        return exercises.filter(ex => 
-          ex.muscleGroups.some(mg => ['Biceps', 'Triceps'].includes(mg))
-        ).slice(0, 4);
-        
-      case 'core':
-        return exercises.filter(ex => 
-          ex.muscleGroups.some(mg => ['Abs', 'Core'].includes(mg))
-        ).slice(0, 4);
-        
-      default:
-        return exercises.filter(ex => ex.difficulty === difficulty).slice(0, 6);
-    }
-  };
-
-  const generateWorkoutName = (workoutType: string, muscleGroups: string[]): string => {
-    const typeNames = {
-      'push': 'Push Day',
-      'pull': 'Pull Day',
-      'push_pull': 'Push/Pull Workout',
-      'upper': 'Upper Body',
-      'lower': 'Lower Body',
-      'full_body': 'Full Body',
-      'legs': 'Leg Day',
-      'chest': 'Chest Day',
-      'back': 'Back Day',
-      'shoulders': 'Shoulder Day',
-      'arms': 'Arm Day',
-      'core': 'Core Workout'
-    };
-    
-    return typeNames[workoutType] || 'Custom Workout';
-  };
-
-  const getPersonalizedWorkoutRecommendations = (workout: any): string[] => {
-    const { userProfile } = useAiStore.getState();
-    const recommendations: string[] = [];
-    
-    // Based on experience level
-    if (userProfile.experienceLevel === 'beginner') {
-      recommendations.push('Focus on form over weight - start with lighter weights');
-      recommendations.push('Take 2-3 minutes rest between sets');
-      recommendations.push('Consider doing 2-3 sets instead of 4-5 for now');
-    } else if (userProfile.experienceLevel === 'advanced') {
-      recommendations.push('Try supersets to increase intensity');
-      recommendations.push('Consider adding drop sets for muscle growth');
-      recommendations.push('Reduce rest time to 60-90 seconds between sets');
-    }
-    
-    // Based on fitness goals
-    if (userProfile.fitnessGoals.includes('weight loss')) {
-      recommendations.push('Add 10-15 minutes of cardio after this workout');
-      recommendations.push('Keep rest periods short (30-60 seconds)');
-    }
-    
-    if (userProfile.fitnessGoals.includes('muscle gain')) {
-      recommendations.push('Focus on 6-12 rep range for hypertrophy');
-      recommendations.push('Take longer rest periods (2-3 minutes)');
-    }
-    
-    if (userProfile.fitnessGoals.includes('strength')) {
-      recommendations.push('Focus on compound movements first');
-      recommendations.push('Use heavier weights with 3-5 rep range');
-    }
-    
-    // Based on preferred workout time
-    if (userProfile.preferredWorkoutTime === 'morning') {
-      recommendations.push('Do a proper warm-up since you\'re working out early');
-    } else if (userProfile.preferredWorkoutTime === 'evening') {
-      recommendations.push('This workout should help you wind down for the day');
-    }
-    
-    return recommendations;
-  };
-
-  const getProgressiveOverloadSuggestions = (workout: any): string[] => {
-    const suggestions: string[] = [];
-    
-    // General progressive overload tips
-    suggestions.push('Increase weight by 2.5-5 lbs when you can complete all sets with good form');
-    suggestions.push('Add 1-2 reps to each set before increasing weight');
-    suggestions.push('Track your weights and reps to monitor progress');
-    
-    // Specific to workout type
-    if (workout.name.includes('Push') || workout.name.includes('Chest')) {
-      suggestions.push('For bench press, focus on increasing weight by 5 lbs every 2-3 weeks');
-    }
-    
-    if (workout.name.includes('Pull') || workout.name.includes('Back')) {
-      suggestions.push('For pull-ups, try adding weight once you can do 10+ reps');
-    }
-    
-    if (workout.name.includes('Leg')) {
-      suggestions.push('For squats, increase weight by 10 lbs when form is perfect');
-    }
-    
-    return suggestions;
-  };
-
-  const getRestDayRecommendations = (): string[] => {
-    const { userProfile } = useAiStore.getState();
-    const recommendations: string[] = [];
-    
-    // Based on experience level
-    if (userProfile.experienceLevel === 'beginner') {
-      recommendations.push('Take 1-2 rest days between similar muscle group workouts');
-      recommendations.push('Consider light cardio or stretching on rest days');
-    } else if (userProfile.experienceLevel === 'intermediate') {
-      recommendations.push('Take 48-72 hours between working the same muscle groups');
-      recommendations.push('Active recovery like walking or yoga on rest days');
-    } else if (userProfile.experienceLevel === 'advanced') {
-      recommendations.push('You can train 5-6 days per week with proper programming');
-      recommendations.push('Consider deload weeks every 4-6 weeks');
-    }
-    
-    // Based on workout type
-    recommendations.push('For this workout type, rest 1-2 days before training the same muscles again');
-    recommendations.push('Listen to your body - if you\'re sore, take an extra rest day');
-    
-    return recommendations;
-  };
-
-  const handleWorkoutSchedulingRequest = async (message: string): Promise<string> => {
-    const lowerMessage = message.toLowerCase();
-    
-    if (lowerMessage.includes('schedule') && lowerMessage.includes('workout') ||
-        lowerMessage.includes('add') && lowerMessage.includes('schedule') ||
-        lowerMessage.includes('when') && lowerMessage.includes('workout')) {
-      
-      try {
-        // Parse date and time from message
-        const scheduleInfo = parseScheduleRequest(message);
-        
-        // Enhanced workout type recognition
-        const workoutTypes = {
-          'push': ['chest', 'shoulders', 'triceps', 'push'],
-          'pull': ['back', 'biceps', 'pull'],
-          'legs': ['legs', 'quads', 'hamstrings', 'glutes', 'lower body'],
-          'full body': ['full body', 'total body', 'complete'],
-          'chest': ['chest', 'pecs'],
-          'back': ['back', 'lats'],
-          'shoulders': ['shoulders', 'deltoids'],
-          'arms': ['arms', 'biceps', 'triceps'],
-          'core': ['core', 'abs', 'abdominal']
-        };
-        
-        // Check if user mentioned a specific workout type
-        let requestedWorkoutType = null;
-        for (const [type, keywords] of Object.entries(workoutTypes)) {
-          if (keywords.some(keyword => lowerMessage.includes(keyword))) {
-            requestedWorkoutType = type;
-            break;
-          }
-        }
-        
-        if (requestedWorkoutType) {
-          // Create a custom workout based on the type
-          const userFitnessLevel = macroUserProfile?.experienceLevel || 'beginner';
-          const customWorkout = await createWorkoutFromRequest(`${requestedWorkoutType} workout for ${userFitnessLevel} level`);
-          
-          if (customWorkout && scheduleInfo) {
-            // Schedule the workout
-            const scheduledTime = scheduleInfo.time || '18:30';
-            const scheduledDate = scheduleInfo.date || new Date().toISOString().split('T')[0];
-            
-            try {
-              await scheduleWorkout?.({
-                id: Date.now().toString(),
-                workoutId: customWorkout.id,
-                dayOfWeek: new Date(scheduledDate).getDay(),
-                time: scheduledTime,
-                duration: customWorkout.duration || 45,
-                completed: false
-              });
-              
-              return `Perfect! I've created and scheduled a ${requestedWorkoutType} workout for you:\n\n` +
-                     `📅 Date: ${scheduledDate}\n` +
-                     `⏰ Time: ${scheduledTime}\n` +
-                     `💪 Workout: ${customWorkout.name}\n` +
-                     `⏱️ Duration: ${customWorkout.duration || 45} minutes\n` +
-                     `🏋️ Difficulty: ${userFitnessLevel}\n\n` +
-                     `The workout has been added to your schedule. You can view it in the Schedule tab!`;
-            } catch (error) {
-              return `I've created a ${requestedWorkoutType} workout for you, but there was an issue scheduling it. You can find the workout in your workout library and schedule it manually.`;
-            }
-          }
-        }
-        
-        if (scheduleInfo) {
-          // Get the most recent workout (assuming it's the one to schedule)
-          const { workouts } = useWorkoutStore.getState();
-          const recentWorkout = workouts[workouts.length - 1];
-          
-          if (recentWorkout) {
-            // Convert date to dayOfWeek (0-6, Sunday = 0)
-            const scheduledDate = new Date(scheduleInfo.date);
-            const dayOfWeek = scheduledDate.getDay();
-            
-            const scheduledWorkout = {
-              id: Date.now().toString(),
-              workoutId: recentWorkout.id,
-              dayOfWeek: dayOfWeek,
-              time: scheduleInfo.time,
-              duration: scheduleInfo.duration || recentWorkout.estimatedDuration,
-              completed: false
-            };
-            
-            // Add to scheduled workouts
-            scheduleWorkout(scheduledWorkout);
-            
-            let response = `📅 **Workout Scheduled Successfully!**\n\n`;
-            response += `**Workout:** ${recentWorkout.name}\n`;
-            response += `**Day:** ${['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][dayOfWeek]}\n`;
-            response += `**Time:** ${scheduleInfo.time}\n`;
-            response += `**Duration:** ${scheduleInfo.duration || recentWorkout.estimatedDuration} minutes\n\n`;
-            
-            response += `✅ **Added to your schedule!**\n`;
-            response += `You'll get a reminder before your workout.`;
-            
-            return response;
-          } else {
-            return `❌ **No workout found to schedule.**\n\nPlease create a workout first, then ask me to schedule it.`;
-          }
-        } else {
-          let response = `📅 **Let me help you schedule a workout!**\n\n`;
-          response += `I can create and schedule these types of workouts:\n\n`;
-          response += `**Push Workouts:**\n`;
-          response += `• Chest, shoulders, triceps\n`;
-          response += `• Example: "Schedule a push workout for tomorrow at 6pm"\n\n`;
-          response += `**Pull Workouts:**\n`;
-          response += `• Back, biceps\n`;
-          response += `• Example: "Schedule a pull workout for Friday at 7pm"\n\n`;
-          response += `**Leg Workouts:**\n`;
-          response += `• Quads, hamstrings, glutes\n`;
-          response += `• Example: "Schedule a legs workout for Wednesday at 5pm"\n\n`;
-          response += `**Full Body Workouts:**\n`;
-          response += `• Complete body workout\n`;
-          response += `• Example: "Schedule a full body workout for Monday at 6am"\n\n`;
-          response += `**Just tell me what type and when!**`;
-          
-          return response;
-        }
-      } catch (error) {
-        return `❌ **Error scheduling workout:** ${error.message}`;
-      }
-    }
-    
-    return null;
-  };
-
-  const handleWorkoutModificationRequest = async (message: string): Promise<string> => {
-    const lowerMessage = message.toLowerCase();
-    
-    if (lowerMessage.includes('modify') || lowerMessage.includes('change') || 
-        lowerMessage.includes('adjust') || lowerMessage.includes('edit')) {
-      
-      let response = `🔄 **Workout Modification Options**\n\n`;
-      response += `I can help you modify your workouts in several ways:\n\n`;
-      response += `**Exercise Changes:**\n`;
-      response += `• "Replace [exercise] with [new exercise]"\n`;
-      response += `• "Add [exercise] to my workout"\n`;
-      response += `• "Remove [exercise] from my workout"\n\n`;
-      
-      response += `**Intensity Changes:**\n`;
-      response += `• "Make it easier/harder"\n`;
-      response += `• "Increase/decrease sets"\n`;
-      response += `• "Change reps to [number]"\n\n`;
-      
-      response += `**Duration Changes:**\n`;
-      response += `• "Make it shorter/longer"\n`;
-      response += `• "Change duration to [minutes]"\n\n`;
-      
-      response += `**Tell me what you'd like to change!**`;
-      
-      return response;
-    }
-    
-    return null;
-  };
-
-  const parseScheduleRequest = (message: string): any => {
-    const lowerMessage = message.toLowerCase();
-    
-    // Parse date
-    let date = new Date();
-    if (lowerMessage.includes('tomorrow')) {
-      date.setDate(date.getDate() + 1);
-    } else if (lowerMessage.includes('next week')) {
-      date.setDate(date.getDate() + 7);
-    } else if (lowerMessage.includes('monday') || lowerMessage.includes('tuesday') || 
-               lowerMessage.includes('wednesday') || lowerMessage.includes('thursday') ||
-               lowerMessage.includes('friday') || lowerMessage.includes('saturday') ||
-               lowerMessage.includes('sunday')) {
-      // Find the next occurrence of the mentioned day
-      const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-      const targetDay = days.find(day => lowerMessage.includes(day));
-      if (targetDay) {
-        const targetDayIndex = days.indexOf(targetDay);
-        const currentDayIndex = date.getDay();
-        const daysToAdd = (targetDayIndex - currentDayIndex + 7) % 7;
-        date.setDate(date.getDate() + daysToAdd);
-      }
-    }
-    
-    // Parse time
-    let time = '18:00'; // Default to 6pm
-    const timeMatch = lowerMessage.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)/i);
-    if (timeMatch) {
-      let hour = parseInt(timeMatch[1]);
-      const minute = timeMatch[2] ? parseInt(timeMatch[2]) : 0;
-      const period = timeMatch[3].toLowerCase();
-      
-      if (period === 'pm' && hour !== 12) hour += 12;
-      if (period === 'am' && hour === 12) hour = 0;
-      
-      time = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-    }
-    
-    // Parse duration
-    let duration = 45; // Default duration
-    const durationMatch = lowerMessage.match(/(\d+)\s*minutes?/);
-    if (durationMatch) {
-      duration = parseInt(durationMatch[1]);
-    }
-    
-    return {
-      date: date.toISOString().split('T')[0],
-      time,
-      duration,
-      notes: ''
-    };
-  };
-
   const handleNutritionRequest = async (message: string): Promise<string> => {
     const lowerMessage = message.toLowerCase();
     
@@ -2846,12 +1760,7 @@ GOAL CREATION EXAMPLES:
 
   const analyzeVolumeTrends = () => {
     const recentWorkouts = workoutLogs.slice(-5);
-    const volumes = recentWorkouts.map(workout => {
-      return workout.exercises?.reduce((total, exercise) => {
-        return total + (exercise.sets?.reduce((setTotal, set) => 
-          setTotal + (set.weight || 0) * (set.reps || 1), 0) || 0);
-      }, 0) || 0;
-    });
+    const volumes = recentWorkouts.map(workout => getWorkoutVolume(workout));
     
     const avgVolume = volumes.reduce((a, b) => a + b, 0) / volumes.length;
     const volumeTrend = volumes[volumes.length - 1] - volumes[0];
@@ -3367,10 +2276,7 @@ GOAL CREATION EXAMPLES:
     
     // Analyze performance trends
     const performanceData = recentWorkouts.map(workout => {
-      const totalVolume = workout.exercises?.reduce((total, exercise) => {
-        return total + (exercise.sets?.reduce((setTotal, set) => 
-          setTotal + (set.weight || 0) * (set.reps || 1), 0) || 0);
-      }, 0) || 0;
+      const totalVolume = getWorkoutVolume(workout);
       
       return {
         date: new Date(workout.date),
@@ -3885,10 +2791,7 @@ GOAL CREATION EXAMPLES:
 
   const analyzeProgressPatterns = () => {
     const progressData = recentWorkouts.map((workout, index) => {
-      const totalVolume = workout.exercises?.reduce((total, exercise) => {
-        return total + (exercise.sets?.reduce((setTotal, set) => 
-          setTotal + (set.weight || 0) * (set.reps || 1), 0) || 0);
-      }, 0) || 0;
+      const totalVolume = getWorkoutVolume(workout);
       
       return {
         date: new Date(workout.date),
@@ -4158,10 +3061,7 @@ GOAL CREATION EXAMPLES:
     const avgExercises = Math.round(totalExercises / totalWorkouts);
     
     const totalVolume = recentWorkouts.reduce((sum, workout) => {
-      return sum + (workout.exercises?.reduce((exerciseSum, exercise) => {
-        return exerciseSum + (exercise.sets?.reduce((setSum, set) => 
-          setSum + (set.weight || 0) * (set.reps || 1), 0) || 0);
-      }, 0) || 0);
+      return sum + getWorkoutVolume(workout);
     }, 0);
     
     const avgVolume = Math.round(totalVolume / totalWorkouts);
@@ -4262,8 +3162,6 @@ GOAL CREATION EXAMPLES:
     return { hasData: true, trends };
   };
 
-
-
   const generateWorkoutRecommendations = () => {
     const analysis = getComprehensiveWorkoutAnalysis();
     const exerciseData = analysis.exerciseAnalysis;
@@ -4417,24 +3315,120 @@ GOAL CREATION EXAMPLES:
     );
   };
   
-  const handleSelectChat = (chat: AiChat) => {
-    setCurrentChat(chat);
-    setShowChats(false);
-  };
-  
-  // Proactive check-in function
-  const generateProactiveMessage = () => {
-    const context = getUserContext();
-    const now = new Date();
-    const hour = now.getHours();
+  const handleSelectChat = (chat: AiChat) => {
+    setCurrentChat(chat);
+    setShowChats(false);
+  };
+  
+  // Proactive check-in function
+  const generateProactiveMessage = () => {
+    const context = getUserContext();
+    const now = new Date();
+    const hour = now.getHours();
+    
+    if (hour < 12) {
+      return `Good morning ${context.userProfile?.name || 'there'}! Ready to crush your fitness goals today?`;
+    } else if (hour < 17) {
+      return `Good afternoon! How's your fitness journey going today?`;
+    } else {
+      return `Good evening! How did your fitness activities go today?`;
+    }
+  };
+  
+  const handleConfirmAction = (messageId: string, action: CoachAction) => {
+    if (!currentChat) return;
+    const result = applyCoachAction(action);
+    useAiStore.getState().updateMessageAction(currentChat.id, messageId, result);
+    if (result.status === "failed") {
+      Alert.alert("Couldn't apply change", result.error);
+    }
+  };
+  
+  const handleRejectAction = (messageId: string, action: CoachAction) => {
+    if (!currentChat) return;
+    useAiStore.getState().updateMessageAction(currentChat.id, messageId, { ...action, status: "rejected" });
+  };
+  
+  const handleUndoAction = (messageId: string, action: CoachAction) => {
+    if (!currentChat) return;
+    useAiStore.getState().updateMessageAction(currentChat.id, messageId, undoCoachAction(action));
+  };
+  
+  const renderActionCard = (messageId: string, action: CoachAction) => {
+    const statusLabels: Record<CoachAction["status"], string> = {
+      proposed: "Waiting for confirmation",
+      applied: "Applied",
+      rejected: "Cancelled",
+      undone: "Undone",
+      failed: action.error || "Failed"
+    };
+    
+    return (
+      <View style={styles.actionCard}>
+        <Text style={styles.actionTitle}>{action.summary}</Text>
+        {action.changes.map((change, index) => (
+          <View key={index} style={styles.actionChange}>
+            <Text style={styles.actionLabel}>{change.label}</Text>
+            {change.before !== undefined && (
+              <Text style={[styles.actionValue, styles.actionBefore]}>{change.before}</Text>
+            )}
+            <Text style={[styles.actionValue, styles.actionAfter]}>{change.after}</Text>
+          </View>
+        ))}
+        
+        {action.status === "proposed" ? (
+          <View style={styles.actionButtons}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionCancelButton]}
+              onPress={() => handleRejectAction(messageId, action)}
+            >
+              <X size={16} color={colors.text} />
+              <Text style={styles.actionCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionConfirmButton]}
+              onPress={() => handleConfirmAction(messageId, action)}
+            >
+              <Check size={16} color={colors.white} />
+              <Text style={styles.actionConfirmText}>Confirm</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.actionFooter}>
+            <Text style={styles.actionStatus}>{statusLabels[action.status]}</Text>
+            {action.status === "applied" && (
+              <TouchableOpacity
+                style={styles.actionUndoButton}
+                onPress={() => handleUndoAction(messageId, action)}
+              >
+                <RotateCcw size={14} color={colors.primary} />
+                <Text style={styles.actionUndoText}>Undo</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+  
+  const renderStreamingReply = () => {
+    if (streamingText === null) return null;
+    // Tool calls arrive as JSON; show the typing indicator until they become a card
+    const isToolCall = /^\s*(\{|```)/.test(streamingText);
     
-    if (hour < 12) {
-      return `Good morning ${context.userProfile?.name || 'there'}! Ready to crush your fitness goals today?`;
-    } else if (hour < 17) {
-      return `Good afternoon! How's your fitness journey going today?`;
-    } else {
-      return `Good evening! How did your fitness activities go today?`;
-    }
+    return (
+      <View style={[styles.messageContainer, styles.assistantMessageContainer]}>
+        <View style={[styles.messageBubble, styles.assistantMessageBubble]}>
+          {streamingText && !isToolCall ? (
+            <Text style={[styles.messageText, styles.assistantMessageText]}>
+              {streamingText}
+            </Text>
+          ) : (
+            <ActivityIndicator size="small" color={colors.primary} />
+          )}
+        </View>
+      </View>
+    );
   };
   
   const renderChatItem = ({ item }: { item: ChatMessage }) => {
@@ -4455,6 +3449,7 @@ GOAL CREATION EXAMPLES:
           ]}>
             {item.content}
           </Text>
+          {item.action && renderActionCard(item.id, item.action)}
         </View>
       </View>
     );
@@ -4772,12 +3767,13 @@ GOAL CREATION EXAMPLES:
   const handlePersonalRecordsRequest = async (message: string): Promise<string> => {
     const lowerMessage = message.toLowerCase();
     
-    if (lowerMessage.includes('pr') || lowerMessage.includes('personal record') || 
+    if (/\bprs?\b/.test(lowerMessage) || lowerMessage.includes('personal record') || 
         lowerMessage.includes('personal best') || lowerMessage.includes('record') ||
         lowerMessage.includes('max') || lowerMessage.includes('best')) {
       
       try {
-        const { personalRecords } = useWorkoutStore.getState();
+        // Weight × reps summaries read best from the e1RM records
+        const personalRecords = useWorkoutStore.getState().personalRecords.filter(pr => getRecordType(pr) === "e1rm");
         const { workoutLogs } = useWorkoutStore.getState();
         
         let response = `🏆 **Personal Records**\n\n`;
@@ -5022,7 +4018,8 @@ GOAL CREATION EXAMPLES:
         lowerMessage.includes('stats') || lowerMessage.includes('data')) {
       
       try {
-        const { workoutLogs, personalRecords } = useWorkoutStore.getState();
+        const { workoutLogs } = useWorkoutStore.getState();
+        const personalRecords = useWorkoutStore.getState().personalRecords.filter(pr => getRecordType(pr) === "e1rm");
         const { stepCount, waterIntake } = useHealthStore.getState();
         const { goals } = useAiStore.getState();
         
@@ -5294,7 +4291,8 @@ GOAL CREATION EXAMPLES:
         lowerMessage.includes('when') || lowerMessage.includes('timeline')) {
       
       try {
-        const { workoutLogs, personalRecords } = useWorkoutStore.getState();
+        const { workoutLogs } = useWorkoutStore.getState();
+        const personalRecords = useWorkoutStore.getState().personalRecords.filter(pr => getRecordType(pr) === "e1rm");
         const { goals } = useAiStore.getState();
         const { userProfile } = useAiStore.getState();
         
@@ -5484,318 +4482,6 @@ GOAL CREATION EXAMPLES:
     return null;
   };
 
-  const handleInteractiveWorkoutScheduling = async (message: string): Promise<string> => {
-    const lowerMessage = message.toLowerCase();
-    
-    // Check if this is a basic workout scheduling request
-    const isBasicSchedulingRequest = (
-      lowerMessage.includes('schedule') && lowerMessage.includes('workout') ||
-      lowerMessage.includes('add') && lowerMessage.includes('workout') ||
-      lowerMessage.includes('book') && lowerMessage.includes('workout')
-    );
-    
-    if (isBasicSchedulingRequest) {
-      // Check if we have enough information
-      const hasDate = lowerMessage.includes('today') || lowerMessage.includes('tomorrow') || 
-                     lowerMessage.includes('monday') || lowerMessage.includes('tuesday') || 
-                     lowerMessage.includes('wednesday') || lowerMessage.includes('thursday') || 
-                     lowerMessage.includes('friday') || lowerMessage.includes('saturday') || 
-                     lowerMessage.includes('sunday') || /\d{1,2}\/\d{1,2}/.test(lowerMessage) ||
-                     /\d{1,2}-\d{1,2}/.test(lowerMessage);
-      
-      const hasTime = /\d{1,2}:\d{2}/.test(lowerMessage) || 
-                     lowerMessage.includes('morning') || lowerMessage.includes('afternoon') || 
-                     lowerMessage.includes('evening') || lowerMessage.includes('night');
-      
-      const hasWorkoutType = lowerMessage.includes('chest') || lowerMessage.includes('back') || 
-                           lowerMessage.includes('shoulder') || lowerMessage.includes('leg') || 
-                           lowerMessage.includes('arm') || lowerMessage.includes('core') || 
-                           lowerMessage.includes('push') || lowerMessage.includes('pull') || 
-                           lowerMessage.includes('full body');
-      
-      if (!hasDate || !hasTime || !hasWorkoutType) {
-        // Set conversation state to wait for more information
-        setConversationState({
-          isWaitingForResponse: true,
-          waitingFor: 'workout_details',
-          context: {
-            originalRequest: message,
-            hasDate,
-            hasTime,
-            hasWorkoutType
-          }
-        });
-        
-        // Generate follow-up questions
-        let followUpQuestions = "I'd be happy to schedule a workout for you! To make sure I create the perfect workout, I need a few details:\\n\\n";
-        
-        if (!hasDate) {
-          followUpQuestions += "📅 **When would you like to work out?**\\n";
-          followUpQuestions += "• Today\\n";
-          followUpQuestions += "• Tomorrow\\n";
-          followUpQuestions += "• Specific day (Monday, Tuesday, etc.)\\n";
-          followUpQuestions += "• Specific date (e.g., 22/07)\\n\\n";
-        }
-        
-        if (!hasTime) {
-          followUpQuestions += "⏰ **What time works best for you?**\\n";
-          followUpQuestions += "• Morning (6-9 AM)\\n";
-          followUpQuestions += "• Afternoon (12-3 PM)\\n";
-          followUpQuestions += "• Evening (6-9 PM)\\n";
-          followUpQuestions += "• Specific time (e.g., 18:00)\\n\\n";
-        }
-        
-        if (!hasWorkoutType) {
-          followUpQuestions += "💪 **What type of workout would you prefer?**\\n";
-          followUpQuestions += "• Chest workout\\n";
-          followUpQuestions += "• Back workout\\n";
-          followUpQuestions += "• Shoulder workout\\n";
-          followUpQuestions += "• Leg workout\\n";
-          followUpQuestions += "• Full body workout\\n";
-          followUpQuestions += "• Push/Pull workout\\n";
-          followUpQuestions += "• Or let me recommend based on your goals\\n\\n";
-        }
-        
-        followUpQuestions += "Just reply with the details and I'll schedule it for you! 🎯";
-        
-        return followUpQuestions;
-      }
-    }
-    
-    // Check if we're waiting for workout details and user is providing them
-    if (conversationState.isWaitingForResponse && conversationState.waitingFor === 'workout_details') {
-      const context = conversationState.context;
-      
-      // Parse the new information
-      const newInfo = parseWorkoutDetailsFromResponse(message, context);
-      
-      // Check if we now have all the information
-      const hasAllInfo = newInfo.hasDate && newInfo.hasTime && newInfo.hasWorkoutType;
-      
-      if (hasAllInfo) {
-        // Clear conversation state
-        setConversationState({
-          isWaitingForResponse: false,
-          waitingFor: '',
-          context: {}
-        });
-        
-        // Create the complete request and schedule
-        const completeRequest = `${newInfo.workoutType} workout for ${newInfo.date} at ${newInfo.time}`;
-        return await handleCompleteWorkoutScheduling(completeRequest);
-      } else {
-        // Still missing information, ask for remaining details
-        let followUpQuestions = "Great! I got some of the details. I still need:\\n\\n";
-        
-        if (!newInfo.hasDate) {
-          followUpQuestions += "📅 **When would you like to work out?**\\n";
-          followUpQuestions += "• Today\\n";
-          followUpQuestions += "• Tomorrow\\n";
-          followUpQuestions += "• Specific day or date\\n\\n";
-        }
-        
-        if (!newInfo.hasTime) {
-          followUpQuestions += "⏰ **What time works best for you?**\\n";
-          followUpQuestions += "• Morning, afternoon, evening\\n";
-          followUpQuestions += "• Or specific time (e.g., 18:00)\\n\\n";
-        }
-        
-        if (!newInfo.hasWorkoutType) {
-          followUpQuestions += "💪 **What type of workout would you prefer?**\\n";
-          followUpQuestions += "• Chest, back, shoulders, legs, full body\\n";
-          followUpQuestions += "• Or let me recommend based on your goals\\n\\n";
-        }
-        
-        // Update conversation state with new context
-        setConversationState({
-          isWaitingForResponse: true,
-          waitingFor: 'workout_details',
-          context: {
-            ...context,
-            ...newInfo
-          }
-        });
-        
-        return followUpQuestions;
-      }
-    }
-    
-    return null; // Not a workout scheduling request
-  };
-
-  const parseWorkoutDetailsFromResponse = (message: string, context: any) => {
-    const lowerMessage = message.toLowerCase();
-    const result = {
-      hasDate: context.hasDate || false,
-      hasTime: context.hasTime || false,
-      hasWorkoutType: context.hasWorkoutType || false,
-      date: context.date || '',
-      time: context.time || '',
-      workoutType: context.workoutType || ''
-    };
-    
-    // Parse date
-    if (!result.hasDate) {
-      if (lowerMessage.includes('today')) {
-        result.date = new Date().toISOString().split('T')[0];
-        result.hasDate = true;
-      } else if (lowerMessage.includes('tomorrow')) {
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        result.date = tomorrow.toISOString().split('T')[0];
-        result.hasDate = true;
-      } else if (lowerMessage.includes('monday')) {
-        result.date = 'monday';
-        result.hasDate = true;
-      } else if (lowerMessage.includes('tuesday')) {
-        result.date = 'tuesday';
-        result.hasDate = true;
-      } else if (lowerMessage.includes('wednesday')) {
-        result.date = 'wednesday';
-        result.hasDate = true;
-      } else if (lowerMessage.includes('thursday')) {
-        result.date = 'thursday';
-        result.hasDate = true;
-      } else if (lowerMessage.includes('friday')) {
-        result.date = 'friday';
-        result.hasDate = true;
-      } else if (lowerMessage.includes('saturday')) {
-        result.date = 'saturday';
-        result.hasDate = true;
-      } else if (lowerMessage.includes('sunday')) {
-        result.date = 'sunday';
-        result.hasDate = true;
-      } else {
-        // Check for date patterns
-        const dateMatch = lowerMessage.match(/(\d{1,2})\/(\d{1,2})/);
-        if (dateMatch) {
-          result.date = `${dateMatch[1]}/${dateMatch[2]}`;
-          result.hasDate = true;
-        }
-      }
-    }
-    
-    // Parse time
-    if (!result.hasTime) {
-      if (lowerMessage.includes('morning')) {
-        result.time = '08:00';
-        result.hasTime = true;
-      } else if (lowerMessage.includes('afternoon')) {
-        result.time = '14:00';
-        result.hasTime = true;
-      } else if (lowerMessage.includes('evening')) {
-        result.time = '18:00';
-        result.hasTime = true;
-      } else if (lowerMessage.includes('night')) {
-        result.time = '20:00';
-        result.hasTime = true;
-      } else {
-        // Check for time patterns
-        const timeMatch = lowerMessage.match(/(\d{1,2}):(\d{2})/);
-        if (timeMatch) {
-          result.time = `${timeMatch[1]}:${timeMatch[2]}`;
-          result.hasTime = true;
-        }
-      }
-    }
-    
-    // Parse workout type
-    if (!result.hasWorkoutType) {
-      if (lowerMessage.includes('chest')) {
-        result.workoutType = 'chest';
-        result.hasWorkoutType = true;
-      } else if (lowerMessage.includes('back')) {
-        result.workoutType = 'back';
-        result.hasWorkoutType = true;
-      } else if (lowerMessage.includes('shoulder')) {
-        result.workoutType = 'shoulders';
-        result.hasWorkoutType = true;
-      } else if (lowerMessage.includes('leg')) {
-        result.workoutType = 'legs';
-        result.hasWorkoutType = true;
-      } else if (lowerMessage.includes('arm')) {
-        result.workoutType = 'arms';
-        result.hasWorkoutType = true;
-      } else if (lowerMessage.includes('core')) {
-        result.workoutType = 'core';
-        result.hasWorkoutType = true;
-      } else if (lowerMessage.includes('full body')) {
-        result.workoutType = 'full_body';
-        result.hasWorkoutType = true;
-      } else if (lowerMessage.includes('push')) {
-        result.workoutType = 'push';
-        result.hasWorkoutType = true;
-      } else if (lowerMessage.includes('pull')) {
-        result.workoutType = 'pull';
-        result.hasWorkoutType = true;
-      }
-    }
-    
-    return result;
-  };
-
-  const handleCompleteWorkoutScheduling = async (completeRequest: string): Promise<string> => {
-    try {
-      // Parse the complete request
-      const scheduleInfo = parseScheduleRequest(completeRequest);
-      const workoutType = parseWorkoutTypeFromRequest(completeRequest);
-      
-      if (workoutType && scheduleInfo) {
-        // Create a custom workout based on the type
-        const userFitnessLevel = macroUserProfile?.experienceLevel || 'beginner';
-        const customWorkout = await createWorkoutFromRequest(`${workoutType} workout for ${userFitnessLevel} level`);
-        
-        if (customWorkout) {
-          // Schedule the workout
-          const scheduledTime = scheduleInfo.time || '18:30';
-          const scheduledDate = scheduleInfo.date || new Date().toISOString().split('T')[0];
-          
-          try {
-            await scheduleWorkout?.({
-              id: Date.now().toString(),
-              workoutId: customWorkout.id,
-              dayOfWeek: new Date(scheduledDate).getDay(),
-              time: scheduledTime,
-              duration: customWorkout.duration || 45,
-              completed: false
-            });
-            
-            return `🎉 **Perfect! Workout Scheduled Successfully!**\\n\\n` +
-                   `📅 **Date:** ${scheduledDate}\\n` +
-                   `⏰ **Time:** ${scheduledTime}\\n` +
-                   `💪 **Workout:** ${customWorkout.name}\\n` +
-                   `⏱️ **Duration:** ${customWorkout.duration || 45} minutes\\n` +
-                   `🏋️ **Difficulty:** ${userFitnessLevel}\\n\\n` +
-                   `✅ **Added to your schedule!**\\n` +
-                   `You'll get a reminder before your workout.`;
-          } catch (error) {
-            return `I've created a ${workoutType} workout for you, but there was an issue scheduling it. You can find the workout in your workout library and schedule it manually.`;
-          }
-        }
-      }
-      
-      return `I'm having trouble scheduling that workout. Could you please provide more specific details about when and what type of workout you'd like?`;
-    } catch (error) {
-      return `Sorry, I encountered an error while scheduling your workout. Please try again with more specific details.`;
-    }
-  };
-
-  const parseWorkoutTypeFromRequest = (message: string): string | null => {
-    const lowerMessage = message.toLowerCase();
-    
-    if (lowerMessage.includes('chest')) return 'chest';
-    if (lowerMessage.includes('back')) return 'back';
-    if (lowerMessage.includes('shoulder')) return 'shoulders';
-    if (lowerMessage.includes('leg')) return 'legs';
-    if (lowerMessage.includes('arm')) return 'arms';
-    if (lowerMessage.includes('core')) return 'core';
-    if (lowerMessage.includes('full body')) return 'full_body';
-    if (lowerMessage.includes('push')) return 'push';
-    if (lowerMessage.includes('pull')) return 'pull';
-    
-    return null;
-  };
-  
   const handleSmartConversationFlow = async (message: string): Promise<string> => {
     const lowerMessage = message.toLowerCase();
     
@@ -5815,27 +4501,6 @@ GOAL CREATION EXAMPLES:
   };
 
   const detectFunctionType = (message: string): string | null => {
-    // Workout Scheduling
-    if (message.includes('schedule') && message.includes('workout') ||
-        message.includes('add') && message.includes('workout') ||
-        message.includes('book') && message.includes('workout')) {
-      return 'workout_scheduling';
-    }
-    
-    // Goal Creation
-    if (message.includes('create') && message.includes('goal') ||
-        message.includes('set') && message.includes('goal') ||
-        message.includes('new goal')) {
-      return 'goal_creation';
-    }
-    
-    // Workout Creation
-    if (message.includes('create') && message.includes('workout') ||
-        message.includes('make') && message.includes('workout') ||
-        message.includes('build') && message.includes('workout')) {
-      return 'workout_creation';
-    }
-    
     // Nutrition Planning
     if (message.includes('nutrition') && (message.includes('plan') || message.includes('meal')) ||
         message.includes('meal') && message.includes('plan') ||
@@ -5864,7 +4529,7 @@ GOAL CREATION EXAMPLES:
     }
     
     // Personal Records
-    if (message.includes('personal record') || message.includes('pr') ||
+    if (message.includes('personal record') || /\bprs?\b/.test(message) ||
         message.includes('personal best') || message.includes('record')) {
       return 'personal_records';
     }
@@ -5904,69 +4569,6 @@ GOAL CREATION EXAMPLES:
 
   const getFlowConfig = (functionType: string) => {
     const configs = {
-      workout_scheduling: {
-        firstStep: 'date',
-        steps: [
-          {
-            key: 'date',
-            question: "📅 **When would you like to work out?**\n• Today\n• Tomorrow\n• Specific day (Monday, Tuesday, etc.)\n• Specific date (e.g., 22/07)",
-            validation: (response: string) => validateDate(response)
-          },
-          {
-            key: 'time',
-            question: "⏰ **What time works best for you?**\n• Morning (6-9 AM)\n• Afternoon (12-3 PM)\n• Evening (6-9 PM)\n• Specific time (e.g., 18:00)",
-            validation: (response: string) => validateTime(response)
-          },
-          {
-            key: 'workout_type',
-            question: "💪 **What type of workout would you prefer?**\n• Chest workout\n• Back workout\n• Shoulder workout\n• Leg workout\n• Full body workout\n• Push/Pull workout\n• Or let me recommend based on your goals",
-            validation: (response: string) => validateWorkoutType(response)
-          }
-        ]
-      },
-      
-      goal_creation: {
-        firstStep: 'goal_type',
-        steps: [
-          {
-            key: 'goal_type',
-            question: "🎯 **What type of goal would you like to create?**\n• Weight loss\n• Muscle gain\n• Strength improvement\n• Endurance\n• Flexibility\n• General fitness",
-            validation: (response: string) => validateGoalType(response)
-          },
-          {
-            key: 'target_value',
-            question: "📊 **What's your target?**\n• For weight: Target weight in lbs/kg\n• For strength: Target weight for specific exercise\n• For endurance: Target time or distance\n• For flexibility: Target pose or measurement",
-            validation: (response: string) => validateTargetValue(response)
-          },
-          {
-            key: 'timeframe',
-            question: "⏱️ **What's your timeframe?**\n• 1 month\n• 3 months\n• 6 months\n• 1 year\n• Custom timeframe",
-            validation: (response: string) => validateTimeframe(response)
-          }
-        ]
-      },
-      
-      workout_creation: {
-        firstStep: 'workout_focus',
-        steps: [
-          {
-            key: 'workout_focus',
-            question: "🎯 **What should this workout focus on?**\n• Specific muscle group (chest, back, legs, etc.)\n• Movement pattern (push, pull, squat, hinge)\n• Fitness goal (strength, hypertrophy, endurance)\n• Equipment available (gym, home, bodyweight)",
-            validation: (response: string) => validateWorkoutFocus(response)
-          },
-          {
-            key: 'difficulty',
-            question: "🏋️ **What difficulty level?**\n• Beginner (new to exercise)\n• Intermediate (some experience)\n• Advanced (experienced lifter)",
-            validation: (response: string) => validateDifficulty(response)
-          },
-          {
-            key: 'duration',
-            question: "⏱️ **How long should the workout be?**\n• Quick (20-30 minutes)\n• Standard (45-60 minutes)\n• Extended (75-90 minutes)",
-            validation: (response: string) => validateDuration(response)
-          }
-        ]
-      },
-      
       nutrition_planning: {
         firstStep: 'nutrition_goal',
         steps: [
@@ -6131,16 +4733,6 @@ GOAL CREATION EXAMPLES:
     const responses = context.responses;
     
     switch (functionType) {
-      case 'workout_scheduling':
-        const schedulingRequest = `${responses.workout_type} workout for ${responses.date} at ${responses.time}`;
-        return await handleCompleteWorkoutScheduling(schedulingRequest);
-        
-      case 'goal_creation':
-        return await handleGoalCreationFromFlow(responses);
-        
-      case 'workout_creation':
-        return await handleWorkoutCreationFromFlow(responses);
-        
       case 'nutrition_planning':
         return await handleNutritionPlanningFromFlow(responses);
         
@@ -6164,76 +4756,6 @@ GOAL CREATION EXAMPLES:
     }
   };
 
-  // Validation functions
-  const validateDate = (response: string): { isValid: boolean; value?: string; error?: string } => {
-    const lowerResponse = response.toLowerCase();
-    
-    if (lowerResponse.includes('today')) {
-      return { isValid: true, value: new Date().toISOString().split('T')[0] };
-    } else if (lowerResponse.includes('tomorrow')) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      return { isValid: true, value: tomorrow.toISOString().split('T')[0] };
-    } else if (['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].some(day => lowerResponse.includes(day))) {
-      return { isValid: true, value: response };
-    } else if (/\d{1,2}\/\d{1,2}/.test(response) || /\d{1,2}-\d{1,2}/.test(response)) {
-      return { isValid: true, value: response };
-    }
-    
-    return { isValid: false, error: "Please provide a valid date (today, tomorrow, day of week, or date format)" };
-  };
-
-  const validateTime = (response: string): { isValid: boolean; value?: string; error?: string } => {
-    const lowerResponse = response.toLowerCase();
-    
-    if (lowerResponse.includes('morning')) {
-      return { isValid: true, value: '08:00' };
-    } else if (lowerResponse.includes('afternoon')) {
-      return { isValid: true, value: '14:00' };
-    } else if (lowerResponse.includes('evening')) {
-      return { isValid: true, value: '18:00' };
-    } else if (lowerResponse.includes('night')) {
-      return { isValid: true, value: '20:00' };
-    } else if (/\d{1,2}:\d{2}/.test(response)) {
-      return { isValid: true, value: response };
-    }
-    
-    return { isValid: false, error: "Please provide a valid time (morning, afternoon, evening, or time format like 18:00)" };
-  };
-
-  const validateWorkoutType = (response: string): { isValid: boolean; value?: string; error?: string } => {
-    const lowerResponse = response.toLowerCase();
-    const validTypes = ['chest', 'back', 'shoulder', 'leg', 'arm', 'core', 'full body', 'push', 'pull'];
-    
-    for (const type of validTypes) {
-      if (lowerResponse.includes(type)) {
-        return { isValid: true, value: type === 'full body' ? 'full_body' : type + 's' };
-      }
-    }
-    
-    return { isValid: true, value: 'recommended' }; // Default to recommended
-  };
-
-  const validateGoalType = (response: string): { isValid: boolean; value?: string; error?: string } => {
-    const lowerResponse = response.toLowerCase();
-    const validTypes = ['weight loss', 'muscle gain', 'strength', 'endurance', 'flexibility', 'fitness'];
-    
-    for (const type of validTypes) {
-      if (lowerResponse.includes(type)) {
-        return { isValid: true, value: type };
-      }
-    }
-    
-    return { isValid: false, error: "Please choose a valid goal type" };
-  };
-
-  const validateTargetValue = (response: string): { isValid: boolean; value?: string; error?: string } => {
-    if (response.trim().length > 0) {
-      return { isValid: true, value: response };
-    }
-    return { isValid: false, error: "Please provide a target value" };
-  };
-
   const validateTimeframe = (response: string): { isValid: boolean; value?: string; error?: string } => {
     const lowerResponse = response.toLowerCase();
     const validTimeframes = ['1 month', '3 months', '6 months', '1 year', 'week', 'month'];
@@ -6247,23 +4769,6 @@ GOAL CREATION EXAMPLES:
     return { isValid: true, value: response }; // Accept custom timeframes
   };
 
-  const validateWorkoutFocus = (response: string): { isValid: boolean; value?: string; error?: string } => {
-    return { isValid: true, value: response };
-  };
-
-  const validateDifficulty = (response: string): { isValid: boolean; value?: string; error?: string } => {
-    const lowerResponse = response.toLowerCase();
-    const validLevels = ['beginner', 'intermediate', 'advanced'];
-    
-    for (const level of validLevels) {
-      if (lowerResponse.includes(level)) {
-        return { isValid: true, value: level };
-      }
-    }
-    
-    return { isValid: false, error: "Please choose beginner, intermediate, or advanced" };
-  };
-
   const validateDuration = (response: string): { isValid: boolean; value?: string; error?: string } => {
     const lowerResponse = response.toLowerCase();
     
@@ -6377,52 +4882,6 @@ GOAL CREATION EXAMPLES:
     return { isValid: true, value: response };
   };
 
-  // Function execution handlers
-  const handleGoalCreationFromFlow = async (responses: any): Promise<string> => {
-    try {
-      const goalData = {
-        type: responses.goal_type,
-        target: responses.target_value,
-        timeframe: responses.timeframe,
-        currentValue: '0', // Will be set by user
-        unit: 'units', // Will be determined based on goal type
-        createdAt: new Date().toISOString()
-      };
-      
-      // Add goal to store
-      const { addGoal } = useAiStore.getState();
-      addGoal(goalData);
-      
-      return `🎯 **Goal Created Successfully!**\n\n` +
-             `**Type:** ${responses.goal_type}\n` +
-             `**Target:** ${responses.target_value}\n` +
-             `**Timeframe:** ${responses.timeframe}\n\n` +
-             `✅ Your goal has been added to your profile. I'll help you track your progress!`;
-    } catch (error) {
-      return "I encountered an error creating your goal. Please try again.";
-    }
-  };
-
-  const handleWorkoutCreationFromFlow = async (responses: any): Promise<string> => {
-    try {
-      const workoutRequest = `${responses.workout_focus} workout for ${responses.difficulty} level, ${responses.duration} minutes`;
-      const customWorkout = await createWorkoutFromRequest(workoutRequest);
-      
-      if (customWorkout) {
-        return `💪 **Workout Created Successfully!**\n\n` +
-               `**Name:** ${customWorkout.name}\n` +
-               `**Focus:** ${responses.workout_focus}\n` +
-               `**Difficulty:** ${responses.difficulty}\n` +
-               `**Duration:** ${responses.duration} minutes\n\n` +
-               `✅ Your workout has been created and added to your library!`;
-      }
-      
-      return "I encountered an error creating your workout. Please try again.";
-    } catch (error) {
-      return "I encountered an error creating your workout. Please try again.";
-    }
-  };
-
   const handleNutritionPlanningFromFlow = async (responses: any): Promise<string> => {
     try {
       return `🍎 **Nutrition Plan Created!**\n\n` +
@@ -6778,6 +5237,7 @@ GOAL CREATION EXAMPLES:
                 keyExtractor={(item) => item.id}
                 contentContainerStyle={styles.messageList}
                 onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
+                ListFooterComponent={renderStreamingReply()}
               />
             </>
           )
@@ -6963,6 +5423,89 @@ const getStyles = (colors: any) => StyleSheet.create({
   assistantMessageText: {
     color: colors.text,
   },
+  actionCard: {
+    marginTop: 10,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  actionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  actionChange: {
+    marginBottom: 6,
+  },
+  actionLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+  actionValue: {
+    fontSize: 14,
+  },
+  actionBefore: {
+    color: colors.textSecondary,
+    textDecorationLine: 'line-through',
+  },
+  actionAfter: {
+    color: colors.text,
+    fontWeight: '500',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+  },
+  actionCancelButton: {
+    backgroundColor: colors.card,
+  },
+  actionConfirmButton: {
+    backgroundColor: colors.primary,
+  },
+  actionCancelText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  actionConfirmText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.white,
+  },
+  actionFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  actionStatus: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    flexShrink: 1,
+  },
+  actionUndoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  actionUndoText: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '500',
+  },
   inputContainer: {
     paddingHorizontal: 20,
     paddingTop: 20,
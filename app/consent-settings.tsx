@@ -0,0 +1,223 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Switch,
+  TouchableOpacity,
+  ScrollView,
+  Alert
+} from "react-native";
+import { Stack, useRouter } from "expo-router";
+import { ArrowLeft, History } from "lucide-react-native";
+import { colors } from "@/constants/colors";
+import { useConsentStore, ConsentPurpose, ConsentEvent, PRIVACY_POLICY_VERSION } from "@/store/consentStore";
+import { CONSENT_PURPOSES, grantConsent, withdrawConsent } from "@/utils/consent";
+
+const PURPOSES = Object.keys(CONSENT_PURPOSES) as ConsentPurpose[];
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+const getStatusText = (latest: ConsentEvent | null, hasConsent: boolean) => {
+  if (hasConsent && latest) return `Allowed on ${formatDate(latest.timestamp)}`;
+  if (latest?.granted) return `Allowed under an earlier policy (${latest.policyVersion}). Allow again to continue.`;
+  if (latest) return `Not allowed since ${formatDate(latest.timestamp)}`;
+  return "Not asked yet";
+};
+
+const getEventText = (event: ConsentEvent) => {
+  if (event.granted) return "Allowed";
+  return event.source === "settings" ? "Withdrawn" : "Declined";
+};
+
+export default function ConsentSettingsScreen() {
+  const router = useRouter();
+  const { events, hasConsent, getLatestEvent } = useConsentStore();
+
+  const handleToggle = (purpose: ConsentPurpose, value: boolean) => {
+    if (value) {
+      grantConsent(purpose, "settings");
+      return;
+    }
+
+    const { title, withdrawal } = CONSENT_PURPOSES[purpose];
+    Alert.alert(
+      `Withdraw ${title}?`,
+      withdrawal,
+      [
+        {
+          text: "Cancel",
+          style: "cancel"
+        },
+        {
+          text: "Withdraw",
+          style: "destructive",
+          onPress: () => withdrawConsent(purpose)
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: "Consent & Data Processing",
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <ArrowLeft size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.intro}>
+            Choose what the app may do with your data beyond storing it on this device. Every choice is recorded with the date and the privacy policy version ({PRIVACY_POLICY_VERSION}) it was made under.
+          </Text>
+
+          {PURPOSES.map(purpose => {
+            const { title, description } = CONSENT_PURPOSES[purpose];
+            const allowed = hasConsent(purpose);
+
+            return (
+              <View key={purpose} style={styles.purposeCard}>
+                <View style={styles.purposeHeader}>
+                  <Text style={styles.purposeTitle}>{title}</Text>
+                  <Switch
+                    value={allowed}
+                    onValueChange={(value) => handleToggle(purpose, value)}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                    thumbColor="#FFFFFF"
+                  />
+                </View>
+                <Text style={styles.purposeDescription}>{description}</Text>
+                <Text style={[styles.purposeStatus, allowed && styles.purposeStatusAllowed]}>
+                  {getStatusText(getLatestEvent(purpose), allowed)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.historyHeader}>
+            <History size={20} color={colors.primary} />
+            <Text style={styles.sectionTitle}>History</Text>
+          </View>
+
+          {events.length === 0 ? (
+            <Text style={styles.emptyText}>No consent choices recorded yet.</Text>
+          ) : (
+            [...events].reverse().map(event => (
+              <View key={event.id} style={styles.historyItem}>
+                <View style={styles.historyText}>
+                  <Text style={styles.historyTitle}>
+                    {CONSENT_PURPOSES[event.purpose].title}: {getEventText(event)}
+                  </Text>
+                  <Text style={styles.historyMeta}>
+                    {formatDate(event.timestamp)} · Policy {event.policyVersion} · {event.source === "settings" ? "Settings" : "When asked"}
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  backButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: colors.text,
+    marginLeft: 8,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  purposeCard: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  purposeHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  purposeTitle: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: colors.text,
+    flex: 1,
+  },
+  purposeDescription: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  purposeStatus: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  purposeStatusAllowed: {
+    color: colors.success,
+  },
+  historyHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  historyItem: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  historyText: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: colors.text,
+    marginBottom: 2,
+  },
+  historyMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+});
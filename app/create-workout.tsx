@@ -21,14 +21,17 @@ import {
   BarChart, 
   Tag,
   Search,
-  Check
+  Check,
+  Link,
+  Minus
 } from "lucide-react-native";
 import { useTheme } from "@/context/ThemeContext";
 import { useWorkoutStore } from "@/store/workoutStore";
-import { Exercise } from "@/types";
+import { Exercise, ExerciseGroup, ExerciseGroupType } from "@/types";
 import Button from "@/components/Button";
 import ExerciseCard from "@/components/ExerciseCard";
 import HorizontalScrollSelector from "@/components/HorizontalScrollSelector";
+import { GROUP_TYPE_LABELS, createExerciseGroup, describeExerciseGroup } from "@/utils/exerciseGroups";
 
 export default function CreateWorkoutScreen() {
   const router = useRouter();
@@ -41,6 +44,9 @@ export default function CreateWorkoutScreen() {
   const [category, setCategory] = useState("Strength");
   const [difficulty, setDifficulty] = useState("intermediate");
   const [selectedExercises, setSelectedExercises] = useState<Exercise[]>([]);
+  const [groups, setGroups] = useState<ExerciseGroup[]>([]);
+  const [isGrouping, setIsGrouping] = useState(false);
+  const [groupSelection, setGroupSelection] = useState<string[]>([]);
   
   const [showExerciseModal, setShowExerciseModal] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -148,8 +154,96 @@ export default function CreateWorkoutScreen() {
   
   const handleRemoveExercise = (exerciseId: string) => {
     setSelectedExercises(selectedExercises.filter(ex => ex.id !== exerciseId));
+    // A group needs at least two exercises
+    setGroups(groups
+      .map(group => ({ ...group, exerciseIds: group.exerciseIds.filter(id => id !== exerciseId) }))
+      .filter(group => group.exerciseIds.length >= 2));
   };
   
+  const getGroupForExercise = (exerciseId: string) => {
+    return groups.find(group => group.exerciseIds.includes(exerciseId)) || null;
+  };
+  
+  const toggleGroupSelection = (exerciseId: string) => {
+    setGroupSelection(prev =>
+      prev.includes(exerciseId) ? prev.filter(id => id !== exerciseId) : [...prev, exerciseId]
+    );
+  };
+  
+  const handleCancelGrouping = () => {
+    setIsGrouping(false);
+    setGroupSelection([]);
+  };
+  
+  const handleCreateGroup = (type: ExerciseGroupType) => {
+    if (groupSelection.length < 2) {
+      Alert.alert("Select Exercises", "Pick at least two exercises to group.");
+      return;
+    }
+    
+    // Keep members in workout order and move them next to the first one
+    const memberIds = selectedExercises.filter(ex => groupSelection.includes(ex.id)).map(ex => ex.id);
+    const firstIndex = selectedExercises.findIndex(ex => ex.id === memberIds[0]);
+    const members = selectedExercises.filter(ex => memberIds.includes(ex.id));
+    const others = selectedExercises.filter(ex => !memberIds.includes(ex.id));
+    const insertAt = selectedExercises.slice(0, firstIndex).filter(ex => !memberIds.includes(ex.id)).length;
+    others.splice(insertAt, 0, ...members);
+    setSelectedExercises(others);
+    
+    // An exercise can only be in one group
+    setGroups([
+      ...groups
+        .map(group => ({ ...group, exerciseIds: group.exerciseIds.filter(id => !memberIds.includes(id)) }))
+        .filter(group => group.exerciseIds.length >= 2),
+      createExerciseGroup(type, memberIds),
+    ]);
+    handleCancelGrouping();
+  };
+  
+  const handleUngroup = (groupId: string) => {
+    setGroups(groups.filter(group => group.id !== groupId));
+  };
+  
+  const updateGroup = (groupId: string, updates: Partial<ExerciseGroup>) => {
+    setGroups(groups.map(group => group.id === groupId ? { ...group, ...updates } : group));
+  };
+  
+  const renderGroupStepper = (label: string, value: number, onChange: (value: number) => void, step: number, min: number) => (
+    <View style={styles.groupStepper}>
+      <Text style={[styles.groupStepperLabel, { color: colors.textSecondary }]}>{label}</Text>
+      <TouchableOpacity onPress={() => onChange(Math.max(value - step, min))} style={styles.groupStepperButton}>
+        <Minus size={14} color={colors.primary} />
+      </TouchableOpacity>
+      <Text style={[styles.groupStepperValue, { color: colors.text }]}>{value}</Text>
+      <TouchableOpacity onPress={() => onChange(value + step)} style={styles.groupStepperButton}>
+        <Plus size={14} color={colors.primary} />
+      </TouchableOpacity>
+    </View>
+  );
+  
+  const renderGroupHeader = (group: ExerciseGroup) => (
+    <View style={[styles.groupHeader, { borderColor: colors.primary }]}>
+      <View style={styles.groupHeaderRow}>
+        <Link size={16} color={colors.primary} />
+        <Text style={[styles.groupTitle, { color: colors.primary }]}>
+          {GROUP_TYPE_LABELS[group.type]} · {describeExerciseGroup(group)}
+        </Text>
+        <TouchableOpacity onPress={() => handleUngroup(group.id)}>
+          <Text style={[styles.ungroupText, { color: colors.textSecondary }]}>Ungroup</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.groupHeaderRow}>
+        {group.type !== "amrap" && renderGroupStepper("Rounds", group.rounds, value => updateGroup(group.id, { rounds: value }), 1, 1)}
+        {(group.type === "superset" || group.type === "circuit") &&
+          renderGroupStepper("Rest (s)", group.restBetweenRounds, value => updateGroup(group.id, { restBetweenRounds: value }), 15, 0)}
+        {group.type === "emom" &&
+          renderGroupStepper("Every (s)", group.intervalSeconds || 60, value => updateGroup(group.id, { intervalSeconds: value }), 15, 15)}
+        {group.type === "amrap" &&
+          renderGroupStepper("Cap (min)", group.timeCapMinutes || 12, value => updateGroup(group.id, { timeCapMinutes: value }), 1, 1)}
+      </View>
+    </View>
+  );
+  
   const toggleBodyViewMode = () => {
     setBodyViewMode(bodyViewMode === 'front' ? 'back' : 'front');
   };
@@ -178,6 +272,7 @@ export default function CreateWorkoutScreen() {
       name,
       description: description || `Custom workout: ${name}`,
       exercises: selectedExercises.map(ex => ({ id: ex.id })),
+      groups,
       duration: parseInt(duration) || 45,
       difficulty: difficulty as "beginner" | "intermediate" | "advanced",
       category,
@@ -430,15 +525,48 @@ export default function CreateWorkoutScreen() {
         <View style={[styles.section, { backgroundColor: colors.card }]}>
           <View style={styles.sectionHeader}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>Exercises</Text>
-            <TouchableOpacity 
-              style={[styles.addButton, { backgroundColor: colors.primary }]}
-              onPress={() => setShowExerciseModal(true)}
-            >
-              <Plus size={20} color="#FFFFFF" />
-              <Text style={styles.addButtonText}>Add Exercise</Text>
-            </TouchableOpacity>
+            <View style={styles.sectionHeaderButtons}>
+              {selectedExercises.length >= 2 && !isGrouping && (
+                <TouchableOpacity 
+                  style={[styles.addButton, styles.groupButton, { borderColor: colors.primary }]}
+                  onPress={() => setIsGrouping(true)}
+                >
+                  <Link size={16} color={colors.primary} />
+                  <Text style={[styles.addButtonText, { color: colors.primary }]}>Group</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity 
+                style={[styles.addButton, { backgroundColor: colors.primary }]}
+                onPress={() => setShowExerciseModal(true)}
+              >
+                <Plus size={20} color="#FFFFFF" />
+                <Text style={styles.addButtonText}>Add Exercise</Text>
+              </TouchableOpacity>
+            </View>
           </View>
           
+          {isGrouping && (
+            <View style={[styles.groupingBar, { backgroundColor: colors.background }]}>
+              <Text style={[styles.groupingHint, { color: colors.textSecondary }]}>
+                Select the exercises to perform back to back ({groupSelection.length} selected)
+              </Text>
+              <View style={styles.groupTypeRow}>
+                {(Object.keys(GROUP_TYPE_LABELS) as ExerciseGroupType[]).map(type => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.groupTypeButton, { backgroundColor: colors.primary }]}
+                    onPress={() => handleCreateGroup(type)}
+                  >
+                    <Text style={styles.addButtonText}>{GROUP_TYPE_LABELS[type]}</Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity style={styles.groupTypeButton} onPress={handleCancelGrouping}>
+                  <Text style={{ color: colors.textSecondary }}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+          
           {selectedExercises.length === 0 ? (
             <View style={styles.emptyExercises}>
               <Dumbbell size={40} color={colors.textLight} />
@@ -448,27 +576,49 @@ export default function CreateWorkoutScreen() {
             </View>
           ) : (
             <View style={styles.exercisesList}>
-              {selectedExercises.map((exercise, index) => (
-                <View key={exercise.id} style={[styles.exerciseItem, { backgroundColor: colors.background }]}>
-                  <View style={[styles.exerciseNumber, { backgroundColor: colors.primary }]}>
-                    <Text style={styles.exerciseNumberText}>{index + 1}</Text>
-                  </View>
+              {selectedExercises.map((exercise, index) => {
+                const group = getGroupForExercise(exercise.id);
+                const isFirstInGroup = group && group.exerciseIds[0] === exercise.id;
+                const isSelectedForGroup = groupSelection.includes(exercise.id);
+                
+                return (
+                  <View key={exercise.id}>
+                    {isFirstInGroup && renderGroupHeader(group)}
+                    <TouchableOpacity
+                      style={[
+                        styles.exerciseItem,
+                        { backgroundColor: colors.background },
+                        group && [styles.groupedExerciseItem, { borderLeftColor: colors.primary }],
+                      ]}
+                      disabled={!isGrouping}
+                      onPress={() => toggleGroupSelection(exercise.id)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={[styles.exerciseNumber, { backgroundColor: colors.primary }]}>
+                        {isGrouping && isSelectedForGroup ? (
+                          <Check size={16} color="#FFFFFF" />
+                        ) : (
+                          <Text style={styles.exerciseNumberText}>{index + 1}</Text>
+                        )}
+                      </View>
                   
-                  <View style={styles.exerciseContent}>
-                    <Text style={[styles.exerciseName, { color: colors.text }]}>{exercise.name}</Text>
-                    <Text style={[styles.exerciseCategory, { color: colors.textSecondary }]}>
-                      {exercise.bodyRegion} • {exercise.muscleGroups.join(", ")}
-                    </Text>
-                  </View>
+                      <View style={styles.exerciseContent}>
+                        <Text style={[styles.exerciseName, { color: colors.text }]}>{exercise.name}</Text>
+                        <Text style={[styles.exerciseCategory, { color: colors.textSecondary }]}>
+                          {exercise.bodyRegion} • {exercise.muscleGroups.join(", ")}
+                        </Text>
+                      </View>
                   
-                  <TouchableOpacity
-                    style={styles.removeButton}
-                    onPress={() => handleRemoveExercise(exercise.id)}
-                  >
-                    <X size={20} color={colors.error} />
-                  </TouchableOpacity>
-                </View>
-              ))}
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => handleRemoveExercise(exercise.id)}
+                      >
+                        <X size={20} color={colors.error} />
+                      </TouchableOpacity>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
             </View>
           )}
         </View>
@@ -902,6 +1052,76 @@ const styles = StyleSheet.create({
   removeButton: {
     padding: 8,
   },
+  sectionHeaderButtons: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  groupButton: {
+    borderWidth: 1,
+    marginRight: 8,
+  },
+  groupingBar: {
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  groupingHint: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  groupTypeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  groupTypeButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  groupHeader: {
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+    paddingVertical: 6,
+    marginBottom: 4,
+  },
+  groupHeaderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
+  ungroupText: {
+    fontSize: 13,
+  },
+  groupStepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 6,
+    marginRight: 16,
+  },
+  groupStepperLabel: {
+    fontSize: 13,
+    marginRight: 4,
+  },
+  groupStepperButton: {
+    padding: 4,
+  },
+  groupStepperValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    minWidth: 24,
+    textAlign: "center",
+  },
+  groupedExerciseItem: {
+    borderLeftWidth: 3,
+  },
   buttonContainer: {
     marginTop: 8,
     marginBottom: 40,
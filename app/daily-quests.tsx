@@ -2,14 +2,24 @@ import React, { useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, SafeAreaView } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useTheme } from '@/context/ThemeContext';
-import { useGamificationStore } from '@/store/gamificationStore';
-import { ArrowLeft, Award, Check, Clock, Zap } from 'lucide-react-native';
+import { useGamificationStore, DailyQuest } from '@/store/gamificationStore';
+import { ArrowLeft, Award, Check, Clock, RefreshCw, Zap } from 'lucide-react-native';
 import Button from '@/components/Button';
+import { formatQuestProgress } from '@/utils/questCriteria';
 
 export default function DailyQuestsScreen() {
   const router = useRouter();
   const { colors } = useTheme();
-  const { dailyQuests, completeDailyQuest, gamificationEnabled, checkAndAutoCompleteQuests } = useGamificationStore();
+  const {
+    dailyQuests,
+    weeklyQuests,
+    monthlyQuests,
+    questRerollTokens,
+    completeDailyQuest,
+    rerollQuest,
+    gamificationEnabled,
+    checkAndAutoCompleteQuests
+  } = useGamificationStore();
   
   // Check for automatic quest completion when screen loads
   useEffect(() => {
@@ -44,11 +54,83 @@ export default function DailyQuestsScreen() {
     }
   };
   
+  // Weekly and monthly quests run until the end of their period
+  const openWeeklyQuests = weeklyQuests.filter(quest => !quest.completed);
+  const openMonthlyQuests = monthlyQuests.filter(quest => !quest.completed);
+  
   // Handle quest completion
   const handleCompleteQuest = (questId: string) => {
     completeDailyQuest(questId);
   };
   
+  const renderActiveQuest = (quest: DailyQuest) => {
+    const progress = quest.criteria
+      ? Math.min((quest.progress || 0) / quest.criteria.target, 1)
+      : 0;
+    
+    return (
+      <View 
+        key={quest.id} 
+        style={[styles.questCard, { backgroundColor: colors.card }]}
+      >
+        <View style={styles.questInfo}>
+          <View style={[styles.questIcon, { backgroundColor: `${colors.primary}20` }]}>
+            {getQuestIcon(quest.category)}
+          </View>
+          <View style={styles.questContent}>
+            <Text style={[styles.questTitle, { color: colors.text }]}>
+              {quest.title}
+            </Text>
+            <Text style={[styles.questDescription, { color: colors.textSecondary }]}>
+              {quest.description}
+            </Text>
+            {quest.criteria && (
+              <View style={styles.progressContainer}>
+                <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+                  <View 
+                    style={[
+                      styles.progressFill, 
+                      { backgroundColor: colors.primary, width: `${progress * 100}%` }
+                    ]} 
+                  />
+                </View>
+                <Text style={[styles.progressText, { color: colors.textSecondary }]}>
+                  {formatQuestProgress(quest.progress || 0, quest.criteria)}
+                </Text>
+              </View>
+            )}
+            <View style={styles.questReward}>
+              <Text style={[styles.questRewardText, { color: colors.primary }]}>
+                +{quest.points} XP
+              </Text>
+              {questRerollTokens > 0 && (
+                <TouchableOpacity 
+                  style={styles.rerollButton}
+                  onPress={() => rerollQuest(quest.id)}
+                >
+                  <RefreshCw size={14} color={colors.textSecondary} />
+                  <Text style={[styles.rerollText, { color: colors.textSecondary }]}>
+                    Reroll
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </View>
+        
+        {/* Tracked quests are completed by checkAndAutoCompleteQuests */}
+        {!quest.criteria && (
+          <TouchableOpacity 
+            style={[styles.completeButton, { backgroundColor: colors.primary }]}
+            onPress={() => handleCompleteQuest(quest.id)}
+          >
+            <Check size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+  
   // Handle back navigation
   const handleBack = () => {
     router.back();
@@ -107,6 +189,9 @@ export default function DailyQuestsScreen() {
           <Text style={[styles.infoText, { color: colors.textSecondary }]}>
             Daily quests reset at midnight. Make sure to complete them before they expire!
           </Text>
+          <Text style={[styles.infoText, { color: colors.textSecondary }]}>
+            Reroll tokens: {questRerollTokens} (one more each week)
+          </Text>
         </View>
         
         {activeQuests.length > 0 ? (
@@ -115,38 +200,7 @@ export default function DailyQuestsScreen() {
               Today's Quests ({activeQuests.length})
             </Text>
             
-            {activeQuests.map((quest) => (
-              <View 
-                key={quest.id} 
-                style={[styles.questCard, { backgroundColor: colors.card }]}
-              >
-                <View style={styles.questInfo}>
-                  <View style={[styles.questIcon, { backgroundColor: `${colors.primary}20` }]}>
-                    {getQuestIcon(quest.category)}
-                  </View>
-                  <View style={styles.questContent}>
-                    <Text style={[styles.questTitle, { color: colors.text }]}>
-                      {quest.title}
-                    </Text>
-                    <Text style={[styles.questDescription, { color: colors.textSecondary }]}>
-                      {quest.description}
-                    </Text>
-                    <View style={styles.questReward}>
-                      <Text style={[styles.questRewardText, { color: colors.primary }]}>
-                        +{quest.points} XP
-                      </Text>
-                    </View>
-                  </View>
-                </View>
-                
-                <TouchableOpacity 
-                  style={[styles.completeButton, { backgroundColor: colors.primary }]}
-                  onPress={() => handleCompleteQuest(quest.id)}
-                >
-                  <Check size={20} color="#FFFFFF" />
-                </TouchableOpacity>
-              </View>
-            ))}
+            {activeQuests.map(renderActiveQuest)}
           </View>
         ) : (
           <View style={[styles.emptyQuestsCard, { backgroundColor: colors.card }]}>
@@ -160,6 +214,24 @@ export default function DailyQuestsScreen() {
           </View>
         )}
         
+        {openWeeklyQuests.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              This Week ({openWeeklyQuests.length})
+            </Text>
+            {openWeeklyQuests.map(renderActiveQuest)}
+          </View>
+        )}
+        
+        {openMonthlyQuests.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              This Month ({openMonthlyQuests.length})
+            </Text>
+            {openMonthlyQuests.map(renderActiveQuest)}
+          </View>
+        )}
+        
         {completedQuests.length > 0 && (
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -312,6 +384,31 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  progressContainer: {
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  progressText: {
+    fontSize: 12,
+  },
+  rerollButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  rerollText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
   completedText: {
     fontSize: 12,
     fontWeight: '500',
@@ -1,16 +1,16 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator, Platform, SafeAreaView } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator, Platform, SafeAreaView, TextInput } from 'react-native';
 import { useThemeStore } from '@/store/themeStore';
 import { getColors } from '@/constants/colors';
 import { Stack, useRouter } from 'expo-router';
-import { useAiStore } from '@/store/aiStore';
-import { useHealthStore } from '@/store/healthStore';
-import { useMacroStore } from '@/store/macroStore';
 import { usePhotoStore } from '@/store/photoStore';
-import { useWorkoutStore } from '@/store/workoutStore';
-import { useNotificationStore } from '@/store/notificationStore';
 import { useSecureStore } from '@/store/secureStore';
+import { getReadOnlyStores } from '@/utils/encryptedStorage';
+import { WipeReport } from '@/utils/dataErasure';
+import { downloadFoodDatabase } from '@/utils/foodDatabase';
+import WipeReportModal from '@/components/WipeReportModal';
 import * as FileSystem from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ArrowLeft, Shield, AlertTriangle } from "lucide-react-native";
 
@@ -31,18 +31,17 @@ export default function DataManagement() {
   const colors = getColors(currentTheme, colorScheme);
   
   const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [archivePassphrase, setArchivePassphrase] = useState('');
   const [isDeleting, setIsDeleting] = useState(false);
+  const [wipeReport, setWipeReport] = useState<WipeReport | null>(null);
   const [isCleaningCache, setIsCleaningCache] = useState(false);
+  const [isRotatingKey, setIsRotatingKey] = useState(false);
+  const [isDownloadingFoods, setIsDownloadingFoods] = useState(false);
   
-  // Get all stores
-  const aiStore = useAiStore();
-  const healthStore = useHealthStore();
-  const macroStore = useMacroStore();
   const photoStore = usePhotoStore();
-  const workoutStore = useWorkoutStore();
-  const notificationStore = useNotificationStore();
-  const themeStore = useThemeStore();
   const secureStore = useSecureStore();
+  const readOnlyStores = getReadOnlyStores();
   
   const exportData = async () => {
     if (Platform.OS === 'web') {
@@ -53,36 +52,13 @@ export default function DataManagement() {
     setIsExporting(true);
     
     try {
-      // Collect all data
-      const exportData = {
-        goals: aiStore.goals,
-        chats: aiStore.chats,
-        weightLogs: healthStore.weightLogs,
-        stepLogs: healthStore.stepLogs,
-        activityLogs: healthStore.activityLogs,
-        healthGoals: healthStore.healthGoals,
-        macroLogs: macroStore.macroLogs,
-        macroGoals: macroStore.macroGoals,
-        userProfile: macroStore.userProfile,
-        foodPhotos: photoStore.foodPhotos.map(photo => ({
-          ...photo,
-          uri: 'PHOTO_URI_REMOVED_FOR_EXPORT' // Don't export actual photo URIs
-        })),
-        progressPhotos: photoStore.progressPhotos.map(photo => ({
-          ...photo,
-          uri: 'PHOTO_URI_REMOVED_FOR_EXPORT' // Don't export actual photo URIs
-        })),
-        exercises: workoutStore.exercises,
-        workouts: workoutStore.workouts,
-        workoutLogs: workoutStore.workoutLogs,
-        scheduledWorkouts: workoutStore.scheduledWorkouts,
-        notificationSettings: notificationStore.settings,
-        themeSettings: {
-          theme: themeStore.theme,
-          colorScheme: themeStore.colorScheme
-        },
-        exportDate: new Date().toISOString(),
-      };
+      // Build a versioned archive of every store. Photos are only included
+      // when a passphrase is set, so they can be decrypted on the new device.
+      const passphrase = archivePassphrase.trim();
+      const archive = await secureStore.exportUserData({
+        includePhotos: passphrase.length > 0,
+        passphrase: passphrase || undefined,
+      });
       
       // Create a JSON file
       const exportDir = `${FileSystem.documentDirectory}exports/`;
@@ -96,7 +72,7 @@ export default function DataManagement() {
       
       await FileSystem.writeAsStringAsync(
         fileUri,
-        JSON.stringify(exportData, null, 2),
+        archive,
         { encoding: FileSystem.EncodingType.UTF8 }
       );
       
@@ -114,6 +90,72 @@ export default function DataManagement() {
     }
   };
   
+  const importData = async () => {
+    if (Platform.OS === 'web') {
+      Alert.alert('Not Available', 'Data import is not available on web.');
+      return;
+    }
+    
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      
+      if (result.canceled || !result.assets || result.assets.length === 0) {
+        return;
+      }
+      
+      const archive = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.UTF8
+      });
+      
+      Alert.alert(
+        'Import Data',
+        'How should the imported data be combined with the data on this device?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Merge', onPress: () => confirmImportData(archive, 'merge') },
+          { text: 'Replace', style: 'destructive', onPress: () => confirmImportData(archive, 'replace') }
+        ]
+      );
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      Alert.alert('Import Failed', 'The selected file could not be read.');
+    }
+  };
+  
+  const confirmImportData = async (archive: string, mode: 'merge' | 'replace') => {
+    setIsImporting(true);
+    
+    try {
+      const passphrase = archivePassphrase.trim();
+      const result = await secureStore.importUserData(archive, {
+        mode,
+        passphrase: passphrase || undefined,
+      });
+      
+      if (!result.success) {
+        Alert.alert('Import Failed', result.errors.join('\n'));
+        return;
+      }
+      
+      const photoSummary = result.importedPhotos > 0 || result.failedPhotos > 0
+        ? `\n${result.importedPhotos} photos restored${result.failedPhotos > 0 ? `, ${result.failedPhotos} could not be decrypted` : ''}.`
+        : '';
+      
+      Alert.alert(
+        'Import Complete',
+        `Imported ${result.importedSections.length} data categories.${photoSummary}`
+      );
+    } catch (error) {
+      console.error('Error importing data:', error);
+      Alert.alert('Import Failed', 'There was an error importing your data.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+  
   const deleteAllData = () => {
     Alert.alert(
       'Delete All Data',
@@ -133,25 +175,8 @@ export default function DataManagement() {
     setIsDeleting(true);
     
     try {
-      // Use the secure wipe function from secureStore
-      await secureStore.secureWipeAllData();
-      
-      // Also delete all photos
-      await photoStore.deleteAllPhotos();
-      
-      Alert.alert(
-        'Data Deleted',
-        'All your data has been securely deleted. The app will now restart.',
-        [
-          { 
-            text: 'OK',
-            onPress: () => {
-              // Navigate back to the home screen
-              router.replace('/');
-            }
-          }
-        ]
-      );
+      // Wipes stores, photos, keys and notifications, then reports what was removed
+      setWipeReport(await secureStore.deleteUserData('all'));
     } catch (error) {
       console.error('Error deleting data:', error);
       Alert.alert('Delete Failed', 'There was an error deleting your data.');
@@ -160,6 +185,28 @@ export default function DataManagement() {
     }
   };
   
+  const closeWipeReport = () => {
+    setWipeReport(null);
+    
+    // Navigate back to the home screen
+    router.replace('/');
+  };
+  
+  const rotateEncryptionKey = async () => {
+    setIsRotatingKey(true);
+    
+    try {
+      const rotated = await secureStore.rotateEncryptionKey();
+      if (rotated) {
+        Alert.alert('Key Rotated', 'Your data is now protected by a new encryption key.');
+      } else {
+        Alert.alert('Rotation Failed', 'The encryption key could not be rotated. Your existing key is still in use.');
+      }
+    } finally {
+      setIsRotatingKey(false);
+    }
+  };
+  
   const cleanupCache = async () => {
     if (Platform.OS === 'web') {
       Alert.alert('Not Available', 'Cache cleanup is not available on web.');
@@ -202,6 +249,21 @@ export default function DataManagement() {
     }
   };
   
+  const downloadFoods = async () => {
+    setIsDownloadingFoods(true);
+    
+    try {
+      const result = await downloadFoodDatabase();
+      if (result.success) {
+        Alert.alert('Food Database Updated', `${result.count} foods are now available offline for search and barcode scanning.`);
+      } else {
+        Alert.alert('Download Failed', result.error || 'The food database could not be downloaded.');
+      }
+    } finally {
+      setIsDownloadingFoods(false);
+    }
+  };
+  
   const handleGoBack = () => {
     router.back();
   };
@@ -251,7 +313,10 @@ export default function DataManagement() {
             <Shield size={24} color={colors.primary} style={styles.securityIcon} />
             <Text style={[styles.securityTitle, { color: colors.text }]}>Your Data Privacy</Text>
             <Text style={[styles.securityText, { color: colors.textSecondary }]}>
-              • All photos are encrypted using AES-GCM encryption
+              • Photos and sensitive data are encrypted using AES-256-GCM
+            </Text>
+            <Text style={[styles.securityText, { color: colors.textSecondary }]}>
+              • Workouts, health and nutrition logs, notes and coach chats are encrypted at rest
             </Text>
             <Text style={[styles.securityText, { color: colors.textSecondary }]}>
               • Data is stored locally on your device only
@@ -259,14 +324,29 @@ export default function DataManagement() {
             <Text style={[styles.securityText, { color: colors.textSecondary }]}>
               • When you delete data, it is securely wiped
             </Text>
+            {readOnlyStores.length > 0 && (
+              <Text style={[styles.securityText, { color: colors.error }]}>
+                Some data could not be decrypted and is read-only until the encryption key is available again. Nothing has been overwritten.
+              </Text>
+            )}
           </View>
           
           <View style={[styles.card, { borderColor: colors.border, backgroundColor: colors.card }]}>
             <Text style={[styles.cardTitle, { color: colors.text }]}>Export Your Data</Text>
             <Text style={[styles.cardDescription, { color: colors.text }]}>
-              Export all your data in JSON format. This includes your profile, workouts, nutrition logs, and health data.
-              Photos will not be included in the export.
+              Export all your data in JSON format. This includes your profile, workouts, nutrition logs, health data,
+              achievements, notes and AI chats. Set a passphrase to also include your photos, encrypted with that passphrase.
             </Text>
+            <TextInput
+              style={[styles.passphraseInput, { borderColor: colors.border, color: colors.text }]}
+              placeholder="Archive passphrase (optional)"
+              placeholderTextColor={colors.textSecondary}
+              value={archivePassphrase}
+              onChangeText={setArchivePassphrase}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
             <TouchableOpacity
               style={[styles.button, { backgroundColor: colors.primary }]}
               onPress={exportData}
@@ -280,6 +360,42 @@ export default function DataManagement() {
             </TouchableOpacity>
           </View>
           
+          <View style={[styles.card, { borderColor: colors.border, backgroundColor: colors.card }]}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Import Data</Text>
+            <Text style={[styles.cardDescription, { color: colors.text }]}>
+              Restore data exported from another device. Enter the archive passphrase above if the export includes photos.
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.primary }]}
+              onPress={importData}
+              disabled={isImporting}
+            >
+              {isImporting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Import Data</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          
+          <View style={[styles.card, { borderColor: colors.border, backgroundColor: colors.card }]}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Rotate Encryption Key</Text>
+            <Text style={[styles.cardDescription, { color: colors.text }]}>
+              Replace the master key that protects your data keys. Your photos and data stay as they are and remain readable.
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.secondary }]}
+              onPress={rotateEncryptionKey}
+              disabled={isRotatingKey}
+            >
+              {isRotatingKey ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Rotate Key</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          
           <View style={[styles.card, { borderColor: colors.border, backgroundColor: colors.card }]}>
             <Text style={[styles.cardTitle, { color: colors.text }]}>Clean Temporary Files</Text>
             <Text style={[styles.cardDescription, { color: colors.text }]}>
@@ -298,6 +414,24 @@ export default function DataManagement() {
             </TouchableOpacity>
           </View>
           
+          <View style={[styles.card, { borderColor: colors.border, backgroundColor: colors.card }]}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Offline Food Database</Text>
+            <Text style={[styles.cardDescription, { color: colors.text }]}>
+              Download the Open Food Facts database so food search and barcode scanning work without a connection. Foods you saved yourself are kept.
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.secondary }]}
+              onPress={downloadFoods}
+              disabled={isDownloadingFoods}
+            >
+              {isDownloadingFoods ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Download Foods</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          
           <View style={[styles.card, styles.dangerCard, { borderColor: colors.error, backgroundColor: colors.card }]}>
             <View style={styles.dangerHeaderContainer}>
               <AlertTriangle size={24} color={colors.error} />
@@ -328,6 +462,8 @@ export default function DataManagement() {
           </TouchableOpacity>
         </View>
       </ScrollView>
+      
+      <WipeReportModal report={wipeReport} onClose={closeWipeReport} />
     </SafeAreaView>
   );
 }
@@ -410,6 +546,14 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 16,
   },
+  passphraseInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 12,
+  },
   button: {
     paddingVertical: 12,
     paddingHorizontal: 16,
@@ -9,6 +9,7 @@ import CustomDropdown from "@/components/CustomDropdown";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import MacroInfoModal from "@/components/MacroInfoModal";
 import { useTheme } from "@/context/ThemeContext";
+import { getMaxHeartRate, getRestingHeartRate } from "@/utils/heartRateZones";
 
 export default function EditProfileScreen() {
   const router = useRouter();
@@ -47,11 +48,14 @@ export default function EditProfileScreen() {
   const [dateOfBirth, setDateOfBirth] = useState<Date | null>(
     userProfile.dateOfBirth ? new Date(userProfile.dateOfBirth) : null
   );
+  const [maxHeartRate, setMaxHeartRate] = useState(userProfile.maxHeartRate?.toString() || "");
+  const [restingHeartRate, setRestingHeartRate] = useState(userProfile.restingHeartRate?.toString() || "");
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [infoModalVisible, setInfoModalVisible] = useState(false);
   
   const handleSave = () => {
     const updatedProfile: UserProfile = {
+      ...userProfile,
       name,
       weight: parseFloat(weight) || userProfile.weight,
       height: parseFloat(height) || userProfile.height,
@@ -60,6 +64,9 @@ export default function EditProfileScreen() {
       fitnessGoal,
       activityLevel,
       dateOfBirth: dateOfBirth ? dateOfBirth.toISOString() : null,
+      // Leave blank to use the estimates
+      maxHeartRate: parseInt(maxHeartRate) || undefined,
+      restingHeartRate: parseInt(restingHeartRate) || undefined,
     };
     
     updateUserProfile(updatedProfile);
@@ -224,9 +231,33 @@ export default function EditProfileScreen() {
           />
         </View>
         
+        <View style={styles.inputGroup}>
+          <Text style={[styles.label, { color: colors.text }]}>Max Heart Rate (bpm)</Text>
+          <TextInput
+            style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+            value={maxHeartRate}
+            onChangeText={setMaxHeartRate}
+            keyboardType="numeric"
+            placeholder={`Estimated ${getMaxHeartRate({ age: parseInt(age) || userProfile.age })} from your age`}
+            placeholderTextColor={colors.textSecondary}
+          />
+        </View>
+        
+        <View style={styles.inputGroup}>
+          <Text style={[styles.label, { color: colors.text }]}>Resting Heart Rate (bpm)</Text>
+          <TextInput
+            style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+            value={restingHeartRate}
+            onChangeText={setRestingHeartRate}
+            keyboardType="numeric"
+            placeholder={`Default ${getRestingHeartRate({})}`}
+            placeholderTextColor={colors.textSecondary}
+          />
+        </View>
+        
         <View style={[styles.disclaimerContainer, { backgroundColor: colors.backgroundLight }]}>
           <Text style={[styles.disclaimerText, { color: colors.textSecondary }]}>
-            Your profile information is used to calculate personalized nutrition recommendations. 
+            Your profile information is used to calculate personalized nutrition recommendations and heart rate zones. 
             These are estimates only - for precise guidance, consult a healthcare professional.
           </Text>
         </View>
@@ -1,20 +1,46 @@
 import React, { useState } from "react";
 import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, Platform } from "react-native";
 import { useLocalSearchParams, Stack, useRouter } from "expo-router";
-import { Play, ArrowLeft, Info } from "lucide-react-native";
+import { Play, ArrowLeft, Info, TrendingUp, TrendingDown } from "lucide-react-native";
 import { colors } from "@/constants/colors";
 import { useWorkoutStore } from "@/store/workoutStore";
 import * as WebBrowser from "expo-web-browser";
 import Button from "@/components/Button";
 import VideoEmbed from "@/components/VideoEmbed";
 import ExerciseAnimation from "@/components/ExerciseAnimation";
+import ProgressionRuleModal from "@/components/ProgressionRuleModal";
+import OneRepMaxChart from "@/components/OneRepMaxChart";
+import { useMacroStore } from "@/store/macroStore";
+import { OneRepMaxFormula } from "@/types";
+import { PROGRESSION_RULE_LABELS, formatSuggestion } from "@/utils/progression";
+import {
+  ONE_REP_MAX_FORMULAS,
+  PERSONAL_RECORD_LABELS,
+  STRENGTH_LEVEL_LABELS,
+  buildRepMaxTable,
+  calculateAllOneRepMaxes,
+  getOneRepMaxHistory,
+  getRecordType,
+  getRecordValue,
+  getStrengthStandard,
+} from "@/utils/strength";
 
 export default function ExerciseDetailScreen() {
   const { id } = useLocalSearchParams();
   const router = useRouter();
-  const { exercises } = useWorkoutStore();
+  const {
+    exercises,
+    workoutLogs,
+    oneRepMaxFormula,
+    setOneRepMaxFormula,
+    getExerciseRecords,
+    getProgressionRule,
+    getProgressionSuggestion,
+  } = useWorkoutStore();
+  const { userProfile } = useMacroStore();
   const [showVideo, setShowVideo] = useState(false);
   const [showCopyrightInfo, setShowCopyrightInfo] = useState(false);
+  const [showProgressionModal, setShowProgressionModal] = useState(false);
   
   const exercise = exercises.find(e => e.id === id);
   
@@ -47,6 +73,27 @@ export default function ExerciseDetailScreen() {
   // Check if this is the face pull exercise
   const isFacePull = exercise.id === "ex215";
   
+  const progressionRule = getProgressionRule(exercise.id);
+  const suggestion = getProgressionSuggestion(exercise.id);
+  
+  const oneRepMaxHistory = getOneRepMaxHistory(workoutLogs, exercise.id, oneRepMaxFormula);
+  const bestSession = oneRepMaxHistory.reduce<typeof oneRepMaxHistory[number] | null>(
+    (best, entry) => (!best || entry.value > best.value ? entry : best),
+    null
+  );
+  const bestOneRepMax = bestSession ? bestSession.value : 0;
+  const formulaEstimates = bestSession ? calculateAllOneRepMaxes(bestSession.weight, bestSession.reps) : null;
+  const repMaxTable = buildRepMaxTable(bestOneRepMax, oneRepMaxFormula, [1, 3, 5, 8, 10]);
+  const strengthStandard = getStrengthStandard(exercise.name, bestOneRepMax, userProfile);
+  
+  // Reps records are kept per weight; show the heaviest few
+  const records = getExerciseRecords(exercise.id);
+  const typedRecords = records.filter(record => getRecordType(record) !== "reps");
+  const repsRecords = records
+    .filter(record => getRecordType(record) === "reps")
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 3);
+  
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <Stack.Screen 
@@ -96,6 +143,117 @@ export default function ExerciseDetailScreen() {
         <Text style={styles.description}>{exercise.description}</Text>
       </View>
       
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Progression</Text>
+        <View style={styles.progressionCard}>
+          <View style={styles.progressionRow}>
+            {suggestion.stalled ? (
+              <TrendingDown size={20} color="#FF9500" />
+            ) : (
+              <TrendingUp size={20} color={colors.success} />
+            )}
+            <View style={styles.progressionText}>
+              <Text style={styles.progressionTitle}>
+                {suggestion.stalled ? "Deload" : "Next session"}: {formatSuggestion(suggestion)}
+              </Text>
+              <Text style={styles.progressionReason}>{suggestion.reason}</Text>
+            </View>
+          </View>
+          <View style={styles.progressionRow}>
+            <Text style={styles.progressionRule}>
+              {PROGRESSION_RULE_LABELS[progressionRule.type]} · {progressionRule.minReps === progressionRule.maxReps
+                ? `${progressionRule.minReps} reps`
+                : `${progressionRule.minReps}-${progressionRule.maxReps} reps`} · +{progressionRule.increment}kg
+            </Text>
+            <TouchableOpacity onPress={() => setShowProgressionModal(true)}>
+              <Text style={styles.progressionChange}>Change</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+      
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Strength</Text>
+        {bestSession ? (
+          <View style={styles.progressionCard}>
+            <View style={styles.formulaRow}>
+              {(Object.keys(ONE_REP_MAX_FORMULAS) as OneRepMaxFormula[]).map(formula => (
+                <TouchableOpacity
+                  key={formula}
+                  style={[styles.formulaChip, oneRepMaxFormula === formula && styles.formulaChipSelected]}
+                  onPress={() => setOneRepMaxFormula(formula)}
+                >
+                  <Text style={[styles.formulaChipText, oneRepMaxFormula === formula && styles.formulaChipTextSelected]}>
+                    {ONE_REP_MAX_FORMULAS[formula]}
+                    {formulaEstimates ? ` ${Math.round(formulaEstimates[formula])}` : ""}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            
+            <Text style={styles.progressionTitle}>Estimated 1RM: {Math.round(bestOneRepMax)} kg</Text>
+            <Text style={styles.progressionReason}>
+              From {bestSession.weight}kg × {bestSession.reps} on {new Date(bestSession.date).toLocaleDateString()}
+            </Text>
+            
+            <View style={styles.chartContainer}>
+              <OneRepMaxChart history={oneRepMaxHistory} />
+            </View>
+            
+            <View style={styles.repMaxTable}>
+              {repMaxTable.map(row => (
+                <View key={row.reps} style={styles.repMaxCell}>
+                  <Text style={styles.repMaxLabel}>{row.reps}RM</Text>
+                  <Text style={styles.repMaxValue}>{row.weight}</Text>
+                  <Text style={styles.repMaxLabel}>{row.percent}%</Text>
+                </View>
+              ))}
+            </View>
+            
+            {strengthStandard && (
+              <View style={styles.standardContainer}>
+                <Text style={styles.progressionTitle}>
+                  {strengthStandard.level ? STRENGTH_LEVEL_LABELS[strengthStandard.level] : "Below beginner"} · {strengthStandard.ratio}× bodyweight
+                </Text>
+                {strengthStandard.nextLevel && strengthStandard.nextLevelWeight !== null && (
+                  <Text style={styles.progressionReason}>
+                    {STRENGTH_LEVEL_LABELS[strengthStandard.nextLevel]} at {strengthStandard.nextLevelWeight} kg
+                  </Text>
+                )}
+              </View>
+            )}
+            
+            {records.length > 0 && (
+              <View style={styles.standardContainer}>
+                {typedRecords.map(record => (
+                  <View key={record.id} style={styles.recordRow}>
+                    <Text style={styles.progressionRule}>{PERSONAL_RECORD_LABELS[getRecordType(record)]}</Text>
+                    <Text style={styles.recordValue}>
+                      {Math.round(getRecordValue(record))} kg
+                    </Text>
+                  </View>
+                ))}
+                {repsRecords.map(record => (
+                  <View key={record.id} style={styles.recordRow}>
+                    <Text style={styles.progressionRule}>{PERSONAL_RECORD_LABELS.reps} at {record.weight} kg</Text>
+                    <Text style={styles.recordValue}>{record.value}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        ) : (
+          <Text style={styles.description}>Log a set of this exercise to see your estimated 1RM.</Text>
+        )}
+      </View>
+      
+      <ProgressionRuleModal
+        visible={showProgressionModal}
+        exerciseId={exercise.id}
+        exerciseName={exercise.name}
+        onClose={() => setShowProgressionModal(false)}
+      />
+      
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Instructions</Text>
         {exercise.instructions.map((instruction, index) => (
@@ -251,6 +409,106 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     lineHeight: 22,
   },
+  progressionCard: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+  },
+  progressionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  progressionText: {
+    flex: 1,
+    marginLeft: 12,
+    marginBottom: 12,
+  },
+  progressionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  progressionReason: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  progressionRule: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    flex: 1,
+  },
+  progressionChange: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.primary,
+  },
+  formulaRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 12,
+  },
+  formulaChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  formulaChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  formulaChipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  formulaChipTextSelected: {
+    color: colors.white,
+    fontWeight: "600",
+  },
+  chartContainer: {
+    marginTop: 16,
+  },
+  repMaxTable: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 16,
+  },
+  repMaxCell: {
+    alignItems: "center",
+    flex: 1,
+  },
+  repMaxLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  repMaxValue: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.text,
+    marginVertical: 2,
+  },
+  standardContainer: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  recordRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 4,
+  },
+  recordValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.text,
+  },
   instructionItem: {
     flexDirection: "row",
     marginBottom: 16,
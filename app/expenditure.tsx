@@ -0,0 +1,354 @@
+import React from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from "react-native";
+import { Stack, useRouter } from "expo-router";
+import { ArrowLeft, Flame, AlertCircle, Target } from "lucide-react-native";
+import { colors } from "@/constants/colors";
+import { useMacroStore } from "@/store/macroStore";
+import { useHealthStore } from "@/store/healthStore";
+import Button from "@/components/Button";
+import {
+  TdeeConfidence,
+  WEIGHT_CHANGE_RATES,
+  estimateTdee,
+  getTdeeHistory,
+  proposeMacroGoals,
+} from "@/utils/adaptiveTdee";
+
+const CONFIDENCE_LABELS: Record<TdeeConfidence, string> = {
+  none: "Not enough data",
+  low: "Low confidence",
+  medium: "Medium confidence",
+  high: "High confidence",
+};
+
+const CONFIDENCE_COLORS: Record<TdeeConfidence, string> = {
+  none: colors.textSecondary,
+  low: colors.error,
+  medium: colors.warning,
+  high: colors.success,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function ExpenditureScreen() {
+  const router = useRouter();
+  const {
+    macroLogs,
+    macroGoals,
+    userProfile,
+    weeklyWeightChangeRate,
+    lastGoalAdjustmentDate,
+    setWeeklyWeightChangeRate,
+    applyGoalAdjustment,
+  } = useMacroStore();
+  const { weightLogs } = useHealthStore();
+
+  const params = { macroLogs, weightLogs, profile: userProfile };
+  const estimate = estimateTdee(params);
+  const history = getTdeeHistory(params, 6);
+  const proposal = proposeMacroGoals({
+    estimate,
+    profile: userProfile,
+    currentGoals: macroGoals,
+    weeklyRate: weeklyWeightChangeRate,
+  });
+
+  const daysSinceAdjustment = lastGoalAdjustmentDate
+    ? Math.floor((Date.now() - new Date(lastGoalAdjustmentDate).getTime()) / DAY_MS)
+    : null;
+
+  const handleApply = () => {
+    applyGoalAdjustment(proposal.goals);
+    Alert.alert("Goals Updated", `Your daily calorie goal is now ${proposal.goals.calories} kcal.`);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: "Energy Expenditure",
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <ArrowLeft size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Flame size={20} color={colors.primary} />
+            <Text style={styles.cardTitle}>Estimated Expenditure</Text>
+          </View>
+          <Text style={styles.tdeeValue}>{estimate.tdee} kcal/day</Text>
+          <View style={[styles.confidenceBadge, { borderColor: CONFIDENCE_COLORS[estimate.confidence] }]}>
+            <Text style={[styles.confidenceText, { color: CONFIDENCE_COLORS[estimate.confidence] }]}>
+              {CONFIDENCE_LABELS[estimate.confidence]}
+            </Text>
+          </View>
+
+          <View style={styles.statRow}>
+            <Text style={styles.statLabel}>From intake and weight trend</Text>
+            <Text style={styles.statValue}>
+              {estimate.adaptiveTdee !== null ? `${estimate.adaptiveTdee} kcal` : "—"}
+            </Text>
+          </View>
+          <View style={styles.statRow}>
+            <Text style={styles.statLabel}>Formula estimate</Text>
+            <Text style={styles.statValue}>{estimate.formulaTdee} kcal</Text>
+          </View>
+          <View style={styles.statRow}>
+            <Text style={styles.statLabel}>Average intake</Text>
+            <Text style={styles.statValue}>
+              {estimate.averageIntake !== null ? `${estimate.averageIntake} kcal` : "—"}
+            </Text>
+          </View>
+          <View style={styles.statRow}>
+            <Text style={styles.statLabel}>Trend weight</Text>
+            <Text style={styles.statValue}>
+              {estimate.trendWeight !== null ? `${estimate.trendWeight} kg` : "—"}
+              {estimate.weeklyWeightChange !== null &&
+                ` (${estimate.weeklyWeightChange > 0 ? "+" : ""}${estimate.weeklyWeightChange} kg/week)`}
+            </Text>
+          </View>
+
+          <Text style={styles.hint}>
+            Fully logged {estimate.loggedDays} of the last {estimate.windowDays} days with {estimate.weighIns} weigh-ins.
+          </Text>
+          {(estimate.confidence === "none" || estimate.confidence === "low") && (
+            <View style={styles.warning}>
+              <AlertCircle size={16} color={colors.warning} />
+              <Text style={styles.warningText}>
+                Log every meal and weigh in at least every other day. Until then the estimate leans on the formula.
+              </Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Weekly Estimates</Text>
+          {history.map(entry => (
+            <View key={entry.endDate} style={styles.statRow}>
+              <Text style={styles.statLabel}>
+                Week to {new Date(`${entry.endDate}T12:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+              </Text>
+              <Text style={[styles.statValue, { color: CONFIDENCE_COLORS[entry.confidence] }]}>
+                {entry.tdee} kcal
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Target size={20} color={colors.primary} />
+            <Text style={styles.cardTitle}>Goal Adjustment</Text>
+          </View>
+
+          {userProfile.targetWeight ? (
+            <Text style={styles.hint}>Target weight: {userProfile.targetWeight} kg</Text>
+          ) : (
+            <TouchableOpacity onPress={() => router.push("/edit-profile")}>
+              <Text style={styles.link}>Set a target weight in your profile to adjust toward it</Text>
+            </TouchableOpacity>
+          )}
+
+          <Text style={styles.rateLabel}>Rate of change</Text>
+          <View style={styles.rateRow}>
+            {WEIGHT_CHANGE_RATES.map(rate => (
+              <TouchableOpacity
+                key={rate}
+                style={[styles.rateChip, weeklyWeightChangeRate === rate && styles.rateChipActive]}
+                onPress={() => setWeeklyWeightChangeRate(rate)}
+              >
+                <Text style={[styles.rateText, weeklyWeightChangeRate === rate && styles.rateTextActive]}>
+                  {rate} kg/wk
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.hint}>{proposal.reason}</Text>
+
+          <View style={styles.proposal}>
+            <Text style={styles.proposalCalories}>
+              {proposal.goals.calories} kcal
+              <Text style={styles.proposalChange}>
+                {" "}({proposal.calorieChange >= 0 ? "+" : ""}{proposal.calorieChange})
+              </Text>
+            </Text>
+            <Text style={styles.statLabel}>
+              Protein {proposal.goals.protein}g • Carbs {proposal.goals.carbs}g • Fat {proposal.goals.fat}g
+            </Text>
+          </View>
+
+          {daysSinceAdjustment !== null && daysSinceAdjustment < 7 && (
+            <Text style={styles.hint}>
+              Goals were adjusted {daysSinceAdjustment === 0 ? "today" : `${daysSinceAdjustment} days ago`}. Weekly adjustments give the trend time to respond.
+            </Text>
+          )}
+
+          <Button
+            title="Apply New Goals"
+            onPress={handleApply}
+            disabled={proposal.calorieChange === 0 && proposal.goals.protein === macroGoals.protein}
+            style={styles.applyButton}
+          />
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  backButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: colors.text,
+    marginLeft: 8,
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: colors.text,
+    marginBottom: 8,
+  },
+  tdeeValue: {
+    fontSize: 32,
+    fontWeight: "700",
+    color: colors.text,
+    marginBottom: 8,
+  },
+  confidenceBadge: {
+    alignSelf: "flex-start",
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginBottom: 12,
+  },
+  confidenceText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  statRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  statLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  hint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 12,
+  },
+  warning: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginTop: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+    marginLeft: 8,
+  },
+  link: {
+    fontSize: 14,
+    color: colors.primary,
+    marginTop: 4,
+  },
+  rateLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  rateRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  rateChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  rateChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  rateText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  rateTextActive: {
+    color: colors.white,
+  },
+  proposal: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: colors.background,
+  },
+  proposalCalories: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: colors.primary,
+    marginBottom: 4,
+  },
+  proposalChange: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: colors.textSecondary,
+  },
+  applyButton: {
+    marginTop: 16,
+  },
+});
@@ -1,12 +1,19 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert, Platform, ActivityIndicator } from "react-native";
 import { useRouter, Stack } from "expo-router";
-import { Smartphone, Watch, RefreshCw, Plus, ChevronRight, ArrowLeft, Zap, Trash2, AlertTriangle, CheckCircle2 } from "lucide-react-native";
+import { Smartphone, Watch, RefreshCw, Plus, ChevronRight, ArrowLeft, Zap, Trash2, AlertTriangle, CheckCircle2, Heart, Bluetooth } from "lucide-react-native";
 import { colors } from "@/constants/colors";
 import { useHealthStore } from "@/store/healthStore";
+import { requestConsent } from "@/utils/consent";
 import { HealthDevice } from "@/types";
 import Button from "@/components/Button";
 import AppleWatchService from "@/src/NativeModules/AppleWatch";
+import HeartRateMonitorService, {
+  HeartRateMonitorService as HeartRateMonitorServiceClass,
+  DiscoveredHeartRateDevice
+} from "@/services/HeartRateMonitorService";
+
+const SCAN_DURATION = 15000; // ms
 
 export default function HealthDevicesScreen() {
   const router = useRouter();
@@ -24,6 +31,12 @@ export default function HealthDevicesScreen() {
   
   const [isSyncing, setIsSyncing] = useState<Record<string, boolean>>({});
   const [isCheckingAppleWatch, setIsCheckingAppleWatch] = useState(true);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [discoveredDevices, setDiscoveredDevices] = useState<DiscoveredHeartRateDevice[]>([]);
+  const [connectingDeviceId, setConnectingDeviceId] = useState<string | null>(null);
+  const stopScanRef = useRef<(() => void) | null>(null);
+  const scanTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   // Check Apple Watch connection status
   useEffect(() => {
@@ -59,23 +72,107 @@ export default function HealthDevicesScreen() {
     };
   }, [setIsAppleWatchConnected]);
   
+  const stopScan = useCallback(() => {
+    if (scanTimerRef.current) {
+      clearTimeout(scanTimerRef.current);
+      scanTimerRef.current = null;
+    }
+    stopScanRef.current?.();
+    stopScanRef.current = null;
+    setIsScanning(false);
+  }, []);
+  
+  // Stop scanning when leaving the screen
+  useEffect(() => stopScan, [stopScan]);
+  
   const handleScanDevices = async () => {
-    Alert.alert(
-      "Device Scanning",
-      "Device scanning functionality has been removed. This app now focuses on HealthKit integration for iOS and Google Fit for Android.",
-      [{ text: "OK" }]
+    if (!HeartRateMonitorServiceClass.isSupported()) {
+      Alert.alert(
+        "Bluetooth Unavailable",
+        "Heart rate monitors can only be paired from the iOS or Android app.",
+        [{ text: "OK" }]
+      );
+      return;
+    }
+    
+    setScanError(null);
+    setDiscoveredDevices([]);
+    
+    const granted = await HeartRateMonitorService.requestPermissions();
+    if (!granted) {
+      setScanError("Bluetooth permission is required to find heart rate monitors.");
+      return;
+    }
+    
+    const poweredOn = await HeartRateMonitorService.waitForPoweredOn();
+    if (!poweredOn) {
+      setScanError("Turn on Bluetooth to scan for heart rate monitors.");
+      return;
+    }
+    
+    setIsScanning(true);
+    stopScanRef.current = HeartRateMonitorService.startScan(
+      (device) => {
+        setDiscoveredDevices(prev => prev.some(d => d.id === device.id) ? prev : [...prev, device]);
+      },
+      (message) => {
+        setScanError(message);
+        stopScan();
+      },
+      SCAN_DURATION
     );
+    scanTimerRef.current = setTimeout(stopScan, SCAN_DURATION);
   };
   
-  const handleConnectDevice = async (device: any) => {
+  const handleConnectDevice = async (device: DiscoveredHeartRateDevice) => {
+    stopScan();
+    setConnectingDeviceId(device.id);
+    
+    const connected = await HeartRateMonitorService.connect(device.id);
+    setConnectingDeviceId(null);
+    
+    if (!connected) {
+      Alert.alert(
+        "Connection Failed",
+        `Could not connect to ${device.name}. Make sure the strap is being worn and is nearby.`,
+        [{ text: "OK" }]
+      );
+      return;
+    }
+    
+    const existingDevice = connectedDevices.find(d => d.id === connected.id);
+    const healthDevice: HealthDevice = {
+      id: connected.id,
+      name: connected.name,
+      type: "heart_rate_monitor",
+      brand: connected.name.split(" ")[0],
+      model: connected.name,
+      isConnected: true,
+      lastSync: existingDevice?.lastSync ?? null,
+      batteryLevel: connected.batteryLevel,
+      capabilities: ["heartRate"],
+    };
+    
+    if (existingDevice) {
+      updateDevice(healthDevice);
+    } else {
+      addDevice(healthDevice);
+    }
+    setDiscoveredDevices(prev => prev.filter(d => d.id !== device.id));
+    
+    // The workout screen opens its own connection when tracking starts
+    await HeartRateMonitorService.disconnect(connected.id);
+    
     Alert.alert(
-      "Device Connection",
-      "Device connection functionality has been removed. This app now focuses on HealthKit integration for iOS and Google Fit for Android.",
+      "Device Paired",
+      `${connected.name} will stream your heart rate during workouts when you choose to use your connected device.`,
       [{ text: "OK" }]
     );
   };
   
   const handleSyncDevice = async (deviceId: string) => {
+    if (!(await requestConsent('healthKitSync'))) return;
+    
     setIsSyncing(prev => ({ ...prev, [deviceId]: true }));
     
     try {
@@ -133,11 +230,40 @@ export default function HealthDevicesScreen() {
   };
   
   const toggleDeviceConnection = async (device: HealthDevice) => {
-    Alert.alert(
-      "Device Connection",
-      "Device connection functionality has been removed. This app now focuses on HealthKit integration for iOS and Google Fit for Android.",
-      [{ text: "OK" }]
-    );
+    if (device.type !== "heart_rate_monitor") {
+      updateDevice({ ...device, isConnected: !device.isConnected });
+      return;
+    }
+    
+    if (device.isConnected) {
+      await HeartRateMonitorService.disconnect(device.id);
+      updateDevice({ ...device, isConnected: false });
+      return;
+    }
+    
+    // Make sure the strap is reachable before enabling it again
+    setConnectingDeviceId(device.id);
+    const granted = await HeartRateMonitorService.requestPermissions();
+    const connected = granted && await HeartRateMonitorService.waitForPoweredOn()
+      ? await HeartRateMonitorService.connect(device.id)
+      : null;
+    setConnectingDeviceId(null);
+    
+    if (!connected) {
+      Alert.alert(
+        "Connection Failed",
+        `Could not reach ${device.name}. Make sure Bluetooth is on and the strap is being worn.`,
+        [{ text: "OK" }]
+      );
+      return;
+    }
+    
+    updateDevice({
+      ...device,
+      isConnected: true,
+      batteryLevel: connected.batteryLevel ?? device.batteryLevel,
+    });
+    await HeartRateMonitorService.disconnect(device.id);
   };
   
   const handleRemoveDevice = (deviceId: string) => {
@@ -186,6 +312,8 @@ export default function HealthDevicesScreen() {
   
   const getDeviceIcon = (deviceType: string) => {
     switch (deviceType) {
+      case "heart_rate_monitor":
+        return <Heart size={24} color={colors.error} />;
       case "appleWatch":
         return <Watch size={24} color={colors.primary} />;
       case "fitbit":
@@ -204,9 +332,9 @@ export default function HealthDevicesScreen() {
   };
   
   const getLastSyncText = (device: HealthDevice) => {
-    if (!device.lastSynced) return "Never synced";
+    if (!device.lastSync) return "Never synced";
     
-    const lastSyncTime = new Date(device.lastSynced);
+    const lastSyncTime = new Date(device.lastSync);
     const now = new Date();
     const diffMs = now.getTime() - lastSyncTime.getTime();
     const diffMins = Math.floor(diffMs / (1000 * 60));
@@ -221,6 +349,14 @@ export default function HealthDevicesScreen() {
     return `${diffDays} day${diffDays === 1 ? '' : 's'} ago`;
   };
   
+  // Map RSSI (dBm) to a 1-4 bar signal indicator
+  const getSignalStrength = (rssi: number): number => {
+    if (rssi >= -60) return 4;
+    if (rssi >= -70) return 3;
+    if (rssi >= -80) return 2;
+    return 1;
+  };
+  
   // Helper function to determine device type from name
   const getDeviceType = (deviceName: string): string => {
     const name = deviceName.toLowerCase();
@@ -327,8 +463,8 @@ export default function HealthDevicesScreen() {
                   <View style={styles.deviceDetails}>
                     <Text style={styles.deviceName}>{device.name}</Text>
                     <Text style={styles.deviceStatus}>
-                      {device.connected ? "Connected" : "Disconnected"}
-                      {device.connected && device.lastSynced && (
+                      {device.isConnected ? "Connected" : "Disconnected"}
+                      {device.isConnected && device.lastSync && (
                         ` • Last synced: ${getLastSyncText(device)}`
                       )}
                     </Text>
@@ -356,11 +492,12 @@ export default function HealthDevicesScreen() {
                   <Switch
                     trackColor={{ false: colors.inactive, true: colors.primary }}
                     thumbColor="#FFFFFF"
-                    value={device.connected}
+                    value={device.isConnected}
                     onValueChange={() => toggleDeviceConnection(device)}
+                    disabled={connectingDeviceId === device.id}
                   />
                   
-                  {device.connected && (
+                  {device.isConnected && (
                     <TouchableOpacity
                       style={styles.syncButton}
                       onPress={() => handleSyncDevice(device.id)}
@@ -436,6 +573,68 @@ export default function HealthDevicesScreen() {
           </View>
         )}
         
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Heart Rate Monitors</Text>
+          
+          <View style={styles.scanContainer}>
+            <Button
+              title={isScanning ? "Scanning..." : "Scan for Heart Rate Monitors"}
+              onPress={handleScanDevices}
+              icon={<Bluetooth size={20} color="#FFFFFF" />}
+              loading={isScanning}
+              disabled={isScanning || connectingDeviceId !== null}
+              style={styles.scanButton}
+            />
+            {scanError && <Text style={styles.errorText}>{scanError}</Text>}
+          </View>
+          
+          {discoveredDevices.length > 0 && (
+            <View style={styles.availableDevicesContainer}>
+              {discoveredDevices.map((device) => (
+                <View key={device.id} style={styles.deviceCard}>
+                  <View style={styles.deviceInfo}>
+                    <View style={[styles.deviceIconContainer, { backgroundColor: "rgba(220, 53, 69, 0.1)" }]}>
+                      <Heart size={24} color={colors.error} />
+                    </View>
+                    
+                    <View style={styles.deviceDetails}>
+                      <Text style={styles.deviceName}>{device.name}</Text>
+                      {device.rssi !== null && (
+                        <View style={styles.signalContainer}>
+                          <Text style={styles.signalText}>Signal</Text>
+                          <View style={styles.signalBars}>
+                            {[1, 2, 3, 4].map((bar) => (
+                              <View
+                                key={bar}
+                                style={[
+                                  styles.signalBar,
+                                  {
+                                    height: bar * 3,
+                                    opacity: bar <= getSignalStrength(device.rssi as number) ? 1 : 0.2
+                                  }
+                                ]}
+                              />
+                            ))}
+                          </View>
+                        </View>
+                      )}
+                    </View>
+                  </View>
+                  
+                  <Button
+                    title="Connect"
+                    variant="outline"
+                    onPress={() => handleConnectDevice(device)}
+                    loading={connectingDeviceId === device.id}
+                    disabled={connectingDeviceId !== null}
+                    style={styles.connectButton}
+                  />
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+        
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Health Services</Text>
           
@@ -451,6 +650,8 @@ export default function HealthDevicesScreen() {
                 return;
               }
 
+              if (!(await requestConsent('healthKitSync'))) return;
+
               try {
                 // Show loading alert
                 Alert.alert(
@@ -569,7 +770,7 @@ export default function HealthDevicesScreen() {
                     onPress: () => {
                       // Sync all connected devices
                       connectedDevices.forEach(device => {
-                        if (device.connected) {
+                        if (device.isConnected) {
                           handleSyncDevice(device.id);
                         }
                       });
@@ -596,27 +797,6 @@ export default function HealthDevicesScreen() {
           </TouchableOpacity>
         </View>
         
-        {/* Implementation Notes Section */}
-        <View style={styles.implementationNotesSection}>
-          <Text style={styles.implementationNotesTitle}>Developer Notes</Text>
-          <Text style={styles.implementationNotesText}>
-            This screen is using a simulated Core Bluetooth implementation. In a production app, you would need to:
-          </Text>
-          <View style={styles.implementationNotesList}>
-            <Text style={styles.implementationNotesItem}>
-              • Create a native iOS module using Swift/Objective-C that interfaces with CoreBluetooth framework
-            </Text>
-            <Text style={styles.implementationNotesItem}>
-              • Implement proper permission handling for Bluetooth usage
-            </Text>
-            <Text style={styles.implementationNotesItem}>
-              • Handle device discovery, connection, and data transfer using the CoreBluetooth APIs
-            </Text>
-            <Text style={styles.implementationNotesItem}>
-              • Integrate with HealthKit for syncing health data
-            </Text>
-          </View>
-        </View>
       </ScrollView>
       
       {/* Back button at the bottom */}
@@ -1059,30 +1239,4 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: colors.textSecondary,
   },
-  implementationNotesSection: {
-    backgroundColor: "rgba(255, 149, 0, 0.1)",
-    borderRadius: 12,
-    padding: 16,
-    marginBottom: 24,
-  },
-  implementationNotesTitle: {
-    fontSize: 16,
-    fontWeight: "600",
-    color: "#FF9500",
-    marginBottom: 8,
-  },
-  implementationNotesText: {
-    fontSize: 14,
-    color: colors.text,
-    marginBottom: 8,
-  },
-  implementationNotesList: {
-    marginLeft: 8,
-  },
-  implementationNotesItem: {
-    fontSize: 14,
-    color: colors.text,
-    marginBottom: 4,
-    lineHeight: 20,
-  },
 });
\ No newline at end of file
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator } from "react-native";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { CheckCircle, AlertTriangle } from "lucide-react-native";
+import { useTheme } from "@/context/ThemeContext";
+import Button from "@/components/Button";
+import { importActivityFile, ActivityFileImportResult } from "@/utils/activityFiles";
+
+// Landing screen for GPX/TCX/FIT files opened in the app from the share sheet
+export default function ImportActivityScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { uri } = useLocalSearchParams<{ uri?: string }>();
+  const [result, setResult] = useState<ActivityFileImportResult | null>(null);
+
+  useEffect(() => {
+    if (!uri) {
+      setResult({ success: false, error: "No file was provided." });
+      return;
+    }
+
+    const fileUri = decodeURIComponent(uri);
+    importActivityFile(fileUri, fileUri).then(setResult);
+  }, [uri]);
+
+  const activity = result?.activity;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Stack.Screen options={{ title: "Import Activity", headerShown: true }} />
+
+      {!result ? (
+        <>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>Importing activity...</Text>
+        </>
+      ) : result.success && activity ? (
+        <>
+          <CheckCircle size={48} color={colors.success} />
+          <Text style={[styles.title, { color: colors.text }]}>
+            {result.duplicate ? "Already Imported" : "Import Complete"}
+          </Text>
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {activity.type.charAt(0).toUpperCase() + activity.type.slice(1)} on{" "}
+            {new Date(activity.date).toLocaleDateString()}
+          </Text>
+          <Button title="View Activity Log" onPress={() => router.replace("/activity-log")} style={styles.button} />
+        </>
+      ) : (
+        <>
+          <AlertTriangle size={48} color={colors.error} />
+          <Text style={[styles.title, { color: colors.text }]}>Import Failed</Text>
+          <Text style={[styles.message, { color: colors.textSecondary }]}>{result.error}</Text>
+          <Button title="Go Home" onPress={() => router.replace("/")} style={styles.button} />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    marginTop: 16,
+  },
+  message: {
+    fontSize: 16,
+    textAlign: "center",
+    marginTop: 8,
+  },
+  button: {
+    marginTop: 24,
+    alignSelf: "stretch",
+  },
+});
@@ -14,14 +14,29 @@ import {
   ChevronLeft,
   Watch,
   Smartphone,
-  Zap
+  Zap,
+  Play,
+  Pause,
+  Square,
+  Mountain
 } from "lucide-react-native";
 import { colors } from "@/constants/colors";
 import { useHealthStore } from "@/store/healthStore";
-import { ActivityLog } from "@/types";
+import { ActivityLog, ActivityRoute } from "@/types";
 import Button from "@/components/Button";
 import { Picker } from "@react-native-picker/picker";
 import NoteInput from "@/components/NoteInput";
+import ActivityMap from "@/components/ActivityMap";
+import useRouteRecorder from "@/hooks/useRouteRecorder";
+import { summarizeRoute, calculatePace, formatPace } from "@/utils/routeMath";
+
+const formatElapsed = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const mmss = `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
 
 export default function LogCardioScreen() {
   const router = useRouter();
@@ -51,6 +66,12 @@ export default function LogCardioScreen() {
   const [selectedDevice, setSelectedDevice] = useState<string | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
   const [heartRate, setHeartRate] = useState({ avg: 0, max: 0, min: 0 });
+  const [autoPauseEnabled, setAutoPauseEnabled] = useState(true);
+  const [recordedRoute, setRecordedRoute] = useState<ActivityRoute | null>(null);
+  
+  const recorder = useRouteRecorder({ autoPause: autoPauseEnabled });
+  const recordedSummary = recordedRoute ? summarizeRoute(recordedRoute) : null;
+  const isRecording = recorder.status === "recording" || recorder.status === "paused" || recorder.status === "autoPaused";
   
   // Check for connected devices that can track cardio
   const connectedCardioDevices = connectedDevices.filter(
@@ -147,7 +168,50 @@ export default function LogCardioScreen() {
     }
   }, [selectedRoute]);
   
+  const handleStartRecording = async () => {
+    setRecordedRoute(null);
+    const started = await recorder.start();
+    if (!started) {
+      Alert.alert("GPS Unavailable", recorder.error || "Could not start GPS recording. Please check location permissions.");
+    }
+  };
+  
+  const handleStopRecording = () => {
+    const route = recorder.stop();
+    const summary = summarizeRoute(route);
+    
+    if (summary.distance === 0) {
+      Alert.alert("No Route Recorded", "Not enough GPS points were recorded to build a route.");
+      recorder.reset();
+      return;
+    }
+    
+    setRecordedRoute(route);
+    setDistance((summary.distance / 1000).toFixed(2));
+    setDuration(Math.max(1, Math.round(summary.movingTime / 60)).toString());
+  };
+  
+  const handleDiscardRecording = () => {
+    recorder.reset();
+    setRecordedRoute(null);
+  };
+  
+  // The recorded track, named after the picked route if there is one
+  const getSavedRoute = (): ActivityRoute | undefined => {
+    const picked = selectedRoute as { id: string; name: string } | null;
+    if (!recordedRoute && !picked) return undefined;
+    return {
+      segments: recordedRoute ? recordedRoute.segments : [],
+      ...(picked ? { id: picked.id, name: picked.name } : {}),
+    };
+  };
+  
   const handleSave = () => {
+    if (isRecording) {
+      Alert.alert("Recording in Progress", "Stop the GPS recording before saving this activity.");
+      return;
+    }
+    
     const newActivity: ActivityLog = {
       id: Date.now().toString(),
       type: activityType,
@@ -158,10 +222,10 @@ export default function LogCardioScreen() {
       notes,
       isOutdoor,
       location: isOutdoor ? location : "",
-      route: selectedRoute ? {
-        id: selectedRoute.id,
-        name: selectedRoute.name,
-      } : undefined,
+      route: getSavedRoute(),
+      splits: recordedSummary?.splits,
+      elevationGain: recordedSummary ? Math.round(recordedSummary.elevationGain) : undefined,
+      movingTime: recordedSummary ? Math.round(recordedSummary.movingTime) : undefined,
       heartRate: heartRate.avg > 0 ? heartRate : undefined,
       source: useConnectedDevice && selectedDevice ? 
         connectedDevices.find(d => d.id === selectedDevice)?.name || "Connected Device" : 
@@ -429,6 +493,126 @@ export default function LogCardioScreen() {
               />
             </View>
             
+            <View style={styles.recordingCard}>
+              <View style={styles.recordingHeader}>
+                <Navigation size={18} color={colors.primary} />
+                <Text style={styles.recordingTitle}>GPS Recording</Text>
+                {recorder.status === "autoPaused" && (
+                  <Text style={styles.recordingBadge}>Auto-paused</Text>
+                )}
+                {recorder.status === "paused" && (
+                  <Text style={styles.recordingBadge}>Paused</Text>
+                )}
+              </View>
+              
+              {(isRecording || recordedSummary) && (
+                <View style={styles.recordingStats}>
+                  <View style={styles.recordingStat}>
+                    <Text style={styles.recordingStatValue}>
+                      {((recordedSummary?.distance ?? recorder.distance) / 1000).toFixed(2)}
+                    </Text>
+                    <Text style={styles.recordingStatLabel}>km</Text>
+                  </View>
+                  <View style={styles.recordingStat}>
+                    <Text style={styles.recordingStatValue}>
+                      {formatElapsed(recordedSummary?.movingTime ?? recorder.movingTime)}
+                    </Text>
+                    <Text style={styles.recordingStatLabel}>moving time</Text>
+                  </View>
+                  <View style={styles.recordingStat}>
+                    <Text style={styles.recordingStatValue}>
+                      {formatPace(calculatePace(
+                        recordedSummary?.distance ?? recorder.distance,
+                        recordedSummary?.movingTime ?? recorder.movingTime
+                      ))}
+                    </Text>
+                    <Text style={styles.recordingStatLabel}>min/km</Text>
+                  </View>
+                </View>
+              )}
+              
+              {!isRecording && !recordedRoute && (
+                <>
+                  <View style={styles.deviceToggleContainer}>
+                    <Text style={styles.recordingOptionLabel}>Auto-pause when stopped</Text>
+                    <Switch
+                      value={autoPauseEnabled}
+                      onValueChange={setAutoPauseEnabled}
+                      trackColor={{ false: colors.inactive, true: colors.primary }}
+                      thumbColor="#FFFFFF"
+                    />
+                  </View>
+                  <Button
+                    title="Start Recording"
+                    onPress={handleStartRecording}
+                    icon={<Play size={18} color="#FFFFFF" />}
+                  />
+                </>
+              )}
+              
+              {isRecording && (
+                <View style={styles.recordingControls}>
+                  {recorder.status === "recording" ? (
+                    <Button
+                      title="Pause"
+                      onPress={recorder.pause}
+                      variant="outline"
+                      icon={<Pause size={18} color={colors.primary} />}
+                      style={styles.recordingControlButton}
+                    />
+                  ) : (
+                    <Button
+                      title="Resume"
+                      onPress={recorder.resume}
+                      variant="outline"
+                      icon={<Play size={18} color={colors.primary} />}
+                      style={styles.recordingControlButton}
+                    />
+                  )}
+                  <Button
+                    title="Stop"
+                    onPress={handleStopRecording}
+                    icon={<Square size={18} color="#FFFFFF" />}
+                    style={styles.recordingControlButton}
+                  />
+                </View>
+              )}
+              
+              {recordedRoute && recordedSummary && (
+                <>
+                  <ActivityMap route={recordedRoute} height={220} />
+                  
+                  {recordedSummary.elevationGain > 0 && (
+                    <View style={styles.elevationRow}>
+                      <Mountain size={14} color={colors.textSecondary} />
+                      <Text style={styles.routeStatText}>
+                        {Math.round(recordedSummary.elevationGain)} m elevation gain
+                      </Text>
+                    </View>
+                  )}
+                  
+                  {recordedSummary.splits.length > 0 && (
+                    <View style={styles.splitsContainer}>
+                      <Text style={styles.routesTitle}>Splits</Text>
+                      {recordedSummary.splits.map(split => (
+                        <View key={split.index} style={styles.splitRow}>
+                          <Text style={styles.splitText}>
+                            {split.distance < 1000 ? `${(split.distance / 1000).toFixed(2)} km` : `Km ${split.index}`}
+                          </Text>
+                          <Text style={styles.splitText}>{formatPace(split.pace)} /km</Text>
+                          <Text style={styles.splitText}>+{Math.round(split.elevationGain)} m</Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+                  
+                  <TouchableOpacity onPress={handleDiscardRecording}>
+                    <Text style={styles.suggestText}>Discard recording</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+            
             {showRoutes && (
               <View style={styles.routesContainer}>
                 <Text style={styles.routesTitle}>Recommended Routes</Text>
@@ -927,6 +1111,79 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     flex: 1,
   },
+  recordingCard: {
+    backgroundColor: colors.highlight,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  recordingHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  recordingTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.text,
+    marginLeft: 8,
+    flex: 1,
+  },
+  recordingBadge: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: colors.primary,
+  },
+  recordingStats: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    marginBottom: 12,
+  },
+  recordingStat: {
+    alignItems: "center",
+  },
+  recordingStatValue: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: colors.text,
+  },
+  recordingStatLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  recordingOptionLabel: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  recordingControls: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  recordingControlButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  elevationRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  splitsContainer: {
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  splitRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  splitText: {
+    fontSize: 14,
+    color: colors.text,
+    flex: 1,
+  },
   saveButton: {
     marginTop: 8,
   },
@@ -1,22 +1,39 @@
 import React, { useState, useEffect } from "react";
 import { View, Text, StyleSheet, TextInput, ScrollView, TouchableOpacity, Alert, Image, Modal } from "react-native";
 import { useRouter, Stack } from "expo-router";
-import { Plus, Minus, Clock, Coffee, UtensilsCrossed, Soup, ArrowLeft, Camera } from "lucide-react-native";
+import { Plus, Minus, Clock, Coffee, UtensilsCrossed, Soup, ArrowLeft, Camera, ScanBarcode, Search } from "lucide-react-native";
 import { colors } from "@/constants/colors";
 import { useMacroStore } from "@/store/macroStore";
 import { useGamificationStore } from "@/store/gamificationStore";
-import { MacroLog, FoodItem } from "@/types";
+import { useFoodStore } from "@/store/foodStore";
+import { MacroLog, FoodItem, Food } from "@/types";
 import Button from "@/components/Button";
 import NoteInput from "@/components/NoteInput";
 import CustomDropdown from "@/components/CustomDropdown";
 import FoodCategorySelector from "@/components/FoodCategorySelector";
 import NutritionLabelScanner from "@/components/NutritionLabelScanner";
+import BarcodeScanner from "@/components/BarcodeScanner";
 import { foodCategories } from "@/mocks/foodCategories";
+import { lookupBarcode, normalizeBarcode, searchFoodDatabase } from "@/utils/foodDatabase";
+import { getFoodMicronutrients, roundMicronutrients, scaleMicronutrients, sumMicronutrients } from "@/utils/micronutrients";
+
+const foodToFoodItem = (food: Food): FoodItem => ({
+  id: food.id,
+  name: food.brand ? `${food.name} (${food.brand})` : food.name,
+  calories: food.calories,
+  protein: food.protein,
+  carbs: food.carbs,
+  fat: food.fat,
+  servingSize: food.servingSize,
+  imageUrl: food.image,
+  micronutrients: getFoodMicronutrients(food),
+});
 
 export default function LogFoodScreen() {
   const router = useRouter();
   const { addMacroLog, macroGoals, calculateDailyMacros } = useMacroStore();
   const { gamificationEnabled, achievements, updateAchievementProgress, unlockAchievement } = useGamificationStore();
+  const { saveFood, getFoodByBarcode } = useFoodStore();
   
   const [calories, setCalories] = useState("0");
   const [protein, setProtein] = useState("0");
@@ -27,6 +44,11 @@ export default function LogFoodScreen() {
   const [selectedFoodItems, setSelectedFoodItems] = useState<FoodItem[]>([]);
   const [quantity, setQuantity] = useState("1");
   const [showNutritionScanner, setShowNutritionScanner] = useState(false);
+  const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
+  // Barcode that wasn't found, saved with the label scan result
+  const [pendingBarcode, setPendingBarcode] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Food[]>([]);
   
   // Meal type options for dropdown
   const mealTypeOptions = [
@@ -55,6 +77,21 @@ export default function LogFoodScreen() {
     macroGoals.carbs > 0 && 
     macroGoals.fat > 0;
   
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+    
+    let cancelled = false;
+    searchFoodDatabase(searchQuery, 8).then(results => {
+      if (!cancelled) setSearchResults(results);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery]);
+  
   // Update macros when food items are selected
   useEffect(() => {
     if (selectedFoodItems.length > 0) {
@@ -86,6 +123,13 @@ export default function LogFoodScreen() {
   }, [selectedFoodItems]);
   
   const handleSave = () => {
+    // Only foods from the database carry micronutrients; quick-add items don't
+    const micronutrients = roundMicronutrients(sumMicronutrients(
+      selectedFoodItems.map(item =>
+        item.micronutrients && scaleMicronutrients(item.micronutrients, parseInt(item.quantity || "1"))
+      )
+    ));
+    
     const newLog: MacroLog = {
       id: Date.now().toString(),
       date: new Date().toISOString(),
@@ -97,6 +141,7 @@ export default function LogFoodScreen() {
       mealType,
       mealTime,
       foodItems: selectedFoodItems.length > 0 ? selectedFoodItems : undefined,
+      micronutrients: Object.keys(micronutrients).length > 0 ? micronutrients : undefined,
     };
     
     addMacroLog(newLog);
@@ -244,6 +289,40 @@ export default function LogFoodScreen() {
     setFat("0");
   };
   
+  const handleSelectSearchResult = (food: Food) => {
+    handleAddFood(foodToFoodItem(food));
+    setSearchQuery("");
+  };
+  
+  const handleBarcodeScanned = async (code: string) => {
+    const food = await lookupBarcode(code);
+    setShowBarcodeScanner(false);
+    
+    if (food) {
+      // Keep database hits with the saved foods so they show up first in search
+      if (food.barcode && !getFoodByBarcode(food.barcode)) {
+        saveFood(food);
+      }
+      handleAddFood(foodToFoodItem(food));
+      return;
+    }
+    
+    Alert.alert(
+      "Product Not Found",
+      "This barcode isn't in the food database yet. Scan the nutrition label and it will be remembered for next time.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Scan Label",
+          onPress: () => {
+            setPendingBarcode(normalizeBarcode(code));
+            setShowNutritionScanner(true);
+          }
+        }
+      ]
+    );
+  };
+  
   const handleNutritionScanned = (nutrition: {
     name: string;
     calories: number;
@@ -253,6 +332,22 @@ export default function LogFoodScreen() {
     quantity: string;
     servingSize: string;
   }) => {
+    if (pendingBarcode) {
+      // The scanner reports totals for the quantity eaten; the saved food is one serving
+      const servings = parseFloat(nutrition.quantity) || 1;
+      saveFood({
+        id: `barcode-${pendingBarcode}`,
+        name: nutrition.name,
+        barcode: pendingBarcode,
+        calories: Math.round(nutrition.calories / servings),
+        protein: Math.round(nutrition.protein / servings),
+        carbs: Math.round(nutrition.carbs / servings),
+        fat: Math.round(nutrition.fat / servings),
+        servingSize: nutrition.servingSize || "1 serving",
+      });
+      setPendingBarcode(null);
+    }
+    
     // Clear any existing food items since we're using scanned nutrition
     setSelectedFoodItems([]);
     
@@ -373,6 +468,51 @@ export default function LogFoodScreen() {
           </View>
         </View>
         
+        <View style={styles.sectionContainer}>
+          <Text style={styles.sectionTitle}>Find a Product</Text>
+          <Text style={styles.sectionDescription}>
+            Search your saved foods and the product database, or scan a barcode.
+          </Text>
+          
+          <View style={styles.searchInputContainer}>
+            <Search size={20} color={colors.textSecondary} style={styles.timeIcon} />
+            <TextInput
+              style={styles.timeInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Search foods"
+              autoCorrect={false}
+            />
+          </View>
+          
+          {searchResults.map(food => (
+            <TouchableOpacity
+              key={food.id}
+              style={styles.searchResult}
+              onPress={() => handleSelectSearchResult(food)}
+            >
+              <View style={styles.foodDetails}>
+                <Text style={styles.foodName}>{food.name}</Text>
+                <Text style={styles.servingSize}>
+                  {food.brand ? `${food.brand} • ` : ""}{food.servingSize}
+                </Text>
+              </View>
+              <Text style={styles.calories}>{food.calories} kcal</Text>
+            </TouchableOpacity>
+          ))}
+          
+          {searchQuery.trim().length > 0 && searchResults.length === 0 && (
+            <Text style={styles.sectionDescription}>No matching foods</Text>
+          )}
+          
+          <Button
+            title="Scan Barcode"
+            onPress={() => setShowBarcodeScanner(true)}
+            icon={<ScanBarcode size={20} color={colors.white} />}
+            style={styles.scannerButton}
+          />
+        </View>
+        
         <View style={styles.sectionContainer}>
           <Text style={styles.sectionTitle}>Food Database</Text>
           <Text style={styles.sectionDescription}>
@@ -773,7 +913,22 @@ export default function LogFoodScreen() {
       >
         <NutritionLabelScanner
           onNutritionScanned={handleNutritionScanned}
-          onCancel={() => setShowNutritionScanner(false)}
+          onCancel={() => {
+            setPendingBarcode(null);
+            setShowNutritionScanner(false);
+          }}
+        />
+      </Modal>
+      
+      {/* Barcode Scanner Modal */}
+      <Modal
+        visible={showBarcodeScanner}
+        animationType="slide"
+        presentationStyle="fullScreen"
+      >
+        <BarcodeScanner
+          onBarcodeScanned={handleBarcodeScanned}
+          onCancel={() => setShowBarcodeScanner(false)}
         />
       </Modal>
     </View>
@@ -850,6 +1005,22 @@ const styles = StyleSheet.create({
   timeIcon: {
     marginRight: 8,
   },
+  searchInputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  searchResult: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
   timeInput: {
     flex: 1,
     paddingVertical: 12,
@@ -0,0 +1,345 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from "react-native";
+import { Stack, useRouter } from "expo-router";
+import { ArrowLeft, ChevronLeft, ChevronRight, Check, X, ShoppingCart, Wand2 } from "lucide-react-native";
+import { colors } from "@/constants/colors";
+import { useMealStore } from "@/store/mealStore";
+import { useMacroStore } from "@/store/macroStore";
+import { mealRecommendations } from "@/mocks/meals";
+import Button from "@/components/Button";
+import { MEAL_SLOTS, findPlanMeal, generateMealPlan, getWeekDates, getWeekStart, toDateKey } from "@/utils/mealPlanner";
+
+const DIETARY_OPTIONS = Array.from(new Set(mealRecommendations.flatMap(meal => meal.dietaryRestrictions)));
+
+export default function MealPlannerScreen() {
+  const router = useRouter();
+  const { macroGoals } = useMacroStore();
+  const {
+    plannedMeals,
+    planRestrictions,
+    setWeekPlan,
+    setPlanRestrictions,
+    removePlannedMeal,
+    logPlannedMeal,
+  } = useMealStore();
+
+  const [weekStart, setWeekStart] = useState(getWeekStart());
+  const weekDates = getWeekDates(weekStart);
+  const weekKeys = weekDates.map(toDateKey);
+  const weekMeals = plannedMeals.filter(entry => entry.date && weekKeys.includes(entry.date));
+  const todayKey = toDateKey(new Date());
+
+  const changeWeek = (weeks: number) => {
+    const next = new Date(weekStart);
+    next.setDate(weekStart.getDate() + weeks * 7);
+    setWeekStart(next);
+  };
+
+  const toggleRestriction = (restriction: string) => {
+    setPlanRestrictions(
+      planRestrictions.includes(restriction)
+        ? planRestrictions.filter(existing => existing !== restriction)
+        : [...planRestrictions, restriction]
+    );
+  };
+
+  const handleGenerate = () => {
+    const plan = generateMealPlan({
+      weekStart,
+      goals: macroGoals,
+      restrictions: planRestrictions,
+      locked: weekMeals.filter(entry => entry.completed),
+    });
+
+    if (plan.length === 0) {
+      Alert.alert("No Meals Found", "No meals match all of the selected dietary restrictions.");
+      return;
+    }
+
+    setWeekPlan(weekStart, plan);
+  };
+
+  const handleLog = (id: string) => {
+    const log = logPlannedMeal(id);
+    if (!log) {
+      Alert.alert("Error", "Could not log this meal");
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: "Meal Planner",
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <ArrowLeft size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.weekNavigation}>
+          <TouchableOpacity onPress={() => changeWeek(-1)} style={styles.weekButton}>
+            <ChevronLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.weekTitle}>
+            Week of {weekStart.toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+          </Text>
+          <TouchableOpacity onPress={() => changeWeek(1)} style={styles.weekButton}>
+            <ChevronRight size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Dietary Restrictions</Text>
+          <View style={styles.chipContainer}>
+            {DIETARY_OPTIONS.map(restriction => {
+              const selected = planRestrictions.includes(restriction);
+              return (
+                <TouchableOpacity
+                  key={restriction}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleRestriction(restriction)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{restriction}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.hint}>
+            Targets: {macroGoals.calories} kcal • P {macroGoals.protein}g • C {macroGoals.carbs}g • F {macroGoals.fat}g per day
+          </Text>
+          <View style={styles.buttonRow}>
+            <Button
+              title={weekMeals.length > 0 ? "Regenerate" : "Plan Week"}
+              onPress={handleGenerate}
+              icon={<Wand2 size={18} color={colors.white} />}
+              style={styles.rowButton}
+            />
+            <Button
+              title="Shopping List"
+              onPress={() => router.push(`/shopping-list?week=${toDateKey(weekStart)}`)}
+              icon={<ShoppingCart size={18} color={colors.primary} />}
+              variant="outline"
+              style={styles.rowButton}
+              disabled={weekMeals.length === 0}
+            />
+          </View>
+        </View>
+
+        {weekDates.map((date, index) => {
+          const dateKey = weekKeys[index];
+          const dayMeals = MEAL_SLOTS
+            .map(slot => weekMeals.find(entry => entry.date === dateKey && entry.mealType === slot))
+            .filter(Boolean) as typeof weekMeals;
+          const dayCalories = dayMeals.reduce(
+            (sum, entry) => sum + (findPlanMeal(entry.mealId)?.calories || 0),
+            0
+          );
+
+          return (
+            <View key={dateKey} style={[styles.card, dateKey === todayKey && styles.todayCard]}>
+              <View style={styles.dayHeader}>
+                <Text style={styles.dayTitle}>
+                  {date.toLocaleDateString(undefined, { weekday: "long", month: "short", day: "numeric" })}
+                </Text>
+                {dayMeals.length > 0 && (
+                  <Text style={styles.hint}>{dayCalories} / {macroGoals.calories} kcal</Text>
+                )}
+              </View>
+
+              {dayMeals.length === 0 ? (
+                <Text style={styles.hint}>Nothing planned</Text>
+              ) : (
+                dayMeals.map(entry => {
+                  const meal = findPlanMeal(entry.mealId);
+                  if (!meal) return null;
+                  return (
+                    <View key={entry.id} style={styles.mealRow}>
+                      <View style={styles.mealInfo}>
+                        <Text style={styles.slotLabel}>{entry.mealType}</Text>
+                        <Text style={[styles.mealName, entry.completed && styles.mealEaten]}>{meal.name}</Text>
+                        <Text style={styles.hint}>
+                          {meal.calories} kcal • P {meal.protein}g • C {meal.carbs}g • F {meal.fat}g
+                        </Text>
+                      </View>
+                      {entry.completed ? (
+                        <Text style={styles.eatenLabel}>Eaten</Text>
+                      ) : (
+                        <>
+                          {/* Future meals can only be logged once their day comes */}
+                          {dateKey <= todayKey && (
+                            <TouchableOpacity
+                              style={styles.eatButton}
+                              onPress={() => handleLog(entry.id)}
+                              accessibilityLabel={`Log ${meal.name} as eaten`}
+                            >
+                              <Check size={18} color={colors.white} />
+                            </TouchableOpacity>
+                          )}
+                          <TouchableOpacity
+                            style={styles.removeButton}
+                            onPress={() => removePlannedMeal(entry.id)}
+                            accessibilityLabel={`Remove ${meal.name} from the plan`}
+                          >
+                            <X size={18} color={colors.textSecondary} />
+                          </TouchableOpacity>
+                        </>
+                      )}
+                    </View>
+                  );
+                })
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  backButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  weekNavigation: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  weekButton: {
+    padding: 8,
+  },
+  weekTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  todayCard: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: colors.text,
+    marginBottom: 12,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextSelected: {
+    color: colors.white,
+  },
+  hint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    marginTop: 16,
+  },
+  rowButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  dayHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  mealRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  mealInfo: {
+    flex: 1,
+  },
+  slotLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: colors.primary,
+    textTransform: "uppercase",
+    marginBottom: 2,
+  },
+  mealName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: colors.text,
+    marginBottom: 2,
+  },
+  mealEaten: {
+    color: colors.textSecondary,
+  },
+  eatenLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.success,
+  },
+  eatButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.primary,
+    justifyContent: "center",
+    alignItems: "center",
+    marginLeft: 8,
+  },
+  removeButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+});
@@ -21,12 +21,14 @@ import {
   Coffee,
   UtensilsCrossed,
   Soup,
-  X
+  X,
+  Pill
 } from 'lucide-react-native';
 import { colors } from '@/constants/colors';
 import { useMacroStore } from '@/store/macroStore';
 import { MacroLog } from '@/types';
 import Button from '@/components/Button';
+import { getMicronutrientReport, getMicronutrientTargets, MicronutrientReport, MicronutrientReportEntry } from '@/utils/micronutrients';
 
 // Helper function to group logs by date
 const groupLogsByDate = (logs: MacroLog[]) => {
@@ -192,6 +194,36 @@ const identifyMealPatterns = (logsByMealType: Record<string, MacroLog[]>) => {
   return patterns;
 };
 
+// Helper to turn micronutrient flags into patterns
+const identifyMicronutrientPatterns = (report: MicronutrientReport) => {
+  const patterns: string[] = [];
+  
+  report.entries.forEach(entry => {
+    const amount = `${entry.average}${entry.unit}`;
+    if (entry.status === 'low') {
+      patterns.push(`Your ${entry.label.toLowerCase()} intake averages ${amount} a day, below the ${entry.target}${entry.unit} target.`);
+    } else if (entry.status === 'high') {
+      const limit = entry.kind === 'limit' ? entry.target : entry.upperLimit;
+      patterns.push(`Your ${entry.label.toLowerCase()} intake averages ${amount} a day, above the ${limit}${entry.unit} limit.`);
+    }
+  });
+  
+  return patterns;
+};
+
+const formatMicronutrientStatus = (entry: MicronutrientReportEntry) => {
+  switch (entry.status) {
+    case 'low':
+      return 'Low';
+    case 'high':
+      return entry.kind === 'limit' ? 'Over limit' : 'Too high';
+    case 'ok':
+      return 'On track';
+    default:
+      return 'No data';
+  }
+};
+
 // Helper to generate suggestions based on patterns
 const generateSuggestions = (patterns: string[], averageMacros: any, goals: any) => {
   const suggestions = [];
@@ -213,6 +245,14 @@ const generateSuggestions = (patterns: string[], averageMacros: any, goals: any)
     suggestions.push("Incorporate healthy fat sources like avocados, nuts, seeds, and olive oil into your meals.");
   }
   
+  if (patterns.some(p => p.includes("fiber intake averages") && p.includes("below"))) {
+    suggestions.push("Add fiber with whole grains, beans, lentils, fruit and vegetables.");
+  }
+  
+  if (patterns.some(p => p.includes("sodium intake averages"))) {
+    suggestions.push("Cut back on sodium by choosing fewer processed and restaurant foods and checking labels for salt.");
+  }
+  
   if (patterns.some(p => p.includes("breakfast"))) {
     suggestions.push("A balanced breakfast with protein, healthy fats, and complex carbs can help stabilize energy throughout the day.");
   }
@@ -264,7 +304,7 @@ const InfoModal = ({ visible, onClose, title, content }: { visible: boolean, onC
 
 export default function NutritionInsightsScreen() {
   const router = useRouter();
-  const { macroLogs, macroGoals } = useMacroStore();
+  const { macroLogs, macroGoals, userProfile } = useMacroStore();
   
   const [timeframe, setTimeframe] = useState<'week' | 'month'>('week');
   const [isLoading, setIsLoading] = useState(true);
@@ -274,6 +314,7 @@ export default function NutritionInsightsScreen() {
     suggestions: string[];
     frequentFoods: { name: string; count: number }[];
     mealTypeDistribution: Record<string, number>;
+    micronutrients: MicronutrientReport;
     daysLogged: number;
     totalDays: number;
   } | null>(null);
@@ -335,6 +376,14 @@ export default function NutritionInsightsScreen() {
     // Get most frequent foods
     const frequentFoods = getMostFrequentFoods(filteredLogs);
     
+    // Compare micronutrient intake with targets for the user's age and gender
+    const micronutrients = getMicronutrientReport(
+      macroLogs,
+      getMicronutrientTargets(userProfile, macroGoals?.calories),
+      currentDate,
+      totalDays
+    );
+    
     // Generate insights
     let patterns: string[] = [];
     let suggestions: string[] = [];
@@ -348,6 +397,8 @@ export default function NutritionInsightsScreen() {
       const mealPatterns = identifyMealPatterns(logsByMealType);
       patterns = [...patterns, ...mealPatterns];
       
+      patterns = [...patterns, ...identifyMicronutrientPatterns(micronutrients)];
+      
       // Generate suggestions
       suggestions = generateSuggestions(patterns, averageMacros, macroGoals);
     }
@@ -359,6 +410,7 @@ export default function NutritionInsightsScreen() {
       suggestions,
       frequentFoods,
       mealTypeDistribution,
+      micronutrients,
       daysLogged,
       totalDays
     });
@@ -516,6 +568,49 @@ export default function NutritionInsightsScreen() {
             </View>
           </View>
           
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Pill size={20} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Micronutrients</Text>
+            </View>
+            
+            <View style={styles.macroCard}>
+              <Text style={styles.micronutrientNote}>
+                Daily averages from foods with nutrient data, against targets for your age and gender.
+              </Text>
+              {insights.micronutrients.entries.map(entry => (
+                <View key={entry.key} style={styles.micronutrientItem}>
+                  <View style={styles.micronutrientHeader}>
+                    <Text style={styles.foodName}>{entry.label}</Text>
+                    <Text style={[
+                      styles.micronutrientStatus,
+                      entry.status === 'low' && styles.micronutrientStatusLow,
+                      entry.status === 'high' && styles.micronutrientStatusHigh,
+                      entry.status === 'ok' && styles.micronutrientStatusOk,
+                    ]}>
+                      {formatMicronutrientStatus(entry)}
+                    </Text>
+                  </View>
+                  <Text style={styles.macroGoal}>
+                    {entry.average === null ? '—' : `${entry.average}${entry.unit}`}
+                    {' / '}
+                    {entry.kind === 'limit' ? 'limit ' : ''}{entry.target}{entry.unit}
+                  </Text>
+                  {entry.percent !== null && (
+                    <View style={styles.micronutrientBar}>
+                      <View style={[
+                        styles.micronutrientBarFill,
+                        { width: `${Math.min(100, entry.percent)}%` },
+                        entry.status === 'low' && styles.micronutrientBarLow,
+                        entry.status === 'high' && styles.micronutrientBarHigh,
+                      ]} />
+                    </View>
+                  )}
+                </View>
+              ))}
+            </View>
+          </View>
+          
           {insights.frequentFoods.length > 0 && (
             <View style={styles.section}>
               <View style={styles.sectionHeader}>
@@ -781,6 +876,54 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: colors.textSecondary,
   },
+  micronutrientNote: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  micronutrientItem: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  micronutrientHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  micronutrientStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  micronutrientStatusOk: {
+    color: colors.success,
+  },
+  micronutrientStatusLow: {
+    color: colors.warning,
+  },
+  micronutrientStatusHigh: {
+    color: colors.error,
+  },
+  micronutrientBar: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.border,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  micronutrientBarFill: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.success,
+  },
+  micronutrientBarLow: {
+    backgroundColor: colors.warning,
+  },
+  micronutrientBarHigh: {
+    backgroundColor: colors.error,
+  },
   foodCard: {
     backgroundColor: colors.card,
     borderRadius: 12,
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { 
   View, 
   Text, 
@@ -6,7 +6,8 @@ import {
   Switch, 
   TouchableOpacity, 
   ScrollView,
-  Alert
+  Alert,
+  Modal
 } from "react-native";
 import { Stack, useRouter } from "expo-router";
 import { 
@@ -17,18 +18,76 @@ import {
   Trash2, 
   AlertTriangle,
   Eye,
-  EyeOff
+  EyeOff,
+  Fingerprint,
+  Key,
+  Smartphone,
+  Timer
 } from "lucide-react-native";
 import { colors } from "@/constants/colors";
 import { usePhotoStore } from "@/store/photoStore";
+import { useAppLockStore, AUTO_LOCK_TIMEOUTS } from "@/store/appLockStore";
+import { useSecureStore } from "@/store/secureStore";
+import { PIN_LENGTH, getBiometricSupport, authenticateWithBiometrics } from "@/utils/appLock";
+import { ERASURE_CATEGORIES, ErasureCategory, WipeReport } from "@/utils/dataErasure";
 import Button from "@/components/Button";
+import PinPad from "@/components/PinPad";
+import WipeReportModal from "@/components/WipeReportModal";
+
+// Categories that can be erased on their own, without deleting everything
+const SELECTIVE_ERASURE_CATEGORIES: ErasureCategory[] = ["photos", "nutrition", "aiChats"];
+
+type PinFlow = "enable" | "disable" | "change";
+type PinStep = "verify" | "create" | "confirm";
+
+const getPinTitle = (flow: PinFlow | null, step: PinStep) => {
+  if (step === "verify") return "Enter your current PIN";
+  if (step === "confirm") return "Confirm your PIN";
+  return flow === "change" ? `Choose a new ${PIN_LENGTH}-digit PIN` : `Choose a ${PIN_LENGTH}-digit PIN`;
+};
+
+const formatTimeout = (seconds: number) => {
+  if (seconds === 0) return "Immediately";
+  if (seconds < 60) return `${seconds}s`;
+  return `${seconds / 60}m`;
+};
 
 export default function PrivacySettingsScreen() {
   const router = useRouter();
   const { encryptionEnabled, toggleEncryption } = usePhotoStore();
   
-  const [biometricAuth, setBiometricAuth] = useState(false);
-  const [dataCollection, setDataCollection] = useState(false);
+  const {
+    lockEnabled,
+    biometricsEnabled,
+    autoLockTimeout,
+    privacyScreenEnabled,
+    enableLock,
+    disableLock,
+    changePin,
+    confirmPin,
+    confirmWithBiometrics,
+    getLockoutRemaining,
+    setBiometricsEnabled,
+    setAutoLockTimeout,
+    setPrivacyScreenEnabled,
+  } = useAppLockStore();
+  const { deleteUserData } = useSecureStore();
+  
+  const [biometricLabel, setBiometricLabel] = useState("Biometrics");
+  
+  // PIN entry modal
+  const [pinFlow, setPinFlow] = useState<PinFlow | null>(null);
+  const [pinStep, setPinStep] = useState<PinStep>("create");
+  const [pinEntry, setPinEntry] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [pinError, setPinError] = useState("");
+  
+  const [erasingCategory, setErasingCategory] = useState<ErasureCategory | null>(null);
+  const [wipeReport, setWipeReport] = useState<WipeReport | null>(null);
+  
+  useEffect(() => {
+    getBiometricSupport().then(support => setBiometricLabel(support.label));
+  }, []);
   
   const handleToggleEncryption = (value: boolean) => {
     if (!value) {
@@ -54,36 +113,138 @@ export default function PrivacySettingsScreen() {
     }
   };
   
-  const handleToggleBiometric = (value: boolean) => {
-    // This would normally request biometric permission
-    setBiometricAuth(value);
+  const startPinFlow = (flow: PinFlow) => {
+    setPinFlow(flow);
+    setPinStep(flow === "enable" ? "create" : "verify");
+    setPinEntry("");
+    setNewPin("");
+    setPinError("");
+  };
+  
+  const closePinFlow = () => {
+    setPinFlow(null);
+    setPinEntry("");
+    setNewPin("");
+  };
+  
+  const finishVerify = async () => {
+    if (pinFlow === "disable") {
+      if (!(await disableLock())) {
+        Alert.alert("Error", "App Lock couldn't be turned off. Please try again.");
+      }
+      closePinFlow();
+    } else {
+      setPinStep("create");
+    }
+  };
+  
+  const handlePinChange = async (value: string) => {
+    setPinEntry(value);
+    setPinError("");
+    if (value.length < PIN_LENGTH) return;
+    
+    setPinEntry("");
+    
+    if (pinStep === "verify") {
+      if (await confirmPin(value)) {
+        await finishVerify();
+      } else {
+        const remaining = getLockoutRemaining();
+        setPinError(remaining > 0 ? `Too many attempts. Try again in ${remaining}s.` : "Incorrect PIN");
+      }
+    } else if (pinStep === "create") {
+      setNewPin(value);
+      setPinStep("confirm");
+    } else {
+      if (value !== newPin) {
+        setNewPin("");
+        setPinStep("create");
+        setPinError("PINs didn't match. Try again.");
+        return;
+      }
+      
+      const saved = pinFlow === "change" ? await changePin(value) : await enableLock(value);
+      if (saved) {
+        closePinFlow();
+      } else {
+        Alert.alert("Error", "Your PIN couldn't be saved. Please try again.");
+      }
+    }
+  };
+  
+  const handleVerifyWithBiometrics = async () => {
+    if (await confirmWithBiometrics("Confirm it's you")) {
+      await finishVerify();
+    }
   };
   
-  const handleToggleDataCollection = (value: boolean) => {
-    setDataCollection(value);
+  const handleToggleAppLock = (value: boolean) => {
+    startPinFlow(value ? "enable" : "disable");
+  };
+  
+  const handleToggleBiometric = async (value: boolean) => {
+    if (!value) {
+      setBiometricsEnabled(false);
+      return;
+    }
+    
+    const support = await getBiometricSupport();
+    if (!support.available) {
+      Alert.alert(
+        "Not Available",
+        "Set up Face ID, Touch ID or fingerprint unlock in your device settings first."
+      );
+      return;
+    }
+    
+    // Confirm the enrolled face or finger belongs to this user before relying on it
+    if (await authenticateWithBiometrics(`Enable ${support.label}`)) {
+      setBiometricsEnabled(true);
+    }
   };
   
-  const handleDeleteAllData = () => {
+  const handleDeleteData = (category: ErasureCategory) => {
+    const { title, description } = ERASURE_CATEGORIES[category];
+    
     Alert.alert(
-      "Delete All Data",
-      "This will permanently delete all your photos and personal data. This action cannot be undone.",
+      category === "all" ? "Delete All Data" : `Delete ${title}`,
+      `This will permanently delete: ${description}. This action cannot be undone.`,
       [
         {
           text: "Cancel",
           style: "cancel"
         },
         {
-          text: "Delete Everything",
+          text: category === "all" ? "Delete Everything" : "Delete",
           style: "destructive",
-          onPress: () => {
-            // This would normally delete all data
-            Alert.alert("Data Deleted", "All your data has been permanently deleted.");
-          }
+          onPress: () => confirmDeleteData(category)
         }
       ]
     );
   };
   
+  const confirmDeleteData = async (category: ErasureCategory) => {
+    setErasingCategory(category);
+    
+    try {
+      setWipeReport(await deleteUserData(category));
+    } catch (error) {
+      console.error("Error deleting data:", error);
+      Alert.alert("Delete Failed", "There was an error deleting your data.");
+    } finally {
+      setErasingCategory(null);
+    }
+  };
+  
+  const handleCloseWipeReport = () => {
+    const erasedEverything = wipeReport?.category === "all";
+    setWipeReport(null);
+    
+    if (erasedEverything) {
+      router.replace("/");
+    }
+  };
+  
   const handleGoBack = () => {
     router.back();
   };
@@ -124,6 +285,10 @@ export default function PrivacySettingsScreen() {
               thumbColor="#FFFFFF"
             />
           </View>
+        </View>
+        
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>App Lock</Text>
           
           <View style={styles.settingItem}>
             <View style={styles.settingInfo}>
@@ -131,15 +296,101 @@ export default function PrivacySettingsScreen() {
                 <Shield size={20} color={colors.primary} />
               </View>
               <View style={styles.settingTextContainer}>
-                <Text style={styles.settingTitle}>Biometric Authentication</Text>
+                <Text style={styles.settingTitle}>Require PIN</Text>
+                <Text style={styles.settingDescription}>
+                  Lock the app and your photos behind a {PIN_LENGTH}-digit PIN
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={lockEnabled}
+              onValueChange={handleToggleAppLock}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+          
+          {lockEnabled && (
+            <>
+              <View style={styles.settingItem}>
+                <View style={styles.settingInfo}>
+                  <View style={styles.settingIconContainer}>
+                    <Fingerprint size={20} color={colors.primary} />
+                  </View>
+                  <View style={styles.settingTextContainer}>
+                    <Text style={styles.settingTitle}>Unlock with {biometricLabel}</Text>
+                    <Text style={styles.settingDescription}>
+                      Your PIN still works as a fallback
+                    </Text>
+                  </View>
+                </View>
+                <Switch
+                  value={biometricsEnabled}
+                  onValueChange={handleToggleBiometric}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+              
+              <View style={styles.settingItem}>
+                <View style={styles.settingInfo}>
+                  <View style={styles.settingIconContainer}>
+                    <Timer size={20} color={colors.primary} />
+                  </View>
+                  <View style={styles.settingTextContainer}>
+                    <Text style={styles.settingTitle}>Auto-Lock</Text>
+                    <Text style={styles.settingDescription}>
+                      How long the app can stay in the background before it locks
+                    </Text>
+                  </View>
+                </View>
+              </View>
+              <View style={styles.timeoutOptions}>
+                {AUTO_LOCK_TIMEOUTS.map(seconds => (
+                  <TouchableOpacity
+                    key={seconds}
+                    style={[styles.timeoutChip, autoLockTimeout === seconds && styles.timeoutChipActive]}
+                    onPress={() => setAutoLockTimeout(seconds)}
+                  >
+                    <Text style={[styles.timeoutChipText, autoLockTimeout === seconds && styles.timeoutChipTextActive]}>
+                      {formatTimeout(seconds)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <TouchableOpacity 
+                style={styles.linkItem}
+                onPress={() => startPinFlow("change")}
+              >
+                <View style={styles.settingInfo}>
+                  <View style={styles.settingIconContainer}>
+                    <Key size={20} color={colors.primary} />
+                  </View>
+                  <View style={styles.settingTextContainer}>
+                    <Text style={styles.settingTitle}>Change PIN</Text>
+                  </View>
+                </View>
+                <ArrowLeft size={20} color={colors.textSecondary} style={{ transform: [{ rotate: '180deg' }] }} />
+              </TouchableOpacity>
+            </>
+          )}
+          
+          <View style={styles.settingItem}>
+            <View style={styles.settingInfo}>
+              <View style={styles.settingIconContainer}>
+                <Smartphone size={20} color={colors.primary} />
+              </View>
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.settingTitle}>Hide in App Switcher</Text>
                 <Text style={styles.settingDescription}>
-                  Require Face ID / Touch ID to view photos
+                  Blur the screen when you leave the app
                 </Text>
               </View>
             </View>
             <Switch
-              value={biometricAuth}
-              onValueChange={handleToggleBiometric}
+              value={privacyScreenEnabled}
+              onValueChange={setPrivacyScreenEnabled}
               trackColor={{ false: colors.border, true: colors.primary }}
               thumbColor="#FFFFFF"
             />
@@ -164,25 +415,23 @@ export default function PrivacySettingsScreen() {
             <Text style={styles.enabledText}>Enabled</Text>
           </View>
           
-          <View style={styles.settingItem}>
+          <TouchableOpacity 
+            style={styles.linkItem}
+            onPress={() => router.push("/consent-settings")}
+          >
             <View style={styles.settingInfo}>
               <View style={styles.settingIconContainer}>
                 <EyeOff size={20} color={colors.primary} />
               </View>
               <View style={styles.settingTextContainer}>
-                <Text style={styles.settingTitle}>Anonymous Usage Data</Text>
+                <Text style={styles.settingTitle}>Consent & Data Processing</Text>
                 <Text style={styles.settingDescription}>
-                  Share anonymous usage statistics to improve the app
+                  Review or withdraw AI, Apple Health, analytics and journey consent
                 </Text>
               </View>
             </View>
-            <Switch
-              value={dataCollection}
-              onValueChange={handleToggleDataCollection}
-              trackColor={{ false: colors.border, true: colors.primary }}
-              thumbColor="#FFFFFF"
-            />
-          </View>
+            <ArrowLeft size={20} color={colors.textSecondary} style={{ transform: [{ rotate: '180deg' }] }} />
+          </TouchableOpacity>
           
           <TouchableOpacity 
             style={styles.linkItem}
@@ -213,19 +462,69 @@ export default function PrivacySettingsScreen() {
             </View>
             
             <Text style={styles.dangerDescription}>
-              This will permanently delete all your photos, progress data, and settings. This action cannot be undone.
+              Permanently delete your data from this device. You'll get a report of what was removed, checked afterwards to confirm nothing remains. This action cannot be undone.
             </Text>
             
+            <Text style={styles.selectiveTitle}>Delete only</Text>
+            <View style={styles.selectiveOptions}>
+              {SELECTIVE_ERASURE_CATEGORIES.map(category => (
+                <Button
+                  key={category}
+                  title={ERASURE_CATEGORIES[category].title}
+                  onPress={() => handleDeleteData(category)}
+                  variant="outline"
+                  loading={erasingCategory === category}
+                  disabled={erasingCategory !== null}
+                  style={styles.selectiveButton}
+                  textStyle={styles.selectiveButtonText}
+                />
+              ))}
+            </View>
+            
             <Button
               title="Delete All My Data"
-              onPress={handleDeleteAllData}
+              onPress={() => handleDeleteData("all")}
               icon={<Trash2 size={18} color="#FFFFFF" />}
               variant="danger"
+              loading={erasingCategory === "all"}
+              disabled={erasingCategory !== null}
               style={styles.dangerButton}
             />
           </View>
         </View>
       </ScrollView>
+      
+      <Modal
+        visible={pinFlow !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={closePinFlow}
+      >
+        <View style={styles.pinModal}>
+          <TouchableOpacity onPress={closePinFlow} style={styles.pinCancel}>
+            <Text style={styles.pinCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          
+          <View style={styles.pinContent}>
+            <Text style={styles.pinTitle}>
+              {getPinTitle(pinFlow, pinStep)}
+            </Text>
+            <Text style={styles.pinError}>{pinError || " "}</Text>
+            
+            <PinPad
+              value={pinEntry}
+              onChange={handlePinChange}
+              accessoryKey={pinStep === "verify" && biometricsEnabled ? (
+                <TouchableOpacity onPress={handleVerifyWithBiometrics} accessibilityLabel={`Use ${biometricLabel}`}>
+                  <Fingerprint size={28} color={colors.primary} />
+                </TouchableOpacity>
+              ) : null}
+            />
+          </View>
+        </View>
+      </Modal>
+      
+      <WipeReportModal report={wipeReport} onClose={handleCloseWipeReport} />
     </View>
   );
 }
@@ -296,6 +595,61 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     paddingVertical: 12,
   },
+  timeoutOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginLeft: 52,
+    marginBottom: 8,
+  },
+  timeoutChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  timeoutChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  timeoutChipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  timeoutChipTextActive: {
+    color: "#FFFFFF",
+  },
+  pinModal: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  pinCancel: {
+    alignSelf: "flex-end",
+    padding: 16,
+  },
+  pinCancelText: {
+    fontSize: 16,
+    color: colors.primary,
+  },
+  pinContent: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingBottom: 48,
+  },
+  pinTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: colors.text,
+    marginBottom: 8,
+  },
+  pinError: {
+    fontSize: 14,
+    color: colors.error,
+    marginBottom: 24,
+  },
   dangerSection: {
     padding: 16,
   },
@@ -329,6 +683,25 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     lineHeight: 20,
   },
+  selectiveTitle: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  selectiveOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 12,
+  },
+  selectiveButton: {
+    marginRight: 8,
+    marginBottom: 8,
+    borderColor: colors.error,
+  },
+  selectiveButtonText: {
+    color: colors.error,
+  },
   dangerButton: {
     backgroundColor: colors.error,
   },
@@ -0,0 +1,539 @@
+import React, { useState, useMemo } from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert } from "react-native";
+import { Stack, useRouter } from "expo-router";
+import { ArrowLeft, CalendarRange, Check, ChevronDown, ChevronUp, Play, X } from "lucide-react-native";
+import { useTheme } from "@/context/ThemeContext";
+import { useProgramStore } from "@/store/programStore";
+import { useWorkoutStore } from "@/store/workoutStore";
+import { TrainingProgram } from "@/types";
+import Button from "@/components/Button";
+import {
+  estimateOneRepMaxesFromHistory,
+  getProgramSessionCount,
+  getProgramWeeks,
+} from "@/utils/programUtils";
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const TIMES = ["7:00 AM", "12:00 PM", "6:00 PM"];
+
+// Spread the program's sessions over the week with a rest day in between where possible
+const getDefaultTrainingDays = (daysPerWeek: number): number[] => {
+  switch (daysPerWeek) {
+    case 2:
+      return [1, 4];
+    case 3:
+      return [1, 3, 5];
+    case 4:
+      return [1, 2, 4, 5];
+    case 5:
+      return [1, 2, 3, 5, 6];
+    default:
+      return [1, 2, 3, 4, 5, 6].slice(0, Math.max(daysPerWeek, 1));
+  }
+};
+
+const getNextMonday = (): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + ((8 - date.getDay()) % 7 || 7));
+  return date;
+};
+
+export default function ProgramsScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { enrollments, getPrograms, getProgram, getActiveEnrollment, enrollInProgram, cancelEnrollment } = useProgramStore();
+  const { exercises, workoutLogs, scheduledWorkouts, startWorkout } = useWorkoutStore();
+
+  const [expandedProgramId, setExpandedProgramId] = useState<string | null>(null);
+  const [enrollingProgramId, setEnrollingProgramId] = useState<string | null>(null);
+  const [startNextWeek, setStartNextWeek] = useState(true);
+  const [trainingDays, setTrainingDays] = useState<number[]>([]);
+  const [time, setTime] = useState(TIMES[2]);
+  const [oneRepMaxInputs, setOneRepMaxInputs] = useState<Record<string, string>>({});
+
+  const programs = getPrograms();
+  const activeEnrollment = getActiveEnrollment();
+  const activeProgram = activeEnrollment ? getProgram(activeEnrollment.programId) : null;
+
+  const activeSessions = useMemo(() => {
+    if (!activeEnrollment) return [];
+    return scheduledWorkouts
+      .filter(sw => sw.programSession?.enrollmentId === activeEnrollment.id)
+      .sort((a, b) => new Date(a.scheduledDate || 0).getTime() - new Date(b.scheduledDate || 0).getTime());
+  }, [scheduledWorkouts, activeEnrollment]);
+
+  const nextSession = activeSessions.find(sw => !sw.completed);
+  const completedCount = activeEnrollment ? activeEnrollment.completedSessionIds.length : 0;
+  const totalCount = activeProgram ? getProgramSessionCount(activeProgram) : 0;
+
+  const getExerciseName = (exerciseId: string) => {
+    return exercises.find(e => e.id === exerciseId)?.name || "Unknown exercise";
+  };
+
+  const handleOpenEnroll = (program: TrainingProgram) => {
+    const estimates = estimateOneRepMaxesFromHistory(workoutLogs, program.mainLifts);
+    const inputs: Record<string, string> = {};
+    program.mainLifts.forEach(exerciseId => {
+      inputs[exerciseId] = estimates[exerciseId] ? estimates[exerciseId].toString() : "";
+    });
+
+    setOneRepMaxInputs(inputs);
+    setTrainingDays(getDefaultTrainingDays(program.daysPerWeek));
+    setEnrollingProgramId(program.id);
+  };
+
+  const toggleTrainingDay = (day: number) => {
+    setTrainingDays(prev =>
+      prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const handleEnroll = (program: TrainingProgram) => {
+    if (trainingDays.length < program.daysPerWeek) {
+      Alert.alert("Pick More Days", `${program.name} needs ${program.daysPerWeek} training days a week.`);
+      return;
+    }
+
+    const oneRepMaxes: Record<string, number> = {};
+    Object.entries(oneRepMaxInputs).forEach(([exerciseId, value]) => {
+      const parsed = parseFloat(value);
+      if (parsed > 0) oneRepMaxes[exerciseId] = parsed;
+    });
+
+    const doEnroll = () => {
+      const startDate = startNextWeek ? getNextMonday() : new Date();
+      const enrollment = enrollInProgram(program.id, {
+        startDate: startDate.toISOString(),
+        trainingDays,
+        time,
+        oneRepMaxes,
+      });
+
+      if (!enrollment) {
+        Alert.alert("Error", "Could not start this program. Please try again.");
+        return;
+      }
+      setEnrollingProgramId(null);
+      Alert.alert("Program Scheduled", `${getProgramSessionCount(program)} sessions have been added to your schedule.`);
+    };
+
+    const missingMaxes = program.mainLifts.filter(id => !oneRepMaxes[id]);
+    if (missingMaxes.length > 0) {
+      Alert.alert(
+        "Missing One-Rep Maxes",
+        `Without a max for ${missingMaxes.map(getExerciseName).join(", ")}, those sets won't have target weights. Continue anyway?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Continue", onPress: doEnroll },
+        ]
+      );
+      return;
+    }
+
+    if (activeProgram) {
+      Alert.alert(
+        "Replace Current Program",
+        `You're following ${activeProgram.name}. Its remaining sessions will be removed from your schedule.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Replace", style: "destructive", onPress: doEnroll },
+        ]
+      );
+      return;
+    }
+
+    doEnroll();
+  };
+
+  const handleCancelEnrollment = () => {
+    if (!activeEnrollment || !activeProgram) return;
+
+    Alert.alert(
+      "Leave Program",
+      `Remaining sessions of ${activeProgram.name} will be removed from your schedule. Completed workouts are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Leave", style: "destructive", onPress: () => cancelEnrollment(activeEnrollment.id) },
+      ]
+    );
+  };
+
+  const handleStartSession = () => {
+    if (!nextSession) return;
+    startWorkout(nextSession.workoutId, nextSession.id);
+    router.push("/active-workout");
+  };
+
+  const renderActiveProgram = () => {
+    if (!activeEnrollment || !activeProgram) return null;
+
+    const progress = totalCount > 0 ? completedCount / totalCount : 0;
+    const nextRef = nextSession?.programSession;
+    const nextWeek = nextRef ? activeProgram.phases[nextRef.phaseIndex]?.weeks[nextRef.weekIndex] : null;
+
+    return (
+      <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.primary }]}>
+        <Text style={[styles.activeLabel, { color: colors.primary }]}>CURRENT PROGRAM</Text>
+        <Text style={[styles.programName, { color: colors.text }]}>{activeProgram.name}</Text>
+        <Text style={[styles.meta, { color: colors.textSecondary }]}>
+          {completedCount} of {totalCount} sessions completed
+        </Text>
+        <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+          <View style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: colors.primary }]} />
+        </View>
+
+        {nextSession && nextRef && (
+          <View style={styles.nextSession}>
+            <View style={styles.nextSessionInfo}>
+              <Text style={[styles.nextSessionTitle, { color: colors.text }]}>
+                Next: {nextSession.workoutName}
+              </Text>
+              <Text style={[styles.meta, { color: colors.textSecondary }]}>
+                {activeProgram.phases[nextRef.phaseIndex]?.name}
+                {nextWeek?.isDeload ? " · Deload" : ""}
+                {nextSession.scheduledDate ? ` · ${new Date(nextSession.scheduledDate).toLocaleDateString()}` : ""}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.startButton, { backgroundColor: colors.primary }]}
+              onPress={handleStartSession}
+            >
+              <Play size={16} color={colors.white} />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <Button
+          title="Leave Program"
+          onPress={handleCancelEnrollment}
+          variant="outline"
+          icon={<X size={16} color={colors.primary} />}
+          style={styles.leaveButton}
+        />
+      </View>
+    );
+  };
+
+  const renderEnrollForm = (program: TrainingProgram) => (
+    <View style={[styles.enrollForm, { borderTopColor: colors.border }]}>
+      <Text style={[styles.formLabel, { color: colors.text }]}>Start</Text>
+      <View style={styles.chipRow}>
+        {[{ label: "Today", value: false }, { label: "Next Monday", value: true }].map(option => (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.chip,
+              { borderColor: colors.border },
+              startNextWeek === option.value && { backgroundColor: colors.primary, borderColor: colors.primary },
+            ]}
+            onPress={() => setStartNextWeek(option.value)}
+          >
+            <Text style={[styles.chipText, { color: startNextWeek === option.value ? colors.white : colors.text }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.formLabel, { color: colors.text }]}>
+        Training days ({trainingDays.length}/{program.daysPerWeek})
+      </Text>
+      <View style={styles.chipRow}>
+        {DAYS.map((day, index) => {
+          const selected = trainingDays.includes(index);
+          return (
+            <TouchableOpacity
+              key={day}
+              style={[
+                styles.dayChip,
+                { borderColor: colors.border },
+                selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+              ]}
+              onPress={() => toggleTrainingDay(index)}
+            >
+              <Text style={[styles.chipText, { color: selected ? colors.white : colors.text }]}>{day}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={[styles.formLabel, { color: colors.text }]}>Time</Text>
+      <View style={styles.chipRow}>
+        {TIMES.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.chip,
+              { borderColor: colors.border },
+              time === option && { backgroundColor: colors.primary, borderColor: colors.primary },
+            ]}
+            onPress={() => setTime(option)}
+          >
+            <Text style={[styles.chipText, { color: time === option ? colors.white : colors.text }]}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.formLabel, { color: colors.text }]}>One-rep maxes (kg)</Text>
+      <Text style={[styles.formHint, { color: colors.textSecondary }]}>
+        Pre-filled from your workout history where available.
+        {program.trainingMaxPercent ? ` Percentages are based on ${Math.round(program.trainingMaxPercent * 100)}% of these.` : ""}
+      </Text>
+      {program.mainLifts.map(exerciseId => (
+        <View key={exerciseId} style={styles.maxRow}>
+          <Text style={[styles.maxLabel, { color: colors.text }]}>{getExerciseName(exerciseId)}</Text>
+          <TextInput
+            style={[styles.maxInput, { color: colors.text, borderColor: colors.border }]}
+            value={oneRepMaxInputs[exerciseId] || ""}
+            onChangeText={value => setOneRepMaxInputs(prev => ({ ...prev, [exerciseId]: value }))}
+            keyboardType="numeric"
+            placeholder="-"
+            placeholderTextColor={colors.textLight}
+          />
+        </View>
+      ))}
+
+      <Button
+        title="Start Program"
+        onPress={() => handleEnroll(program)}
+        icon={<Check size={16} color={colors.white} />}
+        style={styles.enrollButton}
+      />
+    </View>
+  );
+
+  const renderProgram = (program: TrainingProgram) => {
+    const isExpanded = expandedProgramId === program.id;
+    const isEnrolling = enrollingProgramId === program.id;
+    const isActive = activeProgram?.id === program.id;
+    const weeks = getProgramWeeks(program);
+    const timesCompleted = enrollments.filter(e => e.programId === program.id && e.status === "completed").length;
+
+    return (
+      <View key={program.id} style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+        <TouchableOpacity onPress={() => setExpandedProgramId(isExpanded ? null : program.id)}>
+          <View style={styles.programHeader}>
+            <CalendarRange size={20} color={colors.primary} />
+            <Text style={[styles.programName, styles.programTitle, { color: colors.text }]}>{program.name}</Text>
+            {isExpanded ? (
+              <ChevronUp size={20} color={colors.textSecondary} />
+            ) : (
+              <ChevronDown size={20} color={colors.textSecondary} />
+            )}
+          </View>
+          <Text style={[styles.meta, { color: colors.textSecondary }]}>
+            {weeks.length} weeks · {program.daysPerWeek} days/week · {program.difficulty}
+            {timesCompleted > 0 ? ` · completed ${timesCompleted}x` : ""}
+          </Text>
+        </TouchableOpacity>
+
+        {isExpanded && (
+          <>
+            <Text style={[styles.description, { color: colors.text }]}>{program.description}</Text>
+            {program.phases.map((phase, phaseIndex) => (
+              <View key={phaseIndex} style={styles.phase}>
+                <Text style={[styles.phaseName, { color: colors.text }]}>
+                  {phase.name}{phase.goal ? ` - ${phase.goal}` : ""}
+                </Text>
+                {phase.weeks.map((week, weekIndex) => (
+                  <Text key={weekIndex} style={[styles.weekText, { color: colors.textSecondary }]}>
+                    {week.name}: {week.days.map(day => day.name).join(", ")}
+                    {week.isDeload ? " (deload)" : ""}
+                  </Text>
+                ))}
+              </View>
+            ))}
+
+            {!isActive && !isEnrolling && (
+              <Button
+                title="Choose This Program"
+                onPress={() => handleOpenEnroll(program)}
+                style={styles.enrollButton}
+              />
+            )}
+          </>
+        )}
+
+        {isEnrolling && !isActive && renderEnrollForm(program)}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Stack.Screen
+        options={{
+          title: "Training Programs",
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={styles.headerBackButton}>
+              <ArrowLeft size={24} color={colors.primary} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {renderActiveProgram()}
+
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Programs</Text>
+        {programs.map(renderProgram)}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  headerBackButton: {
+    padding: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    marginBottom: 12,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 16,
+  },
+  activeLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    marginBottom: 4,
+  },
+  programHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  programName: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  programTitle: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 12,
+  },
+  phase: {
+    marginTop: 12,
+  },
+  phaseName: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  weekText: {
+    fontSize: 13,
+    marginBottom: 2,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+    marginTop: 12,
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  nextSession: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 16,
+  },
+  nextSessionInfo: {
+    flex: 1,
+  },
+  nextSessionTitle: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  startButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginLeft: 12,
+  },
+  leaveButton: {
+    marginTop: 16,
+  },
+  enrollForm: {
+    borderTopWidth: 1,
+    marginTop: 16,
+    paddingTop: 8,
+  },
+  formLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  formHint: {
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  dayChip: {
+    width: 42,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    alignItems: "center",
+    marginRight: 6,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  maxRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  maxLabel: {
+    fontSize: 14,
+    flex: 1,
+  },
+  maxInput: {
+    width: 80,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    textAlign: "right",
+  },
+  enrollButton: {
+    marginTop: 16,
+  },
+});
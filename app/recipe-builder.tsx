@@ -0,0 +1,400 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert } from "react-native";
+import { Stack, useRouter, useLocalSearchParams } from "expo-router";
+import { ArrowLeft, Search, Trash2, Save } from "lucide-react-native";
+import { colors } from "@/constants/colors";
+import { useMealStore } from "@/store/mealStore";
+import { Food, Recipe, RecipeIngredient } from "@/types";
+import Button from "@/components/Button";
+import { searchFoodDatabase } from "@/utils/foodDatabase";
+import { calculateIngredientNutrition, calculateRecipeNutrition, parseServingGrams } from "@/utils/nutritionUtils";
+
+export default function RecipeBuilderScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { getRecipeById, saveRecipe } = useMealStore();
+  const existing = id ? getRecipeById(id) : null;
+
+  const [name, setName] = useState(existing?.name || "");
+  const [servings, setServings] = useState(existing ? String(existing.servings) : "4");
+  const [cookedWeight, setCookedWeight] = useState(existing?.cookedWeight ? String(existing.cookedWeight) : "");
+  const [ingredients, setIngredients] = useState<RecipeIngredient[]>(existing?.ingredients || []);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Food[]>([]);
+
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    searchFoodDatabase(searchQuery, 6).then(results => {
+      if (!cancelled) setSearchResults(results);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery]);
+
+  const draft: Recipe = {
+    id: existing?.id || Date.now().toString(),
+    name: name.trim(),
+    ingredients,
+    servings: parseFloat(servings) || 1,
+    cookedWeight: parseFloat(cookedWeight) || undefined,
+    createdAt: existing?.createdAt || new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+  const nutrition = calculateRecipeNutrition(draft);
+
+  const handleAddIngredient = (food: Food) => {
+    // Weigh by default; foods without a serving weight are counted in servings
+    const servingGrams = parseServingGrams(food.servingSize);
+    setIngredients(current => [
+      ...current,
+      {
+        id: `${Date.now()}-${food.id}`,
+        food,
+        amount: servingGrams ? Math.round(servingGrams) : 1,
+        unit: servingGrams ? "g" : "serving",
+      },
+    ]);
+    setSearchQuery("");
+  };
+
+  const updateIngredient = (ingredientId: string, updates: Partial<RecipeIngredient>) => {
+    setIngredients(current =>
+      current.map(ingredient => ingredient.id === ingredientId ? { ...ingredient, ...updates } : ingredient)
+    );
+  };
+
+  const removeIngredient = (ingredientId: string) => {
+    setIngredients(current => current.filter(ingredient => ingredient.id !== ingredientId));
+  };
+
+  const handleSave = () => {
+    if (!draft.name) {
+      Alert.alert("Error", "Please enter a recipe name");
+      return;
+    }
+
+    if (ingredients.length === 0) {
+      Alert.alert("Error", "Please add at least one ingredient");
+      return;
+    }
+
+    if (!(parseFloat(servings) > 0)) {
+      Alert.alert("Error", "Please enter how many servings the recipe makes");
+      return;
+    }
+
+    saveRecipe(draft);
+    router.back();
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: existing ? "Edit Recipe" : "New Recipe",
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <ArrowLeft size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.card}>
+          <Text style={styles.inputLabel}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. Beef chili"
+          />
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputColumn}>
+              <Text style={styles.inputLabel}>Servings</Text>
+              <TextInput
+                style={styles.input}
+                value={servings}
+                onChangeText={setServings}
+                keyboardType="numeric"
+              />
+            </View>
+            <View style={[styles.inputColumn, styles.inputColumnLast]}>
+              <Text style={styles.inputLabel}>Cooked weight (g)</Text>
+              <TextInput
+                style={styles.input}
+                value={cookedWeight}
+                onChangeText={setCookedWeight}
+                keyboardType="numeric"
+                placeholder={nutrition.rawWeight > 0 ? String(nutrition.rawWeight) : "Optional"}
+              />
+            </View>
+          </View>
+          <Text style={styles.hint}>
+            Weigh the finished dish to log portions by weight. Raw ingredients weigh {nutrition.rawWeight}g in total.
+          </Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Ingredients</Text>
+
+          {ingredients.map(ingredient => {
+            const facts = calculateIngredientNutrition(ingredient);
+            return (
+              <View key={ingredient.id} style={styles.ingredientItem}>
+                <View style={styles.ingredientHeader}>
+                  <Text style={styles.ingredientName} numberOfLines={1}>{ingredient.food.name}</Text>
+                  <TouchableOpacity onPress={() => removeIngredient(ingredient.id)} style={styles.deleteButton}>
+                    <Trash2 size={16} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, styles.amountInput]}
+                    // Uncontrolled so partial input like "0." isn't reformatted while typing
+                    defaultValue={String(ingredient.amount)}
+                    onChangeText={text => updateIngredient(ingredient.id, { amount: parseFloat(text) || 0 })}
+                    keyboardType="numeric"
+                  />
+                  {(["g", "serving"] as const).map(unit => (
+                    <TouchableOpacity
+                      key={unit}
+                      style={[styles.unitButton, ingredient.unit === unit && styles.unitButtonActive]}
+                      onPress={() => updateIngredient(ingredient.id, { unit })}
+                    >
+                      <Text style={[styles.unitText, ingredient.unit === unit && styles.unitTextActive]}>
+                        {unit === "g" ? "g" : "servings"}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {ingredient.unit === "g" && (
+                  <View style={styles.yieldRow}>
+                    <Text style={styles.hint}>Weighed cooked? Cooked/raw yield</Text>
+                    <TextInput
+                      style={[styles.input, styles.yieldInput]}
+                      defaultValue={ingredient.cookedYield ? String(ingredient.cookedYield) : ""}
+                      onChangeText={text => updateIngredient(ingredient.id, { cookedYield: parseFloat(text) || undefined })}
+                      keyboardType="numeric"
+                      placeholder="1"
+                    />
+                  </View>
+                )}
+
+                <Text style={styles.ingredientMacros}>
+                  {Math.round(facts.calories)} kcal • P {Math.round(facts.protein)}g • C {Math.round(facts.carbs)}g • F {Math.round(facts.fat)}g
+                </Text>
+              </View>
+            );
+          })}
+
+          <View style={styles.searchContainer}>
+            <Search size={20} color={colors.textSecondary} />
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Add an ingredient"
+              autoCorrect={false}
+            />
+          </View>
+
+          {searchResults.map(food => (
+            <TouchableOpacity key={food.id} style={styles.searchResult} onPress={() => handleAddIngredient(food)}>
+              <Text style={styles.ingredientName}>{food.name}</Text>
+              <Text style={styles.hint}>
+                {food.brand ? `${food.brand} • ` : ""}{food.calories} kcal per {food.servingSize}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Per Serving</Text>
+          <Text style={styles.servingCalories}>{nutrition.perServing.calories} kcal</Text>
+          <Text style={styles.servingMacros}>
+            Protein {nutrition.perServing.protein}g • Carbs {nutrition.perServing.carbs}g • Fat {nutrition.perServing.fat}g
+          </Text>
+          <Text style={styles.servingMacros}>
+            Fiber {nutrition.perServing.micronutrients.fiber ?? 0}g • Sugar {nutrition.perServing.micronutrients.sugar ?? 0}g • Sodium {Math.round(nutrition.perServing.micronutrients.sodium ?? 0)}mg
+          </Text>
+          {nutrition.gramsPerServing > 0 && (
+            <Text style={styles.hint}>About {nutrition.gramsPerServing}g per serving</Text>
+          )}
+        </View>
+
+        <Button
+          title="Save Recipe"
+          onPress={handleSave}
+          icon={<Save size={18} color={colors.white} />}
+        />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  backButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: colors.text,
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: colors.text,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  inputColumn: {
+    flex: 1,
+    marginRight: 8,
+  },
+  inputColumnLast: {
+    marginRight: 0,
+    marginLeft: 8,
+  },
+  hint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  ingredientItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  ingredientHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  ingredientName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "500",
+    color: colors.text,
+  },
+  ingredientMacros: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  deleteButton: {
+    padding: 8,
+    borderRadius: 16,
+    backgroundColor: "rgba(255, 59, 48, 0.1)",
+  },
+  amountInput: {
+    width: 90,
+    marginRight: 8,
+  },
+  unitButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+    marginBottom: 12,
+  },
+  unitButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  unitText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  unitTextActive: {
+    color: colors.white,
+  },
+  yieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  yieldInput: {
+    width: 70,
+  },
+  searchContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginTop: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+    paddingVertical: 10,
+    marginLeft: 8,
+  },
+  searchResult: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  servingCalories: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: colors.primary,
+    marginBottom: 4,
+  },
+  servingMacros: {
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 4,
+  },
+});
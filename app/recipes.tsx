@@ -0,0 +1,271 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Keyboard } from "react-native";
+import { Stack, useRouter } from "expo-router";
+import { ArrowLeft, Plus, ChefHat, Pencil, Trash2 } from "lucide-react-native";
+import { colors } from "@/constants/colors";
+import { useMealStore } from "@/store/mealStore";
+import { Recipe } from "@/types";
+import Button from "@/components/Button";
+import { calculateRecipeNutrition, calculateRecipePortion, RecipePortionUnit } from "@/utils/nutritionUtils";
+
+// Accepts decimals and fractions, so "1/5" logs a fifth of the batch's servings
+const parsePortion = (text: string): number => {
+  const [numerator, denominator] = text.split("/").map(part => parseFloat(part));
+  if (denominator !== undefined) return denominator > 0 ? numerator / denominator : NaN;
+  return numerator;
+};
+
+export default function RecipesScreen() {
+  const router = useRouter();
+  const { recipes, deleteRecipe, logRecipePortion } = useMealStore();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [portion, setPortion] = useState("1");
+  const [portionUnit, setPortionUnit] = useState<RecipePortionUnit>("serving");
+
+  const handleSelect = (recipe: Recipe) => {
+    setSelectedId(selectedId === recipe.id ? null : recipe.id);
+    setPortion("1");
+    setPortionUnit("serving");
+  };
+
+  const handleLog = (recipe: Recipe) => {
+    const amount = parsePortion(portion);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert("Error", "Please enter a valid portion");
+      return;
+    }
+
+    const log = logRecipePortion(recipe.id, amount, portionUnit);
+    if (!log) {
+      Alert.alert("Error", "Could not log this recipe");
+      return;
+    }
+
+    Keyboard.dismiss();
+    setSelectedId(null);
+    Alert.alert("Logged", `${log.notes}: ${log.calories} kcal`);
+  };
+
+  const handleDelete = (recipe: Recipe) => {
+    Alert.alert(
+      "Delete Recipe",
+      `Are you sure you want to delete ${recipe.name}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: () => deleteRecipe(recipe.id) },
+      ]
+    );
+  };
+
+  const renderPortionPreview = (recipe: Recipe) => {
+    const amount = parsePortion(portion);
+    if (isNaN(amount) || amount <= 0) return null;
+    const facts = calculateRecipePortion(recipe, amount, portionUnit);
+    return (
+      <Text style={styles.recipeMacros}>
+        {facts.calories} kcal • P {facts.protein}g • C {facts.carbs}g • F {facts.fat}g
+      </Text>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: "Recipes",
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <ArrowLeft size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <Button
+          title="New Recipe"
+          onPress={() => router.push("/recipe-builder")}
+          icon={<Plus size={18} color={colors.white} />}
+          style={styles.newButton}
+        />
+
+        {recipes.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <ChefHat size={48} color={colors.textSecondary} />
+            <Text style={styles.emptyText}>
+              Build a recipe from your foods to log portions of batch-cooked meals.
+            </Text>
+          </View>
+        ) : (
+          recipes.map(recipe => {
+            const { perServing, gramsPerServing } = calculateRecipeNutrition(recipe);
+            const isSelected = selectedId === recipe.id;
+            return (
+              <View key={recipe.id} style={styles.recipeCard}>
+                <TouchableOpacity style={styles.recipeHeader} onPress={() => handleSelect(recipe)}>
+                  <View style={styles.recipeInfo}>
+                    <Text style={styles.recipeName}>{recipe.name}</Text>
+                    <Text style={styles.recipeMeta}>
+                      {recipe.servings} servings{gramsPerServing > 0 ? ` • ${gramsPerServing}g each` : ""}
+                    </Text>
+                    <Text style={styles.recipeMacros}>
+                      {perServing.calories} kcal • P {perServing.protein}g • C {perServing.carbs}g • F {perServing.fat}g
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => router.push(`/recipe-builder?id=${recipe.id}`)}
+                  >
+                    <Pencil size={18} color={colors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(recipe)}>
+                    <Trash2 size={18} color={colors.error} />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+
+                {isSelected && (
+                  <View style={styles.logContainer}>
+                    <View style={styles.portionRow}>
+                      <TextInput
+                        style={styles.portionInput}
+                        value={portion}
+                        onChangeText={setPortion}
+                        keyboardType="numbers-and-punctuation"
+                      />
+                      {(["serving", "g"] as const).map(unit => (
+                        <TouchableOpacity
+                          key={unit}
+                          style={[styles.unitButton, portionUnit === unit && styles.unitButtonActive]}
+                          onPress={() => setPortionUnit(unit)}
+                        >
+                          <Text style={[styles.unitText, portionUnit === unit && styles.unitTextActive]}>
+                            {unit === "serving" ? "servings" : "grams"}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    {renderPortionPreview(recipe)}
+                    <Button title="Log Portion" onPress={() => handleLog(recipe)} style={styles.logButton} />
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  backButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  newButton: {
+    marginBottom: 16,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: "center",
+    marginTop: 12,
+  },
+  recipeCard: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  recipeHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  recipeInfo: {
+    flex: 1,
+  },
+  recipeName: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: colors.text,
+    marginBottom: 4,
+  },
+  recipeMeta: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  recipeMacros: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  iconButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  logContainer: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  portionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  portionInput: {
+    width: 80,
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+  },
+  unitButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+  },
+  unitButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  unitText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  unitTextActive: {
+    color: colors.white,
+  },
+  logButton: {
+    marginTop: 12,
+  },
+});
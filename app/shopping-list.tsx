@@ -0,0 +1,153 @@
+import React from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Share } from "react-native";
+import { Stack, useRouter, useLocalSearchParams } from "expo-router";
+import { ArrowLeft, Share2, Square, CheckSquare } from "lucide-react-native";
+import { colors } from "@/constants/colors";
+import { useMealStore } from "@/store/mealStore";
+import Button from "@/components/Button";
+import { getPlanIngredients, getWeekDates, getWeekStart, toDateKey } from "@/utils/mealPlanner";
+import { buildShoppingList, formatShoppingListText } from "@/utils/shoppingList";
+
+export default function ShoppingListScreen() {
+  const router = useRouter();
+  const { week } = useLocalSearchParams<{ week?: string }>();
+  const { plannedMeals, checkedShoppingItems, toggleShoppingItem, clearCheckedShoppingItems } = useMealStore();
+
+  const weekStart = getWeekStart(week ? new Date(`${week}T00:00:00`) : new Date());
+  const weekKeys = getWeekDates(weekStart).map(toDateKey);
+  // Meals already eaten were cooked from earlier shopping
+  const toBuy = plannedMeals.filter(entry => !entry.completed && entry.date && weekKeys.includes(entry.date));
+  const items = buildShoppingList(getPlanIngredients(toBuy));
+  const title = `Shopping list for the week of ${weekStart.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ message: formatShoppingListText(title, items, checkedShoppingItems) });
+    } catch (error) {
+      console.error("Error sharing shopping list:", error);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: "Shopping List",
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <ArrowLeft size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+          headerRight: () => (
+            <TouchableOpacity onPress={handleExport} style={styles.backButton} accessibilityLabel="Export shopping list">
+              <Share2 size={22} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <Text style={styles.title}>{title}</Text>
+
+        {items.length === 0 ? (
+          <Text style={styles.emptyText}>
+            Plan meals for this week to build a shopping list.
+          </Text>
+        ) : (
+          <View style={styles.card}>
+            {items.map(item => {
+              const checked = checkedShoppingItems.includes(item.key);
+              return (
+                <TouchableOpacity key={item.key} style={styles.itemRow} onPress={() => toggleShoppingItem(item.key)}>
+                  {checked ? (
+                    <CheckSquare size={22} color={colors.primary} />
+                  ) : (
+                    <Square size={22} color={colors.textSecondary} />
+                  )}
+                  <Text style={[styles.itemLabel, checked && styles.itemChecked]}>{item.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        {items.length > 0 && (
+          <View style={styles.buttonRow}>
+            <Button title="Export" onPress={handleExport} icon={<Share2 size={18} color={colors.white} />} style={styles.rowButton} />
+            <Button
+              title="Uncheck All"
+              onPress={clearCheckedShoppingItems}
+              variant="outline"
+              style={styles.rowButton}
+              disabled={checkedShoppingItems.length === 0}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  backButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: colors.text,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: "center",
+    padding: 16,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  itemLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+    marginLeft: 12,
+  },
+  itemChecked: {
+    color: colors.textSecondary,
+    textDecorationLine: "line-through",
+  },
+  buttonRow: {
+    flexDirection: "row",
+  },
+  rowButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+});
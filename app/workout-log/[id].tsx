@@ -4,6 +4,12 @@ import { ArrowLeft, Clock, Dumbbell, Trash2, Edit, Copy, Calendar } from "lucide
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
 import { useWorkoutStore } from "@/store/workoutStore";
 import { useTheme } from "@/context/ThemeContext";
+import { useHealthStore } from "@/store/healthStore";
+import { useMacroStore } from "@/store/macroStore";
+import HeartRateZonesCard from "@/components/HeartRateZonesCard";
+import { calculateTrainingLoad, getWorkoutHeartRateSamples } from "@/utils/heartRateZones";
+import { GROUP_TYPE_LABELS, getExerciseGroup } from "@/utils/exerciseGroups";
+import { SET_TYPE_LABELS, formatSetDetails, getSetType } from "@/utils/setTypes";
 
 export default function WorkoutLogDetailScreen() {
   const router = useRouter();
@@ -16,6 +22,8 @@ export default function WorkoutLogDetailScreen() {
     deleteWorkoutLog,
     copyWorkoutToCustom
   } = useWorkoutStore();
+  const { activityLogs } = useHealthStore();
+  const { userProfile } = useMacroStore();
   
   const [workoutLog, setWorkoutLog] = useState<any>(null);
   const [workout, setWorkout] = useState<any>(null);
@@ -83,6 +91,12 @@ export default function WorkoutLogDetailScreen() {
     }
   };
   
+  const getSetAverageBpm = (set: any): number | null => {
+    if (!set.heartRateSamples || set.heartRateSamples.length === 0) return null;
+    const total = set.heartRateSamples.reduce((sum: number, sample: any) => sum + sample.bpm, 0);
+    return Math.round(total / set.heartRateSamples.length);
+  };
+  
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString(undefined, {
       weekday: "long",
@@ -140,24 +154,50 @@ export default function WorkoutLogDetailScreen() {
           )}
         </View>
         
+        {/* Heart rate */}
+        <HeartRateZonesCard
+          samples={getWorkoutHeartRateSamples(workoutLog)}
+          summary={workoutLog.heartRate}
+          durationMinutes={workoutLog.duration}
+          trainingLoad={calculateTrainingLoad(
+            workoutLogs,
+            activityLogs,
+            userProfile,
+            // Include this workout, which is dated by its start time
+            new Date(new Date(workoutLog.date).getTime() + workoutLog.duration * 60000)
+          )}
+        />
+        
         {/* Exercises */}
         <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Exercises</Text>
           
           {workoutLog.exercises.map((exerciseLog: any, index: number) => {
             const exercise = exercises.find(e => e.id === exerciseLog.exerciseId);
+            const group = getExerciseGroup(workoutLog, index);
             return (
               <View key={index} style={[styles.exerciseItem, { borderBottomColor: colors.border }]}>
+                {group && (
+                  <Text style={[styles.groupLabel, { color: colors.primary }]}>
+                    {GROUP_TYPE_LABELS[group.type]}
+                  </Text>
+                )}
                 <Text style={[styles.exerciseName, { color: colors.text }]}>
                   {exercise?.name || "Unknown Exercise"}
                 </Text>
                 
                 <View style={styles.setsList}>
-                  {exerciseLog.sets.map((set: any, setIndex: number) => (
-                    <Text key={setIndex} style={[styles.setInfo, { color: colors.textSecondary }]}>
-                      Set {setIndex + 1}: {set.weight} kg × {set.reps} reps
-                    </Text>
-                  ))}
+                  {exerciseLog.sets.map((set: any, setIndex: number) => {
+                    const avgBpm = getSetAverageBpm(set);
+                    const setType = getSetType(set);
+                    const details = formatSetDetails(set);
+                    return (
+                      <Text key={setIndex} style={[styles.setInfo, { color: colors.textSecondary }]}>
+                        Set {setIndex + 1}{setType !== "working" ? ` (${SET_TYPE_LABELS[setType]})` : ""}: {set.weight} kg × {set.reps} reps
+                        {details ? ` · ${details}` : ""}{avgBpm !== null ? ` · ${avgBpm} bpm` : ""}
+                      </Text>
+                    );
+                  })}
                   {exerciseLog.sets.length === 0 && (
                     <Text style={[styles.noSetsText, { color: colors.textLight }]}>
                       No sets recorded
@@ -288,6 +328,11 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     borderBottomWidth: 1,
   },
+  groupLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: 2,
+  },
   exerciseName: {
     fontSize: 16,
     fontWeight: "500",
@@ -1,8 +1,24 @@
-import React from 'react';
-import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, Alert, ActivityIndicator, Platform } from 'react-native';
 import { ActivityLog } from '@/types';
 import { useTheme } from '@/context/ThemeContext';
-import { X, Clock, MapPin, Flame, Award, Trash2, Edit } from 'lucide-react-native';
+import { X, Clock, MapPin, Flame, Award, Trash2, Edit, Share2 } from 'lucide-react-native';
+import {
+  ActivityFileFormat,
+  exportActivityFile,
+  getActivityDistanceMeters,
+  getExportFormats,
+} from '@/utils/activityFiles';
+
+// Handle conditional import for expo-sharing (not available on web)
+let Sharing: any = null;
+if (Platform.OS !== 'web') {
+  import('expo-sharing').then(module => {
+    Sharing = module;
+  }).catch(err => {
+    console.warn('expo-sharing is not available:', err);
+  });
+}
 
 interface ActivityDetailModalProps {
   activity: ActivityLog;
@@ -31,6 +47,27 @@ export default function ActivityDetailModal({ activity, onClose, onDelete, onEdi
     return `${pace.toFixed(1)} min/100m`;
   };
 
+  const [exportingFormat, setExportingFormat] = useState<ActivityFileFormat | null>(null);
+
+  const handleExport = async (format: ActivityFileFormat) => {
+    setExportingFormat(format);
+    try {
+      const result = await exportActivityFile(activity, format);
+      if (!result.success || !result.uri) {
+        Alert.alert('Export Failed', result.error || 'The activity could not be exported.');
+        return;
+      }
+
+      if (Sharing && await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(result.uri);
+      } else {
+        Alert.alert('Sharing not available', 'Sharing is not available on this device.');
+      }
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const handleDelete = () => {
     Alert.alert(
       "Delete Activity",
@@ -90,7 +127,7 @@ export default function ActivityDetailModal({ activity, onClose, onDelete, onEdi
                 <View style={styles.metric}>
                   <MapPin size={20} color={colors.primary} />
                   <Text style={[styles.metricValue, { color: colors.text }]}>
-                    {formatDistance(activity.distance)}
+                    {formatDistance(Math.round(getActivityDistanceMeters(activity)))}
                   </Text>
                   <Text style={[styles.metricLabel, { color: colors.textSecondary }]}>
                     Distance
@@ -171,6 +208,31 @@ export default function ActivityDetailModal({ activity, onClose, onDelete, onEdi
                 </Text>
               </View>
             )}
+
+            <View style={[styles.exportSection, { borderTopColor: colors.border }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                Export
+              </Text>
+              <View style={styles.exportButtons}>
+                {getExportFormats(activity).map(format => (
+                  <TouchableOpacity
+                    key={format}
+                    style={[styles.exportButton, { borderColor: colors.border }]}
+                    onPress={() => handleExport(format)}
+                    disabled={exportingFormat !== null}
+                  >
+                    {exportingFormat === format ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                      <Share2 size={16} color={colors.primary} />
+                    )}
+                    <Text style={[styles.actionButtonText, { color: colors.primary }]}>
+                      {format.toUpperCase()}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
           </View>
         </ScrollView>
 
@@ -309,6 +371,25 @@ const styles = StyleSheet.create({
   sourceText: {
     fontSize: 14,
   },
+  exportSection: {
+    paddingTop: 20,
+    marginTop: 20,
+    borderTopWidth: 1,
+  },
+  exportButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    flex: 1,
+  },
   footer: {
     flexDirection: 'row',
     padding: 16,
@@ -1,25 +1,51 @@
-import React from "react";
+import React, { useMemo } from "react";
 import { View, Text, StyleSheet, Platform } from "react-native";
 import { useTheme } from "@/context/ThemeContext";
 import { useHealthStore } from "@/store/healthStore";
-import MapView, { Polyline, PROVIDER_GOOGLE } from "react-native-maps";
+import MapView, { Polyline, Marker } from "react-native-maps";
+import { ActivityRoute } from "@/types";
+import { buildPaceSegments, getRoutePoints, getRouteRegion, hasRouteSegments } from "@/utils/routeMath";
 
 interface ActivityMapProps {
   height?: number;
   activityId?: string;
+  route?: ActivityRoute;
+  // Color the line by pace instead of a single theme color
+  showPaceColors?: boolean;
 }
 
-export default function ActivityMap({ height = 300, activityId }: ActivityMapProps) {
+export default function ActivityMap({ height = 300, activityId, route, showPaceColors = true }: ActivityMapProps) {
   const { colors } = useTheme();
-  
-  // This is a placeholder component since we can't actually implement location tracking
-  // without native device capabilities
-  
+  const { activityLogs } = useHealthStore();
+
+  // An explicit route wins, then the route of the given activity,
+  // otherwise fall back to the most recently recorded route
+  const activityRoute = useMemo(() => {
+    let selected: ActivityRoute | undefined;
+    if (route) {
+      selected = route;
+    } else if (activityId) {
+      selected = activityLogs.find(log => log.id === activityId)?.route;
+    } else {
+      selected = [...activityLogs]
+        .filter(log => hasRouteSegments(log.route))
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0]?.route;
+    }
+    return hasRouteSegments(selected) ? selected : undefined;
+  }, [route, activityId, activityLogs]);
+
+  const points = useMemo(() => getRoutePoints(activityRoute), [activityRoute]);
+  const region = useMemo(() => activityRoute ? getRouteRegion(activityRoute) : null, [activityRoute]);
+  const paceSegments = useMemo(
+    () => activityRoute && showPaceColors ? buildPaceSegments(activityRoute) : [],
+    [activityRoute, showPaceColors]
+  );
+
   if (Platform.OS === "web") {
     return (
-      <View 
+      <View
         style={[
-          styles.container, 
+          styles.container,
           { height, backgroundColor: colors.card }
         ]}
       >
@@ -29,23 +55,68 @@ export default function ActivityMap({ height = 300, activityId }: ActivityMapPro
       </View>
     );
   }
-  
-  // In a real implementation, we would:
-  // 1. Get location data from the health store
-  // 2. Render a MapView with the route as a Polyline
-  // 3. Show markers for start/end points
-  
-  // For this demo, we'll just show a placeholder map
+
+  if (!activityRoute || points.length === 0 || !region) {
+    return (
+      <View style={[styles.container, { height }]}>
+        <View style={styles.mapPlaceholder}>
+          <Text style={[styles.placeholderText, { color: colors.textSecondary }]}>
+            No route recorded
+          </Text>
+          <Text style={[styles.placeholderSubtext, { color: colors.textLight }]}>
+            Record an outdoor activity with GPS to see your route here
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  const startPoint = points[0];
+  const endPoint = points[points.length - 1];
+
   return (
     <View style={[styles.container, { height }]}>
-      <View style={styles.mapPlaceholder}>
-        <Text style={[styles.placeholderText, { color: colors.textSecondary }]}>
-          Map data would be displayed here
-        </Text>
-        <Text style={[styles.placeholderSubtext, { color: colors.textLight }]}>
-          Location tracking requires device permissions
-        </Text>
-      </View>
+      <MapView
+        style={styles.map}
+        initialRegion={region}
+        scrollEnabled
+        zoomEnabled
+        pitchEnabled={false}
+        rotateEnabled={false}
+      >
+        {showPaceColors && paceSegments.length > 0 ? (
+          paceSegments.map((segment, index) => (
+            <Polyline
+              key={`pace-${index}`}
+              coordinates={segment.coordinates}
+              strokeColor={segment.color}
+              strokeWidth={4}
+            />
+          ))
+        ) : (
+          activityRoute.segments.map((segment, index) => (
+            <Polyline
+              key={`segment-${index}`}
+              coordinates={segment.map(p => ({ latitude: p.latitude, longitude: p.longitude }))}
+              strokeColor={colors.primary}
+              strokeWidth={4}
+            />
+          ))
+        )}
+
+        <Marker
+          coordinate={{ latitude: startPoint.latitude, longitude: startPoint.longitude }}
+          title="Start"
+          pinColor="green"
+        />
+        {points.length > 1 && (
+          <Marker
+            coordinate={{ latitude: endPoint.latitude, longitude: endPoint.longitude }}
+            title="Finish"
+            pinColor="red"
+          />
+        )}
+      </MapView>
     </View>
   );
 }
@@ -56,6 +127,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     overflow: "hidden",
   },
+  map: {
+    flex: 1,
+  },
   mapPlaceholder: {
     flex: 1,
     justifyContent: "center",
@@ -69,10 +143,12 @@ const styles = StyleSheet.create({
   },
   placeholderSubtext: {
     fontSize: 14,
+    textAlign: "center",
+    paddingHorizontal: 16,
   },
   webText: {
     fontSize: 16,
     textAlign: "center",
     padding: 20,
   },
-});
\ No newline at end of file
+});
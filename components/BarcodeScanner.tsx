@@ -0,0 +1,150 @@
+import React, { useRef, useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Platform } from "react-native";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { X, ScanBarcode } from "lucide-react-native";
+import { colors } from "@/constants/colors";
+import Button from "@/components/Button";
+
+type BarcodeScannerProps = {
+  // Called once per scan; the scanner stays paused while this is running
+  onBarcodeScanned: (barcode: string) => Promise<void> | void;
+  onCancel: () => void;
+};
+
+export default function BarcodeScanner({ onBarcodeScanned, onCancel }: BarcodeScannerProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  // The camera reports the same code many times a second
+  const handlingRef = useRef(false);
+
+  const handleScanned = async ({ data }: { data: string }) => {
+    if (handlingRef.current) return;
+    handlingRef.current = true;
+    setIsLookingUp(true);
+    try {
+      await onBarcodeScanned(data);
+    } finally {
+      handlingRef.current = false;
+      setIsLookingUp(false);
+    }
+  };
+
+  if (Platform.OS === "web") {
+    return (
+      <View style={styles.messageContainer}>
+        <Text style={styles.messageTitle}>Barcode scanning isn't available on web</Text>
+        <Button title="Close" onPress={onCancel} variant="outline" />
+      </View>
+    );
+  }
+
+  if (!permission) {
+    return (
+      <View style={styles.messageContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={styles.messageContainer}>
+        <ScanBarcode size={48} color={colors.primary} />
+        <Text style={styles.messageTitle}>Camera access needed</Text>
+        <Text style={styles.messageText}>
+          Allow camera access to scan the barcode on packaged foods.
+        </Text>
+        <Button title="Allow Camera" onPress={requestPermission} style={styles.messageButton} />
+        <Button title="Cancel" onPress={onCancel} variant="outline" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CameraView
+        style={StyleSheet.absoluteFill}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ["ean13", "ean8", "upc_a", "upc_e"] }}
+        onBarcodeScanned={isLookingUp ? undefined : handleScanned}
+      />
+
+      <TouchableOpacity style={styles.closeButton} onPress={onCancel} accessibilityLabel="Close scanner">
+        <X size={24} color={colors.white} />
+      </TouchableOpacity>
+
+      <View style={styles.overlay} pointerEvents="none">
+        <View style={styles.frame} />
+        <Text style={styles.hint}>
+          {isLookingUp ? "Looking up product..." : "Point the camera at a barcode"}
+        </Text>
+        {isLookingUp && <ActivityIndicator color={colors.white} style={styles.spinner} />}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  closeButton: {
+    position: "absolute",
+    top: 56,
+    right: 20,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    zIndex: 1,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  frame: {
+    width: 280,
+    height: 160,
+    borderWidth: 3,
+    borderColor: colors.white,
+    borderRadius: 16,
+  },
+  hint: {
+    marginTop: 20,
+    fontSize: 16,
+    fontWeight: "500",
+    color: colors.white,
+  },
+  spinner: {
+    marginTop: 12,
+  },
+  messageContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+    backgroundColor: colors.background,
+  },
+  messageTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  messageText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  messageButton: {
+    marginBottom: 12,
+    alignSelf: "stretch",
+  },
+});
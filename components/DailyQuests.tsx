@@ -3,6 +3,7 @@ import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { useTheme } from '@/context/ThemeContext';
 import { useGamificationStore, DailyQuest } from '@/store/gamificationStore';
 import { Check, Clock, Award, Zap, ChevronRight } from 'lucide-react-native';
+import { formatQuestProgress } from '@/utils/questCriteria';
 
 interface DailyQuestsProps {
   compact?: boolean;
@@ -171,6 +172,11 @@ const QuestItem: React.FC<QuestItemProps> = ({ quest, onComplete }) => {
           <Text style={[styles.questDescription, { color: colors.textSecondary }]}>
             {quest.description}
           </Text>
+          {quest.criteria && (
+            <Text style={[styles.questProgress, { color: colors.primary }]}>
+              {formatQuestProgress(quest.progress || 0, quest.criteria)}
+            </Text>
+          )}
         </View>
       </View>
       
@@ -178,15 +184,18 @@ const QuestItem: React.FC<QuestItemProps> = ({ quest, onComplete }) => {
         <Text style={[styles.questPoints, { color: colors.primary }]}>
           +{quest.points} XP
         </Text>
-        <TouchableOpacity 
-          style={[
-            styles.completeButton, 
-            { backgroundColor: colors.primary }
-          ]}
-          onPress={onComplete}
-        >
-          <Check size={16} color="#FFFFFF" />
-        </TouchableOpacity>
+        {/* Quests with criteria complete themselves once the activity is logged */}
+        {!quest.criteria && (
+          <TouchableOpacity 
+            style={[
+              styles.completeButton, 
+              { backgroundColor: colors.primary }
+            ]}
+            onPress={onComplete}
+          >
+            <Check size={16} color="#FFFFFF" />
+          </TouchableOpacity>
+        )}
       </View>
     </View>
   );
@@ -273,6 +282,11 @@ const styles = StyleSheet.create({
   questDescription: {
     fontSize: 14,
   },
+  questProgress: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 2,
+  },
   questActions: {
     flexDirection: 'row',
     alignItems: 'center',
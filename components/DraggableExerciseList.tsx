@@ -1,10 +1,12 @@
 import React, { useRef, useState } from 'react';
-import { View, StyleSheet, GestureResponderEvent } from 'react-native';
+import { View, Text, StyleSheet, GestureResponderEvent } from 'react-native';
 import DraggableExerciseCard from './DraggableExerciseCard';
-import { Exercise } from '../types';
+import { Exercise, ExerciseGroup } from '../types';
+import { GROUP_TYPE_LABELS, describeExerciseGroup, moveExerciseBlock } from '../utils/exerciseGroups';
 
 interface DraggableExerciseListProps {
   exercises: Exercise[];
+  groups?: ExerciseGroup[];
   onReorder: (exercises: Exercise[]) => void;
   onComplete: (exerciseId: string) => void;
   onRest: (exerciseId: string) => void;
@@ -12,6 +14,7 @@ interface DraggableExerciseListProps {
 
 const DraggableExerciseList: React.FC<DraggableExerciseListProps> = ({ 
   exercises, 
+  groups = [],
   onReorder, 
   onComplete, 
   onRest 
@@ -24,10 +27,10 @@ const DraggableExerciseList: React.FC<DraggableExerciseListProps> = ({
 
   const handleDragEnd = (event: GestureResponderEvent) => {
     if (dropZoneIndexRef.current !== null && draggedIndexRef.current !== null) {
-      const newExercises = [...exercises];
-      const [draggedExercise] = newExercises.splice(draggedIndexRef.current, 1);
-      newExercises.splice(dropZoneIndexRef.current, 0, draggedExercise);
-      onReorder(newExercises);
+      // Grouped exercises are dragged as one block
+      const tagged = exercises.map(exercise => ({ exercise, groupId: getGroup(exercise.id)?.id }));
+      const moved = moveExerciseBlock(tagged, draggedIndexRef.current, dropZoneIndexRef.current);
+      onReorder(moved.map(item => item.exercise));
     }
     
     draggedIndexRef.current = null;
@@ -36,6 +39,11 @@ const DraggableExerciseList: React.FC<DraggableExerciseListProps> = ({
     setDropZoneIndex(null);
   };
 
+  const getGroup = (exerciseId?: string) => {
+    if (!exerciseId) return undefined;
+    return groups.find(group => group.exerciseIds.includes(exerciseId));
+  };
+
   const handleDragStart = (index: number) => {
     draggedIndexRef.current = index;
     setDraggedIndex(index);
@@ -50,31 +58,42 @@ const DraggableExerciseList: React.FC<DraggableExerciseListProps> = ({
 
   return (
     <View style={styles.container}>
-      {exercises.map((exercise, index) => (
-        <View
-          key={exercise.id}
-          style={[
-            styles.exerciseContainer,
-            draggedIndex === index && styles.dragging,
-            dropZoneIndex === index && styles.dropZone,
-          ]}
-          onLayout={(event) => {
-            const { y } = event.nativeEvent.layout;
-            dropZonesRef.current[index] = y;
-          }}
-        >
-          <DraggableExerciseCard
-            exercise={exercise}
-            onComplete={onComplete}
-            onRest={onRest}
-            onDragStart={() => handleDragStart(index)}
-            onDragEnd={handleDragEnd}
-            onDragEnter={() => handleDragEnter(index)}
-            isDragging={draggedIndex === index}
-            isDropZone={dropZoneIndex === index}
-          />
-        </View>
-      ))}
+      {exercises.map((exercise, index) => {
+        const group = getGroup(exercise.id);
+        const isFirstInGroup = group && getGroup(exercises[index - 1]?.id)?.id !== group.id;
+
+        return (
+          <View
+            key={exercise.id}
+            style={[
+              styles.exerciseContainer,
+              group && styles.groupedExercise,
+              draggedIndex === index && styles.dragging,
+              dropZoneIndex === index && styles.dropZone,
+            ]}
+            onLayout={(event) => {
+              const { y } = event.nativeEvent.layout;
+              dropZonesRef.current[index] = y;
+            }}
+          >
+            {isFirstInGroup && (
+              <Text style={styles.groupLabel}>
+                {GROUP_TYPE_LABELS[group.type]} · {describeExerciseGroup(group)}
+              </Text>
+            )}
+            <DraggableExerciseCard
+              exercise={exercise}
+              onComplete={onComplete}
+              onRest={onRest}
+              onDragStart={() => handleDragStart(index)}
+              onDragEnd={handleDragEnd}
+              onDragEnter={() => handleDragEnter(index)}
+              isDragging={draggedIndex === index}
+              isDropZone={dropZoneIndex === index}
+            />
+          </View>
+        );
+      })}
     </View>
   );
 };
@@ -86,6 +105,17 @@ const styles = StyleSheet.create({
   exerciseContainer: {
     marginVertical: 8,
   },
+  groupedExercise: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#007AFF',
+    paddingLeft: 8,
+  },
+  groupLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginBottom: 4,
+  },
   dragging: {
     opacity: 0.5,
     transform: [{ scale: 0.98 }],
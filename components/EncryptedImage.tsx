@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Image, ImageProps, ActivityIndicator, View, StyleSheet, Platform } from 'react-native';
 import { decryptPhoto, isEncryptedFile } from '@/utils/fileEncryption';
+import { useAppLockStore } from '@/store/appLockStore';
 import { colors } from '@/constants/colors';
 
 interface EncryptedImageProps extends Omit<ImageProps, 'source'> {
@@ -23,6 +24,7 @@ export default function EncryptedImage({
   const [decryptedUri, setDecryptedUri] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [hasError, setHasError] = useState(false);
+  const isLocked = useAppLockStore(state => state.isLocked);
   const isMounted = useRef(true);
   
   // Track temporary files to clean up
@@ -54,6 +56,14 @@ export default function EncryptedImage({
     let isCancelled = false;
     
     const loadImage = async () => {
+      // Nothing is decrypted while the app is locked
+      if (isLocked) {
+        cleanupTempFile();
+        setDecryptedUri(null);
+        setIsLoading(false);
+        return;
+      }
+      
       // Skip decryption for web or if the file is not encrypted
       if (Platform.OS === 'web' || !isEncryptedFile(uri)) {
         if (isMounted.current && !isCancelled) {
@@ -100,7 +110,7 @@ export default function EncryptedImage({
       isCancelled = true;
       cleanupTempFile();
     };
-  }, [uri, onLoadStart, onLoadEnd, onDecryptionError, fallbackUri]);
+  }, [uri, onLoadStart, onLoadEnd, onDecryptionError, fallbackUri, isLocked]);
   
   const handleImageError = () => {
     setHasError(true);
@@ -119,7 +129,7 @@ export default function EncryptedImage({
     );
   }
   
-  if (hasError && fallbackUri) {
+  if (hasError && fallbackUri && !isLocked) {
     return (
       <Image 
         source={{ uri: fallbackUri }} 
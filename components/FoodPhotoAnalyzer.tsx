@@ -6,6 +6,8 @@ import * as FileSystem from "expo-file-system";
 import { colors } from "@/constants/colors";
 import { FoodPhoto } from "@/store/photoStore";
 import Button from "@/components/Button";
+import AIService, { AIError, AIMessage, AISchema } from "@/services/AIService";
+import { requestConsent } from "@/utils/consent";
 
 // Define CameraType as a string type
 type CameraType = "front" | "back";
@@ -15,6 +17,31 @@ type FoodPhotoAnalyzerProps = {
   onCancel: () => void;
 };
 
+type FoodAnalysis = {
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  confidence?: string;
+  portion_size?: string;
+  notes?: string;
+};
+
+const FOOD_ANALYSIS_SCHEMA: AISchema<FoodAnalysis> = {
+  name: "food analysis",
+  fields: {
+    name: { type: "string", required: true },
+    calories: { type: "number", required: true },
+    protein: { type: "number", required: true },
+    carbs: { type: "number", required: true },
+    fat: { type: "number", required: true },
+    confidence: { type: "string", description: "high, medium or low" },
+    portion_size: { type: "string" },
+    notes: { type: "string" },
+  },
+};
+
 export default function FoodPhotoAnalyzer({ onPhotoTaken, onCancel }: FoodPhotoAnalyzerProps) {
   const [photo, setPhoto] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -135,6 +162,7 @@ export default function FoodPhotoAnalyzer({ onPhotoTaken, onCancel }: FoodPhotoA
   
   const handleAnalyzePhoto = async () => {
     if (!photo) return;
+    if (!(await requestConsent("aiPhotoProcessing"))) return;
     
     setIsAnalyzing(true);
     setAnalysisError(null);
@@ -144,7 +172,7 @@ export default function FoodPhotoAnalyzer({ onPhotoTaken, onCancel }: FoodPhotoA
       const base64Image = await convertImageToBase64(photo);
       
       // Create a comprehensive prompt for accurate food identification
-      const messages = [
+      const messages: AIMessage[] = [
         {
           role: "system",
           content: `You are a professional nutritionist and food identification expert with 20+ years of experience. Your task is to accurately identify foods from images and provide precise nutritional information.
@@ -197,75 +225,21 @@ IMPORTANT: Only respond with the JSON object, no additional text.`
         }
       ];
       
-      // Send the request to the AI API
-      const response = await fetch("https://toolkit.rork.com/text/llm/", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ messages }),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
-      }
+      const nutritionData = await AIService.completeStructured(messages, FOOD_ANALYSIS_SCHEMA, { timeoutMs: 60000 });
       
-      const data = await response.json();
-      
-      // Parse the AI response
-      try {
-        // The AI might return a string that contains JSON or a direct JSON object
-        let nutritionData;
-        if (typeof data.completion === "string") {
-          // Try to extract JSON from the string if it's wrapped in text
-          const jsonMatch = data.completion.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            nutritionData = JSON.parse(jsonMatch[0]);
-          } else {
-            throw new Error("Could not extract JSON from AI response");
-          }
-        } else {
-          nutritionData = data.completion;
-        }
-        
-        // Validate the nutrition data
-        if (!nutritionData.name || 
-            typeof nutritionData.calories !== "number" || 
-            typeof nutritionData.protein !== "number" || 
-            typeof nutritionData.carbs !== "number" || 
-            typeof nutritionData.fat !== "number") {
-          throw new Error("Invalid nutrition data format");
-        }
-        
-        setAnalysisResult({
-          name: nutritionData.name,
-          calories: nutritionData.calories,
-          protein: nutritionData.protein,
-          carbs: nutritionData.carbs,
-          fat: nutritionData.fat,
-          confidence: nutritionData.confidence || "medium",
-          portionSize: nutritionData.portion_size || "Standard serving",
-          notes: nutritionData.notes || ""
-        });
-      } catch (parseError) {
-        console.error("Error parsing AI response:", parseError, data.completion);
-        
-        // Fallback to a default analysis if parsing fails
-        setAnalysisResult({
-          name: "Unknown Food",
-          calories: 300,
-          protein: 10,
-          carbs: 30,
-          fat: 15,
-          confidence: "low",
-          portionSize: "Estimated serving",
-          notes: "Unable to accurately identify this food. Please verify the nutrition information."
-        });
-        
-        setAnalysisError("We couldn't accurately analyze this food. Please verify the nutrition information.");
-      }
+      setAnalysisResult({
+        name: nutritionData.name,
+        calories: nutritionData.calories,
+        protein: nutritionData.protein,
+        carbs: nutritionData.carbs,
+        fat: nutritionData.fat,
+        confidence: nutritionData.confidence || "medium",
+        portionSize: nutritionData.portion_size || "Standard serving",
+        notes: nutritionData.notes || ""
+      });
     } catch (error) {
       console.error("Error analyzing photo:", error);
+      const unreadable = error instanceof AIError && error.kind === "invalid_response";
       
       // Fallback to a default analysis if the API call fails
       setAnalysisResult({
@@ -276,10 +250,14 @@ IMPORTANT: Only respond with the JSON object, no additional text.`
         fat: 15,
         confidence: "low",
         portionSize: "Estimated serving",
-        notes: "Unable to analyze this food. Please verify the nutrition information."
+        notes: unreadable
+          ? "Unable to accurately identify this food. Please verify the nutrition information."
+          : "Unable to analyze this food. Please verify the nutrition information."
       });
       
-      setAnalysisError("We couldn't analyze this food. Please verify the nutrition information.");
+      setAnalysisError(unreadable
+        ? "We couldn't accurately analyze this food. Please verify the nutrition information."
+        : "We couldn't analyze this food. Please verify the nutrition information.");
     } finally {
       setIsAnalyzing(false);
     }
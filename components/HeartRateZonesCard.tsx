@@ -0,0 +1,218 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Heart, Activity } from "lucide-react-native";
+import { useTheme } from "@/context/ThemeContext";
+import { useMacroStore } from "@/store/macroStore";
+import { HeartRateSample } from "@/types";
+import {
+  analyzeHeartRate,
+  estimateTrimpFromAverage,
+  getHeartRateZones,
+  formatZoneDuration,
+  getTrainingLoadLabel,
+  TrainingLoadSummary,
+} from "@/utils/heartRateZones";
+
+interface HeartRateZonesCardProps {
+  samples: HeartRateSample[];
+  // Summary to fall back on when no individual samples were recorded
+  summary?: { avg: number; max: number; min: number };
+  durationMinutes?: number;
+  trainingLoad?: TrainingLoadSummary;
+}
+
+export default function HeartRateZonesCard({
+  samples,
+  summary,
+  durationMinutes = 0,
+  trainingLoad,
+}: HeartRateZonesCardProps) {
+  const { colors } = useTheme();
+  const { userProfile } = useMacroStore();
+
+  const analysis = useMemo(() => analyzeHeartRate(samples, userProfile), [samples, userProfile]);
+  const zones = useMemo(() => getHeartRateZones(userProfile), [userProfile]);
+
+  const avgBpm = analysis?.avgBpm ?? summary?.avg ?? 0;
+  const maxBpm = analysis?.maxBpm ?? summary?.max ?? 0;
+  const trimp = analysis
+    ? analysis.trimp
+    : estimateTrimpFromAverage(avgBpm, durationMinutes, userProfile);
+
+  if (!analysis && avgBpm <= 0) return null;
+
+  const getLoadColor = () => {
+    switch (trainingLoad?.status) {
+      case "optimal":
+        return colors.success;
+      case "overreaching":
+        return "#FF9500";
+      case "high_risk":
+        return colors.error;
+      default:
+        return colors.textSecondary;
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      <View style={styles.header}>
+        <Heart size={18} color={colors.error} />
+        <Text style={[styles.title, { color: colors.text }]}>Heart Rate</Text>
+      </View>
+
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <Text style={[styles.statValue, { color: colors.text }]}>{avgBpm}</Text>
+          <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Avg bpm</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={[styles.statValue, { color: colors.text }]}>{maxBpm}</Text>
+          <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Max bpm</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={[styles.statValue, { color: colors.text }]}>{trimp}</Text>
+          <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+            {analysis ? "Load (TRIMP)" : "Est. load"}
+          </Text>
+        </View>
+      </View>
+
+      {analysis && (
+        <View style={styles.zonesContainer}>
+          {[...analysis.zones].reverse().map(zone => {
+            const bounds = zones.find(z => z.zone === zone.zone);
+            return (
+              <View key={zone.zone} style={styles.zoneRow}>
+                <View style={styles.zoneLabel}>
+                  <Text style={[styles.zoneName, { color: colors.text }]}>
+                    Z{zone.zone} {zone.name}
+                  </Text>
+                  {bounds && (
+                    <Text style={[styles.zoneRange, { color: colors.textSecondary }]}>
+                      {bounds.minBpm}-{bounds.maxBpm}
+                    </Text>
+                  )}
+                </View>
+                <View style={[styles.zoneBarTrack, { backgroundColor: colors.border }]}>
+                  <View
+                    style={[
+                      styles.zoneBarFill,
+                      { width: `${Math.min(zone.percentage, 100)}%`, backgroundColor: zone.color }
+                    ]}
+                  />
+                </View>
+                <Text style={[styles.zoneTime, { color: colors.textSecondary }]}>
+                  {formatZoneDuration(zone.seconds)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {trainingLoad && (
+        <View style={[styles.loadContainer, { borderTopColor: colors.border }]}>
+          <Activity size={16} color={getLoadColor()} />
+          <View style={styles.loadText}>
+            <Text style={[styles.loadTitle, { color: colors.text }]}>
+              Acute:chronic load {trainingLoad.ratio !== null ? trainingLoad.ratio.toFixed(2) : "--"}
+            </Text>
+            <Text style={[styles.loadStatus, { color: getLoadColor() }]}>
+              {getTrainingLoadLabel(trainingLoad.status)}
+            </Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  stat: {
+    flex: 1,
+    alignItems: "center",
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  statLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  zonesContainer: {
+    marginBottom: 4,
+  },
+  zoneRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  zoneLabel: {
+    width: 110,
+  },
+  zoneName: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  zoneRange: {
+    fontSize: 11,
+  },
+  zoneBarTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+    marginHorizontal: 8,
+  },
+  zoneBarFill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  zoneTime: {
+    width: 44,
+    fontSize: 12,
+    textAlign: "right",
+  },
+  loadContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderTopWidth: 1,
+    paddingTop: 12,
+    marginTop: 8,
+  },
+  loadText: {
+    marginLeft: 8,
+    flex: 1,
+  },
+  loadTitle: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  loadStatus: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Fingerprint } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useAppLockStore } from '@/store/appLockStore';
+import { PIN_LENGTH } from '@/utils/appLock';
+import PinPad from '@/components/PinPad';
+
+export default function LockScreen() {
+  const { biometricsEnabled, failedAttempts, unlockWithPin, unlockWithBiometrics, getLockoutRemaining } = useAppLockStore();
+  const [pin, setPin] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState('');
+  const [lockoutRemaining, setLockoutRemaining] = useState(getLockoutRemaining());
+
+  // Offer biometrics straight away; the PIN pad stays available behind it
+  useEffect(() => {
+    if (biometricsEnabled) {
+      unlockWithBiometrics();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (lockoutRemaining <= 0) return;
+    const interval = setInterval(() => setLockoutRemaining(getLockoutRemaining()), 1000);
+    return () => clearInterval(interval);
+  }, [lockoutRemaining > 0]);
+
+  const handleChange = async (value: string) => {
+    setPin(value);
+    setError('');
+    if (value.length < PIN_LENGTH) return;
+
+    setIsChecking(true);
+    const unlocked = await unlockWithPin(value);
+    setIsChecking(false);
+
+    if (!unlocked) {
+      setPin('');
+      const remaining = getLockoutRemaining();
+      setLockoutRemaining(remaining);
+      setError(remaining > 0 ? '' : 'Incorrect PIN');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Image source={require('@/assets/images/adaptive-icon.png')} style={styles.icon} />
+      <Text style={styles.title}>Enter your PIN</Text>
+      <Text style={styles.message}>
+        {lockoutRemaining > 0
+          ? `Too many attempts. Try again in ${lockoutRemaining}s.`
+          : error || (failedAttempts > 0 ? `${failedAttempts} failed attempt${failedAttempts === 1 ? '' : 's'}` : ' ')}
+      </Text>
+
+      <PinPad
+        value={pin}
+        onChange={handleChange}
+        disabled={isChecking || lockoutRemaining > 0}
+        accessoryKey={biometricsEnabled ? (
+          <TouchableOpacity onPress={() => unlockWithBiometrics()} accessibilityLabel="Unlock with biometrics">
+            <Fingerprint size={28} color={colors.primary} />
+          </TouchableOpacity>
+        ) : null}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  icon: {
+    width: 72,
+    height: 72,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: colors.error,
+    marginBottom: 24,
+    minHeight: 20,
+  },
+});
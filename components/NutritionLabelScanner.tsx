@@ -5,6 +5,8 @@ import * as ImagePicker from "expo-image-picker";
 import * as FileSystem from "expo-file-system";
 import { colors } from "@/constants/colors";
 import Button from "@/components/Button";
+import AIService, { AIError, AIMessage, AISchema } from "@/services/AIService";
+import { requestConsent } from "@/utils/consent";
 
 // Custom scanning frame icon component
 const ScanningFrameIcon = ({ size = 64, color = colors.primary, style }: { size?: number, color?: string, style?: any }) => {
@@ -113,6 +115,33 @@ type NutritionLabelScannerProps = {
   onCancel: () => void;
 };
 
+type LabelScan = {
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  rawExtraction?: string;
+  processingSteps?: string[];
+  confidence?: string;
+  adjustments?: string[];
+};
+
+const LABEL_SCAN_SCHEMA: AISchema<LabelScan> = {
+  name: "nutrition label",
+  fields: {
+    name: { type: "string", required: true },
+    calories: { type: "number", required: true },
+    protein: { type: "number", required: true },
+    carbs: { type: "number", required: true },
+    fat: { type: "number", required: true },
+    rawExtraction: { type: "string", description: "what you saw on the label" },
+    processingSteps: { type: "string[]", description: "each step of the extraction" },
+    confidence: { type: "string" },
+    adjustments: { type: "string[]", description: "any estimates or corrections made" },
+  },
+};
+
 export default function NutritionLabelScanner({ onNutritionScanned, onCancel }: NutritionLabelScannerProps) {
   const [photo, setPhoto] = useState<string | null>(null);
   const [isScanning, setIsScanning] = useState(false);
@@ -257,6 +286,7 @@ export default function NutritionLabelScanner({ onNutritionScanned, onCancel }:
   
   const handleScanLabel = async () => {
     if (!photo) return;
+    if (!(await requestConsent("aiPhotoProcessing"))) return;
     
     setIsScanning(true);
     setScanError(null);
@@ -266,7 +296,7 @@ export default function NutritionLabelScanner({ onNutritionScanned, onCancel }:
       const base64Image = await convertImageToBase64(photo);
       
       // Create a prompt specifically for nutrition label OCR
-      const messages = [
+      const messages: AIMessage[] = [
         {
           role: "system",
           content: "You are a nutrition label OCR expert. Extract nutritional information from nutrition facts labels and explain your process. Look for serving size, calories, protein, carbs, and fat. Provide a detailed JSON response with these fields: name (string), calories (number), protein (number), carbs (number), fat (number), rawExtraction (string describing what you saw on the label), processingSteps (array of strings explaining each step), confidence (string describing accuracy), adjustments (array of strings explaining any estimates or corrections made). Be specific about what values you found and how you processed them."
@@ -280,68 +310,29 @@ export default function NutritionLabelScanner({ onNutritionScanned, onCancel }:
         }
       ];
       
-      // Send the request to the AI API
-      const response = await fetch("https://toolkit.rork.com/text/llm/", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
+      const nutritionData = await AIService.completeStructured(messages, LABEL_SCAN_SCHEMA, { timeoutMs: 60000 });
+      
+      setScanResult({
+        name: nutritionData.name,
+        calories: nutritionData.calories,
+        protein: nutritionData.protein,
+        carbs: nutritionData.carbs,
+        fat: nutritionData.fat,
+        calculationDetails: {
+          rawExtraction: nutritionData.rawExtraction || "No raw extraction details provided",
+          processingSteps: nutritionData.processingSteps || ["OCR processing completed"],
+          confidence: nutritionData.confidence || "Standard confidence level",
+          adjustments: nutritionData.adjustments || ["No adjustments made"],
         },
-        body: JSON.stringify({ messages }),
       });
       
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      // Parse the AI response
-      try {
-        // The AI might return a string that contains JSON or a direct JSON object
-        let nutritionData;
-        if (typeof data.completion === "string") {
-          // Try to extract JSON from the string if it's wrapped in text
-          const jsonMatch = data.completion.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            nutritionData = JSON.parse(jsonMatch[0]);
-          } else {
-            throw new Error("Could not extract JSON from AI response");
-          }
-        } else {
-          nutritionData = data.completion;
-        }
-        
-        // Validate the nutrition data
-        if (!nutritionData.name || 
-            typeof nutritionData.calories !== "number" || 
-            typeof nutritionData.protein !== "number" || 
-            typeof nutritionData.carbs !== "number" || 
-            typeof nutritionData.fat !== "number") {
-          throw new Error("Invalid nutrition data format");
-        }
-        
-        setScanResult({
-          name: nutritionData.name,
-          calories: nutritionData.calories,
-          protein: nutritionData.protein,
-          carbs: nutritionData.carbs,
-          fat: nutritionData.fat,
-          calculationDetails: {
-            rawExtraction: nutritionData.rawExtraction || "No raw extraction details provided",
-            processingSteps: nutritionData.processingSteps || ["OCR processing completed"],
-            confidence: nutritionData.confidence || "Standard confidence level",
-            adjustments: nutritionData.adjustments || ["No adjustments made"],
-          },
-        });
-        
-      } catch (parseError) {
-        console.error("Error parsing AI response:", parseError);
-        setScanError("Failed to parse nutrition information. Please try again or edit manually.");
-      }
-      
     } catch (error) {
       console.error("Error scanning nutrition label:", error);
-      setScanError("Failed to scan nutrition label. Please check your internet connection and try again.");
+      if (error instanceof AIError && error.kind === "invalid_response") {
+        setScanError("Failed to parse nutrition information. Please try again or edit manually.");
+      } else {
+        setScanError("Failed to scan nutrition label. Please check your internet connection and try again.");
+      }
     } finally {
       setIsScanning(false);
     }
@@ -0,0 +1,66 @@
+import React from "react";
+import { View, Text, StyleSheet, Dimensions } from "react-native";
+import Svg, { Path, Circle } from "react-native-svg";
+import { useTheme } from "@/context/ThemeContext";
+
+interface OneRepMaxChartProps {
+  history: { date: string; value: number }[];
+  height?: number;
+}
+
+export default function OneRepMaxChart({ history, height = 160 }: OneRepMaxChartProps) {
+  const { colors } = useTheme();
+
+  const values = history.map(entry => entry.value);
+  const minValue = Math.min(...values) * 0.95;
+  const maxValue = Math.max(...values) * 1.05;
+
+  const chartWidth = Dimensions.get("window").width - 64;
+
+  const points = values.map((value, index) => ({
+    x: (index / (values.length - 1 || 1)) * chartWidth,
+    y: height - ((value - minValue) / (maxValue - minValue || 1)) * height,
+  }));
+
+  const path = points.reduce(
+    (d, point, index) => `${d}${index === 0 ? "M" : " L"} ${point.x} ${point.y}`,
+    ""
+  );
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+  if (history.length === 0) return null;
+
+  return (
+    <View>
+      <Svg width={chartWidth} height={height}>
+        {points.length > 1 && (
+          <Path d={path} stroke={colors.primary} strokeWidth="2" fill="none" />
+        )}
+        {points.map((point, index) => (
+          <Circle key={index} cx={point.x} cy={point.y} r="3" fill={colors.primary} />
+        ))}
+      </Svg>
+      <View style={styles.labels}>
+        <Text style={[styles.label, { color: colors.textSecondary }]}>
+          {formatDate(history[0].date)} · {Math.round(history[0].value)} kg
+        </Text>
+        <Text style={[styles.label, { color: colors.textSecondary }]}>
+          {formatDate(history[history.length - 1].date)} · {Math.round(history[history.length - 1].value)} kg
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  labels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 12,
+  },
+});
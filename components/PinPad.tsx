@@ -0,0 +1,100 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Delete } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { PIN_LENGTH } from '@/utils/appLock';
+
+interface PinPadProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  // Rendered in the empty bottom-left key, e.g. a biometrics button
+  accessoryKey?: React.ReactNode;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export default function PinPad({ value, onChange, disabled, accessoryKey }: PinPadProps) {
+  const press = (digit: string) => {
+    if (disabled || value.length >= PIN_LENGTH) return;
+    onChange(value + digit);
+  };
+
+  const renderKey = (digit: string) => (
+    <TouchableOpacity
+      key={digit}
+      style={styles.key}
+      onPress={() => press(digit)}
+      disabled={disabled}
+      accessibilityLabel={digit}
+    >
+      <Text style={[styles.keyText, disabled && styles.keyTextDisabled]}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.dots}>
+        {Array.from({ length: PIN_LENGTH }, (_, index) => (
+          <View key={index} style={[styles.dot, index < value.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      <View style={styles.grid}>
+        {KEYS.map(renderKey)}
+        <View style={styles.key}>{accessoryKey}</View>
+        {renderKey('0')}
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => onChange(value.slice(0, -1))}
+          disabled={disabled || value.length === 0}
+          accessibilityLabel="Delete digit"
+        >
+          <Delete size={24} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    marginBottom: 32,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    marginHorizontal: 8,
+  },
+  dotFilled: {
+    backgroundColor: colors.primary,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    width: 264,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    margin: 6,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: '500',
+    color: colors.text,
+  },
+  keyTextDisabled: {
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,34 @@
+import React from 'react';
+import { StyleSheet, View, Image, Platform } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { colors } from '@/constants/colors';
+
+// Covers the app while it is inactive, so the app switcher snapshot doesn't
+// show personal data
+export default function PrivacyScreen() {
+  return (
+    <View style={styles.container} pointerEvents="none">
+      {Platform.OS === 'web' ? (
+        <View style={[StyleSheet.absoluteFill, styles.solid]} />
+      ) : (
+        <BlurView intensity={100} tint="light" style={StyleSheet.absoluteFill} />
+      )}
+      <Image source={require('@/assets/images/adaptive-icon.png')} style={styles.icon} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  solid: {
+    backgroundColor: colors.background,
+  },
+  icon: {
+    width: 96,
+    height: 96,
+  },
+});
@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TextInput } from "react-native";
+import { X } from "lucide-react-native";
+import { useTheme } from "@/context/ThemeContext";
+import { useWorkoutStore } from "@/store/workoutStore";
+import { ProgressionRule, ProgressionRuleType } from "@/types";
+import Button from "@/components/Button";
+import { PROGRESSION_RULE_LABELS, getDefaultRuleForType } from "@/utils/progression";
+
+interface ProgressionRuleModalProps {
+  visible: boolean;
+  exerciseId: string;
+  exerciseName: string;
+  onClose: () => void;
+}
+
+const RULE_DESCRIPTIONS: Record<ProgressionRuleType, string> = {
+  linear: "Add weight every session all sets hit the rep target.",
+  double_progression: "Build reps to the top of the range, then add weight and start again at the bottom.",
+  rpe: "Choose the weight from how hard your last top set felt.",
+};
+
+export default function ProgressionRuleModal({ visible, exerciseId, exerciseName, onClose }: ProgressionRuleModalProps) {
+  const { colors } = useTheme();
+  const { progressionRules, getProgressionRule, setProgressionRule } = useWorkoutStore();
+
+  const [rule, setRule] = useState<ProgressionRule>(() => getProgressionRule(exerciseId));
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!visible) return;
+    const current = getProgressionRule(exerciseId);
+    setRule(current);
+    setInputs({
+      increment: current.increment.toString(),
+      minReps: current.minReps.toString(),
+      maxReps: current.maxReps.toString(),
+      targetRpe: (current.targetRpe ?? 8).toString(),
+      stallSessions: current.stallSessions.toString(),
+      deloadPercent: Math.round(current.deloadPercent * 100).toString(),
+    });
+  }, [visible, exerciseId]);
+
+  const handleSave = () => {
+    const parse = (key: string, fallback: number) => {
+      const value = parseFloat(inputs[key]);
+      return isNaN(value) || value < 0 ? fallback : value;
+    };
+
+    const minReps = Math.max(Math.round(parse("minReps", rule.minReps)), 1);
+    setProgressionRule(exerciseId, {
+      ...rule,
+      increment: parse("increment", rule.increment),
+      minReps,
+      maxReps: rule.type === "linear" ? minReps : Math.max(Math.round(parse("maxReps", rule.maxReps)), minReps),
+      targetRpe: rule.type === "rpe" ? Math.min(Math.max(parse("targetRpe", 8), 5), 10) : rule.targetRpe,
+      stallSessions: Math.round(parse("stallSessions", rule.stallSessions)),
+      deloadPercent: Math.min(parse("deloadPercent", rule.deloadPercent * 100), 50) / 100,
+    });
+    onClose();
+  };
+
+  const handleReset = () => {
+    setProgressionRule(exerciseId, null);
+    onClose();
+  };
+
+  const renderInput = (key: string, label: string) => (
+    <View style={styles.inputRow}>
+      <Text style={[styles.inputLabel, { color: colors.text }]}>{label}</Text>
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+        value={inputs[key] || ""}
+        onChangeText={value => setInputs(prev => ({ ...prev, [key]: value }))}
+        keyboardType="numeric"
+      />
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: colors.card }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.text }]}>{exerciseName} Progression</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.typeRow}>
+            {(Object.keys(PROGRESSION_RULE_LABELS) as ProgressionRuleType[]).map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[
+                  styles.typeChip,
+                  { borderColor: colors.border },
+                  rule.type === type && { backgroundColor: colors.primary, borderColor: colors.primary },
+                ]}
+                onPress={() => setRule(getDefaultRuleForType(type, rule))}
+              >
+                <Text style={[styles.typeText, { color: rule.type === type ? colors.white : colors.text }]}>
+                  {PROGRESSION_RULE_LABELS[type]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={[styles.description, { color: colors.textSecondary }]}>{RULE_DESCRIPTIONS[rule.type]}</Text>
+
+          {rule.type === "linear" ? renderInput("minReps", "Target reps") : (
+            <>
+              {renderInput("minReps", "Min reps")}
+              {rule.type === "double_progression" && renderInput("maxReps", "Max reps")}
+            </>
+          )}
+          {rule.type === "rpe" && renderInput("targetRpe", "Target RPE")}
+          {renderInput("increment", "Increment (kg)")}
+          {renderInput("stallSessions", "Deload after stalled sessions")}
+          {renderInput("deloadPercent", "Deload amount (%)")}
+
+          <Button title="Save" onPress={handleSave} style={styles.saveButton} />
+          {progressionRules[exerciseId] && (
+            <Button title="Reset to Default" onPress={handleReset} variant="ghost" />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 36,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    flex: 1,
+    marginRight: 12,
+  },
+  typeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 8,
+  },
+  typeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  typeText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  description: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+  inputLabel: {
+    fontSize: 14,
+    flex: 1,
+  },
+  input: {
+    width: 72,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    textAlign: "right",
+  },
+  saveButton: {
+    marginTop: 12,
+  },
+});
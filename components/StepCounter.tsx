@@ -38,14 +38,10 @@ export default function StepCounter({ compact = false }: StepCounterProps) {
   // Get step goal from daily quests or use default
   const getStepGoal = () => {
     const activeQuests = getActiveDailyQuests();
-    const stepQuest = activeQuests.find(quest => quest.category === "steps");
+    const stepQuest = activeQuests.find(quest => quest.criteria?.metric === "steps");
     
-    if (stepQuest) {
-      // Extract number from description like "Take 5,000 steps today"
-      const match = stepQuest.description.match(/(\d{1,3}(?:,\d{3})*)/);
-      if (match) {
-        return parseInt(match[1].replace(/,/g, ''));
-      }
+    if (stepQuest?.criteria) {
+      return stepQuest.criteria.target;
     }
     
     // Fallback to user's custom goal or default
@@ -1,5 +1,5 @@
 import React, { useEffect } from "react";
-import { View, Text, StyleSheet, TouchableOpacity, Dimensions, Alert } from "react-native";
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions, Alert, Platform } from "react-native";
 import { TrendingUp, Plus, ArrowLeft, Trash2 } from "lucide-react-native";
 import Svg, { Path, Circle } from "react-native-svg";
 import { colors } from "@/constants/colors";
@@ -7,6 +7,7 @@ import { useHealthStore } from "@/store/healthStore";
 import { useMacroStore } from "@/store/macroStore";
 import { useRouter } from "expo-router";
 import { calculateWeightProgress as calculateSmartWeightProgress } from "@/utils/dateUtils";
+import { requestConsent } from "@/utils/consent";
 
 type WeightTrackerProps = {
   compact?: boolean;
@@ -40,6 +41,13 @@ export default function WeightTracker({
     syncWeightData();
   }, [syncWeightFromHealthKit]);
   
+  // Automatic syncs stay silent without consent; a manual sync asks for it
+  const handleSync = async () => {
+    if (Platform.OS === 'ios' && await requestConsent('healthKitSync')) {
+      await syncWeightFromHealthKit();
+    }
+  };
+  
   // Get weight progress from health store
   const healthProgress = healthStoreProgress();
   
@@ -188,7 +196,7 @@ export default function WeightTracker({
         <View style={styles.headerButtons}>
           <TouchableOpacity 
             style={styles.syncButton}
-            onPress={syncWeightFromHealthKit}
+            onPress={handleSync}
           >
             <Text style={styles.syncButtonText}>Sync</Text>
           </TouchableOpacity>
@@ -0,0 +1,142 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView } from 'react-native';
+import { CheckCircle, AlertTriangle } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { ERASURE_CATEGORIES, WipeReport, WipeReportEntryKind } from '@/utils/dataErasure';
+import Button from '@/components/Button';
+
+interface WipeReportModalProps {
+  report: WipeReport | null;
+  onClose: () => void;
+}
+
+const COUNT_UNITS: Record<WipeReportEntryKind, string> = {
+  store: 'records',
+  file: 'files',
+  'storage-key': 'entries',
+  'secure-key': 'keys',
+  notification: 'notifications',
+};
+
+export default function WipeReportModal({ report, onClose }: WipeReportModalProps) {
+  if (!report) return null;
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            {report.verified ? (
+              <CheckCircle size={24} color={colors.success} />
+            ) : (
+              <AlertTriangle size={24} color={colors.warning} />
+            )}
+            <Text style={styles.title}>
+              {report.verified ? 'Data Deleted' : 'Deletion Incomplete'}
+            </Text>
+          </View>
+
+          <Text style={styles.subtitle}>
+            {ERASURE_CATEGORIES[report.category].title} · {new Date(report.completedAt).toLocaleString()}
+          </Text>
+
+          <ScrollView style={styles.content}>
+            <Text style={styles.sectionTitle}>Removed</Text>
+            {report.removed.map((entry, index) => (
+              <View key={`${entry.kind}-${index}`} style={styles.row}>
+                <Text style={styles.rowLabel}>{entry.label}</Text>
+                <Text style={styles.rowValue}>{entry.count} {COUNT_UNITS[entry.kind]}</Text>
+              </View>
+            ))}
+
+            <Text style={styles.sectionTitle}>Verification</Text>
+            {report.verified ? (
+              <Text style={styles.verifiedText}>
+                Checked storage, files and secure keys afterwards: nothing that was deleted remains on this device.
+              </Text>
+            ) : (
+              <>
+                {report.remaining.map((item, index) => (
+                  <Text key={`remaining-${index}`} style={styles.problemText}>• Still present: {item}</Text>
+                ))}
+                {report.errors.map((error, index) => (
+                  <Text key={`error-${index}`} style={styles.problemText}>• {error}</Text>
+                ))}
+              </>
+            )}
+          </ScrollView>
+
+          <Button title="Done" onPress={onClose} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  container: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginLeft: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  content: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: colors.text,
+    flex: 1,
+    marginRight: 8,
+  },
+  rowValue: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  verifiedText: {
+    fontSize: 14,
+    color: colors.text,
+    lineHeight: 20,
+  },
+  problemText: {
+    fontSize: 14,
+    color: colors.error,
+    lineHeight: 20,
+  },
+});
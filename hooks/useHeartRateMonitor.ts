@@ -0,0 +1,109 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useHealthStore } from "@/store/healthStore";
+import { HeartRateSample } from "@/types";
+import HeartRateMonitorService, { HeartRateMonitorService as HeartRateMonitorServiceClass } from "@/services/HeartRateMonitorService";
+
+export type HeartRateMonitorStatus = "idle" | "connecting" | "streaming" | "disconnected" | "unavailable" | "error";
+
+/**
+ * Streams live BPM from the paired BLE heart-rate strap while `enabled` is true.
+ * Samples are buffered until the caller drains them with takeSamples().
+ */
+export default function useHeartRateMonitor(enabled: boolean) {
+  const { connectedDevices, updateDevice, recordDeviceSync } = useHealthStore();
+  const monitor = connectedDevices.find(d => d.type === "heart_rate_monitor" && d.isConnected);
+
+  const [bpm, setBpm] = useState<number | null>(null);
+  const [status, setStatus] = useState<HeartRateMonitorStatus>("idle");
+  const samplesRef = useRef<HeartRateSample[]>([]);
+  const sampleCountRef = useRef(0);
+
+  const monitorId = monitor?.id;
+
+  useEffect(() => {
+    if (!enabled || !monitorId) return;
+    if (!HeartRateMonitorServiceClass.isSupported()) {
+      setStatus("unavailable");
+      return;
+    }
+
+    let cancelled = false;
+    let stopStream: (() => void) | null = null;
+    sampleCountRef.current = 0;
+
+    const start = async () => {
+      setStatus("connecting");
+
+      const granted = await HeartRateMonitorService.requestPermissions();
+      const poweredOn = granted && await HeartRateMonitorService.waitForPoweredOn();
+      if (cancelled) return;
+      if (!poweredOn) {
+        setStatus("unavailable");
+        return;
+      }
+
+      const connected = await HeartRateMonitorService.connect(monitorId, () => {
+        setStatus("disconnected");
+        setBpm(null);
+      });
+      if (cancelled) {
+        // The cleanup already ran while the connect was pending
+        if (connected) await HeartRateMonitorService.disconnect(monitorId);
+        return;
+      }
+      if (!connected) {
+        setStatus("disconnected");
+        return;
+      }
+
+      const device = useHealthStore.getState().connectedDevices.find(d => d.id === monitorId);
+      if (device && connected.batteryLevel !== undefined) {
+        updateDevice({ ...device, batteryLevel: connected.batteryLevel });
+      }
+
+      stopStream = HeartRateMonitorService.startHeartRateStream(monitorId, measurement => {
+        samplesRef.current.push({ timestamp: measurement.timestamp, bpm: measurement.bpm });
+        sampleCountRef.current++;
+        setBpm(measurement.bpm);
+      });
+      setStatus("streaming");
+    };
+
+    start().catch(error => {
+      console.error("Error starting heart rate monitor:", error);
+      if (!cancelled) {
+        setStatus("error");
+        setBpm(null);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      stopStream?.();
+      HeartRateMonitorService.disconnect(monitorId);
+      setStatus("idle");
+      setBpm(null);
+
+      // Record the session against the device like any other sync
+      const device = useHealthStore.getState().connectedDevices.find(d => d.id === monitorId);
+      if (device && sampleCountRef.current > 0) {
+        updateDevice({ ...device, lastSync: new Date().toISOString() });
+        recordDeviceSync(device.id, device.name, ["heartRate"]);
+      }
+    };
+  }, [enabled, monitorId]);
+
+  // Hand over the samples collected since the last call
+  const takeSamples = useCallback((): HeartRateSample[] => {
+    const samples = samplesRef.current;
+    samplesRef.current = [];
+    return samples;
+  }, []);
+
+  return {
+    monitor,
+    bpm,
+    status,
+    takeSamples,
+  };
+}
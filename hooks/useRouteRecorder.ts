@@ -0,0 +1,215 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Platform } from "react-native";
+import * as Location from "expo-location";
+import { ActivityRoute, RoutePoint } from "@/types";
+import {
+  calculateRouteDistance,
+  calculateMovingTime,
+  isPlausiblePoint,
+  isRouteIdle,
+  shouldAutoPause,
+  shouldAutoResume,
+} from "@/utils/routeMath";
+
+// How often to check for auto-pause when no location fixes arrive
+const IDLE_CHECK_INTERVAL = 1000; // ms
+
+export type RouteRecorderStatus = "idle" | "recording" | "paused" | "autoPaused" | "stopped";
+
+interface RouteRecorderOptions {
+  autoPause?: boolean;
+}
+
+/**
+ * Records a live GPS track with manual pause/resume and optional auto-pause.
+ * Each pause closes the current segment so stopped time is not counted.
+ */
+export default function useRouteRecorder({ autoPause = true }: RouteRecorderOptions = {}) {
+  const [status, setStatus] = useState<RouteRecorderStatus>("idle");
+  const [route, setRoute] = useState<ActivityRoute>({ segments: [] });
+  const [error, setError] = useState<string | null>(null);
+  const [distance, setDistance] = useState(0); // meters
+  const [movingTime, setMovingTime] = useState(0); // seconds
+
+  const subscriptionRef = useRef<Location.LocationSubscription | null>(null);
+  const idleTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const statusRef = useRef<RouteRecorderStatus>("idle");
+  const routeRef = useRef<ActivityRoute>({ segments: [] });
+  const autoPauseRef = useRef(autoPause);
+  // Last fix received while auto-paused, used to detect movement again
+  const lastIdlePointRef = useRef<RoutePoint | undefined>(undefined);
+
+  useEffect(() => {
+    autoPauseRef.current = autoPause;
+  }, [autoPause]);
+
+  const updateStatus = (next: RouteRecorderStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  };
+
+  const commitRoute = (next: ActivityRoute) => {
+    routeRef.current = next;
+    setRoute(next);
+    setDistance(calculateRouteDistance(next));
+    setMovingTime(calculateMovingTime(next));
+  };
+
+  const startNewSegment = () => {
+    const segments = routeRef.current.segments;
+    // Reuse a trailing empty segment instead of stacking empty ones
+    if (segments.length > 0 && segments[segments.length - 1].length === 0) return;
+    commitRoute({ segments: [...segments, []] });
+  };
+
+  const handleLocation = useCallback((location: Location.LocationObject) => {
+    const point: RoutePoint = {
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      altitude: location.coords.altitude ?? undefined,
+      accuracy: location.coords.accuracy ?? undefined,
+      speed: location.coords.speed ?? undefined,
+      timestamp: location.timestamp,
+    };
+
+    const currentStatus = statusRef.current;
+
+    if (currentStatus === "autoPaused") {
+      if (shouldAutoResume(lastIdlePointRef.current, point)) {
+        lastIdlePointRef.current = undefined;
+        startNewSegment();
+        updateStatus("recording");
+      } else {
+        lastIdlePointRef.current = point;
+        return;
+      }
+    } else if (currentStatus !== "recording") {
+      return;
+    }
+
+    const segments = routeRef.current.segments;
+    const current = segments[segments.length - 1] || [];
+    const previous = current[current.length - 1];
+
+    if (!isPlausiblePoint(previous, point)) return;
+
+    const updatedSegment = [...current, point];
+    commitRoute({ segments: [...segments.slice(0, -1), updatedSegment] });
+
+    if (autoPauseRef.current && shouldAutoPause(updatedSegment)) {
+      lastIdlePointRef.current = point;
+      updateStatus("autoPaused");
+    }
+  }, []);
+
+  // Fixes only arrive while moving, so standing still has to be caught on a timer
+  const checkIdle = () => {
+    if (!autoPauseRef.current || statusRef.current !== "recording") return;
+
+    const segments = routeRef.current.segments;
+    const current = segments[segments.length - 1] || [];
+    if (isRouteIdle(current, Date.now())) {
+      lastIdlePointRef.current = current[current.length - 1];
+      updateStatus("autoPaused");
+    }
+  };
+
+  const stopWatching = () => {
+    if (subscriptionRef.current) {
+      subscriptionRef.current.remove();
+      subscriptionRef.current = null;
+    }
+    if (idleTimerRef.current) {
+      clearInterval(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+  };
+
+  const start = useCallback(async () => {
+    if (Platform.OS === "web") {
+      setError("GPS recording is not available on web");
+      return false;
+    }
+
+    try {
+      const { status: permission } = await Location.requestForegroundPermissionsAsync();
+      if (permission !== "granted") {
+        setError("Location permission is required to record your route");
+        return false;
+      }
+
+      setError(null);
+      lastIdlePointRef.current = undefined;
+      commitRoute({ segments: [[]] });
+      updateStatus("recording");
+
+      stopWatching();
+      subscriptionRef.current = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.BestForNavigation,
+          timeInterval: 1000,
+          distanceInterval: 2,
+        },
+        handleLocation
+      );
+      idleTimerRef.current = setInterval(checkIdle, IDLE_CHECK_INTERVAL);
+
+      return true;
+    } catch (err) {
+      console.error("Error starting route recording:", err);
+      setError("Could not start GPS recording");
+      updateStatus("idle");
+      return false;
+    }
+  }, [handleLocation]);
+
+  const pause = useCallback(() => {
+    if (statusRef.current === "recording" || statusRef.current === "autoPaused") {
+      updateStatus("paused");
+    }
+  }, []);
+
+  const resume = useCallback(() => {
+    if (statusRef.current === "paused" || statusRef.current === "autoPaused") {
+      lastIdlePointRef.current = undefined;
+      startNewSegment();
+      updateStatus("recording");
+    }
+  }, []);
+
+  const stop = useCallback((): ActivityRoute => {
+    stopWatching();
+    updateStatus("stopped");
+
+    const finalRoute = {
+      segments: routeRef.current.segments.filter(segment => segment.length > 0),
+    };
+    commitRoute(finalRoute);
+    return finalRoute;
+  }, []);
+
+  const reset = useCallback(() => {
+    stopWatching();
+    lastIdlePointRef.current = undefined;
+    commitRoute({ segments: [] });
+    updateStatus("idle");
+  }, []);
+
+  // Make sure the GPS watcher never outlives the screen
+  useEffect(() => {
+    return () => stopWatching();
+  }, []);
+
+  return {
+    status,
+    route,
+    distance,
+    movingTime,
+    error,
+    start,
+    pause,
+    resume,
+    stop,
+    reset,
+  };
+}
@@ -0,0 +1,206 @@
+import type { OpenFoodFactsProduct } from "@/utils/foodDatabase";
+
+// Packaged foods bundled with the app so common barcodes resolve offline.
+// Same shape as an Open Food Facts export; nutriments are per 100g.
+export const foodProducts: OpenFoodFactsProduct[] = [
+  {
+    code: "3017620422003",
+    product_name: "Nutella",
+    brands: "Ferrero",
+    serving_size: "15 g",
+    serving_quantity: 15,
+    nutriments: { "energy-kcal_100g": 539, proteins_100g: 6.3, carbohydrates_100g: 57.5, fat_100g: 30.9, fiber_100g: 0, sugars_100g: 56.3, sodium_100g: 0.043, "saturated-fat_100g": 10.6 }
+  },
+  {
+    code: "5449000000996",
+    product_name: "Coca-Cola Original Taste",
+    brands: "Coca-Cola",
+    serving_size: "330 ml",
+    serving_quantity: 330,
+    nutriments: { "energy-kcal_100g": 42, proteins_100g: 0, carbohydrates_100g: 10.6, fat_100g: 0, fiber_100g: 0, sugars_100g: 10.6, sodium_100g: 0 }
+  },
+  {
+    code: "5449000131805",
+    product_name: "Coca-Cola Zero Sugar",
+    brands: "Coca-Cola",
+    serving_size: "330 ml",
+    serving_quantity: 330,
+    nutriments: { "energy-kcal_100g": 0.2, proteins_100g: 0, carbohydrates_100g: 0, fat_100g: 0, fiber_100g: 0, sugars_100g: 0, sodium_100g: 0.008 }
+  },
+  {
+    code: "7622210449283",
+    product_name: "Oreo Original",
+    brands: "Oreo",
+    serving_size: "3 biscuits (34 g)",
+    serving_quantity: 34,
+    nutriments: { "energy-kcal_100g": 480, proteins_100g: 5, carbohydrates_100g: 69, fat_100g: 20, fiber_100g: 2.5, sugars_100g: 38, sodium_100g: 0.34, "saturated-fat_100g": 5 }
+  },
+  {
+    code: "5000159484695",
+    product_name: "Snickers",
+    brands: "Mars",
+    serving_size: "1 bar (50 g)",
+    serving_quantity: 50,
+    nutriments: { "energy-kcal_100g": 488, proteins_100g: 8.6, carbohydrates_100g: 59.5, fat_100g: 23.5, fiber_100g: 1.8, sugars_100g: 50.6, sodium_100g: 0.096, "saturated-fat_100g": 8.5 }
+  },
+  {
+    code: "3175681851849",
+    product_name: "Petit Brun Extra",
+    brands: "LU",
+    serving_size: "4 biscuits (33 g)",
+    serving_quantity: 33,
+    nutriments: { "energy-kcal_100g": 440, proteins_100g: 7.5, carbohydrates_100g: 74, fat_100g: 12, fiber_100g: 2.4, sugars_100g: 24, sodium_100g: 0.24 }
+  },
+  {
+    code: "5010029000016",
+    product_name: "Weetabix Original",
+    brands: "Weetabix",
+    serving_size: "2 biscuits (37.5 g)",
+    serving_quantity: 37.5,
+    nutriments: { "energy-kcal_100g": 362, proteins_100g: 12, carbohydrates_100g: 69, fat_100g: 2, fiber_100g: 10, sugars_100g: 4.4, sodium_100g: 0.1 }
+  },
+  {
+    code: "0030000010402",
+    product_name: "Old Fashioned Oats",
+    brands: "Quaker",
+    serving_size: "1/2 cup (40 g)",
+    serving_quantity: 40,
+    nutriments: { "energy-kcal_100g": 375, proteins_100g: 12.5, carbohydrates_100g: 67.5, fat_100g: 7.5, fiber_100g: 10, sugars_100g: 2.5, sodium_100g: 0, "saturated-fat_100g": 1.3, iron_100g: 0.0043, magnesium_100g: 0.138, potassium_100g: 0.362 }
+  },
+  {
+    code: "0038000138416",
+    product_name: "Corn Flakes",
+    brands: "Kellogg's",
+    serving_size: "1 cup (28 g)",
+    serving_quantity: 28,
+    nutriments: { "energy-kcal_100g": 357, proteins_100g: 7.1, carbohydrates_100g: 85.7, fat_100g: 0, fiber_100g: 3.6, sugars_100g: 10.7, sodium_100g: 0.714 }
+  },
+  {
+    code: "0016000275287",
+    product_name: "Cheerios",
+    brands: "General Mills",
+    serving_size: "1.5 cups (39 g)",
+    serving_quantity: 39,
+    nutriments: { "energy-kcal_100g": 359, proteins_100g: 12.8, carbohydrates_100g: 74.4, fat_100g: 6.4, fiber_100g: 10.3, sugars_100g: 5.1, sodium_100g: 0.487 }
+  },
+  {
+    code: "0051500255162",
+    product_name: "Creamy Peanut Butter",
+    brands: "Jif",
+    serving_size: "2 tbsp (32 g)",
+    serving_quantity: 32,
+    nutriments: { "energy-kcal_100g": 594, proteins_100g: 21.9, carbohydrates_100g: 25, fat_100g: 50, fiber_100g: 6.3, sugars_100g: 9.4, sodium_100g: 0.438 }
+  },
+  {
+    code: "0818290014016",
+    product_name: "Greek Nonfat Yogurt Plain",
+    brands: "Chobani",
+    serving_size: "1 cup (227 g)",
+    serving_quantity: 227,
+    nutriments: { "energy-kcal_100g": 57, proteins_100g: 10.1, carbohydrates_100g: 2.6, fat_100g: 0, fiber_100g: 0, sugars_100g: 2.6, sodium_100g: 0.035, "saturated-fat_100g": 0, calcium_100g: 0.11, potassium_100g: 0.141, "vitamin-b12_100g": 0.00000075 }
+  },
+  {
+    code: "0722252100900",
+    product_name: "Clif Bar Chocolate Chip",
+    brands: "Clif Bar",
+    serving_size: "1 bar (68 g)",
+    serving_quantity: 68,
+    nutriments: { "energy-kcal_100g": 368, proteins_100g: 14.7, carbohydrates_100g: 64.7, fat_100g: 7.4, fiber_100g: 5.9, sugars_100g: 25, sodium_100g: 0.206 }
+  },
+  {
+    code: "0748927022193",
+    product_name: "Gold Standard 100% Whey Double Rich Chocolate",
+    brands: "Optimum Nutrition",
+    serving_size: "1 scoop (31 g)",
+    serving_quantity: 31,
+    nutriments: { "energy-kcal_100g": 387, proteins_100g: 77.4, carbohydrates_100g: 9.7, fat_100g: 4.8, fiber_100g: 3.2, sugars_100g: 3.2, sodium_100g: 0.419 }
+  },
+  {
+    code: "0028400090858",
+    product_name: "Lay's Classic Potato Chips",
+    brands: "Lay's",
+    serving_size: "1 oz (28 g)",
+    serving_quantity: 28,
+    nutriments: { "energy-kcal_100g": 536, proteins_100g: 7.1, carbohydrates_100g: 53.6, fat_100g: 35.7, fiber_100g: 3.6, sugars_100g: 0, sodium_100g: 0.607, "saturated-fat_100g": 5.4 }
+  },
+  {
+    code: "0041196910759",
+    product_name: "Barilla Spaghetti",
+    brands: "Barilla",
+    serving_size: "2 oz (56 g)",
+    serving_quantity: 56,
+    nutriments: { "energy-kcal_100g": 357, proteins_100g: 12.5, carbohydrates_100g: 75, fat_100g: 1.8, fiber_100g: 5.4, sugars_100g: 3.6, sodium_100g: 0 }
+  },
+  {
+    code: "8076800195057",
+    product_name: "Spaghetti n.5",
+    brands: "Barilla",
+    serving_size: "80 g",
+    serving_quantity: 80,
+    nutriments: { "energy-kcal_100g": 359, proteins_100g: 12, carbohydrates_100g: 71, fat_100g: 2, fiber_100g: 3, sugars_100g: 3.5, sodium_100g: 0.004 }
+  },
+  {
+    code: "0049000028904",
+    product_name: "Diet Coke",
+    brands: "Coca-Cola",
+    serving_size: "12 fl oz (355 ml)",
+    serving_quantity: 355,
+    nutriments: { "energy-kcal_100g": 0, proteins_100g: 0, carbohydrates_100g: 0, fat_100g: 0, fiber_100g: 0, sugars_100g: 0, sodium_100g: 0.011 }
+  },
+  {
+    code: "0012000161155",
+    product_name: "Gatorade Thirst Quencher Lemon-Lime",
+    brands: "Gatorade",
+    serving_size: "20 fl oz (591 ml)",
+    serving_quantity: 591,
+    nutriments: { "energy-kcal_100g": 24, proteins_100g: 0, carbohydrates_100g: 5.9, fat_100g: 0, fiber_100g: 0, sugars_100g: 5.9, sodium_100g: 0.046 }
+  },
+  {
+    code: "0070470003023",
+    product_name: "Original Strawberry Yogurt",
+    brands: "Yoplait",
+    serving_size: "1 container (170 g)",
+    serving_quantity: 170,
+    nutriments: { "energy-kcal_100g": 88, proteins_100g: 3.5, carbohydrates_100g: 15.9, fat_100g: 1.2, fiber_100g: 0, sugars_100g: 10.6, sodium_100g: 0.053 }
+  },
+  {
+    code: "0072250011372",
+    product_name: "100% Whole Wheat Bread",
+    brands: "Nature's Own",
+    serving_size: "1 slice (26 g)",
+    serving_quantity: 26,
+    nutriments: { "energy-kcal_100g": 231, proteins_100g: 15.4, carbohydrates_100g: 42.3, fat_100g: 1.9, fiber_100g: 7.7, sugars_100g: 3.8, sodium_100g: 0.423 }
+  },
+  {
+    code: "0041331124089",
+    product_name: "Black Beans",
+    brands: "Goya",
+    serving_size: "1/2 cup (130 g)",
+    serving_quantity: 130,
+    nutriments: { "energy-kcal_100g": 69, proteins_100g: 5.4, carbohydrates_100g: 14.6, fat_100g: 0, fiber_100g: 6.2, sugars_100g: 0, sodium_100g: 0.354, potassium_100g: 0.37, iron_100g: 0.0015, magnesium_100g: 0.042, folates_100g: 0.000105 }
+  },
+  {
+    code: "0048000007810",
+    product_name: "Chunk Light Tuna in Water",
+    brands: "Chicken of the Sea",
+    serving_size: "1 can drained (113 g)",
+    serving_quantity: 113,
+    nutriments: { "energy-kcal_100g": 88, proteins_100g: 19.5, carbohydrates_100g: 0, fat_100g: 0.9, fiber_100g: 0, sugars_100g: 0, sodium_100g: 0.31, "saturated-fat_100g": 0.2, potassium_100g: 0.2, "vitamin-b12_100g": 0.0000025, "vitamin-d_100g": 0.0000017 }
+  },
+  {
+    code: "0021130126026",
+    product_name: "Large Grade AA Eggs",
+    brands: "Lucerne",
+    serving_size: "1 egg (50 g)",
+    serving_quantity: 50,
+    nutriments: { "energy-kcal_100g": 140, proteins_100g: 12, carbohydrates_100g: 0, fat_100g: 10, fiber_100g: 0, sugars_100g: 0, sodium_100g: 0.14, "saturated-fat_100g": 3.3, "vitamin-d_100g": 0.000002, "vitamin-b12_100g": 0.0000009, "vitamin-a_100g": 0.00016 }
+  },
+  {
+    code: "0025293600232",
+    product_name: "Unsweetened Almond Milk",
+    brands: "Silk",
+    serving_size: "1 cup (240 ml)",
+    serving_quantity: 240,
+    nutriments: { "energy-kcal_100g": 12.5, proteins_100g: 0.4, carbohydrates_100g: 0.4, fat_100g: 1, fiber_100g: 0.4, sugars_100g: 0, sodium_100g: 0.071, "saturated-fat_100g": 0, calcium_100g: 0.188, "vitamin-d_100g": 0.000001, potassium_100g: 0.07 }
+  }
+];
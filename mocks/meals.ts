@@ -23,6 +23,7 @@ export const mealRecommendations: MealRecommendation[] = [
     prepTime: 5,
     cookTime: 0,
     dietaryRestrictions: ["gluten-free"],
+    mealTypes: ["breakfast", "snack"],
     imageUrl: "https://images.unsplash.com/photo-1488477181946-6428a0291777?ixlib=rb-1.2.1&auto=format&fit=crop&w=500&q=60"
   },
   {
@@ -157,6 +158,7 @@ export const mealRecommendations: MealRecommendation[] = [
     prepTime: 5,
     cookTime: 0,
     dietaryRestrictions: ["vegan", "lactose-free"],
+    mealTypes: ["breakfast", "snack"],
     imageUrl: "https://images.unsplash.com/photo-1511690656952-34342bb7c2f2?ixlib=rb-1.2.1&auto=format&fit=crop&w=500&q=60"
   },
   {
@@ -0,0 +1,145 @@
+import { PlannedExercise, PlannedSet, ProgramWeek, TrainingProgram } from "@/types";
+
+// Exercise ids from mocks/exercises
+const BENCH_PRESS = "ex1";
+const SQUAT = "ex2";
+const DEADLIFT = "ex3";
+const SHOULDER_PRESS = "ex6";
+const INCLINE_DUMBBELL_PRESS = "ex13";
+const LEG_PRESS = "ex15";
+const ROMANIAN_DEADLIFT = "ex16";
+const LEG_CURL = "ex18";
+const LAT_PULLDOWN = "ex19";
+const SEATED_CABLE_ROW = "ex20";
+const BARBELL_ROW = "ex21";
+const LATERAL_RAISE = "ex25";
+const FACE_PULL = "ex27";
+const BICEP_CURL = "ex32";
+const TRICEP_PUSHDOWN = "ex33";
+const CALF_RAISE = "ex105";
+
+const repeatSets = (count: number, set: PlannedSet): PlannedSet[] =>
+  Array.from({ length: count }, () => ({ ...set }));
+
+// 5/3/1 main-lift percentages of the training max for each week of a cycle
+const WENDLER_WEEKS: { name: string; sets: [number, number][]; isDeload?: boolean }[] = [
+  { name: "5s Week", sets: [[0.65, 5], [0.75, 5], [0.85, 5]] },
+  { name: "3s Week", sets: [[0.7, 3], [0.8, 3], [0.9, 3]] },
+  { name: "5/3/1 Week", sets: [[0.75, 5], [0.85, 3], [0.95, 1]] },
+  { name: "Deload", sets: [[0.4, 5], [0.5, 5], [0.6, 5]], isDeload: true },
+];
+
+const wendlerLift = (exerciseId: string, week: typeof WENDLER_WEEKS[number]): PlannedExercise[] => {
+  const mainSets: PlannedSet[] = week.sets.map(([percent1RM, reps], index) => ({
+    reps,
+    percent1RM,
+    // The last working set is taken for as many reps as possible, except when deloading
+    amrap: !week.isDeload && index === week.sets.length - 1,
+    restTime: 180,
+  }));
+
+  // "Boring But Big" supplemental volume, dropped on the deload week
+  const supplemental: PlannedExercise[] = week.isDeload
+    ? []
+    : [{
+        exerciseId,
+        sets: repeatSets(5, { reps: 10, percent1RM: 0.5, restTime: 90 }),
+        notes: "Boring But Big: 5 x 10",
+      }];
+
+  return [{ exerciseId, sets: mainSets }, ...supplemental];
+};
+
+const wendlerWeeks: ProgramWeek[] = WENDLER_WEEKS.map(week => ({
+  name: week.name,
+  isDeload: week.isDeload,
+  days: [
+    { name: "5/3/1 Press Day", exercises: [...wendlerLift(SHOULDER_PRESS, week), { exerciseId: BARBELL_ROW, sets: repeatSets(3, { reps: 10 }) }] },
+    { name: "5/3/1 Deadlift Day", exercises: [...wendlerLift(DEADLIFT, week), { exerciseId: LEG_CURL, sets: repeatSets(3, { reps: 12 }) }] },
+    { name: "5/3/1 Bench Day", exercises: [...wendlerLift(BENCH_PRESS, week), { exerciseId: LAT_PULLDOWN, sets: repeatSets(3, { reps: 10 }) }] },
+    { name: "5/3/1 Squat Day", exercises: [...wendlerLift(SQUAT, week), { exerciseId: ROMANIAN_DEADLIFT, sets: repeatSets(3, { reps: 10 }) }] },
+  ],
+}));
+
+// Push/pull/legs week at a given RPE. Deload weeks cut the volume as well.
+const pplWeek = (name: string, rpe: number, isDeload = false): ProgramWeek => {
+  const sets = (count: number) => isDeload ? Math.max(count - 1, 2) : count;
+  const accessoryRpe = Math.min(rpe + 0.5, 10);
+
+  return {
+    name,
+    isDeload,
+    days: [
+      {
+        name: "PPL Push Day",
+        exercises: [
+          { exerciseId: BENCH_PRESS, sets: repeatSets(sets(4), { reps: 8, rpe, restTime: 150 }) },
+          { exerciseId: INCLINE_DUMBBELL_PRESS, sets: repeatSets(sets(3), { reps: 10, rpe: accessoryRpe }) },
+          { exerciseId: SHOULDER_PRESS, sets: repeatSets(sets(3), { reps: 10, rpe: accessoryRpe }) },
+          { exerciseId: LATERAL_RAISE, sets: repeatSets(sets(3), { reps: 15, rpe: accessoryRpe, restTime: 60 }) },
+          { exerciseId: TRICEP_PUSHDOWN, sets: repeatSets(sets(3), { reps: 12, rpe: accessoryRpe, restTime: 60 }) },
+        ],
+      },
+      {
+        name: "PPL Pull Day",
+        exercises: [
+          { exerciseId: BARBELL_ROW, sets: repeatSets(sets(4), { reps: 8, rpe, restTime: 150 }) },
+          { exerciseId: LAT_PULLDOWN, sets: repeatSets(sets(3), { reps: 10, rpe: accessoryRpe }) },
+          { exerciseId: SEATED_CABLE_ROW, sets: repeatSets(sets(3), { reps: 10, rpe: accessoryRpe }) },
+          { exerciseId: FACE_PULL, sets: repeatSets(sets(3), { reps: 15, rpe: accessoryRpe, restTime: 60 }) },
+          { exerciseId: BICEP_CURL, sets: repeatSets(sets(3), { reps: 12, rpe: accessoryRpe, restTime: 60 }) },
+        ],
+      },
+      {
+        name: "PPL Leg Day",
+        exercises: [
+          { exerciseId: SQUAT, sets: repeatSets(sets(4), { reps: 6, rpe, restTime: 180 }) },
+          { exerciseId: ROMANIAN_DEADLIFT, sets: repeatSets(sets(3), { reps: 8, rpe, restTime: 150 }) },
+          { exerciseId: LEG_PRESS, sets: repeatSets(sets(3), { reps: 10, rpe: accessoryRpe }) },
+          { exerciseId: LEG_CURL, sets: repeatSets(sets(3), { reps: 12, rpe: accessoryRpe, restTime: 60 }) },
+          { exerciseId: CALF_RAISE, sets: repeatSets(sets(3), { reps: 15, rpe: accessoryRpe, restTime: 60 }) },
+        ],
+      },
+    ],
+  };
+};
+
+export const trainingPrograms: TrainingProgram[] = [
+  {
+    id: "program-531",
+    name: "5/3/1 Boring But Big",
+    description: "Jim Wendler's four-day strength program. Each main lift works up to a top set for as many reps as possible, followed by 5x10 supplemental volume. The fourth week is a deload.",
+    difficulty: "intermediate",
+    daysPerWeek: 4,
+    mainLifts: [SHOULDER_PRESS, DEADLIFT, BENCH_PRESS, SQUAT],
+    trainingMaxPercent: 0.9,
+    phases: [
+      { name: "Cycle 1", goal: "Strength", weeks: wendlerWeeks },
+    ],
+  },
+  {
+    id: "program-ppl-hypertrophy",
+    name: "Push Pull Legs Hypertrophy Block",
+    description: "A six-week, three-day push/pull/legs block. Effort builds from RPE 7 to RPE 9 across two mesocycles before a deload week.",
+    difficulty: "intermediate",
+    daysPerWeek: 3,
+    mainLifts: [BENCH_PRESS, BARBELL_ROW, SQUAT, ROMANIAN_DEADLIFT],
+    phases: [
+      {
+        name: "Accumulation",
+        goal: "Build volume at moderate effort",
+        weeks: [pplWeek("Week 1", 7), pplWeek("Week 2", 7.5)],
+      },
+      {
+        name: "Intensification",
+        goal: "Push closer to failure",
+        weeks: [pplWeek("Week 3", 8), pplWeek("Week 4", 8.5), pplWeek("Week 5", 9)],
+      },
+      {
+        name: "Deload",
+        goal: "Recover before the next block",
+        weeks: [pplWeek("Week 6", 6, true)],
+      },
+    ],
+  },
+];
@@ -0,0 +1,519 @@
+export type AIRole = 'system' | 'user' | 'assistant';
+
+export type AIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: string }; // base64 encoded, without a data URL prefix
+
+export interface AIMessage {
+  role: AIRole;
+  content: string | AIContentPart[];
+}
+
+export interface AIRequestOptions {
+  timeoutMs?: number;
+  // Attempts after the first one; only timeouts, network errors, 429s and 5xx are retried
+  retries?: number;
+  temperature?: number;
+  // Ask the provider for a JSON reply where it supports that
+  json?: boolean;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  complete(messages: AIMessage[], options: AIRequestOptions): Promise<string>;
+  // Providers without streaming get the whole reply as a single chunk
+  stream?(messages: AIMessage[], onChunk: (chunk: string) => void, options: AIRequestOptions): Promise<string>;
+}
+
+export type AIErrorKind = 'timeout' | 'network' | 'http' | 'invalid_response';
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+
+  constructor(kind: AIErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    if (this.kind === 'timeout' || this.kind === 'network') return true;
+    return this.kind === 'http' && !!this.status && (this.status === 429 || this.status >= 500);
+  }
+}
+
+export type AIFieldType = 'string' | 'number' | 'boolean' | 'string[]';
+
+/**
+ * Shape of a structured reply. Replies are checked against it and numeric
+ * strings are accepted for number fields.
+ */
+export interface AISchema<T> {
+  name: string;
+  fields: { [K in keyof T]-?: { type: AIFieldType; required?: boolean; description?: string } };
+}
+
+export type AIProviderType = 'hosted' | 'openai' | 'offline';
+
+// No API key here: anything in the client config ships inside the app bundle,
+// so provider credentials stay on the gateway the app talks to
+export interface AIProviderConfig {
+  type: AIProviderType;
+  baseUrl?: string;
+  model?: string;
+}
+
+const HOSTED_URL = 'https://toolkit.rork.com/text/llm/';
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const RETRY_DELAY_MS = 500;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getText = (content: AIMessage['content']): string =>
+  typeof content === 'string'
+    ? content
+    : content.map(part => (part.type === 'text' ? part.text : '')).join(' ');
+
+const fetchWithTimeout = async (url: string, init: RequestInit, timeoutMs: number): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      throw new AIError('http', `AI request failed with status ${response.status}`, response.status);
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof AIError) throw error;
+    if (controller.signal.aborted) throw new AIError('timeout', `AI request timed out after ${timeoutMs}ms`);
+    throw new AIError('network', error instanceof Error ? error.message : 'Network request failed');
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Server-sent events over XMLHttpRequest, since fetch in React Native cannot
+ * read a response body as it arrives. `idleTimeoutMs` limits the wait for the
+ * next piece of the reply, not the whole reply, so long answers aren't cut off.
+ */
+const streamServerSentEvents = (
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  onData: (data: string) => void,
+  idleTimeoutMs: number
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let processed = 0;
+    let buffer = '';
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearIdleTimer = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = null;
+    };
+
+    const resetIdleTimer = () => {
+      clearIdleTimer();
+      idleTimer = setTimeout(() => {
+        xhr.abort();
+        reject(new AIError('timeout', `AI stream received nothing for ${idleTimeoutMs}ms`));
+      }, idleTimeoutMs);
+    };
+
+    const flush = () => {
+      buffer += xhr.responseText.slice(processed);
+      processed = xhr.responseText.length;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(line => {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) onData(trimmed.slice(5).trim());
+      });
+    };
+
+    xhr.open('POST', url);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    xhr.onprogress = () => {
+      resetIdleTimer();
+      flush();
+    };
+    xhr.onload = () => {
+      clearIdleTimer();
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new AIError('http', `AI request failed with status ${xhr.status}`, xhr.status));
+        return;
+      }
+      flush();
+      if (buffer.trim().startsWith('data:')) onData(buffer.trim().slice(5).trim());
+      resolve();
+    };
+    xhr.onerror = () => {
+      clearIdleTimer();
+      reject(new AIError('network', 'Network request failed'));
+    };
+    resetIdleTimer();
+    xhr.send(body);
+  });
+};
+
+/**
+ * The toolkit endpoint the app shipped with: `{ messages }` in, `{ completion }` out
+ */
+export class HostedProvider implements AIProvider {
+  readonly name = 'hosted';
+
+  constructor(private url: string = HOSTED_URL) {}
+
+  async complete(messages: AIMessage[], options: AIRequestOptions): Promise<string> {
+    const response = await fetchWithTimeout(
+      this.url,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messages }),
+      },
+      options.timeoutMs || DEFAULT_TIMEOUT_MS
+    );
+
+    const data = await response.json();
+    if (typeof data.completion === 'string') return data.completion;
+    // Some replies come back already parsed
+    if (data.completion && typeof data.completion === 'object') return JSON.stringify(data.completion);
+    throw new AIError('invalid_response', 'AI response did not include a completion');
+  }
+}
+
+/**
+ * Any gateway speaking the OpenAI chat completions API. The gateway, not the
+ * app, authenticates with the model provider.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai';
+
+  constructor(private config: { baseUrl: string; model: string }) {}
+
+  private get url(): string {
+    return `${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`;
+  }
+
+  private get headers(): Record<string, string> {
+    return { 'Content-Type': 'application/json' };
+  }
+
+  private toOpenAIMessages(messages: AIMessage[]) {
+    return messages.map(message => ({
+      role: message.role,
+      content: typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${part.image}` } }),
+    }));
+  }
+
+  private buildBody(messages: AIMessage[], options: AIRequestOptions, stream: boolean): string {
+    return JSON.stringify({
+      model: this.config.model,
+      messages: this.toOpenAIMessages(messages),
+      temperature: options.temperature,
+      response_format: options.json ? { type: 'json_object' } : undefined,
+      stream,
+    });
+  }
+
+  async complete(messages: AIMessage[], options: AIRequestOptions): Promise<string> {
+    const response = await fetchWithTimeout(
+      this.url,
+      { method: 'POST', headers: this.headers, body: this.buildBody(messages, options, false) },
+      options.timeoutMs || DEFAULT_TIMEOUT_MS
+    );
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new AIError('invalid_response', 'AI response did not include a message');
+    }
+    return content;
+  }
+
+  async stream(messages: AIMessage[], onChunk: (chunk: string) => void, options: AIRequestOptions): Promise<string> {
+    let text = '';
+    await streamServerSentEvents(
+      this.url,
+      this.headers,
+      this.buildBody(messages, options, true),
+      data => {
+        if (data === '[DONE]') return;
+        try {
+          const chunk = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (typeof chunk === 'string' && chunk.length > 0) {
+            text += chunk;
+            onChunk(chunk);
+          }
+        } catch (error) {
+          console.error('[AIService] Skipping malformed stream event:', error);
+        }
+      },
+      options.timeoutMs || DEFAULT_TIMEOUT_MS
+    );
+    return text;
+  }
+}
+
+export type OfflineResponder = (messages: AIMessage[], options: AIRequestOptions) => string | Promise<string>;
+
+const OFFLINE_REPLIES: { keywords: string[]; reply: string }[] = [
+  {
+    keywords: ['workout', 'exercise', 'train', 'gym'],
+    reply: "I can't reach the AI coach right now, but your workout history and programs are all available offline. Consistency beats intensity: aim to train a little more often rather than a lot harder.",
+  },
+  {
+    keywords: ['protein', 'calorie', 'eat', 'food', 'meal', 'diet', 'macro'],
+    reply: "I can't reach the AI coach right now. A solid default is around 1.6g of protein per kg of bodyweight and mostly whole foods. Your macro goals are in the nutrition tab.",
+  },
+  {
+    keywords: ['water', 'hydrat', 'drink'],
+    reply: "I can't reach the AI coach right now. Try to drink water steadily through the day, and a bit more on training days.",
+  },
+  {
+    keywords: ['sleep', 'rest', 'recover', 'sore'],
+    reply: "I can't reach the AI coach right now. Most people recover best on 7-9 hours of sleep, with easy movement on rest days.",
+  },
+];
+
+const OFFLINE_DEFAULT_REPLY = "I can't reach the AI coach right now. Your data is safe and everything else in the app works offline - try again once you're connected.";
+
+/**
+ * Rule-based stand-in for offline use and tests. JSON requests get an empty
+ * object for the schema to reject, so callers fall back to manual entry
+ * instead of trusting invented numbers.
+ */
+export class OfflineProvider implements AIProvider {
+  readonly name = 'offline';
+
+  constructor(private responder?: OfflineResponder) {}
+
+  async complete(messages: AIMessage[], options: AIRequestOptions): Promise<string> {
+    if (this.responder) return this.responder(messages, options);
+    if (options.json) return '{}';
+
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+    const text = lastUserMessage ? getText(lastUserMessage.content).toLowerCase() : '';
+    const match = OFFLINE_REPLIES.find(rule => rule.keywords.some(keyword => text.includes(keyword)));
+    return match ? match.reply : OFFLINE_DEFAULT_REPLY;
+  }
+}
+
+export const createAIProvider = (config: AIProviderConfig): AIProvider => {
+  switch (config.type) {
+    case 'openai':
+      if (!config.baseUrl || !config.model) {
+        console.error('[AIService] OpenAI-compatible provider needs a base URL and model, using the hosted provider');
+        return new HostedProvider();
+      }
+      return new OpenAICompatibleProvider({ baseUrl: config.baseUrl, model: config.model });
+    case 'offline':
+      return new OfflineProvider();
+    default:
+      return new HostedProvider(config.baseUrl || HOSTED_URL);
+  }
+};
+
+// Builds can point at their own gateway through EXPO_PUBLIC_AI_* variables
+const getDefaultProviderConfig = (): AIProviderConfig => ({
+  type: (process.env.EXPO_PUBLIC_AI_PROVIDER as AIProviderType) || 'hosted',
+  baseUrl: process.env.EXPO_PUBLIC_AI_BASE_URL,
+  model: process.env.EXPO_PUBLIC_AI_MODEL,
+});
+
+/**
+ * The first JSON object or array in a reply, ignoring code fences and any
+ * text around it
+ */
+export const extractJSON = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const source = fenced ? fenced[1] : text;
+  const start = source.search(/[{[]/);
+  if (start === -1) return null;
+
+  const open = source[start];
+  const close = open === '{' ? '}' : ']';
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      try {
+        return JSON.parse(source.slice(start, i + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+};
+
+export const validateStructuredOutput = <T>(schema: AISchema<T>, value: unknown): T | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const input = value as Record<string, unknown>;
+  const output: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries(schema.fields) as [string, AISchema<T>['fields'][keyof T]][]) {
+    const raw = input[key];
+    if (raw === undefined || raw === null) {
+      if (field.required) return null;
+      continue;
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const number = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseFloat(raw) : NaN;
+        if (!Number.isFinite(number)) return null;
+        output[key] = number;
+        break;
+      }
+      case 'string':
+        if (typeof raw !== 'string' || (field.required && raw.trim() === '')) return null;
+        output[key] = raw;
+        break;
+      case 'boolean':
+        if (typeof raw !== 'boolean') return null;
+        output[key] = raw;
+        break;
+      case 'string[]':
+        if (!Array.isArray(raw)) return null;
+        output[key] = raw.map(item => String(item));
+        break;
+    }
+  }
+
+  return output as T;
+};
+
+export const describeSchema = <T>(schema: AISchema<T>): string => {
+  const fields = (Object.entries(schema.fields) as [string, AISchema<T>['fields'][keyof T]][])
+    .map(([key, field]) =>
+      `- ${key} (${field.type}${field.required ? ', required' : ''})${field.description ? `: ${field.description}` : ''}`
+    )
+    .join('\n');
+  return `Respond with only a JSON object with these fields:\n${fields}`;
+};
+
+export class AIService {
+  private static instance: AIService;
+  private provider: AIProvider;
+
+  private constructor() {
+    this.provider = createAIProvider(getDefaultProviderConfig());
+  }
+
+  public static getInstance(): AIService {
+    if (!AIService.instance) {
+      AIService.instance = new AIService();
+    }
+    return AIService.instance;
+  }
+
+  getProvider(): AIProvider {
+    return this.provider;
+  }
+
+  // Swap the provider at runtime, e.g. an OfflineProvider in tests
+  setProvider(provider: AIProvider): void {
+    this.provider = provider;
+  }
+
+  configure(config: AIProviderConfig): void {
+    this.provider = createAIProvider(config);
+  }
+
+  private async withRetries<R>(request: () => Promise<R>, options: AIRequestOptions): Promise<R> {
+    const retries = options.retries ?? DEFAULT_RETRIES;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const retryable = error instanceof AIError && error.retryable;
+        if (!retryable || attempt >= retries) throw error;
+        console.warn(`[AIService] ${this.provider.name} request failed, retrying (${attempt + 1}/${retries}):`, error);
+        await delay(RETRY_DELAY_MS * Math.pow(2, attempt));
+      }
+    }
+  }
+
+  async complete(messages: AIMessage[], options: AIRequestOptions = {}): Promise<string> {
+    return this.withRetries(() => this.provider.complete(messages, options), options);
+  }
+
+  /**
+   * Streams the reply through `onChunk` and resolves with the full text.
+   * Only a request that failed before any text arrived is retried.
+   */
+  async stream(
+    messages: AIMessage[],
+    onChunk: (chunk: string) => void,
+    options: AIRequestOptions = {}
+  ): Promise<string> {
+    const provider = this.provider;
+    if (!provider.stream) {
+      const text = await this.complete(messages, options);
+      onChunk(text);
+      return text;
+    }
+
+    let received = false;
+    return this.withRetries(async () => {
+      try {
+        return await provider.stream!(messages, chunk => {
+          received = true;
+          onChunk(chunk);
+        }, options);
+      } catch (error) {
+        if (received && error instanceof AIError) {
+          throw new AIError('invalid_response', `Stream interrupted: ${error.message}`, error.status);
+        }
+        throw error;
+      }
+    }, options);
+  }
+
+  /**
+   * A reply checked against `schema`. Replies that don't match are retried
+   * once with a reminder of the expected shape before giving up.
+   */
+  async completeStructured<T>(messages: AIMessage[], schema: AISchema<T>, options: AIRequestOptions = {}): Promise<T> {
+    const request: AIMessage[] = [
+      ...messages,
+      { role: 'system', content: describeSchema(schema) },
+    ];
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const reply = await this.complete(request, { ...options, json: true });
+      const result = validateStructuredOutput(schema, extractJSON(reply));
+      if (result) return result;
+
+      console.warn(`[AIService] Reply did not match the ${schema.name} schema:`, reply);
+      request.push(
+        { role: 'assistant', content: reply },
+        { role: 'user', content: `That reply did not match the expected format. ${describeSchema(schema)}` }
+      );
+    }
+
+    throw new AIError('invalid_response', `AI reply did not match the ${schema.name} schema`);
+  }
+}
+
+export default AIService.getInstance();
@@ -0,0 +1,317 @@
+import { PermissionsAndroid, Platform } from 'react-native';
+import { BleManager, Device, State, Subscription } from 'react-native-ble-plx';
+import { base64ToBuffer } from '@/utils/encryption';
+
+// Standard Bluetooth SIG UUIDs for the Heart Rate and Battery services
+export const HEART_RATE_SERVICE_UUID = '0000180d-0000-1000-8000-00805f9b34fb';
+export const HEART_RATE_MEASUREMENT_UUID = '00002a37-0000-1000-8000-00805f9b34fb';
+export const BATTERY_SERVICE_UUID = '0000180f-0000-1000-8000-00805f9b34fb';
+export const BATTERY_LEVEL_UUID = '00002a19-0000-1000-8000-00805f9b34fb';
+
+const SCAN_TIMEOUT = 15000; // ms
+const CONNECT_TIMEOUT = 10000; // ms
+const POWER_ON_TIMEOUT = 5000; // ms
+
+export interface HeartRateMeasurement {
+  bpm: number;
+  // undefined when the strap does not report skin contact
+  sensorContact?: boolean;
+  energyExpended?: number; // kJ
+  rrIntervals: number[]; // ms
+  timestamp: number;
+}
+
+export interface DiscoveredHeartRateDevice {
+  id: string;
+  name: string;
+  rssi: number | null;
+}
+
+export interface ConnectedHeartRateDevice {
+  id: string;
+  name: string;
+  batteryLevel?: number;
+}
+
+// The subset of BleManager used here, so tests can pass in a mock
+export type HeartRateBleManager = Pick<
+  BleManager,
+  | 'state'
+  | 'onStateChange'
+  | 'startDeviceScan'
+  | 'stopDeviceScan'
+  | 'connectToDevice'
+  | 'cancelDeviceConnection'
+  | 'isDeviceConnected'
+  | 'discoverAllServicesAndCharacteristicsForDevice'
+  | 'readCharacteristicForDevice'
+  | 'monitorCharacteristicForDevice'
+  | 'onDeviceDisconnected'
+>;
+
+/**
+ * Decode a Heart Rate Measurement (0x2A37) characteristic value.
+ * Byte 0 holds the flags; the remaining fields are only present when flagged.
+ */
+export const parseHeartRateMeasurement = (
+  data: Uint8Array,
+  timestamp: number = Date.now()
+): HeartRateMeasurement | null => {
+  if (data.length < 2) return null;
+
+  const flags = data[0];
+  const isUint16 = (flags & 0x01) !== 0;
+  const contactSupported = (flags & 0x04) !== 0;
+  const hasEnergyExpended = (flags & 0x08) !== 0;
+  const hasRrIntervals = (flags & 0x10) !== 0;
+
+  let offset = 1;
+  const readUint16 = () => {
+    const value = data[offset] | (data[offset + 1] << 8);
+    offset += 2;
+    return value;
+  };
+
+  if (isUint16 && data.length < 3) return null;
+  const bpm = isUint16 ? readUint16() : data[offset++];
+
+  let energyExpended: number | undefined;
+  if (hasEnergyExpended && offset + 1 < data.length) {
+    energyExpended = readUint16();
+  }
+
+  const rrIntervals: number[] = [];
+  if (hasRrIntervals) {
+    while (offset + 1 < data.length) {
+      // RR intervals are sent in 1/1024 s units
+      rrIntervals.push(Math.round((readUint16() / 1024) * 1000));
+    }
+  }
+
+  return {
+    bpm,
+    sensorContact: contactSupported ? (flags & 0x02) !== 0 : undefined,
+    energyExpended,
+    rrIntervals,
+    timestamp,
+  };
+};
+
+/**
+ * Scans for, connects to and streams from BLE heart-rate straps
+ * that implement the standard Heart Rate Service.
+ */
+export class HeartRateMonitorService {
+  private manager: HeartRateBleManager | null = null;
+  private measurementSubscriptions = new Map<string, Subscription>();
+  private disconnectSubscriptions = new Map<string, Subscription>();
+
+  constructor(private createManager: () => HeartRateBleManager = () => new BleManager()) {}
+
+  static isSupported(): boolean {
+    return Platform.OS === 'ios' || Platform.OS === 'android';
+  }
+
+  // The native manager is created on first use so screens that never touch
+  // Bluetooth do not trigger the system permission prompt
+  private getManager(): HeartRateBleManager {
+    if (!this.manager) {
+      this.manager = this.createManager();
+    }
+    return this.manager;
+  }
+
+  /**
+   * Request the runtime permissions Android needs for scanning and connecting.
+   * iOS prompts on its own the first time the manager is used.
+   */
+  async requestPermissions(): Promise<boolean> {
+    if (Platform.OS !== 'android') return true;
+
+    try {
+      if (Platform.Version >= 31) {
+        const result = await PermissionsAndroid.requestMultiple([
+          PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+          PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+        ]);
+        return Object.values(result).every(status => status === PermissionsAndroid.RESULTS.GRANTED);
+      }
+
+      const status = await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION);
+      return status === PermissionsAndroid.RESULTS.GRANTED;
+    } catch (error) {
+      console.error('[HeartRateMonitorService] Error requesting Bluetooth permissions:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Resolve true once the Bluetooth adapter is powered on, false if it stays off
+   */
+  async waitForPoweredOn(timeout: number = POWER_ON_TIMEOUT): Promise<boolean> {
+    const manager = this.getManager();
+    if ((await manager.state()) === State.PoweredOn) return true;
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        subscription.remove();
+        resolve(false);
+      }, timeout);
+
+      const subscription = manager.onStateChange(state => {
+        if (state === State.PoweredOn) {
+          clearTimeout(timer);
+          subscription.remove();
+          resolve(true);
+        }
+      }, true);
+    });
+  }
+
+  /**
+   * Scan for straps advertising the Heart Rate Service. Each device is reported once.
+   * Returns a function that stops the scan early.
+   */
+  startScan(
+    onDeviceFound: (device: DiscoveredHeartRateDevice) => void,
+    onError?: (message: string) => void,
+    timeout: number = SCAN_TIMEOUT
+  ): () => void {
+    const manager = this.getManager();
+    const seen = new Set<string>();
+
+    const stop = () => {
+      clearTimeout(timer);
+      manager.stopDeviceScan();
+    };
+    const timer = setTimeout(stop, timeout);
+
+    manager.startDeviceScan([HEART_RATE_SERVICE_UUID], { allowDuplicates: false }, (error, device) => {
+      if (error) {
+        console.error('[HeartRateMonitorService] Scan error:', error);
+        onError?.(error.message);
+        stop();
+        return;
+      }
+      if (!device || seen.has(device.id)) return;
+
+      seen.add(device.id);
+      onDeviceFound({
+        id: device.id,
+        name: device.name || device.localName || 'Heart Rate Monitor',
+        rssi: device.rssi,
+      });
+    });
+
+    return stop;
+  }
+
+  private async readBatteryLevel(deviceId: string): Promise<number | undefined> {
+    try {
+      const characteristic = await this.getManager().readCharacteristicForDevice(
+        deviceId,
+        BATTERY_SERVICE_UUID,
+        BATTERY_LEVEL_UUID
+      );
+      return characteristic.value ? base64ToBuffer(characteristic.value)[0] : undefined;
+    } catch {
+      // The Battery Service is optional on heart-rate straps
+      return undefined;
+    }
+  }
+
+  /**
+   * Connect to a strap and discover its services. Returns null on failure.
+   */
+  async connect(
+    deviceId: string,
+    onDisconnected?: (deviceId: string) => void
+  ): Promise<ConnectedHeartRateDevice | null> {
+    const manager = this.getManager();
+
+    try {
+      let device: Device;
+      if (await manager.isDeviceConnected(deviceId)) {
+        device = await manager.discoverAllServicesAndCharacteristicsForDevice(deviceId);
+      } else {
+        await manager.connectToDevice(deviceId, { timeout: CONNECT_TIMEOUT });
+        device = await manager.discoverAllServicesAndCharacteristicsForDevice(deviceId);
+      }
+
+      this.disconnectSubscriptions.get(deviceId)?.remove();
+      this.disconnectSubscriptions.set(deviceId, manager.onDeviceDisconnected(deviceId, () => {
+        this.cleanup(deviceId);
+        onDisconnected?.(deviceId);
+      }));
+
+      return {
+        id: device.id,
+        name: device.name || device.localName || 'Heart Rate Monitor',
+        batteryLevel: await this.readBatteryLevel(deviceId),
+      };
+    } catch (error) {
+      console.error('[HeartRateMonitorService] Failed to connect:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Subscribe to heart-rate notifications. Returns an unsubscribe function.
+   */
+  startHeartRateStream(
+    deviceId: string,
+    onMeasurement: (measurement: HeartRateMeasurement) => void,
+    onError?: (message: string) => void
+  ): () => void {
+    this.measurementSubscriptions.get(deviceId)?.remove();
+
+    const subscription = this.getManager().monitorCharacteristicForDevice(
+      deviceId,
+      HEART_RATE_SERVICE_UUID,
+      HEART_RATE_MEASUREMENT_UUID,
+      (error, characteristic) => {
+        if (error) {
+          console.error('[HeartRateMonitorService] Heart rate stream error:', error);
+          onError?.(error.message);
+          return;
+        }
+        if (!characteristic?.value) return;
+
+        const measurement = parseHeartRateMeasurement(base64ToBuffer(characteristic.value));
+        // Zero readings are sent while the strap has no skin contact
+        if (measurement && measurement.bpm > 0 && measurement.sensorContact !== false) {
+          onMeasurement(measurement);
+        }
+      }
+    );
+    this.measurementSubscriptions.set(deviceId, subscription);
+
+    return () => {
+      subscription.remove();
+      if (this.measurementSubscriptions.get(deviceId) === subscription) {
+        this.measurementSubscriptions.delete(deviceId);
+      }
+    };
+  }
+
+  private cleanup(deviceId: string) {
+    this.measurementSubscriptions.get(deviceId)?.remove();
+    this.measurementSubscriptions.delete(deviceId);
+    this.disconnectSubscriptions.get(deviceId)?.remove();
+    this.disconnectSubscriptions.delete(deviceId);
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    this.cleanup(deviceId);
+    try {
+      if (await this.getManager().isDeviceConnected(deviceId)) {
+        await this.getManager().cancelDeviceConnection(deviceId);
+      }
+    } catch (error) {
+      console.error('[HeartRateMonitorService] Failed to disconnect:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export default new HeartRateMonitorService();
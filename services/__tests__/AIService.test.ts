@@ -0,0 +1,288 @@
+import aiService, {
+  AIError,
+  AIMessage,
+  AIProvider,
+  AISchema,
+  HostedProvider,
+  OfflineProvider,
+  OpenAICompatibleProvider,
+  createAIProvider,
+  extractJSON,
+  validateStructuredOutput,
+} from "../AIService";
+
+interface MealEstimate {
+  name: string;
+  calories: number;
+  tags?: string[];
+}
+
+const mealSchema: AISchema<MealEstimate> = {
+  name: "MealEstimate",
+  fields: {
+    name: { type: "string", required: true },
+    calories: { type: "number", required: true },
+    tags: { type: "string[]" },
+  },
+};
+
+const question: AIMessage[] = [{ role: "user", content: "How much protein should I eat?" }];
+
+// Replies with each entry in turn, throwing the ones that are errors
+const scriptedProvider = (replies: (string | Error)[]) => {
+  const calls: AIMessage[][] = [];
+  const provider: AIProvider = {
+    name: "scripted",
+    complete: async (messages) => {
+      calls.push([...messages]);
+      const reply = replies[Math.min(calls.length - 1, replies.length - 1)];
+      if (reply instanceof Error) throw reply;
+      return reply;
+    },
+  };
+  return { provider, calls };
+};
+
+// Just enough of XMLHttpRequest to drive a server-sent event stream by hand
+class FakeXMLHttpRequest {
+  static last: FakeXMLHttpRequest | null = null;
+  responseText = "";
+  status = 0;
+  aborted = false;
+  onprogress: (() => void) | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor() {
+    FakeXMLHttpRequest.last = this;
+  }
+
+  open() {}
+  setRequestHeader() {}
+  send() {}
+
+  abort() {
+    this.aborted = true;
+  }
+
+  receive(text: string) {
+    this.responseText += text;
+    this.onprogress?.();
+  }
+
+  finish(status = 200) {
+    this.status = status;
+    this.onload?.();
+  }
+}
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+const originalProvider = aiService.getProvider();
+const originalXMLHttpRequest = global.XMLHttpRequest;
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  aiService.setProvider(originalProvider);
+  global.XMLHttpRequest = originalXMLHttpRequest;
+  FakeXMLHttpRequest.last = null;
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe("createAIProvider", () => {
+  it("builds the configured provider", () => {
+    expect(createAIProvider({ type: "offline" })).toBeInstanceOf(OfflineProvider);
+    expect(createAIProvider({ type: "hosted" })).toBeInstanceOf(HostedProvider);
+    expect(createAIProvider({ type: "openai", baseUrl: "https://gateway.example.com/v1", model: "small" }))
+      .toBeInstanceOf(OpenAICompatibleProvider);
+  });
+
+  it("falls back to the hosted provider when the OpenAI config is incomplete", () => {
+    expect(createAIProvider({ type: "openai", baseUrl: "https://gateway.example.com/v1" })).toBeInstanceOf(HostedProvider);
+  });
+});
+
+describe("complete", () => {
+  it("answers offline from the last user message", async () => {
+    aiService.setProvider(createAIProvider({ type: "offline" }));
+    expect(await aiService.complete(question)).toContain("protein");
+  });
+
+  it("retries network errors and gives up on client errors", async () => {
+    jest.useFakeTimers();
+    const flaky = scriptedProvider([new AIError("network", "offline"), "Hello"]);
+    aiService.setProvider(flaky.provider);
+
+    const reply = aiService.complete(question);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(await reply).toBe("Hello");
+    expect(flaky.calls).toHaveLength(2);
+
+    const rejected = scriptedProvider([new AIError("http", "Bad request", 400)]);
+    aiService.setProvider(rejected.provider);
+    await expect(aiService.complete(question)).rejects.toMatchObject({ kind: "http", status: 400 });
+    expect(rejected.calls).toHaveLength(1);
+  });
+
+  it("stops after the configured number of retries", async () => {
+    jest.useFakeTimers();
+    const down = scriptedProvider([new AIError("http", "Unavailable", 503)]);
+    aiService.setProvider(down.provider);
+
+    const reply = aiService.complete(question, { retries: 1 });
+    const assertion = expect(reply).rejects.toMatchObject({ kind: "http", status: 503 });
+    await jest.advanceTimersByTimeAsync(500);
+    await assertion;
+    expect(down.calls).toHaveLength(2);
+  });
+});
+
+describe("completeStructured", () => {
+  it("finds the JSON in a reply wrapped in prose and code fences", () => {
+    expect(extractJSON('Sure! ```json\n{"name": "Oats", "note": "a } in a string"}\n``` Enjoy')).toEqual({
+      name: "Oats",
+      note: "a } in a string",
+    });
+    expect(extractJSON('Here you go: [1, 2] and more')).toEqual([1, 2]);
+    expect(extractJSON("No JSON here")).toBeNull();
+    expect(extractJSON('{"name": ')).toBeNull();
+  });
+
+  it("accepts numeric strings and rejects missing required fields", () => {
+    expect(validateStructuredOutput(mealSchema, { name: "Oats", calories: "350", tags: ["breakfast", 1] })).toEqual({
+      name: "Oats",
+      calories: 350,
+      tags: ["breakfast", "1"],
+    });
+    expect(validateStructuredOutput(mealSchema, { name: "Oats" })).toBeNull();
+    expect(validateStructuredOutput(mealSchema, { name: " ", calories: 350 })).toBeNull();
+    expect(validateStructuredOutput(mealSchema, { name: "Oats", calories: "lots" })).toBeNull();
+    expect(validateStructuredOutput(mealSchema, [])).toBeNull();
+  });
+
+  it("asks for JSON and returns the validated reply", async () => {
+    const responder = jest.fn(() => 'Estimate: {"name": "Oats", "calories": 350}');
+    aiService.setProvider(new OfflineProvider(responder));
+
+    expect(await aiService.completeStructured(question, mealSchema)).toEqual({ name: "Oats", calories: 350 });
+    expect(responder).toHaveBeenCalledWith(
+      expect.arrayContaining([expect.objectContaining({ role: "system", content: expect.stringContaining("calories (number, required)") })]),
+      expect.objectContaining({ json: true })
+    );
+  });
+
+  it("retries once with a reminder when the reply does not match", async () => {
+    const sloppy = scriptedProvider(['{"name": "Oats"}', '{"name": "Oats", "calories": 350}']);
+    aiService.setProvider(sloppy.provider);
+
+    expect(await aiService.completeStructured(question, mealSchema)).toEqual({ name: "Oats", calories: 350 });
+    expect(sloppy.calls).toHaveLength(2);
+    const reminder = sloppy.calls[1][sloppy.calls[1].length - 1];
+    expect(reminder.role).toBe("user");
+    expect(reminder.content).toContain("did not match the expected format");
+  });
+
+  it("gives up when the offline provider has no real answer", async () => {
+    aiService.setProvider(new OfflineProvider());
+    await expect(aiService.completeStructured(question, mealSchema)).rejects.toMatchObject({ kind: "invalid_response" });
+  });
+});
+
+describe("stream", () => {
+  it("sends the whole reply as one chunk when the provider cannot stream", async () => {
+    aiService.setProvider(new OfflineProvider(() => "All in one go"));
+    const chunks: string[] = [];
+
+    expect(await aiService.stream(question, chunk => chunks.push(chunk))).toBe("All in one go");
+    expect(chunks).toEqual(["All in one go"]);
+  });
+
+  it("passes chunks through as they arrive", async () => {
+    const provider: AIProvider = {
+      name: "streaming",
+      complete: jest.fn(),
+      stream: async (_messages, onChunk) => {
+        ["Keep ", "going"].forEach(onChunk);
+        return "Keep going";
+      },
+    };
+    aiService.setProvider(provider);
+    const chunks: string[] = [];
+
+    expect(await aiService.stream(question, chunk => chunks.push(chunk))).toBe("Keep going");
+    expect(chunks).toEqual(["Keep ", "going"]);
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+
+  it("does not retry a stream that broke after text arrived", async () => {
+    const stream = jest.fn(async (_messages: AIMessage[], onChunk: (chunk: string) => void) => {
+      onChunk("Half an ");
+      throw new AIError("network", "Connection lost");
+    });
+    aiService.setProvider({ name: "streaming", complete: jest.fn(), stream });
+
+    await expect(aiService.stream(question, () => {})).rejects.toMatchObject({ kind: "invalid_response" });
+    expect(stream).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads server-sent events from an OpenAI-compatible gateway", async () => {
+    global.XMLHttpRequest = FakeXMLHttpRequest as unknown as typeof XMLHttpRequest;
+    aiService.setProvider(createAIProvider({ type: "openai", baseUrl: "https://gateway.example.com/v1/", model: "small" }));
+    const chunks: string[] = [];
+
+    const reply = aiService.stream(question, chunk => chunks.push(chunk), { retries: 0 });
+    const xhr = FakeXMLHttpRequest.last!;
+    xhr.receive(delta("Eat "));
+    xhr.receive(`${delta("more")}data: {not json}\n\n`);
+    xhr.receive("data: [DONE]");
+    xhr.finish();
+
+    expect(await reply).toBe("Eat more");
+    expect(chunks).toEqual(["Eat ", "more"]);
+  });
+
+  it("times out when the stream goes quiet, however long it has been running", async () => {
+    jest.useFakeTimers();
+    global.XMLHttpRequest = FakeXMLHttpRequest as unknown as typeof XMLHttpRequest;
+    aiService.setProvider(createAIProvider({ type: "openai", baseUrl: "https://gateway.example.com/v1", model: "small" }));
+
+    const reply = aiService.stream(question, () => {}, { timeoutMs: 1000, retries: 0 });
+    const assertion = expect(reply).rejects.toMatchObject({
+      kind: "invalid_response",
+      message: expect.stringContaining("received nothing for 1000ms"),
+    });
+    const xhr = FakeXMLHttpRequest.last!;
+
+    // Each event restarts the wait, so a reply longer than the timeout keeps going
+    for (let i = 0; i < 3; i++) {
+      await jest.advanceTimersByTimeAsync(900);
+      xhr.receive(delta("word "));
+    }
+    expect(xhr.aborted).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(xhr.aborted).toBe(true);
+  });
+
+  it("retries a stream that timed out before any text arrived", async () => {
+    jest.useFakeTimers();
+    global.XMLHttpRequest = FakeXMLHttpRequest as unknown as typeof XMLHttpRequest;
+    aiService.setProvider(createAIProvider({ type: "openai", baseUrl: "https://gateway.example.com/v1", model: "small" }));
+
+    const reply = aiService.stream(question, () => {}, { timeoutMs: 1000, retries: 1 });
+    const first = FakeXMLHttpRequest.last!;
+    await jest.advanceTimersByTimeAsync(1000 + 500);
+
+    const second = FakeXMLHttpRequest.last!;
+    expect(second).not.toBe(first);
+    second.receive(delta("Hello"));
+    second.finish();
+    expect(await reply).toBe("Hello");
+  });
+});
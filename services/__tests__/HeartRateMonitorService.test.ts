@@ -0,0 +1,210 @@
+import { BleError, Characteristic, Device } from "react-native-ble-plx";
+import {
+  BATTERY_LEVEL_UUID,
+  HEART_RATE_MEASUREMENT_UUID,
+  HEART_RATE_SERVICE_UUID,
+  HeartRateBleManager,
+  HeartRateMeasurement,
+  HeartRateMonitorService,
+  parseHeartRateMeasurement,
+} from "../HeartRateMonitorService";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const TIMESTAMP = Date.UTC(2025, 5, 1, 7, 0, 0);
+const DEVICE_ID = "strap-1";
+
+const toBase64 = (bytes: number[]) => btoa(String.fromCharCode(...bytes));
+
+type MonitorListener = (error: BleError | null, characteristic: Characteristic | null) => void;
+
+// A strap that is in range but not yet connected, with its listeners exposed so tests can drive them
+const createFakeManager = (options: { battery?: number } = {}) => {
+  let connected = false;
+  const listeners: { monitor?: MonitorListener; disconnected?: () => void } = {};
+  const subscriptions = {
+    monitor: { remove: jest.fn() },
+    disconnected: { remove: jest.fn() },
+  };
+  const device = { id: DEVICE_ID, name: "Polar H10", localName: null } as unknown as Device;
+
+  const manager = {
+    isDeviceConnected: jest.fn(async () => connected),
+    connectToDevice: jest.fn(async () => {
+      connected = true;
+      return device;
+    }),
+    discoverAllServicesAndCharacteristicsForDevice: jest.fn(async () => device),
+    readCharacteristicForDevice: jest.fn(async (_deviceId: string, _service: string, characteristic: string) => {
+      if (characteristic !== BATTERY_LEVEL_UUID || options.battery === undefined) {
+        throw new Error("Characteristic not found");
+      }
+      return { value: toBase64([options.battery]) } as Characteristic;
+    }),
+    onDeviceDisconnected: jest.fn((_deviceId: string, listener: () => void) => {
+      listeners.disconnected = listener;
+      return subscriptions.disconnected;
+    }),
+    monitorCharacteristicForDevice: jest.fn(
+      (_deviceId: string, _service: string, _characteristic: string, listener: MonitorListener) => {
+        listeners.monitor = listener;
+        return subscriptions.monitor;
+      }
+    ),
+    cancelDeviceConnection: jest.fn(async () => {
+      connected = false;
+      return device;
+    }),
+  };
+
+  const notify = (bytes: number[]) => listeners.monitor?.(null, { value: toBase64(bytes) } as Characteristic);
+  const dropConnection = () => {
+    connected = false;
+    listeners.disconnected?.();
+  };
+
+  return { manager, subscriptions, notify, dropConnection };
+};
+
+const createService = (fake: ReturnType<typeof createFakeManager>) =>
+  new HeartRateMonitorService(() => fake.manager as unknown as HeartRateBleManager);
+
+describe("parseHeartRateMeasurement", () => {
+  it("reads an 8-bit heart rate", () => {
+    expect(parseHeartRateMeasurement(new Uint8Array([0x00, 72]), TIMESTAMP)).toEqual({
+      bpm: 72,
+      sensorContact: undefined,
+      energyExpended: undefined,
+      rrIntervals: [],
+      timestamp: TIMESTAMP,
+    });
+  });
+
+  it("reads a little-endian 16-bit heart rate", () => {
+    expect(parseHeartRateMeasurement(new Uint8Array([0x01, 0x2c, 0x01]), TIMESTAMP)?.bpm).toBe(300);
+  });
+
+  it("reports sensor contact only when the strap supports it", () => {
+    expect(parseHeartRateMeasurement(new Uint8Array([0x06, 80]))?.sensorContact).toBe(true);
+    expect(parseHeartRateMeasurement(new Uint8Array([0x04, 0]))?.sensorContact).toBe(false);
+    // The contact bit means nothing without the supported bit
+    expect(parseHeartRateMeasurement(new Uint8Array([0x02, 80]))?.sensorContact).toBeUndefined();
+  });
+
+  it("converts RR intervals from 1/1024 s to milliseconds", () => {
+    // 1024/1024 s and 800/1024 s
+    const measurement = parseHeartRateMeasurement(new Uint8Array([0x10, 60, 0x00, 0x04, 0x20, 0x03]));
+    expect(measurement?.rrIntervals).toEqual([1000, 781]);
+  });
+
+  it("skips energy expended before the RR intervals", () => {
+    const measurement = parseHeartRateMeasurement(new Uint8Array([0x19, 0x96, 0x00, 0xe8, 0x03, 0x00, 0x04]));
+    expect(measurement).toMatchObject({ bpm: 150, energyExpended: 1000, rrIntervals: [1000] });
+  });
+
+  it("ignores a trailing half RR interval", () => {
+    expect(parseHeartRateMeasurement(new Uint8Array([0x10, 60, 0x00, 0x04, 0x20]))?.rrIntervals).toEqual([1000]);
+  });
+
+  it("rejects values too short to hold a heart rate", () => {
+    expect(parseHeartRateMeasurement(new Uint8Array([0x00]))).toBeNull();
+    expect(parseHeartRateMeasurement(new Uint8Array([0x01, 0x2c]))).toBeNull();
+  });
+});
+
+describe("HeartRateMonitorService", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("connects, reading the battery level when the strap has one", async () => {
+    const fake = createFakeManager({ battery: 87 });
+    const service = createService(fake);
+
+    expect(await service.connect(DEVICE_ID)).toEqual({ id: DEVICE_ID, name: "Polar H10", batteryLevel: 87 });
+    expect(fake.manager.connectToDevice).toHaveBeenCalledWith(DEVICE_ID, expect.objectContaining({ timeout: expect.any(Number) }));
+    expect(fake.manager.discoverAllServicesAndCharacteristicsForDevice).toHaveBeenCalledWith(DEVICE_ID);
+  });
+
+  it("connects without a battery level when the strap has no Battery Service", async () => {
+    const service = createService(createFakeManager());
+    expect(await service.connect(DEVICE_ID)).toEqual({ id: DEVICE_ID, name: "Polar H10", batteryLevel: undefined });
+  });
+
+  it("reuses a connection the system already holds", async () => {
+    const fake = createFakeManager();
+    fake.manager.isDeviceConnected.mockResolvedValueOnce(true);
+
+    expect(await createService(fake).connect(DEVICE_ID)).not.toBeNull();
+    expect(fake.manager.connectToDevice).not.toHaveBeenCalled();
+  });
+
+  it("returns null when the connection fails", async () => {
+    const fake = createFakeManager();
+    fake.manager.connectToDevice.mockRejectedValueOnce(new Error("Device not found"));
+
+    expect(await createService(fake).connect(DEVICE_ID)).toBeNull();
+  });
+
+  it("streams readings while the strap has skin contact", async () => {
+    const fake = createFakeManager();
+    const service = createService(fake);
+    await service.connect(DEVICE_ID);
+
+    const readings: HeartRateMeasurement[] = [];
+    service.startHeartRateStream(DEVICE_ID, measurement => readings.push(measurement));
+    expect(fake.manager.monitorCharacteristicForDevice).toHaveBeenCalledWith(
+      DEVICE_ID,
+      HEART_RATE_SERVICE_UUID,
+      HEART_RATE_MEASUREMENT_UUID,
+      expect.any(Function)
+    );
+
+    fake.notify([0x06, 90]);
+    fake.notify([0x04, 0]);
+    fake.notify([0x00, 0]);
+    fake.notify([0x00, 95]);
+
+    expect(readings.map(reading => reading.bpm)).toEqual([90, 95]);
+  });
+
+  it("cancels the connection and its subscriptions on disconnect", async () => {
+    const fake = createFakeManager();
+    const service = createService(fake);
+    await service.connect(DEVICE_ID);
+    service.startHeartRateStream(DEVICE_ID, () => {});
+
+    await service.disconnect(DEVICE_ID);
+
+    expect(fake.manager.cancelDeviceConnection).toHaveBeenCalledWith(DEVICE_ID);
+    expect(fake.subscriptions.monitor.remove).toHaveBeenCalled();
+    expect(fake.subscriptions.disconnected.remove).toHaveBeenCalled();
+  });
+
+  it("does not cancel a connection that is already gone", async () => {
+    const fake = createFakeManager();
+    await createService(fake).disconnect(DEVICE_ID);
+
+    expect(fake.manager.cancelDeviceConnection).not.toHaveBeenCalled();
+  });
+
+  it("cleans up and reports when the strap drops the connection", async () => {
+    const fake = createFakeManager();
+    const service = createService(fake);
+    const onDisconnected = jest.fn();
+    await service.connect(DEVICE_ID, onDisconnected);
+    service.startHeartRateStream(DEVICE_ID, () => {});
+
+    fake.dropConnection();
+
+    expect(onDisconnected).toHaveBeenCalledWith(DEVICE_ID);
+    expect(fake.subscriptions.monitor.remove).toHaveBeenCalled();
+    expect(fake.subscriptions.disconnected.remove).toHaveBeenCalled();
+  });
+});
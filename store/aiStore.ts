@@ -1,10 +1,12 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { encryptedStorage } from "@/utils/encryptedStorage";
 import { useWorkoutStore } from "./workoutStore";
 import { useHealthStore } from "./healthStore";
 import { useNotificationStore } from "./notificationStore";
 import { Platform } from "react-native";
+import type { CoachAction } from "@/utils/coachTools";
+import { CONVERSATION_MEMORY_LIMIT } from "@/utils/chatContext";
 
 export interface Goal {
   id: string;
@@ -73,12 +75,16 @@ export interface ChatMessage {
   id: string;
   content: string;
   role: 'user' | 'assistant';
+  // Data change proposed by the coach, shown as a diff card
+  action?: CoachAction;
 }
 
 export interface AiChat {
   id: string;
   date: string;
   messages: ChatMessage[];
+  // Leading messages already summarized into conversation memory
+  summarizedCount?: number;
 }
 
 interface AiState {
@@ -134,6 +140,8 @@ interface AiState {
   addChat: (chat: AiChat) => void;
   deleteChat: (chatId: string) => void;
   addMessageToChat: (chatId: string, message: Omit<ChatMessage, "id" | "timestamp">) => void;
+  updateMessageAction: (chatId: string, messageId: string, action: CoachAction) => void;
+  markChatSummarized: (chatId: string, count: number) => void;
   addMessage: (message: ChatMessage) => void;
   setLoading: (loading: boolean) => void;
   clearMessages: () => void;
@@ -937,6 +945,20 @@ export const useAiStore = create<AiState>()(
           })
         }));
       },
+      updateMessageAction: (chatId, messageId, action) => set((state) => ({
+        chats: state.chats.map(chat => chat.id === chatId
+          ? {
+              ...chat,
+              messages: chat.messages.map(message =>
+                message.id === messageId ? { ...message, action } : message
+              )
+            }
+          : chat
+        )
+      })),
+      markChatSummarized: (chatId, count) => set((state) => ({
+        chats: state.chats.map(chat => chat.id === chatId ? { ...chat, summarizedCount: count } : chat)
+      })),
       addMessage: (message) =>
         set((state) => ({ messages: [...state.messages, message] })),
       setLoading: (loading) => set({ isLoading: loading }),
@@ -950,7 +972,7 @@ export const useAiStore = create<AiState>()(
       })),
       
       addToConversationMemory: (memory) => set((state) => ({
-        conversationMemory: [...state.conversationMemory, memory]
+        conversationMemory: [...state.conversationMemory, memory].slice(-CONVERSATION_MEMORY_LIMIT)
       })),
       
       clearConversationMemory: () => set({ conversationMemory: [] }),
@@ -1067,7 +1089,7 @@ export const useAiStore = create<AiState>()(
     }),
     {
       name: "ai-storage",
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => encryptedStorage),
     }
   )
 );
\ No newline at end of file
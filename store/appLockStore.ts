@@ -0,0 +1,209 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  savePin,
+  verifyPin,
+  clearPin,
+  getLockoutSeconds,
+  authenticateWithBiometrics,
+} from '@/utils/appLock';
+import { cleanupTempDecryptedFiles } from '@/utils/fileEncryption';
+
+// Seconds in the background before the app locks; 0 locks immediately
+export const AUTO_LOCK_TIMEOUTS = [0, 30, 60, 300, 900];
+
+// How long a confirmed PIN or biometric check allows changing the lock settings
+const CONFIRMATION_WINDOW_MS = 5 * 60 * 1000;
+
+interface AppLockState {
+  lockEnabled: boolean;
+  biometricsEnabled: boolean;
+  autoLockTimeout: number;
+  privacyScreenEnabled: boolean;
+  failedAttempts: number;
+  lockoutUntil: string | null;
+
+  // Session state, not persisted
+  isLocked: boolean;
+  backgroundedAt: number | null;
+  hasHydrated: boolean;
+  confirmedAt: number | null;
+
+  // Actions
+  enableLock: (pin: string) => Promise<boolean>;
+  // Both need confirmPin or confirmWithBiometrics first
+  disableLock: () => Promise<boolean>;
+  changePin: (pin: string) => Promise<boolean>;
+  setBiometricsEnabled: (enabled: boolean) => void;
+  setAutoLockTimeout: (seconds: number) => void;
+  setPrivacyScreenEnabled: (enabled: boolean) => void;
+
+  lock: () => void;
+  // Checks the current PIN, counting failures towards the same lockout as unlocking
+  confirmPin: (pin: string) => Promise<boolean>;
+  confirmWithBiometrics: (reason: string) => Promise<boolean>;
+  unlockWithPin: (pin: string) => Promise<boolean>;
+  unlockWithBiometrics: () => Promise<boolean>;
+  getLockoutRemaining: () => number;
+
+  // App state transitions
+  markBackgrounded: () => void;
+  checkAutoLock: () => void;
+}
+
+const hasRecentConfirmation = (confirmedAt: number | null): boolean =>
+  confirmedAt !== null && Date.now() - confirmedAt < CONFIRMATION_WINDOW_MS;
+
+export const useAppLockStore = create<AppLockState>()(
+  persist(
+    (set, get) => ({
+      lockEnabled: false,
+      biometricsEnabled: false,
+      autoLockTimeout: 60,
+      privacyScreenEnabled: true,
+      failedAttempts: 0,
+      lockoutUntil: null,
+
+      isLocked: false,
+      backgroundedAt: null,
+      hasHydrated: false,
+      confirmedAt: null,
+
+      enableLock: async (pin) => {
+        const saved = await savePin(pin);
+        if (saved) {
+          set({ lockEnabled: true, failedAttempts: 0, lockoutUntil: null });
+        }
+        return saved;
+      },
+
+      disableLock: async () => {
+        if (!hasRecentConfirmation(get().confirmedAt)) return false;
+
+        await clearPin();
+        set({
+          lockEnabled: false,
+          biometricsEnabled: false,
+          isLocked: false,
+          failedAttempts: 0,
+          lockoutUntil: null,
+          confirmedAt: null,
+        });
+        return true;
+      },
+
+      changePin: async (pin) => {
+        if (!hasRecentConfirmation(get().confirmedAt)) return false;
+
+        const saved = await savePin(pin);
+        if (saved) {
+          set({ confirmedAt: null });
+        }
+        return saved;
+      },
+
+      setBiometricsEnabled: (enabled) => set({ biometricsEnabled: enabled }),
+
+      setAutoLockTimeout: (seconds) => set({ autoLockTimeout: seconds }),
+
+      setPrivacyScreenEnabled: (enabled) => set({ privacyScreenEnabled: enabled }),
+
+      lock: () => {
+        if (!get().lockEnabled) return;
+        set({ isLocked: true });
+
+        // Decrypted photo copies must not outlive the unlocked session
+        cleanupTempDecryptedFiles();
+      },
+
+      confirmPin: async (pin) => {
+        if (get().getLockoutRemaining() > 0) return false;
+
+        if (await verifyPin(pin)) {
+          set({ failedAttempts: 0, lockoutUntil: null, confirmedAt: Date.now() });
+          return true;
+        }
+
+        const failedAttempts = get().failedAttempts + 1;
+        const lockoutSeconds = getLockoutSeconds(failedAttempts);
+        set({
+          failedAttempts,
+          lockoutUntil: lockoutSeconds > 0 ? new Date(Date.now() + lockoutSeconds * 1000).toISOString() : null,
+        });
+        return false;
+      },
+
+      confirmWithBiometrics: async (reason) => {
+        if (!get().biometricsEnabled) return false;
+
+        const success = await authenticateWithBiometrics(reason);
+        if (success) {
+          set({ confirmedAt: Date.now() });
+        }
+        return success;
+      },
+
+      unlockWithPin: async (pin) => {
+        const confirmed = await get().confirmPin(pin);
+        if (confirmed) {
+          set({ isLocked: false, confirmedAt: null });
+        }
+        return confirmed;
+      },
+
+      unlockWithBiometrics: async () => {
+        if (!get().biometricsEnabled) return false;
+
+        const success = await authenticateWithBiometrics('Unlock FitQuest');
+        if (success) {
+          set({ isLocked: false, failedAttempts: 0, lockoutUntil: null });
+        }
+        return success;
+      },
+
+      getLockoutRemaining: () => {
+        const { lockoutUntil } = get();
+        if (!lockoutUntil) return 0;
+        return Math.max(0, Math.ceil((new Date(lockoutUntil).getTime() - Date.now()) / 1000));
+      },
+
+      markBackgrounded: () => {
+        if (!get().lockEnabled || get().isLocked) return;
+
+        if (get().autoLockTimeout === 0) {
+          get().lock();
+        } else {
+          set({ backgroundedAt: Date.now() });
+        }
+      },
+
+      checkAutoLock: () => {
+        const { lockEnabled, backgroundedAt, autoLockTimeout } = get();
+        if (lockEnabled && backgroundedAt !== null && Date.now() - backgroundedAt >= autoLockTimeout * 1000) {
+          get().lock();
+        }
+        set({ backgroundedAt: null });
+      },
+    }),
+    {
+      name: 'app-lock-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        lockEnabled: state.lockEnabled,
+        biometricsEnabled: state.biometricsEnabled,
+        autoLockTimeout: state.autoLockTimeout,
+        privacyScreenEnabled: state.privacyScreenEnabled,
+        failedAttempts: state.failedAttempts,
+        lockoutUntil: state.lockoutUntil,
+      }),
+      // Every launch starts locked when the lock is on
+      onRehydrateStorage: () => (state) => {
+        useAppLockStore.setState({
+          isLocked: state?.lockEnabled ?? false,
+          hasHydrated: true,
+        });
+      },
+    }
+  )
+);
@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Matches the "Last Updated" date of the privacy policy screen. Bumping it
+// invalidates every earlier consent, so each purpose is asked for again
+export const PRIVACY_POLICY_VERSION = '2025-05-31';
+
+export type ConsentPurpose =
+  | 'aiPhotoProcessing'
+  | 'aiChat'
+  | 'healthKitSync'
+  | 'analytics'
+  | 'journeyLocation';
+
+export type ConsentSource = 'prompt' | 'settings';
+
+export interface ConsentEvent {
+  id: string;
+  purpose: ConsentPurpose;
+  granted: boolean;
+  policyVersion: string;
+  timestamp: string;
+  source: ConsentSource;
+}
+
+interface ConsentState {
+  // Append-only ledger, oldest first
+  events: ConsentEvent[];
+
+  // Actions
+  recordConsent: (purpose: ConsentPurpose, granted: boolean, source: ConsentSource) => void;
+
+  // Getters
+  getLatestEvent: (purpose: ConsentPurpose) => ConsentEvent | null;
+  getPurposeHistory: (purpose: ConsentPurpose) => ConsentEvent[];
+  hasConsent: (purpose: ConsentPurpose) => boolean;
+}
+
+export const useConsentStore = create<ConsentState>()(
+  persist(
+    (set, get) => ({
+      events: [],
+
+      recordConsent: (purpose, granted, source) => set((state) => ({
+        events: [
+          ...state.events,
+          {
+            id: `${purpose}-${Date.now()}`,
+            purpose,
+            granted,
+            policyVersion: PRIVACY_POLICY_VERSION,
+            timestamp: new Date().toISOString(),
+            source,
+          },
+        ],
+      })),
+
+      getLatestEvent: (purpose) => {
+        const history = get().getPurposeHistory(purpose);
+        return history.length > 0 ? history[history.length - 1] : null;
+      },
+
+      getPurposeHistory: (purpose) => get().events.filter(event => event.purpose === purpose),
+
+      // Consent only counts when it was given under the current policy
+      hasConsent: (purpose) => {
+        const latest = get().getLatestEvent(purpose);
+        return !!latest && latest.granted && latest.policyVersion === PRIVACY_POLICY_VERSION;
+      },
+    }),
+    {
+      name: 'consent-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Food } from '../types';
+import { fuzzySearch } from '../utils/fuzzySearch';
 
 interface FoodState {
   foods: Food[];
@@ -11,7 +12,10 @@ interface FoodState {
   
   // Actions
   getFoodById: (id: string) => Food | null;
+  getFoodByBarcode: (barcode: string) => Food | null;
   addFood: (food: Food) => void;
+  // Adds the food, replacing any saved food with the same barcode
+  saveFood: (food: Food) => void;
   updateFood: (id: string, updates: Partial<Food>) => void;
   deleteFood: (id: string) => void;
   searchFoods: (query: string) => Food[];
@@ -31,6 +35,11 @@ export const useFoodStore = create<FoodState>()(
         return foods.find(food => food.id === id) || null;
       },
 
+      getFoodByBarcode: (barcode: string) => {
+        const { foods } = get();
+        return foods.find(food => food.barcode === barcode) || null;
+      },
+
       addFood: (food: Food) => {
         set(state => ({
           foods: [...state.foods, food],
@@ -38,6 +47,16 @@ export const useFoodStore = create<FoodState>()(
         }));
       },
 
+      saveFood: (food: Food) => {
+        set(state => ({
+          foods: [
+            ...state.foods.filter(existing => !food.barcode || existing.barcode !== food.barcode),
+            food
+          ],
+          currentFood: food
+        }));
+      },
+
       updateFood: (id: string, updates: Partial<Food>) => {
         set(state => ({
           foods: state.foods.map(food => 
@@ -58,11 +77,7 @@ export const useFoodStore = create<FoodState>()(
 
       searchFoods: (query: string) => {
         const { foods } = get();
-        const lowercaseQuery = query.toLowerCase();
-        return foods.filter(food => 
-          food.name.toLowerCase().includes(lowercaseQuery) ||
-          food.brand?.toLowerCase().includes(lowercaseQuery)
-        );
+        return fuzzySearch(foods, query, food => [food.name, food.brand]);
       },
 
       clearError: () => {
@@ -4,6 +4,32 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useWorkoutStore } from "./workoutStore";
 import { useHealthStore } from "./healthStore";
 import { useMacroStore } from "./macroStore";
+import { Workout } from "@/types";
+import {
+  AchievementEventType,
+  AchievementHistory,
+  AchievementRule,
+  evaluateAchievementRule,
+  isRuleAffectedBy,
+  parseAchievementPack,
+} from "@/utils/achievementRules";
+import {
+  QuestActivity,
+  QuestCriteria,
+  QuestTemplate,
+  QuestTier,
+  QUEST_METRIC_UNITS,
+  QUEST_REROLL_TOKENS_MAX,
+  QUESTS_PER_TIER,
+  describeQuestCriteria,
+  getQuestBaselines,
+  getQuestPeriod,
+  getQuestTarget,
+  isQuestCriteriaMet,
+  measureQuestMetric,
+  pickQuestTemplates,
+  pickRerollTemplate,
+} from "@/utils/questCriteria";
 
 export type AchievementCategory = 
   | "workout" 
@@ -30,6 +56,7 @@ export interface Achievement {
   dateCompleted?: string;
   points: number;
   fitnessLevel?: FitnessLevel[]; // Which fitness levels this achievement is appropriate for
+  rule?: AchievementRule; // How progress is measured; without one progress is updated directly
 }
 
 export interface Challenge {
@@ -85,6 +112,11 @@ export interface DailyQuest {
   points: number;
   category: AchievementCategory;
   fitnessLevel?: FitnessLevel[]; // Which fitness levels this quest is appropriate for
+  tier?: QuestTier; // Daily when missing
+  templateId?: string;
+  criteria?: QuestCriteria; // Quests without criteria can only be completed by hand
+  progress?: number; // Measured towards criteria.target
+  expiresAt?: string;
 }
 
 export interface ProgressionTracker {
@@ -116,6 +148,9 @@ interface GamificationState {
   level: number;
   rewards: Reward[];
   dailyQuests: DailyQuest[];
+  weeklyQuests: DailyQuest[];
+  monthlyQuests: DailyQuest[];
+  questRerollTokens: number;
   recentlyUnlocked: Achievement[];
   showCelebration: boolean;
   celebrationAchievement: Achievement | null;
@@ -128,6 +163,10 @@ interface GamificationState {
   setOnboardingCompleted: (completed: boolean) => void;
   initializeAchievements: () => void;
   checkAchievements: () => void;
+  // Re-evaluates only the achievements whose rules depend on the event
+  recordAchievementEvent: (event: AchievementEventType) => void;
+  // Adds the achievements of a JSON pack (e.g. seasonal); returns false if the pack is invalid
+  installAchievementPack: (json: string) => boolean;
   unlockAchievement: (achievementId: string) => void;
   updateAchievementProgress: (achievementId: string, progress: number) => void;
   
@@ -148,6 +187,8 @@ interface GamificationState {
   completeDailyQuest: (questId: string) => void;
   checkAndAutoCompleteQuests: () => void;
   resetDailyQuests: () => void;
+  // Swaps a quest for another of the same tier; costs a reroll token
+  rerollQuest: (questId: string) => boolean;
   
   clearCelebration: () => void;
   clearChallengeCelebration: () => void;
@@ -211,6 +252,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 1,
+    rule: { metric: "workout_count" },
     completed: false,
     points: 10
   },
@@ -223,6 +265,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 5,
+    rule: { metric: "workout_count" },
     completed: false,
     points: 25
   },
@@ -235,6 +278,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 10,
+    rule: { metric: "workout_count" },
     completed: false,
     points: 50
   },
@@ -247,6 +291,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 25,
+    rule: { metric: "workout_count" },
     completed: false,
     points: 100
   },
@@ -259,6 +304,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 50,
+    rule: { metric: "workout_count" },
     completed: false,
     points: 200
   },
@@ -271,6 +317,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 100,
+    rule: { metric: "workout_count" },
     completed: false,
     points: 500
   },
@@ -283,6 +330,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 200,
+    rule: { metric: "workout_count" },
     completed: false,
     points: 1000
   },
@@ -295,6 +343,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 365,
+    rule: { metric: "workout_count" },
     completed: false,
     points: 1500
   },
@@ -307,6 +356,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 10,
+    rule: { metric: "workout_count", filter: { categories: ["strength"] } },
     completed: false,
     points: 50
   },
@@ -319,6 +369,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 50,
+    rule: { metric: "workout_count", filter: { categories: ["strength"] } },
     completed: false,
     points: 200
   },
@@ -331,6 +382,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 10,
+    rule: { metric: "workout_count", filter: { categories: ["cardio"] } },
     completed: false,
     points: 50
   },
@@ -343,6 +395,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 50,
+    rule: { metric: "workout_count", filter: { categories: ["cardio"] } },
     completed: false,
     points: 200
   },
@@ -355,6 +408,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 10,
+    rule: { metric: "workout_count", filter: { categories: ["flexibility", "mobility"] } },
     completed: false,
     points: 50
   },
@@ -367,6 +421,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 30,
+    rule: { metric: "workout_count", filter: { categories: ["flexibility", "mobility"] } },
     completed: false,
     points: 150
   },
@@ -379,6 +434,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 1,
+    rule: { metric: "workout_count", filter: { minDuration: 30 } },
     completed: false,
     points: 15
   },
@@ -391,6 +447,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 1,
+    rule: { metric: "workout_count", filter: { minDuration: 60 } },
     completed: false,
     points: 30
   },
@@ -403,6 +460,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 1,
+    rule: { metric: "workout_count", filter: { minDuration: 90 } },
     completed: false,
     points: 60
   },
@@ -415,6 +473,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 5,
+    rule: { metric: "distinct_workouts" },
     completed: false,
     points: 75
   },
@@ -427,6 +486,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 10,
+    rule: { metric: "distinct_workouts" },
     completed: false,
     points: 150
   },
@@ -439,6 +499,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 5,
+    rule: { metric: "workout_count", filter: { beforeHour: 8 } },
     completed: false,
     points: 75
   },
@@ -451,6 +512,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 5,
+    rule: { metric: "workout_count", filter: { fromHour: 20 } },
     completed: false,
     points: 75
   },
@@ -463,6 +525,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 10,
+    rule: { metric: "workout_count", filter: { weekend: true } },
     completed: false,
     points: 100
   },
@@ -477,6 +540,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 3,
+    rule: { metric: "streak" },
     completed: false,
     points: 30
   },
@@ -489,6 +553,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 7,
+    rule: { metric: "streak" },
     completed: false,
     points: 70
   },
@@ -501,6 +566,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 14,
+    rule: { metric: "streak" },
     completed: false,
     points: 140
   },
@@ -513,6 +579,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 30,
+    rule: { metric: "streak" },
     completed: false,
     points: 300
   },
@@ -525,6 +592,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 45,
+    rule: { metric: "streak" },
     completed: false,
     points: 450
   },
@@ -537,6 +605,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 60,
+    rule: { metric: "streak" },
     completed: false,
     points: 600
   },
@@ -549,6 +618,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 90,
+    rule: { metric: "streak" },
     completed: false,
     points: 900
   },
@@ -561,6 +631,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 180,
+    rule: { metric: "streak" },
     completed: false,
     points: 1800
   },
@@ -573,6 +644,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 365,
+    rule: { metric: "streak" },
     completed: false,
     points: 3650
   },
@@ -611,6 +683,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 7,
+    rule: { metric: "weight_log_days", consecutive: true },
     completed: false,
     points: 35
   },
@@ -623,6 +696,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 1,
+    rule: { metric: "weight_loss" },
     completed: false,
     points: 50
   },
@@ -635,6 +709,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 5,
+    rule: { metric: "weight_loss" },
     completed: false,
     points: 100
   },
@@ -647,6 +722,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 10,
+    rule: { metric: "weight_loss" },
     completed: false,
     points: 200
   },
@@ -659,6 +735,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 15,
+    rule: { metric: "weight_loss" },
     completed: false,
     points: 300
   },
@@ -671,6 +748,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 20,
+    rule: { metric: "weight_loss" },
     completed: false,
     points: 500
   },
@@ -683,6 +761,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 30,
+    rule: { metric: "weight_log_days", consecutive: true },
     completed: false,
     points: 150
   },
@@ -695,6 +774,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 90,
+    rule: { metric: "weight_log_days", consecutive: true },
     completed: false,
     points: 300
   },
@@ -757,6 +837,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 5000,
+    rule: { metric: "steps", window: "day" },
     completed: false,
     points: 20
   },
@@ -769,6 +850,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 10000,
+    rule: { metric: "steps", window: "day" },
     completed: false,
     points: 40
   },
@@ -781,6 +863,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 15000,
+    rule: { metric: "steps", window: "day" },
     completed: false,
     points: 60
   },
@@ -793,6 +876,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 100000,
+    rule: { metric: "steps", window: "week" },
     completed: false,
     points: 150
   },
@@ -805,6 +889,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 20000,
+    rule: { metric: "steps", window: "day" },
     completed: false,
     points: 100
   },
@@ -817,6 +902,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 25000,
+    rule: { metric: "steps", window: "day" },
     completed: false,
     points: 150
   },
@@ -829,6 +915,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 30000,
+    rule: { metric: "steps", window: "day" },
     completed: false,
     points: 200
   },
@@ -841,6 +928,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 250000,
+    rule: { metric: "steps", window: "month" },
     completed: false,
     points: 300
   },
@@ -853,6 +941,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 500000,
+    rule: { metric: "steps", window: "month" },
     completed: false,
     points: 500
   },
@@ -865,6 +954,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 1000000,
+    rule: { metric: "steps" },
     completed: false,
     points: 1000
   },
@@ -915,6 +1005,7 @@ const defaultAchievements: Achievement[] = [
     tier: "bronze",
     progress: 0,
     target: 1,
+    rule: { metric: "food_log_days" },
     completed: false,
     points: 10
   },
@@ -927,6 +1018,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 7,
+    rule: { metric: "food_log_days", consecutive: true },
     completed: false,
     points: 70
   },
@@ -939,6 +1031,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 5,
+    rule: { metric: "macro_adherence_days", consecutive: true, filter: { macro: "protein" } },
     completed: false,
     points: 50
   },
@@ -951,6 +1044,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 30,
+    rule: { metric: "food_log_days", consecutive: true },
     completed: false,
     points: 300
   },
@@ -963,6 +1057,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 10,
+    rule: { metric: "macro_adherence_days", filter: { macro: "balanced" } },
     completed: false,
     points: 100
   },
@@ -999,6 +1094,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 14,
+    rule: { metric: "macro_adherence_days", filter: { macro: "calories" } },
     completed: false,
     points: 150
   },
@@ -1207,6 +1303,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 100,
+    rule: { metric: "workout_count", filter: { categories: ["strength"] } },
     completed: false,
     points: 500
   },
@@ -1219,6 +1316,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 100,
+    rule: { metric: "workout_count", filter: { categories: ["cardio"] } },
     completed: false,
     points: 500
   },
@@ -1231,6 +1329,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 50,
+    rule: { metric: "workout_count", filter: { categories: ["flexibility", "mobility"] } },
     completed: false,
     points: 300
   },
@@ -1243,6 +1342,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 1,
+    rule: { metric: "workout_count", filter: { minDuration: 120 } },
     completed: false,
     points: 100
   },
@@ -1255,6 +1355,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 15,
+    rule: { metric: "distinct_workouts" },
     completed: false,
     points: 250
   },
@@ -1267,6 +1368,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 20,
+    rule: { metric: "distinct_workouts" },
     completed: false,
     points: 400
   },
@@ -1279,6 +1381,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 20,
+    rule: { metric: "workout_count", filter: { beforeHour: 8 } },
     completed: false,
     points: 200
   },
@@ -1291,6 +1394,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 20,
+    rule: { metric: "workout_count", filter: { fromHour: 20 } },
     completed: false,
     points: 200
   },
@@ -1303,6 +1407,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 25,
+    rule: { metric: "workout_count", filter: { weekend: true } },
     completed: false,
     points: 250
   },
@@ -1315,6 +1420,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 50,
+    rule: { metric: "workout_count", filter: { weekend: true } },
     completed: false,
     points: 400
   },
@@ -1327,6 +1433,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 5,
+    rule: { metric: "workout_days", consecutive: true },
     completed: false,
     points: 100
   },
@@ -1339,6 +1446,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 10,
+    rule: { metric: "workout_days", consecutive: true },
     completed: false,
     points: 200
   },
@@ -1351,6 +1459,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 21,
+    rule: { metric: "workout_days", consecutive: true },
     completed: false,
     points: 400
   },
@@ -1363,6 +1472,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 30,
+    rule: { metric: "workout_days", consecutive: true },
     completed: false,
     points: 600
   },
@@ -1399,6 +1509,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 10,
+    rule: { metric: "workout_count", filter: { intensity: "high" } },
     completed: false,
     points: 200
   },
@@ -1411,6 +1522,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 25,
+    rule: { metric: "workout_count", filter: { intensity: "high" } },
     completed: false,
     points: 350
   },
@@ -1423,6 +1535,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 50,
+    rule: { metric: "workout_count", filter: { intensity: "high" } },
     completed: false,
     points: 500
   },
@@ -1543,6 +1656,7 @@ const defaultAchievements: Achievement[] = [
     tier: "silver",
     progress: 0,
     target: 10,
+    rule: { metric: "workout_count", filter: { categories: ["core"] } },
     completed: false,
     points: 150
   },
@@ -1555,6 +1669,7 @@ const defaultAchievements: Achievement[] = [
     tier: "gold",
     progress: 0,
     target: 25,
+    rule: { metric: "workout_count", filter: { categories: ["core"] } },
     completed: false,
     points: 250
   },
@@ -1567,6 +1682,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 50,
+    rule: { metric: "workout_count", filter: { categories: ["core"] } },
     completed: false,
     points: 400
   },
@@ -1799,6 +1915,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 180,
+    rule: { metric: "weight_log_days", consecutive: true },
     completed: false,
     points: 500
   },
@@ -1811,6 +1928,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 365,
+    rule: { metric: "weight_log_days", consecutive: true },
     completed: false,
     points: 1000
   },
@@ -1849,6 +1967,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 35000,
+    rule: { metric: "steps", window: "day" },
     completed: false,
     points: 250
   },
@@ -1861,6 +1980,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 40000,
+    rule: { metric: "steps", window: "day" },
     completed: false,
     points: 300
   },
@@ -1873,6 +1993,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 50000,
+    rule: { metric: "steps", window: "day" },
     completed: false,
     points: 500
   },
@@ -1885,6 +2006,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 750000,
+    rule: { metric: "steps", window: "month" },
     completed: false,
     points: 750
   },
@@ -1897,6 +2019,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 2000000,
+    rule: { metric: "steps" },
     completed: false,
     points: 2000
   },
@@ -1909,6 +2032,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 5000000,
+    rule: { metric: "steps" },
     completed: false,
     points: 5000
   },
@@ -2019,6 +2143,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 90,
+    rule: { metric: "food_log_days", consecutive: true },
     completed: false,
     points: 900
   },
@@ -2031,6 +2156,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 180,
+    rule: { metric: "food_log_days", consecutive: true },
     completed: false,
     points: 1800
   },
@@ -2043,6 +2169,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 365,
+    rule: { metric: "food_log_days", consecutive: true },
     completed: false,
     points: 3650
   },
@@ -2055,6 +2182,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 30,
+    rule: { metric: "macro_adherence_days", consecutive: true, filter: { macro: "protein" } },
     completed: false,
     points: 300
   },
@@ -2067,6 +2195,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 90,
+    rule: { metric: "macro_adherence_days", consecutive: true, filter: { macro: "protein" } },
     completed: false,
     points: 900
   },
@@ -2079,6 +2208,7 @@ const defaultAchievements: Achievement[] = [
     tier: "platinum",
     progress: 0,
     target: 30,
+    rule: { metric: "macro_adherence_days", filter: { macro: "balanced" } },
     completed: false,
     points: 300
   },
@@ -2091,6 +2221,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 90,
+    rule: { metric: "macro_adherence_days", filter: { macro: "balanced" } },
     completed: false,
     points: 900
   },
@@ -2139,6 +2270,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 30,
+    rule: { metric: "macro_adherence_days", filter: { macro: "calories" } },
     completed: false,
     points: 300
   },
@@ -2151,6 +2283,7 @@ const defaultAchievements: Achievement[] = [
     tier: "diamond",
     progress: 0,
     target: 90,
+    rule: { metric: "macro_adherence_days", filter: { macro: "calories" } },
     completed: false,
     points: 900
   },
@@ -3582,101 +3715,165 @@ const defaultChallenges: Challenge[] = [
   }
 ];
 
-// Helper function to generate daily quests
-const generateDefaultDailyQuests = (): DailyQuest[] => {
-  const today = new Date().toISOString().split('T')[0]; // Use YYYY-MM-DD format
-  const macroStore = useMacroStore.getState();
-  const userFitnessLevel = macroStore.userProfile.fitnessLevel || 'beginner';
+const buildQuestActivity = (): QuestActivity => {
+  const { workoutLogs } = useWorkoutStore.getState();
+  const { stepLogs, stepCount, waterIntake } = useHealthStore.getState();
+  const { macroLogs } = useMacroStore.getState();
   
-  // Generate quests based on fitness level
-  if (userFitnessLevel === 'beginner') {
-    return [
-      {
-        id: `quest-beginner-workout-${Date.now()}`,
-        title: "First Steps",
-        description: "Complete a 15-minute beginner workout",
-        completed: false,
-        date: today,
-        points: 15,
-        category: "workout",
-        fitnessLevel: ['beginner']
-      },
-      {
-        id: `quest-beginner-steps-${Date.now()}`,
-        title: "Daily Walk",
-        description: "Take 5,000 steps today",
-        completed: false,
-        date: today,
-        points: 10,
-        category: "steps",
-        fitnessLevel: ['beginner']
-      },
-      {
-        id: `quest-beginner-water-${Date.now()}`,
-        title: "Stay Hydrated",
-        description: "Drink 6 glasses of water today",
-        completed: false,
-        date: today,
-        points: 8,
-        category: "nutrition",
-        fitnessLevel: ['beginner']
-      },
-      {
-        id: `quest-beginner-stretch-${Date.now()}`,
-        title: "Gentle Stretch",
-        description: "Do 5 minutes of stretching",
-        completed: false,
-        date: today,
-        points: 10,
-        category: "workout",
-        fitnessLevel: ['beginner']
-      }
-    ];
-  }
+  // The live step count can be ahead of today's synced log
+  const today = new Date().toDateString();
+  const todayLog = stepLogs.find(log => new Date(log.date).toDateString() === today);
+  const steps = todayLog && todayLog.steps >= stepCount
+    ? stepLogs
+    : [
+        ...stepLogs.filter(log => log !== todayLog),
+        { date: new Date().toISOString(), steps: stepCount || 0 },
+      ];
   
-  // Intermediate/Advanced quests
-  return [
-    {
-      id: `quest-workout-${Date.now()}`,
-      title: "Daily Workout",
-      description: "Complete at least one workout today",
-      completed: false,
-      date: today,
-      points: 20,
-      category: "workout",
-      fitnessLevel: ['intermediate', 'advanced']
-    },
-    {
-      id: `quest-steps-${Date.now()}`,
-      title: "Step Goal",
-      description: "Reach 8,000 steps today",
-      completed: false,
-      date: today,
-      points: 15,
-      category: "steps",
-      fitnessLevel: ['intermediate', 'advanced']
-    },
-    {
-      id: `quest-water-${Date.now()}`,
-      title: "Stay Hydrated",
-      description: "Log at least 2L of water today",
-      completed: false,
-      date: today,
-      points: 10,
-      category: "nutrition",
-      fitnessLevel: ['intermediate', 'advanced']
-    },
-    {
-      id: `quest-protein-${Date.now()}`,
-      title: "Protein Goal",
-      description: "Meet your protein goal for today",
-      completed: false,
-      date: today,
-      points: 15,
-      category: "nutrition",
-      fitnessLevel: ['intermediate', 'advanced']
+  return {
+    workouts: workoutLogs
+      .filter(log => log.completed)
+      .map(log => ({ date: log.date, duration: log.duration })),
+    steps,
+    water: waterIntake,
+    meals: macroLogs,
+  };
+};
+
+const createQuest = (
+  template: QuestTemplate,
+  fitnessLevel: FitnessLevel,
+  now: Date = new Date()
+): DailyQuest => {
+  const { macroGoals } = useMacroStore.getState();
+  const { start, end } = getQuestPeriod(template.tier, now);
+  const criteria: QuestCriteria = {
+    metric: template.metric,
+    comparator: template.comparator,
+    target: getQuestTarget(template, {
+      baselines: getQuestBaselines(buildQuestActivity(), now),
+      fitnessLevel,
+      goals: { protein: macroGoals.protein, calories: macroGoals.calories },
+      now,
+    }),
+    unit: QUEST_METRIC_UNITS[template.metric],
+  };
+  
+  return {
+    id: `quest-${template.id}-${Date.now()}`,
+    title: template.title,
+    description: describeQuestCriteria(criteria, template.tier),
+    completed: false,
+    date: start.toISOString(),
+    expiresAt: end.toISOString(),
+    points: template.points,
+    category: template.category,
+    fitnessLevel: [fitnessLevel],
+    tier: template.tier,
+    templateId: template.id,
+    criteria,
+    progress: 0,
+  };
+};
+
+// Targets scale from the user's recent baselines instead of fixed lists
+const generateQuestsForTier = (tier: QuestTier, fitnessLevel?: FitnessLevel): DailyQuest[] => {
+  const level = fitnessLevel || useMacroStore.getState().userProfile.fitnessLevel || 'beginner';
+  return pickQuestTemplates(tier, QUESTS_PER_TIER[tier]).map(template => createQuest(template, level));
+};
+
+const getQuestEnd = (quest: DailyQuest): Date => {
+  if (quest.expiresAt) return new Date(quest.expiresAt);
+  // Quests from before tiers existed last for the day they were created
+  const end = new Date(quest.date);
+  end.setHours(24, 0, 0, 0);
+  return end;
+};
+
+const isQuestCurrent = (quest: DailyQuest, now: Date = new Date()): boolean =>
+  new Date(quest.date).getTime() <= now.getTime() && now.getTime() < getQuestEnd(quest).getTime();
+
+const QUEST_LIST_KEYS: Record<QuestTier, "dailyQuests" | "weeklyQuests" | "monthlyQuests"> = {
+  daily: "dailyQuests",
+  weekly: "weeklyQuests",
+  monthly: "monthlyQuests",
+};
+
+// Persisted achievements predate rules, so fall back to the default definition
+const defaultAchievementRules: Record<string, AchievementRule> = defaultAchievements.reduce(
+  (rules, achievement) => achievement.rule ? { ...rules, [achievement.id]: achievement.rule } : rules,
+  {} as Record<string, AchievementRule>
+);
+
+const getAchievementRule = (achievement: Achievement): AchievementRule | undefined =>
+  achievement.rule || defaultAchievementRules[achievement.id];
+
+const ACHIEVEMENT_CATEGORIES: AchievementCategory[] = ["workout", "nutrition", "weight", "steps", "streak", "special"];
+const ACHIEVEMENT_TIERS: AchievementTier[] = ["bronze", "silver", "gold", "platinum", "diamond"];
+const FITNESS_LEVELS: FitnessLevel[] = ["beginner", "intermediate", "advanced"];
+
+// Pack achievements are rendered and scored like the defaults, so they need the same fields
+const isInstallableAchievement = (achievement: Record<string, unknown>): boolean =>
+  ACHIEVEMENT_CATEGORIES.includes(achievement.category as AchievementCategory) &&
+  ACHIEVEMENT_TIERS.includes(achievement.tier as AchievementTier) &&
+  typeof achievement.icon === "string" &&
+  typeof achievement.points === "number" &&
+  achievement.points >= 0 &&
+  (achievement.fitnessLevel === undefined || (
+    Array.isArray(achievement.fitnessLevel) &&
+    achievement.fitnessLevel.every(level => FITNESS_LEVELS.includes(level))
+  ));
+
+const buildAchievementHistory = (streak: number): AchievementHistory => {
+  const { workoutLogs, workouts } = useWorkoutStore.getState();
+  const { stepLogs, weightLogs } = useHealthStore.getState();
+  const { macroLogs, macroGoals } = useMacroStore.getState();
+  
+  return {
+    workouts: workoutLogs
+      .filter(log => log.completed)
+      .map(log => {
+        // Category and intensity exist on workout data but not on the Workout type
+        const workout = workouts.find(w => w.id === log.workoutId) as
+          | (Workout & { category?: string; intensity?: string })
+          | undefined;
+        return {
+          date: log.date,
+          workoutId: log.workoutId,
+          category: workout?.category,
+          intensity: workout?.intensity,
+          duration: log.duration,
+        };
+      }),
+    steps: stepLogs,
+    weights: weightLogs,
+    meals: macroLogs,
+    macroGoals,
+    streak,
+  };
+};
+
+const evaluateAchievements = (achievements: Achievement[], get: () => GamificationState) => {
+  const withRules = achievements.filter(achievement => getAchievementRule(achievement) && !achievement.completed);
+  if (withRules.length === 0) return;
+  
+  const { updateAchievementProgress, unlockAchievement, streak } = get();
+  const history = buildAchievementHistory(streak.currentStreak);
+  const now = new Date();
+  
+  withRules.forEach(achievement => {
+    const progress = evaluateAchievementRule(getAchievementRule(achievement)!, history, now);
+    
+    // Update progress if needed
+    if (progress > 0 && progress !== achievement.progress) {
+      updateAchievementProgress(achievement.id, progress);
+      
+      // Check if achievement should be unlocked
+      if (progress >= achievement.target) {
+        unlockAchievement(achievement.id);
+      }
     }
-  ];
+  });
 };
 
 export const useGamificationStore = create<GamificationState>()(
@@ -3698,7 +3895,11 @@ export const useGamificationStore = create<GamificationState>()(
       points: 0,
       level: 1,
       rewards: [...defaultRewards],
-      dailyQuests: generateDefaultDailyQuests(),
+      // Generated on start-up, once the other stores are available
+      dailyQuests: [],
+      weeklyQuests: [],
+      monthlyQuests: [],
+      questRerollTokens: QUEST_REROLL_TOKENS_MAX,
       recentlyUnlocked: [],
       showCelebration: false,
       celebrationAchievement: null,
@@ -3734,12 +3935,8 @@ export const useGamificationStore = create<GamificationState>()(
         // It checks if achievements need to be updated based on existing data
         const { checkAchievements, generateDailyQuests, updateStreak } = get();
         
-        // Check if we need to generate new daily quests
-        const { dailyQuests } = get();
-        if (dailyQuests.length === 0 || 
-            new Date(dailyQuests[0].date).toDateString() !== new Date().toDateString()) {
-          generateDailyQuests();
-        }
+        // Replaces daily, weekly and monthly quests whose period is over
+        generateDailyQuests();
         
         // Update streak information
         updateStreak();
@@ -3752,294 +3949,33 @@ export const useGamificationStore = create<GamificationState>()(
         // Skip if gamification is disabled
         if (!get().gamificationEnabled) return;
         
-        const { achievements, updateAchievementProgress, unlockAchievement } = get();
-        const workoutStore = useWorkoutStore.getState();
-        const healthStore = useHealthStore.getState();
-        
-        // Check workout achievements
-        const completedWorkouts = workoutStore.workoutLogs.filter(log => log.completed).length;
+        evaluateAchievements(get().achievements, get);
+      },
+      
+      recordAchievementEvent: (event) => {
+        // Skip if gamification is disabled
+        if (!get().gamificationEnabled) return;
         
-        achievements.forEach(achievement => {
-          let progress = 0;
-          
-          switch (achievement.id) {
-            // Workout achievements
-            case "workout-first":
-            case "workout-5":
-            case "workout-10":
-            case "workout-25":
-            case "workout-50":
-            case "workout-100":
-            case "workout-200":
-            case "workout-365":
-              progress = completedWorkouts;
-              break;
-              
-            // Workout type achievements
-            case "workout-strength-10":
-            case "workout-strength-50":
-            case "workout-strength-100":
-              const strengthWorkouts = workoutStore.workoutLogs.filter(log => {
-                if (!log.completed) return false;
-                const workout = workoutStore.workouts.find(w => w.id === log.workoutId);
-                return workout && workout.category === "strength";
-              }).length;
-              progress = strengthWorkouts;
-              break;
-              
-            case "workout-cardio-10":
-            case "workout-cardio-50":
-            case "workout-cardio-100":
-              const cardioWorkouts = workoutStore.workoutLogs.filter(log => {
-                if (!log.completed) return false;
-                const workout = workoutStore.workouts.find(w => w.id === log.workoutId);
-                return workout && workout.category === "cardio";
-              }).length;
-              progress = cardioWorkouts;
-              break;
-              
-            case "workout-flexibility-10":
-            case "workout-flexibility-30":
-            case "workout-flexibility-50":
-              const flexibilityWorkouts = workoutStore.workoutLogs.filter(log => {
-                if (!log.completed) return false;
-                const workout = workoutStore.workouts.find(w => w.id === log.workoutId);
-                return workout && workout.category === "flexibility";
-              }).length;
-              progress = flexibilityWorkouts;
-              break;
-              
-            // Workout duration achievements
-            case "workout-duration-30":
-            case "workout-duration-60":
-            case "workout-duration-90":
-            case "workout-duration-120":
-              // These would need to be checked when a workout is completed
-              // based on the duration of the workout
-              break;
-              
-            // Workout variety achievements
-            case "workout-variety-5":
-            case "workout-variety-10":
-            case "workout-variety-15":
-            case "workout-variety-20":
-              const uniqueWorkoutTypes = new Set(
-                workoutStore.workoutLogs
-                  .filter(log => log.completed)
-                  .map(log => {
-                    const workout = workoutStore.workouts.find(w => w.id === log.workoutId);
-                    return workout ? workout.name : '';
-                  })
-                  .filter(name => name !== '')
-              ).size;
-              progress = uniqueWorkoutTypes;
-              break;
-              
-            // Time-based workout achievements
-            case "workout-early-bird":
-            case "workout-early-bird-20":
-              const earlyWorkouts = workoutStore.workoutLogs.filter(log => {
-                if (!log.completed) return false;
-                const workoutTime = new Date(log.date);
-                return workoutTime.getHours() < 8;
-              }).length;
-              progress = earlyWorkouts;
-              break;
-              
-            case "workout-night-owl":
-            case "workout-night-owl-20":
-              const nightWorkouts = workoutStore.workoutLogs.filter(log => {
-                if (!log.completed) return false;
-                const workoutTime = new Date(log.date);
-                return workoutTime.getHours() >= 20;
-              }).length;
-              progress = nightWorkouts;
-              break;
-              
-            case "workout-weekend-warrior":
-            case "workout-weekend-warrior-25":
-            case "workout-weekend-warrior-50":
-              const weekendWorkouts = workoutStore.workoutLogs.filter(log => {
-                if (!log.completed) return false;
-                const workoutDay = new Date(log.date).getDay();
-                return workoutDay === 0 || workoutDay === 6; // Sunday or Saturday
-              }).length;
-              progress = weekendWorkouts;
-              break;
-              
-            // Streak achievements
-            case "streak-3":
-            case "streak-7":
-            case "streak-14":
-            case "streak-30":
-            case "streak-45":
-            case "streak-60":
-            case "streak-90":
-            case "streak-180":
-            case "streak-365":
-              progress = get().streak.currentStreak;
-              break;
-              
-            // Streak comeback achievement
-            case "streak-comeback":
-            case "streak-comeback-major":
-              // This would need special handling when a user resumes after a break
-              break;
-              
-            // Weekly consistency achievement
-            case "streak-3-weeks":
-            case "streak-weekly-4":
-            case "streak-weekly-5":
-            case "streak-monthly-12":
-              // This would need special tracking of weekly workout counts
-              break;
-              
-            // Weight achievements
-            case "weight-track-7":
-            case "weight-track-30":
-            case "weight-track-90":
-            case "weight-track-180":
-            case "weight-track-365": {
-              // Count consecutive days of weight tracking
-              const weightLogsTrack = healthStore.weightLogs;
-              if (weightLogsTrack.length > 0) {
-                const sortedLogs = [...weightLogsTrack].sort(
-                  (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-                );
-                
-                let consecutiveDays = 1;
-                let currentDate = new Date(sortedLogs[0].date);
-                
-                for (let i = 1; i < sortedLogs.length; i++) {
-                  const prevDate = new Date(sortedLogs[i].date);
-                  const diffTime = Math.abs(currentDate.getTime() - prevDate.getTime());
-                  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-                  
-                  if (diffDays === 1) {
-                    consecutiveDays++;
-                    currentDate = prevDate;
-                  } else {
-                    break;
-                  }
-                }
-                
-                progress = consecutiveDays;
-              }
-              break;
-            }
-              
-            case "weight-loss-1":
-            case "weight-loss-5":
-            case "weight-loss-10":
-            case "weight-loss-15":
-            case "weight-loss-20": {
-              // Calculate weight loss from first to latest log
-              const weightLogsLoss = healthStore.weightLogs;
-              if (weightLogsLoss.length >= 2) {
-                const sortedLogs = [...weightLogsLoss].sort(
-                  (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-                );
-                
-                const firstWeight = sortedLogs[0].weight;
-                const latestWeight = sortedLogs[sortedLogs.length - 1].weight;
-                const weightLoss = Math.max(0, firstWeight - latestWeight);
-                
-                progress = weightLoss;
-              }
-              break;
-            }
-              
-            case "weight-goal-reached":
-              // This would need to be checked against the user's weight goal
-              break;
-              
-            case "weight-maintain-30":
-            case "weight-maintain-90":
-            case "weight-maintain-180":
-            case "weight-maintain-365":
-              // These would need special tracking of weight maintenance
-              break;
-              
-            case "weight-bmi-healthy":
-              // This would need BMI calculation
-              break;
-              
-            // Steps achievements
-            case "steps-5000":
-            case "steps-10000":
-            case "steps-15000":
-            case "steps-20000":
-            case "steps-25000":
-            case "steps-30000":
-            case "steps-35000":
-            case "steps-40000":
-            case "steps-50000":
-              // Get today's steps
-              const todaySteps = healthStore.getStepsForDate(new Date().toISOString())?.steps || 0;
-              progress = todaySteps;
-              break;
-              
-            case "steps-100k":
-              // Calculate weekly steps
-              const weeklySteps = healthStore.getStepsForWeek()
-                .reduce((total, log) => total + log.steps, 0);
-              progress = weeklySteps;
-              break;
-              
-            case "steps-250k":
-            case "steps-500k":
-            case "steps-750k":
-              // Calculate monthly steps
-              const monthlySteps = healthStore.getStepsForMonth()
-                .reduce((total, log) => total + log.steps, 0);
-              progress = monthlySteps;
-              break;
-              
-            case "steps-1m":
-            case "steps-2m":
-            case "steps-5m":
-              // Calculate total steps
-              const totalSteps = healthStore.stepLogs
-                .reduce((total, log) => total + log.steps, 0);
-              progress = totalSteps;
-              break;
-              
-            case "steps-streak-7":
-            case "steps-streak-30":
-            case "steps-streak-60":
-            case "steps-streak-90":
-            case "steps-streak-180":
-            case "steps-streak-365":
-              // These would need special tracking of step streaks
-              break;
-              
-            case "steps-weekend-50k":
-            case "steps-weekend-100k":
-              // This would need special tracking of weekend steps
-              break;
-              
-            // Special achievements
-            case "special-first-photo":
-            case "special-photo-series":
-            case "special-photo-series-12":
-              // These would need to be integrated with the photo store
-              break;
-              
-            default:
-              // Other achievements will be updated directly from their respective actions
-              break;
-          }
-          
-          // Update progress if needed
-          if (progress > 0 && progress !== achievement.progress) {
-            updateAchievementProgress(achievement.id, progress);
-            
-            // Check if achievement should be unlocked
-            if (progress >= achievement.target && !achievement.completed) {
-              unlockAchievement(achievement.id);
-            }
-          }
+        // Only rules that depend on this event can have moved
+        const affected = get().achievements.filter(achievement => {
+          const rule = getAchievementRule(achievement);
+          return rule !== undefined && isRuleAffectedBy(rule, event);
         });
+        evaluateAchievements(affected, get);
+      },
+      
+      installAchievementPack: (json) => {
+        const pack = parseAchievementPack<Achievement>(json, isInstallableAchievement);
+        if (!pack) return false;
+        
+        const existingIds = new Set(get().achievements.map(a => a.id));
+        const added = pack.achievements
+          .filter(achievement => !existingIds.has(achievement.id))
+          .map(achievement => ({ ...achievement, progress: 0, completed: false }));
+        
+        set(state => ({ achievements: [...state.achievements, ...added] }));
+        get().checkAchievements();
+        return true;
       },
       
       unlockAchievement: (achievementId) => {
@@ -4266,6 +4202,8 @@ export const useGamificationStore = create<GamificationState>()(
             }
           };
         });
+        
+        get().recordAchievementEvent("streak_updated");
       },
       
       resetStreak: () => {
@@ -4351,18 +4289,23 @@ export const useGamificationStore = create<GamificationState>()(
         // Skip if gamification is disabled
         if (!get().gamificationEnabled) return;
         
-        const today = new Date().toISOString().split('T')[0]; // Get today's date as YYYY-MM-DD
+        // Settle quests that can only be judged once their period is over
+        get().checkAndAutoCompleteQuests();
         
-        // Check if we already have quests for today
-        const existingQuests = get().dailyQuests;
-        const todayQuests = existingQuests.filter(q => q.date.startsWith(today));
-        
-        // Only generate new quests if we don't have any for today
-        if (todayQuests.length === 0) {
-          set({
-            dailyQuests: generateDefaultDailyQuests()
-          });
-        }
+        (["daily", "weekly", "monthly"] as QuestTier[]).forEach(tier => {
+          const key = QUEST_LIST_KEYS[tier];
+          
+          // Only generate new quests once the current ones have expired
+          if (get()[key].some(quest => isQuestCurrent(quest))) return;
+          
+          set(state => ({
+            [key]: generateQuestsForTier(tier),
+            // A new week brings back a reroll token
+            questRerollTokens: tier === "weekly"
+              ? Math.min(state.questRerollTokens + 1, QUEST_REROLL_TOKENS_MAX)
+              : state.questRerollTokens
+          }));
+        });
       },
       
       completeDailyQuest: (questId) => {
@@ -4370,15 +4313,26 @@ export const useGamificationStore = create<GamificationState>()(
         if (!get().gamificationEnabled) return;
         
         set(state => {
-          const quest = state.dailyQuests.find(q => q.id === questId);
+          const quest = [...state.dailyQuests, ...state.weeklyQuests, ...state.monthlyQuests]
+            .find(q => q.id === questId);
           
           if (!quest || quest.completed) {
             return state;
           }
           
+          // Quests with criteria only complete once the logged activity meets them
+          if (quest.criteria) {
+            const end = getQuestEnd(quest);
+            const progress = measureQuestMetric(quest.criteria.metric, buildQuestActivity(), new Date(quest.date), end);
+            if (!isQuestCriteriaMet(quest.criteria, progress, Date.now() >= end.getTime())) {
+              return state;
+            }
+          }
+          
           // Mark quest as completed and add points
+          const key = QUEST_LIST_KEYS[quest.tier || "daily"];
           return {
-            dailyQuests: state.dailyQuests.map(q => 
+            [key]: state[key].map(q => 
               q.id === questId ? { ...q, completed: true } : q
             ),
             points: state.points + quest.points
@@ -4390,81 +4344,62 @@ export const useGamificationStore = create<GamificationState>()(
         // Skip if gamification is disabled
         if (!get().gamificationEnabled) return;
         
-        const today = new Date().toISOString().split('T')[0];
-        
         set(state => ({
-          dailyQuests: state.dailyQuests.filter(q => !q.date.startsWith(today))
+          dailyQuests: state.dailyQuests.filter(q => !isQuestCurrent(q))
+        }));
+      },
+      
+      rerollQuest: (questId) => {
+        // Skip if gamification is disabled
+        if (!get().gamificationEnabled) return false;
+        
+        const state = get();
+        const quest = [...state.dailyQuests, ...state.weeklyQuests, ...state.monthlyQuests]
+          .find(q => q.id === questId);
+        if (!quest || quest.completed || state.questRerollTokens <= 0) return false;
+        
+        const tier = quest.tier || "daily";
+        const key = QUEST_LIST_KEYS[tier];
+        const inUse = state[key].map(q => q.templateId).filter((id): id is string => !!id);
+        const template = pickRerollTemplate(tier, inUse);
+        if (!template) return false;
+        
+        const replacement = createQuest(template, state.getUserFitnessLevel());
+        set(current => ({
+          [key]: current[key].map(q => q.id === questId ? replacement : q),
+          questRerollTokens: current.questRerollTokens - 1
         }));
+        get().checkAndAutoCompleteQuests();
+        return true;
       },
 
-      // New method to automatically check and complete quests based on health data
+      // Measures every open quest against its criteria and completes the ones that are met
       checkAndAutoCompleteQuests: () => {
         // Skip if gamification is disabled
         if (!get().gamificationEnabled) return;
         
-        const { dailyQuests, completeDailyQuest } = get();
-        const healthStore = useHealthStore.getState();
+        const { dailyQuests, weeklyQuests, monthlyQuests, completeDailyQuest } = get();
+        const activity = buildQuestActivity();
+        const now = new Date();
         
-        // Get today's active quests using YYYY-MM-DD format
-        const today = new Date().toISOString().split('T')[0];
-        const activeQuests = dailyQuests.filter(q => 
-          q.date.startsWith(today) && !q.completed
+        const openQuests = [...dailyQuests, ...weeklyQuests, ...monthlyQuests].filter(q => 
+          !q.completed && q.criteria
         );
         
-        activeQuests.forEach(quest => {
-          let shouldComplete = false;
+        openQuests.forEach(quest => {
+          const criteria = quest.criteria!;
+          const end = getQuestEnd(quest);
+          const progress = measureQuestMetric(criteria.metric, activity, new Date(quest.date), end);
           
-          switch (quest.category) {
-            case 'steps': {
-              // Check step-based quests
-              const stepCount = healthStore.stepCount || 0;
-              const stepMatches = quest.description.match(/(\d+)\s*(steps|step)/i);
-              
-              if (stepMatches) {
-                const targetSteps = parseInt(stepMatches[1]);
-                shouldComplete = stepCount >= targetSteps;
-              }
-              break;
-            }
-            
-            case 'nutrition': {
-              // Check water intake quests
-              const waterIntake = healthStore.waterIntake || [];
-              const today = new Date().toDateString();
-              
-              // Calculate today's water intake in ml
-              const todayWaterIntake = waterIntake
-                .filter(entry => new Date(entry.date).toDateString() === today)
-                .reduce((total, entry) => total + entry.amount, 0);
-              
-              // Check for glass-based quests (e.g., "6 glasses")
-              const glassMatches = quest.description.match(/(\d+)\s*(glasses|glass)/i);
-              if (glassMatches) {
-                const targetGlasses = parseInt(glassMatches[1]);
-                const glassSize = 250; // ml per glass
-                const targetWater = targetGlasses * glassSize;
-                shouldComplete = todayWaterIntake >= targetWater;
-              }
-              
-              // Check for liter-based quests (e.g., "2L")
-              const literMatches = quest.description.match(/(\d+(?:\.\d+)?)\s*(l|liter|liters)/i);
-              if (literMatches && !shouldComplete) {
-                const targetLiters = parseFloat(literMatches[1]);
-                const targetWater = targetLiters * 1000; // Convert to ml
-                shouldComplete = todayWaterIntake >= targetWater;
-              }
-              break;
-            }
-            
-            case 'workout': {
-              // Workout quests are handled manually when workouts are completed
-              // This is already implemented in workoutStore.ts
-              break;
-            }
+          if (progress !== quest.progress) {
+            const key = QUEST_LIST_KEYS[quest.tier || "daily"];
+            set(state => ({
+              [key]: state[key].map(q => q.id === quest.id ? { ...q, progress } : q)
+            }));
           }
           
           // Auto-complete the quest if conditions are met
-          if (shouldComplete) {
+          if (isQuestCriteriaMet(criteria, progress, now.getTime() >= end.getTime())) {
             completeDailyQuest(quest.id);
             
             // Show a brief celebration for auto-completed quests
@@ -4569,11 +4504,7 @@ export const useGamificationStore = create<GamificationState>()(
         // Return empty array if gamification is disabled
         if (!gamificationEnabled) return [];
         
-        const today = new Date().toDateString();
-        
-        return dailyQuests.filter(q => 
-          new Date(q.date).toDateString() === today && !q.completed
-        );
+        return dailyQuests.filter(q => isQuestCurrent(q) && !q.completed);
       },
       
       getStreakInfo: () => {
@@ -4799,52 +4730,7 @@ export const useGamificationStore = create<GamificationState>()(
       },
 
       generateBeginnerFriendlyQuests: () => {
-        const today = new Date().toISOString();
-        
-        const beginnerQuests: DailyQuest[] = [
-          {
-            id: `quest-beginner-workout-${Date.now()}`,
-            title: "First Steps",
-            description: "Complete a 15-minute beginner workout",
-            completed: false,
-            date: today,
-            points: 15,
-            category: "workout",
-            fitnessLevel: ['beginner']
-          },
-          {
-            id: `quest-beginner-steps-${Date.now()}`,
-            title: "Daily Walk",
-            description: "Take 5,000 steps today",
-            completed: false,
-            date: today,
-            points: 10,
-            category: "steps",
-            fitnessLevel: ['beginner']
-          },
-          {
-            id: `quest-beginner-water-${Date.now()}`,
-            title: "Stay Hydrated",
-            description: "Drink 6 glasses of water today",
-            completed: false,
-            date: today,
-            points: 8,
-            category: "nutrition",
-            fitnessLevel: ['beginner']
-          },
-          {
-            id: `quest-beginner-stretch-${Date.now()}`,
-            title: "Gentle Stretch",
-            description: "Do 5 minutes of stretching",
-            completed: false,
-            date: today,
-            points: 10,
-            category: "workout",
-            fitnessLevel: ['beginner']
-          }
-        ];
-        
-        return beginnerQuests;
+        return generateQuestsForTier("daily", 'beginner');
       }
     }),
     {
@@ -1,10 +1,11 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { WeightLog, StepLog, HealthGoals, HealthDevice, ActivityLog, WaterIntake, DeviceSync, DeviceData, DailyNote } from "@/types";
+import { encryptedStorage } from "@/utils/encryptedStorage";
+import { WeightLog, StepLog, HealthGoals, HealthDevice, ActivityLog, WaterIntake, DeviceSync, DeviceData, DailyNote, HeartRateSample } from "@/types";
 import { Platform } from "react-native";
 import HealthKitService from "../src/services/HealthKitService";
 import { useGamificationStore } from "./gamificationStore";
+import { useConsentStore } from "./consentStore";
 
 // Initialize HealthKit service
 let healthKitInitialized = false;
@@ -21,6 +22,9 @@ const initializeHealthKit = async () => {
   }
 };
 
+// HealthKit is only read or written while the user consents to the sync
+const hasHealthKitConsent = () => useConsentStore.getState().hasConsent('healthKitSync');
+
 
 interface HealthState {
   weightLogs: WeightLog[];
@@ -55,6 +59,8 @@ interface HealthState {
   addActivityLog: (log: ActivityLog) => void;
   updateActivityLog: (log: ActivityLog) => void;
   removeActivityLog: (id: string) => void;
+  // Adds logs that are not already stored (matched by externalId), returns how many were added
+  importActivityLogs: (logs: ActivityLog[]) => number;
   
   updateHealthGoals: (goals: HealthGoals) => void;
   
@@ -180,6 +186,11 @@ export const useHealthStore = create<HealthState>()(
       
           return state;
         }
+        
+        setTimeout(() => {
+          useGamificationStore.getState().recordAchievementEvent("weight_logged");
+        }, 100);
+        
         return {
           weightLogs: [...state.weightLogs, log]
         };
@@ -199,6 +210,10 @@ export const useHealthStore = create<HealthState>()(
       })),
       
       addStepLog: (log) => set((state) => {
+        setTimeout(() => {
+          useGamificationStore.getState().recordAchievementEvent("steps_logged");
+        }, 100);
+        
         // Check if a log for this date already exists
         const existingLogIndex = state.stepLogs.findIndex(
           l => new Date(l.date).toDateString() === new Date(log.date).toDateString()
@@ -233,6 +248,21 @@ export const useHealthStore = create<HealthState>()(
         activityLogs: state.activityLogs.filter(l => l.id !== id)
       })),
       
+      importActivityLogs: (logs) => {
+        const existingIds = new Set(
+          get().activityLogs.map(l => l.externalId).filter(Boolean)
+        );
+        const newLogs = logs.filter(log => !log.externalId || !existingIds.has(log.externalId));
+        
+        if (newLogs.length > 0) {
+          set((state) => ({
+            activityLogs: [...state.activityLogs, ...newLogs]
+          }));
+        }
+        
+        return newLogs.length;
+      },
+      
       updateHealthGoals: (goals) => set({ healthGoals: goals }),
       
       addDevice: (device) => set((state) => ({
@@ -370,6 +400,7 @@ export const useHealthStore = create<HealthState>()(
                 deviceId: device.id,
                 externalId: activityData.externalId,
                 heartRate: activityData.heartRate,
+                heartRateSamples: activityData.heartRateSamples,
                 elevationGain: activityData.elevationGain,
                 route: activityData.route
               });
@@ -541,6 +572,10 @@ export const useHealthStore = create<HealthState>()(
             stepLogs: [...state.stepLogs, newLog]
           }));
         }
+        
+        setTimeout(() => {
+          useGamificationStore.getState().recordAchievementEvent("steps_logged");
+        }, 100);
       },
       
       getCaloriesForDate: (date) => {
@@ -789,6 +824,11 @@ export const useHealthStore = create<HealthState>()(
           return false;
         }
         
+        if (!hasHealthKitConsent()) {
+          console.warn("HealthKit import skipped: no consent to sync");
+          return false;
+        }
+        
         try {
       
           
@@ -840,20 +880,40 @@ export const useHealthStore = create<HealthState>()(
               // Get REAL workout data from HealthKit
               const workouts = await HealthKitService.getWorkouts(start, end);
               
-              realData.activities = workouts.map((workout: any, index: number) => ({
-                externalId: `healthkit_${Date.now()}_${index}`,
-                type: workout.type || "other",
-                date: workout.startDate?.toISOString() || start.toISOString(),
-                duration: Math.round((new Date(workout.endDate).getTime() - new Date(workout.startDate).getTime()) / 60000), // minutes
-                distance: workout.distance || 0,
-                calories: workout.energyBurned || 0,
-                isOutdoor: true, // Assume outdoor for now
-                heartRate: {
-                  avg: 0, // HealthKit doesn't provide this in basic workout data
-                  max: 0,
-                  min: 0
-                },
-                elevationGain: 0
+              realData.activities = await Promise.all(workouts.map(async (workout: any, index: number) => {
+                // Heart rate is stored separately from the workout, so read the samples for its time window
+                let heartRateSamples: HeartRateSample[] = [];
+                try {
+                  const samples = await HealthKitService.getHeartRateSamples(
+                    new Date(workout.startDate),
+                    new Date(workout.endDate)
+                  );
+                  heartRateSamples = samples.map((sample: any) => ({
+                    timestamp: new Date(sample.startDate).getTime(),
+                    bpm: Math.round(sample.value)
+                  }));
+                } catch (error) {
+                  console.warn("[HealthStore] Heart rate not available for workout:", error);
+                }
+                
+                const bpms = heartRateSamples.map(sample => sample.bpm);
+                
+                return {
+                  externalId: `healthkit_${Date.now()}_${index}`,
+                  type: workout.type || "other",
+                  date: workout.startDate?.toISOString() || start.toISOString(),
+                  duration: Math.round((new Date(workout.endDate).getTime() - new Date(workout.startDate).getTime()) / 60000), // minutes
+                  distance: workout.distance || 0,
+                  calories: workout.energyBurned || 0,
+                  isOutdoor: true, // Assume outdoor for now
+                  heartRate: bpms.length > 0 ? {
+                    avg: Math.round(bpms.reduce((sum, bpm) => sum + bpm, 0) / bpms.length),
+                    max: bpms.reduce((max, bpm) => Math.max(max, bpm), 0),
+                    min: bpms.reduce((min, bpm) => Math.min(min, bpm), Infinity)
+                  } : undefined,
+                  heartRateSamples,
+                  elevationGain: 0
+                };
               }));
               
           
@@ -885,7 +945,7 @@ export const useHealthStore = create<HealthState>()(
       
       // HealthKit sync methods
       syncWeightFromHealthKit: async () => {
-        if (Platform.OS !== 'ios') {
+        if (Platform.OS !== 'ios' || !hasHealthKitConsent()) {
           return;
         }
         
@@ -947,7 +1007,7 @@ export const useHealthStore = create<HealthState>()(
       },
       
       syncStepsFromHealthKit: async () => {
-        if (Platform.OS !== 'ios') {
+        if (Platform.OS !== 'ios' || !hasHealthKitConsent()) {
           return;
         }
         
@@ -978,7 +1038,7 @@ export const useHealthStore = create<HealthState>()(
         },
         
         writeWeightToHealthKit: async (weight: number, date: Date) => {
-          if (Platform.OS !== 'ios') {
+          if (Platform.OS !== 'ios' || !hasHealthKitConsent()) {
             return false;
           }
           
@@ -1019,7 +1079,7 @@ export const useHealthStore = create<HealthState>()(
 
         // Swimming sync methods
         syncSwimmingFromHealthKit: async () => {
-          if (Platform.OS !== 'ios') return false;
+          if (Platform.OS !== 'ios' || !hasHealthKitConsent()) return false;
           
           try {
             // Initialize HealthKit if not already done
@@ -1124,7 +1184,7 @@ export const useHealthStore = create<HealthState>()(
     }),
     {
       name: "health-storage",
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => encryptedStorage),
     }
   )
 );
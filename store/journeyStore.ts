@@ -2,6 +2,7 @@ import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useHealthStore } from "./healthStore";
+import { useConsentStore } from "./consentStore";
 
 // Norway-specific data
 export interface NorwegianLandmark {
@@ -441,6 +442,7 @@ export const useJourneyStore = create<JourneyState>()(
       syncWithHealthKit: async () => {
         const { settings } = get();
         if (!settings.enabled || !settings.autoSync) return;
+        if (!useConsentStore.getState().hasConsent('journeyLocation')) return;
         
         try {
           const healthStore = useHealthStore.getState();
@@ -1,23 +1,18 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { MacroGoals, MacroLog, UserProfile, FoodCategory } from "@/types";
+import { encryptedStorage } from "@/utils/encryptedStorage";
+import { MacroGoals, MacroLog, UserProfile, FoodCategory, Micronutrients } from "@/types";
 import { foodCategories, getFoodCategoriesByMealType } from "@/mocks/foodCategories";
-
-export interface MacroLog {
-  id: string;
-  date: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  notes?: string;
-}
+import { useGamificationStore } from "./gamificationStore";
+import { sumMicronutrients } from "@/utils/micronutrients";
 
 interface MacroState {
   macroLogs: MacroLog[];
   macroGoals: MacroGoals;
   userProfile: UserProfile;
+  // Chosen rate toward targetWeight for adaptive goals, kg per week
+  weeklyWeightChangeRate: number;
+  lastGoalAdjustmentDate: string | null;
   
   // Actions
   addMacroLog: (log: MacroLog) => void;
@@ -25,6 +20,8 @@ interface MacroState {
   removeMacroLog: (id: string) => void;
   
   updateMacroGoals: (goals: MacroGoals) => void;
+  setWeeklyWeightChangeRate: (rate: number) => void;
+  applyGoalAdjustment: (goals: MacroGoals) => void;
   updateUserProfile: (profile: UserProfile) => void;
   
   calculateDailyMacros: (date: string) => {
@@ -32,6 +29,7 @@ interface MacroState {
     protein: number;
     carbs: number;
     fat: number;
+    micronutrients: Micronutrients;
   };
   
   getMacroLogsByMealType: (date: string, mealType: string) => MacroLog[];
@@ -71,10 +69,20 @@ export const useMacroStore = create<MacroState>()(
       macroLogs: [],
       macroGoals: defaultMacroGoals,
       userProfile: defaultUserProfile,
+      weeklyWeightChangeRate: 0.5,
+      lastGoalAdjustmentDate: null,
       
-      addMacroLog: (log) => set((state) => ({
-        macroLogs: [...state.macroLogs, log]
-      })),
+      addMacroLog: (log) => {
+        set((state) => ({
+          macroLogs: [...state.macroLogs, log]
+        }));
+        
+        setTimeout(() => {
+          const gamificationStore = useGamificationStore.getState();
+          gamificationStore.recordAchievementEvent("food_logged");
+          gamificationStore.checkAndAutoCompleteQuests();
+        }, 100);
+      },
       
       updateMacroLog: (log) => set((state) => ({
         macroLogs: state.macroLogs.map(l => l.id === log.id ? log : l)
@@ -86,6 +94,13 @@ export const useMacroStore = create<MacroState>()(
       
       updateMacroGoals: (goals) => set({ macroGoals: goals }),
       
+      setWeeklyWeightChangeRate: (rate) => set({ weeklyWeightChangeRate: rate }),
+      
+      applyGoalAdjustment: (goals) => set({
+        macroGoals: goals,
+        lastGoalAdjustmentDate: new Date().toISOString()
+      }),
+      
       updateUserProfile: (profile) => set((state) => {
         // Recalculate macro goals based on new profile
         const newGoals = calculateMacroGoals(profile);
@@ -102,12 +117,17 @@ export const useMacroStore = create<MacroState>()(
           new Date(log.date).toDateString() === new Date(date).toDateString()
         );
         
-        return dayLogs.reduce((acc, log) => ({
+        const totals = dayLogs.reduce((acc, log) => ({
           calories: acc.calories + log.calories,
           protein: acc.protein + log.protein,
           carbs: acc.carbs + log.carbs,
           fat: acc.fat + log.fat,
         }), { calories: 0, protein: 0, carbs: 0, fat: 0 });
+        
+        return {
+          ...totals,
+          micronutrients: sumMicronutrients(dayLogs.map(log => log.micronutrients)),
+        };
       },
       
       getMacroLogsByMealType: (date, mealType) => {
@@ -146,7 +166,7 @@ export const useMacroStore = create<MacroState>()(
     }),
     {
       name: "macro-storage",
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => encryptedStorage),
     }
   )
 );
@@ -1,10 +1,17 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Meal } from '../types';
+import { encryptedStorage } from '../utils/encryptedStorage';
+import { Meal, MacroLog, Recipe, ScheduledMeal } from '../types';
+import { useMacroStore } from './macroStore';
+import { calculateRecipePortion, RecipePortionUnit } from '../utils/nutritionUtils';
+import { findPlanMeal, getWeekDates, toDateKey } from '../utils/mealPlanner';
 
 interface MealState {
   meals: Meal[];
+  recipes: Recipe[];
+  plannedMeals: ScheduledMeal[];
+  planRestrictions: string[];
+  checkedShoppingItems: string[];
   currentMeal: Meal | null;
   isLoading: boolean;
   error: string | null;
@@ -14,6 +21,16 @@ interface MealState {
   addMeal: (meal: Meal) => void;
   updateMeal: (id: string, updates: Partial<Meal>) => void;
   deleteMeal: (id: string) => void;
+  getRecipeById: (id: string) => Recipe | null;
+  saveRecipe: (recipe: Recipe) => void;
+  deleteRecipe: (id: string) => void;
+  logRecipePortion: (recipeId: string, amount: number, unit: RecipePortionUnit, mealType?: string) => MacroLog | null;
+  setWeekPlan: (weekStart: Date, plannedMeals: ScheduledMeal[]) => void;
+  setPlanRestrictions: (restrictions: string[]) => void;
+  removePlannedMeal: (id: string) => void;
+  logPlannedMeal: (id: string) => MacroLog | null;
+  toggleShoppingItem: (key: string) => void;
+  clearCheckedShoppingItems: () => void;
   clearError: () => void;
 }
 
@@ -21,6 +38,10 @@ export const useMealStore = create<MealState>()(
   persist(
     (set, get) => ({
       meals: [],
+      recipes: [],
+      plannedMeals: [],
+      planRestrictions: [],
+      checkedShoppingItems: [],
       currentMeal: null,
       isLoading: false,
       error: null,
@@ -55,13 +76,124 @@ export const useMealStore = create<MealState>()(
         }));
       },
 
+      getRecipeById: (id: string) => {
+        return get().recipes.find(recipe => recipe.id === id) || null;
+      },
+
+      // Adds the recipe, or replaces the one with the same id
+      saveRecipe: (recipe: Recipe) => {
+        const saved = { ...recipe, updatedAt: new Date().toISOString() };
+        set(state => ({
+          recipes: state.recipes.some(existing => existing.id === recipe.id)
+            ? state.recipes.map(existing => existing.id === recipe.id ? saved : existing)
+            : [...state.recipes, saved]
+        }));
+      },
+
+      deleteRecipe: (id: string) => {
+        set(state => ({
+          recipes: state.recipes.filter(recipe => recipe.id !== id)
+        }));
+      },
+
+      logRecipePortion: (recipeId, amount, unit, mealType) => {
+        const recipe = get().getRecipeById(recipeId);
+        if (!recipe || !(amount > 0)) return null;
+
+        const nutrition = calculateRecipePortion(recipe, amount, unit);
+        const portion = unit === 'serving'
+          ? `${amount} serving${amount === 1 ? '' : 's'}`
+          : `${amount}g`;
+        const log: MacroLog = {
+          id: Date.now().toString(),
+          date: new Date().toISOString(),
+          calories: nutrition.calories,
+          protein: nutrition.protein,
+          carbs: nutrition.carbs,
+          fat: nutrition.fat,
+          notes: `${recipe.name} (${portion})`,
+          mealType,
+          micronutrients: nutrition.micronutrients,
+        };
+        useMacroStore.getState().addMacroLog(log);
+        return log;
+      },
+
+      // Replaces the week's meals that haven't been eaten yet
+      setWeekPlan: (weekStart: Date, plannedMeals: ScheduledMeal[]) => {
+        const weekDates = getWeekDates(weekStart).map(toDateKey);
+        set(state => ({
+          plannedMeals: [
+            ...state.plannedMeals.filter(entry =>
+              entry.completed || !entry.date || !weekDates.includes(entry.date)
+            ),
+            ...plannedMeals
+          ],
+          checkedShoppingItems: []
+        }));
+      },
+
+      setPlanRestrictions: (restrictions: string[]) => {
+        set({ planRestrictions: restrictions });
+      },
+
+      removePlannedMeal: (id: string) => {
+        set(state => ({
+          plannedMeals: state.plannedMeals.filter(entry => entry.id !== id)
+        }));
+      },
+
+      logPlannedMeal: (id: string) => {
+        const entry = get().plannedMeals.find(planned => planned.id === id);
+        const meal = entry ? findPlanMeal(entry.mealId) : null;
+        if (!entry || !meal || entry.completed) return null;
+
+        // Meals planned for a later day can't have been eaten yet
+        const todayKey = toDateKey(new Date());
+        if (entry.date && entry.date > todayKey) return null;
+
+        // Meals ticked off on a later day are logged at their planned time
+        const eatenAt = entry.date && entry.date !== todayKey
+          ? new Date(`${entry.date}T${entry.time}`)
+          : new Date();
+        const log: MacroLog = {
+          id: Date.now().toString(),
+          date: eatenAt.toISOString(),
+          calories: meal.calories,
+          protein: meal.protein,
+          carbs: meal.carbs,
+          fat: meal.fat,
+          notes: meal.name,
+          mealType: entry.mealType,
+        };
+        useMacroStore.getState().addMacroLog(log);
+        set(state => ({
+          plannedMeals: state.plannedMeals.map(planned =>
+            planned.id === id ? { ...planned, completed: true, macroLogId: log.id } : planned
+          )
+        }));
+        return log;
+      },
+
+      toggleShoppingItem: (key: string) => {
+        set(state => ({
+          checkedShoppingItems: state.checkedShoppingItems.includes(key)
+            ? state.checkedShoppingItems.filter(checked => checked !== key)
+            : [...state.checkedShoppingItems, key]
+        }));
+      },
+
+      clearCheckedShoppingItems: () => {
+        set({ checkedShoppingItems: [] });
+      },
+
       clearError: () => {
         set({ error: null });
       }
     }),
     {
       name: 'meal-storage',
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => encryptedStorage),
     }
   )
 ); 
\ No newline at end of file
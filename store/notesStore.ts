@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { encryptedStorage } from '@/utils/encryptedStorage';
 
 export interface DailyNote {
   id: string;
@@ -91,7 +91,7 @@ export const useNotesStore = create<NotesState>()(
     }),
     {
       name: 'notes-storage',
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => encryptedStorage),
     }
   )
 ); 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { encryptedStorage } from "@/utils/encryptedStorage";
 import { Platform } from "react-native";
 import * as Notifications from "expo-notifications";
 import * as SecureStore from "expo-secure-store";
@@ -495,7 +496,7 @@ export const useNotificationStoreState = create<NotificationState>()(
           const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
           
           // Get goal details to customize reminder messages
-          const goal = await AsyncStorage.getItem('ai-storage');
+          const goal = await encryptedStorage.getItem('ai-storage');
           let goalText = "your fitness goal";
           let goalCategory = "other";
           let waterBottleSize: number | undefined;
@@ -1,6 +1,6 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { encryptedStorage } from "@/utils/encryptedStorage";
 import { Platform } from "react-native";
 
 // Conditionally import RNFS only for native platforms
@@ -585,7 +585,7 @@ export const usePhotoStore = create<PhotoState>()(
     }),
     {
       name: "photo-storage",
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => encryptedStorage),
     }
   )
 );
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ExerciseLog, ProgramEnrollment, ScheduledWorkout, TrainingProgram } from "@/types";
+import { trainingPrograms } from "@/mocks/programs";
+import {
+  buildProgramWorkouts,
+  buildSessionExerciseLogs,
+  expandProgramSchedule,
+} from "@/utils/programUtils";
+import { useWorkoutStore } from "./workoutStore";
+
+export interface EnrollmentOptions {
+  startDate: string;
+  trainingDays: number[];
+  time: string;
+  oneRepMaxes: Record<string, number>;
+}
+
+interface ProgramState {
+  enrollments: ProgramEnrollment[];
+
+  // Actions
+  enrollInProgram: (programId: string, options: EnrollmentOptions) => ProgramEnrollment | null;
+  cancelEnrollment: (enrollmentId: string) => void;
+  updateOneRepMax: (enrollmentId: string, exerciseId: string, oneRepMax: number) => void;
+  completeProgramSession: (scheduledWorkout: ScheduledWorkout) => void;
+
+  // Getters
+  getPrograms: () => TrainingProgram[];
+  getProgram: (programId: string) => TrainingProgram | null;
+  getActiveEnrollment: () => ProgramEnrollment | null;
+  getSessionExerciseLogs: (scheduledWorkout: ScheduledWorkout) => ExerciseLog[] | null;
+}
+
+export const useProgramStore = create<ProgramState>()(
+  persist(
+    (set, get) => ({
+      enrollments: [],
+
+      enrollInProgram: (programId, options) => {
+        const program = get().getProgram(programId);
+        if (!program) {
+          console.error(`[ProgramStore] Unknown program: ${programId}`);
+          return null;
+        }
+        if (options.trainingDays.length < program.daysPerWeek) {
+          console.error(`[ProgramStore] ${program.name} needs ${program.daysPerWeek} training days`);
+          return null;
+        }
+
+        // Only one program runs at a time
+        const active = get().getActiveEnrollment();
+        if (active) {
+          get().cancelEnrollment(active.id);
+        }
+
+        const enrollment: ProgramEnrollment = {
+          id: Date.now().toString(),
+          programId,
+          startDate: options.startDate,
+          trainingDays: options.trainingDays,
+          time: options.time,
+          oneRepMaxes: options.oneRepMaxes,
+          status: "active",
+          completedSessionIds: [],
+          createdAt: new Date().toISOString(),
+        };
+
+        // Make each program day available as a regular workout
+        const workoutStore = useWorkoutStore.getState();
+        buildProgramWorkouts(program).forEach(workout => {
+          if (!workoutStore.workouts.some(w => w.id === workout.id)) {
+            workoutStore.addWorkout(workout);
+          }
+        });
+
+        expandProgramSchedule(program, enrollment).forEach(session => {
+          workoutStore.scheduleWorkout(session);
+        });
+
+        set((state) => ({
+          enrollments: [...state.enrollments, enrollment]
+        }));
+
+        return enrollment;
+      },
+
+      cancelEnrollment: (enrollmentId) => {
+        // Drop the sessions that have not been done yet; completed ones stay in the history
+        const workoutStore = useWorkoutStore.getState();
+        workoutStore.scheduledWorkouts
+          .filter(sw => sw.programSession?.enrollmentId === enrollmentId && !sw.completed)
+          .forEach(sw => workoutStore.removeScheduledWorkout(sw.id));
+
+        set((state) => ({
+          enrollments: state.enrollments.map(e =>
+            e.id === enrollmentId && e.status === "active" ? { ...e, status: "cancelled" } : e
+          )
+        }));
+      },
+
+      updateOneRepMax: (enrollmentId, exerciseId, oneRepMax) => {
+        set((state) => ({
+          enrollments: state.enrollments.map(e =>
+            e.id === enrollmentId
+              ? { ...e, oneRepMaxes: { ...e.oneRepMaxes, [exerciseId]: oneRepMax } }
+              : e
+          )
+        }));
+      },
+
+      completeProgramSession: (scheduledWorkout) => {
+        const ref = scheduledWorkout.programSession;
+        if (!ref) return;
+
+        const enrollment = get().enrollments.find(e => e.id === ref.enrollmentId);
+        const program = get().getProgram(ref.programId);
+        if (!enrollment || !program) return;
+
+        const completedSessionIds = enrollment.completedSessionIds.includes(scheduledWorkout.id)
+          ? enrollment.completedSessionIds
+          : [...enrollment.completedSessionIds, scheduledWorkout.id];
+        const totalSessions = expandProgramSchedule(program, enrollment).length;
+
+        set((state) => ({
+          enrollments: state.enrollments.map(e =>
+            e.id === enrollment.id
+              ? {
+                  ...e,
+                  completedSessionIds,
+                  status: e.status === "active" && completedSessionIds.length >= totalSessions ? "completed" : e.status,
+                }
+              : e
+          )
+        }));
+      },
+
+      getPrograms: () => {
+        return trainingPrograms;
+      },
+
+      getProgram: (programId) => {
+        return trainingPrograms.find(p => p.id === programId) || null;
+      },
+
+      getActiveEnrollment: () => {
+        return get().enrollments.find(e => e.status === "active") || null;
+      },
+
+      getSessionExerciseLogs: (scheduledWorkout) => {
+        const ref = scheduledWorkout.programSession;
+        if (!ref) return null;
+
+        const enrollment = get().enrollments.find(e => e.id === ref.enrollmentId);
+        const program = get().getProgram(ref.programId);
+        if (!enrollment || !program) return null;
+
+        return buildSessionExerciseLogs(program, enrollment, ref);
+      },
+    }),
+    {
+      name: "program-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -3,12 +3,25 @@ import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Platform } from "react-native";
 import * as SecureStore from "expo-secure-store";
-import { secureStore, generateEncryptionKey, storeEncryptionKey, getEncryptionVersion } from "@/utils/encryption";
+import {
+  secureStore,
+  getKeyringInfo,
+  getEncryptionVersion,
+  encryptData,
+  decryptData,
+  isLegacyPayload,
+  upgradeEncryptedPayload,
+  discardLegacyEncryptionKey,
+  rotateMasterKey,
+  ENCRYPTION_VERSION,
+} from "@/utils/encryption";
 import * as Crypto from 'expo-crypto';
 import * as Random from 'expo-random';
 import * as FileSystem from 'expo-file-system';
-import { cleanupTempDecryptedFiles, deleteAllEncryptedPhotos } from "@/utils/fileEncryption";
-import { secureDeleteFile, secureWipeAllUserData } from "@/utils/secureDelete";
+import { upgradeEncryptedPhotos } from "@/utils/fileEncryption";
+import { secureWipeSecureStoreKeys } from "@/utils/secureDelete";
+import { eraseUserData, ErasureCategory, WipeReport } from "@/utils/dataErasure";
+import { exportDataArchive, importDataArchive, ArchiveImportResult, ExportArchiveOptions, ImportArchiveOptions } from "@/utils/dataArchive";
 
 interface SecureStoreState {
   hasInitializedEncryption: boolean;
@@ -26,16 +39,17 @@ interface SecureStoreState {
   secureRemove: (key: string) => Promise<void>;
   
   // GDPR compliance
-  exportUserData: () => Promise<string>;
-  deleteUserData: () => Promise<void>;
+  exportUserData: (options?: ExportArchiveOptions) => Promise<string>;
+  importUserData: (archive: string, options?: ImportArchiveOptions) => Promise<ArchiveImportResult>;
+  deleteUserData: (category?: ErasureCategory) => Promise<WipeReport>;
   
   // Secure deletion
-  secureWipeAllData: () => Promise<void>;
   secureWipeStorageKeys: (keys: string[]) => Promise<void>;
   
   // Encryption management
   verifyEncryption: () => Promise<boolean>;
   upgradeEncryption: () => Promise<boolean>;
+  rotateEncryptionKey: () => Promise<boolean>;
 }
 
 // Create a secure storage adapter for zustand
@@ -81,7 +95,7 @@ export const useSecureStore = create<SecureStoreState>()(
     (set, get) => ({
       hasInitializedEncryption: false,
       userConsent: false,
-      encryptionVersion: 2, // Track encryption version for potential future upgrades
+      encryptionVersion: ENCRYPTION_VERSION, // Track encryption version for potential future upgrades
       lastEncryptionCheck: null,
       
       setUserConsent: (consent) => set({ userConsent: consent }),
@@ -121,31 +135,17 @@ export const useSecureStore = create<SecureStoreState>()(
             await secureStore.setItem('device-id', deviceId);
           }
           
-          // Check if encryption key exists, if not create one
-          const key = await secureStore.getItem('encryption-key');
+          // Unlock the keyring, creating it on first run
+          const keyring = await getKeyringInfo();
+          if (!keyring) {
+            throw new Error('Encryption keys are unavailable');
+          }
           
-          if (!key) {
-            // Generate and store a new encryption key
-            const newKey = await generateEncryptionKey();
-            await storeEncryptionKey(newKey);
-            
-            // Store the encryption version
-            await secureStore.setItem('encryption-version', get().encryptionVersion.toString());
-          } else {
-            // Check if we need to upgrade encryption
-            const storedVersion = await getEncryptionVersion();
-            
-            if (storedVersion < get().encryptionVersion) {
-              // In a real app, you would implement migration logic here
-              console.log('Encryption upgrade needed from version', storedVersion, 
-                         'to', get().encryptionVersion);
-              
-              // Update the stored version
-              await secureStore.setItem('encryption-version', get().encryptionVersion.toString());
-              
-              // Perform encryption upgrade
-              await get().upgradeEncryption();
-            }
+          // Payloads written before the keyring are readable only with the legacy key
+          if (keyring.hasLegacyKey) {
+            console.log('Encryption upgrade needed from version', await getEncryptionVersion(),
+                       'to', ENCRYPTION_VERSION);
+            await get().upgradeEncryption();
           }
           
           // Set last encryption check timestamp
@@ -153,6 +153,7 @@ export const useSecureStore = create<SecureStoreState>()(
           await secureStore.setItem('last-encryption-check', now);
           set({ 
             hasInitializedEncryption: true,
+            encryptionVersion: ENCRYPTION_VERSION,
             lastEncryptionCheck: now
           });
         } catch (error) {
@@ -172,133 +173,36 @@ export const useSecureStore = create<SecureStoreState>()(
         await secureStore.removeItem(key);
       },
       
-      exportUserData: async () => {
-        // In a real implementation, this would gather all user data
-        // from various stores and return it in a structured format
-        
-        // For this example, we'll just return a placeholder
-        const userData = {
-          exportDate: new Date().toISOString(),
-          encryptionVersion: get().encryptionVersion,
-          lastEncryptionCheck: get().lastEncryptionCheck,
-          message: "This would contain all user data in a real implementation"
-        };
-        
-        return JSON.stringify(userData, null, 2);
+      exportUserData: async (options) => {
+        // Gather every persisted store (and optionally photos) into a versioned archive
+        return exportDataArchive(options);
       },
       
-      deleteUserData: async () => {
-        // Perform a secure wipe of all user data
-        await get().secureWipeAllData();
-        
-        // Reset the store state
-        set({
-          hasInitializedEncryption: false,
-          userConsent: false,
-          lastEncryptionCheck: null,
-          encryptionVersion: get().encryptionVersion // Keep the version number
-        });
+      importUserData: async (archive, options) => {
+        return importDataArchive(archive, options);
       },
       
-      secureWipeAllData: async () => {
-        if (Platform.OS === 'web') {
-          // For web, clear localStorage and sessionStorage
-          localStorage.clear();
-          sessionStorage.clear();
-          
-          // Clear AsyncStorage
-          await AsyncStorage.clear();
-          return;
-        }
+      deleteUserData: async (category = 'all') => {
+        // Wipe the data, then check that none of it is left behind
+        const report = await eraseUserData(category);
         
-        try {
-          // Use the dedicated function for secure data wiping
-          await secureWipeAllUserData();
-          
-          // Additional cleanup specific to this app
-          
-          // 1. Delete all encrypted photos
-          await deleteAllEncryptedPhotos();
-          
-          // 2. Clean up temporary files
-          await cleanupTempDecryptedFiles();
-          
-          // 3. Clear AsyncStorage
-          await AsyncStorage.clear();
-          
-          // 4. Clear SecureStore keys
-          const keysToDelete = [
-            'encryption-key',
-            'encryption-version',
-            'device-id',
-            'user-profile',
-            'health-data',
-            'workout-data',
-            'notification-settings',
-            'user-profile-secure',
-            'health-data-secure',
-            'workout-data-secure',
-            'last-encryption-check'
-          ];
-          
-          await get().secureWipeStorageKeys(keysToDelete);
-          
-          console.log('All user data securely wiped');
-        } catch (error) {
-          console.error('Error during secure data wipe:', error);
-          throw error;
+        if (category === 'all') {
+          // Reset the store state
+          set({
+            hasInitializedEncryption: false,
+            userConsent: false,
+            lastEncryptionCheck: null,
+            encryptionVersion: get().encryptionVersion // Keep the version number
+          });
         }
+        
+        return report;
       },
       
       secureWipeStorageKeys: async (keys: string[]) => {
-        if (Platform.OS === 'web') {
-          for (const key of keys) {
-            await AsyncStorage.removeItem(key);
-          }
-          return;
-        }
-        
         try {
-          // For each key, first overwrite with random data, then delete
-          for (const key of keys) {
-            try {
-              // Get the current value to determine if it exists
-              const currentValue = await SecureStore.getItemAsync(key);
-              
-              if (currentValue) {
-                // Generate random data of similar length
-                try {
-                  const randomBytes = await Random.getRandomBytesAsync(
-                    Math.max(currentValue.length, 32)
-                  );
-                  const randomData = Array.from(randomBytes)
-                    .map(b => String.fromCharCode(b % 94 + 32)) // Printable ASCII
-                    .join('');
-                  
-                  // Overwrite with random data
-                  await SecureStore.setItemAsync(key, randomData);
-                  
-                  // Overwrite again with zeros
-                  await SecureStore.setItemAsync(key, '0'.repeat(randomData.length));
-                  
-                  // Finally delete
-                  await SecureStore.deleteItemAsync(key);
-                } catch (error) {
-                  console.warn(`Error generating random data for key ${key}:`, error);
-                  // Fallback to simple deletion
-                  await SecureStore.deleteItemAsync(key);
-                }
-              }
-            } catch (keyError) {
-              console.warn(`Error securely wiping key ${key}:`, keyError);
-              // Try regular deletion as fallback
-              try {
-                await SecureStore.deleteItemAsync(key);
-              } catch (deleteError) {
-                console.error(`Failed to delete key ${key}:`, deleteError);
-              }
-            }
-          }
+          // Each key is overwritten before it is deleted
+          await secureWipeSecureStoreKeys(keys);
         } catch (error) {
           console.error('Error during secure key wipe:', error);
           throw error;
@@ -307,23 +211,21 @@ export const useSecureStore = create<SecureStoreState>()(
       
       verifyEncryption: async () => {
         try {
-          // 1. Check if encryption key exists
-          const key = await secureStore.getItem('encryption-key');
-          if (!key) {
-            console.error('Encryption key not found');
+          // 1. Check that the keyring unlocks
+          const keyring = await getKeyringInfo();
+          if (!keyring) {
+            console.error('Encryption keyring not available');
             return false;
           }
           
           // 2. Check encryption version
-          const storedVersion = await getEncryptionVersion();
-          if (storedVersion < get().encryptionVersion) {
-            console.warn(`Encryption version outdated: ${storedVersion} < ${get().encryptionVersion}`);
+          if (keyring.hasLegacyKey) {
+            console.warn(`Encryption version outdated: legacy payloads still need upgrading to ${ENCRYPTION_VERSION}`);
           }
           
           // 3. Test encryption/decryption
           const testData = `Test data ${Date.now()}`;
-          const encrypted = await secureStore.setItem('encryption-test', testData);
-          const decrypted = await secureStore.getItem('encryption-test');
+          const decrypted = await decryptData(await encryptData(testData));
           
           if (decrypted !== testData) {
             console.error('Encryption verification failed: test data mismatch');
@@ -344,23 +246,48 @@ export const useSecureStore = create<SecureStoreState>()(
       
       upgradeEncryption: async () => {
         try {
-          // This would implement logic to re-encrypt data with the new encryption method
-          // For example, you might:
-          // 1. Generate a new encryption key
-          // 2. Decrypt all data with the old key
-          // 3. Re-encrypt with the new key
-          // 4. Update the stored encryption version
+          let failed = 0;
           
-          // For this example, we'll just update the version
-          await secureStore.setItem('encryption-version', get().encryptionVersion.toString());
+          if (Platform.OS === 'web') {
+            // On web, secureStore keeps encrypted values in AsyncStorage
+            const keys = await AsyncStorage.getAllKeys();
+            for (const key of keys) {
+              const value = await AsyncStorage.getItem(key);
+              if (!value || !isLegacyPayload(value)) continue;
+              
+              const upgraded = await upgradeEncryptedPayload(value);
+              if (upgraded) {
+                await AsyncStorage.setItem(key, upgraded);
+              } else {
+                failed++;
+              }
+            }
+          } else {
+            failed += (await upgradeEncryptedPhotos()).failed;
+          }
           
-          // In a real implementation, you would re-encrypt sensitive data here
+          if (failed > 0) {
+            // Keep the legacy key so the remaining items stay readable
+            console.warn(`${failed} encrypted items could not be upgraded`);
+            return false;
+          }
           
+          await discardLegacyEncryptionKey();
+          set({ encryptionVersion: ENCRYPTION_VERSION });
           return true;
         } catch (error) {
           console.error('Error upgrading encryption:', error);
           return false;
         }
+      },
+      
+      rotateEncryptionKey: async () => {
+        // Only the keyring is re-wrapped; encrypted photos and values are untouched
+        const rotated = await rotateMasterKey();
+        if (rotated) {
+          set({ lastEncryptionCheck: new Date().toISOString() });
+        }
+        return rotated;
       }
     }),
     {
@@ -1,12 +1,20 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Exercise, Workout, WorkoutLog, ExerciseLog, WorkoutSet, ScheduledWorkout, WorkoutRating, WorkoutMedia, TimerSettings, BodyRegion, MuscleGroup, EquipmentType, PersonalRecord } from "@/types";
+import { encryptedStorage } from "@/utils/encryptedStorage";
+import { Exercise, Workout, WorkoutLog, ExerciseLog, WorkoutSet, ScheduledWorkout, WorkoutRating, WorkoutMedia, TimerSettings, BodyRegion, MuscleGroup, EquipmentType, PersonalRecord, PersonalRecordType, OneRepMaxFormula, HeartRateSample, ProgressionRule, SetType } from "@/types";
 import { exercises } from "@/mocks/exercises";
 import { workouts } from "@/mocks/workouts";
-import { validateAllWorkouts, validateWorkout, filterWorkoutsForUser } from "@/utils/workoutValidation";
+import { validateAllWorkouts, validateWorkout, filterWorkoutsForUser, getRecoveryWorkouts } from "@/utils/workoutValidation";
+import { calculateTrainingLoad } from "@/utils/heartRateZones";
+import { findDueProgramSession } from "@/utils/programUtils";
+import { applyExerciseGroups, moveExerciseBlock } from "@/utils/exerciseGroups";
+import { getDefaultProgressionRule, getExerciseSessions, suggestNextSession, ProgressionSuggestion } from "@/utils/progression";
+import { getSetVolume, isWorkingSet } from "@/utils/setTypes";
+import { calculateOneRepMax, createPersonalRecord, findPersonalRecord, getRecordValue } from "@/utils/strength";
 import { useMacroStore } from "./macroStore";
+import { useHealthStore } from "./healthStore";
 import { useGamificationStore } from "./gamificationStore";
+import { useProgramStore } from "./programStore";
 
 interface WorkoutState {
   exercises: Exercise[];
@@ -27,6 +35,8 @@ interface WorkoutState {
   aiRecommendationsExplained: boolean;
   longWorkoutNotificationsEnabled: boolean;
   longWorkoutThreshold: number; // in minutes
+  // Per-exercise progression rules; exercises without one use the default for their equipment
+  progressionRules: Record<string, ProgressionRule>;
   
   // Actions
   addExercise: (exercise: Exercise) => void;
@@ -37,7 +47,7 @@ interface WorkoutState {
   updateWorkout: (workout: Workout) => void;
   removeWorkout: (id: string) => void;
   
-  startWorkout: (workoutId: string) => void;
+  startWorkout: (workoutId: string, scheduledWorkoutId?: string) => void;
   completeWorkout: () => void;
   cancelWorkout: () => void;
   rateWorkout: (rating: WorkoutRating) => void;
@@ -48,6 +58,8 @@ interface WorkoutState {
   updateSetWeight: (exerciseIndex: number, setIndex: number, weight: number) => void;
   updateSetReps: (exerciseIndex: number, setIndex: number, reps: number) => void;
   updateSetCompleted: (exerciseIndex: number, setIndex: number, completed: boolean) => void;
+  updateSetDetails: (exerciseIndex: number, setIndex: number, details: Partial<Pick<WorkoutSet, 'type' | 'rpe' | 'rir' | 'tempo'>>) => void;
+  recordSetHeartRate: (exerciseIndex: number, setIndex: number, samples: HeartRateSample[], deviceId?: string) => void;
   updateExerciseNote: (exerciseIndex: number, note: string) => void;
   updateWorkoutNote: (note: string) => void;
   
@@ -71,6 +83,23 @@ interface WorkoutState {
     maxReps: number;
   }>;
   
+  // Progressive overload
+  setProgressionRule: (exerciseId: string, rule: ProgressionRule | null) => void;
+  getProgressionRule: (exerciseId: string) => ProgressionRule;
+  getProgressionSuggestion: (exerciseId: string) => ProgressionSuggestion;
+  
+  // Personal records. Warm-up sets never count.
+  oneRepMaxFormula: OneRepMaxFormula;
+  setOneRepMaxFormula: (formula: OneRepMaxFormula) => void;
+  checkForPersonalRecord: (exerciseId: string, weight: number, reps: number, setType?: SetType) => PersonalRecord | null;
+  checkForVolumeRecord: (exerciseId: string, volume: number) => PersonalRecord | null;
+  savePersonalRecords: (
+    exercise: Exercise,
+    performance: { weight: number; reps: number; estimatedOneRepMax: number },
+    candidates: { type: PersonalRecordType; value: number }[]
+  ) => PersonalRecord | null;
+  getExerciseRecords: (exerciseId: string) => PersonalRecord[];
+  
   scheduleWorkout: (scheduledWorkout: ScheduledWorkout) => void;
   updateScheduledWorkout: (scheduledWorkout: ScheduledWorkout) => void;
   removeScheduledWorkout: (id: string) => void;
@@ -116,6 +145,45 @@ const MAJOR_LIFTS = [
   "Hip Thrust"
 ];
 
+// The bundled exercises and workouts ship with the app, so only the user's own
+// and edited entries are persisted, plus the ids of bundled entries removed
+interface PersistedLibrary<T> {
+  custom: T[];
+  removedIds: string[];
+}
+
+const toPersistedLibrary = <T extends { id: string }>(items: T[], bundled: T[]): PersistedLibrary<T> => {
+  const bundledItems = new Set(bundled);
+  const ids = new Set(items.map(item => item.id));
+  return {
+    custom: items.filter(item => !bundledItems.has(item)),
+    removedIds: bundled.filter(item => !ids.has(item.id)).map(item => item.id),
+  };
+};
+
+// Bundled entries in their original order, replaced by persisted edits, then the user's own.
+// Entries saved in full by earlier versions are dropped again when they match the bundled one.
+const fromPersistedLibrary = <T extends { id: string }>(library: PersistedLibrary<T> | T[] | undefined, bundled: T[]): T[] => {
+  if (!library) return bundled;
+  const { custom, removedIds } = Array.isArray(library) ? { custom: library, removedIds: [] } : library;
+  const bundledById = new Map(bundled.map(item => [item.id, item]));
+  const edits = new Map(
+    custom
+      .filter(item => {
+        const original = bundledById.get(item.id);
+        return !original || JSON.stringify(original) !== JSON.stringify(item);
+      })
+      .map(item => [item.id, item])
+  );
+  const savedIds = new Set(custom.map(item => item.id));
+  const kept = bundled.filter(item => Array.isArray(library) ? savedIds.has(item.id) : !removedIds.includes(item.id));
+
+  return [
+    ...kept.map(item => edits.get(item.id) || item),
+    ...custom.filter(item => !bundledById.has(item.id)),
+  ];
+};
+
 // Sample workout logs for testing
 // No sample workout logs - users start with clean slate
 
@@ -128,6 +196,7 @@ export const useWorkoutStore = create<WorkoutState>()(
       scheduledWorkouts: [],
       activeWorkout: null,
       personalRecords: [],
+      oneRepMaxFormula: "epley",
       activeTimer: {
         isRunning: false,
         startTime: 0,
@@ -148,6 +217,7 @@ export const useWorkoutStore = create<WorkoutState>()(
       aiRecommendationsExplained: false, // Track if we've explained AI recommendations
       longWorkoutNotificationsEnabled: true,
       longWorkoutThreshold: 90, // 90 minutes default threshold
+      progressionRules: {},
       
       addExercise: (exercise) => set((state) => ({
         exercises: [...state.exercises, exercise]
@@ -177,12 +247,20 @@ export const useWorkoutStore = create<WorkoutState>()(
         workouts: state.workouts.filter(w => w.id !== id)
       })),
       
-      startWorkout: (workoutId) => {
-        const { workouts } = get();
+      startWorkout: (workoutId, scheduledWorkoutId) => {
+        const { workouts, scheduledWorkouts } = get();
         const workout = workouts.find(w => w.id === workoutId);
         
         if (!workout) return;
         
+        // Program sessions come with their planned sets already filled in
+        const scheduledSession = scheduledWorkoutId
+          ? scheduledWorkouts.find(sw => sw.id === scheduledWorkoutId) || null
+          : findDueProgramSession(scheduledWorkouts, workoutId);
+        const programExercises = scheduledSession
+          ? useProgramStore.getState().getSessionExerciseLogs(scheduledSession)
+          : null;
+        
         const newWorkoutLog: WorkoutLog = {
           id: Date.now().toString(),
           workoutId,
@@ -190,19 +268,25 @@ export const useWorkoutStore = create<WorkoutState>()(
           duration: 0,
           startTime: new Date().toISOString(), // Track when workout started
           endTime: "", // Will be set when workout is completed
-          exercises: workout.exercises
-            .filter(exercise => exercise && exercise.id) // Filter out null/undefined exercises
-            .map(exercise => ({
-              id: Date.now().toString() + Math.random().toString(),
-              exerciseId: exercise.id,
-              sets: [],
-              notes: "",
-              completed: false, // Add completed flag for each exercise
-            })),
+          exercises: programExercises || applyExerciseGroups(
+            workout.exercises
+              .filter(exercise => exercise && exercise.id) // Filter out null/undefined exercises
+              .map(exercise => ({
+                id: Date.now().toString() + Math.random().toString(),
+                exerciseId: exercise.id,
+                sets: [],
+                notes: "",
+                completed: false, // Add completed flag for each exercise
+              })),
+            workout.groups
+          ),
+          groups: programExercises ? undefined : workout.groups,
           notes: "",
           completed: false,
           rating: null,
           media: [],
+          scheduledWorkoutId: scheduledSession?.id,
+          programSession: programExercises ? scheduledSession?.programSession : undefined,
         };
         
         set({ 
@@ -237,11 +321,36 @@ export const useWorkoutStore = create<WorkoutState>()(
           endTime: endTime
         };
         
+        // Volume records need the whole workout, so they're checked at the end
+        const exerciseVolumes: Record<string, number> = {};
+        activeWorkout.exercises.forEach(exercise => {
+          const volume = exercise.sets
+            .filter(s => s.completed)
+            .reduce((total, s) => total + getSetVolume(s), 0);
+          exerciseVolumes[exercise.exerciseId] = (exerciseVolumes[exercise.exerciseId] || 0) + volume;
+        });
+        Object.entries(exerciseVolumes).forEach(([exerciseId, volume]) => {
+          get().checkForVolumeRecord(exerciseId, volume);
+        });
+        
         set({
           workoutLogs: [...workoutLogs, completedWorkout],
           activeWorkout: null,
         });
         
+        // Tick off the scheduled session this workout was started from
+        const scheduledSession = activeWorkout.scheduledWorkoutId
+          ? get().scheduledWorkouts.find(sw => sw.id === activeWorkout.scheduledWorkoutId)
+          : undefined;
+        if (scheduledSession) {
+          if (scheduledSession.scheduleType !== "recurring") {
+            get().updateScheduledWorkout({ ...scheduledSession, completed: true });
+          }
+          if (scheduledSession.programSession) {
+            useProgramStore.getState().completeProgramSession(scheduledSession);
+          }
+        }
+        
         // Update gamification after workout completion
         const gamificationStore = useGamificationStore.getState();
         
@@ -250,8 +359,8 @@ export const useWorkoutStore = create<WorkoutState>()(
           // Update streak
           gamificationStore.updateStreak();
           
-          // Check achievements
-          gamificationStore.checkAchievements();
+          // Check achievements that depend on workouts
+          gamificationStore.recordAchievementEvent("workout_completed");
           
           // Update challenge progress for workout challenges
           const workoutChallenges = gamificationStore.challenges.filter(
@@ -262,15 +371,8 @@ export const useWorkoutStore = create<WorkoutState>()(
             gamificationStore.updateChallengeProgress(challenge.id, challenge.progress + 1);
           });
           
-          // Complete daily workout quest if it exists
-          const dailyWorkoutQuest = gamificationStore.dailyQuests.find(
-            q => q.category === "workout" && !q.completed && 
-            new Date(q.date).toDateString() === new Date().toDateString()
-          );
-          
-          if (dailyWorkoutQuest) {
-            gamificationStore.completeDailyQuest(dailyWorkoutQuest.id);
-          }
+          // Workout quests are measured from the workout logs
+          gamificationStore.checkAndAutoCompleteQuests();
         }
       },
       
@@ -316,7 +418,7 @@ export const useWorkoutStore = create<WorkoutState>()(
           
           // Only check for PR if both weight and reps are greater than 0
           if (weight > 0 && reps > 0) {
-            const pr = get().checkForPersonalRecord(exerciseId, weight, reps);
+            const pr = get().checkForPersonalRecord(exerciseId, weight, reps, setData.type);
             
             // If PR was detected, it's already been added to the state
           }
@@ -386,7 +488,7 @@ export const useWorkoutStore = create<WorkoutState>()(
             // Check for personal record if weight increased and reps > 0
             if (weight > oldWeight && reps > 0) {
               const exerciseId = exercise.exerciseId;
-              get().checkForPersonalRecord(exerciseId, weight, reps);
+              get().checkForPersonalRecord(exerciseId, weight, reps, updatedSets[setIndex].type);
             }
           }
         }
@@ -425,7 +527,7 @@ export const useWorkoutStore = create<WorkoutState>()(
             // Check for personal record if reps increased and weight > 0
             if (reps > oldReps && weight > 0) {
               const exerciseId = exercise.exerciseId;
-              get().checkForPersonalRecord(exerciseId, weight, reps);
+              get().checkForPersonalRecord(exerciseId, weight, reps, updatedSets[setIndex].type);
             }
           }
         }
@@ -468,6 +570,67 @@ export const useWorkoutStore = create<WorkoutState>()(
         };
       }),
       
+      updateSetDetails: (exerciseIndex, setIndex, details) => set((state) => {
+        if (!state.activeWorkout) return state;
+        
+        const updatedExercises = [...state.activeWorkout.exercises];
+        const exercise = updatedExercises[exerciseIndex];
+        if (!exercise || setIndex < 0 || setIndex >= exercise.sets.length) return state;
+        
+        const updatedSets = [...exercise.sets];
+        updatedSets[setIndex] = {
+          ...updatedSets[setIndex],
+          ...details,
+        };
+        updatedExercises[exerciseIndex] = {
+          ...exercise,
+          sets: updatedSets,
+        };
+        
+        return {
+          activeWorkout: {
+            ...state.activeWorkout,
+            exercises: updatedExercises,
+          }
+        };
+      }),
+      
+      recordSetHeartRate: (exerciseIndex, setIndex, samples, deviceId) => set((state) => {
+        if (!state.activeWorkout || samples.length === 0) return state;
+        
+        const updatedExercises = [...state.activeWorkout.exercises];
+        const exercise = updatedExercises[exerciseIndex];
+        if (!exercise || setIndex < 0 || setIndex >= exercise.sets.length) return state;
+        
+        const updatedSets = [...exercise.sets];
+        updatedSets[setIndex] = {
+          ...updatedSets[setIndex],
+          heartRateSamples: [...(updatedSets[setIndex].heartRateSamples || []), ...samples],
+        };
+        updatedExercises[exerciseIndex] = {
+          ...exercise,
+          sets: updatedSets,
+        };
+        
+        // Keep the workout-level summary in step with the per-set samples
+        const allBpm = updatedExercises.flatMap(e =>
+          e.sets.flatMap(s => (s.heartRateSamples || []).map(sample => sample.bpm))
+        );
+        
+        return {
+          activeWorkout: {
+            ...state.activeWorkout,
+            exercises: updatedExercises,
+            heartRate: {
+              avg: Math.round(allBpm.reduce((sum, bpm) => sum + bpm, 0) / allBpm.length),
+              max: allBpm.reduce((max, bpm) => Math.max(max, bpm), 0),
+              min: allBpm.reduce((min, bpm) => Math.min(min, bpm), Infinity),
+              deviceId: deviceId ?? state.activeWorkout.heartRate?.deviceId,
+            },
+          }
+        };
+      }),
+      
       updateExerciseNote: (exerciseIndex, note) => set((state) => {
         if (!state.activeWorkout) return state;
         
@@ -503,13 +666,8 @@ export const useWorkoutStore = create<WorkoutState>()(
       reorderExercises: (fromIndex, toIndex) => set((state) => {
         if (!state.activeWorkout) return state;
         
-        const updatedExercises = [...state.activeWorkout.exercises];
-        
-        // Remove the exercise from the original position
-        const [movedExercise] = updatedExercises.splice(fromIndex, 1);
-        
-        // Insert the exercise at the new position
-        updatedExercises.splice(toIndex, 0, movedExercise);
+        // Grouped exercises move together so supersets and circuits stay intact
+        const updatedExercises = moveExerciseBlock(state.activeWorkout.exercises, fromIndex, toIndex);
         
         return {
           activeWorkout: {
@@ -744,6 +902,26 @@ export const useWorkoutStore = create<WorkoutState>()(
       
       setLongWorkoutThreshold: (minutes) => set({ longWorkoutThreshold: minutes }),
       
+      setProgressionRule: (exerciseId, rule) => set((state) => {
+        const progressionRules = { ...state.progressionRules };
+        if (rule) {
+          progressionRules[exerciseId] = rule;
+        } else {
+          delete progressionRules[exerciseId];
+        }
+        return { progressionRules };
+      }),
+      
+      getProgressionRule: (exerciseId) => {
+        const { progressionRules, exercises } = get();
+        return progressionRules[exerciseId] || getDefaultProgressionRule(exercises.find(e => e.id === exerciseId));
+      },
+      
+      getProgressionSuggestion: (exerciseId) => {
+        const { workoutLogs } = get();
+        return suggestNextSession(getExerciseSessions(workoutLogs, exerciseId), get().getProgressionRule(exerciseId));
+      },
+      
       getWorkoutDuration: () => {
         const { activeWorkout } = get();
         
@@ -802,6 +980,16 @@ export const useWorkoutStore = create<WorkoutState>()(
             .slice(0, count);
         }
         
+        // After a spike in heart-rate training load, suggest recovery sessions instead
+        const { activityLogs } = useHealthStore.getState();
+        const trainingLoad = calculateTrainingLoad(workoutLogs, activityLogs, userProfile);
+        if (trainingLoad.needsRecovery) {
+          const recoveryWorkouts = getRecoveryWorkouts(filteredWorkouts);
+          if (recoveryWorkouts.length > 0) {
+            return recoveryWorkouts.slice(0, count);
+          }
+        }
+        
         // Get recently completed workouts
         const recentWorkouts = [...workoutLogs]
           .filter(log => log.completed && log.rating)
@@ -1140,64 +1328,78 @@ export const useWorkoutStore = create<WorkoutState>()(
       },
       
       // New functions for PR tracking
-      checkForPersonalRecord: (exerciseId, weight, reps) => {
-        const { personalRecords, exercises, workoutLogs } = get();
+      checkForPersonalRecord: (exerciseId, weight, reps, setType) => {
+        if (!isWorkingSet({ type: setType }) || weight <= 0 || reps <= 0) return null;
+        
+        const { exercises, oneRepMaxFormula } = get();
         const exercise = exercises.find(e => e.id === exerciseId);
         if (!exercise) return null;
-
-        // Count previous completed attempts for this exercise
-        const previousAttempts = workoutLogs.filter(log => log.completed && log.exercises.some(ex => ex.exerciseId === exerciseId && ex.sets.length > 0));
-        if (previousAttempts.length < 4) {
-          // Require at least 4 previous attempts before setting a PR
-          return null;
-        }
         
-        // Find previous PR for this exercise
-        const previousPR = personalRecords.find(pr => pr.exerciseId === exerciseId);
-        // Calculate estimated 1RM using Epley formula: 1RM = weight * (1 + reps/30)
-        const estimatedOneRepMax = weight * (1 + reps/30);
-        // Check if this is a new PR
-        let isNewPR = false;
-        if (!previousPR) {
-          isNewPR = true;
-        } else if (estimatedOneRepMax > previousPR.estimatedOneRepMax) {
-          isNewPR = true;
-        }
-        if (isNewPR) {
-          const newPR: PersonalRecord = {
-            id: Date.now().toString(),
-            exerciseId,
-            exerciseName: exercise.name,
-            weight,
-            reps,
-            estimatedOneRepMax,
-            date: new Date().toISOString(),
-            previousBest: previousPR ? previousPR.weight : 0,
-            improvement: previousPR ? weight - previousPR.weight : weight,
-          };
-          set(state => ({
-            personalRecords: [
-              ...state.personalRecords.filter(pr => pr.exerciseId !== exerciseId),
-              newPR
-            ]
-          }));
-          // Update gamification if enabled
-          const gamificationStore = useGamificationStore.getState();
-          if (gamificationStore.gamificationEnabled) {
-            const prAchievement = gamificationStore.achievements.find(a => a.id === "special-first-pr" && !a.completed);
-            if (prAchievement) {
-              gamificationStore.updateAchievementProgress(prAchievement.id, 1);
-              gamificationStore.unlockAchievement(prAchievement.id);
-            }
-            if (get().isMajorLift(exerciseId)) {
-              gamificationStore.addPoints(25);
-            } else {
-              gamificationStore.addPoints(10);
-            }
+        const estimatedOneRepMax = calculateOneRepMax(weight, reps, oneRepMaxFormula);
+        const performance = { weight, reps, estimatedOneRepMax };
+        
+        // Listed from most to least notable, which decides the record returned
+        return get().savePersonalRecords(exercise, performance, [
+          { type: "e1rm", value: estimatedOneRepMax },
+          { type: "weight", value: weight },
+          { type: "reps", value: reps },
+        ]);
+      },
+      
+      checkForVolumeRecord: (exerciseId, volume) => {
+        const exercise = get().exercises.find(e => e.id === exerciseId);
+        if (!exercise || volume <= 0) return null;
+        
+        return get().savePersonalRecords(exercise, { weight: 0, reps: 0, estimatedOneRepMax: 0 }, [
+          { type: "volume", value: volume },
+        ]);
+      },
+      
+      savePersonalRecords: (exercise, performance, candidates) => {
+        const { personalRecords, activeWorkout } = get();
+        
+        const updates = candidates
+          .map(({ type, value }) => {
+            const previous = findPersonalRecord(personalRecords, exercise.id, type, performance.weight);
+            if (previous && value <= getRecordValue(previous)) return null;
+            return { previous, record: createPersonalRecord(exercise, type, value, performance, previous) };
+          })
+          .filter((update): update is { previous: PersonalRecord | null; record: PersonalRecord } => update !== null);
+        if (updates.length === 0) return null;
+        
+        // Match the replaced records themselves: records saved in the same
+        // millisecond used to share an id across exercises
+        const replaced = updates.map(update => update.previous).filter(Boolean);
+        set(state => ({
+          personalRecords: [
+            ...state.personalRecords.filter(pr => !replaced.includes(pr)),
+            ...updates.map(update => update.record)
+          ]
+        }));
+        
+        // A first performance or beating a record from earlier in the same
+        // workout only updates the record; beating an older one is celebrated
+        const workoutStart = activeWorkout ? new Date(activeWorkout.date).getTime() : Date.now();
+        const celebrated = updates.find(update =>
+          update.previous && new Date(update.previous.date).getTime() < workoutStart
+        );
+        
+        // Update gamification if enabled
+        const gamificationStore = useGamificationStore.getState();
+        if (celebrated && gamificationStore.gamificationEnabled) {
+          const prAchievement = gamificationStore.achievements.find(a => a.id === "special-first-pr" && !a.completed);
+          if (prAchievement) {
+            gamificationStore.updateAchievementProgress(prAchievement.id, 1);
+            gamificationStore.unlockAchievement(prAchievement.id);
+          }
+          if (get().isMajorLift(exercise.id)) {
+            gamificationStore.addPoints(25);
+          } else {
+            gamificationStore.addPoints(10);
           }
-          return newPR;
         }
-        return null;
+        
+        return celebrated ? celebrated.record : null;
       },
       
       getPersonalRecordMessage: (pr) => {
@@ -1378,9 +1580,16 @@ export const useWorkoutStore = create<WorkoutState>()(
       
       getExercisePR: (exerciseId) => {
         const { personalRecords } = get();
-        return personalRecords.find(pr => pr.exerciseId === exerciseId) || null;
+        return findPersonalRecord(personalRecords, exerciseId, "e1rm") ||
+          personalRecords.find(pr => pr.exerciseId === exerciseId) || null;
+      },
+      
+      getExerciseRecords: (exerciseId) => {
+        return get().personalRecords.filter(pr => pr.exerciseId === exerciseId);
       },
       
+      setOneRepMaxFormula: (formula) => set({ oneRepMaxFormula: formula }),
+      
       getAllPersonalRecords: () => {
         return get().personalRecords;
       },
@@ -1633,7 +1842,24 @@ export const useWorkoutStore = create<WorkoutState>()(
     }),
     {
       name: "workout-storage",
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => encryptedStorage),
+      partialize: ({ exercises: currentExercises, workouts: currentWorkouts, ...state }) => ({
+        ...state,
+        exercises: toPersistedLibrary(currentExercises, exercises),
+        workouts: toPersistedLibrary(currentWorkouts, workouts),
+      }),
+      merge: (persistedState, currentState) => {
+        const persisted = (persistedState || {}) as Partial<Omit<WorkoutState, 'exercises' | 'workouts'>> & {
+          exercises?: PersistedLibrary<Exercise> | Exercise[];
+          workouts?: PersistedLibrary<Workout> | Workout[];
+        };
+        return {
+          ...currentState,
+          ...persisted,
+          exercises: fromPersistedLibrary(persisted.exercises, exercises),
+          workouts: fromPersistedLibrary(persisted.workouts, workouts),
+        };
+      },
     }
   )
 );
\ No newline at end of file
@@ -25,6 +25,23 @@ export interface Workout {
   image?: string;
   createdAt: Date;
   updatedAt: Date;
+  // Exercises performed together instead of one after another
+  groups?: ExerciseGroup[];
+}
+
+// Supersets and circuits alternate between their exercises and rest only after
+// each round. EMOM starts a new round every interval; AMRAP repeats rounds
+// until the time cap runs out.
+export type ExerciseGroupType = 'superset' | 'circuit' | 'emom' | 'amrap';
+
+export interface ExerciseGroup {
+  id: string;
+  type: ExerciseGroupType;
+  exerciseIds: string[];
+  rounds: number; // target rounds for AMRAP
+  restBetweenRounds: number; // seconds
+  intervalSeconds?: number; // EMOM only
+  timeCapMinutes?: number; // AMRAP only
 }
 
 export interface Exercise {
@@ -95,6 +112,25 @@ export interface Meal {
   image?: string;
 }
 
+export type MicronutrientKey =
+  | 'fiber'
+  | 'sugar'
+  | 'saturatedFat'
+  | 'sodium'
+  | 'potassium'
+  | 'calcium'
+  | 'iron'
+  | 'magnesium'
+  | 'zinc'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD'
+  | 'vitaminB12'
+  | 'folate';
+
+// Amounts in the unit listed for each key in utils/micronutrients; missing keys are unknown, not zero
+export type Micronutrients = Partial<Record<MicronutrientKey, number>>;
+
 export interface Food {
   id: string;
   name: string;
@@ -102,13 +138,40 @@ export interface Food {
   protein: number;
   carbs: number;
   fat: number;
-  fiber: number;
-  sugar: number;
-  sodium: number;
+  // Undefined when the source didn't report them, e.g. a scanned label without them
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
   servingSize: string;
   brand?: string;
   barcode?: string;
   image?: string;
+  // Per serving, in addition to fiber, sugar and sodium
+  micronutrients?: Micronutrients;
+}
+
+export type RecipeIngredientUnit = 'g' | 'serving';
+
+export interface RecipeIngredient {
+  id: string;
+  // Copy of the food, so later edits to a saved food don't change the recipe
+  food: Food;
+  amount: number;
+  unit: RecipeIngredientUnit;
+  // Cooked weight / raw weight, for ingredients weighed cooked whose values are for raw
+  cookedYield?: number;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  ingredients: RecipeIngredient[];
+  servings: number;
+  // Weight of the finished dish in grams; defaults to the raw ingredient weight
+  cookedWeight?: number;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface Goal {
@@ -299,18 +362,115 @@ export interface Schedule {
 export interface ScheduledWorkout {
   id: string;
   workoutId: string;
+  workoutName?: string;
   dayOfWeek: number;
   time: string;
   duration: number;
   completed: boolean;
+  scheduleType?: 'one-time' | 'recurring';
+  scheduledDate?: string;
+  recurrenceEndDate?: string | null;
+  // Set when the session was generated from a training program
+  programSession?: ProgramSessionRef;
+}
+
+// A single planned set. Intensity is either a percentage of the lift's
+// (training) max or a target RPE; both are optional for accessory work.
+export interface PlannedSet {
+  reps: number;
+  percent1RM?: number; // fraction, e.g. 0.85
+  rpe?: number; // 6-10
+  amrap?: boolean; // "as many reps as possible" for the last set
+  restTime?: number; // in seconds
+}
+
+export interface PlannedExercise {
+  exerciseId: string;
+  sets: PlannedSet[];
+  notes?: string;
+}
+
+export interface ProgramDay {
+  // Days with the same name across weeks share one workout template
+  name: string;
+  exercises: PlannedExercise[];
+}
+
+export interface ProgramWeek {
+  name: string;
+  isDeload?: boolean;
+  days: ProgramDay[];
+}
+
+// A mesocycle: a block of weeks with a common goal
+export interface ProgramPhase {
+  name: string;
+  goal?: string;
+  weeks: ProgramWeek[];
+}
+
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  description: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  daysPerWeek: number;
+  // Lifts whose one-rep max drives the %1RM and RPE targets
+  mainLifts: string[];
+  // Programs like 5/3/1 base percentages on a training max below the true 1RM
+  trainingMaxPercent?: number;
+  phases: ProgramPhase[];
+}
+
+export interface ProgramEnrollment {
+  id: string;
+  programId: string;
+  startDate: string;
+  trainingDays: number[]; // days of week, 0 = Sunday
+  time: string;
+  oneRepMaxes: Record<string, number>; // kg by exercise id
+  status: 'active' | 'completed' | 'cancelled';
+  completedSessionIds: string[]; // scheduled workout ids
+  createdAt: string;
 }
 
+export interface ProgramSessionRef {
+  enrollmentId: string;
+  programId: string;
+  phaseIndex: number;
+  weekIndex: number; // within the phase
+  dayIndex: number;
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
 export interface ScheduledMeal {
   id: string;
   mealId: string;
   dayOfWeek: number;
   time: string;
   completed: boolean;
+  // Set for meals in a weekly meal plan
+  date?: string; // YYYY-MM-DD
+  mealType?: MealSlot;
+  macroLogId?: string; // the log created when the meal was eaten
+}
+
+export interface MealRecommendation {
+  id: string;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  ingredients: string[];
+  instructions: string[];
+  prepTime: number;
+  cookTime: number;
+  dietaryRestrictions: string[];
+  imageUrl: string;
+  // Slots the meal suits in a meal plan; lunch and dinner when not set
+  mealTypes?: MealSlot[];
 }
 
 export interface WaterIntake {
@@ -396,6 +556,7 @@ export interface MacroLog {
   fat: number;
   notes?: string;
   mealType?: string;
+  micronutrients?: Micronutrients;
 }
 
 export interface UserProfile {
@@ -409,6 +570,9 @@ export interface UserProfile {
   fitnessLevel: 'beginner' | 'intermediate' | 'advanced';
   targetWeight?: number; // Optional target weight for lose/gain goals
   dateOfBirth: Date | null;
+  // Used for heart-rate zones; estimated from age / a default when not set
+  maxHeartRate?: number;
+  restingHeartRate?: number;
 }
 
 export interface FoodCategory {
@@ -424,6 +588,7 @@ export interface WeightLog {
   date: string;
   weight: number;
   notes?: string;
+  source?: string;
 }
 
 export interface StepLog {
@@ -432,6 +597,8 @@ export interface StepLog {
   steps: number;
   caloriesBurned: number;
   distance: number;
+  source?: string;
+  deviceId?: string;
 }
 
 export interface HealthGoals {
@@ -449,6 +616,40 @@ export interface HealthDevice {
   model: string;
   isConnected: boolean;
   lastSync: string | null;
+  batteryLevel?: number; // percent
+  capabilities?: string[];
+}
+
+export interface HeartRateSample {
+  timestamp: number; // epoch milliseconds
+  bpm: number;
+}
+
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // in meters
+  accuracy?: number; // in meters
+  speed?: number; // in m/s
+  heartRate?: number; // in bpm, from imported files or a paired sensor
+  timestamp: number; // epoch milliseconds
+}
+
+// A recorded GPS track. Each pause starts a new segment so paused time and
+// the gap between segments are excluded from distance and moving time.
+// A route picked from the suggestions without recording has no segments.
+export interface ActivityRoute {
+  segments: RoutePoint[][];
+  id?: string;
+  name?: string;
+}
+
+export interface RouteSplit {
+  index: number; // 1-based split number
+  distance: number; // in meters (the last split may be partial)
+  duration: number; // moving time in seconds
+  pace: number; // seconds per km
+  elevationGain: number; // in meters
 }
 
 export interface ActivityLog {
@@ -460,7 +661,22 @@ export interface ActivityLog {
   calories?: number;
   source?: string;
   deviceId?: string;
+  // Identifies the activity in its source (device sync, imported file) to avoid duplicates
+  externalId?: string;
   notes?: string;
+  isOutdoor?: boolean;
+  location?: string;
+  heartRate?: {
+    avg: number;
+    max: number;
+    min: number;
+  };
+  heartRateSamples?: HeartRateSample[];
+  // GPS tracking
+  route?: ActivityRoute;
+  splits?: RouteSplit[];
+  elevationGain?: number; // in meters
+  movingTime?: number; // in seconds
   // Swimming-specific metrics
   swimmingMetrics?: {
     laps: {
@@ -501,6 +717,19 @@ export interface WorkoutLog {
   exercises: ExerciseLog[];
   notes?: string;
   rating?: number;
+  // Summary of the live heart-rate stream from a paired strap
+  heartRate?: {
+    avg: number;
+    max: number;
+    min: number;
+    deviceId?: string;
+  };
+  scheduledWorkoutId?: string;
+  programSession?: ProgramSessionRef;
+  // False while the workout is still in progress
+  completed?: boolean;
+  // Groups the session was performed with; members are marked by ExerciseLog.groupId
+  groups?: ExerciseGroup[];
 }
 
 export interface ExerciseLog {
@@ -508,6 +737,7 @@ export interface ExerciseLog {
   exerciseId: string;
   sets: WorkoutSet[];
   notes?: string;
+  groupId?: string;
 }
 
 export interface WorkoutSet {
@@ -517,6 +747,42 @@ export interface WorkoutSet {
   duration: number;
   restTime: number;
   completed: boolean;
+  // Heart-rate samples recorded since the previous set was completed
+  heartRateSamples?: HeartRateSample[];
+  // What a training program planned for this set
+  target?: {
+    reps: number;
+    weight?: number;
+    percent1RM?: number;
+    rpe?: number;
+    amrap?: boolean;
+  };
+  // Rate of perceived exertion the set was logged at (1-10)
+  rpe?: number;
+  // Reps in reserve, the other way of logging effort
+  rir?: number;
+  // Eccentric, bottom pause, concentric and top pause in seconds, e.g. "3010"
+  tempo?: string;
+  // Treated as a working set when missing
+  type?: SetType;
+}
+
+export type SetType = 'warmup' | 'working' | 'drop' | 'rest_pause' | 'failure' | 'amrap';
+
+// How the next session's load is worked out for an exercise:
+// - linear: add weight every time all sets hit the rep target
+// - double_progression: add reps up to the top of the range, then add weight
+// - rpe: pick the weight that lands the top set at the target RPE
+export type ProgressionRuleType = 'linear' | 'double_progression' | 'rpe';
+
+export interface ProgressionRule {
+  type: ProgressionRuleType;
+  increment: number; // kg added when progressing
+  minReps: number;
+  maxReps: number; // same as minReps for linear progression
+  targetRpe?: number;
+  deloadPercent: number; // fraction taken off the weight on a deload, e.g. 0.1
+  stallSessions: number; // sessions without progress before a deload is suggested
 }
 
 export interface WorkoutRating {
@@ -566,13 +832,29 @@ export interface EquipmentType {
   exercises: string[];
 }
 
+// Each kind of record is tracked on its own:
+// - weight: heaviest weight lifted for any reps
+// - reps: most reps done at one weight (one record per weight)
+// - volume: most weight × reps for the exercise in one workout
+// - e1rm: best estimated one-rep max
+export type PersonalRecordType = 'weight' | 'reps' | 'volume' | 'e1rm';
+
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'lombardi' | 'wathan';
+
 export interface PersonalRecord {
   id: string;
   exerciseId: string;
   exerciseName: string;
-  type: 'weight' | 'reps' | 'duration' | 'distance';
+  // Missing on records saved before record types existed; those were e1RM bests
+  type: PersonalRecordType;
+  // kg for weight, volume and e1rm records, reps for reps records
   value: number;
+  weight: number;
+  reps: number;
+  estimatedOneRepMax: number;
   date: string;
+  previousBest: number;
+  improvement: number;
 }
 
 export interface GoalMilestone {
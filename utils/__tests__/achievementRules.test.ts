@@ -0,0 +1,181 @@
+import {
+  AchievementHistory,
+  AchievementRule,
+  evaluateAchievementRule,
+  isRuleAffectedBy,
+  isValidAchievementRule,
+  parseAchievementPack,
+} from "../achievementRules";
+
+// Saturday 15 March 2025, midday local time
+const now = new Date(2025, 2, 15, 12);
+
+const at = (daysAgo: number, hour: number = 12): string =>
+  new Date(2025, 2, 15 - daysAgo, hour).toISOString();
+
+const history: AchievementHistory = {
+  workouts: [
+    { date: at(0, 7), workoutId: "w1", category: "Strength", intensity: "high", duration: 60 },
+    { date: at(1, 18), workoutId: "w2", category: "Cardio", intensity: "medium", duration: 30 },
+    { date: at(2, 8), workoutId: "w1", category: "Strength", intensity: "high", duration: 45 },
+    { date: at(10, 19), workoutId: "w3", category: "HIIT", intensity: "high", duration: 20 },
+    { date: at(40, 9), workoutId: "w1", category: "Strength", intensity: "high", duration: 50 },
+  ],
+  steps: [
+    { date: at(0), steps: 8000 },
+    { date: at(1), steps: 12000 },
+    { date: at(20), steps: 5000 },
+  ],
+  weights: [
+    { date: at(60), weight: 90 },
+    { date: at(20), weight: 87 },
+    { date: at(0), weight: 85 },
+  ],
+  meals: [
+    // Today: on target for every macro
+    { date: at(0, 8), calories: 800, protein: 60, carbs: 80, fat: 30 },
+    { date: at(0, 19), calories: 1200, protein: 100, carbs: 120, fat: 40 },
+    // Yesterday: short on everything
+    { date: at(1), calories: 1500, protein: 100, carbs: 150, fat: 50 },
+    // Two days ago: calories and protein on target, fat well over
+    { date: at(2), calories: 2050, protein: 150, carbs: 205, fat: 90 },
+  ],
+  macroGoals: { calories: 2000, protein: 150, carbs: 200, fat: 70 },
+  streak: 3,
+};
+
+const evaluate = (rule: AchievementRule) => evaluateAchievementRule(rule, history, now);
+
+describe("evaluateAchievementRule", () => {
+  it("counts workouts inside each window", () => {
+    expect(evaluate({ metric: "workout_count" })).toBe(5);
+    expect(evaluate({ metric: "workout_count", window: "day" })).toBe(1);
+    expect(evaluate({ metric: "workout_count", window: "week" })).toBe(3);
+    expect(evaluate({ metric: "workout_count", window: "month" })).toBe(4);
+  });
+
+  it("applies the workout filters", () => {
+    expect(evaluate({ metric: "workout_count", filter: { categories: ["strength"] } })).toBe(3);
+    expect(evaluate({ metric: "workout_count", filter: { intensity: "high" } })).toBe(4);
+    expect(evaluate({ metric: "workout_count", filter: { minDuration: 45 } })).toBe(3);
+    expect(evaluate({ metric: "workout_count", filter: { beforeHour: 10 } })).toBe(3);
+    expect(evaluate({ metric: "workout_count", filter: { fromHour: 18 } })).toBe(2);
+    expect(evaluate({ metric: "workout_count", filter: { weekend: true } })).toBe(1);
+  });
+
+  it("only counts activity between a seasonal rule's dates", () => {
+    expect(evaluate({ metric: "workout_count", startDate: at(5, 0) })).toBe(3);
+    expect(evaluate({ metric: "workout_count", startDate: at(45, 0), endDate: at(5, 0) })).toBe(2);
+  });
+
+  it("counts distinct workouts and workout days", () => {
+    expect(evaluate({ metric: "distinct_workouts" })).toBe(3);
+    expect(evaluate({ metric: "workout_days" })).toBe(5);
+    expect(evaluate({ metric: "workout_days", consecutive: true })).toBe(3);
+  });
+
+  it("reads the streak as is", () => {
+    expect(evaluate({ metric: "streak" })).toBe(3);
+  });
+
+  it("sums steps inside the window", () => {
+    expect(evaluate({ metric: "steps" })).toBe(25000);
+    expect(evaluate({ metric: "steps", window: "week" })).toBe(20000);
+  });
+
+  it("measures weight change between the first and latest weigh-in", () => {
+    expect(evaluate({ metric: "weight_loss" })).toBe(5);
+    expect(evaluate({ metric: "weight_gain" })).toBe(0);
+    expect(evaluate({ metric: "weight_loss", window: "month" })).toBe(2);
+    // A single weigh-in has nothing to compare against
+    expect(evaluate({ metric: "weight_loss", window: "week" })).toBe(0);
+    expect(evaluate({ metric: "weight_log_days" })).toBe(3);
+  });
+
+  it("counts food log days", () => {
+    expect(evaluate({ metric: "food_log_days" })).toBe(3);
+    expect(evaluate({ metric: "food_log_days", consecutive: true })).toBe(3);
+  });
+
+  it("counts days that met the macro goal, adding up each day's meals", () => {
+    expect(evaluate({ metric: "macro_adherence_days" })).toBe(2);
+    expect(evaluate({ metric: "macro_adherence_days", filter: { macro: "protein" } })).toBe(2);
+    expect(evaluate({ metric: "macro_adherence_days", filter: { macro: "balanced" } })).toBe(1);
+    expect(evaluate({ metric: "macro_adherence_days", consecutive: true })).toBe(1);
+  });
+});
+
+describe("isRuleAffectedBy", () => {
+  it("only re-evaluates rules whose metric the event can change", () => {
+    expect(isRuleAffectedBy({ metric: "streak" }, "workout_completed")).toBe(true);
+    expect(isRuleAffectedBy({ metric: "steps" }, "workout_completed")).toBe(false);
+    expect(isRuleAffectedBy({ metric: "macro_adherence_days" }, "food_logged")).toBe(true);
+  });
+});
+
+describe("isValidAchievementRule", () => {
+  it("accepts every field the evaluator understands", () => {
+    expect(isValidAchievementRule({
+      metric: "workout_days",
+      window: "month",
+      consecutive: true,
+      filter: { categories: ["Strength"], minDuration: 30, beforeHour: 9, weekend: false },
+      startDate: "2025-12-01",
+      endDate: "2025-12-31",
+    })).toBe(true);
+  });
+
+  it("rejects malformed rules", () => {
+    expect(isValidAchievementRule(null)).toBe(false);
+    expect(isValidAchievementRule({ metric: "pushups" })).toBe(false);
+    expect(isValidAchievementRule({ metric: "steps", window: "year" })).toBe(false);
+    expect(isValidAchievementRule({ metric: "steps", comparator: "at_most" })).toBe(false);
+    expect(isValidAchievementRule({ metric: "steps", consecutive: "yes" })).toBe(false);
+    expect(isValidAchievementRule({ metric: "workout_count", filter: { beforeHour: 30 } })).toBe(false);
+    expect(isValidAchievementRule({ metric: "workout_count", filter: { categories: "Strength" } })).toBe(false);
+    expect(isValidAchievementRule({ metric: "macro_adherence_days", filter: { macro: "fiber" } })).toBe(false);
+    expect(isValidAchievementRule({ metric: "steps", startDate: "soon" })).toBe(false);
+    expect(isValidAchievementRule({ metric: "steps", startDate: "2025-12-31", endDate: "2025-12-01" })).toBe(false);
+  });
+});
+
+describe("parseAchievementPack", () => {
+  const achievement = (overrides: Record<string, unknown> = {}) => ({
+    id: "winter-steps",
+    title: "Winter Walker",
+    description: "Walk 100,000 steps this December",
+    target: 100000,
+    rule: { metric: "steps", startDate: "2025-12-01", endDate: "2025-12-31" },
+    ...overrides,
+  });
+
+  it("keeps valid achievements and drops malformed ones", () => {
+    const json = JSON.stringify({
+      id: "winter-2025",
+      name: "Winter 2025",
+      achievements: [
+        achievement(),
+        achievement({ id: "bad-window", rule: { metric: "steps", window: "season" } }),
+        achievement({ id: "no-title", title: "" }),
+        achievement({ id: "bad-target", target: -1 }),
+        achievement({ id: "no-rule", rule: undefined }),
+      ],
+    });
+
+    const pack = parseAchievementPack(json);
+    expect(pack?.name).toBe("Winter 2025");
+    expect(pack?.achievements.map(a => a.id)).toEqual(["winter-steps"]);
+  });
+
+  it("applies the caller's extra checks", () => {
+    const json = JSON.stringify({ id: "pack", achievements: [achievement(), achievement({ id: "other", tier: "wood" })] });
+    const pack = parseAchievementPack(json, item => item.tier === undefined);
+    expect(pack?.achievements.map(a => a.id)).toEqual(["winter-steps"]);
+  });
+
+  it("rejects packs that aren't packs", () => {
+    expect(parseAchievementPack("not json")).toBeNull();
+    expect(parseAchievementPack(JSON.stringify({ achievements: [] }))).toBeNull();
+    expect(parseAchievementPack(JSON.stringify({ id: "pack" }))).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { Exercise, Workout } from "@/types";
+import { useWorkoutStore } from "@/store/workoutStore";
+import { usePhotoStore } from "@/store/photoStore";
+import { exercises } from "@/mocks/exercises";
+import { workouts } from "@/mocks/workouts";
+import { exportDataArchive, importDataArchive } from "../dataArchive";
+import { ENCRYPTED_PHOTOS_DIR } from "../fileEncryption";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const customExercise: Exercise = {
+  ...exercises[0],
+  id: "custom-exercise",
+  name: "Landmine Press",
+};
+
+const customWorkout: Workout = {
+  ...workouts[0],
+  id: "custom-workout",
+  name: "Garage Session",
+};
+
+const editedExercise: Exercise = { ...exercises[1], name: "Renamed" };
+
+// The bundled library with one exercise edited, one removed and one of the user's own added
+const setUpLibrary = () => {
+  useWorkoutStore.setState({
+    exercises: [
+      ...exercises.slice(0, 1),
+      editedExercise,
+      ...exercises.slice(3),
+      customExercise,
+    ],
+    workouts: [...workouts, customWorkout],
+  });
+};
+
+const resetLibrary = () => {
+  useWorkoutStore.setState({ exercises, workouts });
+};
+
+describe("workout archive round-trip", () => {
+  beforeEach(setUpLibrary);
+
+  it("exports only the user's changes to the bundled library", async () => {
+    const archive = JSON.parse(await exportDataArchive({ includePhotos: false }));
+    const { exercises: savedExercises, workouts: savedWorkouts } = archive.sections.workout;
+
+    expect(savedExercises.custom.map((exercise: Exercise) => exercise.id)).toEqual([editedExercise.id, customExercise.id]);
+    expect(savedExercises.removedIds).toEqual([exercises[2].id]);
+    expect(savedWorkouts.custom.map((workout: Workout) => workout.id)).toEqual([customWorkout.id]);
+  });
+
+  it.each(["replace", "merge"] as const)("restores the lists in %s mode", async (mode) => {
+    const serialized = await exportDataArchive({ includePhotos: false });
+    resetLibrary();
+
+    const result = await importDataArchive(serialized, { mode });
+    expect(result.errors).toEqual([]);
+
+    const state = useWorkoutStore.getState();
+    expect(Array.isArray(state.exercises)).toBe(true);
+    expect(Array.isArray(state.workouts)).toBe(true);
+    expect(state.exercises.find(exercise => exercise.id === customExercise.id)?.name).toBe("Landmine Press");
+    expect(state.exercises.find(exercise => exercise.id === editedExercise.id)?.name).toBe("Renamed");
+    expect(state.workouts.find(workout => workout.id === customWorkout.id)?.name).toBe("Garage Session");
+
+    if (mode === "replace") {
+      // Merging keeps what is on the device, so the removal only carries over when replacing
+      expect(state.exercises.some(exercise => exercise.id === exercises[2].id)).toBe(false);
+    }
+  });
+
+  it("keeps bundled entries shared with the app so they are not persisted again", async () => {
+    const serialized = await exportDataArchive({ includePhotos: false });
+    resetLibrary();
+    await importDataArchive(serialized, { mode: "replace" });
+
+    expect(useWorkoutStore.getState().exercises[0]).toBe(exercises[0]);
+  });
+
+  it("still imports archives that saved the full lists", async () => {
+    const archive = JSON.parse(await exportDataArchive({ includePhotos: false }));
+    archive.sections = {
+      workout: {
+        ...archive.sections.workout,
+        exercises: [...exercises, customExercise],
+        workouts: [...workouts, customWorkout],
+      },
+    };
+    resetLibrary();
+
+    const result = await importDataArchive(JSON.stringify(archive), { mode: "replace" });
+    expect(result.errors).toEqual([]);
+
+    const state = useWorkoutStore.getState();
+    expect(state.exercises).toHaveLength(exercises.length + 1);
+    expect(state.workouts).toHaveLength(workouts.length + 1);
+  });
+});
+
+describe("photo import", () => {
+  it("clears local URIs of photos that were not restored", async () => {
+    const archive = JSON.parse(await exportDataArchive({ includePhotos: false }));
+    archive.sections = {
+      photo: {
+        foodPhotos: [
+          { id: "on-source-device", uri: `${ENCRYPTED_PHOTOS_DIR}food_1.jpg`, date: "2025-06-01T12:00:00.000Z" },
+          { id: "remote", uri: "https://example.com/food.jpg", date: "2025-06-01T12:00:00.000Z" },
+        ],
+      },
+    };
+
+    const result = await importDataArchive(JSON.stringify(archive), { mode: "replace" });
+    expect(result.errors).toEqual([]);
+
+    const uris = usePhotoStore.getState().foodPhotos.map(photo => photo.uri);
+    expect(uris).toEqual(["", "https://example.com/food.jpg"]);
+  });
+});
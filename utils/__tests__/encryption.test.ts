@@ -0,0 +1,220 @@
+import {
+  clearEncryptionKeyCache,
+  decryptData,
+  encryptData,
+  getKeyringInfo,
+  hasLegacyEncryptionKey,
+  isLegacyPayload,
+  rotateMasterKey,
+  upgradeEncryptedPayload,
+} from "../encryption";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+// SecureStore as a map, with a way to make chosen writes fail
+const mockSecureItems = new Map<string, string>();
+const mockFailingWrites = new Set<string>();
+
+jest.mock("expo-secure-store", () => ({
+  getItemAsync: async (key: string) => mockSecureItems.get(key) ?? null,
+  setItemAsync: async (key: string, value: string) => {
+    if (mockFailingWrites.has(key)) throw new Error(`Couldn't write ${key}`);
+    mockSecureItems.set(key, value);
+  },
+  deleteItemAsync: async (key: string) => {
+    mockSecureItems.delete(key);
+  },
+}));
+
+jest.mock("expo-crypto", () => {
+  const crypto = require("crypto");
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    getRandomBytesAsync: async (length: number) => new Uint8Array(crypto.randomBytes(length)),
+    digestStringAsync: async (_algorithm: string, data: string) => crypto.createHash("sha256").update(data).digest("hex"),
+  };
+});
+
+const MASTER_KEY = "encryption-key";
+const PENDING_MASTER_KEY = "encryption-key-pending";
+const LEGACY_KEY = "encryption-legacy-key";
+const KEYRING_KEY = "encryption-keyring";
+
+const SECRET = '{"weight":82.5,"unit":"kg"}';
+
+// SECRET as the app wrote it before the keyring, under LEGACY_MASTER_KEY
+const LEGACY_MASTER_KEY = "TGVnYWN5RGV2aWNlS2V5Rm9yRml4dHVyZXMwMDAwMDE=";
+const LEGACY_PAYLOADS = {
+  fallback: "fallback.1.BwcHBwcHBwcHBwcHBwcHBw==.CQkJCQkJCQkJCQkJ.L2UhCzAwJkFwfW4AT2JiTiZcP0FwVxsSNU8R",
+  v1: "1.AQEBAQEBAQEBAQEBAQEBAQ==.AwMDAwMDAwMDAwMD.SkJBUlkDWBIfVgIAFgpAG0UPXkITXxMMW09GMzk+bTg=",
+  v2: "2.AgICAgICAgICAgICAgICAg==.BAQEBAQEBAQEBAQE.HRUQAwsGD0EZAgoOEw0TGBJYDxNBWkRfXRtOPTw5Pjs=",
+};
+
+// What a fresh app start sees: the stored keys, but nothing unwrapped yet
+const restartApp = () => clearEncryptionKeyCache();
+
+beforeEach(() => {
+  mockSecureItems.clear();
+  mockFailingWrites.clear();
+  clearEncryptionKeyCache();
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("keyring encryption", () => {
+  it("round-trips data through a v3 envelope", async () => {
+    const encrypted = await encryptData(SECRET);
+    const info = await getKeyringInfo();
+
+    expect(encrypted.split(".")).toHaveLength(4);
+    expect(encrypted.startsWith(`3.${info?.activeKeyId}.`)).toBe(true);
+    expect(encrypted).not.toContain("weight");
+    expect(await decryptData(encrypted)).toBe(SECRET);
+  });
+
+  it("uses a fresh IV for every payload", async () => {
+    const [first, second] = [await encryptData(SECRET), await encryptData(SECRET)];
+    expect(first).not.toBe(second);
+  });
+
+  it("reads payloads back after a restart", async () => {
+    const encrypted = await encryptData(SECRET);
+    restartApp();
+    expect(await decryptData(encrypted)).toBe(SECRET);
+  });
+
+  it("rejects data when the master key doesn't open the keyring", async () => {
+    const encrypted = await encryptData(SECRET);
+    mockSecureItems.set(MASTER_KEY, LEGACY_MASTER_KEY);
+    restartApp();
+
+    expect(await decryptData(encrypted)).toBeNull();
+  });
+
+  it("rejects a tampered ciphertext", async () => {
+    const encrypted = await encryptData(SECRET);
+    const [version, keyId, iv, sealed] = encrypted.split(".");
+    const bytes = Buffer.from(sealed, "base64");
+    bytes[0] ^= 0x01;
+
+    expect(await decryptData([version, keyId, iv, bytes.toString("base64")].join("."))).toBeNull();
+  });
+
+  it("rejects a payload whose header was moved to another data key", async () => {
+    const encrypted = await encryptData(SECRET);
+    await rotateMasterKey();
+    const newKeyId = (await getKeyringInfo())!.activeKeyId;
+    const [version, , iv, sealed] = encrypted.split(".");
+
+    expect(await decryptData([version, newKeyId, iv, sealed].join("."))).toBeNull();
+    expect(await decryptData([version, "00000000", iv, sealed].join("."))).toBeNull();
+  });
+});
+
+describe("rotateMasterKey", () => {
+  it("replaces the master key and keeps old payloads readable", async () => {
+    const before = await encryptData(SECRET);
+    const oldMasterKey = mockSecureItems.get(MASTER_KEY);
+    const oldKeyId = (await getKeyringInfo())!.activeKeyId;
+
+    expect(await rotateMasterKey()).toBe(true);
+
+    const info = await getKeyringInfo();
+    expect(mockSecureItems.get(MASTER_KEY)).not.toBe(oldMasterKey);
+    expect(mockSecureItems.has(PENDING_MASTER_KEY)).toBe(false);
+    expect(info?.keyCount).toBe(2);
+    expect(info?.activeKeyId).not.toBe(oldKeyId);
+
+    const after = await encryptData(SECRET);
+    expect(after.startsWith(`3.${info?.activeKeyId}.`)).toBe(true);
+
+    restartApp();
+    expect(await decryptData(before)).toBe(SECRET);
+    expect(await decryptData(after)).toBe(SECRET);
+  });
+
+  it("stops adding data keys once the keyring is full", async () => {
+    const first = await encryptData(SECRET);
+    for (let i = 0; i < 10; i++) {
+      expect(await rotateMasterKey()).toBe(true);
+    }
+
+    expect((await getKeyringInfo())?.keyCount).toBe(8);
+    restartApp();
+    expect(await decryptData(first)).toBe(SECRET);
+  });
+
+  it("finishes a rotation interrupted after the keyring was saved", async () => {
+    const encrypted = await encryptData(SECRET);
+    const oldMasterKey = mockSecureItems.get(MASTER_KEY);
+
+    mockFailingWrites.add(MASTER_KEY);
+    expect(await rotateMasterKey()).toBe(false);
+    mockFailingWrites.clear();
+
+    const pendingKey = mockSecureItems.get(PENDING_MASTER_KEY);
+    expect(pendingKey).toBeDefined();
+    expect(mockSecureItems.get(MASTER_KEY)).toBe(oldMasterKey);
+
+    restartApp();
+    expect(await decryptData(encrypted)).toBe(SECRET);
+    expect(mockSecureItems.get(MASTER_KEY)).toBe(pendingKey);
+    expect(mockSecureItems.has(PENDING_MASTER_KEY)).toBe(false);
+  });
+
+  it("keeps the old master key when a rotation fails before the keyring was saved", async () => {
+    const encrypted = await encryptData(SECRET);
+    const oldMasterKey = mockSecureItems.get(MASTER_KEY);
+
+    mockFailingWrites.add(KEYRING_KEY);
+    expect(await rotateMasterKey()).toBe(false);
+    mockFailingWrites.clear();
+
+    restartApp();
+    expect(await decryptData(encrypted)).toBe(SECRET);
+    expect(mockSecureItems.get(MASTER_KEY)).toBe(oldMasterKey);
+  });
+});
+
+describe("legacy payloads", () => {
+  // A device that last ran a version from before the keyring
+  beforeEach(() => {
+    mockSecureItems.set(MASTER_KEY, LEGACY_MASTER_KEY);
+  });
+
+  it("keeps the pre-keyring master key to read old data", async () => {
+    await encryptData(SECRET);
+
+    expect(await hasLegacyEncryptionKey()).toBe(true);
+    expect(mockSecureItems.get(LEGACY_KEY)).toBe(LEGACY_MASTER_KEY);
+    expect(mockSecureItems.get(MASTER_KEY)).not.toBe(LEGACY_MASTER_KEY);
+  });
+
+  it.each(Object.entries(LEGACY_PAYLOADS))("upgrades a %s payload to the current envelope", async (_format, payload) => {
+    expect(isLegacyPayload(payload)).toBe(true);
+
+    const upgraded = await upgradeEncryptedPayload(payload);
+    expect(upgraded?.startsWith("3.")).toBe(true);
+    expect(isLegacyPayload(upgraded!)).toBe(false);
+
+    restartApp();
+    expect(await decryptData(upgraded!)).toBe(SECRET);
+  });
+
+  it("leaves current payloads as they are", async () => {
+    const encrypted = await encryptData(SECRET);
+    expect(await upgradeEncryptedPayload(encrypted)).toBe(encrypted);
+  });
+
+  it("can't upgrade without the legacy key", async () => {
+    await encryptData(SECRET);
+    mockSecureItems.delete(LEGACY_KEY);
+
+    expect(await upgradeEncryptedPayload(LEGACY_PAYLOADS.v2)).toBeNull();
+  });
+});
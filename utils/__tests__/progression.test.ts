@@ -0,0 +1,100 @@
+import { ProgressionRule, WorkoutSet } from "@/types";
+import { ExerciseSession, detectStall, findLastDeload, suggestNextSession } from "../progression";
+import { estimateOneRepMax } from "../programUtils";
+
+const rule: ProgressionRule = {
+  type: "linear",
+  increment: 2.5,
+  minReps: 5,
+  maxReps: 5,
+  deloadPercent: 0.1,
+  stallSessions: 3,
+};
+
+let sessionCount = 0;
+
+// One session of three straight sets, in the shape getExerciseSessions returns
+const session = (weight: number, reps: number): ExerciseSession => {
+  sessionCount++;
+  const sets: WorkoutSet[] = [1, 2, 3].map(index => ({
+    id: `${sessionCount}-${index}`,
+    reps,
+    weight,
+    duration: 0,
+    restTime: 120,
+    completed: true,
+  }));
+
+  return {
+    date: new Date(2025, 0, sessionCount).toISOString(),
+    sets,
+    topWeight: weight,
+    repsAtTopWeight: reps,
+    totalRepsAtTopWeight: reps * sets.length,
+    bestEstimatedMax: estimateOneRepMax(weight, reps),
+  };
+};
+
+// Sessions are passed around most recent first
+const stalledHistory = () => [
+  session(102.5, 4),
+  session(102.5, 4),
+  session(102.5, 4),
+  session(100, 5),
+];
+
+describe("detectStall", () => {
+  it("flags a lift that missed its reps for the whole stall window", () => {
+    expect(detectStall(stalledHistory(), rule.stallSessions)).toBe(true);
+  });
+
+  it("does not flag a lift that is still progressing", () => {
+    const history = [session(107.5, 5), session(105, 5), session(102.5, 5), session(100, 5)];
+    expect(detectStall(history, rule.stallSessions)).toBe(false);
+  });
+});
+
+describe("findLastDeload", () => {
+  it("finds the session lifted a deload below the one before it", () => {
+    expect(findLastDeload([session(92.5, 5), ...stalledHistory()], rule.deloadPercent)).toBe(0);
+  });
+
+  it("ignores ordinary session-to-session changes", () => {
+    expect(findLastDeload(stalledHistory(), rule.deloadPercent)).toBe(-1);
+  });
+});
+
+describe("suggestNextSession", () => {
+  it("deloads a stalled lift by the rule's percentage", () => {
+    const suggestion = suggestNextSession(stalledHistory(), rule);
+    expect(suggestion.action).toBe("deload");
+    expect(suggestion.weight).toBe(92.5);
+  });
+
+  it("builds back up after a deload instead of deloading again", () => {
+    const history = stalledHistory();
+    let suggestion = suggestNextSession(history, rule);
+
+    // Walk several sessions past the deload, each one done as suggested
+    const weights: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      history.unshift(session(suggestion.weight, rule.minReps));
+      suggestion = suggestNextSession(history, rule);
+      expect(suggestion.action).toBe("increase_weight");
+      weights.push(suggestion.weight);
+    }
+
+    expect(weights).toEqual([95, 97.5, 100, 102.5, 105]);
+  });
+
+  it("only deloads again once the lift stalls after the deload", () => {
+    const history = [session(92.5, 5), ...stalledHistory()];
+
+    history.unshift(session(95, 4));
+    expect(suggestNextSession(history, rule).action).toBe("hold");
+    history.unshift(session(95, 4));
+    expect(suggestNextSession(history, rule).action).toBe("hold");
+    history.unshift(session(95, 4));
+    expect(suggestNextSession(history, rule).action).toBe("deload");
+  });
+});
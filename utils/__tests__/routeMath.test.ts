@@ -0,0 +1,170 @@
+import { ActivityRoute, RoutePoint } from "@/types";
+import {
+  calculateElevationGain,
+  calculateMovingTime,
+  calculateRouteDistance,
+  calculateSplits,
+  haversineDistance,
+  isPlausiblePoint,
+  isRouteIdle,
+  shouldAutoPause,
+  shouldAutoResume,
+  smoothElevation,
+  summarizeRoute,
+} from "../routeMath";
+
+// Fixtures run due north from a fixed start, where a degree of latitude is a constant distance
+const START = { latitude: 51.5, longitude: -0.12 };
+const START_TIME = Date.UTC(2025, 5, 1, 7, 0, 0);
+const METERS_PER_DEGREE = (2 * Math.PI * 6371000) / 360;
+
+// A fix every `seconds`, `metersPerStep` further north than the last
+const track = (
+  count: number,
+  metersPerStep: number,
+  seconds: number,
+  options: { fromMeters?: number; fromTime?: number; altitudes?: (number | undefined)[] } = {}
+): RoutePoint[] => {
+  const { fromMeters = 0, fromTime = START_TIME, altitudes } = options;
+  return Array.from({ length: count }, (_, index) => ({
+    latitude: START.latitude + (fromMeters + index * metersPerStep) / METERS_PER_DEGREE,
+    longitude: START.longitude,
+    altitude: altitudes?.[index],
+    timestamp: fromTime + index * seconds * 1000,
+  }));
+};
+
+// 2.5 km at 3 m/s, a fix every 10 seconds
+const steadyRun: ActivityRoute = { segments: [track(84, 30, 10)] };
+
+// 1.2 km, a five-minute stop, then another 1.2 km
+const runWithStop: ActivityRoute = {
+  segments: [
+    track(41, 30, 10),
+    track(41, 30, 10, { fromMeters: 1230, fromTime: START_TIME + 700 * 1000 }),
+  ],
+};
+
+describe("distance and time", () => {
+  it("measures great-circle distance", () => {
+    const north = { latitude: START.latitude + 0.01, longitude: START.longitude };
+    expect(haversineDistance(START, north)).toBeCloseTo(1111.95, 1);
+  });
+
+  it("sums the distance of a steady run", () => {
+    expect(calculateRouteDistance(steadyRun)).toBeCloseTo(2490, 0);
+    expect(calculateMovingTime(steadyRun)).toBe(830);
+  });
+
+  it("leaves the gap and the stop between segments out", () => {
+    expect(calculateRouteDistance(runWithStop)).toBeCloseTo(2400, 0);
+    expect(calculateMovingTime(runWithStop)).toBe(800);
+  });
+});
+
+describe("splits", () => {
+  it("cuts full kilometres and keeps a meaningful partial split", () => {
+    const splits = calculateSplits(steadyRun);
+
+    expect(splits.map(split => split.index)).toEqual([1, 2, 3]);
+    expect(splits[0].distance).toBe(1000);
+    expect(splits[0].duration).toBeCloseTo(333.33, 1);
+    expect(splits[0].pace).toBeCloseTo(333.33, 1);
+    expect(splits[1].duration).toBeCloseTo(333.33, 1);
+    expect(splits[2].distance).toBeCloseTo(490, 0);
+  });
+
+  it("carries a split across a pause without counting the stop", () => {
+    const splits = calculateSplits(runWithStop);
+
+    expect(splits).toHaveLength(3);
+    expect(splits[1].distance).toBe(1000);
+    expect(splits[1].duration).toBeCloseTo(333.33, 1);
+    expect(splits[2].distance).toBeCloseTo(400, 0);
+  });
+
+  it("drops a trailing split shorter than 50 m", () => {
+    const splits = calculateSplits({ segments: [track(35, 30, 10)] });
+    expect(splits).toHaveLength(1);
+  });
+});
+
+describe("elevation", () => {
+  it("ignores altitude jitter on flat ground", () => {
+    const jitter = Array.from({ length: 60 }, (_, index) => 100 + (index % 2 === 0 ? 1.5 : -1.5));
+    const points = track(60, 30, 10, { altitudes: jitter });
+
+    expect(calculateElevationGain(points)).toBe(0);
+  });
+
+  it("counts a steady climb, less what smoothing trims at the ends", () => {
+    const climb = Array.from({ length: 21 }, (_, index) => 100 + index);
+    const points = track(21, 30, 10, { altitudes: climb });
+
+    const gain = calculateElevationGain(points);
+    expect(gain).toBeGreaterThanOrEqual(16);
+    expect(gain).toBeLessThanOrEqual(20);
+  });
+
+  it("fills readings missing before and between altitude fixes", () => {
+    const points = track(5, 30, 10, { altitudes: [undefined, 10, undefined, undefined, 10] });
+    expect(smoothElevation(points, 1)).toEqual([10, 10, 10, 10, 10]);
+  });
+
+  it("reports a flat profile when no fix has an altitude", () => {
+    expect(smoothElevation(track(3, 30, 10))).toEqual([0, 0, 0]);
+  });
+
+  it("adds the climb to the route summary", () => {
+    const climb = Array.from({ length: 84 }, (_, index) => 100 + index * 0.5);
+    const summary = summarizeRoute({ segments: [track(84, 30, 10, { altitudes: climb })] });
+
+    expect(summary.elevationGain).toBeGreaterThan(35);
+    expect(summary.elevationGain).toBeLessThanOrEqual(41.5);
+    expect(summary.splits).toHaveLength(3);
+    summary.splits.forEach(split => expect(split.elevationGain).toBeGreaterThan(0));
+  });
+});
+
+describe("recording filters and auto-pause", () => {
+  it("rejects inaccurate fixes and GPS jumps", () => {
+    const [first, second] = track(2, 30, 10);
+
+    expect(isPlausiblePoint(undefined, first)).toBe(true);
+    expect(isPlausiblePoint(first, second)).toBe(true);
+    expect(isPlausiblePoint(first, { ...second, accuracy: 50 })).toBe(false);
+    expect(isPlausiblePoint(first, { ...second, latitude: second.latitude + 0.01 })).toBe(false);
+    expect(isPlausiblePoint(second, first)).toBe(false);
+  });
+
+  it("keeps recording while moving", () => {
+    expect(shouldAutoPause(track(5, 30, 5))).toBe(false);
+  });
+
+  it("pauses after standing still for the whole window", () => {
+    const standing = track(7, 0.5, 2);
+    expect(shouldAutoPause(standing)).toBe(true);
+  });
+
+  it("waits for a full window of history before pausing", () => {
+    expect(shouldAutoPause(track(3, 0, 2))).toBe(false);
+  });
+
+  it("pauses when fixes stop arriving", () => {
+    const points = track(3, 30, 10);
+    const latest = points[points.length - 1].timestamp;
+
+    expect(isRouteIdle(points, latest + 5000)).toBe(false);
+    expect(isRouteIdle(points, latest + 10000)).toBe(true);
+    expect(isRouteIdle([], latest)).toBe(false);
+  });
+
+  it("resumes once moving clearly faster than the pause threshold", () => {
+    const [previous, next] = track(2, 3, 2);
+
+    expect(shouldAutoResume(previous, { ...next, speed: 0.6 })).toBe(false);
+    expect(shouldAutoResume(previous, { ...next, speed: 1.2 })).toBe(true);
+    expect(shouldAutoResume(previous, next)).toBe(true);
+    expect(shouldAutoResume(undefined, next)).toBe(false);
+  });
+});
@@ -0,0 +1,321 @@
+import { MacroGoals } from "@/types";
+
+// What an achievement measures. Day metrics count the days that qualify.
+export type AchievementMetric =
+  | "workout_count"        // completed workouts matching the rule's filter
+  | "distinct_workouts"    // different workouts completed
+  | "workout_days"         // days with a completed workout
+  | "streak"               // current workout streak
+  | "steps"                // steps walked
+  | "weight_loss"          // kg lost between the first and latest weigh-in
+  | "weight_gain"          // kg gained between the first and latest weigh-in
+  | "weight_log_days"      // days with a weigh-in
+  | "food_log_days"        // days with food logged
+  | "macro_adherence_days"; // days that met the macro goal
+
+// Only activity inside the window counts; windows end today
+export type AchievementWindow = "all_time" | "day" | "week" | "month";
+
+export type AchievementEventType =
+  | "workout_completed"
+  | "streak_updated"
+  | "steps_logged"
+  | "weight_logged"
+  | "food_logged";
+
+export interface AchievementRule {
+  metric: AchievementMetric;
+  window?: AchievementWindow;
+  // Day metrics: count the longest run of consecutive days instead of all days
+  consecutive?: boolean;
+  filter?: {
+    // Any of these workout categories, ignoring case
+    categories?: string[];
+    intensity?: string;
+    minDuration?: number; // minutes
+    beforeHour?: number;
+    fromHour?: number;
+    weekend?: boolean;
+    // calories: within 10% of the goal, protein: at least the goal,
+    // balanced: every macro within 15% of its goal
+    macro?: "calories" | "protein" | "balanced";
+  };
+  // Seasonal achievements only count activity between these dates
+  startDate?: string;
+  endDate?: string;
+}
+
+// Everything the rules are evaluated against, gathered from the other stores
+export interface AchievementHistory {
+  workouts: {
+    date: string;
+    workoutId: string;
+    category?: string;
+    intensity?: string;
+    duration?: number;
+  }[];
+  steps: { date: string; steps: number }[];
+  weights: { date: string; weight: number }[];
+  meals: { date: string; calories: number; protein: number; carbs: number; fat: number }[];
+  macroGoals: MacroGoals;
+  streak: number;
+}
+
+// Which events can change each metric, so an event only re-evaluates the rules it affects
+export const METRIC_EVENTS: Record<AchievementMetric, AchievementEventType[]> = {
+  workout_count: ["workout_completed"],
+  distinct_workouts: ["workout_completed"],
+  workout_days: ["workout_completed"],
+  streak: ["workout_completed", "streak_updated"],
+  steps: ["steps_logged"],
+  weight_loss: ["weight_logged"],
+  weight_gain: ["weight_logged"],
+  weight_log_days: ["weight_logged"],
+  food_log_days: ["food_logged"],
+  macro_adherence_days: ["food_logged"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayKey = (date: string | Date): string => new Date(date).toDateString();
+
+const isInWindow = (date: string, rule: AchievementRule, now: Date): boolean => {
+  const time = new Date(date).getTime();
+  if (rule.startDate && time < new Date(rule.startDate).getTime()) return false;
+  if (rule.endDate && time > new Date(rule.endDate).getTime()) return false;
+
+  switch (rule.window) {
+    case "day":
+      return toDayKey(date) === toDayKey(now);
+    case "week":
+      return time > now.getTime() - 7 * DAY_MS;
+    case "month":
+      return time > now.getTime() - 30 * DAY_MS;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Number of days, or the longest run of consecutive days, among `dates`
+ */
+const countDays = (dates: string[], consecutive?: boolean): number => {
+  const days = Array.from(new Set(dates.map(toDayKey)))
+    .map(day => new Date(day).getTime())
+    .sort((a, b) => a - b);
+  if (!consecutive) return days.length;
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    // Round to absorb daylight saving shifts
+    run = index > 0 && Math.round((day - days[index - 1]) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+};
+
+const isWithin = (value: number, goal: number, tolerance: number): boolean =>
+  goal > 0 && Math.abs(value - goal) <= goal * tolerance;
+
+const meetsMacroGoal = (
+  totals: { calories: number; protein: number; carbs: number; fat: number },
+  goals: MacroGoals,
+  macro: "calories" | "protein" | "balanced"
+): boolean => {
+  switch (macro) {
+    case "protein":
+      return goals.protein > 0 && totals.protein >= goals.protein;
+    case "balanced":
+      return isWithin(totals.calories, goals.calories, 0.15) &&
+        isWithin(totals.protein, goals.protein, 0.15) &&
+        isWithin(totals.carbs, goals.carbs, 0.15) &&
+        isWithin(totals.fat, goals.fat, 0.15);
+    default:
+      return isWithin(totals.calories, goals.calories, 0.1);
+  }
+};
+
+const getWeightChange = (weights: AchievementHistory["weights"]): number => {
+  if (weights.length < 2) return 0;
+  const sorted = [...weights].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  return sorted[sorted.length - 1].weight - sorted[0].weight;
+};
+
+/**
+ * Progress towards a rule's threshold (the achievement's target)
+ */
+export const evaluateAchievementRule = (
+  rule: AchievementRule,
+  history: AchievementHistory,
+  now: Date = new Date()
+): number => {
+  const filter = rule.filter || {};
+  const workouts = history.workouts.filter(workout => {
+    if (!isInWindow(workout.date, rule, now)) return false;
+    const start = new Date(workout.date);
+    const day = start.getDay();
+    if (filter.categories && !filter.categories.some(category =>
+      category.toLowerCase() === (workout.category || "").toLowerCase()
+    )) return false;
+    if (filter.intensity && workout.intensity !== filter.intensity) return false;
+    if (filter.minDuration !== undefined && (workout.duration || 0) < filter.minDuration) return false;
+    if (filter.beforeHour !== undefined && start.getHours() >= filter.beforeHour) return false;
+    if (filter.fromHour !== undefined && start.getHours() < filter.fromHour) return false;
+    if (filter.weekend && day !== 0 && day !== 6) return false;
+    return true;
+  });
+
+  switch (rule.metric) {
+    case "workout_count":
+      return workouts.length;
+    case "distinct_workouts":
+      return new Set(workouts.map(workout => workout.workoutId)).size;
+    case "workout_days":
+      return countDays(workouts.map(workout => workout.date), rule.consecutive);
+    case "streak":
+      return history.streak;
+    case "steps":
+      return history.steps
+        .filter(log => isInWindow(log.date, rule, now))
+        .reduce((total, log) => total + log.steps, 0);
+    case "weight_loss":
+      return Math.max(0, -getWeightChange(history.weights.filter(log => isInWindow(log.date, rule, now))));
+    case "weight_gain":
+      return Math.max(0, getWeightChange(history.weights.filter(log => isInWindow(log.date, rule, now))));
+    case "weight_log_days":
+      return countDays(
+        history.weights.filter(log => isInWindow(log.date, rule, now)).map(log => log.date),
+        rule.consecutive
+      );
+    case "food_log_days":
+      return countDays(
+        history.meals.filter(meal => isInWindow(meal.date, rule, now)).map(meal => meal.date),
+        rule.consecutive
+      );
+    case "macro_adherence_days": {
+      const totalsByDay: Record<string, { date: string; calories: number; protein: number; carbs: number; fat: number }> = {};
+      history.meals
+        .filter(meal => isInWindow(meal.date, rule, now))
+        .forEach(meal => {
+          const key = toDayKey(meal.date);
+          const totals = totalsByDay[key] || { date: meal.date, calories: 0, protein: 0, carbs: 0, fat: 0 };
+          totalsByDay[key] = {
+            date: totals.date,
+            calories: totals.calories + meal.calories,
+            protein: totals.protein + meal.protein,
+            carbs: totals.carbs + meal.carbs,
+            fat: totals.fat + meal.fat,
+          };
+        });
+      const metDays = Object.values(totalsByDay)
+        .filter(totals => meetsMacroGoal(totals, history.macroGoals, filter.macro || "calories"))
+        .map(totals => totals.date);
+      return countDays(metDays, rule.consecutive);
+    }
+  }
+};
+
+export const isRuleAffectedBy = (rule: AchievementRule, event: AchievementEventType): boolean =>
+  METRIC_EVENTS[rule.metric].includes(event);
+
+export interface AchievementPack<T> {
+  id: string;
+  name: string;
+  achievements: T[];
+}
+
+const ACHIEVEMENT_METRICS = Object.keys(METRIC_EVENTS) as AchievementMetric[];
+const ACHIEVEMENT_WINDOWS: AchievementWindow[] = ["all_time", "day", "week", "month"];
+const MACRO_FILTERS = ["calories", "protein", "balanced"];
+const RULE_KEYS = ["metric", "window", "consecutive", "filter", "startDate", "endDate"];
+const FILTER_KEYS = ["categories", "intensity", "minDuration", "beforeHour", "fromHour", "weekend", "macro"];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean =>
+  value === undefined || check(value);
+
+const isNonEmptyString = (value: unknown): boolean => typeof value === "string" && value.trim().length > 0;
+
+const isDateString = (value: unknown): boolean =>
+  typeof value === "string" && !isNaN(new Date(value).getTime());
+
+const isHour = (value: unknown): boolean =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 24;
+
+const isValidFilter = (filter: unknown): boolean => {
+  if (!isPlainObject(filter)) return false;
+  if (Object.keys(filter).some(key => !FILTER_KEYS.includes(key))) return false;
+
+  return isOptional(filter.categories, value => Array.isArray(value) && value.every(isNonEmptyString)) &&
+    isOptional(filter.intensity, isNonEmptyString) &&
+    isOptional(filter.minDuration, value => typeof value === "number" && value >= 0) &&
+    isOptional(filter.beforeHour, isHour) &&
+    isOptional(filter.fromHour, isHour) &&
+    isOptional(filter.weekend, value => typeof value === "boolean") &&
+    isOptional(filter.macro, value => MACRO_FILTERS.includes(value as string));
+};
+
+/**
+ * Whether a rule read from JSON has exactly the shape the evaluator expects.
+ * Unknown fields are rejected rather than ignored, since a rule that relies
+ * on one (a comparator, say) would silently measure the wrong thing.
+ */
+export const isValidAchievementRule = (rule: unknown): rule is AchievementRule => {
+  if (!isPlainObject(rule)) return false;
+  if (Object.keys(rule).some(key => !RULE_KEYS.includes(key))) return false;
+  if (!ACHIEVEMENT_METRICS.includes(rule.metric as AchievementMetric)) return false;
+
+  const datesValid = isOptional(rule.startDate, isDateString) && isOptional(rule.endDate, isDateString);
+  if (!datesValid) return false;
+  if (rule.startDate && rule.endDate && new Date(rule.startDate as string) > new Date(rule.endDate as string)) {
+    return false;
+  }
+
+  return isOptional(rule.window, value => ACHIEVEMENT_WINDOWS.includes(value as AchievementWindow)) &&
+    isOptional(rule.consecutive, value => typeof value === "boolean") &&
+    isOptional(rule.filter, isValidFilter);
+};
+
+const isValidPackAchievement = (achievement: unknown): boolean =>
+  isPlainObject(achievement) &&
+  isNonEmptyString(achievement.id) &&
+  isNonEmptyString(achievement.title) &&
+  typeof achievement.description === "string" &&
+  typeof achievement.target === "number" &&
+  Number.isFinite(achievement.target) &&
+  achievement.target > 0 &&
+  isValidAchievementRule(achievement.rule);
+
+/**
+ * Read a seasonal achievement pack from JSON. Achievements that fail
+ * validation are dropped since they could never be shown or unlocked
+ * correctly; `isValid` adds the checks only the caller knows about.
+ */
+export const parseAchievementPack = <T extends { id: string; title: string; target: number; rule?: AchievementRule }>(
+  json: string,
+  isValid: (achievement: Record<string, unknown>) => boolean = () => true
+): AchievementPack<T> | null => {
+  try {
+    const pack = JSON.parse(json);
+    if (!isPlainObject(pack) || !isNonEmptyString(pack.id) || !Array.isArray(pack.achievements)) {
+      console.error("[AchievementRules] Invalid achievement pack");
+      return null;
+    }
+
+    const achievements = pack.achievements.filter(achievement =>
+      isValidPackAchievement(achievement) && isValid(achievement)
+    ) as T[];
+    const dropped = pack.achievements.length - achievements.length;
+    if (dropped > 0) {
+      console.warn(`[AchievementRules] Dropped ${dropped} invalid achievement(s) from pack ${pack.id}`);
+    }
+
+    return { id: pack.id as string, name: isNonEmptyString(pack.name) ? pack.name as string : pack.id as string, achievements };
+  } catch (error) {
+    console.error("[AchievementRules] Error parsing achievement pack:", error);
+    return null;
+  }
+};
@@ -0,0 +1,573 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { ActivityLog, RoutePoint } from '@/types';
+import { useHealthStore } from '@/store/healthStore';
+import { base64ToBuffer, bufferToBase64 } from './encryption';
+import { parseFitFile, writeFitFile } from './fitFile';
+import {
+  calculateMovingTime,
+  calculateRouteDistance,
+  calculateRouteElevationGain,
+  calculateSplits,
+  getRoutePoints,
+  hasRouteSegments,
+  haversineDistance,
+} from './routeMath';
+
+// Import and export of activity logs as GPX, TCX and FIT files
+
+export type ActivityFileFormat = 'gpx' | 'tcx' | 'fit';
+
+export type ParsedSport = 'running' | 'cycling' | 'walking' | 'swimming' | 'other';
+
+/**
+ * Format-neutral activity that every parser produces and every serializer consumes.
+ * All distances are meters and all times are seconds, except timestamps (epoch ms).
+ */
+export interface ParsedActivity {
+  sport: ParsedSport;
+  name?: string;
+  startTime: number;
+  elapsedTime?: number;
+  movingTime?: number;
+  distance?: number;
+  calories?: number;
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+  elevationGain?: number;
+  segments: RoutePoint[][];
+  swim?: {
+    poolLength?: number;
+    lengths?: number;
+    strokeType?: string;
+  };
+}
+
+export interface ActivityFileImportResult {
+  success: boolean;
+  activity?: ActivityLog;
+  duplicate?: boolean;
+  error?: string;
+}
+
+export interface ActivityFileExportResult {
+  success: boolean;
+  uri?: string;
+  error?: string;
+}
+
+export const ACTIVITY_FILE_FORMATS: ActivityFileFormat[] = ['gpx', 'tcx', 'fit'];
+
+const FORMAT_LABELS: Record<ActivityFileFormat, string> = {
+  gpx: 'GPX',
+  tcx: 'TCX',
+  fit: 'FIT',
+};
+
+// --- Distance units ---
+
+// Swims are stored in meters (as synced from Apple Health); every other
+// activity type is entered and displayed in kilometers
+export const toStoredDistance = (type: ActivityLog['type'], meters: number): number =>
+  type === 'swimming' ? Math.round(meters) : Math.round(meters) / 1000;
+
+export const getActivityDistanceMeters = (log: ActivityLog): number => {
+  if (hasRouteSegments(log.route)) {
+    const routeDistance = calculateRouteDistance(log.route);
+    if (routeDistance > 0) return routeDistance;
+  }
+  if (!log.distance) return 0;
+  return log.type === 'swimming' ? log.distance : log.distance * 1000;
+};
+
+// --- XML helpers ---
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Tags may carry a namespace prefix (gpxtpx:hr, ns3:TPX), which is ignored
+const getElements = (xml: string, tag: string): string[] => {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*?(?:\\/>|>[\\s\\S]*?<\\/(?:[\\w-]+:)?${tag}>)`, 'g');
+  return xml.match(pattern) || [];
+};
+
+const getTagText = (xml: string | undefined, tag: string): string | undefined => {
+  if (!xml) return undefined;
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${tag}>`));
+  return match ? decodeXml(match[1].trim()) : undefined;
+};
+
+const getAttribute = (element: string, name: string): string | undefined => {
+  const openingTag = element.match(/^<[^>]*>/)?.[0] || '';
+  const match = openingTag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return match ? decodeXml(match[1]) : undefined;
+};
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const parseTime = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const SPORT_ALIASES: Array<[RegExp, ParsedSport]> = [
+  [/run|jog/i, 'running'],
+  [/bik|cycl|ride/i, 'cycling'],
+  [/swim/i, 'swimming'],
+  [/walk|hik/i, 'walking'],
+];
+
+const parseSport = (...hints: Array<string | undefined>): ParsedSport => {
+  for (const hint of hints) {
+    if (!hint) continue;
+    const alias = SPORT_ALIASES.find(([pattern]) => pattern.test(hint));
+    if (alias) return alias[1];
+  }
+  return 'other';
+};
+
+const formatTime = (millis: number): string => new Date(millis).toISOString();
+
+// --- GPX ---
+
+const parseGpxPoint = (element: string): RoutePoint | null => {
+  const latitude = parseNumber(getAttribute(element, 'lat'));
+  const longitude = parseNumber(getAttribute(element, 'lon'));
+  const timestamp = parseTime(getTagText(element, 'time'));
+  if (latitude === undefined || longitude === undefined || timestamp === undefined) return null;
+
+  return {
+    latitude,
+    longitude,
+    altitude: parseNumber(getTagText(element, 'ele')),
+    heartRate: parseNumber(getTagText(element, 'hr')),
+    timestamp,
+  };
+};
+
+export const parseGpx = (xml: string): ParsedActivity | null => {
+  if (!/<gpx\b/i.test(xml)) return null;
+
+  const track = getElements(xml, 'trk')[0];
+  if (!track) return null;
+
+  // GPX has no pause marker, so each trkseg is treated as one moving segment
+  const segments = getElements(track, 'trkseg')
+    .map(segment => getElements(segment, 'trkpt')
+      .map(parseGpxPoint)
+      .filter((point): point is RoutePoint => point !== null))
+    .filter(segment => segment.length > 0);
+
+  const points = segments.flat();
+  const startTime = points[0]?.timestamp ?? parseTime(getTagText(getTagText(xml, 'metadata'), 'time'));
+  if (startTime === undefined) return null;
+
+  const name = getTagText(track, 'name');
+
+  return {
+    sport: parseSport(getTagText(track, 'type'), name),
+    name,
+    startTime,
+    elapsedTime: points.length > 1 ? (points[points.length - 1].timestamp - startTime) / 1000 : undefined,
+    segments,
+  };
+};
+
+export const serializeGpx = (activity: ParsedActivity): string => {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="FitJourney" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">',
+    `  <metadata><time>${formatTime(activity.startTime)}</time></metadata>`,
+    '  <trk>',
+  ];
+
+  if (activity.name) lines.push(`    <name>${escapeXml(activity.name)}</name>`);
+  lines.push(`    <type>${activity.sport}</type>`);
+
+  activity.segments.forEach(segment => {
+    lines.push('    <trkseg>');
+    segment.forEach(point => {
+      lines.push(`      <trkpt lat="${point.latitude.toFixed(7)}" lon="${point.longitude.toFixed(7)}">`);
+      if (point.altitude !== undefined) lines.push(`        <ele>${point.altitude.toFixed(1)}</ele>`);
+      lines.push(`        <time>${formatTime(point.timestamp)}</time>`);
+      if (point.heartRate !== undefined) {
+        lines.push(`        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>${Math.round(point.heartRate)}</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions>`);
+      }
+      lines.push('      </trkpt>');
+    });
+    lines.push('    </trkseg>');
+  });
+
+  lines.push('  </trk>', '</gpx>');
+  return lines.join('\n');
+};
+
+// --- TCX ---
+
+const TCX_SPORTS: Record<ParsedSport, string> = {
+  running: 'Running',
+  cycling: 'Biking',
+  walking: 'Other',
+  swimming: 'Other',
+  other: 'Other',
+};
+
+const parseTcxPoint = (element: string): RoutePoint | null => {
+  const position = getTagText(element, 'Position');
+  const latitude = parseNumber(getTagText(position, 'LatitudeDegrees'));
+  const longitude = parseNumber(getTagText(position, 'LongitudeDegrees'));
+  const timestamp = parseTime(getTagText(element, 'Time'));
+  // Indoor trackpoints have no position and cannot be part of a route
+  if (latitude === undefined || longitude === undefined || timestamp === undefined) return null;
+
+  return {
+    latitude,
+    longitude,
+    altitude: parseNumber(getTagText(element, 'AltitudeMeters')),
+    heartRate: parseNumber(getTagText(getTagText(element, 'HeartRateBpm'), 'Value')),
+    timestamp,
+  };
+};
+
+export const parseTcx = (xml: string): ParsedActivity | null => {
+  if (!/<TrainingCenterDatabase\b/.test(xml)) return null;
+
+  const activity = getElements(xml, 'Activity')[0];
+  if (!activity) return null;
+
+  const laps = getElements(activity, 'Lap');
+  const segments: RoutePoint[][] = [];
+  let movingTime = 0;
+  let distance = 0;
+  let calories = 0;
+  let maxHeartRate: number | undefined;
+  let weightedHeartRate = 0;
+
+  laps.forEach(lap => {
+    // Lap totals come before the track, so strip the track to avoid
+    // picking up trackpoint-level DistanceMeters
+    const summary = lap.replace(/<(?:[\w-]+:)?Track\b[\s\S]*?<\/(?:[\w-]+:)?Track>/g, '');
+    const lapTime = parseNumber(getTagText(summary, 'TotalTimeSeconds')) || 0;
+    const lapAverageHeartRate = parseNumber(getTagText(getTagText(summary, 'AverageHeartRateBpm'), 'Value'));
+    const lapMaxHeartRate = parseNumber(getTagText(getTagText(summary, 'MaximumHeartRateBpm'), 'Value'));
+
+    movingTime += lapTime;
+    distance += parseNumber(getTagText(summary, 'DistanceMeters')) || 0;
+    calories += parseNumber(getTagText(summary, 'Calories')) || 0;
+    if (lapAverageHeartRate) weightedHeartRate += lapAverageHeartRate * lapTime;
+    if (lapMaxHeartRate) maxHeartRate = Math.max(maxHeartRate || 0, lapMaxHeartRate);
+
+    // Devices start a new Track after each pause
+    getElements(lap, 'Track').forEach(track => {
+      const points = getElements(track, 'Trackpoint')
+        .map(parseTcxPoint)
+        .filter((point): point is RoutePoint => point !== null);
+      if (points.length > 0) segments.push(points);
+    });
+  });
+
+  const startTime = parseTime(getTagText(activity, 'Id'))
+    ?? parseTime(laps[0] ? getAttribute(laps[0], 'StartTime') : undefined)
+    ?? segments[0]?.[0]?.timestamp;
+  if (startTime === undefined) return null;
+
+  const points = segments.flat();
+  const lastTimestamp = points[points.length - 1]?.timestamp;
+
+  return {
+    sport: parseSport(getAttribute(activity, 'Sport'), getTagText(activity, 'Notes')),
+    name: getTagText(activity, 'Notes'),
+    startTime,
+    elapsedTime: lastTimestamp !== undefined ? (lastTimestamp - startTime) / 1000 : movingTime || undefined,
+    movingTime: movingTime || undefined,
+    distance: distance || undefined,
+    calories: calories || undefined,
+    averageHeartRate: weightedHeartRate && movingTime ? Math.round(weightedHeartRate / movingTime) : undefined,
+    maxHeartRate,
+    segments,
+  };
+};
+
+export const serializeTcx = (activity: ParsedActivity): string => {
+  const start = formatTime(activity.startTime);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">',
+    '  <Activities>',
+    `    <Activity Sport="${TCX_SPORTS[activity.sport]}">`,
+    `      <Id>${start}</Id>`,
+    `      <Lap StartTime="${start}">`,
+    `        <TotalTimeSeconds>${(activity.movingTime ?? activity.elapsedTime ?? 0).toFixed(1)}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${(activity.distance ?? 0).toFixed(1)}</DistanceMeters>`,
+    `        <Calories>${Math.round(activity.calories ?? 0)}</Calories>`,
+  ];
+
+  if (activity.averageHeartRate) {
+    lines.push(`        <AverageHeartRateBpm><Value>${Math.round(activity.averageHeartRate)}</Value></AverageHeartRateBpm>`);
+  }
+  if (activity.maxHeartRate) {
+    lines.push(`        <MaximumHeartRateBpm><Value>${Math.round(activity.maxHeartRate)}</Value></MaximumHeartRateBpm>`);
+  }
+  lines.push('        <Intensity>Active</Intensity>', '        <TriggerMethod>Manual</TriggerMethod>');
+
+  let cumulativeDistance = 0;
+  activity.segments.forEach(segment => {
+    if (segment.length === 0) return;
+    lines.push('        <Track>');
+    segment.forEach((point, index) => {
+      if (index > 0) {
+        cumulativeDistance += haversineDistance(segment[index - 1], point);
+      }
+      lines.push('          <Trackpoint>');
+      lines.push(`            <Time>${formatTime(point.timestamp)}</Time>`);
+      lines.push(`            <Position><LatitudeDegrees>${point.latitude.toFixed(7)}</LatitudeDegrees><LongitudeDegrees>${point.longitude.toFixed(7)}</LongitudeDegrees></Position>`);
+      if (point.altitude !== undefined) lines.push(`            <AltitudeMeters>${point.altitude.toFixed(1)}</AltitudeMeters>`);
+      lines.push(`            <DistanceMeters>${cumulativeDistance.toFixed(1)}</DistanceMeters>`);
+      if (point.heartRate !== undefined) {
+        lines.push(`            <HeartRateBpm><Value>${Math.round(point.heartRate)}</Value></HeartRateBpm>`);
+      }
+      lines.push('          </Trackpoint>');
+    });
+    lines.push('        </Track>');
+  });
+
+  lines.push('      </Lap>');
+  if (activity.name) lines.push(`      <Notes>${escapeXml(activity.name)}</Notes>`);
+  lines.push('    </Activity>', '  </Activities>', '</TrainingCenterDatabase>');
+  return lines.join('\n');
+};
+
+// --- ActivityLog conversion ---
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+const buildSwimmingMetrics = (parsed: ParsedActivity, distance: number, seconds: number): ActivityLog['swimmingMetrics'] => {
+  const poolLength = parsed.swim?.poolLength || 25;
+
+  return {
+    laps: {
+      total: parsed.swim?.lengths ?? Math.round(distance / poolLength),
+      pool25m: roundToTenth(distance / 25),
+      pool50m: roundToTenth(distance / 50),
+    },
+    strokeType: parsed.swim?.strokeType || 'freestyle',
+    poolLength,
+    averagePace: distance > 0 ? roundToTenth((seconds / 60) * (100 / distance)) : 0,
+  };
+};
+
+/**
+ * Convert a parsed file into an ActivityLog, deriving anything the file
+ * does not state explicitly (distance, moving time, splits) from its track.
+ */
+export const toActivityLog = (parsed: ParsedActivity, format: ActivityFileFormat): ActivityLog | null => {
+  const route = parsed.segments.length > 0 ? { segments: parsed.segments } : undefined;
+  const routeDistance = route ? calculateRouteDistance(route) : 0;
+  const distance = parsed.distance ?? routeDistance;
+
+  const points = getRoutePoints(route);
+  const lastPoint = points[points.length - 1];
+  const elapsedTime = parsed.elapsedTime ?? (lastPoint ? (lastPoint.timestamp - parsed.startTime) / 1000 : 0);
+  const movingTime = parsed.movingTime ?? (route ? calculateMovingTime(route) : undefined);
+
+  if (elapsedTime <= 0 && distance <= 0) return null;
+
+  const heartRates = points.map(point => point.heartRate).filter((hr): hr is number => !!hr);
+  const averageHeartRate = parsed.averageHeartRate
+    ?? (heartRates.length > 0 ? Math.round(heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length) : 0);
+  const type: ActivityLog['type'] = parsed.sport;
+
+  return {
+    id: Date.now().toString() + Math.random().toString(36).slice(2, 8),
+    type,
+    date: new Date(parsed.startTime).toISOString(),
+    duration: Math.round(elapsedTime / 60),
+    distance: toStoredDistance(type, distance),
+    calories: parsed.calories !== undefined ? Math.round(parsed.calories) : undefined,
+    source: `${FORMAT_LABELS[format]} file`,
+    externalId: `${format}_${parsed.startTime}`,
+    notes: parsed.name || '',
+    isOutdoor: !!route,
+    route,
+    splits: route && routeDistance > 0 ? calculateSplits(route) : undefined,
+    elevationGain: parsed.elevationGain ?? (route ? Math.round(calculateRouteElevationGain(route)) : undefined),
+    movingTime: movingTime !== undefined ? Math.round(movingTime) : undefined,
+    heartRate: averageHeartRate > 0 ? {
+      avg: averageHeartRate,
+      max: parsed.maxHeartRate ?? heartRates.reduce((max, hr) => Math.max(max, hr), averageHeartRate),
+      min: heartRates.reduce((min, hr) => Math.min(min, hr), averageHeartRate),
+    } : undefined,
+    swimmingMetrics: type === 'swimming' ? buildSwimmingMetrics(parsed, distance, movingTime ?? elapsedTime) : undefined,
+  };
+};
+
+export const fromActivityLog = (log: ActivityLog): ParsedActivity => {
+  const sport: ParsedSport = log.type === 'workout' ? 'other' : log.type;
+
+  return {
+    sport,
+    name: log.notes || undefined,
+    startTime: new Date(log.date).getTime(),
+    elapsedTime: log.duration * 60,
+    movingTime: log.movingTime,
+    distance: getActivityDistanceMeters(log),
+    calories: log.calories,
+    averageHeartRate: log.heartRate?.avg || undefined,
+    maxHeartRate: log.heartRate?.max || undefined,
+    elevationGain: log.elevationGain,
+    segments: hasRouteSegments(log.route) ? log.route.segments : [],
+    swim: log.swimmingMetrics ? {
+      poolLength: log.swimmingMetrics.poolLength,
+      lengths: log.swimmingMetrics.laps.total,
+      strokeType: log.swimmingMetrics.strokeType,
+    } : undefined,
+  };
+};
+
+// --- Files ---
+
+export const detectActivityFileFormat = (fileName: string): ActivityFileFormat | null => {
+  const extension = fileName.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return ACTIVITY_FILE_FORMATS.find(format => format === extension) ?? null;
+};
+
+export const isActivityFile = (fileName: string): boolean => detectActivityFileFormat(fileName) !== null;
+
+export const parseActivityFile = (format: ActivityFileFormat, content: string | Uint8Array): ParsedActivity | null => {
+  switch (format) {
+    case 'fit':
+      return typeof content === 'string' ? null : parseFitFile(content);
+    case 'gpx':
+      return typeof content === 'string' ? parseGpx(content) : null;
+    case 'tcx':
+      return typeof content === 'string' ? parseTcx(content) : null;
+  }
+};
+
+/**
+ * Formats a logged activity can be written to. GPX is a pure track format,
+ * so it is only offered for activities with a recorded route.
+ */
+export const getExportFormats = (log: ActivityLog): ActivityFileFormat[] =>
+  getRoutePoints(log.route).length > 0 ? ACTIVITY_FILE_FORMATS : ['tcx', 'fit'];
+
+/**
+ * Work out the format from the file contents. Used for share sheet content://
+ * URIs, which usually carry no file extension.
+ */
+const sniffActivityFileFormat = async (uri: string): Promise<ActivityFileFormat | null> => {
+  if (Platform.OS === 'web') return null;
+
+  try {
+    const head = base64ToBuffer(await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: 0,
+      length: 512,
+    }));
+    if (head.length >= 12 && String.fromCharCode(head[8], head[9], head[10], head[11]) === '.FIT') {
+      return 'fit';
+    }
+
+    const text = String.fromCharCode(...Array.from(head));
+    if (/<gpx\b/i.test(text)) return 'gpx';
+    if (/<TrainingCenterDatabase\b/.test(text)) return 'tcx';
+  } catch (error) {
+    console.warn('Could not inspect activity file:', error);
+  }
+  return null;
+};
+
+const readActivityFile = async (uri: string, format: ActivityFileFormat): Promise<string | Uint8Array> => {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    return format === 'fit' ? new Uint8Array(await response.arrayBuffer()) : response.text();
+  }
+
+  if (format === 'fit') {
+    const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    return base64ToBuffer(base64);
+  }
+  return FileSystem.readAsStringAsync(uri);
+};
+
+/**
+ * Parse a GPX/TCX/FIT file (from the document picker or the share sheet)
+ * and add it to the activity log. Files that were already imported are skipped.
+ */
+export const importActivityFile = async (uri: string, fileName: string = uri): Promise<ActivityFileImportResult> => {
+  const format = detectActivityFileFormat(fileName) ?? await sniffActivityFileFormat(uri);
+  if (!format) {
+    return { success: false, error: 'Unsupported file type. Please choose a GPX, TCX or FIT file.' };
+  }
+
+  try {
+    const content = await readActivityFile(uri, format);
+    const parsed = parseActivityFile(format, content);
+    const activity = parsed ? toActivityLog(parsed, format) : null;
+
+    if (!activity) {
+      return { success: false, error: `No activity data found in this ${FORMAT_LABELS[format]} file.` };
+    }
+
+    const added = useHealthStore.getState().importActivityLogs([activity]);
+    return { success: true, activity, duplicate: added === 0 };
+  } catch (error) {
+    console.error('Error importing activity file:', error);
+    return { success: false, error: 'The file could not be read.' };
+  }
+};
+
+const buildFileName = (log: ActivityLog, format: ActivityFileFormat): string => {
+  const date = new Date(log.date).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `${log.type}-${date}.${format}`;
+};
+
+/**
+ * Write a logged activity to the cache directory in the given format
+ * and return the file URI, ready to be shared.
+ */
+export const exportActivityFile = async (log: ActivityLog, format: ActivityFileFormat): Promise<ActivityFileExportResult> => {
+  if (Platform.OS === 'web') {
+    return { success: false, error: 'Activity export is not available on web.' };
+  }
+  if (!getExportFormats(log).includes(format)) {
+    return { success: false, error: `${FORMAT_LABELS[format]} export needs a recorded GPS route.` };
+  }
+
+  try {
+    const activity = fromActivityLog(log);
+    const uri = `${FileSystem.cacheDirectory}${buildFileName(log, format)}`;
+
+    if (format === 'fit') {
+      await FileSystem.writeAsStringAsync(uri, bufferToBase64(writeFitFile(activity)), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+    } else {
+      await FileSystem.writeAsStringAsync(uri, format === 'gpx' ? serializeGpx(activity) : serializeTcx(activity));
+    }
+
+    return { success: true, uri };
+  } catch (error) {
+    console.error('Error exporting activity file:', error);
+    return { success: false, error: 'The activity could not be exported.' };
+  }
+};
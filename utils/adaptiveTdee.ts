@@ -0,0 +1,254 @@
+import { MacroGoals, MacroLog, UserProfile, WeightLog } from '@/types';
+import { calculateBMR, calculateTDEE } from './nutritionUtils';
+import { toDateKey } from './mealPlanner';
+
+// Estimates real energy expenditure from what was eaten and how the weight
+// trend moved: expenditure = average intake - energy stored in the weight change.
+// The estimate is blended with the Mifflin-St Jeor formula according to how
+// complete the logging is, and drives weekly macro goal proposals.
+
+// Energy in a kilogram of body weight change
+export const KCAL_PER_KG = 7700;
+// Smoothing factor for the weight trend; lower is smoother
+export const WEIGHT_TREND_ALPHA = 0.1;
+export const DEFAULT_WINDOW_DAYS = 21;
+// Below these the estimate is not made at all
+const MIN_LOGGED_DAYS = 7;
+const MIN_WEIGH_INS = 2;
+// Goals move at most this much per weekly adjustment
+export const MAX_WEEKLY_CALORIE_CHANGE = 250;
+// Within this distance of the target weight the goal is maintenance
+const MAINTENANCE_BAND_KG = 0.5;
+export const WEIGHT_CHANGE_RATES = [0.25, 0.5, 0.75, 1]; // kg per week
+
+export type TdeeConfidence = 'none' | 'low' | 'medium' | 'high';
+
+export interface WeightTrendPoint {
+  date: string; // YYYY-MM-DD
+  weight: number | null; // average weigh-in that day
+  trend: number;
+}
+
+export interface TdeeEstimate {
+  endDate: string;
+  windowDays: number;
+  formulaTdee: number;
+  // Back-solved from intake and weight trend; null without enough data
+  adaptiveTdee: number | null;
+  // What goals should use: the adaptive value weighted by confidence
+  tdee: number;
+  averageIntake: number | null;
+  trendWeight: number | null;
+  weeklyWeightChange: number | null; // kg per week
+  loggedDays: number;
+  weighIns: number;
+  confidence: TdeeConfidence;
+  confidenceScore: number; // 0-1
+}
+
+export interface MacroGoalProposal {
+  goals: MacroGoals;
+  direction: 'lose' | 'maintain' | 'gain';
+  weeklyRate: number; // kg per week toward the target
+  calorieChange: number;
+  reason: string;
+}
+
+const addDays = (date: Date, days: number): Date => {
+  const next = new Date(date);
+  next.setDate(date.getDate() + days);
+  return next;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Mifflin-St Jeor TDEE; profiles with another gender use the average of both equations
+ */
+export const calculateFormulaTdee = (profile: UserProfile): number => {
+  const bmr = profile.gender === 'male' || profile.gender === 'female'
+    ? calculateBMR(profile.weight, profile.height, profile.age, profile.gender)
+    : (calculateBMR(profile.weight, profile.height, profile.age, 'male') +
+        calculateBMR(profile.weight, profile.height, profile.age, 'female')) / 2;
+  return Math.round(calculateTDEE(bmr, profile.activityLevel));
+};
+
+/**
+ * Daily exponentially weighted trend from the first weigh-in to `endDate`.
+ * Days without a weigh-in carry the trend forward.
+ */
+export const smoothWeightTrend = (
+  weightLogs: WeightLog[],
+  endDate: Date = new Date(),
+  alpha: number = WEIGHT_TREND_ALPHA
+): WeightTrendPoint[] => {
+  const byDay = new Map<string, number[]>();
+  weightLogs.forEach(log => {
+    const key = toDateKey(new Date(log.date));
+    byDay.set(key, [...(byDay.get(key) || []), log.weight]);
+  });
+  if (byDay.size === 0) return [];
+
+  const firstDay = Array.from(byDay.keys()).sort()[0];
+  const points: WeightTrendPoint[] = [];
+  let trend: number | null = null;
+  for (let date = new Date(`${firstDay}T12:00:00`); toDateKey(date) <= toDateKey(endDate); date = addDays(date, 1)) {
+    const weights = byDay.get(toDateKey(date));
+    const weight = weights ? weights.reduce((sum, value) => sum + value, 0) / weights.length : null;
+    if (weight !== null) {
+      trend = trend === null ? weight : trend + alpha * (weight - trend);
+    }
+    points.push({ date: toDateKey(date), weight, trend: trend! });
+  }
+  return points;
+};
+
+/**
+ * Expenditure over the `windowDays` before `endDate`. Days whose intake is far
+ * below the usual are treated as incompletely logged and left out.
+ */
+export const estimateTdee = ({
+  macroLogs,
+  weightLogs,
+  profile,
+  endDate = new Date(),
+  windowDays = DEFAULT_WINDOW_DAYS,
+}: {
+  macroLogs: MacroLog[];
+  weightLogs: WeightLog[];
+  profile: UserProfile;
+  endDate?: Date;
+  windowDays?: number;
+}): TdeeEstimate => {
+  const formulaTdee = calculateFormulaTdee(profile);
+  const startKey = toDateKey(addDays(endDate, -windowDays + 1));
+  const endKey = toDateKey(endDate);
+  const inWindow = (key: string) => key >= startKey && key <= endKey;
+
+  const intakeByDay = new Map<string, number>();
+  macroLogs.forEach(log => {
+    const key = toDateKey(new Date(log.date));
+    if (inWindow(key)) intakeByDay.set(key, (intakeByDay.get(key) || 0) + (log.calories || 0));
+  });
+  const dailyIntake = Array.from(intakeByDay.values());
+  const completeThreshold = dailyIntake.length > 0 ? Math.max(800, median(dailyIntake) * 0.5) : 0;
+  const completeDays = dailyIntake.filter(calories => calories >= completeThreshold);
+
+  const trend = smoothWeightTrend(weightLogs, endDate);
+  const windowTrend = trend.filter(point => inWindow(point.date));
+  const weighIns = windowTrend.filter(point => point.weight !== null).length;
+  const trendWeight = trend.length > 0 ? Math.round(trend[trend.length - 1].trend * 10) / 10 : null;
+
+  const loggedRatio = completeDays.length / windowDays;
+  // Weighing every other day counts as complete
+  const weighInRatio = Math.min(1, weighIns / (windowDays / 2));
+  const enoughData = completeDays.length >= MIN_LOGGED_DAYS && weighIns >= MIN_WEIGH_INS && windowTrend.length >= 7;
+
+  let adaptiveTdee: number | null = null;
+  let averageIntake: number | null = null;
+  let weeklyWeightChange: number | null = null;
+  if (completeDays.length > 0) {
+    averageIntake = Math.round(completeDays.reduce((sum, calories) => sum + calories, 0) / completeDays.length);
+  }
+  if (windowTrend.length >= 2) {
+    const span = windowTrend.length - 1;
+    const change = windowTrend[windowTrend.length - 1].trend - windowTrend[0].trend;
+    weeklyWeightChange = Math.round((change / span) * 7 * 100) / 100;
+    if (enoughData && averageIntake !== null) {
+      const stored = (change * KCAL_PER_KG) / span;
+      adaptiveTdee = Math.round(Math.min(6000, Math.max(1000, averageIntake - stored)));
+    }
+  }
+
+  const confidenceScore = adaptiveTdee === null ? 0 : Math.round((0.6 * loggedRatio + 0.4 * weighInRatio) * 100) / 100;
+  const confidence: TdeeConfidence = adaptiveTdee === null
+    ? 'none'
+    : confidenceScore >= 0.75 ? 'high' : confidenceScore >= 0.45 ? 'medium' : 'low';
+  const tdee = adaptiveTdee === null
+    ? formulaTdee
+    : Math.round(formulaTdee + (adaptiveTdee - formulaTdee) * confidenceScore);
+
+  return {
+    endDate: endKey,
+    windowDays,
+    formulaTdee,
+    adaptiveTdee,
+    tdee,
+    averageIntake,
+    trendWeight,
+    weeklyWeightChange,
+    loggedDays: completeDays.length,
+    weighIns,
+    confidence,
+    confidenceScore,
+  };
+};
+
+/**
+ * Estimates for consecutive weeks, oldest first, each over its own rolling window
+ */
+export const getTdeeHistory = (
+  params: Parameters<typeof estimateTdee>[0],
+  weeks: number = 8
+): TdeeEstimate[] => {
+  const endDate = params.endDate || new Date();
+  return Array.from({ length: weeks }, (_, index) =>
+    estimateTdee({ ...params, endDate: addDays(endDate, -7 * (weeks - 1 - index)) })
+  );
+};
+
+// Same split as the static goals: protein by body weight, 25% fat, carbs for the rest
+const splitMacros = (calories: number, weight: number, direction: MacroGoalProposal['direction']): MacroGoals => {
+  const proteinPerKg = direction === 'gain' ? 2.2 : direction === 'lose' ? 2.0 : 1.6;
+  const protein = Math.round(weight * proteinPerKg);
+  const fat = Math.round((calories * 0.25) / 9);
+  const carbs = Math.max(0, Math.round((calories - protein * 4 - fat * 9) / 4));
+  return { calories, protein, carbs, fat };
+};
+
+/**
+ * Next week's goals: the estimated expenditure adjusted for the chosen rate of
+ * change toward the target weight, moving at most MAX_WEEKLY_CALORIE_CHANGE
+ * from the current goals and never below a safe floor.
+ */
+export const proposeMacroGoals = ({
+  estimate,
+  profile,
+  currentGoals,
+  weeklyRate,
+}: {
+  estimate: TdeeEstimate;
+  profile: UserProfile;
+  currentGoals: MacroGoals;
+  weeklyRate: number;
+}): MacroGoalProposal => {
+  const weight = estimate.trendWeight ?? profile.weight;
+  const target = profile.targetWeight;
+  let direction: MacroGoalProposal['direction'] = 'maintain';
+  if (target && Math.abs(target - weight) > MAINTENANCE_BAND_KG) {
+    direction = target < weight ? 'lose' : 'gain';
+  }
+
+  const rate = direction === 'maintain' ? 0 : weeklyRate;
+  const dailyAdjustment = (rate * KCAL_PER_KG) / 7;
+  const ideal = estimate.tdee + (direction === 'lose' ? -dailyAdjustment : dailyAdjustment);
+  const floor = profile.gender === 'male' ? 1500 : 1200;
+  const step = Math.max(-MAX_WEEKLY_CALORIE_CHANGE, Math.min(MAX_WEEKLY_CALORIE_CHANGE, ideal - currentGoals.calories));
+  const calories = Math.round(Math.max(floor, currentGoals.calories + step) / 10) * 10;
+
+  const reason = direction === 'maintain'
+    ? `Holding at your estimated expenditure of ${estimate.tdee} kcal.`
+    : `${direction === 'lose' ? 'Losing' : 'Gaining'} ${rate} kg a week toward ${target} kg from an estimated expenditure of ${estimate.tdee} kcal.`;
+
+  return {
+    goals: splitMacros(calories, weight, direction),
+    direction,
+    weeklyRate: rate,
+    calorieChange: calories - currentGoals.calories,
+    reason,
+  };
+};
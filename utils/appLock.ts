@@ -0,0 +1,122 @@
+import { Platform } from 'react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as Crypto from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { secureStore, bufferToBase64, base64ToBuffer } from './encryption';
+
+// PIN storage and biometric checks for the app lock. The PIN itself is never
+// stored: only a salted PBKDF2 hash, kept in SecureStore on native.
+
+export const PIN_LENGTH = 6;
+// Failed PIN attempts allowed before unlocking is paused
+export const MAX_PIN_ATTEMPTS = 5;
+const LOCKOUT_BASE_SECONDS = 30;
+
+export const PIN_STORAGE_KEY = 'app-lock-pin';
+const PIN_ITERATIONS = 60000;
+
+export interface BiometricSupport {
+  available: boolean;
+  label: string;
+}
+
+export const isValidPin = (pin: string): boolean => new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin);
+
+const hashPin = async (pin: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  return bufferToBase64(await pbkdf2Async(sha256, pin, salt, { c: iterations, dkLen: 32 }));
+};
+
+export const savePin = async (pin: string): Promise<boolean> => {
+  if (!isValidPin(pin)) return false;
+
+  try {
+    const salt = await Crypto.getRandomBytesAsync(16);
+    const hash = await hashPin(pin, salt, PIN_ITERATIONS);
+    await secureStore.setItem(PIN_STORAGE_KEY, `${PIN_ITERATIONS}.${bufferToBase64(salt)}.${hash}`);
+    return true;
+  } catch (error) {
+    console.error('Error saving PIN:', error);
+    return false;
+  }
+};
+
+export const verifyPin = async (pin: string): Promise<boolean> => {
+  try {
+    const stored = await secureStore.getItem(PIN_STORAGE_KEY);
+    if (!stored) return false;
+
+    const [iterations, salt, expected] = stored.split('.');
+    const hash = await hashPin(pin, base64ToBuffer(salt), parseInt(iterations, 10));
+
+    // Compare every character so timing doesn't reveal how much matched
+    let difference = hash.length ^ expected.length;
+    for (let i = 0; i < Math.min(hash.length, expected.length); i++) {
+      difference |= hash.charCodeAt(i) ^ expected.charCodeAt(i);
+    }
+    return difference === 0;
+  } catch (error) {
+    console.error('Error verifying PIN:', error);
+    return false;
+  }
+};
+
+export const clearPin = async (): Promise<void> => {
+  try {
+    await secureStore.removeItem(PIN_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing PIN:', error);
+  }
+};
+
+/**
+ * Seconds unlocking stays paused after `failedAttempts` wrong PINs; doubles
+ * with every attempt past the limit
+ */
+export const getLockoutSeconds = (failedAttempts: number): number => {
+  if (failedAttempts < MAX_PIN_ATTEMPTS) return 0;
+  return LOCKOUT_BASE_SECONDS * Math.pow(2, failedAttempts - MAX_PIN_ATTEMPTS);
+};
+
+export const getBiometricSupport = async (): Promise<BiometricSupport> => {
+  if (Platform.OS === 'web') {
+    return { available: false, label: 'Biometrics' };
+  }
+
+  try {
+    const [hasHardware, isEnrolled, types] = await Promise.all([
+      LocalAuthentication.hasHardwareAsync(),
+      LocalAuthentication.isEnrolledAsync(),
+      LocalAuthentication.supportedAuthenticationTypesAsync(),
+    ]);
+
+    let label = 'Biometrics';
+    if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) {
+      label = Platform.OS === 'ios' ? 'Face ID' : 'Face Unlock';
+    } else if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+      label = Platform.OS === 'ios' ? 'Touch ID' : 'Fingerprint';
+    }
+
+    return { available: hasHardware && isEnrolled, label };
+  } catch (error) {
+    console.error('Error checking biometric support:', error);
+    return { available: false, label: 'Biometrics' };
+  }
+};
+
+export const authenticateWithBiometrics = async (promptMessage: string): Promise<boolean> => {
+  if (Platform.OS === 'web') return false;
+
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      cancelLabel: 'Use PIN',
+      // The app's own PIN is the fallback, not the device passcode
+      disableDeviceFallback: true,
+    });
+    return result.success;
+  } catch (error) {
+    console.error('Error during biometric authentication:', error);
+    return false;
+  }
+};
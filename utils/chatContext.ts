@@ -0,0 +1,116 @@
+import AIService from '@/services/AIService';
+
+// Keeps coach requests small: only the newest turns are sent, older turns are
+// summarized into conversation memory, and only the user data the question is
+// about goes into the system prompt.
+
+// Rough token budget for the chat history sent with each request
+export const CHAT_HISTORY_TOKEN_BUDGET = 2000;
+// Turns always sent as they are, however long they are
+export const CHAT_MIN_RECENT_MESSAGES = 4;
+// Summaries kept in conversation memory; older ones are dropped
+export const CONVERSATION_MEMORY_LIMIT = 20;
+// Summaries included in the system prompt
+export const CONVERSATION_MEMORY_IN_PROMPT = 5;
+
+export type ContextTopic = 'workouts' | 'nutrition' | 'records' | 'weight' | 'steps' | 'goals' | 'progress';
+
+export interface ContextSnippet {
+  topic: ContextTopic;
+  build: () => string;
+}
+
+const TOPIC_KEYWORDS: Record<ContextTopic, string[]> = {
+  workouts: ['workout', 'train', 'exercise', 'gym', 'session', 'routine', 'schedule', 'lift', 'cardio', 'run', 'recovery', 'rest', 'sore', 'tired'],
+  nutrition: ['eat', 'food', 'meal', 'calorie', 'kcal', 'macro', 'protein', 'carb', 'fat', 'diet', 'nutrition', 'hungry', 'snack', 'breakfast', 'lunch', 'dinner'],
+  records: ['pr', 'record', 'personal best', 'max', '1rm', 'strongest', 'heaviest', 'bench', 'squat', 'deadlift', 'press'],
+  weight: ['weight', 'weigh', 'kg', 'lbs', 'lose', 'gain', 'cut', 'bulk', 'body'],
+  steps: ['step', 'walk', 'walking', 'active'],
+  goals: ['goal', 'target', 'aim', 'plan'],
+  progress: ['progress', 'level', 'xp', 'achievement', 'streak', 'how am i doing', 'how i am doing'],
+};
+
+// Used when the question mentions nothing specific
+const DEFAULT_TOPICS: ContextTopic[] = ['workouts', 'goals'];
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Longer keywords match the start of a word ("workout" in "workouts"); short
+// ones must be the whole word so "pr" does not match "protein"
+const matchesKeyword = (text: string, keyword: string): boolean =>
+  new RegExp(keyword.length <= 3 ? `\\b${keyword}\\b` : `\\b${keyword}`).test(text);
+
+/**
+ * Topics the question is about
+ */
+export const detectContextTopics = (question: string): ContextTopic[] => {
+  const text = question.toLowerCase();
+  const topics = (Object.keys(TOPIC_KEYWORDS) as ContextTopic[]).filter(topic =>
+    TOPIC_KEYWORDS[topic].some(keyword => matchesKeyword(text, keyword))
+  );
+  return topics.length > 0 ? topics : DEFAULT_TOPICS;
+};
+
+export const selectContextSnippets = (question: string, snippets: ContextSnippet[]): string => {
+  const topics = detectContextTopics(question);
+  return snippets
+    .filter(snippet => topics.includes(snippet.topic))
+    .map(snippet => snippet.build())
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Splits the history into the newest messages that fit the budget and the
+ * older ones that should be summarized instead of sent
+ */
+export const splitHistoryByBudget = <M extends { content: string }>(
+  messages: M[],
+  budget: number = CHAT_HISTORY_TOKEN_BUDGET,
+  minRecent: number = CHAT_MIN_RECENT_MESSAGES
+): { recent: M[]; older: M[] } => {
+  let used = 0;
+  let index = messages.length;
+  while (index > 0) {
+    const tokens = estimateTokens(messages[index - 1].content);
+    if (messages.length - index >= minRecent && used + tokens > budget) break;
+    used += tokens;
+    index--;
+  }
+  return { recent: messages.slice(index), older: messages.slice(0, index) };
+};
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Used when the summary request fails, so the turns are not lost entirely
+const fallbackSummary = (turns: ChatTurn[]): string =>
+  turns
+    .filter(turn => turn.role === 'user')
+    .map(turn => turn.content.slice(0, 120))
+    .join(' / ');
+
+/**
+ * A short summary of older turns for conversation memory
+ */
+export const summarizeTurns = async (turns: ChatTurn[]): Promise<string> => {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Coach'}: ${turn.content}`)
+    .join('\n');
+
+  try {
+    const summary = await AIService.complete([
+      {
+        role: 'system',
+        content: 'Summarize this part of a conversation between a user and their fitness coach in at most three sentences. Keep facts about the user (goals, preferences, injuries, schedule) and anything the coach recommended or changed. Reply with only the summary.',
+      },
+      { role: 'user', content: transcript },
+    ], { retries: 1 });
+    return summary.trim() || fallbackSummary(turns);
+  } catch (error) {
+    console.error('[ChatContext] Error summarizing conversation:', error);
+    return fallbackSummary(turns);
+  }
+};
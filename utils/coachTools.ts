@@ -0,0 +1,575 @@
+import { Exercise, MacroGoals, MacroLog, ScheduledWorkout, Workout } from '@/types';
+import { AISchema, describeSchema, extractJSON, validateStructuredOutput } from '@/services/AIService';
+import { useWorkoutStore } from '@/store/workoutStore';
+import { useMacroStore } from '@/store/macroStore';
+import { useAiStore, Goal } from '@/store/aiStore';
+import { useNotesStore } from '@/store/notesStore';
+import { toDateKey } from './mealPlanner';
+
+// Tools the AI coach can call to change app data. Nothing is applied until the
+// user confirms the previewed changes, and every applied call can be undone.
+
+export type CoachToolName =
+  | 'create_workout'
+  | 'schedule_workout'
+  | 'log_meal'
+  | 'set_macro_goals'
+  | 'add_goal'
+  | 'add_note';
+
+// One line of the diff card; `before` is left out for values that did not exist
+export interface CoachChange {
+  label: string;
+  before?: string;
+  after: string;
+}
+
+export type CoachActionStatus = 'proposed' | 'applied' | 'rejected' | 'undone' | 'failed';
+
+export interface CoachAction {
+  tool: CoachToolName;
+  args: Record<string, unknown>;
+  summary: string;
+  changes: CoachChange[];
+  status: CoachActionStatus;
+  // Returned by the tool when applied and handed back to it on undo
+  undo?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface CoachToolCall {
+  tool: CoachToolName;
+  args: Record<string, unknown>;
+  // What the coach says alongside the proposal
+  message?: string;
+}
+
+export interface CoachProposalResult {
+  success: boolean;
+  action?: CoachAction;
+  error?: string;
+}
+
+interface CoachTool<A, U extends Record<string, unknown>> {
+  name: CoachToolName;
+  description: string;
+  schema: AISchema<A>;
+  // Problems the schema cannot catch, such as an unknown workout. Checked again right before applying.
+  validate?: (args: A) => string | null;
+  summarize: (args: A) => string;
+  preview: (args: A) => CoachChange[];
+  apply: (args: A) => U;
+  undo: (payload: U) => void;
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const generateId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// YYYY-MM-DD of the local day, the form the model is given and answers in
+const today = (): string => toDateKey(new Date());
+
+// YYYY-MM-DD in local time; Date parses a bare date as UTC
+const parseLocalDate = (date: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const parsed = new Date(`${date}T00:00:00`);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const findExercise = (name: string, exercises: Exercise[]): Exercise | undefined => {
+  const query = name.trim().toLowerCase();
+  return exercises.find(exercise => exercise.name.toLowerCase() === query) ||
+    exercises.find(exercise => exercise.name.toLowerCase().includes(query));
+};
+
+const findWorkout = (name: string): Workout | undefined => {
+  const query = name.trim().toLowerCase();
+  const { workouts } = useWorkoutStore.getState();
+  return workouts.find(workout => workout.name.toLowerCase() === query) ||
+    workouts.find(workout => workout.name.toLowerCase().includes(query));
+};
+
+interface CreateWorkoutArgs {
+  name: string;
+  exercises: string[];
+  duration: number;
+  difficulty?: string;
+  description?: string;
+}
+
+const createWorkoutTool: CoachTool<CreateWorkoutArgs, { workoutId: string }> = {
+  name: 'create_workout',
+  description: 'Add a workout to the workout library',
+  schema: {
+    name: 'create_workout',
+    fields: {
+      name: { type: 'string', required: true },
+      exercises: { type: 'string[]', required: true, description: 'exercise names from the exercise library' },
+      duration: { type: 'number', required: true, description: 'minutes' },
+      difficulty: { type: 'string', description: 'beginner, intermediate or advanced' },
+      description: { type: 'string' },
+    },
+  },
+  validate: (args) => {
+    const { exercises } = useWorkoutStore.getState();
+    if (!args.exercises.some(name => findExercise(name, exercises))) {
+      return 'None of the exercises are in the exercise library';
+    }
+    if (args.duration <= 0) return 'Duration must be more than 0 minutes';
+    return null;
+  },
+  summarize: (args) => `Create workout "${args.name}"`,
+  preview: (args) => {
+    const { exercises } = useWorkoutStore.getState();
+    const missing = args.exercises.filter(name => !findExercise(name, exercises));
+    const changes: CoachChange[] = [
+      { label: 'Workout', after: args.name },
+      {
+        label: 'Exercises',
+        after: args.exercises
+          .map(name => findExercise(name, exercises)?.name)
+          .filter(Boolean)
+          .join(', '),
+      },
+      { label: 'Duration', after: `${Math.round(args.duration)} min` },
+    ];
+    if (missing.length > 0) {
+      changes.push({ label: 'Skipped (not in library)', after: missing.join(', ') });
+    }
+    return changes;
+  },
+  apply: (args) => {
+    const store = useWorkoutStore.getState();
+    const exercises = args.exercises
+      .map(name => findExercise(name, store.exercises))
+      .filter((exercise): exercise is Exercise => !!exercise);
+    const difficulty = ['beginner', 'intermediate', 'advanced'].includes(args.difficulty || '')
+      ? args.difficulty as Workout['difficulty']
+      : 'intermediate';
+    const caloriesPerMinute = exercises.reduce((total, exercise) => total + exercise.caloriesPerMinute, 0) / exercises.length;
+    const now = new Date();
+
+    const workout: Workout = {
+      id: generateId(),
+      name: args.name,
+      description: args.description || 'Created by your coach',
+      exercises,
+      duration: Math.round(args.duration),
+      difficulty,
+      equipment: Array.from(new Set(exercises.flatMap(exercise => exercise.equipment))),
+      muscleGroups: Array.from(new Set(exercises.flatMap(exercise => exercise.muscleGroups))),
+      calories: Math.round(caloriesPerMinute * args.duration),
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.addWorkout(workout);
+    return { workoutId: workout.id };
+  },
+  undo: ({ workoutId }) => useWorkoutStore.getState().removeWorkout(workoutId),
+};
+
+interface ScheduleWorkoutArgs {
+  workout: string;
+  date: string;
+  time: string;
+  duration?: number;
+}
+
+const scheduleWorkoutTool: CoachTool<ScheduleWorkoutArgs, { scheduledWorkoutId: string }> = {
+  name: 'schedule_workout',
+  description: 'Schedule an existing workout from the library for a date',
+  schema: {
+    name: 'schedule_workout',
+    fields: {
+      workout: { type: 'string', required: true, description: 'name of a workout in the library' },
+      date: { type: 'string', required: true, description: 'YYYY-MM-DD' },
+      time: { type: 'string', required: true, description: 'HH:MM, 24 hour' },
+      duration: { type: 'number', description: 'minutes, defaults to the workout duration' },
+    },
+  },
+  validate: (args) => {
+    if (!findWorkout(args.workout)) return `There is no workout called "${args.workout}"`;
+    if (!parseLocalDate(args.date)) return `"${args.date}" is not a valid date`;
+    if (!/^([01]?\d|2[0-3]):[0-5]\d$/.test(args.time)) return `"${args.time}" is not a valid time`;
+    return null;
+  },
+  summarize: (args) => `Schedule ${findWorkout(args.workout)?.name || args.workout}`,
+  preview: (args) => {
+    const workout = findWorkout(args.workout);
+    const date = parseLocalDate(args.date);
+    return [
+      { label: 'Workout', after: workout?.name || args.workout },
+      { label: 'When', after: `${date ? `${DAYS[date.getDay()]} ${args.date}` : args.date} at ${args.time}` },
+      { label: 'Duration', after: `${Math.round(args.duration || workout?.duration || 45)} min` },
+    ];
+  },
+  apply: (args) => {
+    const workout = findWorkout(args.workout)!;
+    const date = parseLocalDate(args.date)!;
+    const scheduledWorkout: ScheduledWorkout = {
+      id: generateId(),
+      workoutId: workout.id,
+      workoutName: workout.name,
+      dayOfWeek: date.getDay(),
+      time: args.time,
+      duration: Math.round(args.duration || workout.duration || 45),
+      completed: false,
+      scheduleType: 'one-time',
+      // Stored as a timestamp like the schedule screen does; a bare date would read as UTC
+      scheduledDate: date.toISOString(),
+    };
+    useWorkoutStore.getState().scheduleWorkout(scheduledWorkout);
+    return { scheduledWorkoutId: scheduledWorkout.id };
+  },
+  undo: ({ scheduledWorkoutId }) => useWorkoutStore.getState().removeScheduledWorkout(scheduledWorkoutId),
+};
+
+interface LogMealArgs {
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  mealType?: string;
+}
+
+const logMealTool: CoachTool<LogMealArgs, { logId: string }> = {
+  name: 'log_meal',
+  description: 'Log a meal the user has eaten today',
+  schema: {
+    name: 'log_meal',
+    fields: {
+      name: { type: 'string', required: true },
+      calories: { type: 'number', required: true },
+      protein: { type: 'number', required: true, description: 'grams' },
+      carbs: { type: 'number', required: true, description: 'grams' },
+      fat: { type: 'number', required: true, description: 'grams' },
+      mealType: { type: 'string', description: 'breakfast, lunch, dinner or snack' },
+    },
+  },
+  validate: (args) =>
+    [args.calories, args.protein, args.carbs, args.fat].some(value => value < 0)
+      ? 'Calories and macros cannot be negative'
+      : null,
+  summarize: (args) => `Log ${args.name}`,
+  preview: (args) => {
+    const totals = useMacroStore.getState().calculateDailyMacros(new Date().toISOString());
+    return [
+      { label: 'Meal', after: `${args.name}${args.mealType ? ` (${args.mealType})` : ''}` },
+      { label: 'Calories today', before: `${Math.round(totals.calories)}`, after: `${Math.round(totals.calories + args.calories)}` },
+      { label: 'Protein today', before: `${Math.round(totals.protein)}g`, after: `${Math.round(totals.protein + args.protein)}g` },
+      { label: 'Carbs today', before: `${Math.round(totals.carbs)}g`, after: `${Math.round(totals.carbs + args.carbs)}g` },
+      { label: 'Fat today', before: `${Math.round(totals.fat)}g`, after: `${Math.round(totals.fat + args.fat)}g` },
+    ];
+  },
+  apply: (args) => {
+    const log: MacroLog = {
+      id: generateId(),
+      date: new Date().toISOString(),
+      calories: Math.round(args.calories),
+      protein: Math.round(args.protein),
+      carbs: Math.round(args.carbs),
+      fat: Math.round(args.fat),
+      notes: args.name,
+      mealType: args.mealType,
+    };
+    useMacroStore.getState().addMacroLog(log);
+    return { logId: log.id };
+  },
+  undo: ({ logId }) => useMacroStore.getState().removeMacroLog(logId),
+};
+
+type SetMacroGoalsArgs = Partial<MacroGoals>;
+
+// Undo only touches the goals this call set, and skips any changed again since
+const setMacroGoalsTool: CoachTool<SetMacroGoalsArgs, { previous: Partial<MacroGoals>; applied: Partial<MacroGoals> }> = {
+  name: 'set_macro_goals',
+  description: 'Change the daily calorie and macro goals; fields left out stay the same',
+  schema: {
+    name: 'set_macro_goals',
+    fields: {
+      calories: { type: 'number' },
+      protein: { type: 'number', description: 'grams' },
+      carbs: { type: 'number', description: 'grams' },
+      fat: { type: 'number', description: 'grams' },
+    },
+  },
+  validate: (args) => {
+    const values = Object.values(args) as number[];
+    if (values.length === 0) return 'No goals to change';
+    return values.some(value => value <= 0) ? 'Goals must be more than 0' : null;
+  },
+  summarize: () => 'Update nutrition goals',
+  preview: (args) => {
+    const { macroGoals } = useMacroStore.getState();
+    return (Object.keys(args) as (keyof MacroGoals)[]).map(key => {
+      const unit = key === 'calories' ? ' kcal' : 'g';
+      return {
+        label: key.charAt(0).toUpperCase() + key.slice(1),
+        before: `${macroGoals[key]}${unit}`,
+        after: `${Math.round(args[key]!)}${unit}`,
+      };
+    });
+  },
+  apply: (args) => {
+    const { macroGoals, updateMacroGoals } = useMacroStore.getState();
+    const previous: Partial<MacroGoals> = {};
+    const applied: Partial<MacroGoals> = {};
+    (Object.keys(args) as (keyof MacroGoals)[]).forEach(key => {
+      previous[key] = macroGoals[key];
+      applied[key] = Math.round(args[key]!);
+    });
+    updateMacroGoals({ ...macroGoals, ...applied });
+    return { previous, applied };
+  },
+  undo: ({ previous, applied }) => {
+    const { macroGoals, updateMacroGoals } = useMacroStore.getState();
+    const restored = { ...macroGoals };
+    (Object.keys(previous) as (keyof MacroGoals)[]).forEach(key => {
+      if (macroGoals[key] === applied[key]) restored[key] = previous[key]!;
+    });
+    updateMacroGoals(restored);
+  },
+};
+
+interface AddGoalArgs {
+  text: string;
+  category: string;
+  timeframe?: string;
+  targetValue?: number;
+}
+
+const GOAL_CATEGORIES = ['weight', 'workout', 'nutrition', 'water', 'steps', 'health', 'other'];
+
+const addGoalTool: CoachTool<AddGoalArgs, { goalId: string }> = {
+  name: 'add_goal',
+  description: 'Add a weekly or monthly goal',
+  schema: {
+    name: 'add_goal',
+    fields: {
+      text: { type: 'string', required: true, description: 'the goal, specific and measurable' },
+      category: { type: 'string', required: true, description: GOAL_CATEGORIES.join(', ') },
+      timeframe: { type: 'string', description: 'weekly or monthly, defaults to weekly' },
+      targetValue: { type: 'number', description: 'numeric target, e.g. 10000 for steps' },
+    },
+  },
+  summarize: (args) => `Add ${args.timeframe === 'monthly' ? 'monthly' : 'weekly'} goal`,
+  preview: (args) => {
+    const changes: CoachChange[] = [
+      { label: 'Goal', after: args.text },
+      { label: 'Category', after: GOAL_CATEGORIES.includes(args.category) ? args.category : 'other' },
+    ];
+    if (args.targetValue !== undefined) {
+      changes.push({ label: 'Target', after: `${args.targetValue}` });
+    }
+    return changes;
+  },
+  apply: (args) => {
+    const goal: Goal = {
+      id: generateId(),
+      text: args.text,
+      date: new Date().toISOString(),
+      completed: false,
+      category: GOAL_CATEGORIES.includes(args.category) ? args.category : 'other',
+      timeframe: args.timeframe === 'monthly' ? 'monthly' : 'weekly',
+      targetValue: args.targetValue,
+      progress: 0,
+    };
+    useAiStore.getState().addGoal(goal);
+    return { goalId: goal.id };
+  },
+  undo: ({ goalId }) => useAiStore.getState().deleteGoal(goalId),
+};
+
+interface AddNoteArgs {
+  notes: string;
+  date?: string;
+}
+
+// A day has a single note, so adding to a day that has one appends; undo
+// removes just the added text and keeps anything written since
+const addNoteTool: CoachTool<AddNoteArgs, { noteId: string; added: string }> = {
+  name: 'add_note',
+  description: 'Add to the daily note for a day',
+  schema: {
+    name: 'add_note',
+    fields: {
+      notes: { type: 'string', required: true },
+      date: { type: 'string', description: 'YYYY-MM-DD, defaults to today' },
+    },
+  },
+  validate: (args) => args.date && !parseLocalDate(args.date) ? `"${args.date}" is not a valid date` : null,
+  summarize: (args) => `Add note for ${args.date || 'today'}`,
+  preview: (args) => {
+    const existing = useNotesStore.getState().getNoteByDate(parseLocalDate(args.date || today())!.toISOString());
+    return [{
+      label: 'Note',
+      before: existing?.notes,
+      after: existing ? `${existing.notes}\n${args.notes}` : args.notes,
+    }];
+  },
+  apply: (args) => {
+    const store = useNotesStore.getState();
+    const date = parseLocalDate(args.date || today())!.toISOString();
+    const existing = store.getNoteByDate(date);
+    if (existing) {
+      const added = `\n${args.notes}`;
+      store.updateDailyNote({ ...existing, notes: `${existing.notes}${added}` });
+      return { noteId: existing.id, added };
+    }
+
+    store.addDailyNote({ date, notes: args.notes });
+    const { dailyNotes } = useNotesStore.getState();
+    return { noteId: dailyNotes[dailyNotes.length - 1].id, added: args.notes };
+  },
+  undo: ({ noteId, added }) => {
+    const store = useNotesStore.getState();
+    const note = store.dailyNotes.find(item => item.id === noteId);
+    const index = note ? note.notes.lastIndexOf(added) : -1;
+    if (!note || index === -1) return;
+
+    const notes = note.notes.slice(0, index) + note.notes.slice(index + added.length);
+    if (notes.trim().length === 0) {
+      store.deleteDailyNote(noteId);
+    } else {
+      store.updateDailyNote({ ...note, notes });
+    }
+  },
+};
+
+// Argument and undo payload types of each tool, so the registry keeps them paired
+interface CoachToolTypes {
+  create_workout: { args: CreateWorkoutArgs; undo: { workoutId: string } };
+  schedule_workout: { args: ScheduleWorkoutArgs; undo: { scheduledWorkoutId: string } };
+  log_meal: { args: LogMealArgs; undo: { logId: string } };
+  set_macro_goals: { args: SetMacroGoalsArgs; undo: { previous: Partial<MacroGoals>; applied: Partial<MacroGoals> } };
+  add_goal: { args: AddGoalArgs; undo: { goalId: string } };
+  add_note: { args: AddNoteArgs; undo: { noteId: string; added: string } };
+}
+
+type CoachToolArgs<K extends CoachToolName> = CoachToolTypes[K]['args'];
+type CoachToolUndo<K extends CoachToolName> = CoachToolTypes[K]['undo'];
+
+export const COACH_TOOLS: { [K in CoachToolName]: CoachTool<CoachToolArgs<K>, CoachToolUndo<K>> } = {
+  create_workout: createWorkoutTool,
+  schedule_workout: scheduleWorkoutTool,
+  log_meal: logMealTool,
+  set_macro_goals: setMacroGoalsTool,
+  add_goal: addGoalTool,
+  add_note: addNoteTool,
+};
+
+const isCoachToolName = (name: unknown): name is CoachToolName =>
+  typeof name === 'string' && name in COACH_TOOLS;
+
+/**
+ * Tool instructions for the system prompt
+ */
+export const describeCoachTools = (): string => {
+  const tools = Object.values(COACH_TOOLS)
+    .map(tool => `${tool.name}: ${tool.description}\n${describeSchema<unknown>(tool.schema).split('\n').slice(1).join('\n')}`)
+    .join('\n\n');
+
+  return `TOOLS:
+When the user asks you to create a workout, schedule a workout, log a meal, change their nutrition goals, add a goal or add a note, reply with only a JSON object: {"tool": "<name>", "arguments": {...}, "message": "<one sentence for the user>"}. The user confirms the change before it is made. Today is ${today()}. Use one tool per reply and answer normally for everything else.
+
+${tools}`;
+};
+
+// Phrasings that ask for a change a tool can make. These go straight to the
+// model so the keyword handlers in the chat screen don't answer them instead.
+const COACH_TOOL_INTENTS: Record<CoachToolName, RegExp[]> = {
+  create_workout: [/\b(create|make|build|design)\b.*\bworkout\b/],
+  schedule_workout: [/\bschedule\b.*\b(workout|session|training)\b/, /\b(book|plan)\b.*\bworkout\b.*\b(for|on|at)\b/],
+  log_meal: [
+    /\b(log|add|record|track)\b.*\b(meal|breakfast|lunch|dinner|snack|food)\b/,
+    /\bi (just )?(ate|had)\b/,
+  ],
+  set_macro_goals: [
+    /\b(set|change|update|adjust|raise|lower|increase|decrease|bump)\b.*\b(calorie|protein|carb|fat|macro)s?\b/,
+  ],
+  add_goal: [/\b(add|set|create)\b.*\b(weekly|monthly)?\s*goal\b/],
+  add_note: [/\b(add|write|make|take|save)\b.*\bnote\b/, /\bnote (down|that)\b/],
+};
+
+/**
+ * Whether a message asks the coach to change something a tool can handle
+ */
+export const isCoachToolRequest = (message: string): boolean => {
+  const text = message.toLowerCase();
+  return Object.values(COACH_TOOL_INTENTS).some(patterns => patterns.some(pattern => pattern.test(text)));
+};
+
+/**
+ * The tool call in a coach reply, or null when the reply is plain text
+ */
+export const parseCoachToolCall = (reply: string): CoachToolCall | null => {
+  if (!reply.includes('"tool"')) return null;
+  const value = extractJSON(reply) as { tool?: unknown; arguments?: unknown; message?: unknown } | null;
+  if (!value || !isCoachToolName(value.tool)) return null;
+
+  return {
+    tool: value.tool,
+    args: value.arguments && typeof value.arguments === 'object' ? value.arguments as Record<string, unknown> : {},
+    message: typeof value.message === 'string' ? value.message : undefined,
+  };
+};
+
+/**
+ * Check a tool call and build the preview the user confirms
+ */
+export const proposeCoachAction = <K extends CoachToolName>(call: CoachToolCall & { tool: K }): CoachProposalResult => {
+  const tool = COACH_TOOLS[call.tool];
+  const args = validateStructuredOutput<CoachToolArgs<K>>(tool.schema, call.args);
+  if (!args) {
+    return { success: false, error: `The ${call.tool} request was missing details` };
+  }
+
+  const problem = tool.validate?.(args);
+  if (problem) {
+    return { success: false, error: problem };
+  }
+
+  return {
+    success: true,
+    action: {
+      tool: call.tool,
+      args: args as Record<string, unknown>,
+      summary: tool.summarize(args),
+      changes: tool.preview(args),
+      status: 'proposed',
+    },
+  };
+};
+
+// Stored actions lose their types; the arguments were checked against the schema when proposed
+export const applyCoachAction = <K extends CoachToolName>(action: CoachAction & { tool: K }): CoachAction => {
+  if (action.status !== 'proposed') return action;
+  const tool = COACH_TOOLS[action.tool];
+  const args = action.args as CoachToolArgs<K>;
+
+  // The data may have changed since the preview was shown
+  const problem = tool.validate?.(args);
+  if (problem) {
+    return { ...action, status: 'failed', error: problem };
+  }
+
+  try {
+    return { ...action, status: 'applied', undo: tool.apply(args) };
+  } catch (error) {
+    console.error(`[CoachTools] Error applying ${action.tool}:`, error);
+    return { ...action, status: 'failed', error: 'The change could not be saved' };
+  }
+};
+
+export const undoCoachAction = <K extends CoachToolName>(action: CoachAction & { tool: K }): CoachAction => {
+  if (action.status !== 'applied' || !action.undo) return action;
+
+  try {
+    COACH_TOOLS[action.tool].undo(action.undo as CoachToolUndo<K>);
+    return { ...action, status: 'undone' };
+  } catch (error) {
+    console.error(`[CoachTools] Error undoing ${action.tool}:`, error);
+    return action;
+  }
+};
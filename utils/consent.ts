@@ -0,0 +1,133 @@
+import { Alert } from 'react-native';
+import { useConsentStore, ConsentPurpose, ConsentSource } from '@/store/consentStore';
+import { useHealthStore } from '@/store/healthStore';
+import { useJourneyStore } from '@/store/journeyStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { eraseUserData } from './dataErasure';
+import { cleanupTempDecryptedFiles } from './fileEncryption';
+
+// What each consent purpose covers, and the prompt/withdrawal flows built on the consent ledger
+
+export const CONSENT_PURPOSES: Record<ConsentPurpose, { title: string; description: string; withdrawal: string }> = {
+  aiPhotoProcessing: {
+    title: 'AI Photo Analysis',
+    description: 'Food photos and nutrition labels you choose to analyze are sent to our AI provider to estimate nutrition.',
+    withdrawal: 'No more photos are sent and temporary photo copies are deleted. Foods already logged stay in your log.',
+  },
+  aiChat: {
+    title: 'AI Coach',
+    description: 'Your messages, along with the fitness and nutrition data relevant to them, are sent to our AI provider to generate replies.',
+    withdrawal: 'The AI coach stops sending messages and your conversations are deleted from this device.',
+  },
+  healthKitSync: {
+    title: 'Apple Health Sync',
+    description: 'Weight, steps and workouts are read from Apple Health, and weights you log are written back to it.',
+    withdrawal: 'Syncing stops, connected devices are disconnected and data imported from Apple Health or those devices is removed from the app. Apple Health itself is not changed.',
+  },
+  analytics: {
+    title: 'Anonymous Usage Data',
+    description: 'Anonymous statistics about how features are used, to help improve the app.',
+    withdrawal: 'No further usage statistics are collected.',
+  },
+  journeyLocation: {
+    title: 'Virtual Journey',
+    description: 'Your step count is turned into a position along the route through Norway.',
+    withdrawal: 'The journey is turned off and your route progress is reset.',
+  },
+};
+
+const APPLE_HEALTH_SOURCE = 'Apple Health';
+
+// Synced logs are tagged 'Apple Health'; logs imported through a connected
+// device carry its name as the source, but only device imports set a deviceId
+const isFromHealthKit = (log: { source?: string; deviceId?: string }): boolean =>
+  log.source === APPLE_HEALTH_SOURCE || !!log.deviceId;
+
+export const grantConsent = (purpose: ConsentPurpose, source: ConsentSource): void => {
+  useConsentStore.getState().recordConsent(purpose, true, source);
+
+  if (purpose === 'analytics') {
+    useSettingsStore.getState().setAllowAnalytics(true);
+  }
+};
+
+/**
+ * Resolve true straight away when the purpose already has consent under the
+ * current policy; otherwise ask, and record the answer in the ledger
+ */
+export const requestConsent = (purpose: ConsentPurpose): Promise<boolean> => {
+  if (useConsentStore.getState().hasConsent(purpose)) {
+    return Promise.resolve(true);
+  }
+
+  const { title, description } = CONSENT_PURPOSES[purpose];
+  return new Promise(resolve => {
+    Alert.alert(
+      title,
+      `${description}\n\nYou can withdraw this at any time in Privacy & Security.`,
+      [
+        {
+          text: "Don't Allow",
+          style: 'cancel',
+          onPress: () => {
+            useConsentStore.getState().recordConsent(purpose, false, 'prompt');
+            resolve(false);
+          },
+        },
+        {
+          text: 'Allow',
+          onPress: () => {
+            grantConsent(purpose, 'prompt');
+            resolve(true);
+          },
+        },
+      ],
+      { cancelable: false }
+    );
+  });
+};
+
+/**
+ * Record the withdrawal, then remove or stop whatever depended on the consent
+ */
+export const withdrawConsent = async (purpose: ConsentPurpose): Promise<void> => {
+  useConsentStore.getState().recordConsent(purpose, false, 'settings');
+
+  try {
+    switch (purpose) {
+      case 'aiPhotoProcessing':
+        await cleanupTempDecryptedFiles();
+        break;
+
+      case 'aiChat':
+        await eraseUserData('aiChats');
+        break;
+
+      case 'healthKitSync': {
+        const health = useHealthStore.getState();
+        health.stopSwimmingSync();
+        useHealthStore.setState({
+          weightLogs: health.weightLogs.filter(log => !isFromHealthKit(log)),
+          stepLogs: health.stepLogs.filter(log => !isFromHealthKit(log)),
+          activityLogs: health.activityLogs.filter(log => !isFromHealthKit(log)),
+          // Devices only import through HealthKit, so none can stay connected
+          connectedDevices: health.connectedDevices.map(device => ({ ...device, isConnected: false })),
+        });
+        break;
+      }
+
+      case 'analytics':
+        useSettingsStore.getState().setAllowAnalytics(false);
+        break;
+
+      case 'journeyLocation': {
+        const journey = useJourneyStore.getState();
+        journey.toggleJourney(false);
+        journey.resetJourney();
+        break;
+      }
+    }
+  } catch (error) {
+    console.error(`Error cleaning up after withdrawing ${purpose} consent:`, error);
+  }
+};
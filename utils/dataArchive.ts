@@ -0,0 +1,569 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { useAiStore } from '@/store/aiStore';
+import { useFoodStore } from '@/store/foodStore';
+import { useGamificationStore } from '@/store/gamificationStore';
+import { useHealthStore } from '@/store/healthStore';
+import { useJourneyStore } from '@/store/journeyStore';
+import { useMacroStore } from '@/store/macroStore';
+import { useMealStore } from '@/store/mealStore';
+import { useNotesStore } from '@/store/notesStore';
+import { useNotificationStoreState } from '@/store/notificationStore';
+import { useNutritionStore } from '@/store/nutritionStore';
+import { usePhotoStore } from '@/store/photoStore';
+import { useProgramStore } from '@/store/programStore';
+import { useScheduleStore } from '@/store/scheduleStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useThemeStore } from '@/store/themeStore';
+import { useUserStore } from '@/store/userStore';
+import { useWaterStore } from '@/store/waterStore';
+import { useWorkoutStore } from '@/store/workoutStore';
+import { encryptWithPassphrase, decryptWithPassphrase } from './encryption';
+import { decryptPhoto, encryptAndSavePhoto, ENCRYPTED_PHOTOS_DIR, TEMP_DECRYPTED_DIR } from './fileEncryption';
+import { secureDeleteFile } from './secureDelete';
+
+// Versioned export/import archive covering every persisted store
+
+export const ARCHIVE_FORMAT = 'fitjourney-archive';
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveSectionKey =
+  | 'workout'
+  | 'program'
+  | 'health'
+  | 'macro'
+  | 'gamification'
+  | 'journey'
+  | 'water'
+  | 'notes'
+  | 'ai'
+  | 'photo'
+  | 'food'
+  | 'meal'
+  | 'nutrition'
+  | 'schedule'
+  | 'settings'
+  | 'theme'
+  | 'notification'
+  | 'user';
+
+export type PhotoKind = 'food' | 'progress' | 'workout';
+
+export interface ArchivePhotoBlob {
+  kind: PhotoKind;
+  fileName: string;
+  // Base64 image data encrypted with the archive passphrase
+  data: string;
+}
+
+export interface DataArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportDate: string;
+  platform: string;
+  sections: Partial<Record<ArchiveSectionKey, Record<string, any>>>;
+  photos: Record<string, ArchivePhotoBlob>;
+  photosEncrypted: boolean;
+}
+
+export interface ArchiveValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ArchiveImportResult {
+  success: boolean;
+  importedSections: ArchiveSectionKey[];
+  importedPhotos: number;
+  failedPhotos: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ExportArchiveOptions {
+  includePhotos?: boolean;
+  passphrase?: string;
+}
+
+export interface ImportArchiveOptions {
+  // 'merge' unions id-keyed records with existing data, 'replace' overwrites each store
+  mode?: 'merge' | 'replace';
+  passphrase?: string;
+}
+
+type PersistedStore = {
+  getState: () => any;
+  setState: (partial: any) => void;
+  persist: {
+    getOptions: () => {
+      name?: string;
+      partialize?: (state: any) => any;
+      merge?: (persistedState: unknown, currentState: any) => any;
+    };
+  };
+};
+
+const ARCHIVE_STORES: Record<ArchiveSectionKey, PersistedStore> = {
+  workout: useWorkoutStore,
+  program: useProgramStore,
+  health: useHealthStore,
+  macro: useMacroStore,
+  gamification: useGamificationStore,
+  journey: useJourneyStore,
+  water: useWaterStore,
+  notes: useNotesStore,
+  ai: useAiStore,
+  photo: usePhotoStore,
+  food: useFoodStore,
+  meal: useMealStore,
+  nutrition: useNutritionStore,
+  schedule: useScheduleStore,
+  settings: useSettingsStore,
+  theme: useThemeStore,
+  notification: useNotificationStoreState,
+  user: useUserStore,
+};
+
+// Runtime-only fields that must never be written to or restored from an archive
+const TRANSIENT_FIELDS: Partial<Record<ArchiveSectionKey, string[]>> = {
+  health: ['swimmingSyncInterval'],
+  ai: ['isLoading'],
+};
+
+const PHOTO_COLLECTIONS: Record<PhotoKind, 'foodPhotos' | 'progressPhotos' | 'workoutMedia'> = {
+  food: 'foodPhotos',
+  progress: 'progressPhotos',
+  workout: 'workoutMedia',
+};
+
+/**
+ * Capture the persisted (serializable) state of a single store
+ */
+const snapshotStore = (key: ArchiveSectionKey): Record<string, any> => {
+  const store = ARCHIVE_STORES[key];
+  const { partialize } = store.persist.getOptions();
+  const state = partialize ? partialize(store.getState()) : store.getState();
+
+  // A JSON round-trip drops actions and converts Dates to ISO strings,
+  // which matches what the persist middleware writes to storage
+  const snapshot = JSON.parse(JSON.stringify(state));
+
+  (TRANSIENT_FIELDS[key] || []).forEach(field => {
+    delete snapshot[field];
+  });
+
+  return snapshot;
+};
+
+/**
+ * Turn an archived section, which is in the store's persisted shape, back into
+ * the store's own fields the way rehydration does. Only the archived fields are returned.
+ */
+const rehydrateSection = (key: ArchiveSectionKey, section: Record<string, any>): Record<string, any> => {
+  const store = ARCHIVE_STORES[key];
+  const { merge } = store.persist.getOptions();
+  const state = merge ? merge(section, store.getState()) : { ...store.getState(), ...section };
+  return Object.fromEntries(Object.keys(section).map(field => [field, state[field]]));
+};
+
+/**
+ * Read a stored photo as base64, decrypting it first if it lives in the encrypted directory
+ */
+const readPhotoAsBase64 = async (uri: string): Promise<string | null> => {
+  if (!uri || uri.startsWith('http')) return null;
+
+  let readableUri = uri;
+  let isTempFile = false;
+
+  if (uri.startsWith(ENCRYPTED_PHOTOS_DIR)) {
+    readableUri = await decryptPhoto(uri);
+    if (readableUri === uri) {
+      // Decryption failed, decryptPhoto hands back the original URI
+      return null;
+    }
+    isTempFile = true;
+  }
+
+  try {
+    const info = await FileSystem.getInfoAsync(readableUri);
+    if (!info.exists) return null;
+
+    return await FileSystem.readAsStringAsync(readableUri, {
+      encoding: FileSystem.EncodingType.Base64
+    });
+  } finally {
+    if (isTempFile) {
+      await secureDeleteFile(readableUri);
+    }
+  }
+};
+
+/**
+ * Build an archive of every persisted store. Photos are only included when a
+ * passphrase is supplied, since the device encryption key does not travel with the archive.
+ */
+export const buildDataArchive = async (options: ExportArchiveOptions = {}): Promise<DataArchive> => {
+  const { includePhotos = true, passphrase } = options;
+
+  const sections: DataArchive['sections'] = {};
+  (Object.keys(ARCHIVE_STORES) as ArchiveSectionKey[]).forEach(key => {
+    sections[key] = snapshotStore(key);
+  });
+
+  const photos: Record<string, ArchivePhotoBlob> = {};
+
+  if (includePhotos && passphrase && Platform.OS !== 'web') {
+    const photoSection = sections.photo || {};
+
+    for (const kind of Object.keys(PHOTO_COLLECTIONS) as PhotoKind[]) {
+      const items: Array<{ id: string; uri: string }> = photoSection[PHOTO_COLLECTIONS[kind]] || [];
+
+      for (const item of items) {
+        try {
+          const base64 = await readPhotoAsBase64(item.uri);
+          if (!base64) continue;
+
+          const extension = item.uri.toLowerCase().endsWith('.gif') ? 'gif' : 'jpg';
+          photos[item.id] = {
+            kind,
+            fileName: `${kind}_${item.id}.${extension}`,
+            data: await encryptWithPassphrase(base64, passphrase),
+          };
+        } catch (error) {
+          console.warn(`Could not export photo ${item.id}:`, error);
+        }
+      }
+    }
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportDate: new Date().toISOString(),
+    platform: Platform.OS,
+    sections,
+    photos,
+    photosEncrypted: Object.keys(photos).length > 0,
+  };
+};
+
+/**
+ * Serialize the archive for writing to disk or sharing
+ */
+export const exportDataArchive = async (options: ExportArchiveOptions = {}): Promise<string> => {
+  const archive = await buildDataArchive(options);
+  return JSON.stringify(archive);
+};
+
+/**
+ * Convert the flat export written by older versions of the data management screen
+ */
+const migrateLegacyExport = (legacy: Record<string, any>): DataArchive => {
+  const stripPlaceholderUri = (photo: any) => ({
+    ...photo,
+    uri: photo.uri === 'PHOTO_URI_REMOVED_FOR_EXPORT' ? '' : photo.uri,
+  });
+
+  const sections: DataArchive['sections'] = {
+    ai: { goals: legacy.goals || [], chats: legacy.chats || [] },
+    health: {
+      weightLogs: legacy.weightLogs || [],
+      stepLogs: legacy.stepLogs || [],
+      activityLogs: legacy.activityLogs || [],
+      ...(legacy.healthGoals ? { healthGoals: legacy.healthGoals } : {}),
+    },
+    macro: {
+      macroLogs: legacy.macroLogs || [],
+      ...(legacy.macroGoals ? { macroGoals: legacy.macroGoals } : {}),
+      ...(legacy.userProfile ? { userProfile: legacy.userProfile } : {}),
+    },
+    photo: {
+      foodPhotos: (legacy.foodPhotos || []).map(stripPlaceholderUri),
+      progressPhotos: (legacy.progressPhotos || []).map(stripPlaceholderUri),
+    },
+    workout: {
+      exercises: legacy.exercises || [],
+      workouts: legacy.workouts || [],
+      workoutLogs: legacy.workoutLogs || [],
+      scheduledWorkouts: legacy.scheduledWorkouts || [],
+    },
+  };
+
+  if (legacy.notificationSettings) {
+    sections.notification = { settings: legacy.notificationSettings };
+  }
+  if (legacy.themeSettings) {
+    sections.theme = { ...legacy.themeSettings };
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: 1,
+    exportDate: legacy.exportDate || new Date().toISOString(),
+    platform: 'unknown',
+    sections,
+    photos: {},
+    photosEncrypted: false,
+  };
+};
+
+// Each migration upgrades an archive from version N to N + 1
+const ARCHIVE_MIGRATIONS: Record<number, (archive: any) => any> = {
+  0: migrateLegacyExport,
+};
+
+/**
+ * Bring an archive of any supported version up to ARCHIVE_VERSION
+ */
+export const migrateArchive = (raw: any): DataArchive => {
+  let archive = raw;
+  // Archives without the format marker are legacy flat exports (version 0)
+  let version = raw && raw.format === ARCHIVE_FORMAT ? Number(raw.version) : 0;
+
+  while (version < ARCHIVE_VERSION) {
+    const migration = ARCHIVE_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration available from archive version ${version}`);
+    }
+    archive = migration(archive);
+    version += 1;
+    archive.version = version;
+  }
+
+  return archive as DataArchive;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check that an archive is structurally sound before anything is written
+ */
+export const validateArchive = (archive: any): ArchiveValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isPlainObject(archive)) {
+    return { valid: false, errors: ['Archive is not a JSON object'], warnings };
+  }
+
+  if (archive.format !== ARCHIVE_FORMAT) {
+    errors.push('Unrecognized archive format');
+  }
+
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    errors.push(`Unsupported archive version: ${archive.version}. Please update the app before importing.`);
+  }
+
+  if (!isPlainObject(archive.sections)) {
+    errors.push('Archive has no data sections');
+  } else {
+    Object.entries(archive.sections).forEach(([key, section]) => {
+      if (!(key in ARCHIVE_STORES)) {
+        warnings.push(`Unknown section "${key}" will be skipped`);
+      } else if (!isPlainObject(section)) {
+        errors.push(`Section "${key}" is malformed`);
+      }
+    });
+  }
+
+  if (archive.photos !== undefined && !isPlainObject(archive.photos)) {
+    errors.push('Photo data is malformed');
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+};
+
+/**
+ * Merge two lists of records, keyed by id. Incoming records win on conflict
+ * unless the existing record was updated more recently.
+ */
+const mergeRecordLists = (existing: any[], incoming: any[]): any[] => {
+  const merged = new Map<string, any>();
+
+  existing.forEach(item => merged.set(String(item.id), item));
+  incoming.forEach(item => {
+    const current = merged.get(String(item.id));
+    if (
+      current &&
+      current.updatedAt &&
+      item.updatedAt &&
+      new Date(current.updatedAt).getTime() > new Date(item.updatedAt).getTime()
+    ) {
+      return;
+    }
+    merged.set(String(item.id), item);
+  });
+
+  return Array.from(merged.values());
+};
+
+const isRecordList = (value: unknown): value is Array<{ id: string }> =>
+  Array.isArray(value) && value.every(item => isPlainObject(item) && 'id' in item);
+
+const mergeSection = (current: Record<string, any>, incoming: Record<string, any>): Record<string, any> => {
+  const merged: Record<string, any> = {};
+
+  Object.entries(incoming).forEach(([field, value]) => {
+    const existing = current[field];
+
+    if (isRecordList(existing) && isRecordList(value)) {
+      merged[field] = mergeRecordLists(existing, value);
+    } else if (Array.isArray(existing) && Array.isArray(value)) {
+      // Plain value lists (e.g. favorite bottle sizes, streak dates)
+      merged[field] = Array.from(new Set([...existing, ...value]));
+    } else {
+      merged[field] = value;
+    }
+  });
+
+  return merged;
+};
+
+/**
+ * Decrypt the archived photos and store them under this device's encryption key
+ */
+const restorePhotos = async (
+  archive: DataArchive,
+  photoSection: Record<string, any>,
+  passphrase: string
+): Promise<{ restoredIds: Set<string>; failed: number }> => {
+  const restoredIds = new Set<string>();
+  let failed = 0;
+
+  const tempDirInfo = await FileSystem.getInfoAsync(TEMP_DECRYPTED_DIR);
+  if (!tempDirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(TEMP_DECRYPTED_DIR, { intermediates: true });
+  }
+
+  for (const [photoId, blob] of Object.entries(archive.photos)) {
+    const collection = PHOTO_COLLECTIONS[blob.kind];
+    const items: any[] = photoSection[collection] || [];
+    const index = items.findIndex(item => String(item.id) === photoId);
+    if (index === -1) continue;
+
+    const tempPath = `${TEMP_DECRYPTED_DIR}import_${photoId}_${blob.fileName}`;
+
+    try {
+      const base64 = await decryptWithPassphrase(blob.data, passphrase);
+      if (!base64) {
+        failed++;
+        continue;
+      }
+
+      await FileSystem.writeAsStringAsync(tempPath, base64, {
+        encoding: FileSystem.EncodingType.Base64
+      });
+
+      const newUri = await encryptAndSavePhoto(tempPath, blob.fileName);
+      items[index] = { ...items[index], uri: newUri };
+      restoredIds.add(photoId);
+    } catch (error) {
+      console.warn(`Could not restore photo ${photoId}:`, error);
+      failed++;
+    } finally {
+      await secureDeleteFile(tempPath);
+    }
+  }
+
+  return { restoredIds, failed };
+};
+
+/**
+ * Validate, migrate and apply an archive to the local stores
+ */
+export const importDataArchive = async (
+  serialized: string,
+  options: ImportArchiveOptions = {}
+): Promise<ArchiveImportResult> => {
+  const { mode = 'merge', passphrase } = options;
+  const result: ArchiveImportResult = {
+    success: false,
+    importedSections: [],
+    importedPhotos: 0,
+    failedPhotos: 0,
+    errors: [],
+    warnings: [],
+  };
+
+  let archive: DataArchive;
+  try {
+    archive = migrateArchive(JSON.parse(serialized));
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : 'Archive could not be read');
+    return result;
+  }
+
+  const validation = validateArchive(archive);
+  result.warnings.push(...validation.warnings);
+  if (!validation.valid) {
+    result.errors.push(...validation.errors);
+    return result;
+  }
+
+  archive.photos = archive.photos || {};
+  const hasPhotos = Object.keys(archive.photos).length > 0;
+
+  if (hasPhotos && !passphrase) {
+    result.errors.push('This archive contains encrypted photos. Enter the passphrase used during export.');
+    return result;
+  }
+
+  // Work on a copy so photo URIs can be rewritten before the photo store is updated
+  const photoSection = archive.sections.photo ? { ...archive.sections.photo } : null;
+  if (photoSection) {
+    (Object.values(PHOTO_COLLECTIONS)).forEach(collection => {
+      if (Array.isArray(photoSection[collection])) {
+        photoSection[collection] = photoSection[collection].map((item: any) => ({ ...item }));
+      }
+    });
+
+    let restoredIds = new Set<string>();
+    if (hasPhotos && passphrase && Platform.OS !== 'web') {
+      const restoration = await restorePhotos(archive, photoSection, passphrase);
+      restoredIds = restoration.restoredIds;
+      result.importedPhotos = restoredIds.size;
+      result.failedPhotos = restoration.failed;
+    }
+
+    // URIs from the source device are meaningless here, even when the path looks the
+    // same, so only remote URIs and the photos just restored keep theirs
+    (Object.values(PHOTO_COLLECTIONS)).forEach(collection => {
+      if (Array.isArray(photoSection[collection])) {
+        photoSection[collection] = photoSection[collection].map((item: any) =>
+          item.uri && (item.uri.startsWith('http') || restoredIds.has(String(item.id)))
+            ? item
+            : { ...item, uri: '' }
+        );
+      }
+    });
+  }
+
+  for (const key of Object.keys(archive.sections) as ArchiveSectionKey[]) {
+    const store = ARCHIVE_STORES[key];
+    const incoming = key === 'photo' && photoSection ? photoSection : archive.sections[key];
+    if (!store || !incoming) continue;
+
+    try {
+      const sanitized = { ...incoming };
+      (TRANSIENT_FIELDS[key] || []).forEach(field => {
+        delete sanitized[field];
+      });
+
+      const restored = rehydrateSection(key, sanitized);
+      const nextState = mode === 'replace'
+        ? restored
+        : mergeSection(store.getState(), restored);
+
+      store.setState(nextState);
+      result.importedSections.push(key);
+    } catch (error) {
+      console.error(`Error importing section ${key}:`, error);
+      result.errors.push(`Failed to import ${key} data`);
+    }
+  }
+
+  result.success = result.errors.length === 0;
+  return result;
+};
@@ -0,0 +1,445 @@
+import * as FileSystem from 'expo-file-system';
+import * as Notifications from 'expo-notifications';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAiStore } from '@/store/aiStore';
+import { useAppLockStore } from '@/store/appLockStore';
+import { useConsentStore } from '@/store/consentStore';
+import { useFoodStore } from '@/store/foodStore';
+import { useGamificationStore } from '@/store/gamificationStore';
+import { useHealthStore } from '@/store/healthStore';
+import { useJourneyStore } from '@/store/journeyStore';
+import { useMacroStore } from '@/store/macroStore';
+import { useMealStore } from '@/store/mealStore';
+import { useNotesStore } from '@/store/notesStore';
+import { useNotificationStoreState } from '@/store/notificationStore';
+import { useNutritionStore } from '@/store/nutritionStore';
+import { usePhotoStore } from '@/store/photoStore';
+import { useProgramStore } from '@/store/programStore';
+import { useScheduleStore } from '@/store/scheduleStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useThemeStore } from '@/store/themeStore';
+import { useUserStore } from '@/store/userStore';
+import { useWaterStore } from '@/store/waterStore';
+import { useWorkoutStore } from '@/store/workoutStore';
+import NotificationService from '../services/NotificationService';
+import { ENCRYPTION_STORAGE_KEYS, clearEncryptionKeyCache } from './encryption';
+import { isReadOnlyStore } from './encryptedStorage';
+import { PIN_STORAGE_KEY } from './appLock';
+import { ENCRYPTED_PHOTOS_DIR, TEMP_DECRYPTED_DIR, cleanupTempDecryptedFiles, deleteAllEncryptedPhotos } from './fileEncryption';
+import { secureDeleteDirectory, secureDeleteFileWithMetadata, cleanupTemporaryFiles, secureWipeSecureStoreKeys } from './secureDelete';
+
+// Erasure of all personal data, or of one category of it, followed by a check
+// that nothing erased is still on the device
+
+export type ErasureCategory = 'all' | 'photos' | 'nutrition' | 'aiChats';
+
+export const ERASURE_CATEGORIES: Record<ErasureCategory, { title: string; description: string }> = {
+  photos: {
+    title: 'Photos',
+    description: 'Food, progress and workout photos, including encrypted copies',
+  },
+  nutrition: {
+    title: 'Nutrition',
+    description: 'Food logs, saved foods, meals, meal plans, water intake and nutrition goals',
+  },
+  aiChats: {
+    title: 'AI Chats',
+    description: 'Your conversations with the AI coach and what it remembers from them',
+  },
+  all: {
+    title: 'All Data',
+    description: 'Everything the app stores, including photos, settings, encryption keys and your PIN',
+  },
+};
+
+export type WipeReportEntryKind = 'store' | 'file' | 'storage-key' | 'secure-key' | 'notification';
+
+export interface WipeReportEntry {
+  kind: WipeReportEntryKind;
+  label: string;
+  // Records, files or keys removed
+  count: number;
+}
+
+export interface WipeReport {
+  category: ErasureCategory;
+  startedAt: string;
+  completedAt: string;
+  removed: WipeReportEntry[];
+  errors: string[];
+  // True when the post-wipe check found nothing left behind
+  verified: boolean;
+  remaining: string[];
+}
+
+type ErasableStore = {
+  getState: () => any;
+  setState: {
+    (partial: any, replace?: false): void;
+    (state: any, replace: true): void;
+  };
+  getInitialState: () => any;
+  persist: {
+    getOptions: () => {
+      name?: string;
+      version?: number;
+      partialize?: (state: any) => any;
+      storage?: {
+        getItem: (name: string) => any;
+        setItem: (name: string, value: any) => any;
+        removeItem: (name: string) => any;
+      };
+    };
+  };
+};
+
+interface ErasureTarget {
+  label: string;
+  store: ErasableStore;
+  // Only these fields are erased and the rest of the store is kept; omit to erase the whole store
+  fields?: string[];
+}
+
+const PHOTO_FIELDS = ['foodPhotos', 'progressPhotos', 'workoutMedia'];
+
+// Only the persisted settings; session fields like hasHydrated must survive for the lock screen to work
+const APP_LOCK_FIELDS = ['lockEnabled', 'biometricsEnabled', 'autoLockTimeout', 'privacyScreenEnabled', 'failedAttempts', 'lockoutUntil'];
+
+const PHOTO_TARGETS: ErasureTarget[] = [
+  { label: 'Photo library', store: usePhotoStore, fields: PHOTO_FIELDS },
+];
+
+const NUTRITION_TARGETS: ErasureTarget[] = [
+  {
+    label: 'Food log and nutrition goals',
+    store: useMacroStore,
+    fields: ['macroLogs', 'macroGoals', 'weeklyWeightChangeRate', 'lastGoalAdjustmentDate'],
+  },
+  { label: 'Saved foods', store: useFoodStore },
+  { label: 'Meals, recipes and meal plans', store: useMealStore },
+  { label: 'Nutrition logs', store: useNutritionStore },
+  { label: 'Water intake', store: useWaterStore },
+];
+
+const AI_CHAT_TARGETS: ErasureTarget[] = [
+  { label: 'AI coach conversations', store: useAiStore, fields: ['chats', 'messages', 'conversationMemory'] },
+];
+
+const ALL_TARGETS: ErasureTarget[] = [
+  { label: 'Workouts', store: useWorkoutStore },
+  { label: 'Programs', store: useProgramStore },
+  { label: 'Health data', store: useHealthStore },
+  { label: 'Profile, food log and nutrition goals', store: useMacroStore },
+  { label: 'Achievements and progress', store: useGamificationStore },
+  { label: 'Journey', store: useJourneyStore },
+  { label: 'Water intake', store: useWaterStore },
+  { label: 'Notes', store: useNotesStore },
+  { label: 'AI coach data and conversations', store: useAiStore },
+  { label: 'Photo library', store: usePhotoStore },
+  { label: 'Saved foods', store: useFoodStore },
+  { label: 'Meals, recipes and meal plans', store: useMealStore },
+  { label: 'Nutrition logs', store: useNutritionStore },
+  { label: 'Schedule', store: useScheduleStore },
+  { label: 'Settings', store: useSettingsStore },
+  { label: 'Theme', store: useThemeStore },
+  { label: 'Notification preferences', store: useNotificationStoreState },
+  { label: 'Account', store: useUserStore },
+  { label: 'App lock settings', store: useAppLockStore, fields: APP_LOCK_FIELDS },
+  { label: 'Consent history', store: useConsentStore },
+];
+
+const CATEGORY_TARGETS: Record<ErasureCategory, ErasureTarget[]> = {
+  photos: PHOTO_TARGETS,
+  nutrition: NUTRITION_TARGETS,
+  aiChats: AI_CHAT_TARGETS,
+  all: ALL_TARGETS,
+};
+
+// Directories under the document directory that only hold user data
+const USER_DATA_DIRECTORIES = ['photos/', 'exports/', 'logs/', 'workouts/'];
+
+// SecureStore can't list its keys, so every key the app has ever written is named here
+const SECURE_STORE_KEYS = [
+  ...ENCRYPTION_STORAGE_KEYS,
+  PIN_STORAGE_KEY,
+  'device-id',
+  'user-profile',
+  'health-data',
+  'workout-data',
+  'notification-settings',
+  'user-profile-secure',
+  'health-data-secure',
+  'workout-data-secure',
+  'last-encryption-check',
+];
+
+/**
+ * Number of records held by the given fields: each array item, plus one for
+ * any other value that differs from the default
+ */
+const countRecords = (state: Record<string, any> | null, initial: Record<string, any>, fields: string[]): number => {
+  if (!state) return 0;
+
+  return fields.reduce((total, field) => {
+    const value = state[field];
+    if (Array.isArray(value)) return total + value.length;
+    return total + (JSON.stringify(value) !== JSON.stringify(initial[field]) ? 1 : 0);
+  }, 0);
+};
+
+const getPersistedState = async (store: ErasableStore): Promise<Record<string, any> | null> => {
+  const { name, storage } = store.persist.getOptions();
+  if (!name || !storage) return null;
+
+  const stored = await storage.getItem(name);
+  return stored?.state ?? null;
+};
+
+const getTargetFields = (target: ErasureTarget): string[] => {
+  if (target.fields) return target.fields;
+
+  const { partialize } = target.store.persist.getOptions();
+  const state = partialize ? partialize(target.store.getState()) : target.store.getState();
+  return Object.keys(state).filter(key => typeof state[key] !== 'function');
+};
+
+const eraseTarget = async (target: ErasureTarget): Promise<number> => {
+  const { store } = target;
+  const { name, storage, partialize, version } = store.persist.getOptions();
+  const initial = store.getInitialState();
+  const fields = getTargetFields(target);
+  const count = countRecords(await getPersistedState(store), initial, fields);
+
+  if (!target.fields) {
+    // Reset memory before removing storage so no later save can bring the data back
+    store.setState(initial, true);
+    if (name && storage) await storage.removeItem(name);
+    return count;
+  }
+
+  store.setState(Object.fromEntries(fields.map(field => [field, initial[field]])));
+
+  if (name && storage) {
+    if (isReadOnlyStore(name)) {
+      // Writes are refused while the stored data can't be decrypted, and what it
+      // holds can't be read back anyway, so the whole entry goes
+      await storage.removeItem(name);
+      return count;
+    }
+
+    // Write now rather than waiting on the persist middleware, so the check reads the erased state
+    const state = store.getState();
+    await storage.setItem(name, { state: partialize ? partialize(state) : state, version: version ?? 0 });
+  }
+  return count;
+};
+
+const verifyTarget = async (target: ErasureTarget): Promise<boolean> => {
+  const persisted = await getPersistedState(target.store);
+  // Data that can't be decrypted reads as nothing, but it is still on the device
+  const { name } = target.store.persist.getOptions();
+  if (name && isReadOnlyStore(name)) return false;
+
+  if (!target.fields) return persisted === null;
+  if (!persisted) return true;
+
+  const initial = target.store.getInitialState();
+  return target.fields.every(field => JSON.stringify(persisted[field]) === JSON.stringify(initial[field]));
+};
+
+const countFiles = async (dirUri: string): Promise<number> => {
+  try {
+    const info = await FileSystem.getInfoAsync(dirUri);
+    if (!info.exists || !info.isDirectory) return 0;
+    return (await FileSystem.readDirectoryAsync(dirUri)).filter(file => !file.endsWith('.verify')).length;
+  } catch (error) {
+    console.warn(`Error counting files in ${dirUri}:`, error);
+    return 0;
+  }
+};
+
+/**
+ * Photos the store points at outside the encrypted directory, e.g. ones saved
+ * while encryption was off
+ */
+const getLoosePhotoUris = (): string[] => {
+  const { foodPhotos, progressPhotos, workoutMedia } = usePhotoStore.getState();
+  return [...foodPhotos, ...progressPhotos, ...workoutMedia]
+    .map(photo => photo.uri)
+    .filter(uri => uri && !uri.startsWith('http') && !uri.startsWith(ENCRYPTED_PHOTOS_DIR));
+};
+
+const erasePhotoFiles = async (report: WipeReport, loosePhotos: string[]): Promise<void> => {
+  if (Platform.OS === 'web') return;
+
+  const encryptedCount = await countFiles(ENCRYPTED_PHOTOS_DIR);
+  await deleteAllEncryptedPhotos();
+  report.removed.push({ kind: 'file', label: 'Encrypted photos', count: encryptedCount });
+
+  let looseCount = 0;
+  for (const uri of loosePhotos) {
+    try {
+      if ((await FileSystem.getInfoAsync(uri)).exists) {
+        await secureDeleteFileWithMetadata(uri, 3);
+        looseCount++;
+      }
+    } catch (error) {
+      report.errors.push(`Couldn't delete photo ${uri}: ${error}`);
+    }
+  }
+  if (looseCount > 0) {
+    report.removed.push({ kind: 'file', label: 'Unencrypted photos', count: looseCount });
+  }
+
+  const tempCount = await countFiles(TEMP_DECRYPTED_DIR);
+  await cleanupTempDecryptedFiles();
+  report.removed.push({ kind: 'file', label: 'Temporary decrypted photos', count: tempCount });
+};
+
+const verifyPhotoFiles = async (loosePhotos: string[]): Promise<string[]> => {
+  if (Platform.OS === 'web') return [];
+
+  const remaining: string[] = [];
+  const encryptedCount = await countFiles(ENCRYPTED_PHOTOS_DIR);
+  if (encryptedCount > 0) remaining.push(`${encryptedCount} encrypted photos`);
+
+  const tempCount = await countFiles(TEMP_DECRYPTED_DIR);
+  if (tempCount > 0) remaining.push(`${tempCount} temporary decrypted photos`);
+
+  for (const uri of loosePhotos) {
+    if ((await FileSystem.getInfoAsync(uri)).exists) remaining.push(uri);
+  }
+  return remaining;
+};
+
+const eraseDeviceData = async (report: WipeReport): Promise<void> => {
+  if (Platform.OS !== 'web') {
+    const scheduled = await NotificationService.getScheduledNotifications();
+    await NotificationService.cancelAllNotifications();
+    await Notifications.dismissAllNotificationsAsync().catch(error =>
+      console.warn('Error dismissing delivered notifications:', error)
+    );
+    report.removed.push({ kind: 'notification', label: 'Scheduled notifications', count: scheduled.length });
+
+    const docDir = FileSystem.documentDirectory;
+    if (docDir) {
+      let fileCount = 0;
+      for (const dir of USER_DATA_DIRECTORIES) {
+        fileCount += await countFiles(`${docDir}${dir}`);
+        await secureDeleteDirectory(`${docDir}${dir}`);
+      }
+      report.removed.push({ kind: 'file', label: 'Other saved files', count: fileCount });
+    }
+
+    await cleanupTemporaryFiles();
+  }
+
+  // Anything still in AsyncStorage belongs to no store: encrypted chunks, launch flags, caches
+  const leftoverKeys = await AsyncStorage.getAllKeys();
+  if (leftoverKeys.length > 0) {
+    await AsyncStorage.multiRemove(leftoverKeys);
+  }
+  report.removed.push({ kind: 'storage-key', label: 'Other app data', count: leftoverKeys.length });
+
+  const wipedKeys = await secureWipeSecureStoreKeys(SECURE_STORE_KEYS);
+  report.removed.push({ kind: 'secure-key', label: 'Encryption keys and PIN', count: wipedKeys.length });
+  clearEncryptionKeyCache();
+
+  if (Platform.OS === 'web') {
+    localStorage.clear();
+    sessionStorage.clear();
+  }
+};
+
+const verifyDeviceData = async (): Promise<string[]> => {
+  const remaining: string[] = [];
+
+  const keys = await AsyncStorage.getAllKeys();
+  if (keys.length > 0) remaining.push(`Storage keys: ${keys.join(', ')}`);
+
+  if (Platform.OS === 'web') return remaining;
+
+  for (const key of SECURE_STORE_KEYS) {
+    if (await SecureStore.getItemAsync(key) !== null) remaining.push(`Secure key: ${key}`);
+  }
+
+  const scheduled = await NotificationService.getScheduledNotifications();
+  if (scheduled.length > 0) remaining.push(`${scheduled.length} scheduled notifications`);
+
+  const docDir = FileSystem.documentDirectory;
+  if (docDir) {
+    for (const dir of USER_DATA_DIRECTORIES) {
+      const count = await countFiles(`${docDir}${dir}`);
+      if (count > 0) remaining.push(`${count} files in ${dir}`);
+    }
+  }
+
+  return remaining;
+};
+
+/**
+ * Erase one category of personal data, or everything, then check that none
+ * of it is left in storage, on disk or in SecureStore
+ */
+export const eraseUserData = async (category: ErasureCategory): Promise<WipeReport> => {
+  const report: WipeReport = {
+    category,
+    startedAt: new Date().toISOString(),
+    completedAt: '',
+    removed: [],
+    errors: [],
+    verified: false,
+    remaining: [],
+  };
+
+  const targets = CATEGORY_TARGETS[category];
+  const erasesPhotos = category === 'photos' || category === 'all';
+  // Read before the photo store is reset, so the files can still be found and checked
+  const loosePhotos = erasesPhotos ? getLoosePhotoUris() : [];
+
+  if (erasesPhotos) {
+    try {
+      await erasePhotoFiles(report, loosePhotos);
+    } catch (error) {
+      report.errors.push(`Photo files: ${error}`);
+    }
+  }
+
+  for (const target of targets) {
+    try {
+      const count = await eraseTarget(target);
+      report.removed.push({ kind: 'store', label: target.label, count });
+    } catch (error) {
+      report.errors.push(`${target.label}: ${error}`);
+    }
+  }
+
+  if (category === 'all') {
+    try {
+      await eraseDeviceData(report);
+    } catch (error) {
+      report.errors.push(`Device data: ${error}`);
+    }
+  }
+
+  try {
+    for (const target of targets) {
+      if (!(await verifyTarget(target))) report.remaining.push(target.label);
+    }
+    if (erasesPhotos) {
+      report.remaining.push(...await verifyPhotoFiles(loosePhotos));
+    }
+    if (category === 'all') {
+      report.remaining.push(...await verifyDeviceData());
+    }
+    report.verified = report.remaining.length === 0 && report.errors.length === 0;
+  } catch (error) {
+    console.error('Error verifying data erasure:', error);
+    report.errors.push(`Verification: ${error}`);
+  }
+
+  report.completedAt = new Date().toISOString();
+  return report;
+};
@@ -0,0 +1,182 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alert } from 'react-native';
+import type { StateStorage } from 'zustand/middleware';
+import { encryptData, decryptData } from './encryption';
+
+// Encrypted AsyncStorage for persisted zustand stores. Opt in with
+//   storage: createJSONStorage(() => encryptedStorage)
+//
+// Each value is sealed with encryptData and split across rows, since Android
+// limits a single AsyncStorage row to about 2 MB. For a store named `name`:
+//   name                 manifest {"encrypted":1,"id":"<write id>","chunks":N}
+//   name.<write id>.<i>  chunk i of the encrypted envelope
+// A write only switches the manifest once all of its chunks are saved, so an
+// interrupted write leaves the previous value readable. Chunks of any other
+// write, including ones orphaned by an interruption, are removed afterwards.
+
+const CHUNK_SIZE = 512 * 1024; // characters per row
+const MANIFEST_VERSION = 1;
+
+interface ChunkManifest {
+  encrypted: number;
+  id: string;
+  chunks: number;
+}
+
+// Stores whose data could not be decrypted, or whose changes could not be
+// encrypted. Writes to them are skipped so defaults never replace real data.
+const readOnlyStores = new Set<string>();
+
+// Latest value per store and the write in flight; persist calls setItem on
+// every change, so queued writes of superseded values are dropped
+const latestValues = new Map<string, string>();
+const writeQueues = new Map<string, Promise<void>>();
+
+let writeCounter = 0;
+
+// Skipped writes are reported once per session rather than on every change
+let hasReportedSkippedWrite = false;
+
+// Plaintext zustand values start with {"state":, so the prefix is unambiguous
+const parseManifest = (value: string): ChunkManifest | null => {
+  if (!value.startsWith('{"encrypted":')) return null;
+
+  try {
+    const manifest = JSON.parse(value);
+    return typeof manifest.id === 'string' && typeof manifest.chunks === 'number' ? manifest : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const getChunkKeys = (name: string, manifest: ChunkManifest): string[] =>
+  Array.from({ length: manifest.chunks }, (_, index) => `${name}.${manifest.id}.${index}`);
+
+// Chunk rows of every write of the store, whether or not a manifest lists them
+const findChunkKeys = async (name: string): Promise<string[]> => {
+  const prefix = `${name}.`;
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter(key => key.startsWith(prefix) && /^[a-z0-9]+\.\d+$/.test(key.substring(prefix.length)));
+};
+
+const reportSkippedWrite = (name: string) => {
+  console.warn(`Skipped saving ${name}: encrypted storage is read-only`);
+  if (hasReportedSkippedWrite) return;
+  hasReportedSkippedWrite = true;
+  Alert.alert(
+    'Changes Not Saved',
+    'Some of your data could not be decrypted, so new changes are not being saved to avoid overwriting it. See Data Management for details.'
+  );
+};
+
+const markReadOnly = (name: string, reason: string) => {
+  if (!readOnlyStores.has(name)) {
+    console.error(`Encrypted storage for ${name} is read-only: ${reason}`);
+  }
+  readOnlyStores.add(name);
+};
+
+const writeEncrypted = async (name: string, value: string): Promise<void> => {
+  let encrypted: string;
+  try {
+    encrypted = await encryptData(value);
+  } catch (error) {
+    // Without a key nothing is written, not even plaintext
+    markReadOnly(name, 'the encryption key is unavailable');
+    reportSkippedWrite(name);
+    return;
+  }
+
+  const manifest: ChunkManifest = {
+    encrypted: MANIFEST_VERSION,
+    id: `${Date.now().toString(36)}${(writeCounter++).toString(36)}`,
+    chunks: Math.max(1, Math.ceil(encrypted.length / CHUNK_SIZE)),
+  };
+  const chunkKeys = getChunkKeys(name, manifest);
+
+  await AsyncStorage.multiSet(
+    chunkKeys.map((key, index): [string, string] => [key, encrypted.substring(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)])
+  );
+  await AsyncStorage.setItem(name, JSON.stringify(manifest));
+
+  const staleKeys = (await findChunkKeys(name)).filter(key => !chunkKeys.includes(key));
+  if (staleKeys.length > 0) {
+    await AsyncStorage.multiRemove(staleKeys);
+  }
+};
+
+const queueWrite = (name: string, value: string): Promise<void> => {
+  latestValues.set(name, value);
+
+  const previous = writeQueues.get(name) || Promise.resolve();
+  const next = previous.then(async () => {
+    if (latestValues.get(name) !== value || readOnlyStores.has(name)) return;
+    try {
+      await writeEncrypted(name, value);
+    } catch (error) {
+      console.error(`Error writing encrypted storage for ${name}:`, error);
+    }
+  });
+  writeQueues.set(name, next);
+  return next;
+};
+
+export const encryptedStorage: StateStorage<Promise<void>> = {
+  getItem: async (name) => {
+    try {
+      const stored = await AsyncStorage.getItem(name);
+      if (stored === null) return null;
+
+      const manifest = parseManifest(stored);
+      if (!manifest) {
+        // Saved before the store opted in: hand it over as is and encrypt it in place
+        await queueWrite(name, stored);
+        return stored;
+      }
+
+      const chunks = await AsyncStorage.multiGet(getChunkKeys(name, manifest));
+      if (chunks.some(([, chunk]) => chunk === null)) {
+        markReadOnly(name, 'encrypted data is incomplete');
+        return null;
+      }
+
+      const decrypted = await decryptData(chunks.map(([, chunk]) => chunk).join(''));
+      if (decrypted === null) {
+        markReadOnly(name, 'the data could not be decrypted');
+        return null;
+      }
+
+      readOnlyStores.delete(name);
+      return decrypted;
+    } catch (error) {
+      markReadOnly(name, String(error));
+      return null;
+    }
+  },
+
+  setItem: async (name, value) => {
+    if (readOnlyStores.has(name)) {
+      reportSkippedWrite(name);
+      return;
+    }
+    await queueWrite(name, value);
+  },
+
+  // Removal is always an explicit request to delete, so it is allowed even when read-only
+  removeItem: async (name) => {
+    latestValues.delete(name);
+    await writeQueues.get(name);
+
+    try {
+      await AsyncStorage.multiRemove([name, ...(await findChunkKeys(name))]);
+      readOnlyStores.delete(name);
+    } catch (error) {
+      console.error(`Error removing encrypted storage for ${name}:`, error);
+    }
+  },
+};
+
+// Stores currently refusing writes because their data or key is unavailable
+export const getReadOnlyStores = (): string[] => Array.from(readOnlyStores);
+
+export const isReadOnlyStore = (name: string): boolean => readOnlyStores.has(name);
@@ -1,45 +1,110 @@
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as Random from 'expo-random';
 import * as Crypto from 'expo-crypto';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { hkdf } from '@noble/hashes/hkdf';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
 
-// Enhanced encryption/decryption for sensitive data
-// Using industry-standard AES-GCM encryption with proper key derivation
+// Authenticated encryption for sensitive data on every platform.
+//
+// Data is sealed with AES-256-GCM under a random data key. Data keys live in a
+// keyring, wrapped (AES-GCM) by a key derived with HKDF from the device master
+// key, so rotating the master key only re-wraps the keyring and never touches
+// the data itself. Passphrase payloads use a PBKDF2-SHA256 derived key instead.
+//
+// Envelope formats:
+//   3.<keyId>.<iv>.<ciphertext+tag>                  keyring data key
+//   3p.<iterations>.<salt>.<iv>.<ciphertext+tag>     passphrase
+// Legacy formats, only read so they can be upgraded:
+//   <1|2>.<salt>.<iv>.<ciphertext>                   Web Crypto AES-GCM or the old hash-based cipher
+//   fallback.<version>.<salt>.<iv>.<xor>             XOR fallback
 
 // Constants for encryption
-const ALGORITHM = 'AES-GCM';
-const KEY_LENGTH = 256; // bits
+const KEY_LENGTH = 32; // bytes (AES-256)
 const SALT_LENGTH = 16; // bytes
 const IV_LENGTH = 12; // bytes for AES-GCM
-const ITERATION_COUNT = 100000; // for PBKDF2
-const TAG_LENGTH = 128; // bits for AES-GCM authentication tag
-const ENCRYPTION_VERSION = 2; // Current encryption version
+const PASSPHRASE_ITERATIONS = 310000; // PBKDF2-SHA256
+const LEGACY_ITERATION_COUNT = 100000; // PBKDF2 rounds used by v1/v2 payloads
+export const ENCRYPTION_VERSION = 3; // Current encryption version
+// Data keys kept in the keyring; SecureStore values are limited to about 2KB
+const MAX_DATA_KEYS = 8;
+const PASSPHRASE_ENVELOPE = `${ENCRYPTION_VERSION}p`;
+
+// Storage keys
+const MASTER_KEY = 'encryption-key';
+const PENDING_MASTER_KEY = 'encryption-key-pending';
+const LEGACY_KEY = 'encryption-legacy-key';
+const KEYRING_KEY = 'encryption-keyring';
+
+export const ENCRYPTION_STORAGE_KEYS = [MASTER_KEY, PENDING_MASTER_KEY, LEGACY_KEY, KEYRING_KEY, 'encryption-version'];
+
+// Keyring as stored: each data key is `<iv>.<wrapped key>`
+interface StoredKeyring {
+  version: number;
+  masterKeyId: string;
+  salt: string;
+  activeKeyId: string;
+  keys: Record<string, string>;
+}
+
+interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Uint8Array>;
+}
+
+export interface KeyringInfo {
+  version: number;
+  activeKeyId: string;
+  keyCount: number;
+  hasLegacyKey: boolean;
+}
+
+// Unwrapped once per session; a promise so concurrent callers share one unlock
+let keyringPromise: Promise<Keyring> | null = null;
+
+// The last passphrase-derived key, so an archive's photos don't each pay for PBKDF2
+let passphraseKeyCache: { passphrase: string; salt: string; iterations: number; key: Uint8Array } | null = null;
+
+// Secure random bytes; there is deliberately no Math.random fallback for key material
+const randomBytes = async (length: number): Promise<Uint8Array> => {
+  return Crypto.getRandomBytesAsync(length);
+};
+
+// Key storage: SecureStore on native, AsyncStorage on web
+const readKeyItem = async (key: string): Promise<string | null> => {
+  if (Platform.OS === 'web') {
+    return AsyncStorage.getItem(key);
+  }
+  return SecureStore.getItemAsync(key);
+};
+
+const writeKeyItem = async (key: string, value: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    await AsyncStorage.setItem(key, value);
+    return;
+  }
+  await SecureStore.setItemAsync(key, value);
+};
+
+const deleteKeyItem = async (key: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    await AsyncStorage.removeItem(key);
+    return;
+  }
+  await SecureStore.deleteItemAsync(key);
+};
 
 // Generate a secure random encryption key
 export const generateEncryptionKey = async (): Promise<string> => {
   try {
-    // Generate a cryptographically secure random key
-    const randomBytesBuffer = await Random.getRandomBytesAsync(32); // 256 bits
-    return bufferToBase64(randomBytesBuffer);
+    return bufferToBase64(await randomBytes(KEY_LENGTH));
   } catch (error) {
     console.error('Error generating encryption key:', error);
-    // Fallback to a less secure but functional method
-    console.warn('Using fallback random key generation');
-    
-    if (Platform.OS === 'web' && window.crypto && window.crypto.getRandomValues) {
-      const array = new Uint8Array(32);
-      window.crypto.getRandomValues(array);
-      return bufferToBase64(array);
-    }
-    
-    // Last resort fallback - use a more robust random generation
-    const fallbackKey = 'secure-key-' + 
-      Math.random().toString(36).substring(2, 15) + 
-      Math.random().toString(36).substring(2, 15) +
-      Date.now().toString(36);
-    
-    return fallbackKey;
+    throw error;
   }
 };
 
@@ -54,41 +119,41 @@ export const storeEncryptionKey = async (key: string): Promise<void> => {
       key + navigator.userAgent
     );
     await AsyncStorage.setItem('encryption-key-hash', keyHash);
-    await AsyncStorage.setItem('encryption-key', key);
+    await AsyncStorage.setItem(MASTER_KEY, key);
     await AsyncStorage.setItem('encryption-version', ENCRYPTION_VERSION.toString());
     return;
   }
-  
+
   // For native platforms, use SecureStore
-  await SecureStore.setItemAsync('encryption-key', key);
+  await SecureStore.setItemAsync(MASTER_KEY, key);
   await SecureStore.setItemAsync('encryption-version', ENCRYPTION_VERSION.toString());
 };
 
 // Retrieve the encryption key
 export const getEncryptionKey = async (): Promise<string | null> => {
   if (Platform.OS === 'web') {
-    const key = await AsyncStorage.getItem('encryption-key');
+    const key = await AsyncStorage.getItem(MASTER_KEY);
     const storedHash = await AsyncStorage.getItem('encryption-key-hash');
-    
+
     if (key && storedHash) {
       // Verify the key hasn't been tampered with
       const verifyHash = await Crypto.digestStringAsync(
         Crypto.CryptoDigestAlgorithm.SHA256,
         key + navigator.userAgent
       );
-      
+
       if (verifyHash === storedHash) {
         return key;
       }
-      
+
       console.warn('Encryption key verification failed');
       return null;
     }
-    
+
     return null;
   }
-  
-  return SecureStore.getItemAsync('encryption-key');
+
+  return SecureStore.getItemAsync(MASTER_KEY);
 };
 
 // Get the current encryption version
@@ -97,18 +162,13 @@ export const getEncryptionVersion = async (): Promise<number> => {
     const version = await AsyncStorage.getItem('encryption-version');
     return version ? parseInt(version, 10) : 1;
   }
-  
+
   const version = await SecureStore.getItemAsync('encryption-version');
   return version ? parseInt(version, 10) : 1;
 };
 
 // Helper functions for encoding/decoding
-const bufferToBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
-  if (Platform.OS === 'web') {
-    return btoa(String.fromCharCode(...new Uint8Array(buffer)));
-  }
-  
-  // For React Native
+export const bufferToBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
   const bytes = new Uint8Array(buffer);
   const chars = [];
   for (let i = 0; i < bytes.length; i++) {
@@ -117,17 +177,7 @@ const bufferToBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
   return btoa(chars.join(''));
 };
 
-const base64ToBuffer = (base64: string): Uint8Array => {
-  if (Platform.OS === 'web') {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-  }
-  
-  // For React Native
+export const base64ToBuffer = (base64: string): Uint8Array => {
   const binaryString = atob(base64);
   const bytes = new Uint8Array(binaryString.length);
   for (let i = 0; i < binaryString.length; i++) {
@@ -136,244 +186,326 @@ const base64ToBuffer = (base64: string): Uint8Array => {
   return bytes;
 };
 
-// Generate a random salt
-const generateSalt = async (): Promise<Uint8Array> => {
-  try {
-    return await Random.getRandomBytesAsync(SALT_LENGTH);
-  } catch (error) {
-    console.warn('Using fallback salt generation:', error);
-    
-    if (Platform.OS === 'web' && window.crypto && window.crypto.getRandomValues) {
-      const salt = new Uint8Array(SALT_LENGTH);
-      window.crypto.getRandomValues(salt);
-      return salt;
-    }
-    
-    // Last resort fallback
-    const salt = new Uint8Array(SALT_LENGTH);
-    for (let i = 0; i < SALT_LENGTH; i++) {
-      salt[i] = Math.floor(Math.random() * 256);
-    }
-    return salt;
+// Identifies which master key wraps the keyring without revealing it
+const getMasterKeyId = (masterKey: string): string => {
+  return bytesToHex(sha256(utf8ToBytes(masterKey))).substring(0, 16);
+};
+
+const deriveWrappingKey = (masterKey: string, salt: Uint8Array): Uint8Array => {
+  return hkdf(sha256, base64ToBuffer(masterKey), salt, 'keyring-wrap', KEY_LENGTH);
+};
+
+const newKeyId = async (): Promise<string> => bytesToHex(await randomBytes(4));
+
+const wrapKeyring = async (keyring: Keyring, masterKey: string): Promise<StoredKeyring> => {
+  const salt = await randomBytes(SALT_LENGTH);
+  const wrappingKey = deriveWrappingKey(masterKey, salt);
+  const keys: Record<string, string> = {};
+
+  for (const [keyId, dataKey] of keyring.keys) {
+    const iv = await randomBytes(IV_LENGTH);
+    // The key id is bound as associated data so wrapped keys can't be swapped
+    const wrapped = gcm(wrappingKey, iv, utf8ToBytes(keyId)).encrypt(dataKey);
+    keys[keyId] = `${bufferToBase64(iv)}.${bufferToBase64(wrapped)}`;
+  }
+
+  return {
+    version: ENCRYPTION_VERSION,
+    masterKeyId: getMasterKeyId(masterKey),
+    salt: bufferToBase64(salt),
+    activeKeyId: keyring.activeKeyId,
+    keys,
+  };
+};
+
+const unwrapKeyring = (stored: StoredKeyring, masterKey: string): Keyring => {
+  const wrappingKey = deriveWrappingKey(masterKey, base64ToBuffer(stored.salt));
+  const keys = new Map<string, Uint8Array>();
+
+  Object.entries(stored.keys).forEach(([keyId, wrapped]) => {
+    const [iv, sealed] = wrapped.split('.');
+    keys.set(keyId, gcm(wrappingKey, base64ToBuffer(iv), utf8ToBytes(keyId)).decrypt(base64ToBuffer(sealed)));
+  });
+
+  return { activeKeyId: stored.activeKeyId, keys };
+};
+
+/**
+ * Saves the keyring wrapped by `masterKey`. The new master key is written to a
+ * pending slot first, so an interruption at any point leaves a master key that
+ * opens whichever keyring was saved.
+ */
+const commitKeyring = async (keyring: Keyring, masterKey: string): Promise<void> => {
+  await writeKeyItem(PENDING_MASTER_KEY, masterKey);
+  await writeKeyItem(KEYRING_KEY, JSON.stringify(await wrapKeyring(keyring, masterKey)));
+  await storeEncryptionKey(masterKey);
+  await deleteKeyItem(PENDING_MASTER_KEY);
+};
+
+const createKeyring = async (): Promise<Keyring> => {
+  const existingKey = await getEncryptionKey();
+  // A key from before the keyring can only read legacy payloads until they are upgraded.
+  // Never replace a saved one: after a lost keyring the master key here is not that key.
+  if (existingKey && !(await hasLegacyEncryptionKey())) {
+    await writeKeyItem(LEGACY_KEY, existingKey);
+  }
+
+  const activeKeyId = await newKeyId();
+  const keyring: Keyring = {
+    activeKeyId,
+    keys: new Map([[activeKeyId, await randomBytes(KEY_LENGTH)]]),
+  };
+  await commitKeyring(keyring, await generateEncryptionKey());
+  return keyring;
+};
+
+const openKeyring = async (): Promise<Keyring> => {
+  const storedJson = await readKeyItem(KEYRING_KEY);
+  if (!storedJson) {
+    return createKeyring();
+  }
+
+  const stored: StoredKeyring = JSON.parse(storedJson);
+  const masterKey = await getEncryptionKey();
+  if (masterKey && getMasterKeyId(masterKey) === stored.masterKeyId) {
+    return unwrapKeyring(stored, masterKey);
+  }
+
+  // A rotation was interrupted after the keyring was saved: finish it
+  const pendingKey = await readKeyItem(PENDING_MASTER_KEY);
+  if (pendingKey && getMasterKeyId(pendingKey) === stored.masterKeyId) {
+    const keyring = unwrapKeyring(stored, pendingKey);
+    await storeEncryptionKey(pendingKey);
+    await deleteKeyItem(PENDING_MASTER_KEY);
+    return keyring;
+  }
+
+  throw new Error('No master key matches the stored keyring');
+};
+
+const unlockKeyring = (): Promise<Keyring> => {
+  if (!keyringPromise) {
+    keyringPromise = openKeyring().catch(error => {
+      keyringPromise = null;
+      throw error;
+    });
   }
+  return keyringPromise;
+};
+
+// Forget unwrapped keys, e.g. after the stored keys were wiped
+export const clearEncryptionKeyCache = (): void => {
+  keyringPromise = null;
+  passphraseKeyCache = null;
 };
 
-// Generate a random initialization vector (IV)
-const generateIV = async (): Promise<Uint8Array> => {
+export const getKeyringInfo = async (): Promise<KeyringInfo | null> => {
   try {
-    return await Random.getRandomBytesAsync(IV_LENGTH);
+    const keyring = await unlockKeyring();
+    return {
+      version: ENCRYPTION_VERSION,
+      activeKeyId: keyring.activeKeyId,
+      keyCount: keyring.keys.size,
+      hasLegacyKey: await hasLegacyEncryptionKey(),
+    };
   } catch (error) {
-    console.warn('Using fallback IV generation:', error);
-    
-    if (Platform.OS === 'web' && window.crypto && window.crypto.getRandomValues) {
-      const iv = new Uint8Array(IV_LENGTH);
-      window.crypto.getRandomValues(iv);
-      return iv;
-    }
-    
-    // Last resort fallback
-    const iv = new Uint8Array(IV_LENGTH);
-    for (let i = 0; i < IV_LENGTH; i++) {
-      iv[i] = Math.floor(Math.random() * 256);
-    }
-    return iv;
+    console.error('Error reading keyring:', error);
+    return null;
   }
 };
 
-// Derive a key from the master key and salt using PBKDF2
-const deriveKey = async (masterKey: string, salt: Uint8Array): Promise<CryptoKey | string> => {
-  if (Platform.OS === 'web' && window.crypto && window.crypto.subtle) {
-    try {
-      // For web, use the Web Crypto API
-      const encoder = new TextEncoder();
-      const keyMaterial = await window.crypto.subtle.importKey(
-        'raw',
-        encoder.encode(masterKey),
-        { name: 'PBKDF2' },
-        false,
-        ['deriveBits', 'deriveKey']
-      );
-      
-      return await window.crypto.subtle.deriveKey(
-        {
-          name: 'PBKDF2',
-          salt: salt,
-          iterations: ITERATION_COUNT,
-          hash: 'SHA-256'
-        },
-        keyMaterial,
-        { name: ALGORITHM, length: KEY_LENGTH },
-        false,
-        ['encrypt', 'decrypt']
-      );
-    } catch (error) {
-      console.error('Web Crypto key derivation failed:', error);
-      // Fall back to string-based key
+/**
+ * Replaces the master key and re-wraps every data key with it. A fresh data
+ * key becomes active for new data; existing payloads stay readable with the
+ * keys they were written with, so nothing has to be re-encrypted. Once the
+ * keyring holds MAX_DATA_KEYS keys only the master key changes, so the wrapped
+ * keyring stays within SecureStore's size limit.
+ */
+export const rotateMasterKey = async (): Promise<boolean> => {
+  try {
+    const current = await unlockKeyring();
+    let rotated: Keyring = current;
+    if (current.keys.size < MAX_DATA_KEYS) {
+      const activeKeyId = await newKeyId();
+      rotated = {
+        activeKeyId,
+        keys: new Map([...current.keys, [activeKeyId, await randomBytes(KEY_LENGTH)]]),
+      };
     }
+
+    await commitKeyring(rotated, await generateEncryptionKey());
+    keyringPromise = Promise.resolve(rotated);
+    return true;
+  } catch (error) {
+    console.error('Error rotating master key:', error);
+    return false;
   }
-  
-  // For React Native or if Web Crypto fails, use a simpler approach
-  // In production, you would use a native module for PBKDF2
-  const keyHash = await Crypto.digestStringAsync(
-    Crypto.CryptoDigestAlgorithm.SHA256,
-    masterKey + bufferToBase64(salt) + ITERATION_COUNT
-  );
-  
-  return keyHash;
 };
 
-// Encrypt data using AES-GCM when available, with fallback for older platforms
+const seal = (key: Uint8Array, iv: Uint8Array, header: string, data: string): string => {
+  // The header is authenticated so a payload can't be moved to another key
+  const sealed = gcm(key, iv, utf8ToBytes(header)).encrypt(utf8ToBytes(data));
+  return `${header}.${bufferToBase64(iv)}.${bufferToBase64(sealed)}`;
+};
+
+const open = (key: Uint8Array, iv: string, header: string, sealed: string): string => {
+  return bytesToUtf8(gcm(key, base64ToBuffer(iv), utf8ToBytes(header)).decrypt(base64ToBuffer(sealed)));
+};
+
+// Encrypt data with the active data key
 export const encryptData = async (data: string): Promise<string> => {
-  let masterKey = await getEncryptionKey();
-  
-  if (!masterKey) {
-    // Generate a new key if none exists
-    masterKey = await generateEncryptionKey();
-    await storeEncryptionKey(masterKey);
+  const keyring = await unlockKeyring();
+  const key = keyring.keys.get(keyring.activeKeyId)!;
+  return seal(key, await randomBytes(IV_LENGTH), `${ENCRYPTION_VERSION}.${keyring.activeKeyId}`, data);
+};
+
+const derivePassphraseKey = async (passphrase: string, salt: string, iterations: number): Promise<Uint8Array> => {
+  const cached = passphraseKeyCache;
+  if (cached && cached.passphrase === passphrase && cached.salt === salt && cached.iterations === iterations) {
+    return cached.key;
   }
-  
-  // Generate salt and IV
-  const salt = await generateSalt();
-  const iv = await generateIV();
-  
-  // Web implementation using Web Crypto API
-  if (Platform.OS === 'web' && window.crypto && window.crypto.subtle) {
-    try {
-      const derivedKey = await deriveKey(masterKey, salt);
-      
-      if (typeof derivedKey !== 'string') {
-        const encoder = new TextEncoder();
-        const dataBuffer = encoder.encode(data);
-        
-        const encryptedBuffer = await window.crypto.subtle.encrypt(
-          {
-            name: ALGORITHM,
-            iv: iv,
-            tagLength: TAG_LENGTH
-          },
-          derivedKey,
-          dataBuffer
-        );
-        
-        // Format: version + '.' + base64(salt) + '.' + base64(iv) + '.' + base64(encryptedData)
-        return ENCRYPTION_VERSION + '.' + 
-               bufferToBase64(salt) + '.' + 
-               bufferToBase64(iv) + '.' + 
-               bufferToBase64(encryptedBuffer);
+
+  const key = await pbkdf2Async(sha256, passphrase, base64ToBuffer(salt), { c: iterations, dkLen: KEY_LENGTH });
+  passphraseKeyCache = { passphrase, salt, iterations, key };
+  return key;
+};
+
+// Encrypt data with a user-supplied passphrase instead of the device key,
+// so the result can be decrypted on another device (e.g. export archives)
+export const encryptWithPassphrase = async (data: string, passphrase: string): Promise<string> => {
+  // Consecutive payloads under the same passphrase share a salt and derived key;
+  // each still gets its own IV
+  const salt = passphraseKeyCache?.passphrase === passphrase && passphraseKeyCache.iterations === PASSPHRASE_ITERATIONS
+    ? passphraseKeyCache.salt
+    : bufferToBase64(await randomBytes(SALT_LENGTH));
+  const key = await derivePassphraseKey(passphrase, salt, PASSPHRASE_ITERATIONS);
+  return seal(key, await randomBytes(IV_LENGTH), `${PASSPHRASE_ENVELOPE}.${PASSPHRASE_ITERATIONS}.${salt}`, data);
+};
+
+// Decrypt data
+export const decryptData = async (encryptedData: string): Promise<string | null> => {
+  const parts = encryptedData.split('.');
+
+  try {
+    const keyring = await unlockKeyring();
+
+    if (parts[0] === ENCRYPTION_VERSION.toString() && parts.length === 4) {
+      const key = keyring.keys.get(parts[1]);
+      if (!key) {
+        console.error('No data key found for encrypted data');
+        return null;
       }
-    } catch (error) {
-      console.error('Web Crypto encryption failed:', error);
-      // Fall back to simpler encryption
+      return open(key, parts[2], `${parts[0]}.${parts[1]}`, parts[3]);
     }
+  } catch (error) {
+    console.error('Decryption failed:', error);
+    return null;
   }
-  
-  // React Native implementation or fallback for web
-  try {
-    // Derive a key using PBKDF2 (simplified version)
-    const derivedKey = await deriveKey(masterKey, salt);
-    
-    if (typeof derivedKey === 'string') {
-      // Use the derived key hash with a simple encryption algorithm
-      // This is a simplified version - in production, use a native crypto module
-      const encryptedData = await simpleAesEncrypt(data, derivedKey, iv);
-      
-      // Format: version + '.' + base64(salt) + '.' + base64(iv) + '.' + base64(encryptedData)
-      return ENCRYPTION_VERSION + '.' + 
-             bufferToBase64(salt) + '.' + 
-             bufferToBase64(iv) + '.' + 
-             encryptedData;
+
+  const legacyKey = await readKeyItem(LEGACY_KEY);
+  if (!legacyKey) {
+    console.error('No encryption key found for legacy data');
+    return null;
+  }
+  // Device data is only ever read on the platform that wrote it
+  return decryptLegacy(encryptedData, legacyKey, Platform.OS === 'web');
+};
+
+// Decrypt data that was encrypted with encryptWithPassphrase
+export const decryptWithPassphrase = async (encryptedData: string, passphrase: string): Promise<string | null> => {
+  const parts = encryptedData.split('.');
+
+  if (parts[0] === PASSPHRASE_ENVELOPE && parts.length === 5) {
+    try {
+      const iterations = parseInt(parts[1], 10);
+      const key = await derivePassphraseKey(passphrase, parts[2], iterations);
+      return open(key, parts[3], parts.slice(0, 3).join('.'), parts[4]);
+    } catch (error) {
+      console.error('Passphrase decryption failed:', error);
+      return null;
     }
-  } catch (error) {
-    console.error('Native encryption failed:', error);
   }
-  
-  // Last resort fallback to very simple encryption
-  // This should almost never be used in production
-  console.warn('Using last resort encryption fallback - NOT SECURE FOR PRODUCTION');
-  return 'fallback.' + ENCRYPTION_VERSION + '.' + 
-         bufferToBase64(salt) + '.' + 
-         bufferToBase64(iv) + '.' + 
-         btoa(simpleEncrypt(data, masterKey));
+
+  // Archives exported before v3 may come from either platform
+  return decryptLegacy(encryptedData, passphrase, true);
 };
 
-// Decrypt data
-export const decryptData = async (encryptedData: string): Promise<string | null> => {
-  const masterKey = await getEncryptionKey();
-  
-  if (!masterKey) {
-    console.error('No encryption key found');
+// Whether a payload predates the current envelope format and should be upgraded
+export const isLegacyPayload = (encryptedData: string): boolean => {
+  return /^(fallback\.\d+|[12])(\.[A-Za-z0-9+/=]+){3}$/.test(encryptedData);
+};
+
+export const hasLegacyEncryptionKey = async (): Promise<boolean> => {
+  return (await readKeyItem(LEGACY_KEY)) !== null;
+};
+
+/**
+ * Re-encrypts a legacy payload with the active data key. Current payloads are
+ * returned unchanged; null means the payload could not be decrypted.
+ */
+export const upgradeEncryptedPayload = async (encryptedData: string): Promise<string | null> => {
+  if (!isLegacyPayload(encryptedData)) {
+    return encryptedData;
+  }
+
+  const decrypted = await decryptData(encryptedData);
+  if (decrypted === null) {
     return null;
   }
-  
-  // Split the encrypted data into its components
+  return encryptData(decrypted);
+};
+
+// Once every legacy payload has been upgraded the old key is no longer needed
+export const discardLegacyEncryptionKey = async (): Promise<void> => {
+  await deleteKeyItem(LEGACY_KEY);
+};
+
+const decryptLegacy = async (
+  encryptedData: string,
+  masterKey: string,
+  mayBeWebCrypto: boolean
+): Promise<string | null> => {
   const parts = encryptedData.split('.');
-  
+
   // Check if this is our fallback format
   if (parts[0] === 'fallback' && parts.length === 5) {
-    const salt = base64ToBuffer(parts[2]);
-    // We don't use IV in the fallback decryption
     const encryptedText = atob(parts[4]);
     return simpleEncrypt(encryptedText, masterKey); // XOR is its own inverse
   }
-  
+
   // Standard format: version + '.' + base64(salt) + '.' + base64(iv) + '.' + base64(encryptedData)
   if (parts.length !== 4) {
     console.error('Invalid encrypted data format');
     return null;
   }
-  
-  const version = parseInt(parts[0], 10);
+
   const salt = base64ToBuffer(parts[1]);
   const iv = base64ToBuffer(parts[2]);
   const encryptedContent = parts[3];
-  
-  // Web implementation using Web Crypto API
-  if (Platform.OS === 'web' && window.crypto && window.crypto.subtle) {
+
+  // Written with Web Crypto: AES-GCM under a PBKDF2 key, tag appended
+  if (mayBeWebCrypto) {
     try {
-      const derivedKey = await deriveKey(masterKey, salt);
-      
-      if (typeof derivedKey !== 'string') {
-        const encryptedBuffer = base64ToBuffer(encryptedContent);
-        
-        const decryptedBuffer = await window.crypto.subtle.decrypt(
-          {
-            name: ALGORITHM,
-            iv: iv,
-            tagLength: TAG_LENGTH
-          },
-          derivedKey,
-          encryptedBuffer
-        );
-        
-        const decoder = new TextDecoder();
-        return decoder.decode(decryptedBuffer);
-      }
+      const key = await pbkdf2Async(sha256, masterKey, salt, { c: LEGACY_ITERATION_COUNT, dkLen: KEY_LENGTH });
+      return bytesToUtf8(gcm(key, iv).decrypt(base64ToBuffer(encryptedContent)));
     } catch (error) {
-      console.error('Web Crypto decryption failed:', error);
-      // Fall back to simpler decryption
+      // Authentication failed, so it was written by the hash-based cipher
     }
   }
-  
-  // React Native implementation or fallback for web
+
   try {
-    // Derive a key using PBKDF2 (simplified version)
-    const derivedKey = await deriveKey(masterKey, salt);
-    
-    if (typeof derivedKey === 'string') {
-      // Use the derived key hash with a simple decryption algorithm
-      return await simpleAesDecrypt(encryptedContent, derivedKey, iv);
-    }
+    const derivedKey = await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      masterKey + bufferToBase64(salt) + LEGACY_ITERATION_COUNT
+    );
+    return await simpleAesDecrypt(encryptedContent, derivedKey, iv);
   } catch (error) {
-    console.error('Native decryption failed:', error);
+    console.error('Legacy decryption failed:', error);
+    return null;
   }
-  
-  // If all else fails, return null
-  console.error('All decryption methods failed');
-  return null;
 };
 
-// Simple XOR encryption/decryption as absolute last resort
-// Note: This is NOT secure and should not be used in production
+// XOR used by the legacy fallback format
 const simpleEncrypt = (data: string, key: string): string => {
   let result = '';
   for (let i = 0; i < data.length; i++) {
@@ -383,103 +515,39 @@ const simpleEncrypt = (data: string, key: string): string => {
   return result;
 };
 
-// Simplified AES encryption implementation
-// In production, use a native crypto module or library
-const simpleAesEncrypt = async (
-  data: string, 
-  key: string, 
+// Decryption for the hash-based block cipher that v1/v2 used on native
+const simpleAesDecrypt = async (
+  encryptedData: string,
+  key: string,
   iv: Uint8Array
 ): Promise<string> => {
-  // This is a placeholder for a real AES implementation
-  // In a real app, you would use a native crypto module or library
-  
-  // For this example, we'll use a hash-based approach with the IV
   const combinedKey = await Crypto.digestStringAsync(
     Crypto.CryptoDigestAlgorithm.SHA256,
     key + bufferToBase64(iv)
   );
-  
-  // Create blocks and encrypt each block
-  const blockSize = 16; // AES block size
+
+  const encryptedText = atob(encryptedData);
+  const blockSize = 16;
   const blocks = [];
-  
-  for (let i = 0; i < data.length; i += blockSize) {
-    const block = data.substring(i, i + blockSize).padEnd(blockSize, '\0');
-    const encryptedBlock = simpleBlockEncrypt(block, combinedKey, i / blockSize);
-    blocks.push(encryptedBlock);
-  }
-  
-  return btoa(blocks.join(''));
-};
 
-// Simplified AES decryption implementation
-const simpleAesDecrypt = async (
-  encryptedData: string, 
-  key: string, 
-  iv: Uint8Array
-): Promise<string> => {
-  // This is a placeholder for a real AES implementation
-  
-  // For this example, we'll use a hash-based approach with the IV
-  const combinedKey = await Crypto.digestStringAsync(
-    Crypto.CryptoDigestAlgorithm.SHA256,
-    key + bufferToBase64(iv)
-  );
-  
-  try {
-    const encryptedText = atob(encryptedData);
-    const blockSize = 16; // AES block size
-    const blocks = [];
-    
-    for (let i = 0; i < encryptedText.length; i += blockSize) {
-      const block = encryptedText.substring(i, i + blockSize);
-      const decryptedBlock = simpleBlockEncrypt(block, combinedKey, i / blockSize);
-      blocks.push(decryptedBlock);
-    }
-    
-    // Remove padding
-    let result = blocks.join('');
-    const lastChar = result.charCodeAt(result.length - 1);
-    
-    if (lastChar < blockSize) {
-      // Check if the last character is a valid padding value
-      const paddingLength = lastChar;
-      let isPadding = true;
-      
-      for (let i = result.length - paddingLength; i < result.length; i++) {
-        if (result.charCodeAt(i) !== paddingLength) {
-          isPadding = false;
-          break;
-        }
-      }
-      
-      if (isPadding) {
-        result = result.substring(0, result.length - paddingLength);
-      }
-    }
-    
-    return result.replace(/\0+$/, ''); // Remove null padding
-  } catch (error) {
-    console.error('Error in AES decryption:', error);
-    return '';
+  for (let i = 0; i < encryptedText.length; i += blockSize) {
+    const block = encryptedText.substring(i, i + blockSize);
+    blocks.push(simpleBlockEncrypt(block, combinedKey, i / blockSize));
   }
+
+  return blocks.join('').replace(/\0+$/, ''); // Remove null padding
 };
 
-// Simple block encryption (for the simplified AES implementation)
 const simpleBlockEncrypt = (block: string, key: string, blockIndex: number): string => {
-  // In a real implementation, this would be actual AES
-  // This is just a placeholder that mimics some aspects of block cipher behavior
-  
   // Use the key and block index to create a unique key for this block
   const blockKey = key.split('').map((char, index) => {
     return String.fromCharCode(
-      char.charCodeAt(0) ^ 
-      (blockIndex & 0xFF) ^ 
+      char.charCodeAt(0) ^
+      (blockIndex & 0xFF) ^
       index
     );
   }).join('');
-  
-  // XOR the block with the block key
+
   return simpleEncrypt(block, blockKey);
 };
 
@@ -493,7 +561,7 @@ export const secureStore = {
       await SecureStore.setItemAsync(key, value);
     }
   },
-  
+
   getItem: async (key: string): Promise<string | null> => {
     if (Platform.OS === 'web') {
       const encrypted = await AsyncStorage.getItem(key);
@@ -503,7 +571,7 @@ export const secureStore = {
       return SecureStore.getItemAsync(key);
     }
   },
-  
+
   removeItem: async (key: string): Promise<void> => {
     if (Platform.OS === 'web') {
       await AsyncStorage.removeItem(key);
@@ -511,4 +579,4 @@ export const secureStore = {
       await SecureStore.deleteItemAsync(key);
     }
   }
-};
\ No newline at end of file
+};
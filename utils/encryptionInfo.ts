@@ -8,10 +8,11 @@
  *    - Uses a 256-bit key length
  *    - Includes authentication tag to verify data integrity
  * 
- * 2. Key Derivation: PBKDF2 (Password-Based Key Derivation Function 2)
- *    - Derives encryption keys from master keys
- *    - Uses 100,000 iterations for computational security
- *    - Incorporates unique salt for each encryption operation
+ * 2. Key Management:
+ *    - Data is encrypted with random data keys kept in a keyring
+ *    - The keyring is wrapped by a key derived with HKDF from the device master key
+ *    - Rotating the master key re-wraps the keyring without re-encrypting data
+ *    - Passphrase exports use PBKDF2-SHA256 with 310,000 iterations
  * 
  * 3. Secure Random Number Generation:
  *    - Uses cryptographically secure random number generators
@@ -22,20 +23,21 @@
  *    - Native: Uses SecureStore for secure key storage
  *    - Web: Uses a combination of localStorage with additional protections
  * 
- * 5. File Encryption:
+ * 5. File and Store Encryption:
  *    - Encrypts both file content and metadata
  *    - Uses unique filenames based on content hashes
  *    - Stores encrypted files in a dedicated directory
+ *    - Persisted stores with personal data are encrypted and chunked in AsyncStorage
  * 
  * 6. Secure Deletion:
  *    - Implements secure overwriting before deletion
  *    - Uses multiple passes with random data and zeros
  *    - Cleans up temporary files and metadata
  * 
- * 7. Fallback Mechanisms:
- *    - Implements progressive fallbacks for different platforms
- *    - Ensures functionality across web and native environments
- *    - Maintains security even in limited environments
+ * 7. Failure Handling:
+ *    - The same AES-GCM implementation runs on web and native
+ *    - Nothing falls back to weaker encryption or plaintext
+ *    - Stores that cannot be decrypted become read-only instead of being overwritten
  * 
  * Security Considerations:
  * - All encryption operations are performed locally on the device
@@ -0,0 +1,173 @@
+import { ExerciseGroup, ExerciseGroupType, ExerciseLog, WorkoutLog } from "@/types";
+
+export const GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+  superset: "Superset",
+  circuit: "Circuit",
+  emom: "EMOM",
+  amrap: "AMRAP",
+};
+
+export const createExerciseGroup = (type: ExerciseGroupType, exerciseIds: string[]): ExerciseGroup => ({
+  id: Date.now().toString() + Math.random().toString(36).slice(2, 6),
+  type,
+  exerciseIds,
+  rounds: type === "amrap" ? 5 : 3,
+  restBetweenRounds: type === "superset" ? 90 : type === "circuit" ? 120 : 0,
+  intervalSeconds: type === "emom" ? 60 : undefined,
+  timeCapMinutes: type === "amrap" ? 12 : undefined,
+});
+
+/**
+ * One-line description of how a group is run, e.g. "3 rounds · 90s rest"
+ */
+export const describeExerciseGroup = (group: ExerciseGroup): string => {
+  switch (group.type) {
+    case "emom":
+      return `${group.rounds} rounds · every ${group.intervalSeconds || 60}s`;
+    case "amrap":
+      return `${group.timeCapMinutes || 0} min cap`;
+    default:
+      return `${group.rounds} rounds · ${group.restBetweenRounds}s rest`;
+  }
+};
+
+export const getExerciseGroup = (log: WorkoutLog, exerciseIndex: number): ExerciseGroup | null => {
+  const groupId = log.exercises[exerciseIndex]?.groupId;
+  if (!groupId) return null;
+  return log.groups?.find(group => group.id === groupId) || null;
+};
+
+export const getGroupMemberIndices = (exercises: ExerciseLog[], groupId: string): number[] => {
+  return exercises.reduce<number[]>((indices, exercise, index) => {
+    if (exercise.groupId === groupId) indices.push(index);
+    return indices;
+  }, []);
+};
+
+/**
+ * Exercise logs for a workout template, with each group's members tagged and
+ * kept next to each other in the position of the group's first exercise
+ */
+export const applyExerciseGroups = (exercises: ExerciseLog[], groups: ExerciseGroup[] = []): ExerciseLog[] => {
+  const ordered: ExerciseLog[] = [];
+  const placed = new Set<string>();
+
+  exercises.forEach(exercise => {
+    if (placed.has(exercise.id)) return;
+
+    const group = groups.find(g => g.exerciseIds.includes(exercise.exerciseId));
+    if (!group) {
+      ordered.push(exercise);
+      placed.add(exercise.id);
+      return;
+    }
+
+    group.exerciseIds.forEach(exerciseId => {
+      const member = exercises.find(e => e.exerciseId === exerciseId && !placed.has(e.id));
+      if (member) {
+        ordered.push({ ...member, groupId: group.id });
+        placed.add(member.id);
+      }
+    });
+  });
+
+  return ordered;
+};
+
+// Start and end index of the block an exercise belongs to (itself when ungrouped)
+const getBlock = (exercises: { groupId?: string }[], index: number): [number, number] => {
+  const groupId = exercises[index]?.groupId;
+  if (!groupId) return [index, index];
+
+  let start = index;
+  let end = index;
+  while (start > 0 && exercises[start - 1].groupId === groupId) start--;
+  while (end < exercises.length - 1 && exercises[end + 1].groupId === groupId) end++;
+  return [start, end];
+};
+
+/**
+ * Move an exercise, or the whole group it belongs to, so that it lands at
+ * `toIndex`. Blocks are never split: a drop inside another group snaps to
+ * that group's edge.
+ */
+export const moveExerciseBlock = <T extends { groupId?: string }>(
+  exercises: T[],
+  fromIndex: number,
+  toIndex: number
+): T[] => {
+  if (fromIndex === toIndex || !exercises[fromIndex] || !exercises[toIndex]) return exercises;
+
+  // Reordering within a group only changes the order of its members
+  if (exercises[fromIndex].groupId && exercises[fromIndex].groupId === exercises[toIndex].groupId) {
+    const updated = [...exercises];
+    const [moved] = updated.splice(fromIndex, 1);
+    updated.splice(toIndex, 0, moved);
+    return updated;
+  }
+
+  const [start, end] = getBlock(exercises, fromIndex);
+  const [targetStart, targetEnd] = getBlock(exercises, toIndex);
+  const block = exercises.slice(start, end + 1);
+  const remaining = [...exercises.slice(0, start), ...exercises.slice(end + 1)];
+
+  // Moving down places the block after the target, moving up places it before
+  const insertAt = toIndex > fromIndex
+    ? targetEnd - block.length + 1
+    : targetStart;
+  remaining.splice(insertAt, 0, ...block);
+  return remaining;
+};
+
+/**
+ * Where a group goes after a set is logged on one of its members. Members are
+ * done in order each round; once every member has the same number of sets the
+ * round is over.
+ */
+export const getNextGroupStep = (
+  exercises: ExerciseLog[],
+  group: ExerciseGroup,
+  exerciseIndex: number,
+  // Completed set counts keyed by exercise index, including the set just logged
+  completedSets: Record<number, number>
+): { nextIndex: number; roundComplete: boolean; round: number } => {
+  const members = getGroupMemberIndices(exercises, group.id);
+  const round = completedSets[exerciseIndex] || 0;
+
+  const position = members.indexOf(exerciseIndex);
+  const laterMember = members.slice(position + 1).find(index => (completedSets[index] || 0) < round);
+  if (laterMember !== undefined) {
+    return { nextIndex: laterMember, roundComplete: false, round };
+  }
+
+  // Anyone earlier who fell behind (e.g. a member was skipped) goes next
+  const behind = members.find(index => (completedSets[index] || 0) < round);
+  if (behind !== undefined) {
+    return { nextIndex: behind, roundComplete: false, round };
+  }
+
+  return { nextIndex: members[0], roundComplete: true, round };
+};
+
+export const isGroupFinished = (group: ExerciseGroup, round: number, startedAt?: number): boolean => {
+  if (group.type === "amrap") {
+    if (!startedAt || !group.timeCapMinutes) return round >= group.rounds;
+    return Date.now() - startedAt >= group.timeCapMinutes * 60 * 1000;
+  }
+  return round >= group.rounds;
+};
+
+/**
+ * Rest after a finished round. EMOM rounds start on the interval, so the rest
+ * is whatever is left of it.
+ */
+export const getRoundRest = (group: ExerciseGroup, roundStartedAt?: number): number => {
+  if (group.type === "emom") {
+    const interval = group.intervalSeconds || 60;
+    if (!roundStartedAt) return interval;
+    const elapsed = Math.floor((Date.now() - roundStartedAt) / 1000);
+    return Math.max(interval - elapsed, 0);
+  }
+  if (group.type === "amrap") return 0;
+  return group.restBetweenRounds;
+};
@@ -1,6 +1,6 @@
 import * as FileSystem from 'expo-file-system';
 import { Platform } from 'react-native';
-import { encryptData, decryptData } from './encryption';
+import { encryptData, decryptData, isLegacyPayload, upgradeEncryptedPayload, ENCRYPTION_VERSION } from './encryption';
 import * as Crypto from 'expo-crypto';
 import * as Random from 'expo-random';
 import { secureDeleteFile, secureDeleteFileWithMetadata } from './secureDelete';
@@ -115,7 +115,7 @@ export const encryptAndSavePhoto = async (
       name: fileName,
       timestamp: Date.now(),
       originalSize: fileContent.length,
-      encryptionVersion: 2, // Track encryption version for future upgrades
+      encryptionVersion: ENCRYPTION_VERSION, // Track encryption version for future upgrades
       contentHash: await Crypto.digestStringAsync(
         Crypto.CryptoDigestAlgorithm.SHA256,
         fileContent.substring(0, Math.min(fileContent.length, 1024)) // Hash first 1KB for verification
@@ -487,6 +487,69 @@ export const reEncryptFile = async (uri: string): Promise<string | null> => {
   }
 };
 
+// Upgrade photos written before the current encryption version in place, so
+// the URIs stored in the photo store stay valid
+export const upgradeEncryptedPhotos = async (): Promise<{ upgraded: number; failed: number }> => {
+  const result = { upgraded: 0, failed: 0 };
+  if (Platform.OS === 'web') return result;
+  
+  try {
+    const dirInfo = await FileSystem.getInfoAsync(ENCRYPTED_PHOTOS_DIR);
+    if (!dirInfo.exists) return result;
+    
+    // Unencrypted fallback copies and .verify files are left alone
+    const files = (await FileSystem.readDirectoryAsync(ENCRYPTED_PHOTOS_DIR)).filter(file => file.endsWith('.enc'));
+    
+    for (const file of files) {
+      const uri = `${ENCRYPTED_PHOTOS_DIR}${file}`;
+      
+      try {
+        const encryptedContent = await FileSystem.readAsStringAsync(uri);
+        let upgradedContent: string | null = null;
+        
+        if (encryptedContent.includes('|||')) {
+          const [encryptedMetadata, encryptedFileContent] = encryptedContent.split('|||');
+          if (!isLegacyPayload(encryptedMetadata) && !isLegacyPayload(encryptedFileContent)) continue;
+          
+          const metadataStr = await decryptData(encryptedMetadata);
+          const content = await upgradeEncryptedPayload(encryptedFileContent);
+          if (metadataStr && content) {
+            const metadata = { ...JSON.parse(metadataStr), encryptionVersion: ENCRYPTION_VERSION };
+            upgradedContent = `${await encryptData(JSON.stringify(metadata))}|||${content}`;
+          }
+        } else {
+          if (!isLegacyPayload(encryptedContent)) continue;
+          upgradedContent = await upgradeEncryptedPayload(encryptedContent);
+        }
+        
+        if (!upgradedContent) {
+          result.failed++;
+          continue;
+        }
+        
+        await FileSystem.writeAsStringAsync(uri, upgradedContent);
+        
+        // Keep the verification hash in step with the new content
+        const verificationHash = await Crypto.digestStringAsync(
+          Crypto.CryptoDigestAlgorithm.SHA256,
+          upgradedContent.substring(0, Math.min(upgradedContent.length, 1024))
+        );
+        await FileSystem.writeAsStringAsync(`${uri}.verify`, verificationHash);
+        
+        result.upgraded++;
+      } catch (error) {
+        console.error(`Error upgrading encrypted photo ${file}:`, error);
+        result.failed++;
+      }
+    }
+  } catch (error) {
+    console.error('Error upgrading encrypted photos:', error);
+    result.failed++;
+  }
+  
+  return result;
+};
+
 // Legacy functions for backward compatibility
 export const encryptFile = async (
   sourceUri: string, 
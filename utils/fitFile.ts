@@ -0,0 +1,497 @@
+import type { ParsedActivity, ParsedSport } from './activityFiles';
+import { RoutePoint } from '@/types';
+import { haversineDistance } from './routeMath';
+
+// Minimal reader/writer for Garmin FIT activity files. Only the messages we
+// map onto ActivityLog are decoded: record, session, event and length.
+
+const FIT_EPOCH_OFFSET = 631065600; // seconds between the Unix and FIT epochs
+const SEMICIRCLES_TO_DEGREES = 180 / Math.pow(2, 31);
+const FIT_PROFILE_VERSION = 2132;
+
+const MESG_FILE_ID = 0;
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_EVENT = 21;
+const MESG_ACTIVITY = 34;
+const MESG_LENGTH = 101;
+
+const FIELD_TIMESTAMP = 253;
+
+const EVENT_TIMER = 0;
+const EVENT_TYPE_START = 0;
+const EVENT_TYPE_STOP = 1;
+const EVENT_TYPE_STOP_ALL = 4;
+
+const FIT_SPORTS: Record<number, ParsedSport> = {
+  1: 'running',
+  2: 'cycling',
+  5: 'swimming',
+  11: 'walking',
+  17: 'walking', // hiking
+};
+
+const SPORT_TO_FIT: Record<ParsedSport, number> = {
+  running: 1,
+  cycling: 2,
+  swimming: 5,
+  walking: 11,
+  other: 0,
+};
+
+const SWIM_STROKES: Record<number, string> = {
+  0: 'freestyle',
+  1: 'backstroke',
+  2: 'breaststroke',
+  3: 'butterfly',
+  4: 'drill',
+  5: 'mixed',
+};
+
+// Base type number (low 5 bits) -> byte size, signedness and invalid value
+const BASE_TYPES: Record<number, { size: number; signed?: boolean; float?: boolean; invalid?: number }> = {
+  0: { size: 1, invalid: 0xff }, // enum
+  1: { size: 1, signed: true, invalid: 0x7f },
+  2: { size: 1, invalid: 0xff },
+  3: { size: 2, signed: true, invalid: 0x7fff },
+  4: { size: 2, invalid: 0xffff },
+  5: { size: 4, signed: true, invalid: 0x7fffffff },
+  6: { size: 4, invalid: 0xffffffff },
+  8: { size: 4, float: true },
+  9: { size: 8, float: true },
+  10: { size: 1, invalid: 0 },
+  11: { size: 2, invalid: 0 },
+  12: { size: 4, invalid: 0 },
+};
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+const updateCrc = (crc: number, byte: number): number => {
+  let tmp = CRC_TABLE[crc & 0xf];
+  crc = (crc >> 4) & 0x0fff;
+  crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+  tmp = CRC_TABLE[crc & 0xf];
+  crc = (crc >> 4) & 0x0fff;
+  return crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+};
+
+const calculateCrc = (bytes: ArrayLike<number>, start: number = 0, end: number = bytes.length): number => {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc = updateCrc(crc, bytes[i]);
+  }
+  return crc;
+};
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+type FitMessage = Record<number, number>;
+
+const readField = (view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): number | undefined => {
+  const type = BASE_TYPES[field.baseType & 0x1f];
+  // Strings, byte arrays and multi-value fields are not needed here
+  if (!type || type.size !== field.size) return undefined;
+
+  let value: number;
+  if (type.float) {
+    value = type.size === 4 ? view.getFloat32(offset, littleEndian) : view.getFloat64(offset, littleEndian);
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  switch (type.size) {
+    case 1:
+      value = type.signed ? view.getInt8(offset) : view.getUint8(offset);
+      break;
+    case 2:
+      value = type.signed ? view.getInt16(offset, littleEndian) : view.getUint16(offset, littleEndian);
+      break;
+    default:
+      value = type.signed ? view.getInt32(offset, littleEndian) : view.getUint32(offset, littleEndian);
+  }
+
+  return value === type.invalid ? undefined : value;
+};
+
+const fitTimeToMillis = (fitSeconds: number): number => (fitSeconds + FIT_EPOCH_OFFSET) * 1000;
+
+/**
+ * Decode a FIT activity file. Returns null when the data is not a FIT file.
+ */
+export const parseFitFile = (bytes: Uint8Array): ParsedActivity | null => {
+  if (bytes.length < 12) return null;
+
+  const headerSize = bytes[0];
+  const signature = String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]);
+  if (signature !== '.FIT' || headerSize < 12) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const dataSize = view.getUint32(4, true);
+  const end = Math.min(headerSize + dataSize, bytes.length);
+
+  const definitions: Record<number, MessageDefinition> = {};
+  const segments: RoutePoint[][] = [[]];
+  const strokeCounts: Record<string, number> = {};
+  let session: FitMessage | null = null;
+  let activeLengths = 0;
+  let lastTimestamp = 0;
+  let firstTimestamp: number | undefined;
+  let timerStopped = false;
+
+  let pos = headerSize;
+  try {
+    while (pos < end) {
+      const header = bytes[pos++];
+      let localNum: number;
+      let compressedTimestamp: number | undefined;
+
+      if (header & 0x80) {
+        // Compressed timestamp header: 5-bit offset from the last full timestamp
+        localNum = (header >> 5) & 0x03;
+        const offset = header & 0x1f;
+        compressedTimestamp = (lastTimestamp & ~0x1f) + offset;
+        if (offset < (lastTimestamp & 0x1f)) compressedTimestamp += 0x20;
+      } else if (header & 0x40) {
+        localNum = header & 0x0f;
+        const littleEndian = bytes[pos + 1] === 0;
+        const globalNum = view.getUint16(pos + 2, littleEndian);
+        const fieldCount = bytes[pos + 4];
+        pos += 5;
+
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({ num: bytes[pos], size: bytes[pos + 1], baseType: bytes[pos + 2] });
+          pos += 3;
+        }
+
+        let developerDataSize = 0;
+        if (header & 0x20) {
+          const developerFieldCount = bytes[pos++];
+          for (let i = 0; i < developerFieldCount; i++) {
+            developerDataSize += bytes[pos + 1];
+            pos += 3;
+          }
+        }
+
+        definitions[localNum] = { globalNum, littleEndian, fields, developerDataSize };
+        continue;
+      } else {
+        localNum = header & 0x0f;
+      }
+
+      const definition = definitions[localNum];
+      if (!definition) {
+        console.warn('FIT data message references an unknown definition, stopping');
+        break;
+      }
+
+      const message: FitMessage = {};
+      for (const field of definition.fields) {
+        const value = readField(view, pos, field, definition.littleEndian);
+        if (value !== undefined) message[field.num] = value;
+        pos += field.size;
+      }
+      pos += definition.developerDataSize;
+
+      if (compressedTimestamp !== undefined) {
+        message[FIELD_TIMESTAMP] = compressedTimestamp;
+      }
+      if (message[FIELD_TIMESTAMP] !== undefined) {
+        lastTimestamp = message[FIELD_TIMESTAMP];
+      }
+
+      switch (definition.globalNum) {
+        case MESG_RECORD: {
+          if (message[FIELD_TIMESTAMP] === undefined) break;
+          if (firstTimestamp === undefined) firstTimestamp = message[FIELD_TIMESTAMP];
+          if (message[0] === undefined || message[1] === undefined) break;
+
+          if (timerStopped) {
+            // Timer stop/start pairs become separate route segments
+            if (segments[segments.length - 1].length > 0) segments.push([]);
+            timerStopped = false;
+          }
+
+          const altitude = message[78] !== undefined
+            ? message[78] / 5 - 500
+            : message[2] !== undefined ? message[2] / 5 - 500 : undefined;
+          const speed = message[73] !== undefined
+            ? message[73] / 1000
+            : message[6] !== undefined ? message[6] / 1000 : undefined;
+
+          segments[segments.length - 1].push({
+            latitude: message[0] * SEMICIRCLES_TO_DEGREES,
+            longitude: message[1] * SEMICIRCLES_TO_DEGREES,
+            altitude,
+            speed,
+            heartRate: message[3],
+            timestamp: fitTimeToMillis(message[FIELD_TIMESTAMP]),
+          });
+          break;
+        }
+        case MESG_EVENT:
+          if (message[0] === EVENT_TIMER) {
+            if (message[1] === EVENT_TYPE_STOP || message[1] === EVENT_TYPE_STOP_ALL) timerStopped = true;
+          }
+          break;
+        case MESG_SESSION:
+          // Multisport files carry several sessions; the first one describes the activity
+          if (!session) session = message;
+          break;
+        case MESG_LENGTH:
+          // length_type 1 is an active length (0 is rest)
+          if (message[12] === 1) {
+            activeLengths++;
+            const stroke = SWIM_STROKES[message[7]];
+            if (stroke) strokeCounts[stroke] = (strokeCounts[stroke] || 0) + 1;
+          }
+          break;
+      }
+    }
+  } catch (error) {
+    // A truncated file still yields whatever was decoded before the cut
+    console.warn('FIT file ended unexpectedly:', error);
+  }
+
+  const startSeconds = session?.[2] ?? firstTimestamp;
+  if (startSeconds === undefined) return null;
+
+  const sport = FIT_SPORTS[session?.[5] ?? -1] ?? 'other';
+  const strokeType = Object.keys(strokeCounts).sort((a, b) => strokeCounts[b] - strokeCounts[a])[0];
+
+  return {
+    sport,
+    startTime: fitTimeToMillis(startSeconds),
+    elapsedTime: session?.[7] !== undefined ? session[7] / 1000 : undefined,
+    movingTime: session?.[8] !== undefined ? session[8] / 1000 : undefined,
+    distance: session?.[9] !== undefined ? session[9] / 100 : undefined,
+    calories: session?.[11],
+    averageHeartRate: session?.[16],
+    maxHeartRate: session?.[17],
+    elevationGain: session?.[22],
+    segments: segments.filter(segment => segment.length > 0),
+    swim: sport === 'swimming' ? {
+      poolLength: session?.[44] !== undefined ? session[44] / 100 : undefined,
+      lengths: activeLengths > 0 ? activeLengths : undefined,
+      strokeType,
+    } : undefined,
+  };
+};
+
+// --- Encoding ---
+
+interface FieldSpec {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+const ENUM = 0x00;
+const UINT8 = 0x02;
+const UINT16 = 0x84;
+const SINT32 = 0x85;
+const UINT32 = 0x86;
+
+const INVALID: Record<number, number> = {
+  [ENUM]: 0xff,
+  [UINT8]: 0xff,
+  [UINT16]: 0xffff,
+  [SINT32]: 0x7fffffff,
+  [UINT32]: 0xffffffff,
+};
+
+class FitWriter {
+  private bytes: number[] = [];
+  private definitions: Record<number, FieldSpec[]> = {};
+
+  define(localNum: number, globalNum: number, fields: FieldSpec[]) {
+    this.definitions[localNum] = fields;
+    this.bytes.push(0x40 | localNum, 0, 0, globalNum & 0xff, (globalNum >> 8) & 0xff, fields.length);
+    fields.forEach(field => this.bytes.push(field.num, field.size, field.baseType));
+  }
+
+  write(localNum: number, values: Record<number, number | undefined>) {
+    this.bytes.push(localNum);
+    for (const field of this.definitions[localNum]) {
+      const raw = values[field.num];
+      const value = raw === undefined || !Number.isFinite(raw) ? INVALID[field.baseType] : Math.round(raw);
+      for (let i = 0; i < field.size; i++) {
+        // Little-endian; >>> keeps negative sint32 values in two's complement
+        this.bytes.push((value >>> (8 * i)) & 0xff);
+      }
+    }
+  }
+
+  toFile(): Uint8Array {
+    const dataSize = this.bytes.length;
+    const header = [
+      14, 0x10, FIT_PROFILE_VERSION & 0xff, (FIT_PROFILE_VERSION >> 8) & 0xff,
+      dataSize & 0xff, (dataSize >> 8) & 0xff, (dataSize >> 16) & 0xff, (dataSize >>> 24) & 0xff,
+      0x2e, 0x46, 0x49, 0x54, // ".FIT"
+    ];
+    const headerCrc = calculateCrc(header);
+    header.push(headerCrc & 0xff, (headerCrc >> 8) & 0xff);
+
+    const file = [...header, ...this.bytes];
+    const fileCrc = calculateCrc(file);
+    file.push(fileCrc & 0xff, (fileCrc >> 8) & 0xff);
+    return Uint8Array.from(file);
+  }
+}
+
+const toFitTime = (millis: number): number => Math.round(millis / 1000) - FIT_EPOCH_OFFSET;
+const toSemicircles = (degrees: number): number => Math.round(degrees / SEMICIRCLES_TO_DEGREES);
+
+/**
+ * Encode an activity as a FIT file with a single lap and session.
+ */
+export const writeFitFile = (activity: ParsedActivity): Uint8Array => {
+  const writer = new FitWriter();
+  const startTime = toFitTime(activity.startTime);
+  const elapsedTime = activity.elapsedTime ?? 0;
+  const endTime = startTime + Math.round(elapsedTime);
+  const timerTime = activity.movingTime ?? elapsedTime;
+
+  writer.define(0, MESG_FILE_ID, [
+    { num: 0, size: 1, baseType: ENUM }, // type
+    { num: 1, size: 2, baseType: UINT16 }, // manufacturer
+    { num: 2, size: 2, baseType: UINT16 }, // product
+    { num: 4, size: 4, baseType: UINT32 }, // time_created
+  ]);
+  // type 4 = activity, manufacturer 255 = development
+  writer.write(0, { 0: 4, 1: 255, 2: 0, 4: startTime });
+
+  writer.define(1, MESG_EVENT, [
+    { num: FIELD_TIMESTAMP, size: 4, baseType: UINT32 },
+    { num: 0, size: 1, baseType: ENUM }, // event
+    { num: 1, size: 1, baseType: ENUM }, // event_type
+  ]);
+
+  writer.define(2, MESG_RECORD, [
+    { num: FIELD_TIMESTAMP, size: 4, baseType: UINT32 },
+    { num: 0, size: 4, baseType: SINT32 }, // position_lat
+    { num: 1, size: 4, baseType: SINT32 }, // position_long
+    { num: 2, size: 2, baseType: UINT16 }, // altitude
+    { num: 3, size: 1, baseType: UINT8 }, // heart_rate
+    { num: 5, size: 4, baseType: UINT32 }, // distance
+  ]);
+
+  let cumulativeDistance = 0;
+  let previous: RoutePoint | undefined;
+
+  if (activity.segments.length === 0) {
+    writer.write(1, { [FIELD_TIMESTAMP]: startTime, 0: EVENT_TIMER, 1: EVENT_TYPE_START });
+  }
+
+  activity.segments.forEach(segment => {
+    if (segment.length === 0) return;
+    writer.write(1, { [FIELD_TIMESTAMP]: toFitTime(segment[0].timestamp), 0: EVENT_TIMER, 1: EVENT_TYPE_START });
+    previous = undefined;
+
+    segment.forEach(point => {
+      if (previous) {
+        cumulativeDistance += haversineDistance(previous, point);
+      }
+      previous = point;
+
+      writer.write(2, {
+        [FIELD_TIMESTAMP]: toFitTime(point.timestamp),
+        0: toSemicircles(point.latitude),
+        1: toSemicircles(point.longitude),
+        2: point.altitude !== undefined ? (point.altitude + 500) * 5 : undefined,
+        3: point.heartRate,
+        5: cumulativeDistance * 100,
+      });
+    });
+
+    writer.write(1, {
+      [FIELD_TIMESTAMP]: toFitTime(segment[segment.length - 1].timestamp),
+      0: EVENT_TIMER,
+      1: EVENT_TYPE_STOP_ALL,
+    });
+  });
+
+  if (activity.segments.length === 0) {
+    writer.write(1, { [FIELD_TIMESTAMP]: endTime, 0: EVENT_TIMER, 1: EVENT_TYPE_STOP_ALL });
+  }
+
+  const totals = {
+    [FIELD_TIMESTAMP]: endTime,
+    2: startTime,
+    7: elapsedTime * 1000,
+    8: timerTime * 1000,
+    9: (activity.distance ?? cumulativeDistance) * 100,
+    11: activity.calories,
+  };
+
+  writer.define(3, MESG_LAP, [
+    { num: FIELD_TIMESTAMP, size: 4, baseType: UINT32 },
+    { num: 0, size: 1, baseType: ENUM }, // event
+    { num: 1, size: 1, baseType: ENUM }, // event_type
+    { num: 2, size: 4, baseType: UINT32 }, // start_time
+    { num: 7, size: 4, baseType: UINT32 }, // total_elapsed_time
+    { num: 8, size: 4, baseType: UINT32 }, // total_timer_time
+    { num: 9, size: 4, baseType: UINT32 }, // total_distance
+    { num: 11, size: 2, baseType: UINT16 }, // total_calories
+  ]);
+  // event 9 = lap
+  writer.write(3, { ...totals, 0: 9, 1: EVENT_TYPE_STOP });
+
+  writer.define(4, MESG_SESSION, [
+    { num: FIELD_TIMESTAMP, size: 4, baseType: UINT32 },
+    { num: 0, size: 1, baseType: ENUM }, // event
+    { num: 1, size: 1, baseType: ENUM }, // event_type
+    { num: 2, size: 4, baseType: UINT32 }, // start_time
+    { num: 5, size: 1, baseType: ENUM }, // sport
+    { num: 7, size: 4, baseType: UINT32 }, // total_elapsed_time
+    { num: 8, size: 4, baseType: UINT32 }, // total_timer_time
+    { num: 9, size: 4, baseType: UINT32 }, // total_distance
+    { num: 11, size: 2, baseType: UINT16 }, // total_calories
+    { num: 16, size: 1, baseType: UINT8 }, // avg_heart_rate
+    { num: 17, size: 1, baseType: UINT8 }, // max_heart_rate
+    { num: 22, size: 2, baseType: UINT16 }, // total_ascent
+    { num: 25, size: 2, baseType: UINT16 }, // first_lap_index
+    { num: 26, size: 2, baseType: UINT16 }, // num_laps
+    { num: 44, size: 2, baseType: UINT16 }, // pool_length
+  ]);
+  // event 8 = session
+  writer.write(4, {
+    ...totals,
+    0: 8,
+    1: EVENT_TYPE_STOP,
+    5: SPORT_TO_FIT[activity.sport],
+    16: activity.averageHeartRate,
+    17: activity.maxHeartRate,
+    22: activity.elevationGain,
+    25: 0,
+    26: 1,
+    44: activity.swim?.poolLength !== undefined ? activity.swim.poolLength * 100 : undefined,
+  });
+
+  writer.define(5, MESG_ACTIVITY, [
+    { num: FIELD_TIMESTAMP, size: 4, baseType: UINT32 },
+    { num: 0, size: 4, baseType: UINT32 }, // total_timer_time
+    { num: 1, size: 2, baseType: UINT16 }, // num_sessions
+    { num: 2, size: 1, baseType: ENUM }, // type
+    { num: 3, size: 1, baseType: ENUM }, // event
+    { num: 4, size: 1, baseType: ENUM }, // event_type
+  ]);
+  // type 0 = manual, event 26 = activity
+  writer.write(5, { [FIELD_TIMESTAMP]: endTime, 0: timerTime * 1000, 1: 1, 2: 0, 3: 26, 4: EVENT_TYPE_STOP });
+
+  return writer.toFile();
+};
@@ -0,0 +1,217 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { Food, MicronutrientKey, Micronutrients } from '@/types';
+import { useFoodStore } from '@/store/foodStore';
+import { foodProducts } from '@/mocks/foodProducts';
+import { fuzzySearch } from './fuzzySearch';
+
+// Local barcode database: the bundled products plus an optional downloaded
+// Open Food Facts export, with foods saved in foodStore taking precedence.
+
+// One product as it appears in an Open Food Facts export
+export interface OpenFoodFactsProduct {
+  code: string;
+  product_name?: string;
+  brands?: string;
+  serving_size?: string;
+  serving_quantity?: number | string;
+  image_url?: string;
+  nutriments?: {
+    'energy-kcal_100g'?: number;
+    proteins_100g?: number;
+    carbohydrates_100g?: number;
+    fat_100g?: number;
+    fiber_100g?: number;
+    sugars_100g?: number;
+    sodium_100g?: number; // grams
+    'saturated-fat_100g'?: number;
+    // Minerals and vitamins are in grams too
+    potassium_100g?: number;
+    calcium_100g?: number;
+    iron_100g?: number;
+    magnesium_100g?: number;
+    zinc_100g?: number;
+    'vitamin-a_100g'?: number;
+    'vitamin-c_100g'?: number;
+    'vitamin-d_100g'?: number;
+    'vitamin-b12_100g'?: number;
+    folates_100g?: number;
+  };
+}
+
+export interface FoodDatabaseDownloadResult {
+  success: boolean;
+  count?: number;
+  error?: string;
+}
+
+const DATABASE_FILE = `${FileSystem.documentDirectory}food-database.json`;
+
+export const FOOD_DATABASE_URL = process.env.EXPO_PUBLIC_FOOD_DATABASE_URL;
+
+let databaseFoods: Food[] | null = null;
+let barcodeIndex: Map<string, Food> | null = null;
+
+/**
+ * Barcodes as stored in the index. UPC-A codes are EAN-13 codes with a
+ * leading zero, so both spellings map to the same key.
+ */
+export const normalizeBarcode = (code: string): string => {
+  const digits = code.replace(/\D/g, '');
+  return digits.length === 12 ? `0${digits}` : digits;
+};
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// Open Food Facts nutriment and the factor from grams to the unit used in the app
+const MICRONUTRIENT_FIELDS: [MicronutrientKey, keyof NonNullable<OpenFoodFactsProduct['nutriments']>, number][] = [
+  ['saturatedFat', 'saturated-fat_100g', 1],
+  ['potassium', 'potassium_100g', 1000],
+  ['calcium', 'calcium_100g', 1000],
+  ['iron', 'iron_100g', 1000],
+  ['magnesium', 'magnesium_100g', 1000],
+  ['zinc', 'zinc_100g', 1000],
+  ['vitaminA', 'vitamin-a_100g', 1000000],
+  ['vitaminC', 'vitamin-c_100g', 1000],
+  ['vitaminD', 'vitamin-d_100g', 1000000],
+  ['vitaminB12', 'vitamin-b12_100g', 1000000],
+  ['folate', 'folates_100g', 1000000],
+];
+
+/**
+ * A Food with per-serving values, or per 100g when the product has no
+ * serving size. Products without a name or calories are skipped.
+ */
+export const productToFood = (product: OpenFoodFactsProduct): Food | null => {
+  const nutriments = product.nutriments || {};
+  const calories = nutriments['energy-kcal_100g'];
+  if (!product.code || !product.product_name || calories === undefined) return null;
+
+  const servingGrams = parseFloat(String(product.serving_quantity ?? ''));
+  const factor = servingGrams > 0 ? servingGrams / 100 : 1;
+
+  const micronutrients: Micronutrients = {};
+  MICRONUTRIENT_FIELDS.forEach(([key, field, unitFactor]) => {
+    const value = nutriments[field];
+    if (typeof value === 'number') micronutrients[key] = round(value * unitFactor * factor);
+  });
+
+  return {
+    id: `off-${normalizeBarcode(product.code)}`,
+    name: product.product_name,
+    brand: product.brands?.split(',')[0].trim() || undefined,
+    barcode: normalizeBarcode(product.code),
+    calories: Math.round(calories * factor),
+    protein: round((nutriments.proteins_100g || 0) * factor),
+    carbs: round((nutriments.carbohydrates_100g || 0) * factor),
+    fat: round((nutriments.fat_100g || 0) * factor),
+    fiber: nutriments.fiber_100g !== undefined ? round(nutriments.fiber_100g * factor) : undefined,
+    sugar: nutriments.sugars_100g !== undefined ? round(nutriments.sugars_100g * factor) : undefined,
+    sodium: nutriments.sodium_100g !== undefined ? Math.round(nutriments.sodium_100g * 1000 * factor) : undefined,
+    servingSize: servingGrams > 0 ? product.serving_size || `${servingGrams}g` : '100g',
+    image: product.image_url,
+    micronutrients: Object.keys(micronutrients).length > 0 ? micronutrients : undefined,
+  };
+};
+
+// Accepts a JSON array, `{ products: [...] }` as returned by the search API, or JSON lines
+const parseProducts = (text: string): OpenFoodFactsProduct[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{"products"')) {
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed : parsed.products || [];
+  }
+  return trimmed
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return null;
+      }
+    })
+    .filter(Boolean);
+};
+
+const readDownloadedFoods = async (): Promise<Food[]> => {
+  if (Platform.OS === 'web') return [];
+  try {
+    const info = await FileSystem.getInfoAsync(DATABASE_FILE);
+    if (!info.exists) return [];
+    return JSON.parse(await FileSystem.readAsStringAsync(DATABASE_FILE));
+  } catch (error) {
+    console.error('[FoodDatabase] Error reading downloaded database:', error);
+    return [];
+  }
+};
+
+/**
+ * All database foods, loaded once. Downloaded products replace bundled ones
+ * with the same barcode.
+ */
+export const loadFoodDatabase = async (): Promise<Food[]> => {
+  if (databaseFoods) return databaseFoods;
+
+  const index = new Map<string, Food>();
+  foodProducts
+    .map(productToFood)
+    .forEach(food => food && index.set(food.barcode!, food));
+  (await readDownloadedFoods()).forEach(food => food.barcode && index.set(food.barcode, food));
+
+  barcodeIndex = index;
+  databaseFoods = Array.from(index.values());
+  return databaseFoods;
+};
+
+/**
+ * Saved foods first, then the local database
+ */
+export const lookupBarcode = async (code: string): Promise<Food | null> => {
+  const barcode = normalizeBarcode(code);
+  const saved = useFoodStore.getState().getFoodByBarcode(barcode);
+  if (saved) return saved;
+
+  await loadFoodDatabase();
+  return barcodeIndex?.get(barcode) || null;
+};
+
+export const searchFoodDatabase = async (query: string, limit: number = 20): Promise<Food[]> => {
+  const saved = useFoodStore.getState().searchFoods(query);
+  const savedBarcodes = new Set(saved.map(food => food.barcode).filter(Boolean));
+  const matches = fuzzySearch(
+    (await loadFoodDatabase()).filter(food => !savedBarcodes.has(food.barcode)),
+    query,
+    food => [food.name, food.brand],
+    limit
+  );
+  return [...saved, ...matches].slice(0, limit);
+};
+
+/**
+ * Downloads an Open Food Facts export and keeps the usable products on the
+ * device, so lookups keep working offline
+ */
+export const downloadFoodDatabase = async (url: string | undefined = FOOD_DATABASE_URL): Promise<FoodDatabaseDownloadResult> => {
+  if (!url) return { success: false, error: 'No food database URL configured' };
+  if (Platform.OS === 'web') return { success: false, error: 'Downloading the food database is not supported on web' };
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return { success: false, error: `Download failed (${response.status})` };
+
+    const foods = parseProducts(await response.text())
+      .map(productToFood)
+      .filter((food): food is Food => !!food);
+    if (foods.length === 0) return { success: false, error: 'The download contained no usable products' };
+
+    await FileSystem.writeAsStringAsync(DATABASE_FILE, JSON.stringify(foods));
+    databaseFoods = null;
+    barcodeIndex = null;
+    await loadFoodDatabase();
+    return { success: true, count: foods.length };
+  } catch (error) {
+    console.error('[FoodDatabase] Error downloading database:', error);
+    return { success: false, error: 'Could not download the food database' };
+  }
+};
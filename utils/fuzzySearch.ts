@@ -0,0 +1,95 @@
+// Typo-tolerant search over short texts such as food names
+
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const tokenize = (text: string): string[] => normalizeSearchText(text).split(' ').filter(Boolean);
+
+/**
+ * Levenshtein distance, giving up once it is certain to exceed `max`
+ */
+const boundedEditDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Exact words beat prefixes, prefixes beat substrings, and typos count least
+const scoreToken = (query: string, words: string[]): number => {
+  // Short tokens are too ambiguous for typo matching
+  const maxTypos = query.length >= 7 ? 2 : query.length >= 4 ? 1 : 0;
+  let best = 0;
+  for (const word of words) {
+    if (word === query) return 3;
+    if (word.startsWith(query)) best = Math.max(best, 2);
+    else if (word.includes(query)) best = Math.max(best, 1.5);
+    else if (maxTypos > 0 && best < 1 && (
+      boundedEditDistance(query, word, maxTypos) <= maxTypos ||
+      boundedEditDistance(query, word.slice(0, query.length), maxTypos) <= maxTypos
+    )) best = 1;
+  }
+  return best;
+};
+
+// Tokens per item, so repeated searches over a large list don't re-tokenize it
+const tokenCache = new WeakMap<object, string[]>();
+
+/**
+ * Items where every query word matches one of the item's words, best first.
+ * `getText` returns the searchable texts of an item, most important first.
+ */
+export const fuzzySearch = <T extends object>(
+  items: T[],
+  query: string,
+  getText: (item: T) => (string | undefined)[],
+  limit?: number
+): T[] => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return limit ? items.slice(0, limit) : items;
+  const normalizedQuery = queryTokens.join(' ');
+
+  const results: { item: T; score: number; length: number }[] = [];
+  for (const item of items) {
+    let words = tokenCache.get(item);
+    if (!words) {
+      words = getText(item).filter((text): text is string => !!text).flatMap(tokenize);
+      tokenCache.set(item, words);
+    }
+
+    let score = 0;
+    for (const token of queryTokens) {
+      const tokenScore = scoreToken(token, words);
+      if (tokenScore === 0) {
+        score = 0;
+        break;
+      }
+      score += tokenScore;
+    }
+    if (score === 0) continue;
+
+    const primary = normalizeSearchText(getText(item)[0] || '');
+    if (primary.startsWith(normalizedQuery)) score += 2;
+    results.push({ item, score, length: primary.length });
+  }
+
+  results.sort((a, b) => b.score - a.score || a.length - b.length);
+  const sorted = results.map(result => result.item);
+  return limit ? sorted.slice(0, limit) : sorted;
+};
@@ -0,0 +1,283 @@
+import { ActivityLog, HeartRateSample, UserProfile, WorkoutLog } from "@/types";
+import { getRoutePoints } from "@/utils/routeMath";
+
+// Samples further apart than this are treated as a gap in the recording
+const MAX_SAMPLE_GAP = 60; // seconds
+const DEFAULT_RESTING_HEART_RATE = 60;
+const ACUTE_DAYS = 7;
+const CHRONIC_DAYS = 28;
+
+export interface HeartRateZone {
+  zone: number; // 1-5
+  name: string;
+  // Fraction of heart-rate reserve where the zone starts and ends
+  minIntensity: number;
+  maxIntensity: number;
+  minBpm: number;
+  maxBpm: number;
+  color: string;
+}
+
+export interface TimeInZone {
+  zone: number;
+  name: string;
+  color: string;
+  seconds: number;
+  percentage: number;
+}
+
+export interface HeartRateAnalysis {
+  zones: TimeInZone[];
+  avgBpm: number;
+  maxBpm: number;
+  minBpm: number;
+  trimp: number;
+  // Seconds covered by samples, excluding gaps
+  recordedSeconds: number;
+}
+
+export type TrainingLoadStatus = "insufficient_data" | "detraining" | "optimal" | "overreaching" | "high_risk";
+
+export interface TrainingLoadSummary {
+  acuteLoad: number; // average daily TRIMP over the last 7 days
+  chronicLoad: number; // average daily TRIMP over the last 28 days
+  ratio: number | null; // acute:chronic workload ratio
+  status: TrainingLoadStatus;
+  // True when recent load is well above what the user is used to
+  needsRecovery: boolean;
+}
+
+const ZONE_DEFINITIONS = [
+  { zone: 1, name: "Recovery", minIntensity: 0.5, maxIntensity: 0.6, color: "#8E9AAF" },
+  { zone: 2, name: "Endurance", minIntensity: 0.6, maxIntensity: 0.7, color: "#4A90E2" },
+  { zone: 3, name: "Tempo", minIntensity: 0.7, maxIntensity: 0.8, color: "#50C878" },
+  { zone: 4, name: "Threshold", minIntensity: 0.8, maxIntensity: 0.9, color: "#FF9500" },
+  { zone: 5, name: "Maximum", minIntensity: 0.9, maxIntensity: 1.0, color: "#DC3545" },
+];
+
+/**
+ * Max heart rate from the profile, otherwise estimated from age (Tanaka formula)
+ */
+export const getMaxHeartRate = (profile: Partial<UserProfile>): number => {
+  if (profile.maxHeartRate && profile.maxHeartRate > 0) return profile.maxHeartRate;
+  const age = profile.age && profile.age > 0 ? profile.age : 30;
+  return Math.round(208 - 0.7 * age);
+};
+
+export const getRestingHeartRate = (profile: Partial<UserProfile>): number => {
+  if (profile.restingHeartRate && profile.restingHeartRate > 0) return profile.restingHeartRate;
+  return DEFAULT_RESTING_HEART_RATE;
+};
+
+/**
+ * Zone boundaries in bpm using the Karvonen (heart-rate reserve) method
+ */
+export const getHeartRateZones = (profile: Partial<UserProfile>): HeartRateZone[] => {
+  const maxHr = getMaxHeartRate(profile);
+  const restingHr = getRestingHeartRate(profile);
+  const reserve = Math.max(maxHr - restingHr, 1);
+
+  return ZONE_DEFINITIONS.map(definition => ({
+    ...definition,
+    minBpm: Math.round(restingHr + reserve * definition.minIntensity),
+    maxBpm: Math.round(restingHr + reserve * definition.maxIntensity),
+  }));
+};
+
+/**
+ * Zone number for a heart rate, 0 when below zone 1
+ */
+export const getZoneForHeartRate = (bpm: number, zones: HeartRateZone[]): number => {
+  for (let i = zones.length - 1; i >= 0; i--) {
+    if (bpm >= zones[i].minBpm) return zones[i].zone;
+  }
+  return 0;
+};
+
+// Fraction of heart-rate reserve, clamped to 0-1
+const getIntensity = (bpm: number, restingHr: number, maxHr: number): number => {
+  return Math.min(Math.max((bpm - restingHr) / Math.max(maxHr - restingHr, 1), 0), 1);
+};
+
+// Banister's TRIMP weighting; the constants differ by sex
+const getTrimpWeight = (intensity: number, gender?: UserProfile["gender"]): number => {
+  return gender === "female"
+    ? 0.86 * Math.exp(1.67 * intensity)
+    : 0.64 * Math.exp(1.92 * intensity);
+};
+
+/**
+ * Time-in-zone and TRIMP training load for a series of heart-rate samples
+ */
+export const analyzeHeartRate = (
+  samples: HeartRateSample[],
+  profile: Partial<UserProfile>
+): HeartRateAnalysis | null => {
+  const sorted = samples
+    .filter(sample => sample.bpm > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length === 0) return null;
+
+  const maxHr = getMaxHeartRate(profile);
+  const restingHr = getRestingHeartRate(profile);
+  const zones = getHeartRateZones(profile);
+  const secondsInZone = new Array(zones.length).fill(0);
+
+  let recordedSeconds = 0;
+  let trimp = 0;
+
+  // Each sample holds until the next one, unless the gap is too long
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const seconds = (sorted[i + 1].timestamp - sorted[i].timestamp) / 1000;
+    if (seconds <= 0 || seconds > MAX_SAMPLE_GAP) continue;
+
+    const bpm = sorted[i].bpm;
+    const zone = getZoneForHeartRate(bpm, zones);
+    if (zone > 0) secondsInZone[zone - 1] += seconds;
+
+    const intensity = getIntensity(bpm, restingHr, maxHr);
+    trimp += (seconds / 60) * intensity * getTrimpWeight(intensity, profile.gender);
+    recordedSeconds += seconds;
+  }
+
+  const bpms = sorted.map(sample => sample.bpm);
+
+  return {
+    zones: zones.map((zone, index) => ({
+      zone: zone.zone,
+      name: zone.name,
+      color: zone.color,
+      seconds: Math.round(secondsInZone[index]),
+      percentage: recordedSeconds > 0 ? (secondsInZone[index] / recordedSeconds) * 100 : 0,
+    })),
+    avgBpm: Math.round(bpms.reduce((sum, bpm) => sum + bpm, 0) / bpms.length),
+    maxBpm: bpms.reduce((max, bpm) => Math.max(max, bpm), 0),
+    minBpm: bpms.reduce((min, bpm) => Math.min(min, bpm), Infinity),
+    trimp: Math.round(trimp),
+    recordedSeconds: Math.round(recordedSeconds),
+  };
+};
+
+/**
+ * TRIMP from an average heart rate when no samples were recorded
+ */
+export const estimateTrimpFromAverage = (
+  avgBpm: number,
+  durationMinutes: number,
+  profile: Partial<UserProfile>
+): number => {
+  if (avgBpm <= 0 || durationMinutes <= 0) return 0;
+  const intensity = getIntensity(avgBpm, getRestingHeartRate(profile), getMaxHeartRate(profile));
+  return Math.round(durationMinutes * intensity * getTrimpWeight(intensity, profile.gender));
+};
+
+export const getWorkoutHeartRateSamples = (log: WorkoutLog): HeartRateSample[] => {
+  return log.exercises
+    .flatMap(exercise => exercise.sets.flatMap(set => set.heartRateSamples || []))
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Samples stored on the activity, or the heart rate recorded along its route
+ */
+export const getActivityHeartRateSamples = (log: ActivityLog): HeartRateSample[] => {
+  if (log.heartRateSamples && log.heartRateSamples.length > 0) {
+    return log.heartRateSamples;
+  }
+  return getRoutePoints(log.route)
+    .filter(point => point.heartRate !== undefined && point.heartRate > 0)
+    .map(point => ({ timestamp: point.timestamp, bpm: point.heartRate as number }));
+};
+
+export const getWorkoutTrainingLoad = (log: WorkoutLog, profile: Partial<UserProfile>): number => {
+  const analysis = analyzeHeartRate(getWorkoutHeartRateSamples(log), profile);
+  if (analysis) return analysis.trimp;
+  return log.heartRate ? estimateTrimpFromAverage(log.heartRate.avg, log.duration, profile) : 0;
+};
+
+export const getActivityTrainingLoad = (log: ActivityLog, profile: Partial<UserProfile>): number => {
+  const analysis = analyzeHeartRate(getActivityHeartRateSamples(log), profile);
+  if (analysis) return analysis.trimp;
+  return log.heartRate ? estimateTrimpFromAverage(log.heartRate.avg, log.duration, profile) : 0;
+};
+
+/**
+ * Acute (7-day) vs chronic (28-day) training load from every workout and
+ * activity with heart-rate data. A ratio of 0.8-1.3 is the usual sweet spot;
+ * above 1.5 the risk of overtraining and injury rises sharply.
+ */
+export const calculateTrainingLoad = (
+  workoutLogs: WorkoutLog[],
+  activityLogs: ActivityLog[],
+  profile: Partial<UserProfile>,
+  referenceDate: Date = new Date()
+): TrainingLoadSummary => {
+  const end = referenceDate.getTime();
+  const acuteStart = end - ACUTE_DAYS * 24 * 60 * 60 * 1000;
+  const chronicStart = end - CHRONIC_DAYS * 24 * 60 * 60 * 1000;
+
+  let acuteTotal = 0;
+  let chronicTotal = 0;
+  let earliestLoad = end;
+
+  const addLoad = (date: string, load: number) => {
+    const time = new Date(date).getTime();
+    if (load <= 0 || isNaN(time) || time > end || time < chronicStart) return;
+    chronicTotal += load;
+    if (time >= acuteStart) acuteTotal += load;
+    earliestLoad = Math.min(earliestLoad, time);
+  };
+
+  workoutLogs.forEach(log => addLoad(log.date, getWorkoutTrainingLoad(log, profile)));
+  activityLogs.forEach(log => addLoad(log.date, getActivityTrainingLoad(log, profile)));
+
+  const acuteLoad = acuteTotal / ACUTE_DAYS;
+  const chronicLoad = chronicTotal / CHRONIC_DAYS;
+
+  // The ratio means little until there are a couple of weeks of history
+  const historyDays = (end - earliestLoad) / (24 * 60 * 60 * 1000);
+  if (chronicLoad === 0 || historyDays < 14) {
+    return {
+      acuteLoad: Math.round(acuteLoad),
+      chronicLoad: Math.round(chronicLoad),
+      ratio: null,
+      status: "insufficient_data",
+      needsRecovery: false,
+    };
+  }
+
+  const ratio = acuteLoad / chronicLoad;
+  let status: TrainingLoadStatus = "optimal";
+  if (ratio < 0.8) status = "detraining";
+  else if (ratio > 1.5) status = "high_risk";
+  else if (ratio > 1.3) status = "overreaching";
+
+  return {
+    acuteLoad: Math.round(acuteLoad),
+    chronicLoad: Math.round(chronicLoad),
+    ratio: Math.round(ratio * 100) / 100,
+    status,
+    needsRecovery: status === "overreaching" || status === "high_risk",
+  };
+};
+
+export const getTrainingLoadLabel = (status: TrainingLoadStatus): string => {
+  switch (status) {
+    case "detraining":
+      return "Below your usual load";
+    case "optimal":
+      return "Optimal";
+    case "overreaching":
+      return "Overreaching - consider a recovery day";
+    case "high_risk":
+      return "Very high - recovery recommended";
+    default:
+      return "Not enough heart rate data yet";
+  }
+};
+
+export const formatZoneDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remaining = Math.round(seconds % 60);
+  return `${minutes}:${remaining.toString().padStart(2, "0")}`;
+};
@@ -0,0 +1,189 @@
+import { MacroGoals, MealRecommendation, MealSlot, ScheduledMeal } from '@/types';
+import { mealRecommendations } from '@/mocks/meals';
+
+// Builds a week of meals whose daily totals come as close as possible to the
+// macro goals, using only meals that meet every selected dietary restriction.
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+const SLOT_TIMES: Record<MealSlot, string> = {
+  breakfast: '08:00',
+  lunch: '12:30',
+  snack: '15:30',
+  dinner: '18:30',
+};
+
+// How much missing each target costs; calories matter most
+const MACRO_WEIGHTS: Record<keyof MacroGoals, number> = {
+  calories: 2,
+  protein: 1.5,
+  carbs: 1,
+  fat: 1,
+};
+
+// Cost per earlier use of the same meal this week, and for repeating it within a day
+const REPEAT_PENALTY = 0.05;
+const SAME_DAY_PENALTY = 0.5;
+
+// Improvement passes over a day's slots before settling on the best found
+const MAX_PASSES = 5;
+
+export interface GenerateMealPlanOptions {
+  weekStart: Date;
+  goals: MacroGoals;
+  restrictions?: string[];
+  // Meals already eaten stay in their slots and count towards the day
+  locked?: ScheduledMeal[];
+  meals?: MealRecommendation[];
+}
+
+/**
+ * YYYY-MM-DD in local time
+ */
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Monday of the week containing the date
+ */
+export const getWeekStart = (date: Date = new Date()): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+export const getWeekDates = (weekStart: Date): Date[] =>
+  Array.from({ length: 7 }, (_, index) => {
+    const date = new Date(weekStart);
+    date.setDate(weekStart.getDate() + index);
+    return date;
+  });
+
+export const findPlanMeal = (mealId: string, meals: MealRecommendation[] = mealRecommendations): MealRecommendation | null =>
+  meals.find(meal => meal.id === mealId) || null;
+
+export const getPlanCandidates = (
+  restrictions: string[] = [],
+  meals: MealRecommendation[] = mealRecommendations
+): MealRecommendation[] =>
+  meals.filter(meal => restrictions.every(restriction => meal.dietaryRestrictions.includes(restriction)));
+
+const suitsSlot = (meal: MealRecommendation, slot: MealSlot): boolean =>
+  (meal.mealTypes || ['lunch', 'dinner']).includes(slot);
+
+const scoreDay = (dayMeals: MealRecommendation[], goals: MacroGoals, usage: Map<string, number>): number => {
+  let score = 0;
+  (Object.keys(MACRO_WEIGHTS) as (keyof MacroGoals)[]).forEach(macro => {
+    const actual = dayMeals.reduce((sum, meal) => sum + meal[macro], 0);
+    const target = goals[macro] || 1;
+    score += MACRO_WEIGHTS[macro] * ((actual - target) / target) ** 2;
+  });
+
+  const seen = new Set<string>();
+  dayMeals.forEach(meal => {
+    score += REPEAT_PENALTY * (usage.get(meal.id) || 0);
+    if (seen.has(meal.id)) score += SAME_DAY_PENALTY;
+    seen.add(meal.id);
+  });
+  return score;
+};
+
+/**
+ * Picks one option per slot by coordinate descent: start from each slot's
+ * first option, then swap in whichever option of a slot lowers the day's score,
+ * until a pass changes nothing or MAX_PASSES is reached. This finds a good
+ * day in slots × options work per pass rather than trying every combination.
+ */
+const chooseDayMeals = (
+  options: (MealRecommendation | null)[][],
+  goals: MacroGoals,
+  usage: Map<string, number>
+): (MealRecommendation | null)[] => {
+  const scoreChoice = (chosen: (MealRecommendation | null)[]) =>
+    scoreDay(chosen.filter((meal): meal is MealRecommendation => !!meal), goals, usage);
+
+  const chosen = options.map(slotOptions => slotOptions[0]);
+  let bestScore = scoreChoice(chosen);
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    options.forEach((slotOptions, slotIndex) => {
+      slotOptions.forEach(meal => {
+        if (meal === chosen[slotIndex]) return;
+        const candidate = [...chosen];
+        candidate[slotIndex] = meal;
+        const score = scoreChoice(candidate);
+        if (score < bestScore) {
+          bestScore = score;
+          chosen[slotIndex] = meal;
+          improved = true;
+        }
+      });
+    });
+    if (!improved) break;
+  }
+
+  return chosen;
+};
+
+/**
+ * The planned meals for every slot of the week that isn't locked. Slots with
+ * no suitable meal are left empty; the snack is only added when it helps.
+ */
+export const generateMealPlan = ({
+  weekStart,
+  goals,
+  restrictions = [],
+  locked = [],
+  meals = mealRecommendations,
+}: GenerateMealPlanOptions): ScheduledMeal[] => {
+  const candidates = getPlanCandidates(restrictions, meals);
+  const usage = new Map<string, number>();
+  const plan: ScheduledMeal[] = [];
+
+  getWeekDates(weekStart).forEach(date => {
+    const dateKey = toDateKey(date);
+    const lockedToday = locked.filter(entry => entry.date === dateKey);
+
+    // Each slot is either fixed by a locked meal or chosen from its candidates
+    const options = MEAL_SLOTS.map(slot => {
+      const lockedEntry = lockedToday.find(entry => entry.mealType === slot);
+      if (lockedEntry) return [findPlanMeal(lockedEntry.mealId, meals)];
+      const slotMeals: (MealRecommendation | null)[] = candidates.filter(meal => suitsSlot(meal, slot));
+      return slot === 'snack' || slotMeals.length === 0 ? [null, ...slotMeals] : slotMeals;
+    });
+
+    const best = chooseDayMeals(options, goals, usage);
+
+    best.forEach((meal, slotIndex) => {
+      if (!meal) return;
+      usage.set(meal.id, (usage.get(meal.id) || 0) + 1);
+
+      const slot = MEAL_SLOTS[slotIndex];
+      if (lockedToday.some(entry => entry.mealType === slot)) return;
+      plan.push({
+        id: `plan-${dateKey}-${slot}`,
+        mealId: meal.id,
+        dayOfWeek: date.getDay(),
+        time: SLOT_TIMES[slot],
+        completed: false,
+        date: dateKey,
+        mealType: slot,
+      });
+    });
+  });
+
+  return plan;
+};
+
+/**
+ * Ingredient lines for the planned meals, one serving each
+ */
+export const getPlanIngredients = (
+  plannedMeals: ScheduledMeal[],
+  meals: MealRecommendation[] = mealRecommendations
+): string[] =>
+  plannedMeals.flatMap(entry => findPlanMeal(entry.mealId, meals)?.ingredients || []);
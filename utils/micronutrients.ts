@@ -0,0 +1,199 @@
+import { Food, MacroLog, MicronutrientKey, Micronutrients, UserProfile } from '@/types';
+
+// Daily targets follow the US Dietary Reference Intakes for adults and teens;
+// sugar and saturated fat are capped at 10% of the calorie goal.
+
+export interface MicronutrientInfo {
+  key: MicronutrientKey;
+  label: string;
+  unit: 'g' | 'mg' | 'µg';
+  // 'minimum' nutrients should reach the target, 'limit' ones stay under it
+  kind: 'minimum' | 'limit';
+}
+
+export const MICRONUTRIENTS: MicronutrientInfo[] = [
+  { key: 'fiber', label: 'Fiber', unit: 'g', kind: 'minimum' },
+  { key: 'sugar', label: 'Sugar', unit: 'g', kind: 'limit' },
+  { key: 'saturatedFat', label: 'Saturated Fat', unit: 'g', kind: 'limit' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', kind: 'limit' },
+  { key: 'potassium', label: 'Potassium', unit: 'mg', kind: 'minimum' },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', kind: 'minimum' },
+  { key: 'iron', label: 'Iron', unit: 'mg', kind: 'minimum' },
+  { key: 'magnesium', label: 'Magnesium', unit: 'mg', kind: 'minimum' },
+  { key: 'zinc', label: 'Zinc', unit: 'mg', kind: 'minimum' },
+  { key: 'vitaminA', label: 'Vitamin A', unit: 'µg', kind: 'minimum' },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', kind: 'minimum' },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'µg', kind: 'minimum' },
+  { key: 'vitaminB12', label: 'Vitamin B12', unit: 'µg', kind: 'minimum' },
+  { key: 'folate', label: 'Folate', unit: 'µg', kind: 'minimum' },
+];
+
+export interface MicronutrientTarget {
+  target: number;
+  // Tolerable upper intake, where one applies to food
+  upperLimit?: number;
+}
+
+export type MicronutrientTargets = Record<MicronutrientKey, MicronutrientTarget>;
+
+export type MicronutrientStatus = 'low' | 'ok' | 'high' | 'unknown';
+
+export interface MicronutrientReportEntry extends MicronutrientInfo, MicronutrientTarget {
+  average: number | null;
+  percent: number | null;
+  status: MicronutrientStatus;
+  daysWithData: number;
+}
+
+export interface MicronutrientReport {
+  daysLogged: number;
+  entries: MicronutrientReportEntry[];
+}
+
+// Average intake below this share of the target is flagged as low
+export const LOW_INTAKE_RATIO = 0.7;
+
+const targetsFor = (sex: 'male' | 'female', age: number, calorieGoal: number): MicronutrientTargets => {
+  const male = sex === 'male';
+  const teen = age < 19;
+
+  return {
+    fiber: { target: male ? (age > 50 ? 30 : 38) : (age > 50 ? 21 : 25) },
+    sugar: { target: Math.round((calorieGoal * 0.1) / 4) },
+    saturatedFat: { target: Math.round((calorieGoal * 0.1) / 9) },
+    sodium: { target: 2300 },
+    potassium: { target: male ? (teen ? 3000 : 3400) : (teen ? 2300 : 2600) },
+    calcium: {
+      target: teen ? 1300 : (male ? (age > 70 ? 1200 : 1000) : (age > 50 ? 1200 : 1000)),
+      upperLimit: teen ? 3000 : (age > 50 ? 2000 : 2500),
+    },
+    iron: {
+      target: male ? (teen ? 11 : 8) : (teen ? 15 : age > 50 ? 8 : 18),
+      upperLimit: 45,
+    },
+    magnesium: { target: male ? (teen ? 410 : age > 30 ? 420 : 400) : (teen ? 360 : age > 30 ? 320 : 310) },
+    zinc: { target: male ? 11 : (teen ? 9 : 8), upperLimit: teen ? 34 : 40 },
+    vitaminA: { target: male ? 900 : 700, upperLimit: teen ? 2800 : 3000 },
+    vitaminC: { target: male ? (teen ? 75 : 90) : (teen ? 65 : 75), upperLimit: teen ? 1800 : 2000 },
+    vitaminD: { target: age > 70 ? 20 : 15, upperLimit: 100 },
+    vitaminB12: { target: 2.4 },
+    folate: { target: 400 },
+  };
+};
+
+/**
+ * Daily targets for the user's age and gender. Profiles with another gender
+ * get the midpoint of the male and female values.
+ */
+export const getMicronutrientTargets = (profile: UserProfile, calorieGoal: number = 2000): MicronutrientTargets => {
+  const age = profile.age || 30;
+  if (profile.gender === 'male' || profile.gender === 'female') {
+    return targetsFor(profile.gender, age, calorieGoal);
+  }
+
+  const male = targetsFor('male', age, calorieGoal);
+  const female = targetsFor('female', age, calorieGoal);
+  const midpoint = (a?: number, b?: number) => (a === undefined || b === undefined ? undefined : (a + b) / 2);
+  return MICRONUTRIENTS.reduce((targets, { key }) => {
+    targets[key] = {
+      target: midpoint(male[key].target, female[key].target)!,
+      upperLimit: midpoint(male[key].upperLimit, female[key].upperLimit),
+    };
+    return targets;
+  }, {} as MicronutrientTargets);
+};
+
+/**
+ * Fiber, sugar and sodium from the food's own fields plus any other micronutrients
+ */
+export const getFoodMicronutrients = (food: Food): Micronutrients => ({
+  fiber: food.fiber,
+  sugar: food.sugar,
+  sodium: food.sodium,
+  ...food.micronutrients,
+});
+
+export const scaleMicronutrients = (micronutrients: Micronutrients, factor: number): Micronutrients => {
+  const scaled: Micronutrients = {};
+  (Object.keys(micronutrients) as MicronutrientKey[]).forEach(key => {
+    const value = micronutrients[key];
+    if (value !== undefined) scaled[key] = value * factor;
+  });
+  return scaled;
+};
+
+/**
+ * Sum of the known values; a nutrient missing from every item stays missing
+ */
+export const sumMicronutrients = (items: (Micronutrients | undefined)[]): Micronutrients => {
+  const total: Micronutrients = {};
+  items.forEach(item => {
+    if (!item) return;
+    (Object.keys(item) as MicronutrientKey[]).forEach(key => {
+      const value = item[key];
+      if (value !== undefined) total[key] = (total[key] || 0) + value;
+    });
+  });
+  return total;
+};
+
+export const roundMicronutrients = (micronutrients: Micronutrients): Micronutrients => {
+  const rounded: Micronutrients = {};
+  (Object.keys(micronutrients) as MicronutrientKey[]).forEach(key => {
+    const value = micronutrients[key]!;
+    rounded[key] = Math.round(value * 10) / 10;
+  });
+  return rounded;
+};
+
+const getStatus = (info: MicronutrientInfo, target: MicronutrientTarget, average: number | null): MicronutrientStatus => {
+  if (average === null) return 'unknown';
+  if (info.kind === 'limit') return average > target.target ? 'high' : 'ok';
+  if (target.upperLimit !== undefined && average > target.upperLimit) return 'high';
+  return average < target.target * LOW_INTAKE_RATIO ? 'low' : 'ok';
+};
+
+/**
+ * Average daily intake over the days before `endDate` that have logs, compared
+ * with the targets. Each nutrient is averaged over the days where at least one
+ * log recorded it, since most manual entries only have macros.
+ */
+export const getMicronutrientReport = (
+  logs: MacroLog[],
+  targets: MicronutrientTargets,
+  endDate: Date = new Date(),
+  days: number = 7
+): MicronutrientReport => {
+  const startDate = new Date(endDate);
+  startDate.setDate(endDate.getDate() - days);
+
+  const byDay = new Map<string, Micronutrients[]>();
+  logs.forEach(log => {
+    const date = new Date(log.date);
+    if (date < startDate || date > endDate) return;
+    const day = date.toDateString();
+    byDay.set(day, [...(byDay.get(day) || []), log.micronutrients || {}]);
+  });
+  const dailyTotals = Array.from(byDay.values()).map(sumMicronutrients);
+
+  const entries = MICRONUTRIENTS.map(info => {
+    const values = dailyTotals
+      .map(totals => totals[info.key])
+      .filter((value): value is number => value !== undefined);
+    const average = values.length > 0
+      ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+      : null;
+    const target = targets[info.key];
+
+    return {
+      ...info,
+      ...target,
+      average,
+      percent: average === null || !target.target ? null : Math.round((average / target.target) * 100),
+      status: getStatus(info, target, average),
+      daysWithData: values.length,
+    };
+  });
+
+  return { daysLogged: byDay.size, entries };
+};
@@ -1,4 +1,5 @@
-import { FoodItem, Meal, MacroLog } from '../types';
+import { FoodItem, Meal, MacroLog, Micronutrients, Recipe, RecipeIngredient } from '../types';
+import { getFoodMicronutrients, roundMicronutrients, scaleMicronutrients, sumMicronutrients } from './micronutrients';
 
 export interface NutritionTotals {
   calories: number;
@@ -53,6 +54,123 @@ export const calculateNutritionFromLogs = (logs: MacroLog[]): NutritionTotals =>
   }), { calories: 0, protein: 0, carbs: 0, fat: 0 });
 };
 
+export interface NutritionFacts extends NutritionTotals {
+  micronutrients: Micronutrients;
+}
+
+export type RecipePortionUnit = 'serving' | 'g';
+
+export interface RecipeNutrition {
+  total: NutritionFacts;
+  perServing: NutritionFacts;
+  rawWeight: number;
+  cookedWeight: number;
+  gramsPerServing: number;
+}
+
+const roundFacts = (facts: NutritionFacts): NutritionFacts => ({
+  calories: Math.round(facts.calories),
+  protein: Math.round(facts.protein * 10) / 10,
+  carbs: Math.round(facts.carbs * 10) / 10,
+  fat: Math.round(facts.fat * 10) / 10,
+  micronutrients: roundMicronutrients(facts.micronutrients),
+});
+
+/**
+ * Grams in a serving size such as "100g", "1 cup (28 g)" or "330 ml".
+ * Millilitres are counted as grams; null when the size has no weight.
+ */
+export const parseServingGrams = (servingSize: string): number | null => {
+  const match = servingSize.match(/(\d+(?:\.\d+)?)\s*(g|ml|oz)\b/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2].toLowerCase() === 'oz' ? value * 28.35 : value;
+};
+
+/**
+ * Raw weight of an ingredient in grams, or null when it is measured in
+ * servings of a food without a known serving weight
+ */
+export const getIngredientRawGrams = (ingredient: RecipeIngredient): number | null => {
+  if (ingredient.unit === 'serving') {
+    const servingGrams = parseServingGrams(ingredient.food.servingSize);
+    return servingGrams === null ? null : ingredient.amount * servingGrams;
+  }
+  return ingredient.amount / (ingredient.cookedYield || 1);
+};
+
+export const calculateIngredientNutrition = (ingredient: RecipeIngredient): NutritionFacts => {
+  const { food } = ingredient;
+  let servings = ingredient.amount;
+  if (ingredient.unit === 'g') {
+    // Foods without a serving weight are assumed to be per 100g, like database entries
+    const servingGrams = parseServingGrams(food.servingSize) || 100;
+    servings = (getIngredientRawGrams(ingredient) || 0) / servingGrams;
+  }
+
+  return {
+    calories: food.calories * servings,
+    protein: food.protein * servings,
+    carbs: food.carbs * servings,
+    fat: food.fat * servings,
+    micronutrients: scaleMicronutrients(getFoodMicronutrients(food), servings),
+  };
+};
+
+export const scaleNutritionFacts = (facts: NutritionFacts, factor: number): NutritionFacts => ({
+  calories: facts.calories * factor,
+  protein: facts.protein * factor,
+  carbs: facts.carbs * factor,
+  fat: facts.fat * factor,
+  micronutrients: scaleMicronutrients(facts.micronutrients, factor),
+});
+
+/**
+ * Nutrition for the whole batch and per serving. Cooking changes the weight
+ * but not the nutrients, so the cooked weight only affects grams per serving.
+ */
+export const calculateRecipeNutrition = (recipe: Recipe): RecipeNutrition => {
+  const ingredientFacts = recipe.ingredients.map(calculateIngredientNutrition);
+  const total: NutritionFacts = {
+    calories: ingredientFacts.reduce((sum, facts) => sum + facts.calories, 0),
+    protein: ingredientFacts.reduce((sum, facts) => sum + facts.protein, 0),
+    carbs: ingredientFacts.reduce((sum, facts) => sum + facts.carbs, 0),
+    fat: ingredientFacts.reduce((sum, facts) => sum + facts.fat, 0),
+    micronutrients: sumMicronutrients(ingredientFacts.map(facts => facts.micronutrients)),
+  };
+
+  const rawWeight = recipe.ingredients.reduce(
+    (sum, ingredient) => sum + (getIngredientRawGrams(ingredient) || 0),
+    0
+  );
+  const cookedWeight = recipe.cookedWeight || rawWeight;
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+
+  return {
+    total: roundFacts(total),
+    perServing: roundFacts(scaleNutritionFacts(total, 1 / servings)),
+    rawWeight: Math.round(rawWeight),
+    cookedWeight: Math.round(cookedWeight),
+    gramsPerServing: Math.round(cookedWeight / servings),
+  };
+};
+
+/**
+ * Nutrition for a portion of a recipe, in servings or grams of the finished dish
+ */
+export const calculateRecipePortion = (
+  recipe: Recipe,
+  amount: number,
+  unit: RecipePortionUnit
+): NutritionFacts => {
+  const { total, cookedWeight } = calculateRecipeNutrition(recipe);
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  const fraction = unit === 'serving'
+    ? amount / servings
+    : cookedWeight > 0 ? amount / cookedWeight : 0;
+  return roundFacts(scaleNutritionFacts(total, fraction));
+};
+
 /**
  * Calculate nutrition for a user (main function used in meal detail screen)
  */
@@ -0,0 +1,308 @@
+import {
+  Exercise,
+  ExerciseLog,
+  PlannedSet,
+  ProgramEnrollment,
+  ProgramSessionRef,
+  ProgramDay,
+  ProgramWeek,
+  ScheduledWorkout,
+  TrainingProgram,
+  Workout,
+  WorkoutLog,
+  WorkoutSet,
+} from "@/types";
+import { exercises as exerciseLibrary } from "@/mocks/exercises";
+import { calculateOneRepMax } from "./strength";
+
+const PLATE_INCREMENT = 2.5; // kg
+const DEFAULT_REST_TIME = 90; // seconds
+const DEFAULT_SESSION_DURATION = 60; // minutes
+
+export interface ProgramWeekEntry {
+  phaseIndex: number;
+  weekIndex: number; // within the phase
+  absoluteWeek: number; // 0-based across the whole program
+  phaseName: string;
+  week: ProgramWeek;
+}
+
+export const roundToIncrement = (weight: number, increment: number = PLATE_INCREMENT): number => {
+  return Math.round(weight / increment) * increment;
+};
+
+/**
+ * Epley estimate of a one-rep max from a set
+ */
+export const estimateOneRepMax = (weight: number, reps: number): number => {
+  return calculateOneRepMax(weight, reps, "epley");
+};
+
+/**
+ * Weight for a set of `reps` at a target RPE. RPE 10 means no reps left in
+ * reserve, so the set is treated as reps + (10 - RPE) to failure.
+ */
+export const weightForRpe = (oneRepMax: number, reps: number, rpe: number): number => {
+  const repsToFailure = reps + Math.max(10 - rpe, 0);
+  return oneRepMax / (1 + repsToFailure / 30);
+};
+
+/**
+ * Best estimated one-rep max for each exercise from completed workout history
+ */
+export const estimateOneRepMaxesFromHistory = (
+  workoutLogs: WorkoutLog[],
+  exerciseIds: string[]
+): Record<string, number> => {
+  const maxes: Record<string, number> = {};
+
+  workoutLogs.forEach(log => {
+    log.exercises.forEach(exercise => {
+      if (!exerciseIds.includes(exercise.exerciseId)) return;
+      exercise.sets.forEach(set => {
+        if (!set.completed) return;
+        const estimate = estimateOneRepMax(set.weight, set.reps);
+        if (estimate > (maxes[exercise.exerciseId] || 0)) {
+          maxes[exercise.exerciseId] = roundToIncrement(estimate);
+        }
+      });
+    });
+  });
+
+  return maxes;
+};
+
+export const getProgramWeeks = (program: TrainingProgram): ProgramWeekEntry[] => {
+  const weeks: ProgramWeekEntry[] = [];
+  program.phases.forEach((phase, phaseIndex) => {
+    phase.weeks.forEach((week, weekIndex) => {
+      weeks.push({ phaseIndex, weekIndex, absoluteWeek: weeks.length, phaseName: phase.name, week });
+    });
+  });
+  return weeks;
+};
+
+export const getProgramSessionCount = (program: TrainingProgram): number => {
+  return getProgramWeeks(program).reduce((sum, entry) => sum + entry.week.days.length, 0);
+};
+
+export const getProgramDay = (program: TrainingProgram, ref: ProgramSessionRef): ProgramDay | null => {
+  return program.phases[ref.phaseIndex]?.weeks[ref.weekIndex]?.days[ref.dayIndex] || null;
+};
+
+/**
+ * Id of the workout template shared by every week's instance of a program day
+ */
+export const getProgramWorkoutId = (program: TrainingProgram, day: ProgramDay): string => {
+  return `${program.id}-${day.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+};
+
+/**
+ * Workout templates for each distinct day of a program, so program sessions
+ * can be scheduled, started and browsed like any other workout
+ */
+export const buildProgramWorkouts = (program: TrainingProgram): Workout[] => {
+  const templates = new Map<string, Workout>();
+
+  getProgramWeeks(program).forEach(({ week }) => {
+    week.days.forEach(day => {
+      const id = getProgramWorkoutId(program, day);
+      if (templates.has(id)) return;
+
+      const exerciseIds = Array.from(new Set(day.exercises.map(exercise => exercise.exerciseId)));
+      const libraryExercises = exerciseIds
+        .map(exerciseId => exerciseLibrary.find(exercise => exercise.id === exerciseId))
+        .filter((exercise): exercise is Exercise => !!exercise);
+      const caloriesPerMinute = libraryExercises.length > 0
+        ? libraryExercises.reduce((sum, exercise) => sum + exercise.caloriesPerMinute, 0) / libraryExercises.length
+        : 0;
+      const now = new Date();
+
+      // Category and intensity aren't on the Workout type but the workout filters read them
+      const template: Workout & { category: string; intensity: string; estimatedDuration: number } = {
+        id,
+        name: day.name,
+        description: `Part of the ${program.name} program`,
+        exercises: libraryExercises,
+        duration: DEFAULT_SESSION_DURATION,
+        estimatedDuration: DEFAULT_SESSION_DURATION,
+        difficulty: program.difficulty,
+        category: "Strength",
+        intensity: "high",
+        muscleGroups: Array.from(new Set(libraryExercises.flatMap(exercise => exercise.muscleGroups))),
+        equipment: Array.from(new Set(libraryExercises.flatMap(exercise => exercise.equipment))),
+        calories: Math.round(caloriesPerMinute * DEFAULT_SESSION_DURATION),
+        createdAt: now,
+        updatedAt: now,
+      };
+      templates.set(id, template);
+    });
+  });
+
+  return Array.from(templates.values());
+};
+
+/**
+ * Target weight for a planned set, or undefined when the lift has no known max
+ */
+export const getPlannedWeight = (
+  set: PlannedSet,
+  exerciseId: string,
+  program: TrainingProgram,
+  enrollment: ProgramEnrollment
+): number | undefined => {
+  const oneRepMax = enrollment.oneRepMaxes[exerciseId];
+  if (!oneRepMax || oneRepMax <= 0) return undefined;
+
+  if (set.percent1RM !== undefined) {
+    const trainingMax = oneRepMax * (program.trainingMaxPercent ?? 1);
+    return roundToIncrement(trainingMax * set.percent1RM);
+  }
+  if (set.rpe !== undefined) {
+    return roundToIncrement(weightForRpe(oneRepMax, set.reps, set.rpe));
+  }
+  return undefined;
+};
+
+/**
+ * Exercise logs for a program session with every planned set pre-filled
+ */
+export const buildSessionExerciseLogs = (
+  program: TrainingProgram,
+  enrollment: ProgramEnrollment,
+  ref: ProgramSessionRef
+): ExerciseLog[] | null => {
+  const day = getProgramDay(program, ref);
+  if (!day) return null;
+
+  // The same lift can appear twice (main and supplemental work); keep one log per exercise
+  const logs = new Map<string, ExerciseLog>();
+
+  day.exercises.forEach(planned => {
+    const sets: WorkoutSet[] = planned.sets.map(plannedSet => {
+      const weight = getPlannedWeight(plannedSet, planned.exerciseId, program, enrollment);
+      return {
+        id: Date.now().toString() + Math.random().toString(),
+        reps: plannedSet.reps,
+        weight: weight || 0,
+        duration: 0,
+        restTime: plannedSet.restTime || DEFAULT_REST_TIME,
+        completed: false,
+        target: {
+          reps: plannedSet.reps,
+          weight,
+          percent1RM: plannedSet.percent1RM,
+          rpe: plannedSet.rpe,
+          amrap: plannedSet.amrap,
+        },
+      };
+    });
+
+    const existing = logs.get(planned.exerciseId);
+    if (existing) {
+      existing.sets.push(...sets);
+      if (planned.notes) {
+        existing.notes = [existing.notes, planned.notes].filter(Boolean).join("\n");
+      }
+    } else {
+      logs.set(planned.exerciseId, {
+        id: Date.now().toString() + Math.random().toString(),
+        exerciseId: planned.exerciseId,
+        sets,
+        notes: planned.notes || "",
+      });
+    }
+  });
+
+  return Array.from(logs.values());
+};
+
+/**
+ * Lay out every session of a program on the calendar. Each program week maps
+ * to one calendar week from the start date, and its days fill the chosen
+ * training days in order.
+ */
+export const expandProgramSchedule = (
+  program: TrainingProgram,
+  enrollment: ProgramEnrollment
+): ScheduledWorkout[] => {
+  const trainingDays = [...enrollment.trainingDays].sort((a, b) => a - b);
+  if (trainingDays.length === 0) return [];
+
+  const start = new Date(enrollment.startDate);
+  start.setHours(0, 0, 0, 0);
+  const scheduled: ScheduledWorkout[] = [];
+
+  getProgramWeeks(program).forEach(({ phaseIndex, weekIndex, absoluteWeek, week }) => {
+    // Training dates in the 7 days starting at this week's offset
+    const dates: Date[] = [];
+    for (let offset = 0; offset < 7; offset++) {
+      const date = new Date(start);
+      date.setDate(start.getDate() + absoluteWeek * 7 + offset);
+      if (trainingDays.includes(date.getDay())) dates.push(date);
+    }
+
+    week.days.forEach((day, dayIndex) => {
+      const date = dates[dayIndex];
+      if (!date) return;
+
+      scheduled.push({
+        id: `${enrollment.id}-${phaseIndex}-${weekIndex}-${dayIndex}`,
+        workoutId: getProgramWorkoutId(program, day),
+        workoutName: `${day.name} (${week.name})`,
+        dayOfWeek: date.getDay(),
+        time: enrollment.time,
+        duration: DEFAULT_SESSION_DURATION,
+        completed: false,
+        scheduleType: "one-time",
+        scheduledDate: date.toISOString(),
+        programSession: {
+          enrollmentId: enrollment.id,
+          programId: program.id,
+          phaseIndex,
+          weekIndex,
+          dayIndex,
+        },
+      });
+    });
+  });
+
+  return scheduled;
+};
+
+/**
+ * The program session for a workout that should be started now: the earliest
+ * outstanding session for that workout that is due today or overdue
+ */
+export const findDueProgramSession = (
+  scheduledWorkouts: ScheduledWorkout[],
+  workoutId: string,
+  now: Date = new Date()
+): ScheduledWorkout | null => {
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+
+  return scheduledWorkouts
+    .filter(sw =>
+      sw.programSession &&
+      !sw.completed &&
+      sw.workoutId === workoutId &&
+      sw.scheduledDate &&
+      new Date(sw.scheduledDate) <= endOfToday
+    )
+    .sort((a, b) => new Date(a.scheduledDate as string).getTime() - new Date(b.scheduledDate as string).getTime())[0] || null;
+};
+
+/**
+ * Short description of a set target, e.g. "85% × 5+" or "8 @ RPE 8"
+ */
+export const formatSetTarget = (target: NonNullable<WorkoutSet["target"]>): string => {
+  const reps = `${target.reps}${target.amrap ? "+" : ""}`;
+  if (target.percent1RM !== undefined) {
+    return `${Math.round(target.percent1RM * 100)}%×${reps}`;
+  }
+  if (target.rpe !== undefined) {
+    return `${reps} @${target.rpe}`;
+  }
+  return `×${reps}`;
+};
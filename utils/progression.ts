@@ -0,0 +1,266 @@
+import { Exercise, ProgressionRule, ProgressionRuleType, WorkoutLog, WorkoutSet } from "@/types";
+import { estimateOneRepMax, roundToIncrement, weightForRpe } from "./programUtils";
+import { isWorkingSet } from "./setTypes";
+
+const DEFAULT_TARGET_RPE = 8;
+const DEFAULT_DELOAD_PERCENT = 0.1;
+const DEFAULT_STALL_SESSIONS = 3;
+
+export type ProgressionAction = "first_time" | "increase_weight" | "increase_reps" | "hold" | "deload";
+
+export interface ProgressionSuggestion {
+  weight: number;
+  reps: number;
+  rpe?: number;
+  action: ProgressionAction;
+  reason: string;
+  stalled: boolean;
+}
+
+// The working sets of one exercise in one past session
+export interface ExerciseSession {
+  date: string;
+  sets: WorkoutSet[];
+  topWeight: number;
+  // Fewest reps done at the top weight, i.e. whether every top set hit the target
+  repsAtTopWeight: number;
+  totalRepsAtTopWeight: number;
+  bestEstimatedMax: number;
+  topSetRpe?: number;
+}
+
+export const PROGRESSION_RULE_LABELS: Record<ProgressionRuleType, string> = {
+  linear: "Linear",
+  double_progression: "Double progression",
+  rpe: "RPE based",
+};
+
+/**
+ * Sensible starting rule for an exercise: linear progression for barbell
+ * lifts, a rep range for everything else
+ */
+export const getDefaultProgressionRule = (exercise?: Exercise): ProgressionRule => {
+  const equipment = exercise?.equipment || [];
+
+  if (equipment.includes("Barbell") || equipment.includes("Smith Machine")) {
+    return {
+      type: "linear",
+      increment: 2.5,
+      minReps: 5,
+      maxReps: 5,
+      deloadPercent: DEFAULT_DELOAD_PERCENT,
+      stallSessions: DEFAULT_STALL_SESSIONS,
+    };
+  }
+
+  const isBodyweight = equipment.length > 0 && equipment.every(item =>
+    ["Bodyweight", "Pull-up Bar", "Bench", "Resistance Band"].includes(item)
+  );
+
+  return {
+    type: "double_progression",
+    increment: isBodyweight ? 0 : equipment.includes("Dumbbell") ? 2 : 2.5,
+    minReps: 8,
+    maxReps: isBodyweight ? 20 : 12,
+    deloadPercent: DEFAULT_DELOAD_PERCENT,
+    stallSessions: DEFAULT_STALL_SESSIONS,
+  };
+};
+
+export const getDefaultRuleForType = (type: ProgressionRuleType, current: ProgressionRule): ProgressionRule => {
+  switch (type) {
+    case "linear":
+      return { ...current, type, maxReps: current.minReps };
+    case "double_progression":
+      return { ...current, type, maxReps: Math.max(current.maxReps, current.minReps + 4) };
+    case "rpe":
+      return { ...current, type, targetRpe: current.targetRpe || DEFAULT_TARGET_RPE };
+  }
+};
+
+/**
+ * Completed sets of an exercise in each past workout, most recent first
+ */
+export const getExerciseSessions = (workoutLogs: WorkoutLog[], exerciseId: string): ExerciseSession[] => {
+  return workoutLogs
+    .filter(log => log.completed)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .map((log): ExerciseSession | null => {
+      const sets = log.exercises
+        .filter(exercise => exercise.exerciseId === exerciseId)
+        .flatMap(exercise => exercise.sets)
+        .filter(set => set.completed && set.reps > 0 && isWorkingSet(set));
+      if (sets.length === 0) return null;
+
+      const topWeight = Math.max(...sets.map(set => set.weight));
+      const topSets = sets.filter(set => set.weight === topWeight);
+      const topSetRpe = topSets.reduce<number | undefined>((rpe, set) => {
+        const setRpe = set.rpe ?? set.target?.rpe;
+        return setRpe !== undefined ? Math.max(rpe ?? 0, setRpe) : rpe;
+      }, undefined);
+
+      return {
+        date: log.date,
+        sets,
+        topWeight,
+        repsAtTopWeight: Math.min(...topSets.map(set => set.reps)),
+        totalRepsAtTopWeight: topSets.reduce((sum, set) => sum + set.reps, 0),
+        bestEstimatedMax: Math.max(...sets.map(set => estimateOneRepMax(set.weight, set.reps))),
+        topSetRpe,
+      };
+    })
+    .filter((session): session is ExerciseSession => session !== null);
+};
+
+/**
+ * Index of the most recent session lifted well below the one before it, i.e.
+ * a deload, or -1 when there wasn't one. A drop of half the deload percent
+ * counts, since the deload weight is rounded to the plate increment.
+ */
+export const findLastDeload = (sessions: ExerciseSession[], deloadPercent: number = DEFAULT_DELOAD_PERCENT): number => {
+  return sessions.findIndex((session, index) => {
+    const previous = sessions[index + 1];
+    return !!previous && previous.topWeight > 0 &&
+      session.topWeight <= previous.topWeight * (1 - deloadPercent / 2);
+  });
+};
+
+/**
+ * A lift has stalled when none of the last `stallSessions` sessions beat the
+ * session before them, by estimated max or by reps at the same weight.
+ * Sessions before the last deload don't count, so the lighter sessions that
+ * follow a deload aren't judged against the pre-deload top set.
+ */
+export const detectStall = (
+  sessions: ExerciseSession[],
+  stallSessions: number,
+  deloadPercent: number = DEFAULT_DELOAD_PERCENT
+): boolean => {
+  const lastDeload = findLastDeload(sessions, deloadPercent);
+  const window = lastDeload === -1 ? sessions : sessions.slice(0, lastDeload + 1);
+  if (stallSessions <= 0 || window.length <= stallSessions) return false;
+
+  const baseline = window[stallSessions];
+  return window.slice(0, stallSessions).every(session =>
+    session.bestEstimatedMax <= baseline.bestEstimatedMax &&
+    !(session.topWeight === baseline.topWeight && session.totalRepsAtTopWeight > baseline.totalRepsAtTopWeight)
+  );
+};
+
+const suggestLinear = (last: ExerciseSession, rule: ProgressionRule): ProgressionSuggestion => {
+  if (last.repsAtTopWeight >= rule.minReps) {
+    return {
+      weight: last.topWeight + rule.increment,
+      reps: rule.minReps,
+      action: "increase_weight",
+      reason: `All sets hit ${rule.minReps} reps last time, add ${rule.increment}kg`,
+      stalled: false,
+    };
+  }
+  return {
+    weight: last.topWeight,
+    reps: rule.minReps,
+    action: "hold",
+    reason: `Repeat ${last.topWeight}kg until every set hits ${rule.minReps} reps`,
+    stalled: false,
+  };
+};
+
+const suggestDoubleProgression = (last: ExerciseSession, rule: ProgressionRule): ProgressionSuggestion => {
+  if (last.repsAtTopWeight >= rule.maxReps && rule.increment > 0) {
+    return {
+      weight: last.topWeight + rule.increment,
+      reps: rule.minReps,
+      action: "increase_weight",
+      reason: `Reached ${rule.maxReps} reps on every set, add ${rule.increment}kg and drop to ${rule.minReps}`,
+      stalled: false,
+    };
+  }
+
+  // Without a weight to add (e.g. bodyweight moves) keep adding reps
+  const reps = rule.increment > 0
+    ? Math.min(Math.max(last.repsAtTopWeight + 1, rule.minReps), rule.maxReps)
+    : Math.max(last.repsAtTopWeight + 1, rule.minReps);
+  return {
+    weight: last.topWeight,
+    reps,
+    action: "increase_reps",
+    reason: `Aim for ${reps} reps on every set before adding weight`,
+    stalled: false,
+  };
+};
+
+const suggestRpe = (last: ExerciseSession, rule: ProgressionRule): ProgressionSuggestion => {
+  const targetRpe = rule.targetRpe || DEFAULT_TARGET_RPE;
+
+  if (last.topSetRpe === undefined) {
+    return {
+      weight: last.topWeight,
+      reps: rule.minReps,
+      rpe: targetRpe,
+      action: "hold",
+      reason: "Log the RPE of your sets to get load suggestions",
+      stalled: false,
+    };
+  }
+
+  // Reps left in reserve on the top set tell us what the lifter could really do
+  const estimatedMax = estimateOneRepMax(last.topWeight, last.repsAtTopWeight + Math.max(10 - last.topSetRpe, 0));
+  const weight = roundToIncrement(weightForRpe(estimatedMax, rule.minReps, targetRpe), rule.increment || undefined);
+
+  return {
+    weight,
+    reps: rule.minReps,
+    rpe: targetRpe,
+    action: weight > last.topWeight ? "increase_weight" : "hold",
+    reason: `Last top set felt like RPE ${last.topSetRpe}; ${weight}kg should be about RPE ${targetRpe}`,
+    stalled: false,
+  };
+};
+
+/**
+ * Weight and reps to aim for next time, based on the exercise's history and
+ * progression rule. Stalled lifts get a deload instead.
+ */
+export const suggestNextSession = (
+  sessions: ExerciseSession[],
+  rule: ProgressionRule
+): ProgressionSuggestion => {
+  const last = sessions[0];
+  if (!last) {
+    return {
+      weight: 0,
+      reps: rule.minReps,
+      rpe: rule.type === "rpe" ? rule.targetRpe || DEFAULT_TARGET_RPE : undefined,
+      action: "first_time",
+      reason: "First time - pick a weight you can lift with good form",
+      stalled: false,
+    };
+  }
+
+  if (last.topWeight > 0 && detectStall(sessions, rule.stallSessions, rule.deloadPercent)) {
+    const weight = roundToIncrement(last.topWeight * (1 - rule.deloadPercent), rule.increment || undefined);
+    return {
+      weight,
+      reps: rule.minReps,
+      rpe: rule.type === "rpe" ? rule.targetRpe || DEFAULT_TARGET_RPE : undefined,
+      action: "deload",
+      reason: `No progress in ${rule.stallSessions} sessions - deload to ${weight}kg and build back up`,
+      stalled: true,
+    };
+  }
+
+  switch (rule.type) {
+    case "linear":
+      return suggestLinear(last, rule);
+    case "rpe":
+      return suggestRpe(last, rule);
+    default:
+      return suggestDoubleProgression(last, rule);
+  }
+};
+
+export const formatSuggestion = (suggestion: ProgressionSuggestion): string => {
+  const load = suggestion.weight > 0 ? `${suggestion.weight}kg × ${suggestion.reps}` : `${suggestion.reps} reps`;
+  return suggestion.rpe !== undefined ? `${load} @ RPE ${suggestion.rpe}` : load;
+};
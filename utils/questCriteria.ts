@@ -0,0 +1,289 @@
+export type QuestMetric =
+  | "workouts"
+  | "workout_minutes"
+  | "steps"
+  | "water"
+  | "protein"
+  | "calories"
+  | "meals_logged";
+
+// at_most quests can only be judged once their period is over
+export type QuestComparator = "at_least" | "at_most";
+
+export type QuestUnit = "count" | "minutes" | "steps" | "ml" | "g" | "kcal";
+
+export type QuestTier = "daily" | "weekly" | "monthly";
+
+export interface QuestCriteria {
+  metric: QuestMetric;
+  comparator: QuestComparator;
+  target: number;
+  unit: QuestUnit;
+}
+
+// Everything quest progress is measured against, gathered from the other stores
+export interface QuestActivity {
+  workouts: { date: string; duration: number }[];
+  steps: { date: string; steps: number }[];
+  // Water entries are typed with Date but persisted as strings
+  water: { date: string | Date; amount: number }[];
+  meals: { date: string; calories: number; protein: number }[];
+}
+
+// Average per day over the baseline window, for days with anything logged
+export type QuestBaselines = Partial<Record<QuestMetric, number>>;
+
+export interface QuestTemplate {
+  id: string;
+  tier: QuestTier;
+  metric: QuestMetric;
+  comparator: QuestComparator;
+  title: string;
+  category: "workout" | "steps" | "nutrition";
+  points: number;
+}
+
+export const QUEST_BASELINE_DAYS = 14;
+export const QUEST_REROLL_TOKENS_MAX = 3;
+
+export const QUEST_METRIC_UNITS: Record<QuestMetric, QuestUnit> = {
+  workouts: "count",
+  workout_minutes: "minutes",
+  steps: "steps",
+  water: "ml",
+  protein: "g",
+  calories: "kcal",
+  meals_logged: "count",
+};
+
+// How many quests of each tier are handed out; the remaining templates are the reroll pool
+export const QUESTS_PER_TIER: Record<QuestTier, number> = {
+  daily: 4,
+  weekly: 2,
+  monthly: 2,
+};
+
+export const QUEST_TEMPLATES: QuestTemplate[] = [
+  { id: "daily-workout", tier: "daily", metric: "workouts", comparator: "at_least", title: "Daily Workout", category: "workout", points: 20 },
+  { id: "daily-steps", tier: "daily", metric: "steps", comparator: "at_least", title: "Step Goal", category: "steps", points: 15 },
+  { id: "daily-water", tier: "daily", metric: "water", comparator: "at_least", title: "Stay Hydrated", category: "nutrition", points: 10 },
+  { id: "daily-protein", tier: "daily", metric: "protein", comparator: "at_least", title: "Protein Goal", category: "nutrition", points: 15 },
+  { id: "daily-minutes", tier: "daily", metric: "workout_minutes", comparator: "at_least", title: "Active Minutes", category: "workout", points: 15 },
+  { id: "daily-meals", tier: "daily", metric: "meals_logged", comparator: "at_least", title: "Meal Logger", category: "nutrition", points: 10 },
+  { id: "daily-calories", tier: "daily", metric: "calories", comparator: "at_most", title: "Calorie Control", category: "nutrition", points: 15 },
+  { id: "weekly-workouts", tier: "weekly", metric: "workouts", comparator: "at_least", title: "Weekly Workouts", category: "workout", points: 60 },
+  { id: "weekly-steps", tier: "weekly", metric: "steps", comparator: "at_least", title: "Weekly Steps", category: "steps", points: 50 },
+  { id: "weekly-minutes", tier: "weekly", metric: "workout_minutes", comparator: "at_least", title: "Weekly Active Minutes", category: "workout", points: 50 },
+  { id: "weekly-water", tier: "weekly", metric: "water", comparator: "at_least", title: "Hydration Week", category: "nutrition", points: 40 },
+  { id: "monthly-workouts", tier: "monthly", metric: "workouts", comparator: "at_least", title: "Monthly Workouts", category: "workout", points: 200 },
+  { id: "monthly-steps", tier: "monthly", metric: "steps", comparator: "at_least", title: "Monthly Steps", category: "steps", points: 150 },
+  { id: "monthly-minutes", tier: "monthly", metric: "workout_minutes", comparator: "at_least", title: "Monthly Active Minutes", category: "workout", points: 150 },
+];
+
+// Used until there is enough history for a baseline
+const DEFAULT_BASELINES: Record<"beginner" | "intermediate" | "advanced", Record<QuestMetric, number>> = {
+  beginner: { workouts: 0.3, workout_minutes: 10, steps: 5000, water: 1500, protein: 60, calories: 2000, meals_logged: 3 },
+  intermediate: { workouts: 0.5, workout_minutes: 20, steps: 8000, water: 2000, protein: 100, calories: 2000, meals_logged: 3 },
+  advanced: { workouts: 0.7, workout_minutes: 30, steps: 10000, water: 2500, protein: 140, calories: 2200, meals_logged: 4 },
+};
+
+// Quests ask for a bit more than the baseline; fitter users get a steeper push
+const TARGET_MULTIPLIERS = { beginner: 1, intermediate: 1.1, advanced: 1.2 };
+
+const TARGET_STEPS: Record<QuestMetric, number> = {
+  workouts: 1,
+  workout_minutes: 5,
+  steps: 500,
+  water: 250,
+  protein: 5,
+  calories: 50,
+  meals_logged: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Start and end (exclusive) of the period a quest of this tier covers. Weeks
+ * start on Monday and months on the 1st.
+ */
+export const getQuestPeriod = (tier: QuestTier, now: Date = new Date()): { start: Date; end: Date } => {
+  const today = startOfDay(now);
+  switch (tier) {
+    case "weekly": {
+      const start = new Date(today);
+      start.setDate(today.getDate() - ((today.getDay() + 6) % 7));
+      const end = new Date(start);
+      end.setDate(start.getDate() + 7);
+      return { start, end };
+    }
+    case "monthly":
+      return {
+        start: new Date(today.getFullYear(), today.getMonth(), 1),
+        end: new Date(today.getFullYear(), today.getMonth() + 1, 1),
+      };
+    default: {
+      const end = new Date(today);
+      end.setDate(today.getDate() + 1);
+      return { start: today, end };
+    }
+  }
+};
+
+const isBetween = (date: string | Date, start: Date, end: Date): boolean => {
+  const time = new Date(date).getTime();
+  return time >= start.getTime() && time < end.getTime();
+};
+
+export const measureQuestMetric = (metric: QuestMetric, activity: QuestActivity, start: Date, end: Date): number => {
+  switch (metric) {
+    case "workouts":
+      return activity.workouts.filter(w => isBetween(w.date, start, end)).length;
+    case "workout_minutes":
+      return activity.workouts
+        .filter(w => isBetween(w.date, start, end))
+        .reduce((total, w) => total + (w.duration || 0), 0);
+    case "steps":
+      return activity.steps
+        .filter(log => isBetween(log.date, start, end))
+        .reduce((total, log) => total + log.steps, 0);
+    case "water":
+      return activity.water
+        .filter(entry => isBetween(entry.date, start, end))
+        .reduce((total, entry) => total + entry.amount, 0);
+    case "protein":
+      return activity.meals
+        .filter(meal => isBetween(meal.date, start, end))
+        .reduce((total, meal) => total + meal.protein, 0);
+    case "calories":
+      return activity.meals
+        .filter(meal => isBetween(meal.date, start, end))
+        .reduce((total, meal) => total + meal.calories, 0);
+    case "meals_logged":
+      return activity.meals.filter(meal => isBetween(meal.date, start, end)).length;
+  }
+};
+
+/**
+ * Daily averages over the last `days` full days. Only days with something
+ * logged for a metric count, so a new user is not handed zero targets.
+ */
+export const getQuestBaselines = (
+  activity: QuestActivity,
+  now: Date = new Date(),
+  days: number = QUEST_BASELINE_DAYS
+): QuestBaselines => {
+  const baselines: QuestBaselines = {};
+  const today = startOfDay(now);
+
+  (Object.keys(QUEST_METRIC_UNITS) as QuestMetric[]).forEach(metric => {
+    const totals: number[] = [];
+    for (let offset = 1; offset <= days; offset++) {
+      const start = new Date(today.getTime() - offset * DAY_MS);
+      const end = new Date(start.getTime() + DAY_MS);
+      totals.push(measureQuestMetric(metric, activity, start, end));
+    }
+
+    // Workouts are averaged over the whole window since rest days are normal
+    const counted = metric === "workouts" ? totals : totals.filter(total => total > 0);
+    const sum = counted.reduce((total, value) => total + value, 0);
+    if (sum > 0) {
+      baselines[metric] = sum / counted.length;
+    }
+  });
+
+  return baselines;
+};
+
+export interface QuestGenerationContext {
+  baselines: QuestBaselines;
+  fitnessLevel: "beginner" | "intermediate" | "advanced";
+  // Nutrition goals win over baselines when set
+  goals: { protein?: number; calories?: number };
+  now?: Date;
+}
+
+const roundTarget = (value: number, metric: QuestMetric): number => {
+  const step = TARGET_STEPS[metric];
+  return Math.max(step, Math.round(value / step) * step);
+};
+
+export const getQuestTarget = (template: QuestTemplate, context: QuestGenerationContext): number => {
+  const now = context.now || new Date();
+  const { start, end } = getQuestPeriod(template.tier, now);
+  const periodDays = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+  const daily = context.baselines[template.metric] ?? DEFAULT_BASELINES[context.fitnessLevel][template.metric];
+
+  if (template.metric === "protein" && context.goals.protein) {
+    return roundTarget(context.goals.protein * periodDays, template.metric);
+  }
+  if (template.metric === "calories") {
+    // Staying under is the challenge, so no multiplier on top of the goal
+    return roundTarget((context.goals.calories || daily) * periodDays, template.metric);
+  }
+  if (template.metric === "workouts") {
+    // At most one workout a day
+    const target = Math.round(daily * periodDays * TARGET_MULTIPLIERS[context.fitnessLevel]);
+    return Math.min(Math.max(target, 1), periodDays);
+  }
+
+  return roundTarget(daily * periodDays * TARGET_MULTIPLIERS[context.fitnessLevel], template.metric);
+};
+
+const formatAmount = (value: number, unit: QuestUnit): string => {
+  if (unit === "ml" && value >= 1000) return `${Math.round(value / 100) / 10}L`;
+  return `${value.toLocaleString()}${unit === "ml" ? "ml" : unit === "g" ? "g" : ""}`;
+};
+
+export const describeQuestCriteria = (criteria: QuestCriteria, tier: QuestTier): string => {
+  const period = tier === "weekly" ? "this week" : tier === "monthly" ? "this month" : "today";
+  const amount = formatAmount(criteria.target, criteria.unit);
+
+  switch (criteria.metric) {
+    case "workouts":
+      return `Complete ${amount} workout${criteria.target === 1 ? "" : "s"} ${period}`;
+    case "workout_minutes":
+      return `Train for ${amount} minutes ${period}`;
+    case "steps":
+      return `Walk ${amount} steps ${period}`;
+    case "water":
+      return `Drink ${amount} of water ${period}`;
+    case "protein":
+      return `Eat at least ${amount} of protein ${period}`;
+    case "calories":
+      return `Stay under ${amount} kcal ${period}`;
+    case "meals_logged":
+      return `Log ${amount} meal${criteria.target === 1 ? "" : "s"} ${period}`;
+  }
+};
+
+export const formatQuestProgress = (progress: number, criteria: QuestCriteria): string =>
+  `${formatAmount(Math.round(progress), criteria.unit)} / ${formatAmount(criteria.target, criteria.unit)}`;
+
+/**
+ * Whether a measured value satisfies the criteria. at_most quests need
+ * something logged and the period to be over, otherwise they would complete
+ * before the first meal.
+ */
+export const isQuestCriteriaMet = (criteria: QuestCriteria, value: number, periodOver: boolean): boolean => {
+  if (criteria.comparator === "at_most") {
+    return periodOver && value > 0 && value <= criteria.target;
+  }
+  return value >= criteria.target;
+};
+
+/**
+ * Templates for a tier, defaults first. `exclude` skips templates already in
+ * use, e.g. when rerolling.
+ */
+export const pickQuestTemplates = (tier: QuestTier, count: number, exclude: string[] = []): QuestTemplate[] =>
+  QUEST_TEMPLATES
+    .filter(template => template.tier === tier && !exclude.includes(template.id))
+    .slice(0, count);
+
+export const pickRerollTemplate = (tier: QuestTier, exclude: string[]): QuestTemplate | null => {
+  const pool = QUEST_TEMPLATES.filter(template => template.tier === tier && !exclude.includes(template.id));
+  if (pool.length === 0) return null;
+  return pool[Math.floor(Math.random() * pool.length)];
+};
@@ -0,0 +1,376 @@
+import { ActivityRoute, RoutePoint, RouteSplit } from '@/types';
+
+// Pure route math for recorded GPS tracks. Nothing in here touches
+// device APIs so it can be run against recorded fixtures.
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Points reported with worse accuracy than this are dropped while recording
+export const MAX_POINT_ACCURACY = 30; // meters
+// Anything faster than this between two fixes is treated as a GPS jump
+export const MAX_PLAUSIBLE_SPEED = 25; // m/s (90 km/h)
+
+export const AUTO_PAUSE_SPEED = 0.5; // m/s
+export const AUTO_PAUSE_WINDOW = 10; // seconds
+
+export interface PaceSegment {
+  coordinates: Array<{ latitude: number; longitude: number }>;
+  pace: number; // seconds per km
+  color: string;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in meters between two points
+ */
+export const haversineDistance = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const lat1 = toRadians(a.latitude);
+  const lat2 = toRadians(b.latitude);
+
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * True when the route is a recorded GPS track with at least one segment.
+ * Activities saved before tracks were recorded hold a named route
+ * ({ id, name }) without segments, so stored routes must pass this first.
+ */
+export const hasRouteSegments = (route: unknown): route is ActivityRoute =>
+  !!route && Array.isArray((route as ActivityRoute).segments) && (route as ActivityRoute).segments.length > 0;
+
+/**
+ * All points of a route in recording order
+ */
+export const getRoutePoints = (route: ActivityRoute | undefined | null): RoutePoint[] => {
+  if (!hasRouteSegments(route)) return [];
+  return route.segments.reduce<RoutePoint[]>((all, segment) => all.concat(segment), []);
+};
+
+/**
+ * Distance in meters along a list of points
+ */
+export const calculateSegmentDistance = (points: RoutePoint[]): number => {
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    distance += haversineDistance(points[i - 1], points[i]);
+  }
+  return distance;
+};
+
+/**
+ * Total distance in meters, ignoring the gaps between paused segments
+ */
+export const calculateRouteDistance = (route: ActivityRoute): number => {
+  return route.segments.reduce((total, segment) => total + calculateSegmentDistance(segment), 0);
+};
+
+/**
+ * Moving time in seconds (time spent paused is excluded)
+ */
+export const calculateMovingTime = (route: ActivityRoute): number => {
+  return route.segments.reduce((total, segment) => {
+    if (segment.length < 2) return total;
+    return total + (segment[segment.length - 1].timestamp - segment[0].timestamp) / 1000;
+  }, 0);
+};
+
+/**
+ * Pace in seconds per km. Returns 0 when there is no distance to divide by.
+ */
+export const calculatePace = (distanceMeters: number, seconds: number): number => {
+  if (distanceMeters <= 0 || seconds <= 0) return 0;
+  return seconds / (distanceMeters / 1000);
+};
+
+/**
+ * Format a pace in seconds per km as m:ss
+ */
+export const formatPace = (secondsPerKm: number): string => {
+  if (!secondsPerKm || !isFinite(secondsPerKm)) return '--:--';
+  const minutes = Math.floor(secondsPerKm / 60);
+  const seconds = Math.round(secondsPerKm % 60);
+  if (seconds === 60) {
+    return `${minutes + 1}:00`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Centered moving average over the altitude readings. Points without an
+ * altitude reuse the previous known value so gaps do not create fake climbs.
+ */
+export const smoothElevation = (points: RoutePoint[], windowSize: number = 5): number[] => {
+  const altitudes: number[] = [];
+  let lastKnown: number | undefined;
+
+  points.forEach(point => {
+    if (typeof point.altitude === 'number' && isFinite(point.altitude)) {
+      lastKnown = point.altitude;
+    }
+    altitudes.push(lastKnown ?? NaN);
+  });
+
+  // Back-fill leading points recorded before the first altitude fix
+  const firstKnown = altitudes.find(a => !isNaN(a));
+  if (firstKnown === undefined) return altitudes.map(() => 0);
+  for (let i = 0; i < altitudes.length && isNaN(altitudes[i]); i++) {
+    altitudes[i] = firstKnown;
+  }
+
+  const half = Math.floor(windowSize / 2);
+  return altitudes.map((_, i) => {
+    const start = Math.max(0, i - half);
+    const end = Math.min(altitudes.length, i + half + 1);
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += altitudes[j];
+    return sum / (end - start);
+  });
+};
+
+/**
+ * Total climb in meters. Uses a hysteresis threshold on the smoothed
+ * elevation so GPS altitude jitter is not counted as climbing.
+ */
+export const calculateElevationGain = (points: RoutePoint[], threshold: number = 2): number => {
+  if (points.length < 2) return 0;
+
+  const smoothed = smoothElevation(points);
+  let gain = 0;
+  let reference = smoothed[0];
+
+  for (let i = 1; i < smoothed.length; i++) {
+    const delta = smoothed[i] - reference;
+    if (delta >= threshold) {
+      gain += delta;
+      reference = smoothed[i];
+    } else if (delta <= -threshold) {
+      reference = smoothed[i];
+    }
+  }
+
+  return gain;
+};
+
+/**
+ * Total climb across all segments of a route
+ */
+export const calculateRouteElevationGain = (route: ActivityRoute): number => {
+  return route.segments.reduce((total, segment) => total + calculateElevationGain(segment), 0);
+};
+
+/**
+ * Split the route into fixed-distance splits (per km by default). Split
+ * boundaries are interpolated between the two fixes that straddle them.
+ */
+export const calculateSplits = (route: ActivityRoute, splitDistance: number = 1000): RouteSplit[] => {
+  const splits: RouteSplit[] = [];
+  let splitMeters = 0;
+  let splitSeconds = 0;
+  let splitClimb = 0;
+
+  const pushSplit = (distance: number, duration: number, climb: number) => {
+    splits.push({
+      index: splits.length + 1,
+      distance,
+      duration,
+      pace: calculatePace(distance, duration),
+      elevationGain: climb,
+    });
+  };
+
+  route.segments.forEach(segment => {
+    const smoothed = smoothElevation(segment);
+
+    for (let i = 1; i < segment.length; i++) {
+      let stepMeters = haversineDistance(segment[i - 1], segment[i]);
+      let stepSeconds = (segment[i].timestamp - segment[i - 1].timestamp) / 1000;
+      let stepClimb = Math.max(0, smoothed[i] - smoothed[i - 1]);
+
+      while (stepMeters > 0 && splitMeters + stepMeters >= splitDistance) {
+        const needed = splitDistance - splitMeters;
+        const fraction = needed / stepMeters;
+
+        pushSplit(splitDistance, splitSeconds + stepSeconds * fraction, splitClimb + stepClimb * fraction);
+
+        stepMeters -= needed;
+        stepSeconds -= stepSeconds * fraction;
+        stepClimb -= stepClimb * fraction;
+        splitMeters = 0;
+        splitSeconds = 0;
+        splitClimb = 0;
+      }
+
+      splitMeters += stepMeters;
+      splitSeconds += stepSeconds;
+      splitClimb += stepClimb;
+    }
+  });
+
+  // Keep a trailing partial split if it is long enough to be meaningful
+  if (splitMeters >= 50) {
+    pushSplit(splitMeters, splitSeconds, splitClimb);
+  }
+
+  return splits;
+};
+
+/**
+ * Whether a new fix should be kept, given the last accepted one
+ */
+export const isPlausiblePoint = (previous: RoutePoint | undefined, next: RoutePoint): boolean => {
+  if (typeof next.accuracy === 'number' && next.accuracy > MAX_POINT_ACCURACY) {
+    return false;
+  }
+  if (!previous) return true;
+
+  const seconds = (next.timestamp - previous.timestamp) / 1000;
+  if (seconds <= 0) return false;
+
+  return haversineDistance(previous, next) / seconds <= MAX_PLAUSIBLE_SPEED;
+};
+
+/**
+ * True when the athlete has effectively stopped moving over the recent window
+ */
+export const shouldAutoPause = (
+  points: RoutePoint[],
+  speedThreshold: number = AUTO_PAUSE_SPEED,
+  windowSeconds: number = AUTO_PAUSE_WINDOW
+): boolean => {
+  if (points.length < 2) return false;
+
+  const latest = points[points.length - 1];
+  const windowStart = latest.timestamp - windowSeconds * 1000;
+  const recent = points.filter(p => p.timestamp >= windowStart);
+
+  // Not enough history yet to judge
+  if (recent.length < 2 || points[0].timestamp > windowStart) return false;
+
+  const seconds = (latest.timestamp - recent[0].timestamp) / 1000;
+  if (seconds <= 0) return false;
+
+  return calculateSegmentDistance(recent) / seconds < speedThreshold;
+};
+
+/**
+ * True when no fix has arrived for the whole auto-pause window. Location
+ * updates can stop entirely while standing still, so silence means stopped.
+ */
+export const isRouteIdle = (
+  points: RoutePoint[],
+  now: number,
+  windowSeconds: number = AUTO_PAUSE_WINDOW
+): boolean => {
+  const latest = points[points.length - 1];
+  if (!latest) return false;
+  return now - latest.timestamp >= windowSeconds * 1000;
+};
+
+/**
+ * True when the latest fix shows the athlete moving again
+ */
+export const shouldAutoResume = (
+  previous: RoutePoint | undefined,
+  next: RoutePoint,
+  speedThreshold: number = AUTO_PAUSE_SPEED
+): boolean => {
+  if (typeof next.speed === 'number' && next.speed >= 0) {
+    return next.speed >= speedThreshold * 2;
+  }
+  if (!previous) return false;
+
+  const seconds = (next.timestamp - previous.timestamp) / 1000;
+  if (seconds <= 0) return false;
+  return haversineDistance(previous, next) / seconds >= speedThreshold * 2;
+};
+
+/**
+ * Map a pace onto a green (fast) to red (slow) scale
+ */
+export const getPaceColor = (pace: number, fastestPace: number, slowestPace: number): string => {
+  if (!pace || slowestPace <= fastestPace) return '#4CAF50';
+
+  const ratio = Math.min(1, Math.max(0, (pace - fastestPace) / (slowestPace - fastestPace)));
+  // Green -> yellow -> red
+  const red = ratio < 0.5 ? Math.round(76 + (255 - 76) * (ratio / 0.5)) : 255;
+  const green = ratio < 0.5 ? Math.round(175 + (193 - 175) * (ratio / 0.5)) : Math.round(193 - (193 - 82) * ((ratio - 0.5) / 0.5));
+  const blue = ratio < 0.5 ? Math.round(80 - 80 * (ratio / 0.5)) : Math.round(82 * ((ratio - 0.5) / 0.5));
+
+  return `#${[red, green, blue].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Break a route into short polylines colored by their pace. Points are grouped
+ * in chunks so long recordings do not produce thousands of map overlays.
+ */
+export const buildPaceSegments = (route: ActivityRoute, pointsPerChunk: number = 10): PaceSegment[] => {
+  const chunks: Array<{ points: RoutePoint[]; pace: number }> = [];
+
+  route.segments.forEach(segment => {
+    for (let start = 0; start < segment.length - 1; start += pointsPerChunk) {
+      // Overlap by one point so consecutive chunks join up on the map
+      const points = segment.slice(start, start + pointsPerChunk + 1);
+      if (points.length < 2) continue;
+
+      const seconds = (points[points.length - 1].timestamp - points[0].timestamp) / 1000;
+      chunks.push({ points, pace: calculatePace(calculateSegmentDistance(points), seconds) });
+    }
+  });
+
+  const paces = chunks.map(c => c.pace).filter(p => p > 0).sort((a, b) => a - b);
+  // Use the 5th/95th percentile so a single outlier does not flatten the scale
+  const fastest = paces.length > 0 ? paces[Math.floor(paces.length * 0.05)] : 0;
+  const slowest = paces.length > 0 ? paces[Math.min(paces.length - 1, Math.floor(paces.length * 0.95))] : 0;
+
+  return chunks.map(chunk => ({
+    coordinates: chunk.points.map(p => ({ latitude: p.latitude, longitude: p.longitude })),
+    pace: chunk.pace,
+    color: getPaceColor(chunk.pace, fastest, slowest),
+  }));
+};
+
+/**
+ * Map region that fits the whole route with a little padding
+ */
+export const getRouteRegion = (route: ActivityRoute) => {
+  const points = getRoutePoints(route);
+  if (points.length === 0) return null;
+
+  let minLat = points[0].latitude;
+  let maxLat = points[0].latitude;
+  let minLon = points[0].longitude;
+  let maxLon = points[0].longitude;
+
+  points.forEach(p => {
+    minLat = Math.min(minLat, p.latitude);
+    maxLat = Math.max(maxLat, p.latitude);
+    minLon = Math.min(minLon, p.longitude);
+    maxLon = Math.max(maxLon, p.longitude);
+  });
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLon + maxLon) / 2,
+    latitudeDelta: Math.max(0.005, (maxLat - minLat) * 1.3),
+    longitudeDelta: Math.max(0.005, (maxLon - minLon) * 1.3),
+  };
+};
+
+/**
+ * Summary figures stored on an ActivityLog once recording stops
+ */
+export const summarizeRoute = (route: ActivityRoute) => {
+  return {
+    distance: calculateRouteDistance(route),
+    movingTime: calculateMovingTime(route),
+    elevationGain: calculateRouteElevationGain(route),
+    splits: calculateSplits(route),
+  };
+};
@@ -123,64 +123,6 @@ export const cleanupTemporaryFiles = async (): Promise<void> => {
   }
 };
 
-/**
- * Securely wipe all user data
- * This is a destructive operation that removes all user data from the device
- * 
- * @returns Promise resolving when wipe is complete
- */
-export const secureWipeAllUserData = async (): Promise<void> => {
-  if (Platform.OS === 'web') {
-    // For web, clear localStorage and sessionStorage
-    localStorage.clear();
-    sessionStorage.clear();
-    return;
-  }
-  
-  try {
-    // Get document directory
-    const docDir = FileSystem.documentDirectory;
-    if (!docDir) return;
-    
-    // List of directories to securely delete
-    const dirsToDelete = [
-      `${docDir}photos/`,
-      `${docDir}encrypted_photos/`,
-      `${docDir}exports/`,
-      `${docDir}logs/`,
-      `${docDir}workouts/`
-    ];
-    
-    // Securely delete each directory
-    for (const dir of dirsToDelete) {
-      const dirInfo = await FileSystem.getInfoAsync(dir);
-      if (dirInfo.exists) {
-        await secureDeleteDirectory(dir);
-      }
-    }
-    
-    // Clean up cache directory
-    await cleanupTemporaryFiles();
-    
-    // Also clean up any metadata files in the document directory
-    try {
-      const docContents = await FileSystem.readDirectoryAsync(docDir);
-      for (const item of docContents) {
-        if (item.endsWith('.metadata') || item.endsWith('.cache')) {
-          await FileSystem.deleteAsync(`${docDir}${item}`, { idempotent: true });
-        }
-      }
-    } catch (metadataError) {
-      console.warn('Error cleaning up metadata files:', metadataError);
-    }
-    
-    console.log('All user data securely wiped');
-  } catch (error) {
-    console.error('Error during secure data wipe:', error);
-    throw error;
-  }
-};
-
 /**
  * Securely delete a specific file and all associated metadata/cache files
  * 
@@ -265,18 +207,68 @@ export const secureDeleteSecureData = async (key: string): Promise<boolean> => {
   }
 };
 
-export const secureWipeAllData = async (): Promise<boolean> => {
-  try {
-    // Clear AsyncStorage
-    await AsyncStorage.clear();
-    
-    // Clear SecureStore (we need to know the keys to delete them)
-    // This is a limitation of SecureStore - we can't list all keys
-    // In a real app, you'd maintain a list of keys to delete
-    
-    return true;
-  } catch (error) {
-    console.error('Error wiping all data:', error);
-    return false;
+/**
+ * Overwrite and delete SecureStore entries. SecureStore can't list its keys,
+ * so callers pass every key they may have written
+ * 
+ * @param keys The SecureStore keys to wipe
+ * @returns The keys that held a value and were deleted
+ */
+export const secureWipeSecureStoreKeys = async (keys: string[]): Promise<string[]> => {
+  const wiped: string[] = [];
+  
+  if (Platform.OS === 'web') {
+    // SecureStore falls back to AsyncStorage on web
+    for (const key of keys) {
+      if (await AsyncStorage.getItem(key) !== null) {
+        await AsyncStorage.removeItem(key);
+        wiped.push(key);
+      }
+    }
+    return wiped;
+  }
+  
+  // For each key, first overwrite with random data, then delete
+  for (const key of keys) {
+    try {
+      // Get the current value to determine if it exists
+      const currentValue = await SecureStore.getItemAsync(key);
+      if (!currentValue) continue;
+      
+      // Generate random data of similar length
+      try {
+        const randomBytes = await Random.getRandomBytesAsync(
+          Math.max(currentValue.length, 32)
+        );
+        const randomData = Array.from(randomBytes)
+          .map(b => String.fromCharCode(b % 94 + 32)) // Printable ASCII
+          .join('');
+        
+        // Overwrite with random data
+        await SecureStore.setItemAsync(key, randomData);
+        
+        // Overwrite again with zeros
+        await SecureStore.setItemAsync(key, '0'.repeat(randomData.length));
+        
+        // Finally delete
+        await SecureStore.deleteItemAsync(key);
+      } catch (error) {
+        console.warn(`Error generating random data for key ${key}:`, error);
+        // Fallback to simple deletion
+        await SecureStore.deleteItemAsync(key);
+      }
+      wiped.push(key);
+    } catch (keyError) {
+      console.warn(`Error securely wiping key ${key}:`, keyError);
+      // Try regular deletion as fallback
+      try {
+        await SecureStore.deleteItemAsync(key);
+        wiped.push(key);
+      } catch (deleteError) {
+        console.error(`Failed to delete key ${key}:`, deleteError);
+      }
+    }
   }
-};
\ No newline at end of file
+  
+  return wiped;
+};
@@ -0,0 +1,58 @@
+import { SetType, WorkoutLog, WorkoutSet } from "@/types";
+
+export const SET_TYPES: SetType[] = ["warmup", "working", "drop", "rest_pause", "failure", "amrap"];
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: "Warm-up",
+  working: "Working",
+  drop: "Drop set",
+  rest_pause: "Rest-pause",
+  failure: "Failure",
+  amrap: "AMRAP",
+};
+
+// Shown in place of the set number in set tables
+export const SET_TYPE_SHORT_LABELS: Record<SetType, string> = {
+  warmup: "W",
+  working: "",
+  drop: "D",
+  rest_pause: "RP",
+  failure: "F",
+  amrap: "A",
+};
+
+export const getSetType = (set: Pick<WorkoutSet, "type">): SetType => set.type || "working";
+
+/**
+ * Warm-up sets are logged but don't count towards volume, records or progression
+ */
+export const isWorkingSet = (set: Pick<WorkoutSet, "type">): boolean => getSetType(set) !== "warmup";
+
+export const getSetVolume = (set: WorkoutSet): number => {
+  if (!isWorkingSet(set)) return 0;
+  return (set.weight || 0) * (set.reps || 1);
+};
+
+export const getWorkoutVolume = (log: Pick<WorkoutLog, "exercises">): number => {
+  return log.exercises?.reduce((total, exercise) => {
+    return total + (exercise.sets?.reduce((setTotal, set) => setTotal + getSetVolume(set), 0) || 0);
+  }, 0) || 0;
+};
+
+// RPE 10 means no reps left, so the two scales mirror each other
+export const rpeToRir = (rpe: number): number => Math.max(10 - rpe, 0);
+
+export const rirToRpe = (rir: number): number => Math.min(Math.max(10 - rir, 1), 10);
+
+export const isValidTempo = (tempo: string): boolean => /^[0-9xX]{4}$/.test(tempo);
+
+/**
+ * Compact effort and tempo summary for a set, e.g. "RPE 8 · 2 RIR · 3010"
+ */
+export const formatSetDetails = (set: Pick<WorkoutSet, "rpe" | "rir" | "tempo">): string => {
+  const parts: string[] = [];
+  if (set.rpe !== undefined) parts.push(`RPE ${set.rpe}`);
+  if (set.rir !== undefined) parts.push(`${set.rir} RIR`);
+  if (set.tempo) parts.push(set.tempo);
+  return parts.join(" · ");
+};
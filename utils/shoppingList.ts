@@ -0,0 +1,178 @@
+import { normalizeSearchText } from './fuzzySearch';
+
+// Consolidates recipe ingredient lines ("1/2 cup cooked quinoa") into one
+// shopping list entry per ingredient, with volumes and weights added up in
+// metric and converted back to kitchen units for display.
+
+type Dimension = 'volume' | 'weight' | 'count';
+
+const UNITS: Record<string, { dimension: Exclude<Dimension, 'count'>; factor: number }> = {
+  tsp: { dimension: 'volume', factor: 4.93 },
+  teaspoon: { dimension: 'volume', factor: 4.93 },
+  teaspoons: { dimension: 'volume', factor: 4.93 },
+  tbsp: { dimension: 'volume', factor: 14.79 },
+  tablespoon: { dimension: 'volume', factor: 14.79 },
+  tablespoons: { dimension: 'volume', factor: 14.79 },
+  cup: { dimension: 'volume', factor: 236.6 },
+  cups: { dimension: 'volume', factor: 236.6 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+  g: { dimension: 'weight', factor: 1 },
+  gram: { dimension: 'weight', factor: 1 },
+  grams: { dimension: 'weight', factor: 1 },
+  kg: { dimension: 'weight', factor: 1000 },
+  oz: { dimension: 'weight', factor: 28.35 },
+  ounce: { dimension: 'weight', factor: 28.35 },
+  ounces: { dimension: 'weight', factor: 28.35 },
+  lb: { dimension: 'weight', factor: 453.6 },
+  lbs: { dimension: 'weight', factor: 453.6 },
+  pound: { dimension: 'weight', factor: 453.6 },
+  pounds: { dimension: 'weight', factor: 453.6 },
+};
+
+// Counted units kept on the item ("2 scoops protein powder")
+const COUNT_UNITS = ['scoop', 'clove', 'slice', 'can', 'piece', 'pinch'];
+
+// How the ingredient is prepared doesn't change what to buy
+const PREPARATION_WORDS = ['cooked', 'grilled', 'roasted', 'frozen', 'fresh', 'chopped', 'minced', 'diced', 'sliced'];
+
+export interface ParsedIngredient {
+  name: string;
+  amount: number | null;
+  dimension: Dimension;
+  // Millilitres or grams for volume and weight, otherwise a count of `countUnit`
+  baseAmount: number | null;
+  countUnit?: string;
+}
+
+export interface ShoppingListItem {
+  key: string;
+  name: string;
+  dimension: Dimension;
+  baseAmount: number | null;
+  countUnit?: string;
+  label: string;
+}
+
+const parseAmount = (text: string): number => {
+  const [whole, fraction] = text.includes(' ') ? text.split(/\s+/) : [null, text];
+  const parsePart = (part: string) => {
+    const [numerator, denominator] = part.split('/').map(Number);
+    return denominator ? numerator / denominator : numerator;
+  };
+  return (whole ? Number(whole) : 0) + parsePart(fraction!);
+};
+
+export const parseIngredient = (line: string): ParsedIngredient => {
+  // Drop notes like "(optional)" and preparation after a comma
+  const text = line.replace(/\([^)]*\)/g, '').split(',')[0].trim().toLowerCase();
+  const amountMatch = text.match(/^(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+)\s*/);
+  const amount = amountMatch ? parseAmount(amountMatch[1]) : null;
+  let rest = amountMatch ? text.slice(amountMatch[0].length) : text;
+
+  const [firstWord] = rest.split(/\s+/);
+  const unit = UNITS[firstWord];
+  let countUnit: string | undefined;
+  if (unit) {
+    rest = rest.slice(firstWord.length);
+  } else {
+    countUnit = COUNT_UNITS.find(countWord => firstWord === countWord || firstWord === `${countWord}s`);
+    if (countUnit) rest = rest.slice(firstWord.length);
+  }
+
+  const name = rest
+    .replace(/^\s*of\s+/, '')
+    .split(/\s+/)
+    .filter(word => word && !PREPARATION_WORDS.includes(word))
+    .join(' ');
+
+  return {
+    name: name || text,
+    amount,
+    dimension: unit ? unit.dimension : 'count',
+    baseAmount: amount === null ? null : amount * (unit ? unit.factor : 1),
+    countUnit,
+  };
+};
+
+// Plurals share a key, so "1 egg" and "2 eggs" add up
+const itemKey = (ingredient: ParsedIngredient): string => {
+  const name = normalizeSearchText(ingredient.name)
+    .split(' ')
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+  return `${name}|${ingredient.dimension}|${ingredient.countUnit || ''}`;
+};
+
+const QUARTERS = ['', '1/4', '1/2', '3/4'];
+
+// Kitchen amounts to the nearest quarter, e.g. 1.5 -> "1 1/2"
+export const formatQuantity = (value: number): string => {
+  const quarters = Math.max(1, Math.round(value * 4));
+  const whole = Math.floor(quarters / 4);
+  const fraction = QUARTERS[quarters % 4];
+  if (!whole) return fraction;
+  return fraction ? `${whole} ${fraction}` : String(whole);
+};
+
+const formatVolume = (ml: number): string => {
+  if (ml >= 59) {
+    const cups = ml / 236.6;
+    return `${formatQuantity(cups)} cup${cups > 1.125 ? 's' : ''}`;
+  }
+  if (ml >= 14.79) return `${formatQuantity(ml / 14.79)} tbsp`;
+  return `${formatQuantity(ml / 4.93)} tsp`;
+};
+
+const formatWeight = (grams: number): string =>
+  grams >= 1000 ? `${Math.round(grams / 100) / 10} kg` : `${Math.max(5, Math.round(grams / 5) * 5)} g`;
+
+const formatItemLabel = (item: Omit<ShoppingListItem, 'label'>): string => {
+  if (item.baseAmount === null) return item.name;
+  if (item.dimension === 'volume') return `${formatVolume(item.baseAmount)} ${item.name}`;
+  if (item.dimension === 'weight') return `${formatWeight(item.baseAmount)} ${item.name}`;
+  // Whole items are bought whole, so a quarter avocado a day is still two avocados
+  const count = Math.ceil(item.baseAmount);
+  if (item.countUnit) return `${count} ${item.countUnit}${count === 1 ? '' : 's'} ${item.name}`;
+  return `${count} ${item.name}${count > 1 && !item.name.endsWith('s') ? 's' : ''}`;
+};
+
+/**
+ * One entry per ingredient, in the order the ingredients first appear
+ */
+export const buildShoppingList = (lines: string[]): ShoppingListItem[] => {
+  const items = new Map<string, Omit<ShoppingListItem, 'label'>>();
+
+  lines.forEach(line => {
+    const ingredient = parseIngredient(line);
+    const key = itemKey(ingredient);
+    const existing = items.get(key);
+    if (existing) {
+      existing.baseAmount = existing.baseAmount === null || ingredient.baseAmount === null
+        ? existing.baseAmount ?? ingredient.baseAmount
+        : existing.baseAmount + ingredient.baseAmount;
+    } else {
+      items.set(key, {
+        key,
+        name: ingredient.name,
+        dimension: ingredient.dimension,
+        baseAmount: ingredient.baseAmount,
+        countUnit: ingredient.countUnit,
+      });
+    }
+  });
+
+  return Array.from(items.values()).map(item => ({ ...item, label: formatItemLabel(item) }));
+};
+
+/**
+ * Plain text for sharing, with checked items ticked
+ */
+export const formatShoppingListText = (
+  title: string,
+  items: ShoppingListItem[],
+  checkedKeys: string[] = []
+): string => {
+  const lines = items.map(item => `${checkedKeys.includes(item.key) ? '[x]' : '[ ]'} ${item.label}`);
+  return [title, '', ...lines].join('\n');
+};
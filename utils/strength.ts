@@ -0,0 +1,246 @@
+import { OneRepMaxFormula, PersonalRecord, PersonalRecordType, UserProfile, WorkoutLog } from "@/types";
+import { isWorkingSet } from "./setTypes";
+
+export const ONE_REP_MAX_FORMULAS: Record<OneRepMaxFormula, string> = {
+  epley: "Epley",
+  brzycki: "Brzycki",
+  lombardi: "Lombardi",
+  wathan: "Wathan",
+};
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  weight: "Heaviest weight",
+  reps: "Most reps",
+  volume: "Best volume",
+  e1rm: "Estimated 1RM",
+};
+
+export const REP_MAX_TABLE_REPS = [1, 2, 3, 5, 8, 10, 12];
+
+/**
+ * Estimated one-rep max from a set. A single is its own max; the formulas
+ * are only meant for sets of up to about 12 reps.
+ */
+export const calculateOneRepMax = (weight: number, reps: number, formula: OneRepMaxFormula = "epley"): number => {
+  if (weight <= 0 || reps <= 0) return 0;
+  if (reps === 1) return weight;
+
+  switch (formula) {
+    case "brzycki":
+      // Breaks down past 36 reps, where the denominator reaches zero
+      return weight * 36 / Math.max(37 - reps, 1);
+    case "lombardi":
+      return weight * Math.pow(reps, 0.1);
+    case "wathan":
+      return (100 * weight) / (48.8 + 53.8 * Math.exp(-0.075 * reps));
+    default:
+      return weight * (1 + reps / 30);
+  }
+};
+
+export const calculateAllOneRepMaxes = (weight: number, reps: number): Record<OneRepMaxFormula, number> => ({
+  epley: calculateOneRepMax(weight, reps, "epley"),
+  brzycki: calculateOneRepMax(weight, reps, "brzycki"),
+  lombardi: calculateOneRepMax(weight, reps, "lombardi"),
+  wathan: calculateOneRepMax(weight, reps, "wathan"),
+});
+
+/**
+ * The weight that should be possible for `reps` reps, i.e. the formula solved
+ * the other way round
+ */
+export const predictRepMax = (oneRepMax: number, reps: number, formula: OneRepMaxFormula = "epley"): number => {
+  if (oneRepMax <= 0 || reps <= 0) return 0;
+  if (reps === 1) return oneRepMax;
+
+  switch (formula) {
+    case "brzycki":
+      return oneRepMax * Math.max(37 - reps, 0) / 36;
+    case "lombardi":
+      return oneRepMax / Math.pow(reps, 0.1);
+    case "wathan":
+      return oneRepMax * (48.8 + 53.8 * Math.exp(-0.075 * reps)) / 100;
+    default:
+      return oneRepMax / (1 + reps / 30);
+  }
+};
+
+export const buildRepMaxTable = (
+  oneRepMax: number,
+  formula: OneRepMaxFormula = "epley",
+  reps: number[] = REP_MAX_TABLE_REPS
+): { reps: number; weight: number; percent: number }[] => {
+  return reps.map(count => {
+    const weight = predictRepMax(oneRepMax, count, formula);
+    return {
+      reps: count,
+      weight: Math.round(weight * 10) / 10,
+      percent: oneRepMax > 0 ? Math.round((weight / oneRepMax) * 100) : 0,
+    };
+  });
+};
+
+/**
+ * Best estimated one-rep max of each completed workout with the exercise,
+ * oldest first
+ */
+export const getOneRepMaxHistory = (
+  workoutLogs: WorkoutLog[],
+  exerciseId: string,
+  formula: OneRepMaxFormula = "epley"
+): { date: string; value: number; weight: number; reps: number }[] => {
+  return workoutLogs
+    .filter(log => log.completed)
+    .map(log => {
+      let best = { date: log.date, value: 0, weight: 0, reps: 0 };
+      log.exercises
+        .filter(exercise => exercise.exerciseId === exerciseId)
+        .flatMap(exercise => exercise.sets)
+        .filter(set => set.completed && isWorkingSet(set))
+        .forEach(set => {
+          const value = calculateOneRepMax(set.weight, set.reps, formula);
+          if (value > best.value) {
+            best = { date: log.date, value, weight: set.weight, reps: set.reps };
+          }
+        });
+      return best;
+    })
+    .filter(entry => entry.value > 0)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// Records saved before record types existed have no type
+export const getRecordType = (record: PersonalRecord): PersonalRecordType => record.type || "e1rm";
+
+/**
+ * The record a set or workout would have to beat. Reps records are kept per
+ * weight, every other type once per exercise.
+ */
+export const findPersonalRecord = (
+  records: PersonalRecord[],
+  exerciseId: string,
+  type: PersonalRecordType,
+  weight?: number
+): PersonalRecord | null => {
+  return records.find(record =>
+    record.exerciseId === exerciseId &&
+    getRecordType(record) === type &&
+    (type !== "reps" || record.weight === weight)
+  ) || null;
+};
+
+export type StrengthLevel = "beginner" | "novice" | "intermediate" | "advanced" | "elite";
+
+export const STRENGTH_LEVELS: StrengthLevel[] = ["beginner", "novice", "intermediate", "advanced", "elite"];
+
+export const STRENGTH_LEVEL_LABELS: Record<StrengthLevel, string> = {
+  beginner: "Beginner",
+  novice: "Novice",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+  elite: "Elite",
+};
+
+interface StrengthStandard {
+  exerciseNames: string[];
+  // One-rep max as a multiple of bodyweight for each level
+  male: number[];
+  female: number[];
+}
+
+const STRENGTH_STANDARDS: StrengthStandard[] = [
+  {
+    exerciseNames: ["squat", "back squat", "barbell squat"],
+    male: [0.75, 1.25, 1.5, 2.25, 2.75],
+    female: [0.5, 0.75, 1.25, 1.5, 1.75],
+  },
+  {
+    exerciseNames: ["bench press", "barbell bench press"],
+    male: [0.5, 1, 1.25, 1.75, 2],
+    female: [0.25, 0.5, 0.75, 1, 1.5],
+  },
+  {
+    exerciseNames: ["deadlift", "conventional deadlift"],
+    male: [1, 1.5, 2, 2.5, 3],
+    female: [0.5, 1, 1.25, 1.75, 2.5],
+  },
+  {
+    exerciseNames: ["overhead press", "barbell overhead press", "military press"],
+    male: [0.35, 0.55, 0.8, 1.05, 1.35],
+    female: [0.2, 0.35, 0.5, 0.75, 1],
+  },
+  {
+    exerciseNames: ["barbell row", "bent-over row", "bent over row"],
+    male: [0.5, 0.75, 1, 1.5, 1.75],
+    female: [0.25, 0.4, 0.65, 0.9, 1.2],
+  },
+];
+
+export interface StrengthStandardResult {
+  level: StrengthLevel | null;
+  ratio: number;
+  nextLevel: StrengthLevel | null;
+  nextLevelWeight: number | null;
+  thresholds: { level: StrengthLevel; weight: number }[];
+}
+
+/**
+ * Where a one-rep max sits against bodyweight-relative standards. Only the
+ * main barbell lifts have standards; anything else returns null.
+ */
+export const getStrengthStandard = (
+  exerciseName: string,
+  oneRepMax: number,
+  profile: Pick<UserProfile, "weight" | "gender">
+): StrengthStandardResult | null => {
+  const standard = STRENGTH_STANDARDS.find(s => s.exerciseNames.includes(exerciseName.trim().toLowerCase()));
+  if (!standard || !profile.weight || profile.weight <= 0) return null;
+
+  // Without a male or female table, use the midpoint of both
+  const multiples = profile.gender === "male"
+    ? standard.male
+    : profile.gender === "female"
+      ? standard.female
+      : standard.male.map((value, index) => (value + standard.female[index]) / 2);
+
+  const thresholds = STRENGTH_LEVELS.map((level, index) => ({
+    level,
+    weight: Math.round(multiples[index] * profile.weight * 2) / 2,
+  }));
+  const reached = thresholds.filter(threshold => oneRepMax >= threshold.weight);
+  const next = thresholds.find(threshold => oneRepMax < threshold.weight) || null;
+
+  return {
+    level: reached.length > 0 ? reached[reached.length - 1].level : null,
+    ratio: Math.round((oneRepMax / profile.weight) * 100) / 100,
+    nextLevel: next ? next.level : null,
+    nextLevelWeight: next ? next.weight : null,
+    thresholds,
+  };
+};
+
+// Old e1RM records only stored the estimate
+export const getRecordValue = (record: PersonalRecord): number => record.value ?? record.estimatedOneRepMax;
+
+export const createPersonalRecord = (
+  exercise: { id: string; name: string },
+  type: PersonalRecordType,
+  value: number,
+  performance: { weight: number; reps: number; estimatedOneRepMax: number },
+  previous: PersonalRecord | null
+): PersonalRecord => {
+  const previousBest = previous ? getRecordValue(previous) : 0;
+  return {
+    id: `${Date.now()}-${exercise.id}-${type}-${Math.random().toString(36).slice(2, 8)}`,
+    exerciseId: exercise.id,
+    exerciseName: exercise.name,
+    type,
+    value,
+    weight: performance.weight,
+    reps: performance.reps,
+    estimatedOneRepMax: performance.estimatedOneRepMax,
+    date: new Date().toISOString(),
+    previousBest,
+    improvement: value - previousBest,
+  };
+};
@@ -63,9 +63,16 @@ export function validateWorkout(workout: Workout, exercises: Exercise[]): Workou
     console.warn(`Workout "${workout.name}" had ${workout.exercises.length - validatedExercises.length} invalid exercises`);
   }
 
+  // Drop group members that are no longer in the workout, and groups left with fewer than two
+  const exerciseIds = validatedExercises.map(exercise => exercise.id);
+  const groups = workout.groups
+    ?.map(group => ({ ...group, exerciseIds: group.exerciseIds.filter(id => exerciseIds.includes(id)) }))
+    .filter(group => group.exerciseIds.length >= 2);
+
   return {
     ...workout,
-    exercises: validatedExercises
+    exercises: validatedExercises,
+    groups
   };
 }
 
@@ -167,4 +174,19 @@ export function filterWorkoutsForUser({
     if (w.minActivityLevel && w.minActivityLevel !== userProfile.activityLevel) return false;
     return true;
   });
-} 
\ No newline at end of file
+} 
+const RECOVERY_KEYWORDS = /mobility|flexibility|stretch|yoga|recovery|gentle/i;
+
+/**
+ * Pick lighter workouts for a recovery day: mobility and stretching sessions
+ * first, then beginner workouts with the lowest calorie burn
+ * @param workouts - Array of workouts
+ * @returns Recovery workouts, most restful first
+ */
+export function getRecoveryWorkouts(workouts: any[]) {
+  const mobility = workouts.filter(w => RECOVERY_KEYWORDS.test(w.name || ""));
+  const easy = workouts
+    .filter(w => w.difficulty === 'beginner' && !mobility.includes(w))
+    .sort((a, b) => (a.calories || 0) - (b.calories || 0));
+  return [...mobility, ...easy];
+}